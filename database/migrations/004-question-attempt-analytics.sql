@@ -0,0 +1,215 @@
+-- =====================================================
+-- QUESTION ATTEMPT ANALYTICS - PHASE 4
+-- The submit route now writes question_attempts rows and updates
+-- question_analytics incrementally (src/lib/grading/persistence.ts)
+-- through record_question_observations().
+-- This migration adds the supporting index and rewrites
+-- update_question_analytics() so a full rebuild produces the same
+-- numbers as the incremental path, including discrimination_index.
+-- =====================================================
+
+-- NOTE: Safe to run in Supabase SQL Editor
+
+-- =====================================================
+-- 1. INDEXES
+-- Item analysis reads attempts per question
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_question_attempts_question
+  ON public.question_attempts(question_id, created_at DESC);
+
+-- =====================================================
+-- 2. FOREIGN KEYS
+-- Removing a question in the editor removes its attempt history
+-- instead of blocking the save
+-- =====================================================
+
+ALTER TABLE public.question_attempts
+  DROP CONSTRAINT IF EXISTS question_attempts_question_id_fkey,
+  ADD CONSTRAINT question_attempts_question_id_fkey
+    FOREIGN KEY (question_id) REFERENCES public.quiz_questions(id) ON DELETE CASCADE;
+
+ALTER TABLE public.question_attempts
+  DROP CONSTRAINT IF EXISTS question_attempts_quiz_attempt_id_fkey,
+  ADD CONSTRAINT question_attempts_quiz_attempt_id_fkey
+    FOREIGN KEY (quiz_attempt_id) REFERENCES public.quiz_attempts(id) ON DELETE CASCADE;
+
+ALTER TABLE public.question_analytics
+  DROP CONSTRAINT IF EXISTS question_analytics_question_id_fkey,
+  ADD CONSTRAINT question_analytics_question_id_fkey
+    FOREIGN KEY (question_id) REFERENCES public.quiz_questions(id) ON DELETE CASCADE;
+
+-- =====================================================
+-- 3. FULL REBUILD OF QUESTION ANALYTICS
+-- difficulty_rating  = 1 - mean credit (0 = easy, 1 = hard)
+-- discrimination_index = correlation between item credit and the
+--                        student's score on the rest of the attempt
+-- metadata.sums holds the running sums used for incremental updates
+-- Essays awaiting manual grading are excluded until graded
+-- =====================================================
+
+DROP FUNCTION IF EXISTS public.update_question_analytics() CASCADE;
+
+CREATE OR REPLACE FUNCTION public.update_question_analytics()
+RETURNS void AS $$
+BEGIN
+  WITH attempt_totals AS (
+    SELECT
+      quiz_attempt_id,
+      SUM(points_earned) AS earned,
+      SUM(points_possible) AS possible
+    FROM public.question_attempts
+    GROUP BY quiz_attempt_id
+  ),
+  observations AS (
+    SELECT
+      qa.question_id,
+      qa.is_correct,
+      COALESCE(qa.time_spent_seconds, 0) AS time_spent,
+      CASE
+        WHEN qa.points_possible > 0 THEN LEAST(1, GREATEST(0, qa.points_earned / qa.points_possible))
+        ELSE 0
+      END AS x,
+      CASE
+        WHEN t.possible - qa.points_possible > 0
+          THEN LEAST(1, GREATEST(0, (t.earned - qa.points_earned) / (t.possible - qa.points_possible)))
+        ELSE 0
+      END AS y
+    FROM public.question_attempts qa
+    JOIN attempt_totals t ON t.quiz_attempt_id = qa.quiz_attempt_id
+    WHERE COALESCE((qa.metadata->>'requires_manual_grading')::boolean, false) = false
+  )
+  INSERT INTO public.question_analytics (
+    question_id,
+    total_attempts,
+    correct_attempts,
+    average_time_seconds,
+    difficulty_rating,
+    discrimination_index,
+    last_updated,
+    metadata
+  )
+  SELECT
+    o.question_id,
+    COUNT(*) AS total_attempts,
+    COUNT(CASE WHEN o.is_correct = true THEN 1 END) AS correct_attempts,
+    ROUND(AVG(o.time_spent)::numeric, 2) AS average_time_seconds,
+    ROUND((1 - AVG(o.x))::numeric, 3) AS difficulty_rating,
+    ROUND(COALESCE(CORR(o.x, o.y), 0)::numeric, 3) AS discrimination_index,
+    NOW() AS last_updated,
+    jsonb_build_object(
+      'sums', jsonb_build_object(
+        'n', COUNT(*),
+        'sum_x', SUM(o.x),
+        'sum_y', SUM(o.y),
+        'sum_xx', SUM(o.x * o.x),
+        'sum_yy', SUM(o.y * o.y),
+        'sum_xy', SUM(o.x * o.y),
+        'sum_time', SUM(o.time_spent)
+      )
+    ) AS metadata
+  FROM observations o
+  GROUP BY o.question_id
+  ON CONFLICT (question_id) DO UPDATE SET
+    total_attempts = EXCLUDED.total_attempts,
+    correct_attempts = EXCLUDED.correct_attempts,
+    average_time_seconds = EXCLUDED.average_time_seconds,
+    difficulty_rating = EXCLUDED.difficulty_rating,
+    discrimination_index = EXCLUDED.discrimination_index,
+    last_updated = EXCLUDED.last_updated,
+    metadata = COALESCE(public.question_analytics.metadata, '{}'::jsonb) || EXCLUDED.metadata;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Rebuilds are an admin task; the submit route updates rows incrementally
+REVOKE EXECUTE ON FUNCTION public.update_question_analytics FROM authenticated;
+
+-- =====================================================
+-- 4. INCREMENTAL UPDATES
+-- record_question_observations() folds new attempts into question_analytics.
+-- Each question's counts and running sums are incremented by one
+-- INSERT ... ON CONFLICT DO UPDATE, which holds the row lock until the
+-- derived columns are written, so concurrent submits cannot lose each
+-- other's observations. Same arithmetic as applyItemObservation in
+-- src/lib/grading/item-analytics.ts.
+-- observations: [{ question_id, credit, is_correct, rest_score, time_spent_seconds }]
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.record_question_observations(observations jsonb)
+RETURNS integer AS $$
+DECLARE
+  obs jsonb;
+  x numeric;
+  y numeric;
+  t numeric;
+  sums jsonb;
+  n numeric;
+  variance_x numeric;
+  variance_y numeric;
+  recorded integer := 0;
+BEGIN
+  FOR obs IN SELECT value FROM jsonb_array_elements(COALESCE(observations, '[]'::jsonb)) LOOP
+    x := LEAST(1, GREATEST(0, COALESCE((obs->>'credit')::numeric, 0)));
+    y := LEAST(1, GREATEST(0, COALESCE((obs->>'rest_score')::numeric, 0)));
+    t := GREATEST(0, COALESCE((obs->>'time_spent_seconds')::numeric, 0));
+
+    INSERT INTO public.question_analytics AS qa (question_id, total_attempts, correct_attempts, metadata)
+    VALUES (
+      (obs->>'question_id')::uuid,
+      1,
+      CASE WHEN COALESCE((obs->>'is_correct')::boolean, false) THEN 1 ELSE 0 END,
+      jsonb_build_object('sums', jsonb_build_object(
+        'n', 1, 'sum_x', x, 'sum_y', y, 'sum_xx', x * x, 'sum_yy', y * y, 'sum_xy', x * y, 'sum_time', t
+      ))
+    )
+    ON CONFLICT (question_id) DO UPDATE SET
+      total_attempts = COALESCE(qa.total_attempts, 0) + 1,
+      correct_attempts = COALESCE(qa.correct_attempts, 0) + EXCLUDED.correct_attempts,
+      metadata = COALESCE(qa.metadata, '{}'::jsonb) || jsonb_build_object('sums', jsonb_build_object(
+        'n', COALESCE((qa.metadata->'sums'->>'n')::numeric, 0) + 1,
+        'sum_x', COALESCE((qa.metadata->'sums'->>'sum_x')::numeric, 0) + x,
+        'sum_y', COALESCE((qa.metadata->'sums'->>'sum_y')::numeric, 0) + y,
+        'sum_xx', COALESCE((qa.metadata->'sums'->>'sum_xx')::numeric, 0) + x * x,
+        'sum_yy', COALESCE((qa.metadata->'sums'->>'sum_yy')::numeric, 0) + y * y,
+        'sum_xy', COALESCE((qa.metadata->'sums'->>'sum_xy')::numeric, 0) + x * y,
+        'sum_time', COALESCE((qa.metadata->'sums'->>'sum_time')::numeric, 0) + t
+      ))
+    RETURNING qa.metadata->'sums' INTO sums;
+
+    n := (sums->>'n')::numeric;
+    variance_x := n * (sums->>'sum_xx')::numeric - (sums->>'sum_x')::numeric * (sums->>'sum_x')::numeric;
+    variance_y := n * (sums->>'sum_yy')::numeric - (sums->>'sum_y')::numeric * (sums->>'sum_y')::numeric;
+
+    UPDATE public.question_analytics SET
+      average_time_seconds = ROUND((sums->>'sum_time')::numeric / n, 2),
+      difficulty_rating = ROUND(1 - (sums->>'sum_x')::numeric / n, 3),
+      discrimination_index = CASE
+        WHEN n < 2 OR variance_x <= 0 OR variance_y <= 0 THEN 0
+        ELSE ROUND(
+          (n * (sums->>'sum_xy')::numeric - (sums->>'sum_x')::numeric * (sums->>'sum_y')::numeric)
+            / SQRT(variance_x * variance_y),
+          3
+        )
+      END,
+      last_updated = NOW()
+    WHERE question_id = (obs->>'question_id')::uuid;
+
+    recorded := recorded + 1;
+  END LOOP;
+
+  RETURN recorded;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Only the server (service role) records attempts
+REVOKE EXECUTE ON FUNCTION public.record_question_observations(jsonb) FROM PUBLIC, anon, authenticated;
+
+-- =====================================================
+-- VERIFICATION
+-- =====================================================
+
+-- SELECT update_question_analytics();
+-- SELECT question_id, total_attempts, difficulty_rating, discrimination_index
+-- FROM public.question_analytics
+-- ORDER BY discrimination_index ASC
+-- LIMIT 10;
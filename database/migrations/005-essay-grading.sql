@@ -0,0 +1,66 @@
+-- =====================================================
+-- ESSAY GRADING QUEUE - PHASE 5
+-- Essay answers are saved as pending question_attempts on submit and
+-- graded by an instructor against the question's rubric.
+-- The parent quiz attempt reports 'pending_review' until every pending
+-- answer is graded, then its score and passed flag are re-finalized.
+-- =====================================================
+
+-- NOTE: Safe to run in Supabase SQL Editor
+
+-- =====================================================
+-- 1. ATTEMPT GRADING STATUS
+-- =====================================================
+
+ALTER TABLE public.quiz_attempts
+  ADD COLUMN IF NOT EXISTS grading_status text NOT NULL DEFAULT 'graded'
+    CHECK (grading_status IN ('graded', 'pending_review')),
+  ADD COLUMN IF NOT EXISTS graded_at timestamp with time zone;
+
+-- =====================================================
+-- 2. PER-ANSWER GRADING
+-- auto    = scored by the server graders on submit
+-- pending = waiting in the grading queue
+-- graded  = scored by an instructor
+-- =====================================================
+
+ALTER TABLE public.question_attempts
+  ADD COLUMN IF NOT EXISTS grading_status text NOT NULL DEFAULT 'auto'
+    CHECK (grading_status IN ('auto', 'pending', 'graded')),
+  ADD COLUMN IF NOT EXISTS grader_feedback text,
+  ADD COLUMN IF NOT EXISTS graded_by uuid REFERENCES public.users(id),
+  ADD COLUMN IF NOT EXISTS graded_at timestamp with time zone;
+
+-- Backfill answers saved before this migration
+UPDATE public.question_attempts
+SET grading_status = 'pending'
+WHERE grading_status = 'auto'
+  AND COALESCE((metadata->>'requires_manual_grading')::boolean, false) = true;
+
+UPDATE public.quiz_attempts qa
+SET grading_status = 'pending_review',
+    passed = false
+WHERE EXISTS (
+  SELECT 1 FROM public.question_attempts q
+  WHERE q.quiz_attempt_id = qa.id AND q.grading_status = 'pending'
+);
+
+-- =====================================================
+-- 3. INDEXES
+-- The queue lists pending answers oldest first
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_question_attempts_pending
+  ON public.question_attempts(created_at)
+  WHERE grading_status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_pending_review
+  ON public.quiz_attempts(quiz_id)
+  WHERE grading_status = 'pending_review';
+
+-- =====================================================
+-- VERIFICATION
+-- =====================================================
+
+-- SELECT grading_status, COUNT(*) FROM public.question_attempts GROUP BY grading_status;
+-- SELECT grading_status, COUNT(*) FROM public.quiz_attempts GROUP BY grading_status;
@@ -0,0 +1,52 @@
+-- =====================================================
+-- ADAPTIVE (CAT) DELIVERY - PHASE 6
+-- adaptive_quiz_settings drives one-question-at-a-time delivery from an IRT
+-- ability estimate. The delivered sequence and answers live in quiz_sessions
+-- (session_data.mode = 'adaptive') so the client cannot rewrite them, and the
+-- final estimate is stored on the attempt.
+-- =====================================================
+
+-- NOTE: Safe to run in Supabase SQL Editor
+
+-- =====================================================
+-- 1. SETTINGS CONSTRAINTS
+-- =====================================================
+
+ALTER TABLE public.adaptive_quiz_settings
+  DROP CONSTRAINT IF EXISTS adaptive_quiz_settings_question_range,
+  ADD CONSTRAINT adaptive_quiz_settings_question_range
+    CHECK (min_questions >= 1 AND max_questions >= min_questions);
+
+ALTER TABLE public.adaptive_quiz_settings
+  DROP CONSTRAINT IF EXISTS adaptive_quiz_settings_target_accuracy_range,
+  ADD CONSTRAINT adaptive_quiz_settings_target_accuracy_range
+    CHECK (target_accuracy > 0 AND target_accuracy < 1);
+
+ALTER TABLE public.adaptive_quiz_settings
+  DROP CONSTRAINT IF EXISTS adaptive_quiz_settings_quiz_id_fkey,
+  ADD CONSTRAINT adaptive_quiz_settings_quiz_id_fkey
+    FOREIGN KEY (quiz_id) REFERENCES public.quizzes(id) ON DELETE CASCADE;
+
+-- =====================================================
+-- 2. ATTEMPT ABILITY ESTIMATE
+-- { theta, standard_error, method, items_administered, stop_reason }
+-- =====================================================
+
+ALTER TABLE public.quiz_attempts
+  ADD COLUMN IF NOT EXISTS adaptive_result jsonb;
+
+-- =====================================================
+-- 3. SESSION LOOKUP
+-- The delivery endpoint looks up the active session per user and quiz
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_quiz_sessions_active
+  ON public.quiz_sessions(user_id, quiz_id)
+  WHERE is_active = true;
+
+-- =====================================================
+-- VERIFICATION
+-- =====================================================
+
+-- SELECT quiz_id, enabled, min_questions, max_questions, stopping_criteria FROM public.adaptive_quiz_settings;
+-- SELECT id, adaptive_result FROM public.quiz_attempts WHERE adaptive_result IS NOT NULL LIMIT 10;
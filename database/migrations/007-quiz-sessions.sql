@@ -0,0 +1,60 @@
+-- =====================================================
+-- SERVER-AUTHORITATIVE QUIZ SESSIONS - PHASE 7
+-- Every attempt runs in a quiz_sessions row: started_at and expires_at are set by
+-- the server on start, heartbeats save progress in session_data so the attempt
+-- can resume on another device, and submissions past expires_at plus the grace
+-- period are closed with the last saved answers.
+-- =====================================================
+
+-- NOTE: Safe to run in Supabase SQL Editor
+
+-- =====================================================
+-- 1. DEADLINE
+-- Fixed on start so later edits to the quiz time limit don't move it
+-- NULL for quizzes without a time limit
+-- =====================================================
+
+ALTER TABLE public.quiz_sessions
+  ADD COLUMN IF NOT EXISTS expires_at timestamp with time zone;
+
+-- =====================================================
+-- 2. ONE ACTIVE SESSION PER STUDENT AND QUIZ
+-- Close duplicates left by earlier clients, keeping the most recent one
+-- =====================================================
+
+UPDATE public.quiz_sessions s
+SET is_active = false,
+    ended_at = COALESCE(s.ended_at, now())
+WHERE s.is_active = true
+  AND EXISTS (
+    SELECT 1 FROM public.quiz_sessions newer
+    WHERE newer.user_id = s.user_id
+      AND newer.quiz_id = s.quiz_id
+      AND newer.is_active = true
+      AND (newer.started_at > s.started_at OR (newer.started_at = s.started_at AND newer.id > s.id))
+  );
+
+DROP INDEX IF EXISTS public.idx_quiz_sessions_active;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_quiz_sessions_one_active
+  ON public.quiz_sessions(user_id, quiz_id)
+  WHERE is_active = true;
+
+-- =====================================================
+-- 3. ACCESS
+-- Sessions are read and written by the API with the service role only,
+-- so students cannot move their own deadline
+-- =====================================================
+
+ALTER TABLE public.quiz_sessions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own quiz sessions" ON public.quiz_sessions;
+CREATE POLICY "Users can view own quiz sessions" ON public.quiz_sessions
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- =====================================================
+-- VERIFICATION
+-- =====================================================
+
+-- SELECT user_id, quiz_id, COUNT(*) FROM public.quiz_sessions WHERE is_active GROUP BY 1, 2 HAVING COUNT(*) > 1;
+-- SELECT id, started_at, expires_at, last_activity_at FROM public.quiz_sessions WHERE is_active LIMIT 10;
@@ -0,0 +1,66 @@
+-- =====================================================
+-- QUIZ ATTEMPT POLICIES - PHASE 8
+-- retake_policy, availability_window and grading_policy on quizzes are now
+-- enforced by the API when an attempt starts and when it is submitted, and
+-- grading_policy.method picks the official score shown on dashboards.
+-- =====================================================
+
+-- NOTE: Safe to run in Supabase SQL Editor
+
+-- =====================================================
+-- 1. DEFAULTS FOR EXISTING QUIZZES
+-- =====================================================
+
+UPDATE public.quizzes
+SET retake_policy = '{"allowed": true, "max_attempts": 0, "cooldown_hours": 0}'::jsonb
+WHERE retake_policy IS NULL;
+
+UPDATE public.quizzes
+SET availability_window = '{"end_date": null, "timezone": "UTC", "start_date": null}'::jsonb
+WHERE availability_window IS NULL;
+
+UPDATE public.quizzes
+SET grading_policy = '{"method": "highest", "partial_credit": false, "show_correct_answers": true}'::jsonb
+WHERE grading_policy IS NULL;
+
+-- =====================================================
+-- 2. POLICY CONSTRAINTS
+-- Mirrors validateQuizPolicies in src/lib/quiz-policies.ts
+-- =====================================================
+
+ALTER TABLE public.quizzes
+  DROP CONSTRAINT IF EXISTS quizzes_retake_policy_valid,
+  ADD CONSTRAINT quizzes_retake_policy_valid
+    CHECK (
+      jsonb_typeof(retake_policy) = 'object'
+      AND COALESCE((retake_policy->>'max_attempts')::numeric, 0) >= 0
+      AND COALESCE((retake_policy->>'cooldown_hours')::numeric, 0) >= 0
+    );
+
+ALTER TABLE public.quizzes
+  DROP CONSTRAINT IF EXISTS quizzes_grading_policy_method,
+  ADD CONSTRAINT quizzes_grading_policy_method
+    CHECK (
+      jsonb_typeof(grading_policy) = 'object'
+      AND COALESCE(grading_policy->>'method', 'highest') IN ('highest', 'latest', 'average')
+    );
+
+ALTER TABLE public.quizzes
+  DROP CONSTRAINT IF EXISTS quizzes_availability_window_valid,
+  ADD CONSTRAINT quizzes_availability_window_valid
+    CHECK (jsonb_typeof(availability_window) = 'object');
+
+-- =====================================================
+-- 3. ATTEMPT HISTORY LOOKUP
+-- Start and submit read every attempt of a student for the quiz
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_user_quiz_created
+  ON public.quiz_attempts(user_id, quiz_id, created_at);
+
+-- =====================================================
+-- VERIFICATION
+-- =====================================================
+
+-- SELECT id, title, retake_policy, availability_window, grading_policy FROM public.quizzes LIMIT 10;
+-- SELECT conname FROM pg_constraint WHERE conrelid = 'public.quizzes'::regclass AND (conname LIKE 'quizzes_%_valid' OR conname = 'quizzes_grading_policy_method');
@@ -0,0 +1,79 @@
+-- =====================================================
+-- QUESTION BANK & DRAW-PER-ATTEMPT QUIZZES - PHASE 9
+-- question_templates becomes the question bank. A quiz can list draw rules
+-- ("5 advanced grammar items + 10 intermediate vocab items"); each attempt
+-- gets a seeded draw made when its session starts, and the drawn items are
+-- copied onto the attempt so review and grading don't change when the bank
+-- is edited (src/lib/question-bank).
+-- =====================================================
+
+-- NOTE: Safe to run in Supabase SQL Editor
+
+-- =====================================================
+-- 1. DRAW RULES
+-- [{ count, category?, difficulty?, question_type?, tags? }]
+-- Empty list = the quiz only uses its own questions
+-- =====================================================
+
+ALTER TABLE public.quizzes
+  ADD COLUMN IF NOT EXISTS draw_rules jsonb NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.quizzes
+  DROP CONSTRAINT IF EXISTS quizzes_draw_rules_array,
+  ADD CONSTRAINT quizzes_draw_rules_array
+    CHECK (jsonb_typeof(draw_rules) = 'array');
+
+-- =====================================================
+-- 2. DRAW STORED ON THE ATTEMPT
+-- { seed, rules, template_ids, questions }
+-- =====================================================
+
+ALTER TABLE public.quiz_attempts
+  ADD COLUMN IF NOT EXISTS question_draw jsonb;
+
+-- =====================================================
+-- 3. ANSWERS TO BANK ITEMS
+-- Bank items have no quiz_questions row, so their question_attempts point
+-- at the template instead
+-- =====================================================
+
+ALTER TABLE public.question_attempts
+  ADD COLUMN IF NOT EXISTS template_id uuid;
+
+ALTER TABLE public.question_attempts
+  DROP CONSTRAINT IF EXISTS question_attempts_template_id_fkey,
+  ADD CONSTRAINT question_attempts_template_id_fkey
+    FOREIGN KEY (template_id) REFERENCES public.question_templates(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_question_attempts_template
+  ON public.question_attempts(template_id)
+  WHERE template_id IS NOT NULL;
+
+-- =====================================================
+-- 4. BANK BROWSING
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_question_templates_category_difficulty
+  ON public.question_templates(category, difficulty);
+
+CREATE INDEX IF NOT EXISTS idx_question_templates_tags
+  ON public.question_templates USING gin(tags);
+
+-- =====================================================
+-- 5. ACCESS
+-- Templates hold correct answers: only the API (service role) reads them
+-- =====================================================
+
+ALTER TABLE public.question_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage question templates" ON public.question_templates;
+CREATE POLICY "Admins can manage question templates" ON public.question_templates
+  FOR ALL USING (is_admin()) WITH CHECK (is_admin());
+
+-- =====================================================
+-- VERIFICATION
+-- =====================================================
+
+-- SELECT id, title, draw_rules FROM public.quizzes WHERE draw_rules <> '[]'::jsonb;
+-- SELECT category, difficulty, COUNT(*) FROM public.question_templates GROUP BY 1, 2 ORDER BY 1, 2;
+-- SELECT id, question_draw->'seed', jsonb_array_length(question_draw->'template_ids') FROM public.quiz_attempts WHERE question_draw IS NOT NULL LIMIT 10;
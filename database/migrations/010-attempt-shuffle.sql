@@ -0,0 +1,25 @@
+-- =====================================================
+-- PER-ATTEMPT SHUFFLING - PHASE 10
+-- shuffle_questions / randomize_questions reorder an attempt's questions and
+-- shuffle_options / quiz_questions.randomize_options permute choice options.
+-- The order is generated from a seed when the session starts and kept with the
+-- attempt; answers are stored with canonical option indexes (src/lib/quiz-shuffle.ts).
+-- =====================================================
+
+-- NOTE: Safe to run in Supabase SQL Editor
+
+-- =====================================================
+-- 1. SHUFFLE STORED ON THE ATTEMPT
+-- { seed, question_order: [question ids] | null, option_orders: { question_id: [canonical index per display position] } }
+-- NULL = the attempt was delivered in canonical order
+-- =====================================================
+
+ALTER TABLE public.quiz_attempts
+  ADD COLUMN IF NOT EXISTS question_shuffle jsonb;
+
+-- =====================================================
+-- VERIFICATION
+-- =====================================================
+
+-- SELECT id, title, shuffle_questions, randomize_questions, shuffle_options FROM public.quizzes WHERE shuffle_questions OR randomize_questions OR shuffle_options;
+-- SELECT id, question_shuffle->'seed', question_shuffle->'question_order' FROM public.quiz_attempts WHERE question_shuffle IS NOT NULL LIMIT 10;
@@ -0,0 +1,126 @@
+-- =====================================================
+-- CERTIFICATES - PHASE 11
+-- Certificates are issued automatically when a learner completes every lesson
+-- of a course with certificate_enabled, or passes a quiz linked to a
+-- certificate template. Each certificate has a public verification code
+-- (certificate_number) checked at /certificates/[code] (src/lib/certificates).
+-- =====================================================
+
+-- NOTE: Safe to run in Supabase SQL Editor
+
+-- =====================================================
+-- 1. TEMPLATES
+-- heading/body accept {{recipient}}, {{title}}, {{date}}, {{score}} and {{code}}
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.certificate_templates (
+    id uuid NOT NULL DEFAULT gen_random_uuid(),
+    name text NOT NULL,
+    heading text NOT NULL DEFAULT 'Certificate of Completion',
+    body text NOT NULL DEFAULT 'This certifies that {{recipient}} has successfully completed {{title}}.',
+    accent_color text NOT NULL DEFAULT '#1d4ed8' CHECK (accent_color ~ '^#[0-9a-fA-F]{6}$'),
+    signature_name text,
+    signature_title text,
+    is_default boolean NOT NULL DEFAULT false,
+    created_at timestamp with time zone DEFAULT now(),
+    updated_at timestamp with time zone DEFAULT now(),
+    CONSTRAINT certificate_templates_pkey PRIMARY KEY (id)
+);
+
+-- At most one default template (used by courses without their own)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_certificate_templates_single_default
+  ON public.certificate_templates(is_default)
+  WHERE is_default;
+
+ALTER TABLE public.courses
+  ADD COLUMN IF NOT EXISTS certificate_template_id uuid;
+
+ALTER TABLE public.courses
+  DROP CONSTRAINT IF EXISTS courses_certificate_template_id_fkey,
+  ADD CONSTRAINT courses_certificate_template_id_fkey
+    FOREIGN KEY (certificate_template_id) REFERENCES public.certificate_templates(id) ON DELETE SET NULL;
+
+-- quizzes.certificate_template_id already exists; a quiz with a template issues on pass
+ALTER TABLE public.quizzes
+  DROP CONSTRAINT IF EXISTS quizzes_certificate_template_id_fkey,
+  ADD CONSTRAINT quizzes_certificate_template_id_fkey
+    FOREIGN KEY (certificate_template_id) REFERENCES public.certificate_templates(id) ON DELETE SET NULL;
+
+-- =====================================================
+-- 2. ISSUED CERTIFICATES
+-- Recipient name, title and score are copied at issue time so the certificate
+-- doesn't change when the course or profile is renamed
+-- =====================================================
+
+ALTER TABLE public.certificates
+  ALTER COLUMN course_id DROP NOT NULL;
+
+ALTER TABLE public.certificates
+  ADD COLUMN IF NOT EXISTS quiz_id uuid,
+  ADD COLUMN IF NOT EXISTS quiz_attempt_id uuid,
+  ADD COLUMN IF NOT EXISTS template_id uuid,
+  ADD COLUMN IF NOT EXISTS recipient_name text,
+  ADD COLUMN IF NOT EXISTS title text,
+  ADD COLUMN IF NOT EXISTS score numeric,
+  ADD COLUMN IF NOT EXISTS revoked_at timestamp with time zone;
+
+ALTER TABLE public.certificates
+  DROP CONSTRAINT IF EXISTS certificates_quiz_id_fkey,
+  ADD CONSTRAINT certificates_quiz_id_fkey
+    FOREIGN KEY (quiz_id) REFERENCES public.quizzes(id) ON DELETE SET NULL,
+  DROP CONSTRAINT IF EXISTS certificates_quiz_attempt_id_fkey,
+  ADD CONSTRAINT certificates_quiz_attempt_id_fkey
+    FOREIGN KEY (quiz_attempt_id) REFERENCES public.quiz_attempts(id) ON DELETE SET NULL,
+  DROP CONSTRAINT IF EXISTS certificates_template_id_fkey,
+  ADD CONSTRAINT certificates_template_id_fkey
+    FOREIGN KEY (template_id) REFERENCES public.certificate_templates(id) ON DELETE SET NULL;
+
+-- One certificate per learner per course and per quiz; issuing twice is a no-op
+CREATE UNIQUE INDEX IF NOT EXISTS idx_certificates_user_course
+  ON public.certificates(user_id, course_id)
+  WHERE course_id IS NOT NULL AND quiz_id IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_certificates_user_quiz
+  ON public.certificates(user_id, quiz_id)
+  WHERE quiz_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_certificates_user_issued
+  ON public.certificates(user_id, issued_at DESC);
+
+-- =====================================================
+-- 3. ACCESS
+-- Learners read their own certificates; issuing and public verification go
+-- through the API (service role)
+-- =====================================================
+
+ALTER TABLE public.certificate_templates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage certificate templates" ON public.certificate_templates;
+CREATE POLICY "Admins can manage certificate templates" ON public.certificate_templates
+  FOR ALL USING (is_admin()) WITH CHECK (is_admin());
+
+ALTER TABLE public.certificates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own certificates" ON public.certificates;
+CREATE POLICY "Users can view own certificates" ON public.certificates
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can manage certificates" ON public.certificates;
+CREATE POLICY "Admins can manage certificates" ON public.certificates
+  FOR ALL USING (is_admin()) WITH CHECK (is_admin());
+
+-- =====================================================
+-- 4. DEFAULT TEMPLATE
+-- =====================================================
+
+INSERT INTO public.certificate_templates (name, is_default)
+SELECT 'Standard', true
+WHERE NOT EXISTS (SELECT 1 FROM public.certificate_templates WHERE is_default);
+
+-- =====================================================
+-- VERIFICATION
+-- =====================================================
+
+-- SELECT id, name, is_default FROM public.certificate_templates;
+-- SELECT certificate_number, title, recipient_name, course_id, quiz_id, is_valid FROM public.certificates ORDER BY issued_at DESC LIMIT 10;
+-- SELECT user_id, course_id, COUNT(*) FROM public.certificates WHERE quiz_id IS NULL GROUP BY 1, 2 HAVING COUNT(*) > 1;
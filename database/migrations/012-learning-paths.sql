@@ -0,0 +1,81 @@
+-- =====================================================
+-- LEARNING PATHS - PHASE 12
+-- A learning path is an ordered list of quizzes (quiz_ids). Each quiz unlocks
+-- once the earlier ones reach completion_criteria.min_score, and the path is
+-- complete when completion_criteria.pass_rate of its quizzes have (see
+-- src/lib/learning-paths). prerequisites lists other paths to finish first.
+-- learning_path_progress is kept up to date by the quiz submit route.
+-- =====================================================
+
+-- NOTE: Safe to run in Supabase SQL Editor
+
+-- =====================================================
+-- 1. ONE PROGRESS ROW PER LEARNER AND PATH
+-- =====================================================
+
+-- Keep the most recently active row if duplicates exist
+DELETE FROM public.learning_path_progress p
+USING public.learning_path_progress newer
+WHERE p.user_id = newer.user_id
+  AND p.learning_path_id = newer.learning_path_id
+  AND (p.last_activity_at, p.id) < (newer.last_activity_at, newer.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_learning_path_progress_user_path
+  ON public.learning_path_progress(user_id, learning_path_id);
+
+-- Deleting a path removes its progress and detaches badges earned on it
+ALTER TABLE public.learning_path_progress
+  DROP CONSTRAINT IF EXISTS learning_path_progress_learning_path_id_fkey,
+  ADD CONSTRAINT learning_path_progress_learning_path_id_fkey
+    FOREIGN KEY (learning_path_id) REFERENCES public.learning_paths(id) ON DELETE CASCADE;
+
+ALTER TABLE public.user_badges
+  DROP CONSTRAINT IF EXISTS user_badges_learning_path_id_fkey,
+  ADD CONSTRAINT user_badges_learning_path_id_fkey
+    FOREIGN KEY (learning_path_id) REFERENCES public.learning_paths(id) ON DELETE SET NULL;
+
+-- =====================================================
+-- 2. LOOKUPS
+-- The submit and session routes look up paths containing a quiz
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_learning_paths_quiz_ids
+  ON public.learning_paths USING gin(quiz_ids);
+
+CREATE INDEX IF NOT EXISTS idx_learning_paths_public
+  ON public.learning_paths(is_public)
+  WHERE is_public = true;
+
+-- =====================================================
+-- 3. ACCESS
+-- Anyone reads public paths; learners read their own progress. Progress is
+-- written through the API (service role)
+-- =====================================================
+
+ALTER TABLE public.learning_paths ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view public learning paths" ON public.learning_paths;
+CREATE POLICY "Anyone can view public learning paths" ON public.learning_paths
+  FOR SELECT USING (is_public = true);
+
+DROP POLICY IF EXISTS "Admins can manage learning paths" ON public.learning_paths;
+CREATE POLICY "Admins can manage learning paths" ON public.learning_paths
+  FOR ALL USING (is_admin()) WITH CHECK (is_admin());
+
+ALTER TABLE public.learning_path_progress ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own learning path progress" ON public.learning_path_progress;
+CREATE POLICY "Users can view own learning path progress" ON public.learning_path_progress
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can manage learning path progress" ON public.learning_path_progress;
+CREATE POLICY "Admins can manage learning path progress" ON public.learning_path_progress
+  FOR ALL USING (is_admin()) WITH CHECK (is_admin());
+
+-- =====================================================
+-- VERIFICATION
+-- =====================================================
+
+-- SELECT id, name, array_length(quiz_ids, 1) AS quizzes, completion_criteria, is_public FROM public.learning_paths;
+-- SELECT learning_path_id, COUNT(*), COUNT(completed_at) AS completed FROM public.learning_path_progress GROUP BY 1;
+-- SELECT user_id, learning_path_id, COUNT(*) FROM public.learning_path_progress GROUP BY 1, 2 HAVING COUNT(*) > 1;
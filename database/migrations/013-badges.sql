@@ -0,0 +1,99 @@
+-- =====================================================
+-- BADGES - PHASE 13
+-- badges.criteria holds a rule such as {"type": "quizzes_passed", "count": 10}
+-- (see src/lib/badges for the supported types). Active auto_award badges are
+-- evaluated after quiz submissions, grading, lesson completions and
+-- enrollments, and each earned badge is recorded once in user_badges.
+-- =====================================================
+
+-- NOTE: Safe to run in Supabase SQL Editor
+
+-- =====================================================
+-- 1. ONE AWARD PER LEARNER AND BADGE
+-- The engine inserts with ON CONFLICT DO NOTHING, so replayed events are harmless
+-- =====================================================
+
+-- Keep the earliest award if duplicates exist
+DELETE FROM public.user_badges b
+USING public.user_badges earlier
+WHERE b.user_id = earlier.user_id
+  AND b.badge_id = earlier.badge_id
+  AND (b.awarded_at, b.id) > (earlier.awarded_at, earlier.id);
+
+DELETE FROM public.user_badges WHERE user_id IS NULL OR badge_id IS NULL;
+
+ALTER TABLE public.user_badges
+  ALTER COLUMN user_id SET NOT NULL,
+  ALTER COLUMN badge_id SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_badges_user_badge
+  ON public.user_badges(user_id, badge_id);
+
+-- Deleting a badge in the designer removes its awards
+ALTER TABLE public.user_badges
+  DROP CONSTRAINT IF EXISTS user_badges_badge_id_fkey,
+  ADD CONSTRAINT user_badges_badge_id_fkey
+    FOREIGN KEY (badge_id) REFERENCES public.badges(id) ON DELETE CASCADE;
+
+ALTER TABLE public.user_badges
+  DROP CONSTRAINT IF EXISTS user_badges_quiz_id_fkey,
+  ADD CONSTRAINT user_badges_quiz_id_fkey
+    FOREIGN KEY (quiz_id) REFERENCES public.quizzes(id) ON DELETE SET NULL;
+
+-- =====================================================
+-- 2. LOOKUPS
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_badges_auto_award
+  ON public.badges(is_active, auto_award);
+
+CREATE INDEX IF NOT EXISTS idx_user_badges_badge
+  ON public.user_badges(badge_id);
+
+-- =====================================================
+-- 3. STARTER BADGES
+-- =====================================================
+
+INSERT INTO public.badges (name, description, criteria, points, rarity, category)
+VALUES
+  ('First Steps', 'Passed your first quiz', '{"type": "quizzes_passed", "count": 1}', 10, 'common', 'quizzes'),
+  ('Quiz Regular', 'Passed 10 different quizzes', '{"type": "quizzes_passed", "count": 10}', 50, 'uncommon', 'quizzes'),
+  ('Flawless', 'Scored 100% on an advanced quiz', '{"type": "perfect_score", "count": 1, "difficulty": "advanced"}', 100, 'rare', 'quizzes'),
+  ('Week Streak', 'Studied 7 days in a row', '{"type": "streak_days", "days": 7}', 75, 'rare', 'streaks'),
+  ('Course Finisher', 'Completed a course', '{"type": "courses_completed", "count": 1}', 50, 'uncommon', 'courses'),
+  ('Enrolled', 'Enrolled in your first course', '{"type": "courses_enrolled", "count": 1}', 5, 'common', 'courses')
+ON CONFLICT (name) DO NOTHING;
+
+-- =====================================================
+-- 4. ACCESS
+-- Anyone reads active badges; learners read their own awards. Awards are
+-- written through the API (service role)
+-- =====================================================
+
+ALTER TABLE public.badges ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view active badges" ON public.badges;
+CREATE POLICY "Anyone can view active badges" ON public.badges
+  FOR SELECT USING (is_active = true);
+
+DROP POLICY IF EXISTS "Admins can manage badges" ON public.badges;
+CREATE POLICY "Admins can manage badges" ON public.badges
+  FOR ALL USING (is_admin()) WITH CHECK (is_admin());
+
+ALTER TABLE public.user_badges ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own badges" ON public.user_badges;
+CREATE POLICY "Users can view own badges" ON public.user_badges
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can manage user badges" ON public.user_badges;
+CREATE POLICY "Admins can manage user badges" ON public.user_badges
+  FOR ALL USING (is_admin()) WITH CHECK (is_admin());
+
+-- =====================================================
+-- VERIFICATION
+-- =====================================================
+
+-- SELECT name, criteria, rarity, points, is_active, auto_award FROM public.badges ORDER BY points;
+-- SELECT b.name, COUNT(ub.id) AS awarded FROM public.badges b LEFT JOIN public.user_badges ub ON ub.badge_id = b.id GROUP BY b.name;
+-- SELECT user_id, badge_id, COUNT(*) FROM public.user_badges GROUP BY 1, 2 HAVING COUNT(*) > 1;
@@ -0,0 +1,151 @@
+-- =====================================================
+-- LEADERBOARDS - PHASE 14
+-- Admin-defined leaderboards rank learners by their best score per quiz,
+-- scoped to one quiz, a category or a learning path (or every quiz).
+-- Weekly and monthly boards start over at each period boundary; the closing
+-- standings are archived in leaderboard_entries (see src/lib/leaderboards).
+-- user_settings persists the dashboard settings page, including the
+-- leaderboard opt-out.
+-- =====================================================
+
+-- NOTE: Safe to run in Supabase SQL Editor
+
+-- =====================================================
+-- 1. LEADERBOARD DEFINITIONS
+-- =====================================================
+
+UPDATE public.leaderboards SET time_period = 'all_time'
+WHERE time_period IS NULL OR time_period NOT IN ('weekly', 'monthly', 'all_time');
+
+UPDATE public.leaderboards SET leaderboard_type = 'score'
+WHERE leaderboard_type IS NULL OR leaderboard_type NOT IN ('score', 'average', 'quizzes_passed');
+
+-- Weekly and monthly boards reset on their own period; all-time boards never do
+UPDATE public.leaderboards
+SET reset_frequency = CASE WHEN time_period = 'all_time' THEN NULL ELSE time_period END;
+
+UPDATE public.leaderboards SET last_reset = COALESCE(last_reset, created_at, now());
+
+ALTER TABLE public.leaderboards
+  ALTER COLUMN time_period SET NOT NULL,
+  ALTER COLUMN leaderboard_type SET NOT NULL,
+  ALTER COLUMN last_reset SET DEFAULT now(),
+  DROP CONSTRAINT IF EXISTS leaderboards_time_period_check,
+  ADD CONSTRAINT leaderboards_time_period_check
+    CHECK (time_period IN ('weekly', 'monthly', 'all_time')),
+  DROP CONSTRAINT IF EXISTS leaderboards_type_check,
+  ADD CONSTRAINT leaderboards_type_check
+    CHECK (leaderboard_type IN ('score', 'average', 'quizzes_passed')),
+  DROP CONSTRAINT IF EXISTS leaderboards_single_scope_check,
+  ADD CONSTRAINT leaderboards_single_scope_check
+    CHECK (num_nonnulls(quiz_id, category_id, learning_path_id) <= 1);
+
+-- A board goes with the quiz, category or path it ranks
+ALTER TABLE public.leaderboards
+  DROP CONSTRAINT IF EXISTS leaderboards_quiz_id_fkey,
+  ADD CONSTRAINT leaderboards_quiz_id_fkey
+    FOREIGN KEY (quiz_id) REFERENCES public.quizzes(id) ON DELETE CASCADE,
+  DROP CONSTRAINT IF EXISTS leaderboards_learning_path_id_fkey,
+  ADD CONSTRAINT leaderboards_learning_path_id_fkey
+    FOREIGN KEY (learning_path_id) REFERENCES public.learning_paths(id) ON DELETE CASCADE,
+  DROP CONSTRAINT IF EXISTS leaderboards_category_id_fkey,
+  ADD CONSTRAINT leaderboards_category_id_fkey
+    FOREIGN KEY (category_id) REFERENCES public.categories(id) ON DELETE CASCADE;
+
+-- =====================================================
+-- 2. ARCHIVED STANDINGS
+-- One row per learner for each closed period
+-- =====================================================
+
+ALTER TABLE public.leaderboard_entries
+  ADD COLUMN IF NOT EXISTS period_start timestamp with time zone,
+  ADD COLUMN IF NOT EXISTS period_end timestamp with time zone;
+
+DELETE FROM public.leaderboard_entries
+WHERE leaderboard_id IS NULL OR user_id IS NULL OR period_start IS NULL;
+
+ALTER TABLE public.leaderboard_entries
+  ALTER COLUMN leaderboard_id SET NOT NULL,
+  ALTER COLUMN user_id SET NOT NULL,
+  ALTER COLUMN period_start SET NOT NULL,
+  ALTER COLUMN period_end SET NOT NULL,
+  DROP CONSTRAINT IF EXISTS leaderboard_entries_leaderboard_id_fkey,
+  ADD CONSTRAINT leaderboard_entries_leaderboard_id_fkey
+    FOREIGN KEY (leaderboard_id) REFERENCES public.leaderboards(id) ON DELETE CASCADE;
+
+-- Archiving the same period twice is a no-op
+CREATE UNIQUE INDEX IF NOT EXISTS idx_leaderboard_entries_period_user
+  ON public.leaderboard_entries(leaderboard_id, period_start, user_id);
+
+CREATE INDEX IF NOT EXISTS idx_leaderboard_entries_period_rank
+  ON public.leaderboard_entries(leaderboard_id, period_start, rank_position);
+
+-- Standings read graded attempts in a time window
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_completed_at
+  ON public.quiz_attempts(completed_at);
+
+-- =====================================================
+-- 3. USER SETTINGS
+-- One row per user; missing keys fall back to the defaults in src/lib/user-settings.ts
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.user_settings (
+    user_id uuid NOT NULL,
+    notification_preferences jsonb NOT NULL DEFAULT '{}'::jsonb,
+    privacy_settings jsonb NOT NULL DEFAULT '{}'::jsonb,
+    appearance_settings jsonb NOT NULL DEFAULT '{}'::jsonb,
+    timezone text NOT NULL DEFAULT 'UTC',
+    created_at timestamp with time zone DEFAULT now(),
+    updated_at timestamp with time zone DEFAULT now(),
+    CONSTRAINT user_settings_pkey PRIMARY KEY (user_id),
+    CONSTRAINT user_settings_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id) ON DELETE CASCADE
+);
+
+-- Leaderboards skip learners who opted out
+CREATE INDEX IF NOT EXISTS idx_user_settings_leaderboard_opt_out
+  ON public.user_settings(user_id)
+  WHERE (privacy_settings->>'showOnLeaderboards') = 'false';
+
+-- =====================================================
+-- 4. ACCESS
+-- Anyone reads public boards and learners read their own archived entries.
+-- Full standings are served through the API so opted-out learners stay hidden
+-- =====================================================
+
+ALTER TABLE public.leaderboards ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view public leaderboards" ON public.leaderboards;
+CREATE POLICY "Anyone can view public leaderboards" ON public.leaderboards
+  FOR SELECT USING (is_public = true);
+
+DROP POLICY IF EXISTS "Admins can manage leaderboards" ON public.leaderboards;
+CREATE POLICY "Admins can manage leaderboards" ON public.leaderboards
+  FOR ALL USING (is_admin()) WITH CHECK (is_admin());
+
+ALTER TABLE public.leaderboard_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own leaderboard entries" ON public.leaderboard_entries;
+CREATE POLICY "Users can view own leaderboard entries" ON public.leaderboard_entries
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can manage leaderboard entries" ON public.leaderboard_entries;
+CREATE POLICY "Admins can manage leaderboard entries" ON public.leaderboard_entries
+  FOR ALL USING (is_admin()) WITH CHECK (is_admin());
+
+ALTER TABLE public.user_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own settings" ON public.user_settings;
+CREATE POLICY "Users can manage own settings" ON public.user_settings
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can view user settings" ON public.user_settings;
+CREATE POLICY "Admins can view user settings" ON public.user_settings
+  FOR SELECT USING (is_admin());
+
+-- =====================================================
+-- VERIFICATION
+-- =====================================================
+
+-- SELECT id, name, leaderboard_type, time_period, reset_frequency, last_reset, quiz_id, category_id, learning_path_id FROM public.leaderboards;
+-- SELECT leaderboard_id, period_start, period_end, COUNT(*) FROM public.leaderboard_entries GROUP BY 1, 2, 3 ORDER BY 2 DESC;
+-- SELECT user_id FROM public.user_settings WHERE privacy_settings->>'showOnLeaderboards' = 'false';
@@ -0,0 +1,84 @@
+-- =====================================================
+-- USER STATS - PHASE 15
+-- user_stats is recomputed by the app (src/lib/user-stats) after quiz
+-- submissions and grading, and whenever a learner opens their dashboard:
+-- streaks use day boundaries in the learner's timezone (user_settings.timezone),
+-- performance_trends holds weekly trends and the daily activity heatmap.
+-- =====================================================
+
+-- NOTE: Safe to run in Supabase SQL Editor
+
+-- =====================================================
+-- 1. ONE ROW PER LEARNER
+-- The aggregator upserts on user_id
+-- =====================================================
+
+DELETE FROM public.user_stats s
+USING public.user_stats newer
+WHERE s.user_id = newer.user_id
+  AND (s.updated_at, s.id) < (newer.updated_at, newer.id);
+
+DELETE FROM public.user_stats WHERE user_id IS NULL;
+
+ALTER TABLE public.user_stats
+  ALTER COLUMN user_id SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_stats_user_unique
+  ON public.user_stats(user_id);
+
+-- =====================================================
+-- 2. TRIGGER NO LONGER OWNS ACTIVITY DATES
+-- update_user_stats() keeps counting attempts between refreshes, but
+-- last_activity_date is a local date only the aggregator can work out.
+-- SECURITY DEFINER so attempts saved by a learner's own session still
+-- update the row once RLS is on (section 4)
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION update_user_stats()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        INSERT INTO public.user_stats (user_id, quizzes_completed, average_score)
+        VALUES (NEW.user_id, 1, COALESCE(NEW.percentage_score, 0))
+        ON CONFLICT (user_id)
+        DO UPDATE SET
+            quizzes_completed = user_stats.quizzes_completed + 1,
+            average_score = (user_stats.average_score * user_stats.quizzes_completed + COALESCE(NEW.percentage_score, 0)) / (user_stats.quizzes_completed + 1),
+            updated_at = now();
+        RETURN NEW;
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =====================================================
+-- 3. INDEXES FOR THE AGGREGATOR
+-- =====================================================
+
+CREATE INDEX IF NOT EXISTS idx_lesson_progress_user
+  ON public.lesson_progress(user_id);
+
+CREATE INDEX IF NOT EXISTS idx_quiz_attempts_user_completed
+  ON public.quiz_attempts(user_id, completed_at);
+
+-- =====================================================
+-- 4. ACCESS
+-- Learners read their own stats; writes go through the service role
+-- =====================================================
+
+ALTER TABLE public.user_stats ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own stats" ON public.user_stats;
+CREATE POLICY "Users can view own stats" ON public.user_stats
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can view user stats" ON public.user_stats;
+CREATE POLICY "Admins can view user stats" ON public.user_stats
+  FOR SELECT USING (is_admin());
+
+-- =====================================================
+-- VERIFICATION
+-- =====================================================
+
+-- SELECT user_id, study_streak_days, longest_streak_days, last_activity_date, total_points, total_study_time_minutes FROM public.user_stats ORDER BY updated_at DESC LIMIT 20;
+-- SELECT user_id, jsonb_array_length(performance_trends->'weekly') AS weeks FROM public.user_stats WHERE performance_trends ? 'weekly';
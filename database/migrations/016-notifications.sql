@@ -0,0 +1,91 @@
+-- =====================================================
+-- NOTIFICATIONS - PHASE 16
+-- The in-app notification center (src/lib/notifications): enrollments, badge
+-- awards, announcements, course and quiz deadline reminders and graded essays
+-- land in notifications, filtered by each learner's notification settings.
+-- The header bell listens for new rows over Supabase Realtime.
+-- =====================================================
+
+-- NOTE: Safe to run in Supabase SQL Editor
+
+-- =====================================================
+-- 1. NOTIFICATION TYPES
+-- graded_essay is new; assignment stays for existing rows
+-- =====================================================
+
+ALTER TABLE public.notifications
+  DROP CONSTRAINT IF EXISTS notifications_type_check;
+
+ALTER TABLE public.notifications
+  ADD CONSTRAINT notifications_type_check CHECK (type = ANY (ARRAY[
+    'enrollment'::text, 'assignment'::text, 'achievement'::text, 'announcement'::text,
+    'reminder'::text, 'graded_essay'::text
+  ]));
+
+-- =====================================================
+-- 2. METADATA AND DEDUPLICATION
+-- dedupe_key makes producers idempotent: reminders are generated on every
+-- inbox load and an event replayed never notifies twice
+-- =====================================================
+
+ALTER TABLE public.notifications
+  ADD COLUMN IF NOT EXISTS metadata jsonb DEFAULT '{}'::jsonb,
+  ADD COLUMN IF NOT EXISTS dedupe_key text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_notifications_user_dedupe
+  ON public.notifications(user_id, dedupe_key);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user_created
+  ON public.notifications(user_id, created_at DESC);
+
+-- Deleting a user deletes their notifications
+ALTER TABLE public.notifications
+  DROP CONSTRAINT IF EXISTS notifications_user_id_fkey;
+
+ALTER TABLE public.notifications
+  ADD CONSTRAINT notifications_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES public.users(id) ON DELETE CASCADE;
+
+-- =====================================================
+-- 3. ACCESS
+-- Learners read their own notifications (which Realtime also requires) and
+-- mark them read; writes go through the service role
+-- =====================================================
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own notifications" ON public.notifications;
+CREATE POLICY "Users can view own notifications" ON public.notifications
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can update own notifications" ON public.notifications;
+CREATE POLICY "Users can update own notifications" ON public.notifications
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Admins can manage notifications" ON public.notifications;
+CREATE POLICY "Admins can manage notifications" ON public.notifications
+  FOR ALL USING (is_admin());
+
+-- =====================================================
+-- 4. REALTIME
+-- =====================================================
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'notifications'
+    )
+  THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+  END IF;
+END $$;
+
+-- =====================================================
+-- VERIFICATION
+-- =====================================================
+
+-- SELECT type, COUNT(*), COUNT(*) FILTER (WHERE NOT is_read) AS unread FROM public.notifications GROUP BY type;
+-- SELECT user_id, dedupe_key, COUNT(*) FROM public.notifications WHERE dedupe_key IS NOT NULL GROUP BY 1, 2 HAVING COUNT(*) > 1;
+-- SELECT * FROM pg_publication_tables WHERE pubname = 'supabase_realtime';
@@ -0,0 +1,90 @@
+-- =====================================================
+-- EMAIL - PHASE 17
+-- Transactional email (src/lib/email): the admin's SMTP and sender settings
+-- live in platform_settings, and every email is rendered into email_outbox
+-- and sent from there, with retries and backoff for failed sends.
+-- =====================================================
+
+-- NOTE: Safe to run in Supabase SQL Editor
+
+-- =====================================================
+-- 1. PLATFORM SETTINGS
+-- One row per settings section, e.g. 'email'. Holds the SMTP password, so
+-- only admins and the service role can read it
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.platform_settings (
+    key text NOT NULL,
+    value jsonb NOT NULL DEFAULT '{}'::jsonb,
+    updated_by uuid,
+    updated_at timestamp with time zone DEFAULT now(),
+    CONSTRAINT platform_settings_pkey PRIMARY KEY (key),
+    CONSTRAINT platform_settings_updated_by_fkey FOREIGN KEY (updated_by) REFERENCES public.users(id) ON DELETE SET NULL
+);
+
+-- =====================================================
+-- 2. EMAIL OUTBOX
+-- The rendered email is stored so a retry sends exactly what was queued;
+-- the sender comes from the settings at send time
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.email_outbox (
+    id uuid NOT NULL DEFAULT gen_random_uuid(),
+    user_id uuid,
+    to_email text NOT NULL,
+    to_name text,
+    template text NOT NULL,
+    subject text NOT NULL,
+    html_body text NOT NULL,
+    text_body text NOT NULL,
+    status text NOT NULL DEFAULT 'pending' CHECK (status = ANY (ARRAY['pending'::text, 'sending'::text, 'sent'::text, 'failed'::text])),
+    attempts integer NOT NULL DEFAULT 0,
+    max_attempts integer NOT NULL DEFAULT 5,
+    -- When a pending row is due; while sending, when the send's lease expires
+    next_attempt_at timestamp with time zone NOT NULL DEFAULT now(),
+    last_error text,
+    message_id text,
+    transport text,
+    -- One email per event, e.g. 'quiz-result:<attempt>:final'
+    dedupe_key text,
+    created_at timestamp with time zone DEFAULT now(),
+    updated_at timestamp with time zone DEFAULT now(),
+    sent_at timestamp with time zone,
+    CONSTRAINT email_outbox_pkey PRIMARY KEY (id),
+    CONSTRAINT email_outbox_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id) ON DELETE SET NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_outbox_dedupe
+  ON public.email_outbox(dedupe_key);
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_due
+  ON public.email_outbox(next_attempt_at)
+  WHERE status IN ('pending', 'sending');
+
+CREATE INDEX IF NOT EXISTS idx_email_outbox_created
+  ON public.email_outbox(created_at DESC);
+
+-- =====================================================
+-- 3. ACCESS
+-- Admins only; the app reads and writes with the service role
+-- =====================================================
+
+ALTER TABLE public.platform_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage platform settings" ON public.platform_settings;
+CREATE POLICY "Admins can manage platform settings" ON public.platform_settings
+  FOR ALL USING (is_admin());
+
+ALTER TABLE public.email_outbox ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view email outbox" ON public.email_outbox;
+CREATE POLICY "Admins can view email outbox" ON public.email_outbox
+  FOR SELECT USING (is_admin());
+
+-- =====================================================
+-- VERIFICATION
+-- =====================================================
+
+-- SELECT key, value - 'smtp_password' AS value, updated_at FROM public.platform_settings;
+-- SELECT status, COUNT(*), MAX(attempts) FROM public.email_outbox GROUP BY status;
+-- SELECT to_email, template, attempts, next_attempt_at, last_error FROM public.email_outbox WHERE status <> 'sent' ORDER BY next_attempt_at;
@@ -0,0 +1,116 @@
+-- =====================================================
+-- ROLES - PHASE 18
+-- Roles are assigned only through users.role (src/lib/user-roles): admins
+-- change them through the API, and new instructors join with an invitation
+-- link. Every change is recorded in admin_activity_logs.
+-- =====================================================
+
+-- NOTE: Safe to run in Supabase SQL Editor
+--
+-- There is no longer an email allowlist for admins. To make the first admin,
+-- sign up normally and then run:
+--   UPDATE public.users SET role = 'admin' WHERE email = 'you@example.com';
+
+-- =====================================================
+-- 1. INSTRUCTOR INVITES
+-- Only a sha256 of the link's token is stored
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.instructor_invites (
+    id uuid NOT NULL DEFAULT gen_random_uuid(),
+    email text NOT NULL,
+    token_hash text NOT NULL,
+    invited_by uuid,
+    expires_at timestamp with time zone NOT NULL,
+    accepted_at timestamp with time zone,
+    accepted_by uuid,
+    revoked_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT now(),
+    CONSTRAINT instructor_invites_pkey PRIMARY KEY (id),
+    CONSTRAINT instructor_invites_token_hash_key UNIQUE (token_hash),
+    CONSTRAINT instructor_invites_invited_by_fkey FOREIGN KEY (invited_by) REFERENCES public.users(id) ON DELETE SET NULL,
+    CONSTRAINT instructor_invites_accepted_by_fkey FOREIGN KEY (accepted_by) REFERENCES public.users(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_instructor_invites_email
+  ON public.instructor_invites(email);
+
+CREATE INDEX IF NOT EXISTS idx_instructor_invites_created
+  ON public.instructor_invites(created_at DESC);
+
+-- =====================================================
+-- 2. ADMIN ACTIVITY LOGS
+-- Entries outlive the admin who made them, and invitations accepted after
+-- their sender was removed are still logged
+-- =====================================================
+
+ALTER TABLE public.admin_activity_logs
+  ALTER COLUMN admin_user_id DROP NOT NULL;
+
+ALTER TABLE public.admin_activity_logs
+  DROP CONSTRAINT IF EXISTS admin_activity_logs_admin_user_id_fkey;
+
+ALTER TABLE public.admin_activity_logs
+  ADD CONSTRAINT admin_activity_logs_admin_user_id_fkey
+  FOREIGN KEY (admin_user_id) REFERENCES public.users(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_admin_activity_logs_created
+  ON public.admin_activity_logs(created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_admin_activity_logs_resource
+  ON public.admin_activity_logs(resource_type, resource_id);
+
+-- =====================================================
+-- 3. ROLE GUARD
+-- Users may edit their own profile, but not their role: only admins and the
+-- service role (no auth.uid()) can set anything other than 'student'
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.guard_user_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NULL OR is_admin() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.role IS DISTINCT FROM 'student' THEN
+    RAISE EXCEPTION 'Only admins can assign roles';
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.role IS DISTINCT FROM OLD.role THEN
+    RAISE EXCEPTION 'Only admins can change roles';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS guard_user_role ON public.users;
+CREATE TRIGGER guard_user_role
+  BEFORE INSERT OR UPDATE OF role ON public.users
+  FOR EACH ROW EXECUTE FUNCTION public.guard_user_role();
+
+-- =====================================================
+-- 4. ACCESS
+-- Admins only; the app reads and writes with the service role
+-- =====================================================
+
+ALTER TABLE public.instructor_invites ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view instructor invites" ON public.instructor_invites;
+CREATE POLICY "Admins can view instructor invites" ON public.instructor_invites
+  FOR SELECT USING (is_admin());
+
+ALTER TABLE public.admin_activity_logs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can view admin activity" ON public.admin_activity_logs;
+CREATE POLICY "Admins can view admin activity" ON public.admin_activity_logs
+  FOR SELECT USING (is_admin());
+
+-- =====================================================
+-- VERIFICATION
+-- =====================================================
+
+-- SELECT role, COUNT(*) FROM public.users GROUP BY role;
+-- SELECT email, expires_at, accepted_at, revoked_at FROM public.instructor_invites ORDER BY created_at DESC;
+-- SELECT action, resource_type, resource_id, old_values, new_values, created_at FROM public.admin_activity_logs ORDER BY created_at DESC LIMIT 20;
@@ -0,0 +1,120 @@
+-- =====================================================
+-- INSTRUCTOR SCOPE - PHASE 19
+-- Instructors author in the admin workspace but only see and change their
+-- own content: the courses they teach (courses.instructor_id) and the
+-- quizzes they wrote or that belong to those courses. The API enforces this
+-- with src/lib/content-scope; the policies below apply the same rule to
+-- direct table access.
+-- =====================================================
+
+-- NOTE: Safe to run in Supabase SQL Editor
+
+-- =====================================================
+-- 1. QUIZ AUTHORS
+-- Quizzes attached to a course are credited to its instructor; older
+-- standalone quizzes stay unowned, so only admins manage them. Quizzes
+-- created straight from the browser default to their author
+-- =====================================================
+
+ALTER TABLE public.quizzes
+  ADD COLUMN IF NOT EXISTS created_by uuid;
+
+ALTER TABLE public.quizzes
+  ALTER COLUMN created_by SET DEFAULT auth.uid();
+
+ALTER TABLE public.quizzes
+  DROP CONSTRAINT IF EXISTS quizzes_created_by_fkey;
+
+ALTER TABLE public.quizzes
+  ADD CONSTRAINT quizzes_created_by_fkey
+  FOREIGN KEY (created_by) REFERENCES public.users(id) ON DELETE SET NULL;
+
+UPDATE public.quizzes q
+SET created_by = c.instructor_id
+FROM public.courses c
+WHERE q.course_id = c.id
+  AND q.created_by IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_quizzes_created_by
+  ON public.quizzes(created_by);
+
+CREATE INDEX IF NOT EXISTS idx_courses_instructor
+  ON public.courses(instructor_id);
+
+-- =====================================================
+-- 2. OWNERSHIP HELPERS
+-- SECURITY DEFINER so policies on one table can look at another without
+-- recursing through its policies
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.owns_course(course_uuid uuid, user_uuid uuid DEFAULT auth.uid())
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.courses
+    WHERE id = course_uuid AND instructor_id = user_uuid
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.owns_quiz(quiz_uuid uuid, user_uuid uuid DEFAULT auth.uid())
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.quizzes q
+    WHERE q.id = quiz_uuid
+      AND (q.created_by = user_uuid OR public.owns_course(q.course_id, user_uuid))
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- =====================================================
+-- 3. ACCESS
+-- Instructors manage their own quizzes, questions and curriculum, and read
+-- the attempts, answers and enrollments that belong to them
+-- =====================================================
+
+DROP POLICY IF EXISTS "Anyone can view published quizzes" ON public.quizzes;
+CREATE POLICY "Anyone can view published quizzes" ON public.quizzes
+  FOR SELECT USING (is_published = true OR is_admin() OR owns_quiz(id));
+
+DROP POLICY IF EXISTS "Instructors can manage their quizzes" ON public.quizzes;
+CREATE POLICY "Instructors can manage their quizzes" ON public.quizzes
+  FOR ALL USING (owns_quiz(id))
+  WITH CHECK (
+    (created_by = auth.uid() OR owns_course(course_id))
+    AND (course_id IS NULL OR owns_course(course_id))
+  );
+
+DROP POLICY IF EXISTS "Instructors can manage their quiz questions" ON public.quiz_questions;
+CREATE POLICY "Instructors can manage their quiz questions" ON public.quiz_questions
+  FOR ALL USING (owns_quiz(quiz_id));
+
+DROP POLICY IF EXISTS "Instructors can manage their course modules" ON public.course_modules;
+CREATE POLICY "Instructors can manage their course modules" ON public.course_modules
+  FOR ALL USING (owns_course(course_id));
+
+DROP POLICY IF EXISTS "Instructors can manage their course lessons" ON public.course_lessons;
+CREATE POLICY "Instructors can manage their course lessons" ON public.course_lessons
+  FOR ALL USING (owns_course(course_id));
+
+DROP POLICY IF EXISTS "Instructors can view attempts on their quizzes" ON public.quiz_attempts;
+CREATE POLICY "Instructors can view attempts on their quizzes" ON public.quiz_attempts
+  FOR SELECT USING (owns_quiz(quiz_id));
+
+DROP POLICY IF EXISTS "Instructors can view answers on their quizzes" ON public.question_attempts;
+CREATE POLICY "Instructors can view answers on their quizzes" ON public.question_attempts
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.quiz_attempts qa
+      WHERE qa.id = question_attempts.quiz_attempt_id AND owns_quiz(qa.quiz_id)
+    )
+  );
+
+DROP POLICY IF EXISTS "Instructors can view enrollments in their courses" ON public.enrollments;
+CREATE POLICY "Instructors can view enrollments in their courses" ON public.enrollments
+  FOR SELECT USING (owns_course(course_id));
+
+-- =====================================================
+-- VERIFICATION
+-- =====================================================
+
+-- SELECT COUNT(*) FILTER (WHERE created_by IS NULL) AS unowned, COUNT(*) AS total FROM public.quizzes;
+-- SELECT u.email, COUNT(c.id) AS courses FROM public.users u LEFT JOIN public.courses c ON c.instructor_id = u.id WHERE u.role = 'instructor' GROUP BY u.email;
+-- SELECT public.owns_quiz('<quiz id>', '<instructor id>');
@@ -0,0 +1,56 @@
+-- =====================================================
+-- MOCK TESTS - PHASE 20
+-- An IELTS mock test groups quizzes into Listening, Reading, Writing and
+-- Speaking sections (sections holds the quiz ids per skill). Results are
+-- worked out from the student's quiz attempts as section bands and an
+-- overall band (see src/lib/mock-tests). band_tables overrides the published
+-- raw score to band conversion for Listening or Reading; module picks the
+-- Academic or General Training Reading table.
+-- =====================================================
+
+-- NOTE: Safe to run in Supabase SQL Editor
+
+-- =====================================================
+-- 1. MOCK TESTS
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.mock_tests (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  title text NOT NULL,
+  description text,
+  module text NOT NULL DEFAULT 'academic'
+    CHECK (module IN ('academic', 'general_training')),
+  sections jsonb NOT NULL DEFAULT '{"listening": [], "reading": [], "writing": [], "speaking": []}'::jsonb,
+  band_tables jsonb NOT NULL DEFAULT '{}'::jsonb,
+  is_published boolean NOT NULL DEFAULT false,
+  created_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_mock_tests_published
+  ON public.mock_tests(is_published)
+  WHERE is_published = true;
+
+-- =====================================================
+-- 2. ACCESS
+-- Anyone reads published mock tests; admins manage them. Results come from
+-- quiz_attempts, so there is nothing else to protect
+-- =====================================================
+
+ALTER TABLE public.mock_tests ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view published mock tests" ON public.mock_tests;
+CREATE POLICY "Anyone can view published mock tests" ON public.mock_tests
+  FOR SELECT USING (is_published = true);
+
+DROP POLICY IF EXISTS "Admins can manage mock tests" ON public.mock_tests;
+CREATE POLICY "Admins can manage mock tests" ON public.mock_tests
+  FOR ALL USING (is_admin()) WITH CHECK (is_admin());
+
+-- =====================================================
+-- VERIFICATION
+-- =====================================================
+
+-- SELECT id, title, module, is_published, jsonb_array_length(sections->'reading') AS reading_quizzes FROM public.mock_tests;
+-- SELECT id, title, band_tables FROM public.mock_tests WHERE band_tables <> '{}'::jsonb;
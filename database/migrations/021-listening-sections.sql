@@ -0,0 +1,45 @@
+-- =====================================================
+-- LISTENING SECTIONS - PHASE 21
+-- quizzes.listening_settings turns a quiz with passage_audio_url into an IELTS
+-- style listening section: the recording can be played once or a limited number
+-- of times, question groups are tied to timestamps in the recording, and answer
+-- transfer time is added to the session deadline. The section transcript is only
+-- returned with the student's results (src/lib/listening.ts).
+-- =====================================================
+
+-- NOTE: Safe to run in Supabase SQL Editor
+
+-- =====================================================
+-- 1. LISTENING SETTINGS
+-- { enabled, play_mode: 'single' | 'limited', max_plays, transfer_minutes,
+--   transcript, question_groups: [{ title, start_seconds, from_question, to_question }] }
+-- NULL = not a listening section
+-- =====================================================
+
+ALTER TABLE public.quizzes
+  ADD COLUMN IF NOT EXISTS listening_settings jsonb;
+
+-- =====================================================
+-- 2. SETTINGS CONSTRAINT
+-- Mirrors validateListeningSettings in src/lib/listening.ts
+-- =====================================================
+
+ALTER TABLE public.quizzes
+  DROP CONSTRAINT IF EXISTS quizzes_listening_settings_valid,
+  ADD CONSTRAINT quizzes_listening_settings_valid
+    CHECK (
+      listening_settings IS NULL
+      OR (
+        jsonb_typeof(listening_settings) = 'object'
+        AND COALESCE(listening_settings->>'play_mode', 'single') IN ('single', 'limited')
+        AND COALESCE((listening_settings->>'max_plays')::numeric, 1) BETWEEN 1 AND 5
+        AND COALESCE((listening_settings->>'transfer_minutes')::numeric, 0) BETWEEN 0 AND 30
+      )
+    );
+
+-- =====================================================
+-- VERIFICATION
+-- =====================================================
+
+-- SELECT id, title, passage_audio_url, listening_settings - 'transcript' FROM public.quizzes WHERE listening_settings->>'enabled' = 'true';
+-- SELECT conname FROM pg_constraint WHERE conrelid = 'public.quizzes'::regclass AND conname = 'quizzes_listening_settings_valid';
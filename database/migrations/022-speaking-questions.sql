@@ -0,0 +1,85 @@
+-- =====================================================
+-- SPEAKING QUESTIONS - PHASE 22
+-- A 'speaking' question type: students record their answer in the browser,
+-- the recording is uploaded to the speaking-recordings bucket and the answer
+-- waits in the grading queue like an essay. quiz_questions.speaking_settings
+-- holds the IELTS part and its preparation and speaking times
+-- (src/lib/speaking.ts).
+-- =====================================================
+
+-- NOTE: Safe to run in Supabase SQL Editor
+
+-- =====================================================
+-- 1. QUESTION TYPE
+-- =====================================================
+
+ALTER TABLE public.quiz_questions
+  DROP CONSTRAINT IF EXISTS quiz_questions_question_type_check,
+  ADD CONSTRAINT quiz_questions_question_type_check
+    CHECK (question_type = ANY (ARRAY[
+      'multiple_choice'::text, 'single_choice'::text, 'true_false'::text, 'fill_blank'::text,
+      'essay'::text, 'matching'::text, 'ordering'::text, 'speaking'::text
+    ]));
+
+-- =====================================================
+-- 2. SPEAKING SETTINGS
+-- { part: 1 | 2 | 3, prep_seconds, response_seconds, cue_card_points: text[] }
+-- Mirrors validateSpeakingSettings in src/lib/speaking.ts
+-- =====================================================
+
+ALTER TABLE public.quiz_questions
+  ADD COLUMN IF NOT EXISTS speaking_settings jsonb;
+
+ALTER TABLE public.quiz_questions
+  DROP CONSTRAINT IF EXISTS quiz_questions_speaking_settings_valid,
+  ADD CONSTRAINT quiz_questions_speaking_settings_valid
+    CHECK (
+      speaking_settings IS NULL
+      OR (
+        jsonb_typeof(speaking_settings) = 'object'
+        AND COALESCE((speaking_settings->>'part')::numeric, 1) IN (1, 2, 3)
+        AND COALESCE((speaking_settings->>'prep_seconds')::numeric, 0) BETWEEN 0 AND 120
+        AND COALESCE((speaking_settings->>'response_seconds')::numeric, 30) BETWEEN 10 AND 300
+      )
+    );
+
+-- =====================================================
+-- 3. RECORDINGS BUCKET
+-- Private: students upload into users/<their id>/... and can play back their
+-- own recordings; graders play them through short-lived signed URLs the API
+-- creates. Answers store the object path, never a URL.
+-- =====================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES
+  ('speaking-recordings', 'speaking-recordings', false, 10485760, ARRAY['audio/webm', 'audio/mp4', 'audio/ogg', 'audio/mpeg', 'audio/wav']::text[])
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+DROP POLICY IF EXISTS "Speaking recordings are viewable by URL" ON storage.objects;
+DROP POLICY IF EXISTS "Speaking recordings are viewable by their owner and graders" ON storage.objects;
+CREATE POLICY "Speaking recordings are viewable by their owner and graders" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'speaking-recordings' AND (
+      name LIKE 'users/' || auth.uid()::text || '/%' OR
+      EXISTS (
+        SELECT 1 FROM public.users
+        WHERE users.id = auth.uid() AND users.role IN ('admin', 'instructor')
+      )
+    )
+  );
+
+DROP POLICY IF EXISTS "Users can upload their own speaking recordings" ON storage.objects;
+CREATE POLICY "Users can upload their own speaking recordings" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'speaking-recordings' AND
+    (auth.role() = 'authenticated') AND
+    (name LIKE 'users/' || auth.uid()::text || '/%')
+  );
+
+-- =====================================================
+-- VERIFICATION
+-- =====================================================
+
+-- SELECT id, question, speaking_settings FROM public.quiz_questions WHERE question_type = 'speaking';
+-- SELECT conname FROM pg_constraint WHERE conrelid = 'public.quiz_questions'::regclass AND conname IN ('quiz_questions_question_type_check', 'quiz_questions_speaking_settings_valid');
+-- SELECT id, public, file_size_limit FROM storage.buckets WHERE id = 'speaking-recordings';
@@ -0,0 +1,45 @@
+-- =====================================================
+-- WRITING TASKS - PHASE 23
+-- IELTS Writing Task 1 / Task 2 mode for essay questions.
+-- quiz_questions.writing_settings sets the task and its word limits; students
+-- see a live word count with an under-length warning, Task 1 shows the chart
+-- from image_url, and graders mark the four writing criteria out of 9
+-- (src/lib/writing.ts).
+-- =====================================================
+
+-- NOTE: Safe to run in Supabase SQL Editor
+
+-- =====================================================
+-- 1. WRITING SETTINGS
+-- { task: 1 | 2, min_words, max_words (0 = no limit) }
+-- NULL = plain essay
+-- =====================================================
+
+ALTER TABLE public.quiz_questions
+  ADD COLUMN IF NOT EXISTS writing_settings jsonb;
+
+-- =====================================================
+-- 2. SETTINGS CONSTRAINT
+-- Mirrors validateWritingSettings in src/lib/writing.ts
+-- =====================================================
+
+ALTER TABLE public.quiz_questions
+  DROP CONSTRAINT IF EXISTS quiz_questions_writing_settings_valid,
+  ADD CONSTRAINT quiz_questions_writing_settings_valid
+    CHECK (
+      writing_settings IS NULL
+      OR (
+        question_type = 'essay'
+        AND jsonb_typeof(writing_settings) = 'object'
+        AND (writing_settings->>'task')::numeric IN (1, 2)
+        AND COALESCE((writing_settings->>'min_words')::numeric, 0) BETWEEN 0 AND 2000
+        AND COALESCE((writing_settings->>'max_words')::numeric, 0) BETWEEN 0 AND 2000
+      )
+    );
+
+-- =====================================================
+-- VERIFICATION
+-- =====================================================
+
+-- SELECT id, question, image_url, writing_settings FROM public.quiz_questions WHERE writing_settings IS NOT NULL;
+-- SELECT conname FROM pg_constraint WHERE conrelid = 'public.quiz_questions'::regclass AND conname = 'quiz_questions_writing_settings_valid';
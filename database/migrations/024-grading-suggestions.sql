@@ -0,0 +1,54 @@
+-- =====================================================
+-- GRADING SUGGESTIONS - PHASE 24
+-- AI-drafted rubric scores and inline feedback for essay answers
+-- (src/lib/grading/ai-pregrade.ts). A draft is only a suggestion: graders
+-- apply it to the grading form, edit it and save the grade themselves, so
+-- question_attempts is never scored from this table. Once the answer is
+-- graded the suggestion records whether it was accepted as drafted or edited.
+-- =====================================================
+
+-- NOTE: Safe to run in Supabase SQL Editor
+
+-- =====================================================
+-- 1. SUGGESTIONS
+-- One current draft per answer; drafting again replaces it
+-- draft    = waiting for the grader
+-- accepted = saved with the suggested scores and feedback
+-- edited   = saved after the grader changed them
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS public.grading_suggestions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  question_attempt_id uuid NOT NULL UNIQUE
+    REFERENCES public.question_attempts(id) ON DELETE CASCADE,
+  provider text NOT NULL CHECK (provider IN ('claude', 'gemini', 'stub')),
+  model text NOT NULL,
+  rubric_scores jsonb NOT NULL DEFAULT '{}'::jsonb,
+  points_suggested numeric NOT NULL DEFAULT 0,
+  feedback text NOT NULL DEFAULT '',
+  comments jsonb NOT NULL DEFAULT '[]'::jsonb,
+  confidence numeric NOT NULL DEFAULT 0 CHECK (confidence BETWEEN 0 AND 1),
+  status text NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'accepted', 'edited')),
+  requested_by uuid REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  reviewed_at timestamp with time zone
+);
+
+-- =====================================================
+-- 2. ACCESS
+-- Drafts are never shown to students; the grading API reads and writes
+-- them through the service role
+-- =====================================================
+
+ALTER TABLE public.grading_suggestions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Admins can manage grading suggestions" ON public.grading_suggestions;
+CREATE POLICY "Admins can manage grading suggestions" ON public.grading_suggestions
+  FOR ALL USING (is_admin());
+
+-- =====================================================
+-- VERIFICATION
+-- =====================================================
+
+-- SELECT provider, status, COUNT(*) FROM public.grading_suggestions GROUP BY provider, status;
+-- SELECT question_attempt_id, points_suggested, confidence, created_at FROM public.grading_suggestions WHERE status = 'draft' ORDER BY created_at DESC LIMIT 20;
@@ -1,14 +1,40 @@
 /**
- * BEST PRACTICE MIDDLEWARE - Token Refresh Only
+ * BEST PRACTICE MIDDLEWARE - Token Refresh and Session Timeout
  * Following Next.js + Supabase official pattern:
- * - Middleware = refresh auth tokens
+ * - Middleware = refresh auth tokens, end sessions past the security settings' timeout
  * - Server Components = verify auth & check permissions
- * - No database queries in middleware (performance!)
+ * - The only database read is the platform settings, cached for a minute
  */
 
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
 import { createServerClient } from '@supabase/ssr'
+import { AuthSecurity } from '@/lib/auth-security'
+import { getCurrentPlatformSettings, getPlatformSettings } from '@/lib/platform-settings'
+import { SAFE_REDIRECTS } from '@/lib/redirect-security'
+
+/**
+ * Whether the user signed in within the admin security settings' session
+ * timeout; token refreshes do not move last_sign_in_at
+ */
+async function isWithinSessionTimeout(user: { last_sign_in_at?: string }): Promise<boolean> {
+  const signedInAt = user.last_sign_in_at ? Date.parse(user.last_sign_in_at) : NaN
+  if (Number.isNaN(signedInAt) || !process.env.SUPABASE_SERVICE_ROLE_KEY) return true
+
+  let security = getCurrentPlatformSettings().security
+  try {
+    const serviceClient = createServerClient(
+      process.env.NEXT_PUBLIC_SUPABASE_URL!,
+      process.env.SUPABASE_SERVICE_ROLE_KEY,
+      { cookies: { getAll: () => [], setAll: () => {} } }
+    )
+    security = (await getPlatformSettings(serviceClient)).security
+  } catch {
+    // Keep the last loaded settings (or the defaults) rather than locking everyone out
+  }
+
+  return AuthSecurity.isSessionValid(signedInAt, security)
+}
 
 export async function middleware(request: NextRequest) {
   let response = NextResponse.next({
@@ -42,7 +68,25 @@ export async function middleware(request: NextRequest) {
 
   // CRITICAL: Just refresh the session - this updates auth tokens
   // Don't check permissions here - let Server Components do that
-  await supabase.auth.getUser()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  // Past the session timeout: sign out (clearing the auth cookies) and send pages
+  // to the login form; API calls get a 401 the client can recognise
+  if (user && !(await isWithinSessionTimeout(user))) {
+    await supabase.auth.signOut({ scope: 'local' })
+
+    const expired = request.nextUrl.pathname.startsWith('/api/')
+      ? NextResponse.json(
+          { error: 'Session expired. Please sign in again', code: 'SESSION_EXPIRED' },
+          { status: 401 }
+        )
+      : NextResponse.redirect(new URL(
+          `${SAFE_REDIRECTS.LOGIN}&error=${encodeURIComponent('Your session expired. Please sign in again.')}`,
+          request.url
+        ))
+    response.cookies.getAll().forEach(cookie => expired.cookies.set(cookie))
+    return expired
+  }
 
   // Add basic security headers
   response.headers.set('X-Frame-Options', 'DENY')
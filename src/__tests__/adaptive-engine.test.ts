@@ -0,0 +1,114 @@
+/**
+ * Adaptive Engine Tests
+ * Validates IRT ability estimation, item selection and the stopping rule
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import { estimateTheta, thetaToPercentage } from '../lib/adaptive/irt'
+import {
+  evaluateAdaptiveState,
+  evaluateUnfinishedAttempt,
+  getItemDifficulty,
+  normalizeAdaptiveSettings
+} from '../lib/adaptive/engine'
+
+const items = [-2, -1, -0.5, 0, 0.5, 1, 2].map((difficulty, index) => ({
+  id: `q${index}`,
+  difficulty,
+  order_index: index
+}))
+
+const settings = normalizeAdaptiveSettings({
+  enabled: true,
+  min_questions: 3,
+  max_questions: 5,
+  stopping_criteria: { standard_error: 0.3 }
+})
+
+describe('estimateTheta', () => {
+  test('should place ability between the items answered right and wrong', () => {
+    const estimate = estimateTheta([
+      { difficulty: -1, credit: 1 },
+      { difficulty: 0, credit: 1 },
+      { difficulty: 1, credit: 0 },
+      { difficulty: 2, credit: 0 }
+    ])
+
+    expect(estimate.method).toBe('maximum_likelihood')
+    expect(estimate.theta).toBeGreaterThan(-1)
+    expect(estimate.theta).toBeLessThan(1)
+  })
+
+  test('should fall back to EAP when every answer is correct', () => {
+    const estimate = estimateTheta([{ difficulty: 0, credit: 1 }, { difficulty: 1, credit: 1 }])
+
+    expect(estimate.method).toBe('eap')
+    expect(estimate.theta).toBeGreaterThan(0)
+    expect(Number.isFinite(estimate.standard_error)).toBe(true)
+  })
+})
+
+describe('evaluateAdaptiveState', () => {
+  test('should start with the most informative item for an average student', () => {
+    const decision = evaluateAdaptiveState(settings, items, [])
+
+    expect(decision.done).toBe(false)
+    expect(decision.next_question_id).toBe('q3')
+  })
+
+  test('should move to harder items after a correct answer', () => {
+    const decision = evaluateAdaptiveState(settings, items, [{ question_id: 'q3', credit: 1 }])
+
+    const next = items.find(item => item.id === decision.next_question_id)!
+    expect(next.difficulty).toBeGreaterThan(0)
+  })
+
+  test('should stop at max_questions', () => {
+    const responses = ['q0', 'q1', 'q2', 'q3', 'q4'].map((id, i) => ({ question_id: id, credit: i % 2 }))
+    const decision = evaluateAdaptiveState(settings, items, responses)
+
+    expect(decision.done).toBe(true)
+    expect(decision.stop_reason).toBe('max_questions')
+  })
+
+  test('should stop on the standard error once min_questions are answered', () => {
+    const loose = normalizeAdaptiveSettings({ ...settings, enabled: true, stopping_criteria: { standard_error: 1.5 } })
+    const responses = [{ question_id: 'q3', credit: 1 }, { question_id: 'q4', credit: 0 }]
+
+    expect(evaluateAdaptiveState(loose, items, responses).done).toBe(false)
+    expect(evaluateAdaptiveState(loose, items, [...responses, { question_id: 'q2', credit: 1 }]).stop_reason).toBe('standard_error')
+  })
+})
+
+describe('evaluateUnfinishedAttempt', () => {
+  test('should count the items short of min_questions as wrong', () => {
+    const nothing = evaluateUnfinishedAttempt(settings, items, [])
+    const oneRight = evaluateUnfinishedAttempt(settings, items, [{ question_id: 'q3', credit: 1 }])
+
+    expect(nothing.answered).toBe(settings.min_questions)
+    expect(thetaToPercentage(nothing.theta)).toBeLessThan(50)
+    expect(thetaToPercentage(oneRight.theta)).toBeLessThan(50)
+    expect(thetaToPercentage(evaluateAdaptiveState(settings, items, [{ question_id: 'q3', credit: 1 }]).theta))
+      .toBeGreaterThan(thetaToPercentage(oneRight.theta))
+  })
+
+  test('should score stopping early below answering the next item correctly', () => {
+    const early = [{ question_id: 'q3', credit: 1 }, { question_id: 'q5', credit: 1 }]
+    const finished = evaluateAdaptiveState(settings, items, [...early, { question_id: 'q6', credit: 1 }])
+
+    expect(evaluateUnfinishedAttempt(settings, items, early).theta).toBeLessThan(finished.theta)
+  })
+
+  test('should leave finished attempts as the engine scored them', () => {
+    const responses = ['q0', 'q1', 'q2', 'q3', 'q4'].map((id, i) => ({ question_id: id, credit: i % 2 }))
+
+    expect(evaluateUnfinishedAttempt(settings, items, responses)).toEqual(evaluateAdaptiveState(settings, items, responses))
+  })
+})
+
+describe('getItemDifficulty', () => {
+  test('should use analytics once an item has enough attempts', () => {
+    expect(getItemDifficulty({ difficulty_level: 'medium' }, { total_attempts: 50, difficulty_rating: 0.8 })).toBeCloseTo(1.386, 2)
+    expect(getItemDifficulty({ difficulty_level: 'hard' }, { total_attempts: 2, difficulty_rating: 0.1 })).toBe(1)
+  })
+})
@@ -0,0 +1,84 @@
+/**
+ * Admin Activity Tests
+ * Covers the before/after diffs written to the audit log and the audit page filters
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import { diffAuditValues, parseAdminActivityFilters, toAdminActivities } from '../lib/admin-activity'
+
+const QUIZ_ID = '4b1c2f9e-8f0a-4c55-9d61-2b7a3e5c9d10'
+
+describe('diffAuditValues', () => {
+  test('keeps the whole row for creates and deletes', () => {
+    const row = { id: QUIZ_ID, title: 'Reading Test 1', updated_at: '2026-03-01T00:00:00Z' }
+    expect(diffAuditValues(null, row)).toEqual({ old_values: null, new_values: { id: QUIZ_ID, title: 'Reading Test 1' } })
+    expect(diffAuditValues(row, undefined)).toEqual({ old_values: { id: QUIZ_ID, title: 'Reading Test 1' }, new_values: null })
+    expect(diffAuditValues(null, null)).toBeNull()
+  })
+
+  test('keeps only changed fields for updates', () => {
+    const before = { id: QUIZ_ID, title: 'Reading Test 1', is_published: false, tags: ['ielts'], updated_at: 'a' }
+    const after = { id: QUIZ_ID, title: 'Reading Test 1', is_published: true, tags: ['ielts'], updated_at: 'b' }
+    expect(diffAuditValues(before, after)).toEqual({
+      old_values: { is_published: false },
+      new_values: { is_published: true }
+    })
+  })
+
+  test('returns null when an update changed nothing but bookkeeping', () => {
+    expect(diffAuditValues({ title: 'A', updated_at: 'a' }, { title: 'A', updated_at: 'b' })).toBeNull()
+  })
+
+  test('treats missing and null fields alike and shortens long text', () => {
+    expect(diffAuditValues({ title: 'A' }, { title: 'A', image_url: null })).toBeNull()
+
+    const passage = 'x'.repeat(5000)
+    const values = diffAuditValues(null, { reading_passage: passage })
+    expect(values?.new_values?.reading_passage).toMatch(/… \(5000 characters\)$/)
+    expect(values?.new_values?.reading_passage.length).toBeLessThan(2100)
+  })
+})
+
+describe('toAdminActivities', () => {
+  test('drops updates with no changes', () => {
+    const activities = toAdminActivities([
+      { action: 'quiz.updated', resource_type: 'quiz', resource_id: QUIZ_ID, before: { title: 'A' }, after: { title: 'A' } },
+      { action: 'quiz.deleted', resource_type: 'quiz', resource_id: QUIZ_ID, before: { title: 'A' } }
+    ])
+    expect(activities).toEqual([{
+      action: 'quiz.deleted',
+      resource_type: 'quiz',
+      resource_id: QUIZ_ID,
+      old_values: { title: 'A' },
+      new_values: null
+    }])
+  })
+})
+
+describe('parseAdminActivityFilters', () => {
+  test('reads filters and clamps paging', () => {
+    const parsed = parseAdminActivityFilters(new URLSearchParams({
+      resource_type: 'quiz',
+      resource_id: QUIZ_ID,
+      from: '2026-03-01T00:00:00Z',
+      page: '0',
+      limit: '500'
+    }))
+    expect(parsed).toEqual({
+      filters: {
+        resource_type: 'quiz',
+        resource_id: QUIZ_ID,
+        from: '2026-03-01T00:00:00.000Z',
+        page: 1,
+        limit: 100
+      }
+    })
+  })
+
+  test('rejects malformed ids, unknown resources and bad dates', () => {
+    expect(parseAdminActivityFilters(new URLSearchParams({ admin_user_id: 'abc' }))).toEqual({ error: 'admin_user_id must be an id' })
+    expect(parseAdminActivityFilters(new URLSearchParams({ resource_type: 'payments' }))).toHaveProperty('error')
+    expect(parseAdminActivityFilters(new URLSearchParams({ to: 'yesterday' }))).toEqual({ error: 'to must be a date' })
+    expect(parseAdminActivityFilters(new URLSearchParams({ from: '2026-03-02', to: '2026-03-01' }))).toEqual({ error: 'from must be before to' })
+  })
+})
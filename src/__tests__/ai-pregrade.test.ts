@@ -0,0 +1,235 @@
+/**
+ * AI Pre-grading Tests
+ * Covers response parsing, the offline stub provider, inline comment placement and
+ * the draft → review flow against an in-memory client
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import {
+  buildPregradePrompt,
+  createStubProvider,
+  draftEssayGrade,
+  getPregradeProvider,
+  isStubProviderAllowed,
+  markSuggestionReviewed,
+  parsePregradeResponse,
+  PregradeError,
+  type PregradeRequest
+} from '../lib/grading/ai-pregrade'
+import { getSuggestionStatus, splitAnswerByComments } from '../lib/grading/suggestions'
+import { GradingValidationError } from '../lib/grading/manual-grading'
+import { WRITING_RUBRICS } from '../lib/writing'
+
+const answer = 'Many people think cities are better. However I disagree with this view. Villages are quieter.'
+
+const task2: PregradeRequest = {
+  question: 'Is city life better than village life?',
+  answer,
+  rubric: WRITING_RUBRICS[2],
+  points_possible: 10,
+  writing: { task: 2, min_words: 250, max_words: 0 }
+}
+
+/**
+ * Just enough of the Supabase query builder for draftEssayGrade and markSuggestionReviewed
+ */
+function createMemoryClient(questionAttempt: any) {
+  const tables: Record<string, any[]> = { question_attempts: [questionAttempt], grading_suggestions: [] }
+
+  return {
+    tables,
+    from(table: string) {
+      const filters: Array<(row: any) => boolean> = []
+      let pending: (() => any[]) | null = null
+
+      const builder: any = {
+        select: () => builder,
+        eq: (column: string, value: any) => {
+          filters.push(row => row[column] === value)
+          if (pending) pending()
+          return builder
+        },
+        in: (column: string, values: any[]) => {
+          filters.push(row => values.includes(row[column]))
+          return builder
+        },
+        upsert: (values: any, options: { onConflict: string }) => {
+          const rows = tables[table]
+          const index = rows.findIndex(row => row[options.onConflict] === values[options.onConflict])
+          const saved = { id: index >= 0 ? rows[index].id : `suggestion-${rows.length + 1}`, ...values }
+          if (index >= 0) rows[index] = saved
+          else rows.push(saved)
+          filters.push(row => row === saved)
+          return builder
+        },
+        update: (values: any) => {
+          // Applied once the .eq() filter is known
+          pending = () => tables[table].filter(row => filters.every(f => f(row))).map(row => Object.assign(row, values))
+          return builder
+        },
+        single: async () => ({ data: tables[table].find(row => filters.every(f => f(row))) || null, error: null }),
+        then: (resolve: (value: any) => void) =>
+          resolve({ data: tables[table].filter(row => filters.every(f => f(row))), error: null })
+      }
+
+      return builder
+    }
+  }
+}
+
+describe('parsePregradeResponse', () => {
+  test('clamps scores to whole bands and keeps comments that quote the answer', () => {
+    const draft = parsePregradeResponse('```json\n' + JSON.stringify({
+      rubric_scores: { task_achievement: 6.4, coherence_cohesion: 12, lexical_resource: 6, grammatical_range_accuracy: -1 },
+      feedback: '  Clear position, but develop your ideas.  ',
+      comments: [
+        { quote: 'However I disagree', comment: 'Add a comma after However.' },
+        { quote: 'not in the answer', comment: 'Dropped' }
+      ],
+      confidence: 1.4
+    }) + '\n```', task2)
+
+    expect(draft.rubric_scores).toEqual({
+      task_achievement: 6, coherence_cohesion: 9, lexical_resource: 6, grammatical_range_accuracy: 0
+    })
+    expect(draft.points_suggested).toBe(5.83)
+    expect(draft.feedback).toBe('Clear position, but develop your ideas.')
+    expect(draft.comments).toEqual([{ quote: 'However I disagree', comment: 'Add a comma after However.' }])
+    expect(draft.confidence).toBe(1)
+  })
+
+  test('scores essays without a rubric in half points', () => {
+    const draft = parsePregradeResponse('{"points_awarded": 3.3, "feedback": "Good"}', { ...task2, rubric: [], writing: null, points_possible: 5 })
+
+    expect(draft.points_suggested).toBe(3.5)
+    expect(draft.rubric_scores).toEqual({})
+  })
+
+  test('rejects unreadable responses and missing scores', () => {
+    expect(() => parsePregradeResponse('I think this essay is a 6', task2)).toThrow(PregradeError)
+    expect(() => parsePregradeResponse('{"rubric_scores": {"task_achievement": 6}}', task2)).toThrow(/Coherence and Cohesion/)
+  })
+})
+
+describe('providers', () => {
+  test('the prompt lists the rubric and the word count', () => {
+    const prompt = buildPregradePrompt(task2)
+
+    expect(prompt).toMatch(/task_achievement: Task Response \(max 9\)/)
+    expect(prompt).toMatch(/whole bands/)
+    expect(prompt).toMatch(/the answer has 15 words/)
+  })
+
+  test('the stub drafts 60% of each criterion without calling an API', async () => {
+    const provider = createStubProvider()
+    const { text, model } = await provider.complete(buildPregradePrompt(task2), task2)
+    const draft = parsePregradeResponse(text, task2)
+
+    expect(model).toBe('stub')
+    expect(Object.values(draft.rubric_scores)).toEqual([5, 5, 5, 5])
+    expect(draft.comments[0].quote).toBe('Many people think cities are better.')
+  })
+
+  test('AI_GRADING_PROVIDER selects the default provider', () => {
+    const previous = process.env.AI_GRADING_PROVIDER
+    process.env.AI_GRADING_PROVIDER = 'stub'
+    try {
+      expect(getPregradeProvider().name).toBe('stub')
+      expect(getPregradeProvider('gemini').name).toBe('gemini')
+    } finally {
+      if (previous === undefined) delete process.env.AI_GRADING_PROVIDER
+      else process.env.AI_GRADING_PROVIDER = previous
+    }
+  })
+
+  test('production only allows the stub when AI_GRADING_PROVIDER=stub', () => {
+    const env = process.env as Record<string, string | undefined>
+    const previous = { NODE_ENV: env.NODE_ENV, AI_GRADING_PROVIDER: env.AI_GRADING_PROVIDER }
+    try {
+      env.NODE_ENV = 'development'
+      delete env.AI_GRADING_PROVIDER
+      expect(isStubProviderAllowed()).toBe(true)
+
+      env.NODE_ENV = 'production'
+      expect(isStubProviderAllowed()).toBe(false)
+      env.AI_GRADING_PROVIDER = 'claude'
+      expect(isStubProviderAllowed()).toBe(false)
+      env.AI_GRADING_PROVIDER = 'stub'
+      expect(isStubProviderAllowed()).toBe(true)
+    } finally {
+      for (const [key, value] of Object.entries(previous)) {
+        if (value === undefined) delete env[key]
+        else env[key] = value
+      }
+    }
+  })
+})
+
+describe('inline comments', () => {
+  test('splits the answer around quoted passages', () => {
+    const segments = splitAnswerByComments(answer, [
+      { quote: 'Villages are quieter.', comment: 'Explain why this matters.' },
+      { quote: 'However', comment: 'Comma' },
+      { quote: 'However I', comment: 'Overlaps the previous comment' }
+    ])
+
+    expect(segments.map(s => s.comment)).toEqual([null, 1, null, 0])
+    expect(segments.map(s => s.text).join('')).toBe(answer)
+  })
+})
+
+describe('draft and review flow', () => {
+  const essayAttempt = () => ({
+    id: 'qa-1',
+    user_answer: answer,
+    points_possible: 10,
+    grading_status: 'pending',
+    points_earned: 0,
+    quiz_questions: {
+      question: task2.question,
+      question_type: 'essay',
+      correct_answer_json: null,
+      question_metadata: null,
+      rubric: null,
+      writing_settings: { task: 2 }
+    }
+  })
+
+  test('stores a draft without grading the answer', async () => {
+    const client = createMemoryClient(essayAttempt())
+    const suggestion = await draftEssayGrade(client, 'qa-1', createStubProvider(), 'grader-1')
+
+    expect(suggestion.status).toBe('draft')
+    expect(suggestion.provider).toBe('stub')
+    expect(suggestion.points_suggested).toBe(5.56)
+    expect(client.tables.grading_suggestions).toHaveLength(1)
+    expect(client.tables.question_attempts[0]).toMatchObject({ grading_status: 'pending', points_earned: 0 })
+  })
+
+  test('records whether the grader accepted or edited the draft', async () => {
+    const client = createMemoryClient(essayAttempt())
+    const suggestion = await draftEssayGrade(client, 'qa-1', createStubProvider(), 'grader-1')
+
+    await markSuggestionReviewed(client, 'qa-1', {
+      rubric_scores: { ...suggestion.rubric_scores, lexical_resource: 6 },
+      points_earned: 5.83,
+      feedback: suggestion.feedback
+    })
+
+    expect(client.tables.grading_suggestions[0].status).toBe('edited')
+    expect(getSuggestionStatus(suggestion, {
+      rubric_scores: suggestion.rubric_scores,
+      points_earned: suggestion.points_suggested,
+      feedback: ` ${suggestion.feedback}`
+    })).toBe('accepted')
+  })
+
+  test('only essays with an answer can be drafted', async () => {
+    const speaking = { ...essayAttempt(), quiz_questions: { ...essayAttempt().quiz_questions, question_type: 'speaking' } }
+    await expect(draftEssayGrade(createMemoryClient(speaking), 'qa-1', createStubProvider(), 'grader-1'))
+      .rejects.toThrow(GradingValidationError)
+
+    await expect(draftEssayGrade(createMemoryClient({ ...essayAttempt(), user_answer: '  ' }), 'qa-1', createStubProvider(), 'grader-1'))
+      .rejects.toThrow(/no answer/)
+  })
+})
@@ -0,0 +1,140 @@
+/**
+ * Badge Tests
+ * Validates criteria validation, rule evaluation and streak counting
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import {
+  BADGE_TRIGGERS,
+  computeLongestStreak,
+  describeBadgeCriteria,
+  evaluateBadgeCriteria,
+  normalizeBadgeCriteria,
+  validateBadge,
+  validateBadgeCriteria
+} from '../lib/badges/criteria'
+
+const Q1 = '11111111-1111-4111-8111-111111111111'
+const Q2 = '22222222-2222-4222-8222-222222222222'
+const COURSE = '33333333-3333-4333-8333-333333333333'
+
+describe('evaluateBadgeCriteria', () => {
+  test('should count each passed quiz once', () => {
+    const progress = evaluateBadgeCriteria(
+      { type: 'quizzes_passed', count: 3 },
+      { passed_quiz_ids: [Q1, Q1, Q2] }
+    )
+    expect(progress).toEqual({ met: false, current: 2, target: 3 })
+  })
+
+  test('should only count perfect scores on quizzes of the chosen difficulty', () => {
+    const facts = {
+      perfect_scores: [
+        { quiz_id: Q1, difficulty: 'beginner' },
+        { quiz_id: Q2, difficulty: 'advanced' }
+      ]
+    }
+    expect(evaluateBadgeCriteria({ type: 'perfect_score', count: 1, difficulty: 'advanced' }, facts).met).toBe(true)
+    expect(evaluateBadgeCriteria({ type: 'perfect_score', count: 2, difficulty: 'advanced' }, facts).met).toBe(false)
+    expect(evaluateBadgeCriteria({ type: 'perfect_score', count: 2 }, facts).met).toBe(true)
+  })
+
+  test('should match a specific course or any course', () => {
+    const facts = { completed_course_ids: [COURSE] }
+    expect(evaluateBadgeCriteria({ type: 'courses_completed', count: 1, course_id: COURSE }, facts).met).toBe(true)
+    expect(evaluateBadgeCriteria({ type: 'courses_completed', count: 1, course_id: Q1 }, facts).met).toBe(false)
+    expect(evaluateBadgeCriteria({ type: 'courses_completed', count: 2 }, facts)).toEqual({ met: false, current: 1, target: 2 })
+  })
+
+  test('should cap progress at the target', () => {
+    const progress = evaluateBadgeCriteria({ type: 'lessons_completed', count: 5 }, { completed_lesson_count: 12 })
+    expect(progress).toEqual({ met: true, current: 5, target: 5 })
+  })
+
+  test('should treat facts that were not loaded as zero', () => {
+    expect(evaluateBadgeCriteria({ type: 'courses_enrolled', count: 1 }, {}).met).toBe(false)
+  })
+})
+
+describe('computeLongestStreak', () => {
+  test('should count consecutive days once each', () => {
+    expect(computeLongestStreak([
+      '2024-03-01T08:00:00Z',
+      '2024-03-01T20:00:00Z',
+      '2024-03-02T09:00:00Z',
+      '2024-03-03T23:59:00Z'
+    ])).toBe(3)
+  })
+
+  test('should keep the longest run when a day is missed', () => {
+    expect(computeLongestStreak([
+      '2024-03-01T08:00:00Z',
+      '2024-03-02T08:00:00Z',
+      '2024-03-04T08:00:00Z',
+      '2024-03-05T08:00:00Z',
+      '2024-03-06T08:00:00Z'
+    ])).toBe(3)
+  })
+
+  test('should ignore missing and invalid dates', () => {
+    expect(computeLongestStreak([null, undefined, 'not a date'])).toBe(0)
+  })
+
+  test('should meet a streak badge from activity dates', () => {
+    const days = Array.from({ length: 7 }, (_, index) => `2024-03-${String(index + 10).padStart(2, '0')}T12:00:00Z`)
+    expect(evaluateBadgeCriteria({ type: 'streak_days', days: 7 }, { activity_dates: days }).met).toBe(true)
+  })
+})
+
+describe('validateBadgeCriteria', () => {
+  test('should accept the supported rules', () => {
+    expect(validateBadgeCriteria({ type: 'quizzes_passed', count: 10 })).toBeNull()
+    expect(validateBadgeCriteria({ type: 'streak_days', days: 7 })).toBeNull()
+    expect(validateBadgeCriteria({ type: 'perfect_score', count: 1, difficulty: 'advanced' })).toBeNull()
+  })
+
+  test('should reject unknown types and bad targets', () => {
+    expect(validateBadgeCriteria({ type: 'login_count', count: 3 })).toMatch(/Criteria type/)
+    expect(validateBadgeCriteria({ type: 'quizzes_passed', count: 0 })).toMatch(/Count/)
+    expect(validateBadgeCriteria({ type: 'streak_days', count: 7 })).toMatch(/Streak days/)
+    expect(validateBadgeCriteria({ type: 'perfect_score', count: 1, difficulty: 'hard' })).toMatch(/Difficulty/)
+    expect(validateBadgeCriteria({ type: 'courses_completed', count: 1, course_id: 'abc' })).toMatch(/Course/)
+  })
+
+  test('should normalize to the fields each type uses', () => {
+    expect(normalizeBadgeCriteria({ type: 'streak_days', days: 7, count: 99 })).toEqual({ type: 'streak_days', days: 7 })
+    expect(normalizeBadgeCriteria({ type: 'courses_completed', count: 4, course_id: COURSE }))
+      .toEqual({ type: 'courses_completed', count: 1, course_id: COURSE })
+    expect(normalizeBadgeCriteria({ type: 'something_else' })).toBeNull()
+  })
+})
+
+describe('validateBadge', () => {
+  const badge = { name: 'First Steps', criteria: { type: 'quizzes_passed', count: 1 } }
+
+  test('should require a name and criteria on create', () => {
+    expect(validateBadge(badge)).toBeNull()
+    expect(validateBadge({ ...badge, name: ' ' })).toMatch(/Name/)
+    expect(validateBadge({ name: 'No rule' })).toMatch(/Criteria/)
+  })
+
+  test('should only check the fields present on update', () => {
+    expect(validateBadge({ points: 25 }, true)).toBeNull()
+    expect(validateBadge({ rarity: 'mythic' }, true)).toMatch(/Rarity/)
+    expect(validateBadge({ icon_url: 'javascript:alert(1)' }, true)).toMatch(/Icon/)
+  })
+})
+
+describe('badge rules', () => {
+  test('should describe rules in plain language', () => {
+    expect(describeBadgeCriteria({ type: 'quizzes_passed', count: 1 })).toBe('Pass 1 quiz')
+    expect(describeBadgeCriteria({ type: 'quizzes_passed', count: 10 })).toBe('Pass 10 quizzes')
+    expect(describeBadgeCriteria({ type: 'perfect_score', count: 1, difficulty: 'advanced' })).toBe('Score 100% on an advanced quiz')
+    expect(describeBadgeCriteria({ type: 'streak_days', days: 7 })).toBe('Study 7 days in a row')
+  })
+
+  test('should re-check course badges after lessons since the last lesson completes a course', () => {
+    expect(BADGE_TRIGGERS.courses_completed).toContain('lesson_completed')
+    expect(BADGE_TRIGGERS.courses_enrolled).not.toContain('quiz_submitted')
+  })
+})
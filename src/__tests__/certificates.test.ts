@@ -0,0 +1,108 @@
+/**
+ * Certificate Tests
+ * Validates verification codes, template text filling and SVG rendering
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import {
+  generateCertificateCode,
+  isCertificateCode,
+  normalizeCertificateCode,
+  toCertificateVerification
+} from '../lib/certificates/issue'
+import { escapeXml, fillCertificateText, wrapCertificateText, renderCertificateSvg, getCertificateTextValues } from '../lib/certificates/render'
+import { DEFAULT_CERTIFICATE_TEMPLATE, pickCertificateTemplateFields, validateCertificateTemplate } from '../lib/certificates/templates'
+import type { IssuedCertificate } from '../lib/certificates/types'
+
+const certificate: IssuedCertificate = {
+  id: 'c1',
+  user_id: 'u1',
+  course_id: null,
+  quiz_id: 'quiz-1',
+  quiz_attempt_id: 'a1',
+  template_id: null,
+  certificate_number: 'ACX-7K3M-Q9TD-2WXP',
+  recipient_name: 'Sam <Lee>',
+  title: 'Reading & Writing',
+  score: 86.4,
+  issued_at: '2024-03-05T10:00:00Z',
+  expires_at: null,
+  is_valid: true,
+  revoked_at: null
+}
+
+describe('certificate codes', () => {
+  test('should generate codes that pass validation', () => {
+    for (let i = 0; i < 50; i++) {
+      expect(isCertificateCode(generateCertificateCode())).toBe(true)
+    }
+  })
+
+  test('should reject ambiguous characters and malformed codes', () => {
+    expect(isCertificateCode('ACX-0000-1111-IIII')).toBe(false)
+    expect(isCertificateCode('ACX-7K3M-Q9TD')).toBe(false)
+    expect(isCertificateCode(normalizeCertificateCode(' acx-7k3m-q9td-2wxp '))).toBe(true)
+  })
+})
+
+describe('toCertificateVerification', () => {
+  test('should report valid, revoked and expired certificates', () => {
+    expect(toCertificateVerification(certificate).status).toBe('valid')
+    expect(toCertificateVerification({ ...certificate, is_valid: false }).status).toBe('revoked')
+    expect(toCertificateVerification(
+      { ...certificate, expires_at: '2024-06-01T00:00:00Z' },
+      new Date('2025-01-01T00:00:00Z')
+    ).status).toBe('expired')
+  })
+
+  test('should not expose ids', () => {
+    const verification = toCertificateVerification(certificate) as Record<string, unknown>
+    expect(verification.user_id).toBeUndefined()
+    expect(verification.source).toBe('quiz')
+  })
+})
+
+describe('certificate text', () => {
+  test('should fill known placeholders and keep unknown ones', () => {
+    const values = getCertificateTextValues(certificate)
+    expect(fillCertificateText('{{ recipient }} passed {{title}} with {{score}} {{unknown}}', values))
+      .toBe('Sam <Lee> passed Reading & Writing with 86% {{unknown}}')
+    expect(values.date).toBe('5 March 2024')
+  })
+
+  test('should escape XML special characters', () => {
+    expect(escapeXml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&apos;&amp;&apos;&lt;/a&gt;')
+  })
+
+  test('should wrap long text and truncate past the line limit', () => {
+    const lines = wrapCertificateText('one two three four five six', 9, 2)
+    expect(lines).toHaveLength(2)
+    expect(lines[0]).toBe('one two')
+    expect(lines[1].endsWith('…')).toBe(true)
+  })
+
+  test('should render escaped values into the SVG', () => {
+    const svg = renderCertificateSvg(DEFAULT_CERTIFICATE_TEMPLATE, certificate, 'https://example.com/certificates/ACX-7K3M-Q9TD-2WXP')
+    expect(svg.startsWith('<svg')).toBe(true)
+    expect(svg).toContain('Sam &lt;Lee&gt;')
+    expect(svg).toContain('Reading &amp; Writing')
+    expect(svg).not.toContain('<Lee>')
+  })
+})
+
+describe('validateCertificateTemplate', () => {
+  test('should require core fields on create but not on update', () => {
+    expect(validateCertificateTemplate({ name: 'x' })).toMatch(/Heading/)
+    expect(validateCertificateTemplate({ name: 'x' }, true)).toBeNull()
+    expect(validateCertificateTemplate({ ...DEFAULT_CERTIFICATE_TEMPLATE })).toBeNull()
+  })
+
+  test('should reject bad colors', () => {
+    expect(validateCertificateTemplate({ accent_color: 'blue' }, true)).toMatch(/hex/)
+  })
+
+  test('should trim fields and null out empty signatures', () => {
+    expect(pickCertificateTemplateFields({ name: ' Gold ', signature_name: '  ', other: 1 }))
+      .toEqual({ name: 'Gold', signature_name: null })
+  })
+})
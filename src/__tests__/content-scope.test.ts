@@ -0,0 +1,135 @@
+/**
+ * Content Scope Tests
+ * Covers what instructors can see and change compared with admins
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import {
+  ContentAccessError,
+  assertCourseAccess,
+  assertQuizAccess,
+  canAccessCourse,
+  canAccessQuiz,
+  loadContentScope,
+  scopeCourseFields,
+  scopeQuery,
+  scopeQuizFields,
+  type ContentScope
+} from '../lib/content-scope'
+
+const ADMIN_ID = 'a0000000-0000-4000-8000-000000000001'
+const TEACHER_ID = 'a0000000-0000-4000-8000-000000000002'
+const OWN_COURSE = 'c0000000-0000-4000-8000-000000000001'
+const OTHER_COURSE = 'c0000000-0000-4000-8000-000000000002'
+const OWN_QUIZ = 'f0000000-0000-4000-8000-000000000001'
+const OTHER_QUIZ = 'f0000000-0000-4000-8000-000000000002'
+
+const adminScope: ContentScope = { userId: ADMIN_ID, courseIds: null, quizIds: null }
+const teacherScope: ContentScope = { userId: TEACHER_ID, courseIds: [OWN_COURSE], quizIds: [OWN_QUIZ] }
+
+function recordingQuery() {
+  const calls: Array<[string, string[]]> = []
+  const query = {
+    calls,
+    in(column: string, values: string[]) {
+      calls.push([column, values])
+      return query
+    }
+  }
+  return query
+}
+
+describe('access checks', () => {
+  test('admins reach everything', () => {
+    expect(canAccessCourse(adminScope, OTHER_COURSE)).toBe(true)
+    expect(canAccessQuiz(adminScope, OTHER_QUIZ)).toBe(true)
+    expect(() => assertQuizAccess(adminScope, [OWN_QUIZ, OTHER_QUIZ])).not.toThrow()
+  })
+
+  test('instructors reach only their own content', () => {
+    expect(canAccessCourse(teacherScope, OWN_COURSE)).toBe(true)
+    expect(canAccessCourse(teacherScope, OTHER_COURSE)).toBe(false)
+    expect(canAccessQuiz(teacherScope, OWN_QUIZ)).toBe(true)
+    expect(canAccessQuiz(teacherScope, OTHER_QUIZ)).toBe(false)
+    expect(canAccessQuiz(teacherScope, null)).toBe(false)
+  })
+
+  test('assertions fail the whole batch when one item is out of scope', () => {
+    expect(() => assertCourseAccess(teacherScope, OTHER_COURSE)).toThrow('Course not found')
+    expect(() => assertQuizAccess(teacherScope, [OWN_QUIZ, OTHER_QUIZ])).toThrow(ContentAccessError)
+    expect(() => assertQuizAccess(teacherScope, [OWN_QUIZ])).not.toThrow()
+  })
+})
+
+describe('scopeQuery', () => {
+  test('leaves admin queries alone', () => {
+    const query = recordingQuery()
+    expect(scopeQuery(query, 'quiz_id', adminScope.quizIds)).toBe(query)
+    expect(query.calls).toEqual([])
+  })
+
+  test('filters instructor queries and matches nothing when they have no content', () => {
+    const query = recordingQuery()
+    scopeQuery(query, 'quiz_id', teacherScope.quizIds)
+    scopeQuery(query, 'course_id', [])
+    expect(query.calls[0]).toEqual(['quiz_id', [OWN_QUIZ]])
+    expect(query.calls[1][0]).toBe('course_id')
+    expect(query.calls[1][1]).toHaveLength(1)
+    expect(query.calls[1][1]).not.toContain(OWN_COURSE)
+  })
+})
+
+describe('field scoping', () => {
+  test('instructor courses always belong to the instructor', () => {
+    expect(scopeCourseFields(teacherScope, { title: 'IELTS Prep', instructor_id: ADMIN_ID }, true))
+      .toEqual({ title: 'IELTS Prep', instructor_id: TEACHER_ID })
+    expect(scopeCourseFields(teacherScope, { title: 'IELTS Prep', instructor_id: ADMIN_ID }, false))
+      .toEqual({ title: 'IELTS Prep' })
+    expect(scopeCourseFields(adminScope, { title: 'IELTS Prep', instructor_id: TEACHER_ID }, true))
+      .toEqual({ title: 'IELTS Prep', instructor_id: TEACHER_ID })
+  })
+
+  test('instructor quizzes stay theirs, on their courses, without bank draws', () => {
+    expect(scopeQuizFields(teacherScope, {
+      title: 'Mock 1',
+      course_id: OWN_COURSE,
+      created_by: ADMIN_ID,
+      draw_rules: [{ count: 5 }]
+    }, true)).toEqual({ title: 'Mock 1', course_id: OWN_COURSE, created_by: TEACHER_ID })
+
+    expect(() => scopeQuizFields(teacherScope, { title: 'Mock 1', course_id: OTHER_COURSE }, false))
+      .toThrow(ContentAccessError)
+  })
+
+  test('admin quizzes are credited to the admin unless an author is given', () => {
+    expect(scopeQuizFields(adminScope, { title: 'Mock 1' }, true)).toEqual({ title: 'Mock 1', created_by: ADMIN_ID })
+    expect(scopeQuizFields(adminScope, { title: 'Mock 1', created_by: TEACHER_ID }, true).created_by).toBe(TEACHER_ID)
+    expect(scopeQuizFields(adminScope, { title: 'Mock 1' }, false)).toEqual({ title: 'Mock 1' })
+  })
+})
+
+describe('loadContentScope', () => {
+  test('admins are unrestricted without querying', async () => {
+    const scope = await loadContentScope({ from: () => { throw new Error('should not query') } }, { id: ADMIN_ID, role: 'admin' })
+    expect(scope).toEqual(adminScope)
+  })
+
+  test('instructors get their courses and the quizzes they wrote or that sit in those courses', async () => {
+    const filters: string[] = []
+    const client = {
+      from: (table: string) => ({
+        select: () => ({
+          eq: async () => ({ data: table === 'courses' ? [{ id: OWN_COURSE }] : [], error: null }),
+          or: async (filter: string) => {
+            filters.push(filter)
+            return { data: [{ id: OWN_QUIZ }], error: null }
+          }
+        })
+      })
+    }
+
+    const scope = await loadContentScope(client, { id: TEACHER_ID, role: 'instructor' })
+    expect(scope).toEqual(teacherScope)
+    expect(filters).toEqual([`created_by.eq.${TEACHER_ID},course_id.in.(${OWN_COURSE})`])
+  })
+})
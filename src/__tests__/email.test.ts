@@ -0,0 +1,223 @@
+/**
+ * Email Tests
+ * Covers template rendering, MIME encoding, SMTP dot-stuffing and authentication,
+ * settings validation and outbox retry backoff
+ */
+
+import net from 'net'
+import { describe, test, expect } from '@jest/globals'
+import { escapeHtml, renderEmail } from '../lib/email/templates'
+import { buildMimeMessage, encodeHeader, formatAddress } from '../lib/email/mime'
+import { createSmtpTransport, dotStuff } from '../lib/email/transports/smtp'
+import {
+  DEFAULT_EMAIL_SETTINGS,
+  resolveTransportName,
+  toEmailSettings,
+  toPublicEmailSettings,
+  validateEmailSettings
+} from '../lib/email/settings'
+import { getFailureUpdate, getRetryDelayMinutes, RETRY_DELAYS_MINUTES } from '../lib/email/outbox'
+
+const BRANDING = { site_name: 'Acadex', site_url: 'https://acadex.test' }
+const NOW = new Date('2024-03-14T12:00:00Z')
+
+describe('renderEmail', () => {
+  test('escapes learner-provided text in the HTML but not the plain text', () => {
+    const email = renderEmail('enrollment_confirmation', {
+      name: '<script>alert(1)</script>',
+      course_title: 'Tom & Jerry',
+      course_url: 'https://acadex.test/courses/1'
+    }, BRANDING)
+
+    expect(email.html).not.toContain('<script>')
+    expect(email.html).toContain('&lt;script&gt;')
+    expect(email.html).toContain('Tom &amp; Jerry')
+    expect(email.text).toContain('Tom & Jerry')
+    expect(email.subject).toContain('Tom & Jerry')
+  })
+
+  test('quiz results mention pending review', () => {
+    const email = renderEmail('quiz_result', {
+      name: 'Ana',
+      quiz_title: 'Reading 1',
+      percentage: 72,
+      passed: true,
+      pending_review: true,
+      results_url: 'https://acadex.test/quizzes/1/results'
+    }, BRANDING)
+
+    expect(email.text).toContain('72%')
+    expect(email.text.toLowerCase()).toContain('review')
+  })
+
+  test('escapeHtml covers quotes', () => {
+    expect(escapeHtml(`"a" 'b'`)).not.toMatch(/["']/)
+  })
+})
+
+describe('MIME encoding', () => {
+  test('ASCII headers are left alone and others are encoded', () => {
+    expect(encodeHeader('Your results')).toBe('Your results')
+    expect(encodeHeader('Résultats')).toMatch(/^=\?UTF-8\?B\?.+\?=$/)
+  })
+
+  test('header values cannot inject extra headers', () => {
+    expect(encodeHeader('Hi\r\nBcc: x@evil.test')).not.toMatch(/[\r\n]/)
+    expect(formatAddress({ email: 'a@b.test', name: 'Ana\nBcc: x' })).not.toMatch(/[\r\n]/)
+  })
+
+  test('builds a multipart message with both parts', () => {
+    const raw = buildMimeMessage({
+      subject: 'Hello',
+      html: '<p>Hi</p>',
+      text: 'Hi',
+      from: { email: 'noreply@acadex.test', name: 'Acadex' },
+      to: { email: 'ana@example.test' },
+      reply_to: 'help@acadex.test',
+      message_id: 'abc.123@acadex.test'
+    }, NOW)
+
+    expect(raw).toContain('Message-ID: <abc.123@acadex.test>')
+    expect(raw).toContain('Reply-To: <help@acadex.test>')
+    expect(raw).toContain('Content-Type: text/plain; charset=UTF-8')
+    expect(raw).toContain('Content-Type: text/html; charset=UTF-8')
+    expect(raw.split('\r\n').every(line => line.length <= 998)).toBe(true)
+  })
+})
+
+describe('dotStuff', () => {
+  test('doubles leading dots and normalises line endings', () => {
+    expect(dotStuff('.hidden\nline\n.')).toBe('..hidden\r\nline\r\n..')
+  })
+})
+
+describe('SMTP authentication', () => {
+  // A plaintext server that never offers STARTTLS, recording every command it receives
+  async function withPlaintextServer(run: (port: number, commands: string[]) => Promise<void>) {
+    const commands: string[] = []
+    const server = net.createServer(socket => {
+      let inData = false
+      socket.write('220 smtp.acadex.test ready\r\n')
+      socket.on('data', chunk => {
+        for (const line of chunk.toString().split('\r\n').filter(Boolean)) {
+          if (inData) {
+            if (line === '.') {
+              inData = false
+              socket.write('250 queued\r\n')
+            }
+            continue
+          }
+          commands.push(line)
+          if (line.startsWith('EHLO')) socket.write('250-smtp.acadex.test\r\n250 AUTH PLAIN LOGIN\r\n')
+          else if (line.startsWith('AUTH')) socket.write('235 authenticated\r\n')
+          else if (line === 'DATA') {
+            inData = true
+            socket.write('354 go ahead\r\n')
+          } else if (line === 'QUIT') socket.end('221 bye\r\n')
+          else socket.write('250 ok\r\n')
+        }
+      })
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()))
+    try {
+      await run((server.address() as net.AddressInfo).port, commands)
+    } finally {
+      await new Promise(resolve => server.close(resolve))
+    }
+  }
+
+  const message = {
+    message_id: 'test@acadex.test',
+    from: { email: 'noreply@acadex.test', name: 'Acadex' },
+    to: { email: 'learner@acadex.test' },
+    subject: 'Hello',
+    text: 'Hi',
+    html: '<p>Hi</p>'
+  } as any
+
+  test('refuses to send credentials when the server does not offer STARTTLS', async () => {
+    await withPlaintextServer(async (port, commands) => {
+      const transport = createSmtpTransport({
+        ...DEFAULT_EMAIL_SETTINGS,
+        transport: 'smtp',
+        smtp_host: '127.0.0.1',
+        smtp_port: port,
+        smtp_username: 'mailer',
+        smtp_password: 'secret'
+      })
+
+      await expect(transport.send(message)).rejects.toThrow(/STARTTLS/)
+      expect(commands.some(command => command.startsWith('AUTH'))).toBe(false)
+    })
+  })
+
+  test('signs in over plaintext only when explicitly allowed', async () => {
+    await withPlaintextServer(async (port, commands) => {
+      const transport = createSmtpTransport({
+        ...DEFAULT_EMAIL_SETTINGS,
+        transport: 'smtp',
+        smtp_host: '127.0.0.1',
+        smtp_port: port,
+        smtp_username: 'mailer',
+        smtp_password: 'secret',
+        smtp_allow_insecure_auth: true
+      })
+
+      await expect(transport.send(message)).resolves.toBe('test@acadex.test')
+      expect(commands.some(command => command.startsWith('AUTH PLAIN'))).toBe(true)
+    })
+  })
+})
+
+describe('email settings', () => {
+  test('accepts a valid partial update', () => {
+    expect(validateEmailSettings({ smtp_port: 465, smtp_secure: true })).toBeNull()
+  })
+
+  test('rejects bad values and unknown keys', () => {
+    expect(validateEmailSettings({ smtp_port: 70000 })).toMatch(/port/)
+    expect(validateEmailSettings({ transport: 'carrier-pigeon' })).toMatch(/Transport/)
+    expect(validateEmailSettings({ from_email: 'not-an-email' })).toMatch(/From email/)
+    expect(validateEmailSettings({ from_name: 'Evil\r\nBcc: x' })).toMatch(/From name/)
+    expect(validateEmailSettings({ admin: true })).toMatch(/Unknown/)
+    expect(validateEmailSettings({ transport: 'smtp', smtp_host: ' ' })).toMatch(/SMTP host/)
+    expect(validateEmailSettings({ smtp_allow_insecure_auth: 'yes' })).toMatch(/true or false/)
+  })
+
+  test('stored values fall back to the defaults when malformed', () => {
+    const settings = toEmailSettings({ transport: 'fax', smtp_port: '25', from_name: 'Academy' })
+    expect(settings.transport).toBe(DEFAULT_EMAIL_SETTINGS.transport)
+    expect(settings.smtp_port).toBe(DEFAULT_EMAIL_SETTINGS.smtp_port)
+    expect(settings.from_name).toBe('Academy')
+  })
+
+  test('the public view never includes the password', () => {
+    const view = toPublicEmailSettings({ ...DEFAULT_EMAIL_SETTINGS, smtp_password: 'secret' })
+    expect(view).not.toHaveProperty('smtp_password')
+    expect(view.smtp_password_set).toBe(true)
+  })
+
+  test('EMAIL_TRANSPORT overrides, and SMTP without a host only logs', () => {
+    const smtp = { ...DEFAULT_EMAIL_SETTINGS, transport: 'smtp' as const, smtp_host: 'smtp.acadex.test' }
+    expect(resolveTransportName(smtp, undefined)).toBe('smtp')
+    expect(resolveTransportName(smtp, 'file')).toBe('file')
+    expect(resolveTransportName(smtp, 'nonsense')).toBe('smtp')
+    expect(resolveTransportName({ ...smtp, smtp_host: '' }, undefined)).toBe('console')
+  })
+})
+
+describe('outbox retries', () => {
+  test('backoff grows and caps at the last delay', () => {
+    expect(getRetryDelayMinutes(1)).toBe(RETRY_DELAYS_MINUTES[0])
+    expect(getRetryDelayMinutes(2)).toBeGreaterThan(getRetryDelayMinutes(1))
+    expect(getRetryDelayMinutes(99)).toBe(RETRY_DELAYS_MINUTES[RETRY_DELAYS_MINUTES.length - 1])
+  })
+
+  test('a failed attempt is rescheduled until attempts run out', () => {
+    const retry = getFailureUpdate(1, 5, NOW)
+    expect(retry.status).toBe('pending')
+    expect(new Date(retry.next_attempt_at).getTime() - NOW.getTime()).toBe(RETRY_DELAYS_MINUTES[0] * 60 * 1000)
+
+    expect(getFailureUpdate(5, 5, NOW).status).toBe('failed')
+  })
+})
@@ -0,0 +1,84 @@
+/**
+ * Item Analytics Tests
+ * Validates incremental difficulty/discrimination updates for question_analytics
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import { applyItemObservation, classifyItem, type QuestionAnalyticsRow } from '../lib/grading/item-analytics'
+import { recordItemObservations } from '../lib/grading/persistence'
+
+function replay(observations: Array<[number, number]>): QuestionAnalyticsRow {
+  return observations.reduce<QuestionAnalyticsRow | null>((row, [credit, restScore]) =>
+    applyItemObservation('q1', row, { credit, isCorrect: credit >= 1, restScore, timeSpentSeconds: 30 }),
+  null)!
+}
+
+describe('applyItemObservation', () => {
+  test('should track attempts, difficulty and average time', () => {
+    const row = replay([[1, 0.8], [0, 0.4], [1, 0.9], [0.5, 0.6]])
+
+    expect(row.total_attempts).toBe(4)
+    expect(row.correct_attempts).toBe(2)
+    expect(row.difficulty_rating).toBe(0.375)
+    expect(row.average_time_seconds).toBe(30)
+  })
+
+  test('should give high discrimination when strong students get the item right', () => {
+    const row = replay([[1, 0.9], [1, 0.8], [0, 0.3], [0, 0.2]])
+
+    expect(row.discrimination_index).toBeGreaterThan(0.9)
+  })
+
+  test('should give negative discrimination when weak students get the item right', () => {
+    const row = replay([[0, 0.9], [0, 0.8], [1, 0.3], [1, 0.2]])
+
+    expect(row.discrimination_index).toBeLessThan(0)
+  })
+})
+
+describe('recordItemObservations', () => {
+  test('should send every observation to the database in one call', async () => {
+    const calls: Array<{ fn: string; args: any }> = []
+    const client = {
+      rpc: async (fn: string, args: any) => {
+        calls.push({ fn, args })
+        return { data: args.observations.length, error: null }
+      }
+    }
+
+    const recorded = await recordItemObservations(client, [
+      { questionId: 'q1', credit: 1, isCorrect: true, restScore: 0.5, timeSpentSeconds: 12 },
+      { questionId: 'q2', credit: 0, isCorrect: false, restScore: 0.75, timeSpentSeconds: 0 }
+    ])
+
+    expect(recorded).toBe(2)
+    expect(calls).toEqual([{
+      fn: 'record_question_observations',
+      args: {
+        observations: [
+          { question_id: 'q1', credit: 1, is_correct: true, rest_score: 0.5, time_spent_seconds: 12 },
+          { question_id: 'q2', credit: 0, is_correct: false, rest_score: 0.75, time_spent_seconds: 0 }
+        ]
+      }
+    }])
+    expect(await recordItemObservations(client, [])).toBe(0)
+    expect(calls).toHaveLength(1)
+  })
+
+  test('should report a failed update', async () => {
+    const client = { rpc: async () => ({ data: null, error: { message: 'function does not exist' } }) }
+
+    await expect(recordItemObservations(client, [{ questionId: 'q1', credit: 1, isCorrect: true, restScore: 0, timeSpentSeconds: 0 }]))
+      .rejects.toThrow(/function does not exist/)
+  })
+})
+
+describe('classifyItem', () => {
+  test('should flag items by difficulty and discrimination once enough data exists', () => {
+    expect(classifyItem({ total_attempts: 3, difficulty_rating: 0, discrimination_index: 0 })).toBe('insufficient_data')
+    expect(classifyItem({ total_attempts: 20, difficulty_rating: 0.05, discrimination_index: 0.4 })).toBe('too_easy')
+    expect(classifyItem({ total_attempts: 20, difficulty_rating: 0.95, discrimination_index: 0.4 })).toBe('too_hard')
+    expect(classifyItem({ total_attempts: 20, difficulty_rating: 0.5, discrimination_index: 0.05 })).toBe('non_discriminating')
+    expect(classifyItem({ total_attempts: 20, difficulty_rating: 0.5, discrimination_index: 0.45 })).toBe('ok')
+  })
+})
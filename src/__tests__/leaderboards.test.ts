@@ -0,0 +1,125 @@
+/**
+ * Leaderboard Tests
+ * Validates editor input, period boundaries, rollover windows and ranking
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import {
+  getPeriodStart,
+  listElapsedPeriods,
+  pickLeaderboardFields,
+  rankStandings,
+  validateLeaderboard
+} from '../lib/leaderboards/rules'
+import { validateUserSettings } from '../lib/user-settings'
+
+const QUIZ = '11111111-1111-4111-8111-111111111111'
+const PATH = '22222222-2222-4222-8222-222222222222'
+
+describe('validateLeaderboard', () => {
+  test('should require a name, ranking and period on create', () => {
+    expect(validateLeaderboard({ leaderboard_type: 'score', time_period: 'weekly' })).toMatch(/Name/)
+    expect(validateLeaderboard({ name: 'Weekly', leaderboard_type: 'fastest', time_period: 'weekly' })).toMatch(/Ranking/)
+    expect(validateLeaderboard({ name: 'Weekly', leaderboard_type: 'score', time_period: 'daily' })).toMatch(/Time period/)
+    expect(validateLeaderboard({ name: 'Weekly', leaderboard_type: 'score', time_period: 'weekly' })).toBeNull()
+  })
+
+  test('should allow only one scope', () => {
+    expect(validateLeaderboard({ quiz_id: QUIZ, learning_path_id: PATH }, true)).toMatch(/not several/)
+    expect(validateLeaderboard({ quiz_id: 'quiz-1' }, true)).toMatch(/quiz_id/)
+    expect(validateLeaderboard({ quiz_id: QUIZ, learning_path_id: null }, true)).toBeNull()
+  })
+
+  test('should bound the entries shown', () => {
+    expect(validateLeaderboard({ max_entries: 0 }, true)).toMatch(/Entries/)
+    expect(validateLeaderboard({ max_entries: 501 }, true)).toMatch(/Entries/)
+    expect(validateLeaderboard({ max_entries: 100 }, true)).toBeNull()
+  })
+})
+
+describe('pickLeaderboardFields', () => {
+  test('should replace the whole scope when any scope field is set', () => {
+    expect(pickLeaderboardFields({ learning_path_id: PATH })).toEqual({
+      quiz_id: null,
+      category_id: null,
+      learning_path_id: PATH
+    })
+  })
+
+  test('should derive the reset schedule from the period', () => {
+    expect(pickLeaderboardFields({ time_period: 'monthly' })).toEqual({ time_period: 'monthly', reset_frequency: 'monthly' })
+    expect(pickLeaderboardFields({ time_period: 'all_time' })).toEqual({ time_period: 'all_time', reset_frequency: null })
+  })
+})
+
+describe('getPeriodStart', () => {
+  test('should start weeks on Monday and months on the 1st, in UTC', () => {
+    // Sunday 2024-03-17
+    expect(getPeriodStart('weekly', new Date('2024-03-17T23:30:00Z'))?.toISOString()).toBe('2024-03-11T00:00:00.000Z')
+    expect(getPeriodStart('weekly', new Date('2024-03-18T00:00:00Z'))?.toISOString()).toBe('2024-03-18T00:00:00.000Z')
+    expect(getPeriodStart('monthly', new Date('2024-02-29T12:00:00Z'))?.toISOString()).toBe('2024-02-01T00:00:00.000Z')
+    expect(getPeriodStart('all_time', new Date())).toBeNull()
+  })
+})
+
+describe('listElapsedPeriods', () => {
+  test('should close the first period at the next boundary after a mid-week start', () => {
+    const board = { reset_frequency: 'weekly' as const, last_reset: '2024-03-13T10:00:00.000Z' }
+    expect(listElapsedPeriods(board, new Date('2024-03-17T00:00:00Z'))).toEqual([])
+    expect(listElapsedPeriods(board, new Date('2024-03-26T00:00:00Z'))).toEqual([
+      { start: '2024-03-13T10:00:00.000Z', end: '2024-03-18T00:00:00.000Z' },
+      { start: '2024-03-18T00:00:00.000Z', end: '2024-03-25T00:00:00.000Z' }
+    ])
+  })
+
+  test('should step through months of different lengths and cap long gaps', () => {
+    const board = { reset_frequency: 'monthly' as const, last_reset: '2024-01-01T00:00:00.000Z' }
+    const periods = listElapsedPeriods(board, new Date('2024-03-05T00:00:00Z'))
+    expect(periods.map(period => period.end)).toEqual(['2024-02-01T00:00:00.000Z', '2024-03-01T00:00:00.000Z'])
+    expect(listElapsedPeriods(board, new Date('2030-01-01T00:00:00Z'))).toHaveLength(12)
+  })
+
+  test('should never roll over all-time boards', () => {
+    expect(listElapsedPeriods({ reset_frequency: null, last_reset: '2020-01-01T00:00:00.000Z' }, new Date())).toEqual([])
+  })
+})
+
+describe('rankStandings', () => {
+  const attempts = [
+    { user_id: 'ana', quiz_id: 'q1', percentage_score: 60, passed: false },
+    { user_id: 'ana', quiz_id: 'q1', percentage_score: 90, passed: true },
+    { user_id: 'ana', quiz_id: 'q2', percentage_score: 70, passed: true },
+    { user_id: 'ben', quiz_id: 'q1', percentage_score: 80, passed: true },
+    { user_id: 'ben', quiz_id: 'q2', percentage_score: 80, passed: true },
+    { user_id: 'cho', quiz_id: 'q3', percentage_score: 100, passed: true }
+  ]
+
+  test('should sum each quiz at its best score and share ranks on ties', () => {
+    expect(rankStandings(attempts, 'score').map(({ user_id, score, rank }) => ({ user_id, score, rank }))).toEqual([
+      { user_id: 'ana', score: 160, rank: 1 },
+      { user_id: 'ben', score: 160, rank: 1 },
+      { user_id: 'cho', score: 100, rank: 3 }
+    ])
+  })
+
+  test('should rank by average and by quizzes passed', () => {
+    expect(rankStandings(attempts, 'average').map(standing => [standing.user_id, standing.score])).toEqual([
+      ['cho', 100],
+      ['ana', 80],
+      ['ben', 80]
+    ])
+    expect(rankStandings(attempts, 'quizzes_passed').map(standing => [standing.user_id, standing.rank])).toEqual([
+      ['ana', 1],
+      ['ben', 1],
+      ['cho', 3]
+    ])
+  })
+})
+
+describe('validateUserSettings', () => {
+  test('should accept the leaderboard opt-out and reject unknown values', () => {
+    expect(validateUserSettings({ privacy: { showOnLeaderboards: false } })).toBeNull()
+    expect(validateUserSettings({ privacy: { showOnLeaderboards: 'no' } })).not.toBeNull()
+    expect(validateUserSettings({ preferences: { timezone: 'Mars/Olympus' } })).not.toBeNull()
+  })
+})
@@ -0,0 +1,105 @@
+/**
+ * Learning Path Tests
+ * Validates unlock order, completion, prerequisites and editor validation
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import {
+  computePathProgress,
+  findPrerequisiteCycle,
+  normalizeCompletionCriteria,
+  pickLearningPathFields,
+  validateLearningPath
+} from '../lib/learning-paths/criteria'
+
+const Q1 = '11111111-1111-4111-8111-111111111111'
+const Q2 = '22222222-2222-4222-8222-222222222222'
+const Q3 = '33333333-3333-4333-8333-333333333333'
+const Q4 = '44444444-4444-4444-8444-444444444444'
+const Q5 = '55555555-5555-4555-8555-555555555555'
+
+const path = {
+  quiz_ids: [Q1, Q2, Q3, Q4, Q5],
+  prerequisites: [],
+  completion_criteria: { min_score: 70, pass_rate: 0.8 }
+}
+
+describe('computePathProgress', () => {
+  test('should unlock only the first quiz for a new learner', () => {
+    const progress = computePathProgress(path, {}, [])
+    expect(progress.steps.map(step => step.unlocked)).toEqual([true, false, false, false, false])
+    expect(progress.current_quiz_index).toBe(0)
+    expect(progress.progress_percentage).toBe(0)
+  })
+
+  test('should unlock each quiz once the earlier ones reach min_score', () => {
+    const progress = computePathProgress(path, { [Q1]: 85, [Q2]: 65 }, [])
+    expect(progress.steps.map(step => step.met)).toEqual([true, false, false, false, false])
+    expect(progress.steps.map(step => step.unlocked)).toEqual([true, true, false, false, false])
+    expect(progress.current_quiz_index).toBe(1)
+  })
+
+  test('should complete the path at the pass rate', () => {
+    const fourOfFive = computePathProgress(path, { [Q1]: 70, [Q2]: 90, [Q3]: 75, [Q4]: 80 }, [])
+    expect(fourOfFive.completed).toBe(true)
+    expect(fourOfFive.progress_percentage).toBe(80)
+
+    const threeOfFive = computePathProgress(path, { [Q1]: 70, [Q2]: 90, [Q3]: 75 }, [])
+    expect(threeOfFive.completed).toBe(false)
+  })
+
+  test('should keep everything locked until prerequisite paths are completed', () => {
+    const withPrerequisite = { ...path, prerequisites: ['path-a'] }
+    const locked = computePathProgress(withPrerequisite, { [Q1]: 100 }, [])
+    expect(locked.steps.every(step => !step.unlocked)).toBe(true)
+    expect(locked.missing_prerequisites).toEqual(['path-a'])
+
+    const unlocked = computePathProgress(withPrerequisite, { [Q1]: 100 }, ['path-a'])
+    expect(unlocked.steps[1].unlocked).toBe(true)
+  })
+
+  test('should handle an empty path', () => {
+    const progress = computePathProgress({ ...path, quiz_ids: [] }, {}, [])
+    expect(progress.completed).toBe(false)
+    expect(progress.progress_percentage).toBe(0)
+  })
+})
+
+describe('findPrerequisiteCycle', () => {
+  test('should find direct and indirect cycles', () => {
+    const paths = [
+      { id: 'a', prerequisites: ['b'] },
+      { id: 'b', prerequisites: ['c'] },
+      { id: 'c', prerequisites: ['a'] }
+    ]
+    expect(findPrerequisiteCycle(paths, 'a')).toEqual(['a', 'b', 'c', 'a'])
+  })
+
+  test('should accept chains without cycles', () => {
+    const paths = [
+      { id: 'a', prerequisites: ['b', 'c'] },
+      { id: 'b', prerequisites: ['c'] },
+      { id: 'c', prerequisites: [] }
+    ]
+    expect(findPrerequisiteCycle(paths, 'a')).toBeNull()
+  })
+})
+
+describe('validateLearningPath', () => {
+  test('should require a name and quizzes on create', () => {
+    expect(validateLearningPath({ quiz_ids: [Q1] })).toMatch(/Name/)
+    expect(validateLearningPath({ name: 'Band 7', quiz_ids: [] })).toMatch(/at least one quiz/)
+    expect(validateLearningPath({ name: 'Band 7', quiz_ids: [Q1, Q2] })).toBeNull()
+  })
+
+  test('should reject duplicate quizzes and bad criteria', () => {
+    expect(validateLearningPath({ quiz_ids: [Q1, Q1] }, true)).toMatch(/only once/)
+    expect(validateLearningPath({ completion_criteria: { min_score: 120, pass_rate: 0.5 } }, true)).toMatch(/Minimum score/)
+    expect(validateLearningPath({ completion_criteria: { min_score: 70, pass_rate: 0 } }, true)).toMatch(/Pass rate/)
+  })
+
+  test('should normalize tags and criteria', () => {
+    expect(pickLearningPathFields({ name: ' Band 7 ', tags: ['IELTS', ' ielts ', ''] })).toEqual({ name: 'Band 7', tags: ['ielts'] })
+    expect(normalizeCompletionCriteria({ min_score: 'x', pass_rate: 2 })).toEqual({ min_score: 70, pass_rate: 0.8 })
+  })
+})
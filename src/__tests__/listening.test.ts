@@ -0,0 +1,156 @@
+/**
+ * Listening Section Tests
+ * Covers settings normalization and validation, play counting, transfer time and group timing
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import {
+  DEFAULT_LISTENING_SETTINGS,
+  findActiveGroupIndex,
+  formatTimestamp,
+  getAllowedPlays,
+  getListeningTimeLimit,
+  getTransferExpiresAt,
+  isListeningQuiz,
+  mergeListeningProgress,
+  normalizeListeningProgress,
+  normalizeListeningSettings,
+  parseTimestamp,
+  toPublicListeningSettings,
+  validateListeningSettings
+} from '../lib/listening'
+
+const GROUPS = [
+  { title: 'Part 1', start_seconds: 0, from_question: 1, to_question: 10 },
+  { title: 'Part 2', start_seconds: 420, from_question: 11, to_question: 20 },
+  { title: 'Part 3', start_seconds: 900, from_question: 21, to_question: 30 }
+]
+
+const LIMITED = normalizeListeningSettings({ enabled: true, play_mode: 'limited', max_plays: 2, question_groups: GROUPS })
+const SINGLE = normalizeListeningSettings({ enabled: true, play_mode: 'single', max_plays: 3 })
+
+describe('normalizeListeningSettings', () => {
+  test('fills defaults, with 10 minutes of transfer time', () => {
+    expect(normalizeListeningSettings(null)).toEqual(DEFAULT_LISTENING_SETTINGS)
+    expect(normalizeListeningSettings({ enabled: true }).transfer_minutes).toBe(10)
+  })
+
+  test('single play always allows one play', () => {
+    expect(SINGLE.max_plays).toBe(1)
+    expect(getAllowedPlays(SINGLE)).toBe(1)
+    expect(getAllowedPlays(LIMITED)).toBe(2)
+  })
+
+  test('sorts groups by start time and keeps ranges in order', () => {
+    const settings = normalizeListeningSettings({
+      question_groups: [
+        { title: ' Part 2 ', start_seconds: 300, from_question: 11, to_question: 20 },
+        { start_seconds: 0, from_question: 5, to_question: 2 }
+      ]
+    })
+
+    expect(settings.question_groups.map(group => group.start_seconds)).toEqual([0, 300])
+    expect(settings.question_groups[0]).toMatchObject({ title: '', from_question: 5, to_question: 5 })
+    expect(settings.question_groups[1].title).toBe('Part 2')
+  })
+
+  test('the public settings leave out the transcript', () => {
+    const settings = normalizeListeningSettings({ enabled: true, transcript: 'Good morning, everyone.' })
+    expect(toPublicListeningSettings(settings)).not.toHaveProperty('transcript')
+  })
+})
+
+describe('validateListeningSettings', () => {
+  test('accepts valid settings and no settings', () => {
+    expect(validateListeningSettings(undefined)).toBeNull()
+    expect(validateListeningSettings(null)).toBeNull()
+    expect(validateListeningSettings({ enabled: true, play_mode: 'limited', max_plays: 3, question_groups: GROUPS })).toBeNull()
+  })
+
+  test('rejects bad play and transfer settings', () => {
+    expect(validateListeningSettings({ play_mode: 'loop' })).toMatch(/single or limited/)
+    expect(validateListeningSettings({ max_plays: 6 })).toMatch(/from 1 to 5/)
+    expect(validateListeningSettings({ transfer_minutes: 45 })).toMatch(/Transfer time/)
+    expect(validateListeningSettings({ transcript: 42 })).toMatch(/text/)
+  })
+
+  test('rejects groups without a start time or with overlapping questions', () => {
+    expect(validateListeningSettings({ question_groups: [{ from_question: 1, to_question: 10 }] })).toMatch(/start time/)
+    expect(validateListeningSettings({ question_groups: [{ start_seconds: 0, from_question: 10, to_question: 1 }] })).toMatch(/range/)
+    expect(validateListeningSettings({
+      question_groups: [
+        { start_seconds: 0, from_question: 1, to_question: 10 },
+        { start_seconds: 300, from_question: 10, to_question: 20 }
+      ]
+    })).toMatch(/Question 10 is in more than one group/)
+  })
+})
+
+describe('listening progress', () => {
+  const start = normalizeListeningProgress(null)
+
+  test('plays only go up and stop at the allowance', () => {
+    const once = mergeListeningProgress(start, { plays: 1 }, LIMITED)
+    expect(once.plays).toBe(1)
+    expect(mergeListeningProgress(once, { plays: 0 }, LIMITED).plays).toBe(1)
+    expect(mergeListeningProgress(once, { plays: 9 }, LIMITED).plays).toBe(2)
+    expect(mergeListeningProgress(start, { plays: 2 }, SINGLE).plays).toBe(1)
+  })
+
+  test('transfer time starts once and keeps its first start', () => {
+    const first = new Date('2026-03-01T10:30:00Z')
+    const started = mergeListeningProgress(start, { transfer_started: true }, LIMITED, first)
+    expect(started.transfer_started_at).toBe(first.toISOString())
+
+    const again = mergeListeningProgress(started, { transfer_started: true }, LIMITED, new Date('2026-03-01T10:35:00Z'))
+    expect(again.transfer_started_at).toBe(first.toISOString())
+  })
+
+  test('no transfer time means no transfer phase', () => {
+    const none = normalizeListeningSettings({ enabled: true, transfer_minutes: 0 })
+    expect(mergeListeningProgress(start, { transfer_started: true }, none).transfer_started_at).toBeNull()
+  })
+})
+
+describe('deadlines', () => {
+  test('adds transfer time to a time limit', () => {
+    expect(getListeningTimeLimit(30, LIMITED)).toBe(40)
+    expect(getListeningTimeLimit(null, LIMITED)).toBeNull()
+  })
+
+  test('transfer time brings the deadline forward but never past the original one', () => {
+    const progress = { plays: 2, transfer_started_at: '2026-03-01T10:30:00.000Z' }
+    expect(getTransferExpiresAt('2026-03-01T10:50:00.000Z', progress, LIMITED)).toBe('2026-03-01T10:40:00.000Z')
+    expect(getTransferExpiresAt('2026-03-01T10:35:00.000Z', progress, LIMITED)).toBe('2026-03-01T10:35:00.000Z')
+    expect(getTransferExpiresAt(null, progress, LIMITED)).toBe('2026-03-01T10:40:00.000Z')
+    expect(getTransferExpiresAt('2026-03-01T10:50:00.000Z', { plays: 1, transfer_started_at: null }, LIMITED))
+      .toBe('2026-03-01T10:50:00.000Z')
+  })
+})
+
+describe('group timing', () => {
+  test('finds the group playing at a point in the recording', () => {
+    expect(findActiveGroupIndex(GROUPS, 0)).toBe(0)
+    expect(findActiveGroupIndex(GROUPS, 419.9)).toBe(0)
+    expect(findActiveGroupIndex(GROUPS, 420)).toBe(1)
+    expect(findActiveGroupIndex(GROUPS, 2000)).toBe(2)
+    expect(findActiveGroupIndex([{ ...GROUPS[1] }], 60)).toBe(-1)
+  })
+
+  test('reads and writes timestamps', () => {
+    expect(formatTimestamp(425)).toBe('7:05')
+    expect(parseTimestamp('7:05')).toBe(425)
+    expect(parseTimestamp('1:00:00')).toBe(3600)
+    expect(parseTimestamp('90')).toBe(90)
+    expect(parseTimestamp('7:xx')).toBeNull()
+    expect(parseTimestamp('')).toBeNull()
+  })
+})
+
+describe('isListeningQuiz', () => {
+  test('needs settings switched on and a recording', () => {
+    expect(isListeningQuiz({ passage_audio_url: 'https://cdn.test/part1.mp3', listening_settings: { enabled: true } })).toBe(true)
+    expect(isListeningQuiz({ passage_audio_url: null, listening_settings: { enabled: true } })).toBe(false)
+    expect(isListeningQuiz({ passage_audio_url: 'https://cdn.test/part1.mp3', listening_settings: { enabled: false } })).toBe(false)
+  })
+})
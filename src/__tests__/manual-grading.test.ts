@@ -0,0 +1,46 @@
+/**
+ * Manual Grading Tests
+ * Validates rubric lookup and rubric-to-points scaling for essay grading
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import { getRubricCriteria, scoreManualGrade, GradingValidationError } from '../lib/grading/manual-grading'
+
+const rubric = [
+  { id: 'content', criterion: 'Content', max_points: 6, description: '' },
+  { id: 'language', criterion: 'Language', max_points: 4, description: '' }
+]
+
+describe('getRubricCriteria', () => {
+  test('should read editor rubric criteria from correct_answer_json', () => {
+    const criteria = getRubricCriteria({
+      correct_answer_json: { rubric_criteria: rubric },
+      question_metadata: null
+    })
+
+    expect(criteria.map(c => c.id)).toEqual(['content', 'language'])
+  })
+
+  test('should return an empty rubric when none is defined', () => {
+    expect(getRubricCriteria({ correct_answer_json: null, question_metadata: null })).toEqual([])
+  })
+})
+
+describe('scoreManualGrade', () => {
+  test('should scale rubric totals to the question points', () => {
+    const result = scoreManualGrade(rubric, 5, { rubricScores: { content: 6, language: 2 } })
+
+    expect(result.credit).toBe(0.8)
+    expect(result.points_earned).toBe(4)
+  })
+
+  test('should reject missing or out-of-range criterion scores', () => {
+    expect(() => scoreManualGrade(rubric, 5, { rubricScores: { content: 6 } })).toThrow(GradingValidationError)
+    expect(() => scoreManualGrade(rubric, 5, { rubricScores: { content: 7, language: 0 } })).toThrow(GradingValidationError)
+  })
+
+  test('should accept a direct score when there is no rubric', () => {
+    expect(scoreManualGrade([], 10, { pointsAwarded: 7.5 }).points_earned).toBe(7.5)
+    expect(() => scoreManualGrade([], 10, { pointsAwarded: 11 })).toThrow(GradingValidationError)
+  })
+})
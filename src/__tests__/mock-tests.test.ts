@@ -0,0 +1,179 @@
+/**
+ * Mock Test Tests
+ * Covers raw score to band conversion, half-band rounding and the band profile
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import {
+  DEFAULT_BAND_TABLES,
+  calculateOverallBand,
+  getBandDescriptor,
+  getDefaultBandTable,
+  percentageToBand,
+  rawScoreToBand,
+  scaleRawScore,
+  validateBandTable
+} from '../lib/score-utils'
+import { computeBandProfile, computeSectionResult, pickMockTestFields, validateMockTest } from '../lib/mock-tests/rules'
+import type { MockTest, SectionQuizScore } from '../lib/mock-tests/types'
+
+const LISTENING_QUIZ = '11111111-1111-4111-8111-111111111111'
+const READING_QUIZ = '22222222-2222-4222-8222-222222222222'
+const WRITING_QUIZ = '33333333-3333-4333-8333-333333333333'
+const SPEAKING_QUIZ = '44444444-4444-4444-8444-444444444444'
+
+const TEST: Pick<MockTest, 'module' | 'band_tables' | 'sections'> = {
+  module: 'academic',
+  band_tables: {},
+  sections: {
+    listening: [LISTENING_QUIZ],
+    reading: [READING_QUIZ],
+    writing: [WRITING_QUIZ],
+    speaking: [SPEAKING_QUIZ]
+  }
+}
+
+function score(quizId: string, percentage: number | null, totalQuestions = 40, pending = false): SectionQuizScore {
+  return { quiz_id: quizId, percentage_score: percentage, pending_review: pending, total_questions: totalQuestions }
+}
+
+describe('band conversion', () => {
+  test('converts listening raw marks with the published table', () => {
+    expect(rawScoreToBand(40, DEFAULT_BAND_TABLES.listening)).toBe(9)
+    expect(rawScoreToBand(30, DEFAULT_BAND_TABLES.listening)).toBe(7)
+    expect(rawScoreToBand(29, DEFAULT_BAND_TABLES.listening)).toBe(6.5)
+    expect(rawScoreToBand(0, DEFAULT_BAND_TABLES.listening)).toBe(0)
+  })
+
+  test('uses different reading tables for Academic and General Training', () => {
+    expect(rawScoreToBand(30, getDefaultBandTable('reading', 'academic'))).toBe(7)
+    expect(rawScoreToBand(30, getDefaultBandTable('reading', 'general_training'))).toBe(6)
+    expect(rawScoreToBand(39, getDefaultBandTable('reading', 'general_training'))).toBe(8.5)
+  })
+
+  test('scales marks on other totals to 40', () => {
+    expect(scaleRawScore(20, 20)).toBe(40)
+    expect(scaleRawScore(13, 26)).toBe(20)
+    expect(scaleRawScore(5, 0)).toBe(0)
+  })
+
+  test('rounds examiner-marked percentages down to the half band', () => {
+    expect(percentageToBand(100)).toBe(9)
+    expect(percentageToBand(75)).toBe(6.5)
+    expect(percentageToBand(66.7)).toBe(6)
+    expect(percentageToBand(-5)).toBe(0)
+  })
+
+  test('rounds the overall band to the nearest half, with .25 and .75 rounding up', () => {
+    expect(calculateOverallBand([6.5, 6.5, 5, 7])).toBe(6.5) // 6.25
+    expect(calculateOverallBand([6, 6.5, 6, 6])).toBe(6) // 6.125
+    expect(calculateOverallBand([7, 7, 6.5, 6.5])).toBe(7) // 6.75
+    expect(calculateOverallBand([6.5, 6.5, 6.5, 6])).toBe(6.5) // 6.375
+    expect(calculateOverallBand([])).toBeNull()
+  })
+
+  test('names the skill level for a band', () => {
+    expect(getBandDescriptor(7.5)).toBe('Good user')
+    expect(getBandDescriptor(9)).toBe('Expert user')
+  })
+})
+
+describe('validateBandTable', () => {
+  test('accepts the published tables', () => {
+    Object.values(DEFAULT_BAND_TABLES).forEach(table => expect(validateBandTable(table)).toBeNull())
+  })
+
+  test('rejects malformed rows', () => {
+    expect(validateBandTable([])).toMatch(/at least one row/)
+    expect(validateBandTable([{ min_raw: 41, band: 9 }])).toMatch(/whole numbers/)
+    expect(validateBandTable([{ min_raw: 30, band: 6.3 }])).toMatch(/steps of 0.5/)
+    expect(validateBandTable([{ min_raw: 30, band: 7 }, { min_raw: 30, band: 6 }])).toMatch(/more than once/)
+  })
+
+  test('rejects tables where a higher mark gives a lower band', () => {
+    expect(validateBandTable([{ min_raw: 35, band: 6 }, { min_raw: 30, band: 7 }])).toMatch(/lower band/)
+  })
+})
+
+describe('section results', () => {
+  test('listening and reading use raw marks across the section', () => {
+    const result = computeSectionResult(TEST, 'reading', [score(READING_QUIZ, 75, 13), score(READING_QUIZ, 75, 27)])
+    expect(result.status).toBe('complete')
+    expect(result.raw_score).toBe(30)
+    expect(result.band).toBe(7)
+  })
+
+  test('custom band tables override the published one', () => {
+    const custom = { ...TEST, band_tables: { listening: [{ min_raw: 20, band: 8 }, { min_raw: 0, band: 4 }] } }
+    expect(computeSectionResult(custom, 'listening', [score(LISTENING_QUIZ, 50)]).band).toBe(8)
+  })
+
+  test('sections without a score on every quiz have no band yet', () => {
+    const waiting = computeSectionResult(TEST, 'writing', [score(WRITING_QUIZ, null, 2, true)])
+    expect(waiting.status).toBe('awaiting_grading')
+    expect(waiting.band).toBeNull()
+
+    const partway = computeSectionResult(TEST, 'reading', [score(READING_QUIZ, 80), score(LISTENING_QUIZ, null)])
+    expect(partway.status).toBe('in_progress')
+    expect(partway.quizzes_done).toBe(1)
+  })
+})
+
+describe('computeBandProfile', () => {
+  test('gives the overall band once every section has one', () => {
+    const profile = computeBandProfile(TEST, {
+      [LISTENING_QUIZ]: score(LISTENING_QUIZ, 80), // 32/40 → 7.5
+      [READING_QUIZ]: score(READING_QUIZ, 75), // 30/40 → 7
+      [WRITING_QUIZ]: score(WRITING_QUIZ, 67, 2), // → 6
+      [SPEAKING_QUIZ]: score(SPEAKING_QUIZ, 75, 3) // → 6.5
+    })
+
+    expect(profile.sections.map(section => section.band)).toEqual([7.5, 7, 6, 6.5])
+    expect(profile.complete).toBe(true)
+    expect(profile.overall_band).toBe(7) // 6.75
+  })
+
+  test('leaves quizzes without scores out and withholds the overall band', () => {
+    const profile = computeBandProfile(TEST, {
+      [LISTENING_QUIZ]: score(LISTENING_QUIZ, 80),
+      [READING_QUIZ]: score(READING_QUIZ, 75)
+    })
+
+    expect(profile.sections[2]).toMatchObject({ skill: 'writing', quiz_count: 0, band: null })
+    expect(profile.complete).toBe(false)
+    expect(profile.overall_band).toBeNull()
+  })
+})
+
+describe('validateMockTest', () => {
+  const valid = { title: 'Mock 1', module: 'academic', sections: TEST.sections }
+
+  test('accepts a complete test and partial updates', () => {
+    expect(validateMockTest(valid)).toBeNull()
+    expect(validateMockTest({ is_published: true }, true)).toBeNull()
+  })
+
+  test('rejects bad sections', () => {
+    expect(validateMockTest({ ...valid, sections: { listening: [], reading: [], writing: [], speaking: [] } })).toMatch(/at least one quiz/)
+    expect(validateMockTest({ ...valid, sections: { listening: [READING_QUIZ], reading: [READING_QUIZ] } })).toMatch(/only once/)
+    expect(validateMockTest({ ...valid, sections: { grammar: [READING_QUIZ] } })).toMatch(/listening, reading/)
+    expect(validateMockTest({ ...valid, module: 'ukvi' })).toMatch(/Module/)
+  })
+
+  test('checks band tables and only allows them for listening and reading', () => {
+    expect(validateMockTest({ band_tables: { writing: DEFAULT_BAND_TABLES.listening } }, true)).toMatch(/only be set/)
+    expect(validateMockTest({ band_tables: { reading: [{ min_raw: 50, band: 9 }] } }, true)).toMatch(/^Reading band table/)
+  })
+
+  test('fills missing sections and sorts band tables when picking fields', () => {
+    const fields = pickMockTestFields({
+      title: '  Mock 1 ',
+      sections: { reading: [READING_QUIZ] },
+      band_tables: { listening: [{ min_raw: 0, band: 0 }, { min_raw: 30, band: 7 }] }
+    })
+
+    expect(fields.title).toBe('Mock 1')
+    expect(fields.sections).toEqual({ listening: [], reading: [READING_QUIZ], writing: [], speaking: [] })
+    expect(fields.band_tables?.listening?.[0]).toEqual({ min_raw: 30, band: 7 })
+  })
+})
@@ -0,0 +1,105 @@
+/**
+ * Notification Tests
+ * Covers delivery preferences, announcement validation and reminder generation
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import { getNotificationToggle, isNotificationWanted, validateAnnouncement } from '../lib/notifications/preferences'
+import { buildCourseReminders, buildDeadlineReminders } from '../lib/notifications/reminders'
+import { DEFAULT_USER_SETTINGS, toUserSettings } from '../lib/user-settings'
+
+const NOW = new Date('2024-03-14T12:00:00Z') // Thursday
+
+describe('isNotificationWanted', () => {
+  const allOff = {
+    ...DEFAULT_USER_SETTINGS.notifications,
+    courseReminders: false,
+    quizDeadlines: false,
+    achievements: false,
+    gradedWork: false
+  }
+
+  test('should always deliver enrollments and announcements', () => {
+    expect(getNotificationToggle({ type: 'enrollment' })).toBeNull()
+    expect(isNotificationWanted({ type: 'enrollment' }, allOff)).toBe(true)
+    expect(isNotificationWanted({ type: 'announcement' }, allOff)).toBe(true)
+  })
+
+  test('should respect the toggle for each kind of notification', () => {
+    expect(isNotificationWanted({ type: 'achievement' }, allOff)).toBe(false)
+    expect(isNotificationWanted({ type: 'graded_essay' }, allOff)).toBe(false)
+    expect(isNotificationWanted({ type: 'achievement' }, DEFAULT_USER_SETTINGS.notifications)).toBe(true)
+  })
+
+  test('should pick the reminder toggle by topic', () => {
+    const deadlinesOnly = { ...allOff, quizDeadlines: true }
+    expect(isNotificationWanted({ type: 'reminder', topic: 'quiz_deadline' }, deadlinesOnly)).toBe(true)
+    expect(isNotificationWanted({ type: 'reminder', topic: 'course' }, deadlinesOnly)).toBe(false)
+  })
+
+  test('should default new toggles on for settings saved before they existed', () => {
+    const settings = toUserSettings({ notification_preferences: { courseReminders: false } })
+    expect(settings.notifications.achievements).toBe(true)
+    expect(settings.notifications.gradedWork).toBe(true)
+    expect(settings.notifications.courseReminders).toBe(false)
+  })
+})
+
+describe('validateAnnouncement', () => {
+  const valid = { title: 'Mock test', message: 'A new mock test is live', audience: { type: 'all' } }
+
+  test('should require a title, message and audience', () => {
+    expect(validateAnnouncement({ ...valid, title: ' ' })).toMatch(/Title/)
+    expect(validateAnnouncement({ ...valid, message: '' })).toMatch(/Message/)
+    expect(validateAnnouncement({ ...valid, audience: { type: 'everyone' } })).toMatch(/Audience/)
+    expect(validateAnnouncement({ ...valid, audience: { type: 'course' } })).toMatch(/course/)
+    expect(validateAnnouncement(valid)).toBeNull()
+  })
+
+  test('should only link within the site', () => {
+    expect(validateAnnouncement({ ...valid, action_url: 'https://example.com' })).toMatch(/Link/)
+    expect(validateAnnouncement({ ...valid, action_url: '//example.com' })).toMatch(/Link/)
+    expect(validateAnnouncement({ ...valid, action_url: '/courses' })).toBeNull()
+  })
+})
+
+describe('buildCourseReminders', () => {
+  const enrollment = {
+    course_id: 'course-1',
+    course_title: 'IELTS Reading',
+    progress: 40,
+    enrolled_at: '2024-02-01T00:00:00Z',
+    last_accessed_at: '2024-03-01T00:00:00Z'
+  }
+
+  test('should remind about idle, unfinished courses only', () => {
+    expect(buildCourseReminders([enrollment], NOW)).toHaveLength(1)
+    expect(buildCourseReminders([{ ...enrollment, last_accessed_at: '2024-03-12T00:00:00Z' }], NOW)).toHaveLength(0)
+    expect(buildCourseReminders([{ ...enrollment, progress: 100 }], NOW)).toHaveLength(0)
+  })
+
+  test('should key reminders to the week so each course is mentioned once a week', () => {
+    const [thisWeek] = buildCourseReminders([enrollment], NOW)
+    const [sameWeek] = buildCourseReminders([enrollment], new Date('2024-03-17T23:00:00Z'))
+    const [nextWeek] = buildCourseReminders([enrollment], new Date('2024-03-18T01:00:00Z'))
+
+    expect(thisWeek.dedupe_key).toBe('course-reminder:course-1:2024-03-11')
+    expect(sameWeek.dedupe_key).toBe(thisWeek.dedupe_key)
+    expect(nextWeek.dedupe_key).not.toBe(thisWeek.dedupe_key)
+    expect(thisWeek.topic).toBe('course')
+  })
+})
+
+describe('buildDeadlineReminders', () => {
+  const quiz = { quiz_id: 'quiz-1', title: 'Listening Test 3', ends_at: '2024-03-15T12:00:00Z' }
+
+  test('should remind about quizzes closing within 48 hours that are not passed', () => {
+    const [reminder] = buildDeadlineReminders([quiz], new Set(), NOW)
+    expect(reminder.message).toMatch(/24 hours/)
+    expect(reminder.topic).toBe('quiz_deadline')
+
+    expect(buildDeadlineReminders([quiz], new Set(['quiz-1']), NOW)).toHaveLength(0)
+    expect(buildDeadlineReminders([{ ...quiz, ends_at: '2024-03-17T12:00:00Z' }], new Set(), NOW)).toHaveLength(0)
+    expect(buildDeadlineReminders([{ ...quiz, ends_at: '2024-03-14T11:00:00Z' }], new Set(), NOW)).toHaveLength(0)
+  })
+})
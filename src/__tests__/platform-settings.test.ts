@@ -0,0 +1,123 @@
+/**
+ * Platform Settings Tests
+ * Covers settings validation, stored-row merging and the password policy
+ */
+
+import { describe, test, expect, afterEach } from '@jest/globals'
+import {
+  DEFAULT_PLATFORM_SETTINGS,
+  getPasswordPolicy,
+  getPasswordRequirements,
+  loadPlatformSettings,
+  toPlatformSettings,
+  validatePlatformSettings
+} from '../lib/platform-settings'
+import { AUTH_CONFIG, AuthSecurity, authRateLimiter } from '../lib/auth-security'
+
+function fakeClient(rows: Array<{ key: string; value: any }>) {
+  return {
+    from: () => ({
+      select: () => ({
+        in: async () => ({ data: rows, error: null })
+      })
+    })
+  }
+}
+
+describe('validatePlatformSettings', () => {
+  test('accepts a valid partial update', () => {
+    expect(validatePlatformSettings({
+      site: { name: 'IELTS Prep', timezone: 'Asia/Jakarta' },
+      security: { password_min_length: 10, password_require_special: false }
+    })).toBeNull()
+  })
+
+  test('rejects unknown sections, unknown keys and wrong types', () => {
+    expect(validatePlatformSettings({ billing: {} })).toMatch(/Unknown settings section/)
+    expect(validatePlatformSettings({ security: { password_max_length: 20 } })).toMatch(/Unknown setting/)
+    expect(validatePlatformSettings({ notifications: { security_alerts: 'yes' } })).toMatch(/true or false/)
+  })
+
+  test('rejects numbers outside their range', () => {
+    expect(validatePlatformSettings({ security: { password_min_length: 4 } })).toMatch(/between 6 and 50/)
+    expect(validatePlatformSettings({ security: { login_attempts: 2.5 } })).toMatch(/whole number/)
+    expect(validatePlatformSettings({ database: { retention_days: null } })).toMatch(/whole number/)
+  })
+
+  test('checks site and database values', () => {
+    expect(validatePlatformSettings({ site: { name: '  ' } })).toMatch(/Site name/)
+    expect(validatePlatformSettings({ site: { timezone: 'Mars/Olympus' } })).toMatch(/Timezone/)
+    expect(validatePlatformSettings({ site: { logo: 'javascript:alert(1)' } })).toMatch(/URL/)
+    expect(validatePlatformSettings({ database: { backup_frequency: 'hourly' } })).toMatch(/Backup frequency/)
+  })
+})
+
+describe('toPlatformSettings', () => {
+  test('fills sections never saved with the defaults', () => {
+    const settings = toPlatformSettings([{ key: 'security', value: { password_min_length: 12 } }])
+    expect(settings.security.password_min_length).toBe(12)
+    expect(settings.security.login_attempts).toBe(DEFAULT_PLATFORM_SETTINGS.security.login_attempts)
+    expect(settings.site).toEqual(DEFAULT_PLATFORM_SETTINGS.site)
+  })
+
+  test('ignores malformed stored values and other keys', () => {
+    const settings = toPlatformSettings([
+      { key: 'security', value: { password_min_length: '12' } },
+      { key: 'email', value: { transport: 'smtp' } }
+    ])
+    expect(settings.security.password_min_length).toBe(DEFAULT_PLATFORM_SETTINGS.security.password_min_length)
+    expect(settings).not.toHaveProperty('email')
+  })
+})
+
+describe('password policy', () => {
+  const lenient = { min_length: 6, require_uppercase: false, require_lowercase: false, require_number: false, require_special: false }
+
+  afterEach(async () => {
+    await loadPlatformSettings(fakeClient([]))
+  })
+
+  test('the checklist follows the policy', () => {
+    expect(getPasswordRequirements(getPasswordPolicy()).map(requirement => requirement.id))
+      .toEqual(['length', 'uppercase', 'lowercase', 'number', 'special'])
+    expect(getPasswordRequirements(lenient).map(requirement => requirement.id)).toEqual(['length'])
+  })
+
+  test('validatePassword reports each unmet requirement', () => {
+    expect(AuthSecurity.validatePassword('Str0ng!pass').isValid).toBe(true)
+    expect(AuthSecurity.validatePassword('weak').errors).toHaveLength(4)
+    expect(AuthSecurity.validatePassword('simple', lenient).isValid).toBe(true)
+  })
+
+  test('AUTH_CONFIG follows the saved password policy', async () => {
+    await loadPlatformSettings(fakeClient([
+      { key: 'security', value: { password_min_length: 12, password_require_special: false } }
+    ]))
+
+    expect(AUTH_CONFIG.PASSWORD_POLICY.min_length).toBe(12)
+    expect(AuthSecurity.validatePassword('Str0ngpass').errors).toEqual(['Password must be at least 12 characters long'])
+  })
+
+  test('sessions end session_timeout hours after sign-in', () => {
+    const hour = 60 * 60 * 1000
+
+    expect(AuthSecurity.isSessionValid(Date.now() - hour, { session_timeout: 2 })).toBe(true)
+    expect(AuthSecurity.isSessionValid(Date.now() - 3 * hour, { session_timeout: 2 })).toBe(false)
+    expect(AuthSecurity.isSessionValid(Date.now() - 3 * hour, { session_timeout: 2 }, true)).toBe(true)
+  })
+
+  test('sign-ins are blocked after login_attempts failures', () => {
+    const email = 'login:locked@example.com'
+
+    authRateLimiter.recordAttempt(email, false, 3)
+    authRateLimiter.recordAttempt(email, false, 3)
+    expect(authRateLimiter.isBlocked(email, 3)).toBe(false)
+
+    authRateLimiter.recordAttempt(email, false, 3)
+    expect(authRateLimiter.isBlocked(email, 3)).toBe(true)
+    expect(authRateLimiter.isBlocked(email, 5)).toBe(false)
+
+    authRateLimiter.recordAttempt(email, true, 3)
+    expect(authRateLimiter.isBlocked(email, 3)).toBe(false)
+  })
+})
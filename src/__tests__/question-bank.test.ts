@@ -0,0 +1,134 @@
+/**
+ * Question Bank Tests
+ * Validates seeded draws, draw rule validation and template conversion
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import {
+  createSeededRandom,
+  drawFromBank,
+  matchesDrawRule,
+  normalizeDrawRules,
+  seededShuffle,
+  validateDrawRules
+} from '../lib/question-bank/draw'
+import { normalizeTags, templateFromQuizQuestion, validateTemplateInput } from '../lib/question-bank/templates'
+import type { TemplateCandidate } from '../lib/question-bank/types'
+
+const candidate = (
+  id: string,
+  category: string,
+  difficulty: TemplateCandidate['difficulty'],
+  tags: string[] = [],
+  questionType = 'multiple_choice'
+): TemplateCandidate => ({ id, category, difficulty, question_type: questionType, tags })
+
+const bank: TemplateCandidate[] = [
+  ...Array.from({ length: 8 }, (_, i) => candidate(`g${i}`, 'grammar', 'advanced', ['tenses'])),
+  ...Array.from({ length: 8 }, (_, i) => candidate(`v${i}`, 'vocabulary', 'intermediate', ['collocations'])),
+  candidate('e1', 'grammar', 'advanced', ['tenses'], 'essay')
+]
+
+describe('seeded random', () => {
+  test('should repeat the same sequence for the same seed', () => {
+    const a = createSeededRandom(42)
+    const b = createSeededRandom(42)
+    const first = [a(), a(), a()]
+    expect([b(), b(), b()]).toEqual(first)
+    first.forEach(value => {
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThan(1)
+    })
+  })
+
+  test('should shuffle without losing or mutating items', () => {
+    const items = [1, 2, 3, 4, 5, 6]
+    const shuffled = seededShuffle(items, createSeededRandom(7))
+    expect([...shuffled].sort()).toEqual(items)
+    expect(items).toEqual([1, 2, 3, 4, 5, 6])
+  })
+})
+
+describe('drawFromBank', () => {
+  const rules = normalizeDrawRules([
+    { count: 3, category: 'grammar', difficulty: 'advanced' },
+    { count: 4, category: 'vocabulary' }
+  ])
+
+  test('should reproduce a draw from its seed regardless of row order', () => {
+    const first = drawFromBank(rules, bank, 1234)
+    const replay = drawFromBank(rules, [...bank].reverse(), 1234)
+    expect(replay.template_ids).toEqual(first.template_ids)
+    expect(first.template_ids).toHaveLength(7)
+    expect(first.shortfalls).toEqual([])
+  })
+
+  test('should draw different sets for different seeds', () => {
+    const draws = new Set([1, 2, 3, 4, 5].map(seed => drawFromBank(rules, bank, seed).template_ids.join(',')))
+    expect(draws.size).toBeGreaterThan(1)
+  })
+
+  test('should not reuse an item across rules', () => {
+    const overlapping = normalizeDrawRules([{ count: 5, category: 'grammar' }, { count: 5, tags: ['tenses'] }])
+    const result = drawFromBank(overlapping, bank, 99)
+    expect(new Set(result.template_ids).size).toBe(result.template_ids.length)
+    expect(result.template_ids).toHaveLength(8)
+    expect(result.shortfalls).toEqual([{ rule_index: 1, requested: 5, drawn: 3 }])
+  })
+
+  test('should never draw essays', () => {
+    const result = drawFromBank(normalizeDrawRules([{ count: 20, category: 'grammar' }]), bank, 5)
+    expect(result.template_ids).not.toContain('e1')
+  })
+})
+
+describe('matchesDrawRule', () => {
+  test('should require every rule tag, ignoring case', () => {
+    const item = candidate('x', 'Grammar', 'beginner', ['Tenses', 'past'])
+    expect(matchesDrawRule(item, { count: 1, category: 'grammar', tags: ['tenses', 'PAST'] })).toBe(true)
+    expect(matchesDrawRule(item, { count: 1, tags: ['tenses', 'future'] })).toBe(false)
+  })
+})
+
+describe('validateDrawRules', () => {
+  test('should accept missing or well-formed rules', () => {
+    expect(validateDrawRules(undefined)).toBeNull()
+    expect(validateDrawRules([{ count: 5, difficulty: 'advanced', tags: ['a'] }])).toBeNull()
+  })
+
+  test('should reject bad counts, difficulties and essay draws', () => {
+    expect(validateDrawRules({})).toMatch(/list/)
+    expect(validateDrawRules([{ count: 0 }])).toMatch(/between 1 and/)
+    expect(validateDrawRules([{ count: 2, difficulty: 'expert' }])).toMatch(/difficulty/)
+    expect(validateDrawRules([{ count: 2, question_type: 'essay' }])).toMatch(/Essay/)
+  })
+})
+
+describe('templates', () => {
+  test('should normalize tags', () => {
+    expect(normalizeTags([' Grammar ', 'grammar', '', 'IELTS'])).toEqual(['grammar', 'ielts'])
+    expect(normalizeTags('grammar')).toEqual([])
+  })
+
+  test('should copy a quiz question into a valid template', () => {
+    const template = templateFromQuizQuestion({
+      id: 'q1',
+      quiz_id: 'quiz-1',
+      question: 'Choose the correct form',
+      question_type: 'single_choice',
+      options: ['go', 'went'],
+      correct_answer: 1,
+      difficulty_level: 'hard',
+      points: 2
+    }, 'grammar')
+
+    expect(template).toMatchObject({
+      category: 'grammar',
+      difficulty: 'advanced',
+      question_type: 'multiple_choice',
+      question_data: { question: 'Choose the correct form', options: ['go', 'went'], correct_answer: 1, points: 2 }
+    })
+    expect(template.question_data).not.toHaveProperty('quiz_id')
+    expect(validateTemplateInput(template)).toBeNull()
+  })
+})
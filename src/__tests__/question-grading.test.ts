@@ -0,0 +1,129 @@
+/**
+ * Server-side Grading Tests
+ * Validates the grader registry used by the quiz submit route
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import { gradeQuestion, gradeSubmission, type GradableQuestion } from '../lib/grading'
+
+const base = { correct_answer: 0, points: 1 }
+
+describe('Choice and True/False grading', () => {
+  test('should grade multiple choice by option index', () => {
+    const question = { ...base, id: 'q1', question_type: 'multiple_choice' as const, correct_answer: 2 }
+
+    expect(gradeQuestion(question, 2).is_correct).toBe(true)
+    expect(gradeQuestion(question, '2').is_correct).toBe(true)
+    expect(gradeQuestion(question, 1).is_correct).toBe(false)
+  })
+
+  test('should accept booleans and indexes for true/false (True = 0)', () => {
+    const question = { ...base, id: 'q2', question_type: 'true_false' as const, correct_answer: 1 }
+
+    expect(gradeQuestion(question, false).is_correct).toBe(true)
+    expect(gradeQuestion(question, 1).is_correct).toBe(true)
+    expect(gradeQuestion(question, true).is_correct).toBe(false)
+  })
+})
+
+describe('Fill in the blank grading', () => {
+  test('should accept any listed answer, case-insensitive by default', () => {
+    const question = {
+      ...base,
+      id: 'q3',
+      question_type: 'fill_blank' as const,
+      correct_answer_json: { correct_answers: ['color', 'colour'] }
+    }
+
+    expect(gradeQuestion(question, '  Colour ').is_correct).toBe(true)
+    expect(gradeQuestion(question, 'colr').is_correct).toBe(false)
+  })
+
+  test('should fall back to correct_answer_text, then correct_answer, and ignore options', () => {
+    const question = {
+      ...base,
+      id: 'q3',
+      question_type: 'fill_blank' as const,
+      options: ['wrong'],
+      correct_answer_text: 'right'
+    }
+
+    expect(gradeQuestion(question, 'right').is_correct).toBe(true)
+    expect(gradeQuestion(question, 'wrong').is_correct).toBe(false)
+
+    // Older rows stored the blank's text in the numeric correct_answer column
+    const legacy = { ...question, correct_answer_text: null, correct_answer: 'Paris' } as unknown as GradableQuestion
+    expect(gradeQuestion(legacy, 'paris').is_correct).toBe(true)
+    expect(gradeQuestion({ ...legacy, correct_answer: 0 }, '0').is_correct).toBe(false)
+  })
+
+  test('should honour case_sensitive', () => {
+    const question = {
+      ...base,
+      id: 'q4',
+      question_type: 'fill_blank' as const,
+      correct_answer_text: 'London',
+      correct_answer_json: { case_sensitive: true }
+    }
+
+    expect(gradeQuestion(question, 'London').is_correct).toBe(true)
+    expect(gradeQuestion(question, 'london').is_correct).toBe(false)
+  })
+
+  test('should give partial credit per blank when enabled', () => {
+    const question = {
+      ...base,
+      id: 'q5',
+      points: 4,
+      question_type: 'fill_blank' as const,
+      question: 'She ___ to school and ___ home.',
+      correct_answer_json: { blanks: [['goes', 'walks'], ['comes']], allow_partial_credit: true }
+    }
+
+    expect(gradeQuestion(question, ['walks', 'comes']).points_earned).toBe(4)
+    expect(gradeQuestion(question, ['walks', 'went']).points_earned).toBe(2)
+  })
+})
+
+describe('Matching and ordering grading', () => {
+  const matching = {
+    ...base,
+    id: 'q6',
+    question_type: 'matching' as const,
+    options: [{ left: 'cat', right: 'meow' }, { left: 'dog', right: 'woof' }]
+  }
+
+  test('should grade matching pairs by index', () => {
+    expect(gradeQuestion(matching, { 0: 0, 1: 1 }).is_correct).toBe(true)
+    expect(gradeQuestion(matching, { 0: 1, 1: 0 }).credit).toBe(0)
+    expect(gradeQuestion({ ...matching, partial_credit: true }, { 0: 0, 1: 0 }).credit).toBe(0.5)
+  })
+
+  test('should grade ordering from the drag-and-drop position map', () => {
+    const ordering = {
+      ...base,
+      id: 'q7',
+      question_type: 'ordering' as const,
+      options: ['I', 'am', 'a', 'student'],
+      correct_answer_json: { allow_partial_credit: true }
+    }
+
+    expect(gradeQuestion(ordering, { 0: 1, 1: 2, 2: 3, 3: 4 }).is_correct).toBe(true)
+    expect(gradeQuestion(ordering, [0, 1, 3, 2]).credit).toBe(0.5)
+  })
+})
+
+describe('Submission aggregation', () => {
+  test('should apply weight and flag essays for manual grading', () => {
+    const questions = [
+      { ...base, id: 'a', question_type: 'multiple_choice' as const, points: 2, weight: 1.5 },
+      { ...base, id: 'b', question_type: 'essay' as const, points: 5 }
+    ]
+
+    const result = gradeSubmission(questions, { a: 0, b: 'My essay' })
+
+    expect(result.earnedPoints).toBe(3)
+    expect(result.totalPoints).toBe(8)
+    expect(result.pendingManualGrading).toBe(1)
+  })
+})
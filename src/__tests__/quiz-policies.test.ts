@@ -0,0 +1,126 @@
+/**
+ * Quiz Policy Tests
+ * Validates availability windows, retake rules and official score selection
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import {
+  checkQuizAccess,
+  computeOfficialScore,
+  getEffectiveMaxAttempts,
+  parseWindowDate,
+  validateQuizPolicies
+} from '../lib/quiz-policies'
+
+const attempt = (id: string, percentage: number, completedAt: string, gradingStatus = 'graded') => ({
+  id,
+  percentage_score: percentage,
+  completed_at: completedAt,
+  created_at: completedAt,
+  grading_status: gradingStatus
+})
+
+describe('parseWindowDate', () => {
+  test('should read naive datetimes in the window timezone', () => {
+    expect(parseWindowDate('2025-01-15T09:00', 'UTC')!.toISOString()).toBe('2025-01-15T09:00:00.000Z')
+    expect(parseWindowDate('2025-01-15T09:00', 'Asia/Ho_Chi_Minh')!.toISOString()).toBe('2025-01-15T02:00:00.000Z')
+  })
+
+  test('should follow daylight saving time', () => {
+    expect(parseWindowDate('2025-01-15T09:00', 'America/New_York')!.toISOString()).toBe('2025-01-15T14:00:00.000Z')
+    expect(parseWindowDate('2025-07-15T09:00', 'America/New_York')!.toISOString()).toBe('2025-07-15T13:00:00.000Z')
+  })
+
+  test('should keep explicit offsets and reject invalid dates', () => {
+    expect(parseWindowDate('2025-01-15T09:00:00+02:00', 'UTC')!.toISOString()).toBe('2025-01-15T07:00:00.000Z')
+    expect(parseWindowDate('not a date', 'UTC')).toBeNull()
+    expect(parseWindowDate(null, 'UTC')).toBeNull()
+  })
+})
+
+describe('checkQuizAccess', () => {
+  const window = { start_date: '2025-03-01T08:00', end_date: '2025-03-08T08:00', timezone: 'UTC' }
+
+  test('should block attempts outside the availability window', () => {
+    const early = checkQuizAccess({ availability_window: window }, [], new Date('2025-03-01T07:59:00Z'))
+    const late = checkQuizAccess({ availability_window: window }, [], new Date('2025-03-08T08:00:00Z'))
+
+    expect(early).toMatchObject({ allowed: false, code: 'QUIZ_NOT_AVAILABLE_YET', retry_at: '2025-03-01T08:00:00.000Z' })
+    expect(late).toMatchObject({ allowed: false, code: 'QUIZ_CLOSED' })
+    expect(checkQuizAccess({ availability_window: window }, [], new Date('2025-03-04T12:00:00Z')).allowed).toBe(true)
+  })
+
+  test('should allow a first attempt but no retake when retakes are off', () => {
+    const quiz = { retake_policy: { allowed: false, max_attempts: 0, cooldown_hours: 0 } }
+
+    expect(checkQuizAccess(quiz, []).allowed).toBe(true)
+    expect(checkQuizAccess(quiz, [attempt('a', 50, '2025-01-01T00:00:00Z')])).toMatchObject({
+      allowed: false,
+      code: 'RETAKES_NOT_ALLOWED'
+    })
+  })
+
+  test('should use the stricter of the two attempt limits', () => {
+    expect(getEffectiveMaxAttempts({ max_attempts: 3, retake_policy: { max_attempts: 2 } })).toBe(2)
+    expect(getEffectiveMaxAttempts({ max_attempts: 0, retake_policy: { max_attempts: 0 } })).toBe(0)
+
+    const attempts = [attempt('a', 50, '2025-01-01T00:00:00Z'), attempt('b', 60, '2025-01-02T00:00:00Z')]
+    expect(checkQuizAccess({ max_attempts: 3, retake_policy: { max_attempts: 2 } }, attempts)).toMatchObject({
+      allowed: false,
+      code: 'MAX_ATTEMPTS_REACHED'
+    })
+  })
+
+  test('should enforce the cooldown after the last attempt', () => {
+    const quiz = { retake_policy: { allowed: true, max_attempts: 0, cooldown_hours: 24 } }
+    const attempts = [attempt('a', 50, '2025-01-01T10:00:00Z')]
+
+    expect(checkQuizAccess(quiz, attempts, new Date('2025-01-02T09:00:00Z'))).toMatchObject({
+      allowed: false,
+      code: 'RETAKE_COOLDOWN',
+      retry_at: '2025-01-02T10:00:00.000Z'
+    })
+    expect(checkQuizAccess(quiz, attempts, new Date('2025-01-02T10:00:00Z')).allowed).toBe(true)
+  })
+})
+
+describe('computeOfficialScore', () => {
+  const attempts = [
+    attempt('first', 80, '2025-01-01T00:00:00Z'),
+    attempt('second', 60, '2025-01-02T00:00:00Z'),
+    attempt('third', 70, '2025-01-03T00:00:00Z')
+  ]
+
+  test('should pick the score by grading method', () => {
+    expect(computeOfficialScore(attempts, 'highest', 75)).toMatchObject({ attempt_id: 'first', percentage_score: 80, passed: true })
+    expect(computeOfficialScore(attempts, 'latest', 75)).toMatchObject({ attempt_id: 'third', percentage_score: 70, passed: false })
+    expect(computeOfficialScore(attempts, 'average', 70)).toMatchObject({ attempt_id: null, percentage_score: 70, passed: true })
+  })
+
+  test('should leave out attempts awaiting review', () => {
+    const withPending = [...attempts, attempt('pending', 100, '2025-01-04T00:00:00Z', 'pending_review')]
+
+    expect(computeOfficialScore(withPending, 'latest', 75)).toMatchObject({ attempt_id: 'third', attempts_counted: 3 })
+    expect(computeOfficialScore([withPending[3]], 'highest', 75)).toBeNull()
+  })
+})
+
+describe('validateQuizPolicies', () => {
+  test('should accept valid policies and missing fields', () => {
+    expect(validateQuizPolicies({})).toBeNull()
+    expect(validateQuizPolicies({
+      retake_policy: { allowed: true, max_attempts: 2, cooldown_hours: 12 },
+      availability_window: { start_date: '2025-03-01T08:00', end_date: '2025-03-08T08:00', timezone: 'Europe/London' },
+      grading_policy: { method: 'average' }
+    })).toBeNull()
+  })
+
+  test('should reject invalid policies', () => {
+    expect(validateQuizPolicies({ retake_policy: { max_attempts: -1 } })).not.toBeNull()
+    expect(validateQuizPolicies({ availability_window: { timezone: 'Mars/Olympus' } })).not.toBeNull()
+    expect(validateQuizPolicies({
+      availability_window: { start_date: '2025-03-08T08:00', end_date: '2025-03-01T08:00', timezone: 'UTC' }
+    })).not.toBeNull()
+    expect(validateQuizPolicies({ grading_policy: { method: 'best' } })).not.toBeNull()
+  })
+})
@@ -0,0 +1,49 @@
+/**
+ * Quiz Session Tests
+ * Validates server-side timing, the grace period and time-taken capping
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import { getSessionTiming, getSessionTimeTaken, SESSION_GRACE_SECONDS } from '../lib/quiz-sessions'
+
+const session = {
+  started_at: '2025-01-01T10:00:00.000Z',
+  expires_at: '2025-01-01T10:20:00.000Z'
+}
+
+const at = (seconds: number) => new Date(new Date(session.started_at).getTime() + seconds * 1000)
+
+describe('getSessionTiming', () => {
+  test('should report time remaining on the server clock', () => {
+    const timing = getSessionTiming(session, at(300))
+
+    expect(timing.elapsed_seconds).toBe(300)
+    expect(timing.time_remaining_seconds).toBe(900)
+    expect(timing.expired).toBe(false)
+    expect(timing.overdue).toBe(false)
+  })
+
+  test('should allow the grace period before a session is overdue', () => {
+    const withinGrace = getSessionTiming(session, at(1200 + SESSION_GRACE_SECONDS - 1))
+    const pastGrace = getSessionTiming(session, at(1200 + SESSION_GRACE_SECONDS + 1))
+
+    expect(withinGrace.expired).toBe(true)
+    expect(withinGrace.overdue).toBe(false)
+    expect(withinGrace.time_remaining_seconds).toBe(0)
+    expect(pastGrace.overdue).toBe(true)
+  })
+
+  test('should never expire sessions without a time limit', () => {
+    const timing = getSessionTiming({ ...session, expires_at: null }, at(100000))
+
+    expect(timing.time_remaining_seconds).toBeNull()
+    expect(timing.overdue).toBe(false)
+  })
+})
+
+describe('getSessionTimeTaken', () => {
+  test('should cap time taken at the time limit', () => {
+    expect(getSessionTimeTaken(session, at(600))).toBe(600)
+    expect(getSessionTimeTaken(session, at(5000))).toBe(1200)
+  })
+})
@@ -0,0 +1,84 @@
+/**
+ * Quiz Shuffle Tests
+ * Validates per-attempt layouts and mapping answers back to canonical indexes
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import { createQuestionShuffle, applyQuestionShuffle, toCanonicalAnswers } from '../lib/quiz-shuffle'
+import { gradeSubmission } from '../lib/grading'
+
+const questions = [
+  { id: 'q1', question_type: 'multiple_choice', options: ['a', 'b', 'c', 'd'], correct_answer: 2, points: 1 },
+  { id: 'q2', question_type: 'true_false', options: ['True', 'False'], correct_answer: 1, points: 1 },
+  { id: 'q3', question_type: 'single_choice', options: ['x', 'y', 'z'], correct_answer: 0, points: 1, randomize_options: true },
+  { id: 'q4', question_type: 'fill_blank', options: [], correct_answer: 0, correct_answer_text: 'go', points: 1 }
+]
+
+describe('createQuestionShuffle', () => {
+  test('should return null when nothing is shuffled', () => {
+    expect(createQuestionShuffle({}, questions.map(({ randomize_options: _, ...q }) => q), 1)).toBeNull()
+  })
+
+  test('should be reproducible from its seed', () => {
+    const quiz = { shuffle_questions: true, shuffle_options: true }
+    expect(createQuestionShuffle(quiz, questions, 77)).toEqual(createQuestionShuffle(quiz, questions, 77))
+  })
+
+  test('should permute every question and only choice options', () => {
+    const shuffle = createQuestionShuffle({ shuffle_questions: true, shuffle_options: true }, questions, 5)!
+    expect([...shuffle.question_order!].sort()).toEqual(['q1', 'q2', 'q3', 'q4'])
+    expect(Object.keys(shuffle.option_orders).sort()).toEqual(['q1', 'q3'])
+    expect([...shuffle.option_orders.q1].sort()).toEqual([0, 1, 2, 3])
+  })
+
+  test('should honour per-question randomize_options without the quiz setting', () => {
+    const shuffle = createQuestionShuffle({}, questions, 5)!
+    expect(shuffle.question_order).toBeNull()
+    expect(Object.keys(shuffle.option_orders)).toEqual(['q3'])
+  })
+})
+
+describe('applyQuestionShuffle and toCanonicalAnswers', () => {
+  const shuffle = {
+    seed: 1,
+    question_order: ['q3', 'q1', 'q2', 'q4'],
+    option_orders: { q1: [3, 2, 1, 0], q3: [1, 2, 0] }
+  }
+
+  test('should deliver questions and options in display order', () => {
+    const delivered = applyQuestionShuffle(questions, shuffle)
+    expect(delivered.map(q => q.id)).toEqual(['q3', 'q1', 'q2', 'q4'])
+    expect(delivered[1].options).toEqual(['d', 'c', 'b', 'a'])
+    expect(delivered[0].options).toEqual(['y', 'z', 'x'])
+    expect(questions[0].options).toEqual(['a', 'b', 'c', 'd'])
+  })
+
+  test('should grade answers picked from shuffled options against canonical keys', () => {
+    const delivered = applyQuestionShuffle(questions, shuffle)
+    // The student picks the displayed positions of 'c' and 'x'
+    const displayed = {
+      q1: delivered[1].options.indexOf('c'),
+      q2: 1,
+      q3: String(delivered[0].options.indexOf('x')),
+      q4: 'go'
+    }
+    const canonical = toCanonicalAnswers(displayed, shuffle, questions)
+
+    expect(canonical).toEqual({ q1: 2, q2: 1, q3: 0, q4: 'go' })
+    expect(gradeSubmission(questions, canonical).percentage).toBe(100)
+  })
+
+  test('should drop indexes outside the layout and leave unshuffled attempts alone', () => {
+    expect(toCanonicalAnswers({ q1: 9, q3: [0, 5] }, shuffle, questions)).toEqual({ q1: null, q3: [1] })
+    const answers = { q1: 1 }
+    expect(toCanonicalAnswers(answers, null, questions)).toBe(answers)
+  })
+
+  test('should leave answers alone when the option count no longer matches the layout', () => {
+    // q1 lost an option after the attempt started, so it was shown unshuffled
+    const edited = questions.map(q => q.id === 'q1' ? { ...q, options: ['a', 'b', 'c'] } : q)
+
+    expect(applyQuestionShuffle(edited, shuffle).find(q => q.id === 'q1')?.options).toEqual(['a', 'b', 'c'])
+    expect(toCanonicalAnswers({ q1: 0, q3: 0 }, shuffle, edited)).toEqual({ q1: 0, q3: 1 })
+  })
+})
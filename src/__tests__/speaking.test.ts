@@ -0,0 +1,130 @@
+/**
+ * Speaking Question Tests
+ * Covers part timings, settings validation, stored answers, manual grading and the speaking rubric
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import {
+  SPEAKING_RUBRIC,
+  getRecordingExtension,
+  getSpeakingAnswer,
+  normalizeSpeakingSettings,
+  pickRecordingMimeType,
+  validateSpeakingSettings
+} from '../lib/speaking'
+import { gradeQuestion } from '../lib/grading'
+import { getRubricCriteria, scoreManualGrade } from '../lib/grading/manual-grading'
+import { percentageToBand } from '../lib/score-utils'
+
+const question = {
+  id: 'q-speaking',
+  question: 'Describe a place you would like to visit again.',
+  question_type: 'speaking' as const,
+  options: null,
+  correct_answer: 0,
+  points: 4
+}
+
+describe('normalizeSpeakingSettings', () => {
+  test('uses the IELTS timings for each part', () => {
+    expect(normalizeSpeakingSettings(null)).toEqual({ part: 1, prep_seconds: 0, response_seconds: 30, cue_card_points: [] })
+    expect(normalizeSpeakingSettings({ part: 2 })).toMatchObject({ prep_seconds: 60, response_seconds: 120 })
+    expect(normalizeSpeakingSettings({ part: 3 })).toMatchObject({ prep_seconds: 0, response_seconds: 60 })
+  })
+
+  test('clamps timings and tidies cue card points', () => {
+    const settings = normalizeSpeakingSettings({
+      part: 2,
+      prep_seconds: 600,
+      response_seconds: 2,
+      cue_card_points: [' where it is ', '', 42, 'what you did there']
+    })
+
+    expect(settings.prep_seconds).toBe(120)
+    expect(settings.response_seconds).toBe(10)
+    expect(settings.cue_card_points).toEqual(['where it is', 'what you did there'])
+  })
+})
+
+describe('validateSpeakingSettings', () => {
+  test('accepts valid settings and no settings', () => {
+    expect(validateSpeakingSettings(undefined)).toBeNull()
+    expect(validateSpeakingSettings({ part: 2, prep_seconds: 60, response_seconds: 120, cue_card_points: ['where it is'] })).toBeNull()
+  })
+
+  test('rejects bad parts, timings and cue cards', () => {
+    expect(validateSpeakingSettings({ part: 4 })).toMatch(/1, 2 or 3/)
+    expect(validateSpeakingSettings({ prep_seconds: 150 })).toMatch(/Preparation time/)
+    expect(validateSpeakingSettings({ response_seconds: 5 })).toMatch(/Speaking time/)
+    expect(validateSpeakingSettings({ cue_card_points: 'where it is' })).toMatch(/list of text/)
+    expect(validateSpeakingSettings({ cue_card_points: ['a', 'b', 'c', 'd', 'e', 'f', 'g'] })).toMatch(/at most 6/)
+  })
+})
+
+describe('speaking answers', () => {
+  const answer = { recording_path: 'users/student-1/questions/q1/1700000000-abc.webm', duration_seconds: 95 }
+
+  test('reads answers stored as objects or JSON text', () => {
+    expect(getSpeakingAnswer(answer)).toEqual(answer)
+    expect(getSpeakingAnswer(JSON.stringify(answer))).toEqual(answer)
+    expect(getSpeakingAnswer({ duration_seconds: 10 })).toBeNull()
+    expect(getSpeakingAnswer('not json')).toBeNull()
+  })
+
+  test('only accepts recordings in the student\'s own folder of the bucket', () => {
+    expect(getSpeakingAnswer(answer, 'student-1')).toEqual(answer)
+    expect(getSpeakingAnswer(answer, 'student-2')).toBeNull()
+    expect(getSpeakingAnswer({ ...answer, recording_path: 'users/student-1/../student-2/a.webm' })).toBeNull()
+    expect(getSpeakingAnswer({ ...answer, recording_path: 'https://evil.test/a.webm' })).toBeNull()
+    expect(getSpeakingAnswer({ recording_url: 'https://evil.test/a.webm', duration_seconds: 5 })).toBeNull()
+  })
+
+  test('reads answers saved with the bucket\'s public URL', () => {
+    const legacy = {
+      recording_url: 'https://project.supabase.co/storage/v1/object/public/speaking-recordings/users/student-1/questions/q1/a.webm',
+      duration_seconds: 30
+    }
+
+    expect(getSpeakingAnswer(legacy, 'student-1')).toEqual({
+      recording_path: 'users/student-1/questions/q1/a.webm',
+      duration_seconds: 30
+    })
+  })
+
+  test('recordings wait for a grader; missing recordings earn nothing', () => {
+    expect(gradeQuestion(question, answer)).toMatchObject({ credit: 0, requires_manual_grading: true })
+    expect(gradeQuestion(question, { duration_seconds: 0 })).toMatchObject({ credit: 0, requires_manual_grading: false })
+    expect(gradeQuestion(question, undefined).requires_manual_grading).toBe(false)
+  })
+})
+
+describe('speaking rubric', () => {
+  test('speaking questions without a rubric use the four IELTS criteria', () => {
+    const criteria = getRubricCriteria({ ...question, correct_answer_json: null, question_metadata: null })
+    expect(criteria.map(c => c.id)).toEqual(['fluency_coherence', 'lexical_resource', 'grammatical_range_accuracy', 'pronunciation'])
+    expect(getRubricCriteria({ question_type: 'essay', correct_answer_json: null, question_metadata: null })).toEqual([])
+  })
+
+  test('criterion bands map onto the question points and the section band', () => {
+    const grade = scoreManualGrade(SPEAKING_RUBRIC, question.points, {
+      rubricScores: { fluency_coherence: 7, lexical_resource: 6, grammatical_range_accuracy: 6, pronunciation: 7 }
+    })
+
+    expect(grade.points_earned).toBeCloseTo(2.89, 2)
+    expect(percentageToBand(grade.credit * 100)).toBe(6.5)
+  })
+})
+
+describe('recording formats', () => {
+  test('picks the first supported recorder format', () => {
+    expect(pickRecordingMimeType(type => type.startsWith('audio/webm'))).toBe('audio/webm;codecs=opus')
+    expect(pickRecordingMimeType(type => type === 'audio/mp4')).toBe('audio/mp4')
+    expect(pickRecordingMimeType(() => false)).toBe('')
+  })
+
+  test('names files after their format', () => {
+    expect(getRecordingExtension('audio/webm')).toBe('webm')
+    expect(getRecordingExtension('audio/mp4')).toBe('m4a')
+    expect(getRecordingExtension('audio/ogg')).toBe('ogg')
+  })
+})
@@ -0,0 +1,90 @@
+/**
+ * User Roles Tests
+ * Covers role change rules, invitation status and the activity log metadata
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import {
+  getInviteExpiry,
+  getInviteStatus,
+  getRoleAfterInvite,
+  INVITE_EXPIRY_DAYS,
+  isUserRole,
+  validateRoleChange
+} from '../lib/user-roles/rules'
+import { getRequestMetadata } from '../lib/admin-activity'
+
+const NOW = new Date('2026-03-10T12:00:00Z')
+
+describe('validateRoleChange', () => {
+  const base = { actorId: 'admin-1', userId: 'user-2', currentRole: 'student' as const, adminCount: 2 }
+
+  test('rejects unknown roles', () => {
+    expect(validateRoleChange({ ...base, newRole: 'owner' })).toMatch(/Role must be one of/)
+    expect(validateRoleChange({ ...base, newRole: undefined })).toMatch(/Role must be one of/)
+  })
+
+  test('allows promotions and unchanged roles', () => {
+    expect(validateRoleChange({ ...base, newRole: 'instructor' })).toBeNull()
+    expect(validateRoleChange({ ...base, newRole: 'admin' })).toBeNull()
+    expect(validateRoleChange({ ...base, currentRole: 'admin', newRole: 'admin', adminCount: 1 })).toBeNull()
+  })
+
+  test('stops admins demoting themselves', () => {
+    expect(validateRoleChange({ ...base, userId: 'admin-1', currentRole: 'admin', newRole: 'student' }))
+      .toMatch(/your own admin role/)
+  })
+
+  test('keeps at least one admin', () => {
+    expect(validateRoleChange({ ...base, currentRole: 'admin', newRole: 'instructor', adminCount: 1 }))
+      .toMatch(/at least one admin/)
+    expect(validateRoleChange({ ...base, currentRole: 'admin', newRole: 'instructor', adminCount: 2 })).toBeNull()
+  })
+})
+
+describe('invitations', () => {
+  const pending = { accepted_at: null, revoked_at: null, expires_at: getInviteExpiry(NOW) }
+
+  test('expire after the invite window', () => {
+    const expiry = new Date(pending.expires_at).getTime()
+    expect(expiry - NOW.getTime()).toBe(INVITE_EXPIRY_DAYS * 24 * 60 * 60 * 1000)
+    expect(getInviteStatus(pending, NOW)).toBe('pending')
+    expect(getInviteStatus(pending, new Date(expiry))).toBe('expired')
+  })
+
+  test('accepted and revoked take precedence over expiry', () => {
+    const later = new Date(NOW.getTime() + 30 * 24 * 60 * 60 * 1000)
+    expect(getInviteStatus({ ...pending, accepted_at: NOW.toISOString() }, later)).toBe('accepted')
+    expect(getInviteStatus({ ...pending, revoked_at: NOW.toISOString() }, later)).toBe('revoked')
+  })
+
+  test('raise students to instructor but never lower admins', () => {
+    expect(getRoleAfterInvite('student')).toBe('instructor')
+    expect(getRoleAfterInvite('instructor')).toBe('instructor')
+    expect(getRoleAfterInvite('admin')).toBe('admin')
+  })
+})
+
+describe('isUserRole', () => {
+  test('accepts only the three roles', () => {
+    expect(['student', 'instructor', 'admin'].every(isUserRole)).toBe(true)
+    expect(isUserRole('Admin')).toBe(false)
+    expect(isUserRole(null)).toBe(false)
+  })
+})
+
+describe('getRequestMetadata', () => {
+  test('records the client IP and user agent', () => {
+    const request = new Request('https://example.com/api/admin/users/1', {
+      headers: { 'x-forwarded-for': '203.0.113.7, 10.0.0.1', 'user-agent': 'Mozilla/5.0' }
+    })
+    expect(getRequestMetadata(request)).toEqual({ ip_address: '203.0.113.7', user_agent: 'Mozilla/5.0' })
+  })
+
+  test('drops values that are not IP addresses', () => {
+    const request = new Request('https://example.com/', { headers: { 'x-forwarded-for': 'cafe' } })
+    expect(getRequestMetadata(request).ip_address).toBeNull()
+    expect(getRequestMetadata(new Request('https://example.com/')).ip_address).toBeNull()
+    expect(getRequestMetadata(null)).toEqual({ ip_address: null, user_agent: null })
+  })
+})
@@ -0,0 +1,119 @@
+/**
+ * User Stats Tests
+ * Validates timezone day boundaries, streaks, points and weekly trends
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import { aggregateUserStats, computeStreaks, getWeekStart, toLocalDate } from '../lib/user-stats/aggregate'
+
+const attempt = (completedAt: string, overrides: Record<string, unknown> = {}) => ({
+  quiz_id: 'q1',
+  completed_at: completedAt,
+  percentage_score: 80,
+  passed: true,
+  time_taken_seconds: 600,
+  grading_status: 'graded',
+  ...overrides
+})
+
+describe('toLocalDate', () => {
+  test('should use the learner\'s calendar day', () => {
+    expect(toLocalDate('2024-03-10T22:30:00Z', 'UTC')).toBe('2024-03-10')
+    expect(toLocalDate('2024-03-10T22:30:00Z', 'Australia/Sydney')).toBe('2024-03-11')
+    expect(toLocalDate('2024-03-11T03:00:00Z', 'America/New_York')).toBe('2024-03-10')
+  })
+
+  test('should start weeks on Monday', () => {
+    expect(getWeekStart('2024-03-17')).toBe('2024-03-11')
+    expect(getWeekStart('2024-03-18')).toBe('2024-03-18')
+  })
+})
+
+describe('computeStreaks', () => {
+  test('should keep the streak alive until the end of the day after the last activity', () => {
+    const days = ['2024-03-01', '2024-03-02', '2024-03-03']
+    expect(computeStreaks(days, '2024-03-03')).toEqual({ current: 3, longest: 3 })
+    expect(computeStreaks(days, '2024-03-04')).toEqual({ current: 3, longest: 3 })
+    expect(computeStreaks(days, '2024-03-05')).toEqual({ current: 0, longest: 3 })
+  })
+
+  test('should track the longest run separately from the current one', () => {
+    const days = ['2024-02-01', '2024-02-02', '2024-02-03', '2024-02-04', '2024-02-28', '2024-02-29', '2024-03-01']
+    expect(computeStreaks(days, '2024-03-01')).toEqual({ current: 3, longest: 4 })
+    expect(computeStreaks([], '2024-03-01')).toEqual({ current: 0, longest: 0 })
+  })
+})
+
+describe('aggregateUserStats', () => {
+  const now = new Date('2024-03-13T12:00:00Z')
+
+  test('should count a late-night session on the learner\'s own day', () => {
+    // 23:30 one evening and 08:00 the next morning in New York: two days in a row there, one UTC day
+    const input = {
+      attempts: [attempt('2024-03-12T03:30:00Z'), attempt('2024-03-12T12:00:00Z', { quiz_id: 'q2' })],
+      lessons: [],
+      badge_points: 0,
+      badges_earned: 0
+    }
+    expect(aggregateUserStats(input, 'America/New_York', now).study_streak_days).toBe(2)
+    expect(aggregateUserStats(input, 'UTC', now).study_streak_days).toBe(1)
+  })
+
+  test('should award points once per quiz and add badge points', () => {
+    const stats = aggregateUserStats({
+      attempts: [
+        attempt('2024-03-11T10:00:00Z'),
+        attempt('2024-03-12T10:00:00Z', { percentage_score: 100 }),
+        attempt('2024-03-12T11:00:00Z', { quiz_id: 'q2', passed: false, percentage_score: 40 })
+      ],
+      lessons: [
+        { is_completed: true, completed_at: '2024-03-13T09:00:00Z', updated_at: '2024-03-13T09:00:00Z', watch_time_minutes: 15 },
+        { is_completed: false, completed_at: null, updated_at: '2024-03-13T10:00:00Z', watch_time_minutes: 5 }
+      ],
+      badge_points: 25,
+      badges_earned: 1
+    }, 'UTC', now)
+
+    // Quiz passed 10 + perfect 5 + lesson 2 + badges 25
+    expect(stats.total_points).toBe(42)
+    expect(stats.total_study_time_minutes).toBe(50)
+    expect(stats.study_streak_days).toBe(3)
+    expect(stats.last_activity_date).toBe('2024-03-13')
+  })
+
+  test('should leave attempts awaiting review out of scores but not activity', () => {
+    const stats = aggregateUserStats({
+      attempts: [attempt('2024-03-13T10:00:00Z', { grading_status: 'pending_review', percentage_score: 0, passed: false })],
+      lessons: [],
+      badge_points: 0,
+      badges_earned: 0
+    }, 'UTC', now)
+
+    expect(stats.study_streak_days).toBe(1)
+    expect(stats.quizzes_completed).toBe(1)
+    expect(stats.total_points).toBe(0)
+    expect(stats.performance_trends.weekly[11].average_score).toBeNull()
+  })
+
+  test('should build twelve weeks of trends and a daily heatmap', () => {
+    const stats = aggregateUserStats({
+      attempts: [attempt('2024-03-11T10:00:00Z'), attempt('2024-03-11T11:00:00Z', { percentage_score: 60 }), attempt('2024-03-04T10:00:00Z')],
+      lessons: [],
+      badge_points: 0,
+      badges_earned: 0
+    }, 'UTC', now)
+
+    const { weekly, daily } = stats.performance_trends
+    expect(weekly).toHaveLength(12)
+    expect(weekly[11]).toEqual({
+      week_start: '2024-03-11',
+      quizzes: 2,
+      average_score: 70,
+      lessons_completed: 0,
+      study_minutes: 20,
+      active_days: 1
+    })
+    expect(weekly[10].week_start).toBe('2024-03-04')
+    expect(daily).toEqual({ '2024-03-11': 2, '2024-03-04': 1 })
+  })
+})
@@ -0,0 +1,97 @@
+/**
+ * Writing Task Tests
+ * Covers task settings, word counting, length warnings and the IELTS writing rubric
+ */
+
+import { describe, test, expect } from '@jest/globals'
+import {
+  WRITING_RUBRICS,
+  countWords,
+  getLengthWarning,
+  normalizeWritingSettings,
+  validateWritingSettings
+} from '../lib/writing'
+import { getRubricCriteria, scoreManualGrade } from '../lib/grading/manual-grading'
+import { percentageToBand } from '../lib/score-utils'
+
+describe('normalizeWritingSettings', () => {
+  test('plain essays have no writing settings', () => {
+    expect(normalizeWritingSettings(null)).toBeNull()
+    expect(normalizeWritingSettings({ min_words: 150 })).toBeNull()
+  })
+
+  test('uses the IELTS minimum for each task', () => {
+    expect(normalizeWritingSettings({ task: 1 })).toEqual({ task: 1, min_words: 150, max_words: 0 })
+    expect(normalizeWritingSettings({ task: 2 })).toEqual({ task: 2, min_words: 250, max_words: 0 })
+  })
+
+  test('keeps the maximum at or above the minimum', () => {
+    expect(normalizeWritingSettings({ task: 2, min_words: 250, max_words: 200 })?.max_words).toBe(250)
+    expect(normalizeWritingSettings({ task: 1, min_words: 5000 })?.min_words).toBe(2000)
+  })
+})
+
+describe('validateWritingSettings', () => {
+  test('accepts valid settings and no settings', () => {
+    expect(validateWritingSettings(undefined)).toBeNull()
+    expect(validateWritingSettings({ task: 1, min_words: 150, max_words: 0 })).toBeNull()
+  })
+
+  test('rejects bad tasks and word limits', () => {
+    expect(validateWritingSettings({ task: 3 })).toMatch(/1 or 2/)
+    expect(validateWritingSettings({ task: 2, min_words: -1 })).toMatch(/whole numbers/)
+    expect(validateWritingSettings({ task: 2, min_words: 250, max_words: 100 })).toMatch(/at least the minimum/)
+  })
+})
+
+describe('word count', () => {
+  test('counts words between spaces', () => {
+    expect(countWords('')).toBe(0)
+    expect(countWords(null)).toBe(0)
+    expect(countWords('  The graph shows a well-known trend\nin 2019.  ')).toBe(8)
+  })
+
+  test('warns about under-length and over-length answers', () => {
+    const task1 = normalizeWritingSettings({ task: 1, max_words: 200 })
+    expect(getLengthWarning(120, task1)).toMatch(/30 words under the 150-word minimum.*Task Achievement/)
+    expect(getLengthWarning(150, task1)).toBeNull()
+    expect(getLengthWarning(210, task1)).toMatch(/10 words over/)
+    expect(getLengthWarning(10, normalizeWritingSettings({ task: 2 }))).toMatch(/Task Response/)
+    expect(getLengthWarning(10, null)).toBeNull()
+  })
+})
+
+describe('writing rubric', () => {
+  test('IELTS tasks without a rubric use the four writing criteria', () => {
+    const criteria = getRubricCriteria({
+      question_type: 'essay',
+      writing_settings: { task: 2 },
+      correct_answer_json: null,
+      question_metadata: null
+    })
+
+    expect(criteria.map(c => c.criterion)).toEqual([
+      'Task Response', 'Coherence and Cohesion', 'Lexical Resource', 'Grammatical Range and Accuracy'
+    ])
+    expect(getRubricCriteria({ question_type: 'essay', correct_answer_json: null, question_metadata: null })).toEqual([])
+  })
+
+  test('an editor rubric still takes precedence', () => {
+    const criteria = getRubricCriteria({
+      question_type: 'essay',
+      writing_settings: { task: 1 },
+      correct_answer_json: { rubric_criteria: [{ id: 'content', criterion: 'Content', max_points: 10 }] },
+      question_metadata: null
+    })
+
+    expect(criteria.map(c => c.id)).toEqual(['content'])
+  })
+
+  test('criterion bands give the task band', () => {
+    const grade = scoreManualGrade(WRITING_RUBRICS[1], 10, {
+      rubricScores: { task_achievement: 6, coherence_cohesion: 7, lexical_resource: 6, grammatical_range_accuracy: 6 }
+    })
+
+    expect(percentageToBand(grade.credit * 100)).toBe(6)
+  })
+})
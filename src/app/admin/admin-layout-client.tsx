@@ -1,15 +1,30 @@
 'use client'
 
-import { useState } from 'react'
-import { AdminSidebar } from '@/components/admin/AdminSidebar'
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { usePathname, useRouter } from 'next/navigation'
+import { AdminSidebar, isInstructorSection } from '@/components/admin/AdminSidebar'
 import { AdminErrorBoundary } from '@/components/admin/AdminErrorBoundary'
 
 interface AdminLayoutClientProps {
   children: React.ReactNode
+  role: 'admin' | 'instructor' | 'student'
 }
 
-export default function AdminLayoutClient({ children }: AdminLayoutClientProps) {
+export default function AdminLayoutClient({ children, role }: AdminLayoutClientProps) {
   const [sidebarOpen, setSidebarOpen] = useState(false)
+  const pathname = usePathname()
+  const router = useRouter()
+
+  // Instructors have no dashboard of their own; their workspace opens on their courses
+  const instructorHome = role !== 'admin' && pathname === '/admin'
+  const adminOnly = role !== 'admin' && !instructorHome && !isInstructorSection(pathname)
+
+  useEffect(() => {
+    if (instructorHome) {
+      router.replace('/admin/courses')
+    }
+  }, [instructorHome, router])
 
   return (
     <AdminErrorBoundary>
@@ -66,7 +81,15 @@ export default function AdminLayoutClient({ children }: AdminLayoutClientProps)
         <main className="flex-1 overflow-y-auto lg:ml-0 relative" role="main">
           <div className="lg:hidden h-16" aria-hidden="true" /> {/* Spacer for mobile menu button */}
           <div className="p-6">
-            {children}
+            {instructorHome ? null : adminOnly ? (
+              <div className="max-w-md mx-auto mt-16 bg-white rounded-lg shadow-sm border border-gray-200 p-8 text-center">
+                <h1 className="text-xl font-semibold text-gray-900 mb-2">Admins only</h1>
+                <p className="text-gray-600 mb-6">This part of the workspace is managed by platform admins.</p>
+                <Link href="/admin/courses" className="text-primary hover:underline font-medium">
+                  Back to your courses
+                </Link>
+              </div>
+            ) : children}
           </div>
         </main>
       </div>
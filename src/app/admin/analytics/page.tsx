@@ -3,7 +3,7 @@
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { BarChart3, TrendingUp, Users, BookOpen, Brain, DollarSign, Download, RefreshCw, Calendar, Filter } from 'lucide-react'
-import { createSupabaseClient } from '@/lib/supabase'
+import { authenticatedGet } from '@/lib/auth-api'
 import { logger } from '@/lib/logger'
 
 interface AnalyticsData {
@@ -67,6 +67,7 @@ export default function AdminAnalytics() {
     totalRevenue: 0,
     newUsersThisMonth: 0
   })
+  const [scope, setScope] = useState<'platform' | 'instructor'>('platform')
   const [loading, setLoading] = useState(false) // Start false to prevent flash
   const [error, setError] = useState<string | null>(null)
   const [selectedTimeRange, setSelectedTimeRange] = useState('30 days')
@@ -99,89 +100,17 @@ export default function AdminAnalytics() {
 
       logger.debug('API call /admin/analytics', { method: 'GET', timeRange: timeRangeRef.current })
 
-      // Create Supabase client for queries
-      const supabase = createSupabaseClient()
+      // Scoped on the server: admins get the platform, instructors their own courses and quizzes
+      const response = await authenticatedGet('/api/admin/analytics')
+      const result = await response.json()
 
-      // Calculate date range for filtering
-      const now = new Date()
-      const thisMonth = new Date(now.getFullYear(), now.getMonth(), 1)
-      
-      // Database-optimized parallel queries with date filtering and limits
-      const [
-        totalUsersResult, 
-        newUsersResult, 
-        coursesResult, 
-        quizzesResult, 
-        enrollmentsResult,
-        revenueResult
-      ] = await Promise.all([
-        // Total users count (fast count query)
-        supabase
-          .from('users')
-          .select('id', { count: 'exact', head: true }),
-        
-        // New users this month (database-level date filtering)
-        supabase
-          .from('users')
-          .select('id', { count: 'exact', head: true })
-          .gte('created_at', thisMonth.toISOString())
-          .lte('created_at', now.toISOString()),
-        
-        // Published courses with revenue calculation
-        supabase
-          .from('courses')
-          .select('price')
-          .eq('is_published', true),
-        
-        // Published quizzes count
-        supabase
-          .from('quizzes')
-          .select('id', { count: 'exact', head: true })
-          .eq('is_published', true),
-        
-        // Total enrollments count
-        supabase
-          .from('enrollments')
-          .select('id', { count: 'exact', head: true }),
-        
-        // Recent enrollments for activity (limited to last 100 for performance)
-        supabase
-          .from('enrollments')
-          .select('id, enrolled_at')
-          .gte('enrolled_at', thisMonth.toISOString())
-          .order('enrolled_at', { ascending: false })
-          .limit(100)
-      ])
-
-      // Check for critical errors (fail fast)
-      if (totalUsersResult.error) throw new Error(`Failed to fetch users: ${totalUsersResult.error.message}`)
-      if (coursesResult.error) throw new Error(`Failed to fetch courses: ${coursesResult.error.message}`)
-      if (quizzesResult.error) throw new Error(`Failed to fetch quizzes: ${quizzesResult.error.message}`)
-      if (enrollmentsResult.error) throw new Error(`Failed to fetch enrollments: ${enrollmentsResult.error.message}`)
-
-      // Handle individual query results with fallbacks
-      const totalUsers = totalUsersResult.count || 0
-      const newUsers = newUsersResult.count || 0
-      const courses = coursesResult.data || []
-      const totalQuizzes = quizzesResult.count || 0
-      const totalEnrollments = enrollmentsResult.count || 0
-      const recentEnrollments = revenueResult.data || []
-
-      // Log non-critical errors as warnings
-      if (newUsersResult.error) logger.warn('New users query error (using fallback)', { error: newUsersResult.error })
-
-      // Calculate total revenue from course prices (already filtered data)
-      const totalRevenue = courses.reduce((sum: number, course: { price: number }) => sum + (Number(course.price) || 0), 0)
-
-      const analyticsData = {
-        totalUsers,
-        totalCourses: courses.length,
-        totalQuizzes,
-        courseEnrollments: totalEnrollments,
-        totalRevenue,
-        newUsersThisMonth: newUsers
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load analytics data')
       }
 
+      const analyticsData: AnalyticsData = result.analytics
+      setScope(result.scope)
+
       setAnalytics(analyticsData)
       
       logger.debug('Performance: analytics-fetch', { duration: `${(performance.now() - startTime).toFixed(2)}ms` })
@@ -283,7 +212,9 @@ export default function AdminAnalytics() {
         <div className="flex flex-col space-y-4 sm:flex-row sm:items-center sm:justify-between sm:space-y-0">
           <div>
             <h1 className="text-2xl sm:text-3xl font-bold text-gray-900">Analytics Dashboard</h1>
-            <p className="text-gray-600 mt-1">Monitor platform performance and growth</p>
+            <p className="text-gray-600 mt-1">
+              {scope === 'instructor' ? 'Enrollment and activity across your courses and quizzes' : 'Monitor platform performance and growth'}
+            </p>
           </div>
 
           {/* Action Controls - Responsive Stack */}
@@ -347,9 +278,9 @@ export default function AdminAnalytics() {
       {/* Key Metrics - Responsive Grid */}
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6">
         <MetricCard
-          title="Total Users"
+          title={scope === 'instructor' ? 'Your Students' : 'Total Users'}
           value={analytics.totalUsers.toLocaleString()}
-          description="Registered users"
+          description={scope === 'instructor' ? 'Enrolled in your courses' : 'Registered users'}
           icon={<Users className="h-4 w-4 text-secondary" />}
           trend={formattedAnalytics.growthRate}
           loading={loading}
@@ -436,7 +367,7 @@ export default function AdminAnalytics() {
             ) : (
               <div className="space-y-3">
                 <div className="flex justify-between items-center">
-                  <span className="text-sm text-gray-600">New users this month</span>
+                  <span className="text-sm text-gray-600">{scope === 'instructor' ? 'New students this month' : 'New users this month'}</span>
                   <span className="font-semibold text-secondary">+{analytics.newUsersThisMonth}</span>
                 </div>
                 <div className="flex justify-between items-center">
@@ -0,0 +1,120 @@
+'use client'
+
+import { useState } from 'react'
+import { Megaphone, Send } from 'lucide-react'
+import { toast } from 'sonner'
+import { useAdminCourses, useSendAnnouncement } from '@/hooks/api'
+import { validateAnnouncement } from '@/lib/notifications/preferences'
+
+type AudienceType = 'all' | 'course'
+
+export default function AdminAnnouncementsPage() {
+  const [title, setTitle] = useState('')
+  const [message, setMessage] = useState('')
+  const [actionUrl, setActionUrl] = useState('')
+  const [audienceType, setAudienceType] = useState<AudienceType>('all')
+  const [courseId, setCourseId] = useState('')
+  const { data: coursesData } = useAdminCourses(1, 500)
+  const sendAnnouncement = useSendAnnouncement()
+  const courses = coursesData?.courses || []
+
+  const handleSend = () => {
+    const announcement = {
+      title,
+      message,
+      action_url: actionUrl.trim() || null,
+      audience: audienceType === 'course' ? { type: 'course' as const, course_id: courseId } : { type: 'all' as const }
+    }
+
+    const validationError = validateAnnouncement(announcement)
+    if (validationError) {
+      toast.error(validationError)
+      return
+    }
+
+    const audienceName = audienceType === 'course'
+      ? `everyone enrolled in "${courses.find(course => course.id === courseId)?.title || 'this course'}"`
+      : 'every student'
+    if (!confirm(`Send "${title.trim()}" to ${audienceName}? Announcements can't be recalled.`)) return
+
+    sendAnnouncement.mutate(announcement, {
+      onSuccess: (result) => {
+        toast.success(`Announcement sent to ${result.delivered} student${result.delivered === 1 ? '' : 's'}`)
+        setTitle('')
+        setMessage('')
+        setActionUrl('')
+      },
+      onError: (error) => toast.error(error.message)
+    })
+  }
+
+  const inputClass = 'w-full h-9 rounded-md border border-gray-300 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-primary'
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h1 className="text-2xl font-bold text-gray-900">Announcements</h1>
+          <p className="text-gray-600 mt-1">
+            Post a notification to every student or to one course. It appears under the bell straight away.
+          </p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-5 max-w-3xl">
+          <div className="flex items-center gap-2">
+            <Megaphone className="w-5 h-5 text-primary" />
+            <h2 className="text-lg font-semibold text-gray-900">New announcement</h2>
+          </div>
+
+          <label className="block text-sm">
+            <span className="font-medium text-gray-700">Send to</span>
+            <select value={audienceType} onChange={(e) => setAudienceType(e.target.value as AudienceType)} className={inputClass}>
+              <option value="all">All students</option>
+              <option value="course">Students enrolled in a course</option>
+            </select>
+          </label>
+
+          {audienceType === 'course' && (
+            <select value={courseId} onChange={(e) => setCourseId(e.target.value)} className={inputClass} aria-label="Course">
+              <option value="">Select a course...</option>
+              {courses.map(course => <option key={course.id} value={course.id}>{course.title}</option>)}
+            </select>
+          )}
+
+          <label className="block text-sm">
+            <span className="font-medium text-gray-700">Title</span>
+            <input value={title} onChange={(e) => setTitle(e.target.value)} maxLength={200} placeholder="New mock test available" className={inputClass} />
+          </label>
+
+          <label className="block text-sm">
+            <span className="font-medium text-gray-700">Message</span>
+            <textarea
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+              rows={4}
+              maxLength={2000}
+              className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+          </label>
+
+          <label className="block text-sm">
+            <span className="font-medium text-gray-700">Link (optional)</span>
+            <input value={actionUrl} onChange={(e) => setActionUrl(e.target.value)} placeholder="/courses" className={inputClass} />
+            <span className="text-xs text-gray-500">A page on this site that opens when the notification is clicked</span>
+          </label>
+
+          <div className="flex justify-end pt-3 border-t border-gray-200">
+            <button
+              onClick={handleSend}
+              disabled={sendAnnouncement.isPending}
+              className="inline-flex items-center gap-1 px-4 py-2 rounded-md bg-primary text-white text-sm font-medium disabled:opacity-50"
+            >
+              <Send className="w-4 h-4" /> {sendAnnouncement.isPending ? 'Sending...' : 'Send announcement'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
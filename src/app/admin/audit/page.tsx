@@ -0,0 +1,270 @@
+'use client'
+
+import { Fragment, useState } from 'react'
+import { ChevronDown, ChevronRight, History } from 'lucide-react'
+import { formatDate, formatDateTime } from '@/lib/date-utils'
+import { useAdminAuditLog } from '@/hooks/api'
+import type { AdminActivityEntry } from '@/lib/admin-activity'
+
+// Kept in step with AUDIT_RESOURCE_TABLES in lib/admin-activity, which is server-only
+const RESOURCE_TYPES: Array<{ value: string; label: string }> = [
+  { value: 'course', label: 'Courses' },
+  { value: 'quiz', label: 'Quizzes' },
+  { value: 'quiz_question', label: 'Quiz questions' },
+  { value: 'user', label: 'Users' },
+  { value: 'enrollment', label: 'Enrollments' },
+  { value: 'instructor_invite', label: 'Instructor invites' }
+]
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—'
+  if (typeof value === 'string') return value
+  return JSON.stringify(value)
+}
+
+/** Field-by-field changes; creates and deletes list every field on one side */
+function getChangedFields(entry: AdminActivityEntry): Array<{ field: string; before: unknown; after: unknown }> {
+  const fields = new Set([...Object.keys(entry.old_values || {}), ...Object.keys(entry.new_values || {})])
+  return Array.from(fields).map(field => ({
+    field,
+    before: entry.old_values?.[field],
+    after: entry.new_values?.[field]
+  }))
+}
+
+function getSummary(entry: AdminActivityEntry): string {
+  const values = entry.new_values || entry.old_values || {}
+  const name = values.title || values.name || values.email
+  if (entry.old_values && entry.new_values) {
+    const fields = Object.keys(entry.new_values)
+    return `${fields.slice(0, 4).join(', ')}${fields.length > 4 ? ` +${fields.length - 4} more` : ''}`
+  }
+  return name ? String(name) : ''
+}
+
+export default function AdminAuditPage() {
+  const [actorId, setActorId] = useState('')
+  const [resourceType, setResourceType] = useState('')
+  const [resourceId, setResourceId] = useState('')
+  const [fromDate, setFromDate] = useState('')
+  const [toDate, setToDate] = useState('')
+  const [page, setPage] = useState(1)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+
+  // Dates are picked in local time and sent as the start and end of those days
+  const { data, isLoading: loading, error } = useAdminAuditLog({
+    admin_user_id: actorId || undefined,
+    resource_type: resourceType || undefined,
+    resource_id: resourceId.trim() || undefined,
+    from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+    to: toDate ? new Date(`${toDate}T23:59:59.999`).toISOString() : undefined,
+    page
+  })
+
+  const entries = data?.entries || []
+  const actors = data?.actors || []
+  const pagination = data?.pagination
+
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value)
+    setPage(1)
+    setExpandedId(null)
+  }
+
+  const clearFilters = () => {
+    setActorId('')
+    setResourceType('')
+    setResourceId('')
+    setFromDate('')
+    setToDate('')
+    setPage(1)
+  }
+
+  const inputClass = 'w-full h-9 rounded-md border border-gray-300 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-primary'
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+          <p className="text-gray-600 mt-1">
+            Every change made through the admin screens: who made it, when, and the values before and after.
+          </p>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3">
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">Actor</span>
+              <select value={actorId} onChange={(e) => updateFilter(setActorId)(e.target.value)} className={inputClass}>
+                <option value="">Anyone</option>
+                {actors.map(actor => (
+                  <option key={actor.id} value={actor.id}>{actor.name || actor.email}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">Resource</span>
+              <select value={resourceType} onChange={(e) => updateFilter(setResourceType)(e.target.value)} className={inputClass}>
+                <option value="">All resources</option>
+                {RESOURCE_TYPES.map(type => (
+                  <option key={type.value} value={type.value}>{type.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">Resource ID</span>
+              <input
+                value={resourceId}
+                onChange={(e) => updateFilter(setResourceId)(e.target.value)}
+                placeholder="Paste an id"
+                className={inputClass}
+              />
+            </label>
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">From</span>
+              <input type="date" value={fromDate} onChange={(e) => updateFilter(setFromDate)(e.target.value)} className={inputClass} />
+            </label>
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">To</span>
+              <input type="date" value={toDate} onChange={(e) => updateFilter(setToDate)(e.target.value)} className={inputClass} />
+            </label>
+          </div>
+          <div className="flex justify-end mt-3">
+            <button onClick={clearFilters} className="text-sm text-gray-600 hover:text-gray-900">
+              Clear filters
+            </button>
+          </div>
+        </div>
+
+        {/* Entries */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          {error ? (
+            <p className="p-6 text-sm text-red-600">{error.message}</p>
+          ) : loading ? (
+            <div className="p-6 space-y-3">
+              {[...Array(5)].map((_, i) => (
+                <div key={i} className="h-10 bg-gray-100 rounded animate-pulse" />
+              ))}
+            </div>
+          ) : entries.length === 0 ? (
+            <div className="p-12 text-center">
+              <History className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+              <p className="text-gray-600">No changes match these filters.</p>
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-gray-600">
+                <tr>
+                  <th className="px-4 py-3 w-8" />
+                  <th className="px-4 py-3 font-medium">When</th>
+                  <th className="px-4 py-3 font-medium">Actor</th>
+                  <th className="px-4 py-3 font-medium">Action</th>
+                  <th className="px-4 py-3 font-medium">Resource</th>
+                  <th className="px-4 py-3 font-medium">Details</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {entries.map(entry => {
+                  const expanded = expandedId === entry.id
+                  return (
+                    <Fragment key={entry.id}>
+                      <tr
+                        onClick={() => setExpandedId(expanded ? null : entry.id)}
+                        className="cursor-pointer hover:bg-gray-50"
+                      >
+                        <td className="px-4 py-3 text-gray-400">
+                          {expanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                        </td>
+                        <td className="px-4 py-3 whitespace-nowrap text-gray-700">
+                          {formatDate(entry.created_at)} {formatDateTime(new Date(entry.created_at))}
+                        </td>
+                        <td className="px-4 py-3 text-gray-900">
+                          {entry.admin_name || entry.admin_email || <span className="text-gray-400">Removed user</span>}
+                        </td>
+                        <td className="px-4 py-3">
+                          <code className="text-xs bg-gray-100 text-gray-800 px-2 py-0.5 rounded">{entry.action}</code>
+                        </td>
+                        <td className="px-4 py-3">
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation()
+                              setResourceType(entry.resource_type)
+                              setResourceId(entry.resource_id)
+                              setPage(1)
+                            }}
+                            className="text-left text-primary hover:underline"
+                            title="Show every change to this record"
+                          >
+                            {entry.resource_type}
+                            <span className="block text-xs text-gray-500 font-mono">{entry.resource_id.slice(0, 8)}</span>
+                          </button>
+                        </td>
+                        <td className="px-4 py-3 text-gray-600 truncate max-w-xs">{getSummary(entry)}</td>
+                      </tr>
+                      {expanded && (
+                        <tr className="bg-gray-50">
+                          <td />
+                          <td colSpan={5} className="px-4 py-3">
+                            <table className="w-full text-xs">
+                              <thead className="text-gray-500">
+                                <tr>
+                                  <th className="text-left font-medium py-1 pr-4 w-48">Field</th>
+                                  <th className="text-left font-medium py-1 pr-4">Before</th>
+                                  <th className="text-left font-medium py-1">After</th>
+                                </tr>
+                              </thead>
+                              <tbody>
+                                {getChangedFields(entry).map(change => (
+                                  <tr key={change.field} className="align-top">
+                                    <td className="py-1 pr-4 font-mono text-gray-700">{change.field}</td>
+                                    <td className="py-1 pr-4 text-red-700 break-all">{formatValue(change.before)}</td>
+                                    <td className="py-1 text-green-700 break-all">{formatValue(change.after)}</td>
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                            <p className="text-xs text-gray-500 mt-2">
+                              {entry.ip_address && `From ${entry.ip_address}`}
+                              {entry.user_agent && ` · ${entry.user_agent}`}
+                            </p>
+                          </td>
+                        </tr>
+                      )}
+                    </Fragment>
+                  )
+                })}
+              </tbody>
+            </table>
+          )}
+
+          {pagination && pagination.totalPages > 1 && (
+            <div className="flex items-center justify-between px-4 py-3 border-t border-gray-200 text-sm">
+              <span className="text-gray-600">
+                Page {pagination.page} of {pagination.totalPages} · {pagination.total} changes
+              </span>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1}
+                  className="px-3 py-1 rounded-md border border-gray-300 disabled:opacity-50"
+                >
+                  Previous
+                </button>
+                <button
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= pagination.totalPages}
+                  className="px-3 py-1 rounded-md border border-gray-300 disabled:opacity-50"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
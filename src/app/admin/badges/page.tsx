@@ -0,0 +1,402 @@
+'use client'
+
+import { useState } from 'react'
+import { Award, Plus, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  useAdminBadges,
+  useCreateBadge,
+  useUpdateBadge,
+  useDeleteBadge,
+  useAdminLearningPaths,
+  useAdminCourses,
+  type AdminBadge
+} from '@/hooks/api'
+import { BadgeMedal } from '@/components/dashboard/BadgeMedal'
+import { BADGE_CRITERIA_TYPES, describeBadgeCriteria } from '@/lib/badges/criteria'
+import {
+  BADGE_RARITIES,
+  QUIZ_DIFFICULTIES,
+  type BadgeCriteria,
+  type BadgeCriteriaType,
+  type BadgeInput
+} from '@/lib/badges/types'
+
+const CRITERIA_LABELS: Record<BadgeCriteriaType, string> = {
+  quizzes_passed: 'Quizzes passed',
+  perfect_score: 'Perfect scores',
+  streak_days: 'Study streak',
+  courses_completed: 'Courses completed',
+  courses_enrolled: 'Courses enrolled',
+  lessons_completed: 'Lessons completed',
+  learning_paths_completed: 'Learning paths completed'
+}
+
+const DEFAULT_CRITERIA: Record<BadgeCriteriaType, BadgeCriteria> = {
+  quizzes_passed: { type: 'quizzes_passed', count: 5 },
+  perfect_score: { type: 'perfect_score', count: 1 },
+  streak_days: { type: 'streak_days', days: 7 },
+  courses_completed: { type: 'courses_completed', count: 1 },
+  courses_enrolled: { type: 'courses_enrolled', count: 1 },
+  lessons_completed: { type: 'lessons_completed', count: 10 },
+  learning_paths_completed: { type: 'learning_paths_completed', count: 1 }
+}
+
+const EMPTY_BADGE: BadgeInput = {
+  name: '',
+  description: '',
+  icon_url: null,
+  criteria: DEFAULT_CRITERIA.quizzes_passed,
+  points: 10,
+  rarity: 'common',
+  category: null,
+  is_active: true,
+  auto_award: true
+}
+
+function BadgeEditor({ badge, onDone }: { badge: AdminBadge | null; onDone: () => void }) {
+  const [form, setForm] = useState<BadgeInput>(() => badge
+    ? {
+        name: badge.name,
+        description: badge.description,
+        icon_url: badge.icon_url,
+        criteria: badge.criteria || DEFAULT_CRITERIA.quizzes_passed,
+        points: badge.points,
+        rarity: badge.rarity,
+        category: badge.category,
+        is_active: badge.is_active,
+        auto_award: badge.auto_award
+      }
+    : EMPTY_BADGE)
+  const { data: coursesData } = useAdminCourses(1, 500)
+  const { data: paths = [] } = useAdminLearningPaths()
+  const createBadge = useCreateBadge()
+  const updateBadge = useUpdateBadge()
+  const saving = createBadge.isPending || updateBadge.isPending
+  const courses = coursesData?.courses || []
+  const criteria = form.criteria!
+
+  const update = <K extends keyof BadgeInput>(field: K, value: BadgeInput[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }))
+  }
+
+  const updateCriteria = (changes: Record<string, unknown>) => {
+    update('criteria', { ...criteria, ...changes } as BadgeCriteria)
+  }
+
+  const handleSave = () => {
+    const options = {
+      onSuccess: () => {
+        toast.success(badge ? 'Badge saved' : 'Badge created')
+        onDone()
+      },
+      onError: (error: Error) => toast.error(error.message)
+    }
+
+    if (badge) {
+      updateBadge.mutate({ id: badge.id, ...form }, options)
+    } else {
+      createBadge.mutate(form, options)
+    }
+  }
+
+  const inputClass = 'w-full h-9 rounded-md border border-gray-300 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-primary'
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-5">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">{badge ? `Edit "${badge.name}"` : 'New badge'}</h2>
+        <button onClick={onDone} className="text-sm text-gray-500 hover:text-gray-700">Cancel</button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Details */}
+        <div className="space-y-3">
+          <label className="block text-sm">
+            <span className="font-medium text-gray-700">Name</span>
+            <input value={form.name} onChange={(e) => update('name', e.target.value)} placeholder="Week Streak" className={inputClass} />
+          </label>
+          <label className="block text-sm">
+            <span className="font-medium text-gray-700">Description</span>
+            <textarea
+              value={form.description || ''}
+              onChange={(e) => update('description', e.target.value)}
+              rows={2}
+              className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+          </label>
+          <label className="block text-sm">
+            <span className="font-medium text-gray-700">Icon URL</span>
+            <input
+              value={form.icon_url || ''}
+              onChange={(e) => update('icon_url', e.target.value)}
+              placeholder="https://... (leave empty for the default medal)"
+              className={inputClass}
+            />
+          </label>
+          <div className="grid grid-cols-3 gap-3">
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">Rarity</span>
+              <select
+                value={form.rarity}
+                onChange={(e) => update('rarity', e.target.value as BadgeInput['rarity'])}
+                className={inputClass}
+              >
+                {BADGE_RARITIES.map(rarity => <option key={rarity} value={rarity} className="capitalize">{rarity}</option>)}
+              </select>
+            </label>
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">Points</span>
+              <input
+                type="number"
+                min={0}
+                value={form.points}
+                onChange={(e) => update('points', Number(e.target.value))}
+                className={inputClass}
+              />
+            </label>
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">Category</span>
+              <input value={form.category || ''} onChange={(e) => update('category', e.target.value)} placeholder="quizzes" className={inputClass} />
+            </label>
+          </div>
+
+          <div className="pt-3 border-t border-gray-200 space-y-2">
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={form.is_active} onChange={(e) => update('is_active', e.target.checked)} />
+              Active — shown to students and can be earned
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={form.auto_award} onChange={(e) => update('auto_award', e.target.checked)} />
+              Award automatically when the rule is met
+            </label>
+          </div>
+        </div>
+
+        {/* Rule */}
+        <div className="space-y-3">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900">Rule</h3>
+            <p className="text-xs text-gray-500 mt-1">Checked after quiz submissions, grading, lesson completions and enrollments</p>
+          </div>
+
+          <label className="block text-sm">
+            <span className="text-gray-700">Earned for</span>
+            <select
+              value={criteria.type}
+              onChange={(e) => update('criteria', DEFAULT_CRITERIA[e.target.value as BadgeCriteriaType])}
+              className={inputClass}
+            >
+              {BADGE_CRITERIA_TYPES.map(type => <option key={type} value={type}>{CRITERIA_LABELS[type]}</option>)}
+            </select>
+          </label>
+
+          {criteria.type === 'streak_days' ? (
+            <label className="block text-sm">
+              <span className="text-gray-700">Days in a row</span>
+              <input
+                type="number"
+                min={1}
+                value={criteria.days}
+                onChange={(e) => updateCriteria({ days: Number(e.target.value) })}
+                className={inputClass}
+              />
+            </label>
+          ) : (
+            <label className="block text-sm">
+              <span className="text-gray-700">How many</span>
+              <input
+                type="number"
+                min={1}
+                value={criteria.count}
+                disabled={
+                  (criteria.type === 'courses_completed' && Boolean(criteria.course_id)) ||
+                  (criteria.type === 'learning_paths_completed' && Boolean(criteria.learning_path_id))
+                }
+                onChange={(e) => updateCriteria({ count: Number(e.target.value) })}
+                className={`${inputClass} disabled:bg-gray-100`}
+              />
+            </label>
+          )}
+
+          {criteria.type === 'perfect_score' && (
+            <label className="block text-sm">
+              <span className="text-gray-700">Quiz difficulty</span>
+              <select
+                value={criteria.difficulty || ''}
+                onChange={(e) => updateCriteria({ difficulty: e.target.value || undefined })}
+                className={inputClass}
+              >
+                <option value="">Any difficulty</option>
+                {QUIZ_DIFFICULTIES.map(level => <option key={level} value={level} className="capitalize">{level}</option>)}
+              </select>
+            </label>
+          )}
+
+          {criteria.type === 'courses_completed' && (
+            <label className="block text-sm">
+              <span className="text-gray-700">Course</span>
+              <select
+                value={criteria.course_id || ''}
+                onChange={(e) => updateCriteria({ course_id: e.target.value || undefined, count: 1 })}
+                className={inputClass}
+              >
+                <option value="">Any course</option>
+                {courses.map((course: { id: string; title: string }) => (
+                  <option key={course.id} value={course.id}>{course.title}</option>
+                ))}
+              </select>
+            </label>
+          )}
+
+          {criteria.type === 'learning_paths_completed' && (
+            <label className="block text-sm">
+              <span className="text-gray-700">Learning path</span>
+              <select
+                value={criteria.learning_path_id || ''}
+                onChange={(e) => updateCriteria({ learning_path_id: e.target.value || undefined, count: 1 })}
+                className={inputClass}
+              >
+                <option value="">Any learning path</option>
+                {paths.map(path => <option key={path.id} value={path.id}>{path.name}</option>)}
+              </select>
+            </label>
+          )}
+
+          <div className="flex items-center gap-4 p-4 rounded-md bg-gray-50 border border-gray-200">
+            <BadgeMedal name={form.name || 'Preview'} iconUrl={form.icon_url || null} rarity={form.rarity} />
+            <div className="min-w-0">
+              <div className="font-medium text-gray-900 truncate">{form.name || 'Badge name'}</div>
+              <div className="text-xs text-gray-500 capitalize">{form.rarity} · {form.points} points</div>
+              <div className="text-sm text-gray-700 mt-1">{describeBadgeCriteria(form.auto_award ? criteria : null)}</div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        className="px-4 py-2 rounded-md bg-primary text-white text-sm font-medium disabled:opacity-50"
+      >
+        {saving ? 'Saving...' : 'Save badge'}
+      </button>
+    </div>
+  )
+}
+
+export default function AdminBadgesPage() {
+  const [editing, setEditing] = useState<AdminBadge | 'new' | null>(null)
+  const { data: badges = [], isLoading, error } = useAdminBadges()
+  const deleteBadge = useDeleteBadge()
+
+  const handleDelete = (badge: AdminBadge) => {
+    const awarded = badge.awarded_count > 0
+      ? ` It is removed from the ${badge.awarded_count} learner${badge.awarded_count === 1 ? '' : 's'} who earned it; deactivate it instead to keep their awards.`
+      : ''
+    if (!confirm(`Delete "${badge.name}"?${awarded}`)) return
+    deleteBadge.mutate(badge.id, {
+      onSuccess: () => toast.success('Badge deleted'),
+      onError: (err) => toast.error(err.message)
+    })
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 flex items-start justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Badges</h1>
+            <p className="text-gray-600 mt-1">
+              Achievements students earn automatically when their activity meets a badge&apos;s rule.
+            </p>
+          </div>
+          {!editing && (
+            <button
+              onClick={() => setEditing('new')}
+              className="inline-flex items-center gap-1 px-3 py-2 rounded-md bg-primary text-white text-sm font-medium"
+            >
+              <Plus className="w-4 h-4" /> New badge
+            </button>
+          )}
+        </div>
+
+        {editing && (
+          <BadgeEditor
+            key={editing === 'new' ? 'new' : editing.id}
+            badge={editing === 'new' ? null : editing}
+            onDone={() => setEditing(null)}
+          />
+        )}
+
+        {error ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6 text-red-700">
+            {error.message || 'Failed to load badges'}
+          </div>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : badges.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center">
+            <Award className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-1">No badges yet</h3>
+            <p className="text-gray-600">Create a badge to reward streaks, passes and completed courses.</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Badge</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Rule</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Points</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Earned by</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {badges.map(badge => (
+                  <tr key={badge.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3">
+                      <div className="flex items-center gap-3">
+                        <BadgeMedal name={badge.name} iconUrl={badge.icon_url} rarity={badge.rarity} size="sm" earned={badge.is_active} />
+                        <div>
+                          <div className="font-medium text-gray-900">{badge.name}</div>
+                          <div className="text-xs text-gray-500 capitalize">
+                            {badge.rarity}{badge.category ? ` · ${badge.category}` : ''}{badge.is_active ? '' : ' · inactive'}
+                          </div>
+                        </div>
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700">
+                      {badge.criteria ? describeBadgeCriteria(badge.criteria) : <span className="text-amber-700">Unrecognised rule</span>}
+                      {!badge.auto_award && <div className="text-xs text-gray-500">Manual award only</div>}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{badge.points}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700">
+                      {badge.awarded_count} learner{badge.awarded_count === 1 ? '' : 's'}
+                    </td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      <button onClick={() => setEditing(badge)} className="text-sm text-primary hover:underline mr-3">
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(badge)}
+                        className="text-gray-400 hover:text-red-600 align-middle"
+                        aria-label="Delete badge"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,387 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import Image from 'next/image'
+import Link from 'next/link'
+import { Award, ExternalLink, Plus, Search, Star, Trash2 } from 'lucide-react'
+import { toast } from 'sonner'
+import { formatDate } from '@/lib/date-utils'
+import {
+  useCertificateTemplates,
+  useCreateCertificateTemplate,
+  useUpdateCertificateTemplate,
+  useDeleteCertificateTemplate,
+  useIssuedCertificates,
+  useSetCertificateValidity
+} from '@/hooks/api'
+import { CERTIFICATE_HEIGHT, CERTIFICATE_WIDTH, renderCertificateSvg } from '@/lib/certificates/render'
+import { CERTIFICATE_PLACEHOLDERS, DEFAULT_CERTIFICATE_TEMPLATE } from '@/lib/certificates/templates'
+import type { CertificateTemplate, CertificateTemplateInput, IssuedCertificate } from '@/lib/certificates/types'
+
+const PREVIEW_CERTIFICATE: IssuedCertificate = {
+  id: 'preview',
+  user_id: 'preview',
+  course_id: null,
+  quiz_id: null,
+  quiz_attempt_id: null,
+  template_id: null,
+  certificate_number: 'ACX-PREV-IEW2-3456',
+  recipient_name: 'Alex Morgan',
+  title: 'IELTS Academic Preparation',
+  score: 86,
+  issued_at: new Date().toISOString(),
+  expires_at: null,
+  is_valid: true,
+  revoked_at: null
+}
+
+function TemplateEditor({
+  template,
+  onDone
+}: {
+  template: CertificateTemplate | null
+  onDone: () => void
+}) {
+  const [form, setForm] = useState<CertificateTemplateInput>(() => ({
+    ...DEFAULT_CERTIFICATE_TEMPLATE,
+    is_default: false,
+    ...(template || {})
+  }))
+  const createTemplate = useCreateCertificateTemplate()
+  const updateTemplate = useUpdateCertificateTemplate()
+  const saving = createTemplate.isPending || updateTemplate.isPending
+
+  const previewSrc = useMemo(() => {
+    const svg = renderCertificateSvg(form, PREVIEW_CERTIFICATE, 'example.com/certificates/ACX-PREV-IEW2-3456')
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+  }, [form])
+
+  const update = <K extends keyof CertificateTemplateInput>(field: K, value: CertificateTemplateInput[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }))
+  }
+
+  const handleSave = () => {
+    const options = {
+      onSuccess: () => {
+        toast.success(template ? 'Template saved' : 'Template created')
+        onDone()
+      },
+      onError: (error: Error) => toast.error(error.message)
+    }
+
+    if (template) {
+      updateTemplate.mutate({ id: template.id, ...form }, options)
+    } else {
+      createTemplate.mutate(form, options)
+    }
+  }
+
+  const inputClass = 'w-full h-9 rounded-md border border-gray-300 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-primary'
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">{template ? `Edit "${template.name}"` : 'New template'}</h2>
+        <button onClick={onDone} className="text-sm text-gray-500 hover:text-gray-700">Cancel</button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          <label className="block text-sm">
+            <span className="font-medium text-gray-700">Name</span>
+            <input value={form.name} onChange={(e) => update('name', e.target.value)} className={inputClass} />
+          </label>
+          <label className="block text-sm">
+            <span className="font-medium text-gray-700">Heading</span>
+            <input value={form.heading} onChange={(e) => update('heading', e.target.value)} className={inputClass} />
+          </label>
+          <label className="block text-sm">
+            <span className="font-medium text-gray-700">Body</span>
+            <textarea
+              value={form.body}
+              onChange={(e) => update('body', e.target.value)}
+              rows={4}
+              className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+            <span className="text-xs text-gray-500">
+              Placeholders: {CERTIFICATE_PLACEHOLDERS.map(p => `{{${p}}}`).join(', ')}
+            </span>
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">Signature name</span>
+              <input
+                value={form.signature_name || ''}
+                onChange={(e) => update('signature_name', e.target.value)}
+                className={inputClass}
+              />
+            </label>
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">Signature title</span>
+              <input
+                value={form.signature_title || ''}
+                onChange={(e) => update('signature_title', e.target.value)}
+                className={inputClass}
+              />
+            </label>
+          </div>
+          <div className="flex items-center gap-6">
+            <label className="flex items-center gap-2 text-sm">
+              <span className="font-medium text-gray-700">Accent</span>
+              <input
+                type="color"
+                value={form.accent_color}
+                onChange={(e) => update('accent_color', e.target.value)}
+                className="h-8 w-12 rounded border border-gray-300"
+              />
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={form.is_default}
+                onChange={(e) => update('is_default', e.target.checked)}
+              />
+              Default for courses without a template
+            </label>
+          </div>
+          <button
+            onClick={handleSave}
+            disabled={saving}
+            className="px-4 py-2 rounded-md bg-primary text-white text-sm font-medium disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save template'}
+          </button>
+        </div>
+
+        <div>
+          <div className="text-sm font-medium text-gray-700 mb-2">Preview</div>
+          <Image
+            src={previewSrc}
+            alt="Certificate preview"
+            width={CERTIFICATE_WIDTH}
+            height={CERTIFICATE_HEIGHT}
+            unoptimized
+            className="w-full h-auto border border-gray-200 rounded"
+          />
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default function AdminCertificatesPage() {
+  const [editing, setEditing] = useState<CertificateTemplate | 'new' | null>(null)
+  const [search, setSearch] = useState('')
+  const [page, setPage] = useState(1)
+
+  const { data: templates = [], isLoading: templatesLoading } = useCertificateTemplates()
+  const deleteTemplate = useDeleteCertificateTemplate()
+  const { data, isLoading: certificatesLoading, error } = useIssuedCertificates({ search, page })
+  const setValidity = useSetCertificateValidity()
+
+  const certificates = data?.certificates || []
+  const pagination = data?.pagination
+
+  const handleDelete = (template: CertificateTemplate) => {
+    if (!confirm(`Delete "${template.name}"? Courses and certificates using it switch to the default template.`)) return
+    deleteTemplate.mutate(template.id, {
+      onSuccess: () => toast.success('Template deleted'),
+      onError: (err) => toast.error(err.message)
+    })
+  }
+
+  const handleValidity = (certificate: IssuedCertificate) => {
+    const revoke = certificate.is_valid
+    if (revoke && !confirm(`Revoke certificate ${certificate.certificate_number}? Its verification page will show it as revoked.`)) return
+    setValidity.mutate(
+      { id: certificate.id, is_valid: !revoke },
+      {
+        onSuccess: () => toast.success(revoke ? 'Certificate revoked' : 'Certificate restored'),
+        onError: (err) => toast.error(err.message)
+      }
+    )
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 flex items-start justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Certificates</h1>
+            <p className="text-gray-600 mt-1">
+              Certificates are issued when a learner completes a course or passes a quiz linked to a template.
+            </p>
+          </div>
+          {!editing && (
+            <button
+              onClick={() => setEditing('new')}
+              className="inline-flex items-center gap-1 px-3 py-2 rounded-md bg-primary text-white text-sm font-medium"
+            >
+              <Plus className="w-4 h-4" /> New template
+            </button>
+          )}
+        </div>
+
+        {editing && (
+          <TemplateEditor
+            key={editing === 'new' ? 'new' : editing.id}
+            template={editing === 'new' ? null : editing}
+            onDone={() => setEditing(null)}
+          />
+        )}
+
+        {/* Templates */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200">
+          <div className="px-4 py-3 border-b border-gray-200 font-medium text-gray-900">Templates</div>
+          {templatesLoading ? (
+            <div className="p-6 text-sm text-gray-500">Loading templates...</div>
+          ) : templates.length === 0 ? (
+            <div className="p-6 text-sm text-gray-500">No templates yet. Certificates use the built-in design.</div>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {templates.map(template => (
+                <li key={template.id} className="px-4 py-3 flex items-center justify-between">
+                  <div className="flex items-center gap-3">
+                    <span className="w-4 h-4 rounded-full" style={{ backgroundColor: template.accent_color }} />
+                    <div>
+                      <div className="font-medium text-gray-900 flex items-center gap-2">
+                        {template.name}
+                        {template.is_default && (
+                          <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-blue-100 text-blue-800">
+                            <Star className="w-3 h-3" /> Default
+                          </span>
+                        )}
+                      </div>
+                      <div className="text-xs text-gray-500">{template.heading}</div>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <button onClick={() => setEditing(template)} className="text-sm text-primary hover:underline">
+                      Edit
+                    </button>
+                    {!template.is_default && (
+                      <button
+                        onClick={() => handleDelete(template)}
+                        className="text-gray-400 hover:text-red-600"
+                        aria-label="Delete template"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Issued certificates */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+          <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between gap-3">
+            <span className="font-medium text-gray-900">Issued</span>
+            <div className="relative w-72">
+              <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                value={search}
+                onChange={(e) => {
+                  setSearch(e.target.value)
+                  setPage(1)
+                }}
+                placeholder="Search code, name or title..."
+                className="w-full h-9 rounded-md border border-gray-300 pl-9 pr-3 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+            </div>
+          </div>
+
+          {error ? (
+            <div className="p-6 text-red-700">{error.message || 'Failed to load certificates'}</div>
+          ) : certificatesLoading ? (
+            <div className="flex items-center justify-center h-32">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : certificates.length === 0 ? (
+            <div className="p-12 text-center">
+              <Award className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+              <p className="text-gray-600">No certificates issued yet.</p>
+            </div>
+          ) : (
+            <>
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Code</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Recipient</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">For</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Issued</th>
+                    <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Status</th>
+                    <th className="px-4 py-3" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {certificates.map(certificate => (
+                    <tr key={certificate.id} className="hover:bg-gray-50">
+                      <td className="px-4 py-3 text-sm font-mono">
+                        <Link
+                          href={`/certificates/${certificate.certificate_number}`}
+                          target="_blank"
+                          className="inline-flex items-center gap-1 text-primary hover:underline"
+                        >
+                          {certificate.certificate_number}
+                          <ExternalLink className="w-3 h-3" />
+                        </Link>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-900">{certificate.recipient_name}</td>
+                      <td className="px-4 py-3 text-sm text-gray-700">
+                        {certificate.title}
+                        <span className="ml-2 text-xs text-gray-500">{certificate.quiz_id ? 'Quiz' : 'Course'}</span>
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-500 whitespace-nowrap">{formatDate(certificate.issued_at)}</td>
+                      <td className="px-4 py-3">
+                        <span className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium ${certificate.is_valid ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}`}>
+                          {certificate.is_valid ? 'Valid' : 'Revoked'}
+                        </span>
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        <button
+                          onClick={() => handleValidity(certificate)}
+                          disabled={setValidity.isPending}
+                          className="text-sm text-gray-600 hover:text-gray-900 disabled:opacity-50"
+                        >
+                          {certificate.is_valid ? 'Revoke' : 'Restore'}
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {pagination && pagination.totalPages > 1 && (
+                <div className="flex items-center justify-between px-4 py-3 border-t border-gray-200 text-sm text-gray-600">
+                  <span>{pagination.total} certificates</span>
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => setPage(p => Math.max(1, p - 1))}
+                      disabled={page <= 1}
+                      className="px-3 py-1 rounded border border-gray-300 disabled:opacity-50"
+                    >
+                      Previous
+                    </button>
+                    <span>Page {pagination.page} of {pagination.totalPages}</span>
+                    <button
+                      onClick={() => setPage(p => Math.min(pagination.totalPages, p + 1))}
+                      disabled={page >= pagination.totalPages}
+                      className="px-3 py-1 rounded border border-gray-300 disabled:opacity-50"
+                    >
+                      Next
+                    </button>
+                  </div>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,150 @@
+'use client'
+
+import { useState, useMemo } from 'react'
+import { ClipboardCheck, Clock, CheckCircle, FileText, Mic } from 'lucide-react'
+import { formatDate } from '@/lib/date-utils'
+import { useGradingQueue } from '@/hooks/api'
+import { EssayGradingPanel } from '@/components/admin/EssayGradingPanel'
+
+export default function AdminGradingPage() {
+  const [statusFilter, setStatusFilter] = useState<'pending' | 'graded'>('pending')
+  const [quizFilter, setQuizFilter] = useState('')
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+
+  const { data: items = [], isLoading: loading, error } = useGradingQueue(statusFilter, quizFilter || undefined)
+
+  // Quiz filter options come from whatever is currently in the queue
+  const quizOptions = useMemo(() => {
+    const quizzes = new Map<string, string>()
+    items.forEach(item => quizzes.set(item.quiz_id, item.quiz_title))
+    return Array.from(quizzes.entries())
+  }, [items])
+
+  const selectedItem = items.find(item => item.id === selectedId) || items[0]
+
+  const changeStatus = (status: 'pending' | 'graded') => {
+    setStatusFilter(status)
+    setSelectedId(null)
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <div className="flex items-center justify-between">
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900">Grading</h1>
+              <p className="text-gray-600 mt-1">Score essays and speaking recordings against their rubrics and leave feedback</p>
+            </div>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => changeStatus('pending')}
+                className={`flex items-center space-x-2 px-4 py-2 rounded-lg transition-colors ${
+                  statusFilter === 'pending' ? 'bg-primary text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                <Clock className="w-4 h-4" />
+                <span>Pending</span>
+              </button>
+              <button
+                onClick={() => changeStatus('graded')}
+                className={`flex items-center space-x-2 px-4 py-2 rounded-lg transition-colors ${
+                  statusFilter === 'graded' ? 'bg-primary text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                }`}
+              >
+                <CheckCircle className="w-4 h-4" />
+                <span>Graded</span>
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {error ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6 text-red-700">
+            {error.message || 'Failed to load grading queue'}
+          </div>
+        ) : loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : items.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center">
+            <ClipboardCheck className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-1">
+              {statusFilter === 'pending' ? 'Nothing to grade' : 'No graded answers yet'}
+            </h3>
+            <p className="text-gray-600">
+              {statusFilter === 'pending'
+                ? 'New essay and speaking submissions will appear here.'
+                : 'Answers you grade will appear here.'}
+            </p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {/* Queue */}
+            <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+              <div className="p-4 border-b border-gray-200">
+                <select
+                  value={quizFilter}
+                  onChange={(e) => {
+                    setQuizFilter(e.target.value)
+                    setSelectedId(null)
+                  }}
+                  className="w-full h-9 rounded-md border border-gray-300 px-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+                >
+                  <option value="">All quizzes</option>
+                  {quizOptions.map(([id, title]) => (
+                    <option key={id} value={id}>{title}</option>
+                  ))}
+                </select>
+              </div>
+              <ul className="divide-y divide-gray-200 max-h-[70vh] overflow-y-auto">
+                {items.map(item => (
+                  <li key={item.id}>
+                    <button
+                      onClick={() => setSelectedId(item.id)}
+                      className={`w-full text-left p-4 transition-colors ${
+                        selectedItem?.id === item.id ? 'bg-primary/5' : 'hover:bg-gray-50'
+                      }`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium text-gray-900 truncate">{item.student_name}</span>
+                        {item.grading_status === 'graded' ? (
+                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                            {item.points_earned}/{item.points_possible}
+                          </span>
+                        ) : (
+                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-yellow-100 text-yellow-800">
+                            Pending
+                          </span>
+                        )}
+                      </div>
+                      <div className="flex items-center text-sm text-gray-600 mt-1">
+                        {item.question_type === 'speaking'
+                          ? <Mic className="w-3 h-3 mr-1 shrink-0" />
+                          : <FileText className="w-3 h-3 mr-1 shrink-0" />}
+                        <span className="truncate">{item.quiz_title}</span>
+                      </div>
+                      <div className="text-xs text-gray-500 mt-1">{formatDate(item.submitted_at)}</div>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            {/* Grading form */}
+            <div className="lg:col-span-2">
+              {selectedItem && (
+                <EssayGradingPanel
+                  item={selectedItem}
+                  onGraded={() => setSelectedId(null)}
+                />
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
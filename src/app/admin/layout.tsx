@@ -1,5 +1,5 @@
 import { redirect } from 'next/navigation'
-import { requireAdmin } from '@/lib/auth'
+import { requireInstructor } from '@/lib/auth'
 import AdminLayoutClient from './admin-layout-client'
 
 export default async function AdminLayout({
@@ -8,12 +8,13 @@ export default async function AdminLayout({
   children: React.ReactNode
 }) {
   // Server-side auth check - blocks unauthorized access before rendering
-  const user = await requireAdmin()
+  // Instructors share the workspace; AdminLayoutClient keeps them to their sections
+  const user = await requireInstructor()
 
   if (!user) {
     redirect('/auth?tab=signin')
   }
 
-  return <AdminLayoutClient>{children}</AdminLayoutClient>
+  return <AdminLayoutClient role={user.role}>{children}</AdminLayoutClient>
 }
 
@@ -0,0 +1,348 @@
+'use client'
+
+import { useState } from 'react'
+import { Plus, RotateCcw, Trash2, Trophy } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  useAdminLeaderboards,
+  useCreateLeaderboard,
+  useUpdateLeaderboard,
+  useDeleteLeaderboard,
+  useResetLeaderboard,
+  useAdminLearningPaths,
+  useLearningPathQuizOptions,
+  type AdminLeaderboard
+} from '@/hooks/api'
+import { useCategories } from '@/hooks/useCategories'
+import { MAX_LEADERBOARD_ENTRIES } from '@/lib/leaderboards/rules'
+import {
+  LEADERBOARD_PERIODS,
+  LEADERBOARD_TYPES,
+  type LeaderboardInput,
+  type LeaderboardPeriod,
+  type LeaderboardType
+} from '@/lib/leaderboards/types'
+import { formatDate } from '@/lib/date-utils'
+
+type ScopeType = 'global' | 'quiz' | 'category' | 'learning_path'
+
+const TYPE_LABELS: Record<LeaderboardType, string> = {
+  score: 'Total score (best attempt per quiz)',
+  average: 'Average score (best attempt per quiz)',
+  quizzes_passed: 'Quizzes passed'
+}
+
+const PERIOD_LABELS: Record<LeaderboardPeriod, string> = {
+  weekly: 'Weekly (resets Monday)',
+  monthly: 'Monthly (resets on the 1st)',
+  all_time: 'All time'
+}
+
+const EMPTY_LEADERBOARD: LeaderboardInput = {
+  name: '',
+  description: '',
+  quiz_id: null,
+  category_id: null,
+  learning_path_id: null,
+  leaderboard_type: 'score',
+  time_period: 'weekly',
+  max_entries: 50,
+  is_public: true
+}
+
+function getScopeType(form: Pick<LeaderboardInput, 'quiz_id' | 'category_id' | 'learning_path_id'>): ScopeType {
+  if (form.quiz_id) return 'quiz'
+  if (form.category_id) return 'category'
+  if (form.learning_path_id) return 'learning_path'
+  return 'global'
+}
+
+function LeaderboardEditor({ leaderboard, onDone }: { leaderboard: AdminLeaderboard | null; onDone: () => void }) {
+  const [form, setForm] = useState<LeaderboardInput>(() => leaderboard
+    ? {
+        name: leaderboard.name,
+        description: leaderboard.description,
+        quiz_id: leaderboard.quiz_id,
+        category_id: leaderboard.category_id,
+        learning_path_id: leaderboard.learning_path_id,
+        leaderboard_type: leaderboard.leaderboard_type,
+        time_period: leaderboard.time_period,
+        max_entries: leaderboard.max_entries,
+        is_public: leaderboard.is_public
+      }
+    : EMPTY_LEADERBOARD)
+  const [scopeType, setScopeType] = useState<ScopeType>(() => getScopeType(form))
+  const { data: quizzes = [] } = useLearningPathQuizOptions()
+  const { categories } = useCategories()
+  const { data: paths = [] } = useAdminLearningPaths()
+  const createLeaderboard = useCreateLeaderboard()
+  const updateLeaderboard = useUpdateLeaderboard()
+  const saving = createLeaderboard.isPending || updateLeaderboard.isPending
+
+  const update = <K extends keyof LeaderboardInput>(field: K, value: LeaderboardInput[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }))
+  }
+
+  const changeScope = (type: ScopeType) => {
+    setScopeType(type)
+    setForm(prev => ({ ...prev, quiz_id: null, category_id: null, learning_path_id: null }))
+  }
+
+  const handleSave = () => {
+    if (scopeType !== 'global' && !form.quiz_id && !form.category_id && !form.learning_path_id) {
+      toast.error('Choose what this leaderboard ranks')
+      return
+    }
+
+    const options = {
+      onSuccess: () => {
+        toast.success(leaderboard ? 'Leaderboard saved' : 'Leaderboard created')
+        onDone()
+      },
+      onError: (error: Error) => toast.error(error.message)
+    }
+
+    if (leaderboard) {
+      updateLeaderboard.mutate({ id: leaderboard.id, ...form }, options)
+    } else {
+      createLeaderboard.mutate(form, options)
+    }
+  }
+
+  const inputClass = 'w-full h-9 rounded-md border border-gray-300 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-primary'
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-5">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">{leaderboard ? `Edit "${leaderboard.name}"` : 'New leaderboard'}</h2>
+        <button onClick={onDone} className="text-sm text-gray-500 hover:text-gray-700">Cancel</button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Details */}
+        <div className="space-y-3">
+          <label className="block text-sm">
+            <span className="font-medium text-gray-700">Name</span>
+            <input value={form.name} onChange={(e) => update('name', e.target.value)} placeholder="Weekly Reading Champions" className={inputClass} />
+          </label>
+          <label className="block text-sm">
+            <span className="font-medium text-gray-700">Description</span>
+            <textarea
+              value={form.description || ''}
+              onChange={(e) => update('description', e.target.value)}
+              rows={2}
+              className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+          </label>
+          <label className="block text-sm">
+            <span className="font-medium text-gray-700">Entries shown</span>
+            <input
+              type="number"
+              min={1}
+              max={MAX_LEADERBOARD_ENTRIES}
+              value={form.max_entries}
+              onChange={(e) => update('max_entries', Number(e.target.value))}
+              className={inputClass}
+            />
+          </label>
+          <label className="flex items-center gap-2 text-sm text-gray-700 pt-3 border-t border-gray-200">
+            <input type="checkbox" checked={form.is_public} onChange={(e) => update('is_public', e.target.checked)} />
+            Public — listed on the students&apos; leaderboard page
+          </label>
+        </div>
+
+        {/* Ranking */}
+        <div className="space-y-3">
+          <label className="block text-sm">
+            <span className="font-medium text-gray-700">Ranks quizzes from</span>
+            <select value={scopeType} onChange={(e) => changeScope(e.target.value as ScopeType)} className={inputClass}>
+              <option value="global">All quizzes</option>
+              <option value="quiz">One quiz</option>
+              <option value="category">A category</option>
+              <option value="learning_path">A learning path</option>
+            </select>
+          </label>
+
+          {scopeType === 'quiz' && (
+            <select value={form.quiz_id || ''} onChange={(e) => update('quiz_id', e.target.value || null)} className={inputClass}>
+              <option value="">Select a quiz...</option>
+              {quizzes.map(quiz => <option key={quiz.id} value={quiz.id}>{quiz.title}</option>)}
+            </select>
+          )}
+          {scopeType === 'category' && (
+            <select value={form.category_id || ''} onChange={(e) => update('category_id', e.target.value || null)} className={inputClass}>
+              <option value="">Select a category...</option>
+              {categories.map(category => <option key={category.id} value={category.id}>{category.name}</option>)}
+            </select>
+          )}
+          {scopeType === 'learning_path' && (
+            <select value={form.learning_path_id || ''} onChange={(e) => update('learning_path_id', e.target.value || null)} className={inputClass}>
+              <option value="">Select a learning path...</option>
+              {paths.map(path => <option key={path.id} value={path.id}>{path.name}</option>)}
+            </select>
+          )}
+
+          <label className="block text-sm">
+            <span className="font-medium text-gray-700">Ranking</span>
+            <select
+              value={form.leaderboard_type}
+              onChange={(e) => update('leaderboard_type', e.target.value as LeaderboardType)}
+              className={inputClass}
+            >
+              {LEADERBOARD_TYPES.map(type => <option key={type} value={type}>{TYPE_LABELS[type]}</option>)}
+            </select>
+          </label>
+          <label className="block text-sm">
+            <span className="font-medium text-gray-700">Period</span>
+            <select
+              value={form.time_period}
+              onChange={(e) => update('time_period', e.target.value as LeaderboardPeriod)}
+              className={inputClass}
+            >
+              {LEADERBOARD_PERIODS.map(period => <option key={period} value={period}>{PERIOD_LABELS[period]}</option>)}
+            </select>
+          </label>
+          {leaderboard && form.time_period !== leaderboard.time_period && (
+            <p className="text-xs text-amber-700">
+              Changing the period starts the standings over. Archived periods are kept.
+            </p>
+          )}
+        </div>
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        className="px-4 py-2 rounded-md bg-primary text-white text-sm font-medium disabled:opacity-50"
+      >
+        {saving ? 'Saving...' : 'Save leaderboard'}
+      </button>
+    </div>
+  )
+}
+
+export default function AdminLeaderboardsPage() {
+  const [editing, setEditing] = useState<AdminLeaderboard | 'new' | null>(null)
+  const { data: leaderboards = [], isLoading, error } = useAdminLeaderboards()
+  const deleteLeaderboard = useDeleteLeaderboard()
+  const resetLeaderboard = useResetLeaderboard()
+
+  const handleDelete = (leaderboard: AdminLeaderboard) => {
+    if (!confirm(`Delete "${leaderboard.name}" and its archived standings?`)) return
+    deleteLeaderboard.mutate(leaderboard.id, {
+      onSuccess: () => toast.success('Leaderboard deleted'),
+      onError: (err) => toast.error(err.message)
+    })
+  }
+
+  const handleReset = (leaderboard: AdminLeaderboard) => {
+    if (!confirm(`End the current period of "${leaderboard.name}" now? Its standings are archived and a new period starts.`)) return
+    resetLeaderboard.mutate(leaderboard.id, {
+      onSuccess: (result) => toast.success(`Leaderboard reset — ${result.archived} standing${result.archived === 1 ? '' : 's'} archived`),
+      onError: (err) => toast.error(err.message)
+    })
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 flex items-start justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Leaderboards</h1>
+            <p className="text-gray-600 mt-1">
+              Rankings over a quiz, category or learning path. Weekly and monthly boards archive their standings when they reset.
+            </p>
+          </div>
+          {!editing && (
+            <button
+              onClick={() => setEditing('new')}
+              className="inline-flex items-center gap-1 px-3 py-2 rounded-md bg-primary text-white text-sm font-medium"
+            >
+              <Plus className="w-4 h-4" /> New leaderboard
+            </button>
+          )}
+        </div>
+
+        {editing && (
+          <LeaderboardEditor
+            key={editing === 'new' ? 'new' : editing.id}
+            leaderboard={editing === 'new' ? null : editing}
+            onDone={() => setEditing(null)}
+          />
+        )}
+
+        {error ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6 text-red-700">
+            {error.message || 'Failed to load leaderboards'}
+          </div>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : leaderboards.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center">
+            <Trophy className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-1">No leaderboards yet</h3>
+            <p className="text-gray-600">Create a weekly board to give students something to race for.</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Leaderboard</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Ranks</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Period</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Current since</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {leaderboards.map(leaderboard => (
+                  <tr key={leaderboard.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3">
+                      <div className="font-medium text-gray-900">{leaderboard.name}</div>
+                      <div className="text-xs text-gray-500">
+                        Top {leaderboard.max_entries}{leaderboard.is_public ? '' : ' · hidden'}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700">
+                      <div>{leaderboard.scope_name || 'Unknown'}</div>
+                      <div className="text-xs text-gray-500">{TYPE_LABELS[leaderboard.leaderboard_type]}</div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{PERIOD_LABELS[leaderboard.time_period]}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700">
+                      {leaderboard.time_period === 'all_time' || !leaderboard.last_reset ? '—' : formatDate(leaderboard.last_reset)}
+                    </td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      {leaderboard.time_period !== 'all_time' && (
+                        <button
+                          onClick={() => handleReset(leaderboard)}
+                          disabled={resetLeaderboard.isPending}
+                          className="inline-flex items-center gap-1 text-sm text-gray-600 hover:text-gray-900 mr-3 disabled:opacity-50"
+                        >
+                          <RotateCcw className="w-3.5 h-3.5" /> Reset now
+                        </button>
+                      )}
+                      <button onClick={() => setEditing(leaderboard)} className="text-sm text-primary hover:underline mr-3">
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(leaderboard)}
+                        className="text-gray-400 hover:text-red-600 align-middle"
+                        aria-label="Delete leaderboard"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,388 @@
+'use client'
+
+import { useState } from 'react'
+import { ArrowDown, ArrowUp, Globe, Plus, Route, Trash2, X } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  useAdminLearningPaths,
+  useCreateLearningPath,
+  useUpdateLearningPath,
+  useDeleteLearningPath,
+  useLearningPathQuizOptions,
+  type AdminLearningPath
+} from '@/hooks/api'
+import { DEFAULT_COMPLETION_CRITERIA } from '@/lib/learning-paths/criteria'
+import { PATH_DIFFICULTIES, type LearningPathInput } from '@/lib/learning-paths/types'
+
+const EMPTY_PATH: LearningPathInput = {
+  name: '',
+  description: '',
+  quiz_ids: [],
+  prerequisites: [],
+  completion_criteria: DEFAULT_COMPLETION_CRITERIA,
+  estimated_hours: null,
+  difficulty_level: 'beginner',
+  is_public: false,
+  tags: []
+}
+
+function PathEditor({
+  path,
+  allPaths,
+  onDone
+}: {
+  path: AdminLearningPath | null
+  allPaths: AdminLearningPath[]
+  onDone: () => void
+}) {
+  const [form, setForm] = useState<LearningPathInput>(() => path
+    ? {
+        name: path.name,
+        description: path.description,
+        quiz_ids: path.quiz_ids,
+        prerequisites: path.prerequisites,
+        completion_criteria: path.completion_criteria,
+        estimated_hours: path.estimated_hours,
+        difficulty_level: path.difficulty_level,
+        is_public: path.is_public,
+        tags: path.tags
+      }
+    : EMPTY_PATH)
+  const [tagInput, setTagInput] = useState(form.tags.join(', '))
+  const { data: quizzes = [] } = useLearningPathQuizOptions()
+  const createPath = useCreateLearningPath()
+  const updatePath = useUpdateLearningPath()
+  const saving = createPath.isPending || updatePath.isPending
+
+  const quizzesById = new Map(quizzes.map(quiz => [quiz.id, quiz]))
+  const availableQuizzes = quizzes.filter(quiz => !form.quiz_ids.includes(quiz.id))
+  const otherPaths = allPaths.filter(other => other.id !== path?.id)
+
+  const update = <K extends keyof LearningPathInput>(field: K, value: LearningPathInput[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }))
+  }
+
+  const moveQuiz = (index: number, offset: number) => {
+    const next = [...form.quiz_ids]
+    const [quizId] = next.splice(index, 1)
+    next.splice(index + offset, 0, quizId)
+    update('quiz_ids', next)
+  }
+
+  const togglePrerequisite = (pathId: string) => {
+    update('prerequisites', form.prerequisites.includes(pathId)
+      ? form.prerequisites.filter(id => id !== pathId)
+      : [...form.prerequisites, pathId])
+  }
+
+  const handleSave = () => {
+    const payload = {
+      ...form,
+      tags: tagInput.split(',').map(tag => tag.trim()).filter(Boolean)
+    }
+    const options = {
+      onSuccess: () => {
+        toast.success(path ? 'Learning path saved' : 'Learning path created')
+        onDone()
+      },
+      onError: (error: Error) => toast.error(error.message)
+    }
+
+    if (path) {
+      updatePath.mutate({ id: path.id, ...payload }, options)
+    } else {
+      createPath.mutate(payload, options)
+    }
+  }
+
+  const inputClass = 'w-full h-9 rounded-md border border-gray-300 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-primary'
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-5">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">{path ? `Edit "${path.name}"` : 'New learning path'}</h2>
+        <button onClick={onDone} className="text-sm text-gray-500 hover:text-gray-700">Cancel</button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Details */}
+        <div className="space-y-3">
+          <label className="block text-sm">
+            <span className="font-medium text-gray-700">Name</span>
+            <input value={form.name} onChange={(e) => update('name', e.target.value)} placeholder="IELTS Band 6 → 7" className={inputClass} />
+          </label>
+          <label className="block text-sm">
+            <span className="font-medium text-gray-700">Description</span>
+            <textarea
+              value={form.description || ''}
+              onChange={(e) => update('description', e.target.value)}
+              rows={3}
+              className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">Difficulty</span>
+              <select
+                value={form.difficulty_level}
+                onChange={(e) => update('difficulty_level', e.target.value as LearningPathInput['difficulty_level'])}
+                className={inputClass}
+              >
+                {PATH_DIFFICULTIES.map(level => <option key={level} value={level} className="capitalize">{level}</option>)}
+              </select>
+            </label>
+            <label className="block text-sm">
+              <span className="font-medium text-gray-700">Estimated hours</span>
+              <input
+                type="number"
+                min={0}
+                step={0.5}
+                value={form.estimated_hours ?? ''}
+                onChange={(e) => update('estimated_hours', e.target.value === '' ? null : Number(e.target.value))}
+                className={inputClass}
+              />
+            </label>
+          </div>
+          <label className="block text-sm">
+            <span className="font-medium text-gray-700">Tags</span>
+            <input value={tagInput} onChange={(e) => setTagInput(e.target.value)} placeholder="ielts, band-7" className={inputClass} />
+          </label>
+
+          <div className="pt-3 border-t border-gray-200">
+            <h3 className="text-sm font-semibold text-gray-900">Completion criteria</h3>
+            <div className="grid grid-cols-2 gap-3 mt-2">
+              <label className="block text-sm">
+                <span className="text-gray-700">Score to unlock next quiz (%)</span>
+                <input
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={form.completion_criteria.min_score}
+                  onChange={(e) => update('completion_criteria', { ...form.completion_criteria, min_score: Number(e.target.value) })}
+                  className={inputClass}
+                />
+              </label>
+              <label className="block text-sm">
+                <span className="text-gray-700">Quizzes needed to complete (%)</span>
+                <input
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={Math.round(form.completion_criteria.pass_rate * 100)}
+                  onChange={(e) => update('completion_criteria', { ...form.completion_criteria, pass_rate: Number(e.target.value) / 100 })}
+                  className={inputClass}
+                />
+              </label>
+            </div>
+          </div>
+
+          {otherPaths.length > 0 && (
+            <div className="pt-3 border-t border-gray-200">
+              <h3 className="text-sm font-semibold text-gray-900">Prerequisite paths</h3>
+              <p className="text-xs text-gray-500 mt-1">Learners must complete these before the first quiz unlocks</p>
+              <div className="mt-2 space-y-1 max-h-40 overflow-y-auto">
+                {otherPaths.map(other => (
+                  <label key={other.id} className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={form.prerequisites.includes(other.id)}
+                      onChange={() => togglePrerequisite(other.id)}
+                    />
+                    {other.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <label className="flex items-center gap-2 pt-3 border-t border-gray-200 text-sm text-gray-700">
+            <input type="checkbox" checked={form.is_public} onChange={(e) => update('is_public', e.target.checked)} />
+            Published — visible to students, and its quiz locks apply
+          </label>
+        </div>
+
+        {/* Quizzes in order */}
+        <div className="space-y-3">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900">Quizzes</h3>
+            <p className="text-xs text-gray-500 mt-1">Students take them in this order</p>
+          </div>
+
+          {form.quiz_ids.length === 0 ? (
+            <div className="p-4 border border-dashed border-gray-300 rounded-md text-sm text-gray-500 text-center">
+              No quizzes yet
+            </div>
+          ) : (
+            <ol className="space-y-2">
+              {form.quiz_ids.map((quizId, index) => {
+                const quiz = quizzesById.get(quizId)
+                return (
+                  <li key={quizId} className="flex items-center gap-2 p-2 border border-gray-200 rounded-md">
+                    <span className="w-6 text-center text-xs font-semibold text-gray-500">{index + 1}</span>
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm font-medium text-gray-900 truncate">{quiz?.title || 'Unknown quiz'}</div>
+                      {quiz && !quiz.is_published && <div className="text-xs text-amber-600">Unpublished — skipped until published</div>}
+                    </div>
+                    <button
+                      onClick={() => moveQuiz(index, -1)}
+                      disabled={index === 0}
+                      className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                      aria-label="Move up"
+                    >
+                      <ArrowUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => moveQuiz(index, 1)}
+                      disabled={index === form.quiz_ids.length - 1}
+                      className="text-gray-400 hover:text-gray-700 disabled:opacity-30"
+                      aria-label="Move down"
+                    >
+                      <ArrowDown className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => update('quiz_ids', form.quiz_ids.filter(id => id !== quizId))}
+                      className="text-gray-400 hover:text-red-600"
+                      aria-label="Remove quiz"
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </li>
+                )
+              })}
+            </ol>
+          )}
+
+          <select
+            value=""
+            onChange={(e) => e.target.value && update('quiz_ids', [...form.quiz_ids, e.target.value])}
+            className={inputClass}
+          >
+            <option value="">Add a quiz...</option>
+            {availableQuizzes.map(quiz => (
+              <option key={quiz.id} value={quiz.id}>
+                {quiz.title}{quiz.is_published ? '' : ' (unpublished)'}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        className="px-4 py-2 rounded-md bg-primary text-white text-sm font-medium disabled:opacity-50"
+      >
+        {saving ? 'Saving...' : 'Save learning path'}
+      </button>
+    </div>
+  )
+}
+
+export default function AdminLearningPathsPage() {
+  const [editing, setEditing] = useState<AdminLearningPath | 'new' | null>(null)
+  const { data: paths = [], isLoading, error } = useAdminLearningPaths()
+  const deletePath = useDeleteLearningPath()
+
+  const handleDelete = (path: AdminLearningPath) => {
+    if (!confirm(`Delete "${path.name}"? Learner progress on this path is removed too.`)) return
+    deletePath.mutate(path.id, {
+      onSuccess: () => toast.success('Learning path deleted'),
+      onError: (err) => toast.error(err.message)
+    })
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 flex items-start justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Learning Paths</h1>
+            <p className="text-gray-600 mt-1">
+              Sequenced quiz tracks. Each quiz unlocks once the learner reaches the path&apos;s score on the quizzes before it.
+            </p>
+          </div>
+          {!editing && (
+            <button
+              onClick={() => setEditing('new')}
+              className="inline-flex items-center gap-1 px-3 py-2 rounded-md bg-primary text-white text-sm font-medium"
+            >
+              <Plus className="w-4 h-4" /> New path
+            </button>
+          )}
+        </div>
+
+        {editing && (
+          <PathEditor
+            key={editing === 'new' ? 'new' : editing.id}
+            path={editing === 'new' ? null : editing}
+            allPaths={paths}
+            onDone={() => setEditing(null)}
+          />
+        )}
+
+        {error ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6 text-red-700">
+            {error.message || 'Failed to load learning paths'}
+          </div>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : paths.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center">
+            <Route className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-1">No learning paths yet</h3>
+            <p className="text-gray-600">Create a path to give students a step-by-step curriculum.</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Path</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Quizzes</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Criteria</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Learners</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {paths.map(path => (
+                  <tr key={path.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3">
+                      <div className="font-medium text-gray-900 flex items-center gap-2">
+                        {path.name}
+                        {path.is_public && <Globe className="w-3 h-3 text-green-600" aria-label="Published" />}
+                      </div>
+                      <div className="text-xs text-gray-500 capitalize">{path.difficulty_level}</div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{path.quiz_ids.length}</td>
+                    <td className="px-4 py-3 text-sm text-gray-700">
+                      {path.completion_criteria.min_score}% · {Math.round(path.completion_criteria.pass_rate * 100)}% of quizzes
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700">
+                      {path.stats.learners} started · {path.stats.completed} completed
+                    </td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      <button onClick={() => setEditing(path)} className="text-sm text-primary hover:underline mr-3">
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(path)}
+                        className="text-gray-400 hover:text-red-600 align-middle"
+                        aria-label="Delete learning path"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,379 @@
+'use client'
+
+import { useState } from 'react'
+import { ClipboardCheck, Globe, Plus, RotateCcw, Trash2, X } from 'lucide-react'
+import { toast } from 'sonner'
+import {
+  useAdminMockTests,
+  useCreateMockTest,
+  useUpdateMockTest,
+  useDeleteMockTest,
+  useLearningPathQuizOptions
+} from '@/hooks/api'
+import { SKILL_LABELS } from '@/lib/mock-tests/rules'
+import type { MockTest, MockTestInput } from '@/lib/mock-tests/types'
+import {
+  IELTS_RAW_MAX,
+  IELTS_SKILLS,
+  getDefaultBandTable,
+  type BandTable,
+  type IeltsModule,
+  type IeltsSkill
+} from '@/lib/score-utils'
+
+const EMPTY_TEST: MockTestInput = {
+  title: '',
+  description: '',
+  module: 'academic',
+  sections: { listening: [], reading: [], writing: [], speaking: [] },
+  band_tables: {},
+  is_published: false
+}
+
+const MODULE_LABELS: Record<IeltsModule, string> = {
+  academic: 'Academic',
+  general_training: 'General Training'
+}
+
+const SECTION_HINTS: Record<IeltsSkill, string> = {
+  listening: 'Usually four recordings, 40 questions in all',
+  reading: 'Usually three passages, 40 questions in all',
+  writing: 'Essay questions; give Task 2 twice the points of Task 1',
+  speaking: 'Marked by a teacher; the band follows the section percentage'
+}
+
+function BandTableEditor({
+  skill,
+  table,
+  isCustom,
+  onChange,
+  onReset
+}: {
+  skill: 'listening' | 'reading'
+  table: BandTable
+  isCustom: boolean
+  onChange: (table: BandTable) => void
+  onReset: () => void
+}) {
+  const updateRow = (index: number, field: 'min_raw' | 'band', value: number) => {
+    onChange(table.map((row, i) => i === index ? { ...row, [field]: value } : row))
+  }
+
+  return (
+    <div>
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-gray-900">
+          {SKILL_LABELS[skill]} band table
+          <span className="ml-2 text-xs font-normal text-gray-500">{isCustom ? 'Custom' : 'Official'}</span>
+        </h4>
+        {isCustom && (
+          <button onClick={onReset} className="inline-flex items-center gap-1 text-xs text-gray-600 hover:text-gray-900">
+            <RotateCcw className="w-3 h-3" /> Use official table
+          </button>
+        )}
+      </div>
+      <p className="text-xs text-gray-500 mt-1">Lowest raw mark out of {IELTS_RAW_MAX} for each band</p>
+      <div className="grid grid-cols-3 sm:grid-cols-4 gap-2 mt-2">
+        {table.map((row, index) => (
+          <div key={index} className="flex items-center gap-1 text-xs">
+            <input
+              type="number"
+              min={0}
+              max={9}
+              step={0.5}
+              value={row.band}
+              onChange={(e) => updateRow(index, 'band', Number(e.target.value))}
+              className="w-14 h-8 rounded-md border border-gray-300 px-2"
+              aria-label="Band"
+            />
+            <span className="text-gray-400">≥</span>
+            <input
+              type="number"
+              min={0}
+              max={IELTS_RAW_MAX}
+              value={row.min_raw}
+              onChange={(e) => updateRow(index, 'min_raw', Number(e.target.value))}
+              className="w-14 h-8 rounded-md border border-gray-300 px-2"
+              aria-label="Lowest raw mark"
+            />
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+function MockTestEditor({ test, onDone }: { test: MockTest | null; onDone: () => void }) {
+  const [form, setForm] = useState<MockTestInput>(() => test
+    ? {
+        title: test.title,
+        description: test.description,
+        module: test.module,
+        sections: test.sections,
+        band_tables: test.band_tables,
+        is_published: test.is_published
+      }
+    : EMPTY_TEST)
+  const { data: quizzes = [] } = useLearningPathQuizOptions()
+  const createTest = useCreateMockTest()
+  const updateTest = useUpdateMockTest()
+  const saving = createTest.isPending || updateTest.isPending
+
+  const quizzesById = new Map(quizzes.map(quiz => [quiz.id, quiz]))
+  const usedQuizIds = new Set(Object.values(form.sections).flat())
+  const availableQuizzes = quizzes.filter(quiz => !usedQuizIds.has(quiz.id))
+
+  const update = <K extends keyof MockTestInput>(field: K, value: MockTestInput[K]) => {
+    setForm(prev => ({ ...prev, [field]: value }))
+  }
+
+  const setSectionQuizzes = (skill: IeltsSkill, quizIds: string[]) => {
+    update('sections', { ...form.sections, [skill]: quizIds })
+  }
+
+  const setBandTable = (skill: 'listening' | 'reading', table: BandTable | undefined) => {
+    const next = { ...form.band_tables }
+    if (table) next[skill] = table
+    else delete next[skill]
+    update('band_tables', next)
+  }
+
+  const handleSave = () => {
+    const options = {
+      onSuccess: () => {
+        toast.success(test ? 'Mock test saved' : 'Mock test created')
+        onDone()
+      },
+      onError: (error: Error) => toast.error(error.message)
+    }
+
+    if (test) {
+      updateTest.mutate({ id: test.id, ...form }, options)
+    } else {
+      createTest.mutate(form, options)
+    }
+  }
+
+  const inputClass = 'w-full h-9 rounded-md border border-gray-300 px-3 text-sm focus:outline-none focus:ring-2 focus:ring-primary'
+
+  return (
+    <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 space-y-5">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900">{test ? `Edit "${test.title}"` : 'New mock test'}</h2>
+        <button onClick={onDone} className="text-sm text-gray-500 hover:text-gray-700">Cancel</button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Details */}
+        <div className="space-y-3">
+          <label className="block text-sm">
+            <span className="font-medium text-gray-700">Title</span>
+            <input value={form.title} onChange={(e) => update('title', e.target.value)} placeholder="Academic Mock Test 1" className={inputClass} />
+          </label>
+          <label className="block text-sm">
+            <span className="font-medium text-gray-700">Description</span>
+            <textarea
+              value={form.description || ''}
+              onChange={(e) => update('description', e.target.value)}
+              rows={3}
+              className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+          </label>
+          <label className="block text-sm">
+            <span className="font-medium text-gray-700">Module</span>
+            <select
+              value={form.module}
+              onChange={(e) => update('module', e.target.value as IeltsModule)}
+              className={inputClass}
+            >
+              {Object.entries(MODULE_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+            </select>
+            <span className="text-xs text-gray-500">Picks the official Reading table</span>
+          </label>
+
+          <div className="pt-3 border-t border-gray-200 space-y-4">
+            {(['listening', 'reading'] as const).map(skill => (
+              <BandTableEditor
+                key={skill}
+                skill={skill}
+                table={form.band_tables[skill] || getDefaultBandTable(skill, form.module)}
+                isCustom={Boolean(form.band_tables[skill])}
+                onChange={(table) => setBandTable(skill, table)}
+                onReset={() => setBandTable(skill, undefined)}
+              />
+            ))}
+          </div>
+
+          <label className="flex items-center gap-2 pt-3 border-t border-gray-200 text-sm text-gray-700">
+            <input type="checkbox" checked={form.is_published} onChange={(e) => update('is_published', e.target.checked)} />
+            Published — visible to students
+          </label>
+        </div>
+
+        {/* Sections */}
+        <div className="space-y-4">
+          {IELTS_SKILLS.map(skill => (
+            <div key={skill} className="space-y-2">
+              <div>
+                <h3 className="text-sm font-semibold text-gray-900">{SKILL_LABELS[skill]}</h3>
+                <p className="text-xs text-gray-500">{SECTION_HINTS[skill]}</p>
+              </div>
+
+              {form.sections[skill].length > 0 && (
+                <ol className="space-y-1">
+                  {form.sections[skill].map(quizId => {
+                    const quiz = quizzesById.get(quizId)
+                    return (
+                      <li key={quizId} className="flex items-center gap-2 p-2 border border-gray-200 rounded-md">
+                        <div className="flex-1 min-w-0">
+                          <div className="text-sm text-gray-900 truncate">{quiz?.title || 'Unknown quiz'}</div>
+                          {quiz && !quiz.is_published && <div className="text-xs text-amber-600">Unpublished — left out until published</div>}
+                        </div>
+                        <button
+                          onClick={() => setSectionQuizzes(skill, form.sections[skill].filter(id => id !== quizId))}
+                          className="text-gray-400 hover:text-red-600"
+                          aria-label="Remove quiz"
+                        >
+                          <X className="w-4 h-4" />
+                        </button>
+                      </li>
+                    )
+                  })}
+                </ol>
+              )}
+
+              <select
+                value=""
+                onChange={(e) => e.target.value && setSectionQuizzes(skill, [...form.sections[skill], e.target.value])}
+                className={inputClass}
+              >
+                <option value="">Add a {SKILL_LABELS[skill].toLowerCase()} quiz...</option>
+                {availableQuizzes.map(quiz => (
+                  <option key={quiz.id} value={quiz.id}>
+                    {quiz.title}{quiz.is_published ? '' : ' (unpublished)'}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <button
+        onClick={handleSave}
+        disabled={saving}
+        className="px-4 py-2 rounded-md bg-primary text-white text-sm font-medium disabled:opacity-50"
+      >
+        {saving ? 'Saving...' : 'Save mock test'}
+      </button>
+    </div>
+  )
+}
+
+export default function AdminMockTestsPage() {
+  const [editing, setEditing] = useState<MockTest | 'new' | null>(null)
+  const { data: tests = [], isLoading, error } = useAdminMockTests()
+  const deleteTest = useDeleteMockTest()
+
+  const handleDelete = (test: MockTest) => {
+    if (!confirm(`Delete "${test.title}"? Its quizzes and students' attempts are kept.`)) return
+    deleteTest.mutate(test.id, {
+      onSuccess: () => toast.success('Mock test deleted'),
+      onError: (err) => toast.error(err.message)
+    })
+  }
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6 flex items-start justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Mock Tests</h1>
+            <p className="text-gray-600 mt-1">
+              Full IELTS tests built from quizzes. Students get a band for each section and an overall band.
+            </p>
+          </div>
+          {!editing && (
+            <button
+              onClick={() => setEditing('new')}
+              className="inline-flex items-center gap-1 px-3 py-2 rounded-md bg-primary text-white text-sm font-medium"
+            >
+              <Plus className="w-4 h-4" /> New mock test
+            </button>
+          )}
+        </div>
+
+        {editing && (
+          <MockTestEditor
+            key={editing === 'new' ? 'new' : editing.id}
+            test={editing === 'new' ? null : editing}
+            onDone={() => setEditing(null)}
+          />
+        )}
+
+        {error ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6 text-red-700">
+            {error.message || 'Failed to load mock tests'}
+          </div>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : tests.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center">
+            <ClipboardCheck className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-1">No mock tests yet</h3>
+            <p className="text-gray-600">Group Listening, Reading, Writing and Speaking quizzes into a full test.</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Mock test</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Sections</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Band tables</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {tests.map(test => (
+                  <tr key={test.id} className="hover:bg-gray-50">
+                    <td className="px-4 py-3">
+                      <div className="font-medium text-gray-900 flex items-center gap-2">
+                        {test.title}
+                        {test.is_published && <Globe className="w-3 h-3 text-green-600" aria-label="Published" />}
+                      </div>
+                      <div className="text-xs text-gray-500">{MODULE_LABELS[test.module]}</div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700">
+                      {IELTS_SKILLS.map(skill => `${SKILL_LABELS[skill]} ${test.sections[skill].length}`).join(' · ')}
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700">
+                      {test.band_tables.listening || test.band_tables.reading
+                        ? `Custom (${[test.band_tables.listening && 'Listening', test.band_tables.reading && 'Reading'].filter(Boolean).join(', ')})`
+                        : 'Official'}
+                    </td>
+                    <td className="px-4 py-3 text-right whitespace-nowrap">
+                      <button onClick={() => setEditing(test)} className="text-sm text-primary hover:underline mr-3">
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(test)}
+                        className="text-gray-400 hover:text-red-600 align-middle"
+                        aria-label="Delete mock test"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,234 @@
+'use client'
+
+import { useState } from 'react'
+import { Library, Search, Tag, Trash2, X, Plus } from 'lucide-react'
+import { toast } from 'sonner'
+import { formatDate } from '@/lib/date-utils'
+import { useQuestionBank, useUpdateQuestionTemplate, useDeleteQuestionTemplate } from '@/hooks/api'
+import { TEMPLATE_DIFFICULTIES, TEMPLATE_QUESTION_TYPES, type QuestionTemplate } from '@/lib/question-bank/types'
+
+const DIFFICULTY_STYLES: Record<string, string> = {
+  beginner: 'bg-green-100 text-green-800',
+  intermediate: 'bg-yellow-100 text-yellow-800',
+  advanced: 'bg-red-100 text-red-800'
+}
+
+function formatType(type: string) {
+  return type.replace(/_/g, ' ')
+}
+
+function TagEditor({ template }: { template: QuestionTemplate }) {
+  const [newTag, setNewTag] = useState('')
+  const updateTemplate = useUpdateQuestionTemplate()
+
+  const saveTags = (tags: string[]) => {
+    updateTemplate.mutate(
+      { id: template.id, tags },
+      { onError: (error) => toast.error(error.message) }
+    )
+  }
+
+  const addTag = () => {
+    const tag = newTag.trim().toLowerCase()
+    if (!tag || template.tags.includes(tag)) {
+      setNewTag('')
+      return
+    }
+    saveTags([...template.tags, tag])
+    setNewTag('')
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {template.tags.map(tag => (
+        <span key={tag} className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs bg-gray-100 text-gray-700">
+          {tag}
+          <button
+            onClick={() => saveTags(template.tags.filter(t => t !== tag))}
+            className="text-gray-400 hover:text-gray-700"
+            aria-label={`Remove tag ${tag}`}
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+      <input
+        value={newTag}
+        onChange={(e) => setNewTag(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault()
+            addTag()
+          }
+        }}
+        placeholder="Add tag"
+        className="w-20 h-6 px-1 text-xs border-b border-transparent focus:border-gray-300 focus:outline-none"
+      />
+      {newTag && (
+        <button onClick={addTag} className="text-primary" aria-label="Add tag">
+          <Plus className="w-3 h-3" />
+        </button>
+      )}
+    </div>
+  )
+}
+
+export default function AdminQuestionBankPage() {
+  const [search, setSearch] = useState('')
+  const [category, setCategory] = useState('')
+  const [difficulty, setDifficulty] = useState('')
+  const [type, setType] = useState('')
+  const [tag, setTag] = useState('')
+  const [page, setPage] = useState(1)
+
+  const { data, isLoading: loading, error } = useQuestionBank({ search, category, difficulty, type, tag, page })
+  const deleteTemplate = useDeleteQuestionTemplate()
+
+  const items = data?.items || []
+  const pagination = data?.pagination
+
+  const withReset = <T,>(setter: (value: T) => void) => (value: T) => {
+    setter(value)
+    setPage(1)
+  }
+
+  const handleDelete = (template: QuestionTemplate) => {
+    if (!confirm(`Remove "${template.title}" from the question bank? Past attempts keep their copy.`)) return
+    deleteTemplate.mutate(template.id, {
+      onSuccess: () => toast.success('Question removed from bank'),
+      onError: (err) => toast.error(err.message)
+    })
+  }
+
+  const selectClass = 'h-9 rounded-md border border-gray-300 px-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary'
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-6">
+          <h1 className="text-2xl font-bold text-gray-900">Question Bank</h1>
+          <p className="text-gray-600 mt-1">
+            Reusable questions that quizzes draw from. Add questions from the quiz editor, then tag them here.
+          </p>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 flex flex-wrap items-center gap-3">
+          <div className="relative flex-1 min-w-[200px]">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              value={search}
+              onChange={(e) => withReset(setSearch)(e.target.value)}
+              placeholder="Search questions..."
+              className="w-full h-9 rounded-md border border-gray-300 pl-9 pr-3 text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+          </div>
+          <select value={category} onChange={(e) => withReset(setCategory)(e.target.value)} className={selectClass}>
+            <option value="">All categories</option>
+            {data?.facets.categories.map(c => <option key={c} value={c}>{c}</option>)}
+          </select>
+          <select value={difficulty} onChange={(e) => withReset(setDifficulty)(e.target.value)} className={selectClass}>
+            <option value="">All difficulties</option>
+            {TEMPLATE_DIFFICULTIES.map(d => <option key={d} value={d} className="capitalize">{d}</option>)}
+          </select>
+          <select value={type} onChange={(e) => withReset(setType)(e.target.value)} className={selectClass}>
+            <option value="">All types</option>
+            {TEMPLATE_QUESTION_TYPES.map(t => <option key={t} value={t}>{formatType(t)}</option>)}
+          </select>
+          <select value={tag} onChange={(e) => withReset(setTag)(e.target.value)} className={selectClass}>
+            <option value="">All tags</option>
+            {data?.facets.tags.map(t => <option key={t} value={t}>{t}</option>)}
+          </select>
+        </div>
+
+        {error ? (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6 text-red-700">
+            {error.message || 'Failed to load question bank'}
+          </div>
+        ) : loading ? (
+          <div className="flex items-center justify-center h-64">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : items.length === 0 ? (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-12 text-center">
+            <Library className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-1">No questions found</h3>
+            <p className="text-gray-600">
+              Use &quot;Save to bank&quot; on a question in the quiz editor to add it here.
+            </p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-sm border border-gray-200 overflow-hidden">
+            <table className="min-w-full divide-y divide-gray-200">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Question</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Category</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Difficulty</th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">
+                    <Tag className="w-3 h-3 inline mr-1" />Tags
+                  </th>
+                  <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Updated</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {items.map(template => (
+                  <tr key={template.id} className="hover:bg-gray-50 align-top">
+                    <td className="px-4 py-3 max-w-md">
+                      <div className="font-medium text-gray-900 line-clamp-2">{template.question_data?.question || template.title}</div>
+                      <div className="text-xs text-gray-500 mt-1 capitalize">{formatType(template.question_type)}</div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-700">{template.category}</td>
+                    <td className="px-4 py-3">
+                      <span className={`inline-flex px-2.5 py-0.5 rounded-full text-xs font-medium capitalize ${DIFFICULTY_STYLES[template.difficulty] || ''}`}>
+                        {template.difficulty}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3">
+                      <TagEditor template={template} />
+                    </td>
+                    <td className="px-4 py-3 text-sm text-gray-500 whitespace-nowrap">{formatDate(template.updated_at)}</td>
+                    <td className="px-4 py-3 text-right">
+                      <button
+                        onClick={() => handleDelete(template)}
+                        className="text-gray-400 hover:text-red-600"
+                        aria-label="Remove from bank"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {pagination && pagination.totalPages > 1 && (
+              <div className="flex items-center justify-between px-4 py-3 border-t border-gray-200 text-sm text-gray-600">
+                <span>{pagination.total} questions</span>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => setPage(p => Math.max(1, p - 1))}
+                    disabled={page <= 1}
+                    className="px-3 py-1 rounded border border-gray-300 disabled:opacity-50"
+                  >
+                    Previous
+                  </button>
+                  <span>Page {pagination.page} of {pagination.totalPages}</span>
+                  <button
+                    onClick={() => setPage(p => Math.min(pagination.totalPages, p + 1))}
+                    disabled={page >= pagination.totalPages}
+                    className="px-3 py-1 rounded border border-gray-300 disabled:opacity-50"
+                  >
+                    Next
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
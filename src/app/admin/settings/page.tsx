@@ -1,6 +1,7 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { 
   Settings, 
@@ -15,55 +16,38 @@ import {
   Upload,
   Download
 } from 'lucide-react'
+import { EmailSettingsPanel } from '@/components/admin/EmailSettingsPanel'
+import { usePlatformSettings, useUpdatePlatformSettings } from '@/hooks/api/usePlatformSettings'
+import { DEFAULT_PLATFORM_SETTINGS, type PlatformSettings } from '@/lib/platform-settings'
+
+const PASSWORD_RULES = [
+  { key: 'password_require_uppercase', label: 'An uppercase letter' },
+  { key: 'password_require_lowercase', label: 'A lowercase letter' },
+  { key: 'password_require_number', label: 'A number' },
+  { key: 'password_require_special', label: 'A special character' }
+] as const
 
 export default function AdminSettings() {
-  const [settings, setSettings] = useState({
-    site: {
-      name: 'Acadex Learning Platform',
-      description: 'Modern platform for quiz practice and online course enrollment',
-      logo: '',
-      favicon: '',
-      timezone: 'UTC',
-      language: 'en'
-    },
-    email: {
-      smtp_host: '',
-      smtp_port: '587',
-      smtp_username: '',
-      smtp_password: '',
-      from_email: 'noreply@acadex.com',
-      from_name: 'Acadex'
-    },
-    notifications: {
-      new_user_registration: true,
-      course_enrollment: true,
-      quiz_completion: true,
-      system_updates: true,
-      security_alerts: true
-    },
-    security: {
-      require_email_verification: true,
-      password_min_length: 8,
-      session_timeout: 24,
-      two_factor_auth: false,
-      login_attempts: 5
-    },
-    database: {
-      backup_frequency: 'daily',
-      retention_days: 30,
-      auto_backup: true
+  const { data: savedSettings, isLoading } = usePlatformSettings()
+  const updateSettings = useUpdatePlatformSettings()
+  const [settings, setSettings] = useState<PlatformSettings>(DEFAULT_PLATFORM_SETTINGS)
+
+  useEffect(() => {
+    if (savedSettings) {
+      const { email: _email, ...platformSettings } = savedSettings
+      setSettings(platformSettings)
     }
-  })
+  }, [savedSettings])
 
   const [activeTab, setActiveTab] = useState('general')
-  const [saving, setSaving] = useState(false)
-
   const handleSave = async () => {
-    setSaving(true)
-    // Simulate API call
-    await new Promise(resolve => setTimeout(resolve, 1000))
-    setSaving(false)
-    // In real app, make API call to save settings
+    try {
+      // Email settings are saved from their own panel
+      await updateSettings.mutateAsync(settings)
+      toast.success('Settings saved')
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save settings')
+    }
   }
 
   const tabs = [
@@ -85,32 +69,15 @@ export default function AdminSettings() {
           </div>
           <button
             onClick={handleSave}
-            disabled={saving}
+            disabled={isLoading || updateSettings.isPending || activeTab === 'email'}
             className="bg-primary text-black px-6 py-3 rounded-lg flex items-center gap-2 transition-colors font-bold shadow-md hover:shadow-lg"
           >
             <Save className="h-4 w-4" />
-            {saving ? 'Saving...' : 'Save Changes'}
+            {updateSettings.isPending ? 'Saving...' : 'Save Changes'}
           </button>
         </div>
       </div>
 
-      {/* Warning Banner */}
-      <div className="mb-6 bg-yellow-50 border-l-4 border-yellow-400 p-4 rounded-r-lg">
-        <div className="flex items-start">
-          <div className="flex-shrink-0">
-            <svg className="h-5 w-5 text-yellow-400" viewBox="0 0 20 20" fill="currentColor">
-              <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
-            </svg>
-          </div>
-          <div className="ml-3">
-            <h3 className="text-sm font-bold text-yellow-800">Development Mode</h3>
-            <p className="text-sm text-yellow-700 mt-1">
-              Settings changes are currently not persisted. This is a UI preview only. Backend integration required for production use.
-            </p>
-          </div>
-        </div>
-      </div>
-
       <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
         {/* Settings Navigation */}
         <div className="lg:col-span-1">
@@ -237,107 +204,7 @@ export default function AdminSettings() {
             </div>
           )}
 
-          {activeTab === 'email' && (
-            <Card>
-              <CardHeader>
-                <CardTitle>Email Configuration</CardTitle>
-                <CardDescription>Configure SMTP settings for sending emails</CardDescription>
-              </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div>
-                    <label className="block text-sm font-medium text-gray-900 mb-2">
-                      SMTP Host
-                    </label>
-                    <input
-                      type="text"
-                      value={settings.email.smtp_host}
-                      onChange={(e) => setSettings({
-                        ...settings,
-                        email: { ...settings.email, smtp_host: e.target.value }
-                      })}
-                      placeholder="smtp.gmail.com"
-                      className="w-full px-3 py-2 border-2 border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900 placeholder:text-gray-600"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-900 mb-2">
-                      SMTP Port
-                    </label>
-                    <input
-                      type="text"
-                      value={settings.email.smtp_port}
-                      onChange={(e) => setSettings({
-                        ...settings,
-                        email: { ...settings.email, smtp_port: e.target.value }
-                      })}
-                      className="w-full px-3 py-2 border-2 border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900 placeholder:text-gray-600"
-                    />
-                  </div>
-                </div>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div>
-                    <label className="block text-sm font-medium text-gray-900 mb-2">
-                      Username
-                    </label>
-                    <input
-                      type="text"
-                      value={settings.email.smtp_username}
-                      onChange={(e) => setSettings({
-                        ...settings,
-                        email: { ...settings.email, smtp_username: e.target.value }
-                      })}
-                      className="w-full px-3 py-2 border-2 border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900 placeholder:text-gray-600"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-900 mb-2">
-                      Password
-                    </label>
-                    <input
-                      type="password"
-                      value={settings.email.smtp_password}
-                      onChange={(e) => setSettings({
-                        ...settings,
-                        email: { ...settings.email, smtp_password: e.target.value }
-                      })}
-                      className="w-full px-3 py-2 border-2 border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900 placeholder:text-gray-600"
-                    />
-                  </div>
-                </div>
-                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  <div>
-                    <label className="block text-sm font-medium text-gray-900 mb-2">
-                      From Email
-                    </label>
-                    <input
-                      type="email"
-                      value={settings.email.from_email}
-                      onChange={(e) => setSettings({
-                        ...settings,
-                        email: { ...settings.email, from_email: e.target.value }
-                      })}
-                      className="w-full px-3 py-2 border-2 border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900 placeholder:text-gray-600"
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-900 mb-2">
-                      From Name
-                    </label>
-                    <input
-                      type="text"
-                      value={settings.email.from_name}
-                      onChange={(e) => setSettings({
-                        ...settings,
-                        email: { ...settings.email, from_name: e.target.value }
-                      })}
-                      className="w-full px-3 py-2 border-2 border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900 placeholder:text-gray-600"
-                    />
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-          )}
+          {activeTab === 'email' && <EmailSettingsPanel />}
 
           {activeTab === 'notifications' && (
             <Card>
@@ -416,6 +283,29 @@ export default function AdminSettings() {
                   />
                 </div>
 
+                <div>
+                  <span className="block text-sm font-medium text-gray-900 mb-2">
+                    Passwords Must Contain
+                  </span>
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {PASSWORD_RULES.map(rule => (
+                      <label key={rule.key} className="flex items-center gap-2 text-sm text-gray-900">
+                        <input
+                          type="checkbox"
+                          checked={settings.security[rule.key]}
+                          onChange={(e) => setSettings({
+                            ...settings,
+                            security: { ...settings.security, [rule.key]: e.target.checked }
+                          })}
+                          className="h-4 w-4 rounded border-gray-300"
+                        />
+                        {rule.label}
+                      </label>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">Applies to sign-up, password resets and users created by admins</p>
+                </div>
+
                 <div>
                   <label className="block text-sm font-medium text-gray-900 mb-2">
                     Session Timeout (hours)
@@ -431,6 +321,7 @@ export default function AdminSettings() {
                     })}
                     className="w-full px-3 py-2 border-2 border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900 placeholder:text-gray-600"
                   />
+                  <p className="text-xs text-gray-500 mt-1">Users must sign in again this long after their last sign-in</p>
                 </div>
 
                 <div>
@@ -448,6 +339,7 @@ export default function AdminSettings() {
                     })}
                     className="w-full px-3 py-2 border-2 border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900 placeholder:text-gray-600"
                   />
+                  <p className="text-xs text-gray-500 mt-1">Failed sign-ins before an email is locked out for 15 minutes. Counted per server instance; also set Supabase Auth rate limits</p>
                 </div>
               </CardContent>
             </Card>
@@ -468,7 +360,7 @@ export default function AdminSettings() {
                     value={settings.database.backup_frequency}
                     onChange={(e) => setSettings({
                       ...settings,
-                      database: { ...settings.database, backup_frequency: e.target.value }
+                      database: { ...settings.database, backup_frequency: e.target.value as PlatformSettings['database']['backup_frequency'] }
                     })}
                     className="w-full px-3 py-2 border-2 border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900"
                   >
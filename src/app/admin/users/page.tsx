@@ -8,6 +8,7 @@ import type { User } from '@/lib/supabase'
 import AddUserModal from '@/components/admin/AddUserModal'
 import EditUserModal from '@/components/admin/EditUserModal'
 import DeleteUserModal from '@/components/admin/DeleteUserModal'
+import InviteInstructorModal from '@/components/admin/InviteInstructorModal'
 import Icon from '@/components/ui/Icon'
 import { formatDate } from '@/lib/date-utils'
 import { useAdminModals } from '@/hooks/admin/useAdminModals'
@@ -15,6 +16,7 @@ import { useAdminModals } from '@/hooks/admin/useAdminModals'
 export default function AdminUsers() {
   const [searchTerm, setSearchTerm] = useState('')
   const [roleFilter, setRoleFilter] = useState<string>('all')
+  const [showInviteModal, setShowInviteModal] = useState(false)
   
   // 🔄 CONSOLIDATED: All modal states managed by single hook (was 3 separate useState calls)
   const { modalStates, modalData, actions } = useAdminModals<User>()
@@ -111,13 +113,22 @@ export default function AdminUsers() {
               <h1 className="text-3xl font-bold text-foreground">User Management</h1>
               <p className="text-muted-foreground mt-1">Manage and monitor all platform users</p>
             </div>
-            <button 
-              onClick={() => actions.openModal('showAddModal')}
-              className="btn btn-default flex items-center gap-2"
-            >
-              <Icon name="add" size={16} color="white" />
-              Add User
-            </button>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => setShowInviteModal(true)}
+                className="btn btn-outline flex items-center gap-2"
+              >
+                <Icon name="briefcase" size={16} />
+                Invite Instructor
+              </button>
+              <button 
+                onClick={() => actions.openModal('showAddModal')}
+                className="btn btn-default flex items-center gap-2"
+              >
+                <Icon name="add" size={16} color="white" />
+                Add User
+              </button>
+            </div>
           </div>
         </div>
 
@@ -341,6 +352,12 @@ export default function AdminUsers() {
         }}
       />
 
+      {/* Invite Instructor Modal */}
+      <InviteInstructorModal
+        isOpen={showInviteModal}
+        onClose={() => setShowInviteModal(false)}
+      />
+
       {/* Edit User Modal */}
       <EditUserModal 
         isOpen={showEditUser}
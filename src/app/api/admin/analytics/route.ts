@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withInstructorAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { isUnrestricted, loadContentScope, scopeQuery } from '@/lib/content-scope'
+
+// GET - Headline analytics for the analytics dashboard
+// Admins get the whole platform; instructors get their own courses and quizzes,
+// with "users" meaning the students enrolled in those courses
+export const GET = withInstructorAuth(async (request: NextRequest, user) => {
+  try {
+    const supabase = createServiceClient()
+    const scope = await loadContentScope(supabase, user)
+    const monthStart = new Date()
+    monthStart.setDate(1)
+    monthStart.setHours(0, 0, 0, 0)
+
+    const [coursesResult, quizzesResult, enrollmentsResult] = await Promise.all([
+      scopeQuery(
+        supabase.from('courses').select('price').eq('is_published', true),
+        'id',
+        scope.courseIds
+      ),
+      scopeQuery(
+        supabase.from('quizzes').select('id', { count: 'exact', head: true }).eq('is_published', true),
+        'id',
+        scope.quizIds
+      ),
+      scopeQuery(
+        supabase.from('enrollments').select('id', { count: 'exact', head: true }),
+        'course_id',
+        scope.courseIds
+      )
+    ])
+
+    if (coursesResult.error) throw new Error(`Failed to fetch courses: ${coursesResult.error.message}`)
+    if (quizzesResult.error) throw new Error(`Failed to fetch quizzes: ${quizzesResult.error.message}`)
+    if (enrollmentsResult.error) throw new Error(`Failed to fetch enrollments: ${enrollmentsResult.error.message}`)
+
+    let totalUsers = 0
+    let newUsersThisMonth = 0
+
+    if (isUnrestricted(scope)) {
+      const [usersResult, newUsersResult] = await Promise.all([
+        supabase.from('users').select('id', { count: 'exact', head: true }),
+        supabase.from('users').select('id', { count: 'exact', head: true }).gte('created_at', monthStart.toISOString())
+      ])
+
+      if (usersResult.error) throw new Error(`Failed to fetch users: ${usersResult.error.message}`)
+      totalUsers = usersResult.count || 0
+      newUsersThisMonth = newUsersResult.count || 0
+    } else {
+      const { data: students, error: studentsError } = await scopeQuery(
+        supabase.from('enrollments').select('user_id, enrolled_at'),
+        'course_id',
+        scope.courseIds
+      )
+
+      if (studentsError) throw new Error(`Failed to fetch students: ${studentsError.message}`)
+
+      // A student counts as new this month if their first enrollment with this instructor is
+      const firstEnrolled = new Map<string, string>()
+      ;(students || []).forEach((row: { user_id: string; enrolled_at: string | null }) => {
+        const enrolledAt = row.enrolled_at || ''
+        const current = firstEnrolled.get(row.user_id)
+        if (current === undefined || enrolledAt < current) {
+          firstEnrolled.set(row.user_id, enrolledAt)
+        }
+      })
+
+      totalUsers = firstEnrolled.size
+      newUsersThisMonth = Array.from(firstEnrolled.values())
+        .filter(enrolledAt => enrolledAt && new Date(enrolledAt) >= monthStart)
+        .length
+    }
+
+    const courses = coursesResult.data || []
+
+    return NextResponse.json({
+      success: true,
+      scope: isUnrestricted(scope) ? 'platform' : 'instructor',
+      analytics: {
+        totalUsers,
+        totalCourses: courses.length,
+        totalQuizzes: quizzesResult.count || 0,
+        courseEnrollments: enrollmentsResult.count || 0,
+        totalRevenue: courses.reduce((sum: number, course: { price: number }) => sum + (Number(course.price) || 0), 0),
+        newUsersThisMonth
+      }
+    })
+  } catch (error: any) {
+    logger.error('Analytics API error', { error: error.message, userId: user.id })
+    return NextResponse.json({ error: 'Failed to load analytics' }, { status: 500 })
+  }
+})
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { listAdminActivity, parseAdminActivityFilters } from '@/lib/admin-activity'
+
+// GET - One page of the admin audit log, newest first
+// Query: admin_user_id, resource_type, resource_id, action, from, to (ISO dates), page, limit
+// Also returns the staff accounts that can appear as actors, for the filter.
+export const GET = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const parsed = parseAdminActivityFilters(new URL(request.url).searchParams)
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 })
+    }
+
+    const supabase = createServiceClient()
+    const { entries, total } = await listAdminActivity(supabase, parsed.filters)
+
+    const { data: actors, error: actorsError } = await supabase
+      .from('users')
+      .select('id, name, email, role')
+      .in('role', ['admin', 'instructor'])
+      .order('name')
+
+    if (actorsError) {
+      throw new Error(`Failed to load actors: ${actorsError.message}`)
+    }
+
+    const { page = 1, limit = 50 } = parsed.filters
+    return NextResponse.json({
+      success: true,
+      entries,
+      actors: actors || [],
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    })
+  } catch (error: any) {
+    logger.error('Audit log API error', { error: error.message, userId: user.id })
+    return NextResponse.json({ error: 'Failed to load audit log' }, { status: 500 })
+  }
+})
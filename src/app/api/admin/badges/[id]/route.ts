@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { BADGE_FIELDS, pickBadgeFields, toBadge, validateBadge } from '@/lib/badges'
+
+// PUT - Update a badge
+// Badges already awarded are kept when the criteria change
+export const PUT = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const url = new URL(request.url)
+    const badgeId = url.pathname.split('/').pop()
+
+    if (!badgeId) {
+      return NextResponse.json({ error: 'Badge ID is required' }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const validationError = validateBadge(body, true)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const supabase = createServiceClient()
+    const { data, error } = await supabase
+      .from('badges')
+      .update({ ...pickBadgeFields(body), updated_at: new Date().toISOString() })
+      .eq('id', badgeId)
+      .select(BADGE_FIELDS)
+      .maybeSingle()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: 'A badge with this name already exists' }, { status: 409 })
+      }
+      logger.error('Failed to update badge', { error: error.message, badgeId, userId: user.id })
+      return NextResponse.json({ error: 'Failed to update badge' }, { status: 500 })
+    }
+    if (!data) {
+      return NextResponse.json({ error: 'Badge not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, badge: toBadge(data) })
+  } catch (error: any) {
+    logger.error('Badge update API error', { error: error.message })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+// DELETE - Remove a badge and every award of it
+export const DELETE = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const url = new URL(request.url)
+    const badgeId = url.pathname.split('/').pop()
+
+    if (!badgeId) {
+      return NextResponse.json({ error: 'Badge ID is required' }, { status: 400 })
+    }
+
+    const supabase = createServiceClient()
+    const { data, error } = await supabase
+      .from('badges')
+      .delete()
+      .eq('id', badgeId)
+      .select('id')
+
+    if (error) {
+      logger.error('Failed to delete badge', { error: error.message, badgeId, userId: user.id })
+      return NextResponse.json({ error: 'Failed to delete badge' }, { status: 500 })
+    }
+    if (!data || data.length === 0) {
+      return NextResponse.json({ error: 'Badge not found' }, { status: 404 })
+    }
+
+    logger.info('Badge deleted', { badgeId, userId: user.id })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    logger.error('Badge delete API error', { error: error.message })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
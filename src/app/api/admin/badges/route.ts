@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { BADGE_FIELDS, pickBadgeFields, toBadge, validateBadge } from '@/lib/badges'
+
+// GET - All badges with how many learners have earned each
+export const GET = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const supabase = createServiceClient()
+    const [badgesResult, awardsResult] = await Promise.all([
+      supabase
+        .from('badges')
+        .select(BADGE_FIELDS)
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('user_badges')
+        .select('badge_id')
+    ])
+
+    if (badgesResult.error) {
+      logger.error('Failed to fetch badges', { error: badgesResult.error.message, userId: user.id })
+      return NextResponse.json({ error: 'Failed to fetch badges' }, { status: 500 })
+    }
+
+    const awarded = new Map<string, number>()
+    ;(awardsResult.data || []).forEach((row: { badge_id: string }) => {
+      awarded.set(row.badge_id, (awarded.get(row.badge_id) || 0) + 1)
+    })
+
+    return NextResponse.json({
+      success: true,
+      badges: (badgesResult.data || []).map((row: any) => ({
+        ...toBadge(row),
+        awarded_count: awarded.get(row.id) || 0
+      }))
+    })
+  } catch (error: any) {
+    logger.error('Badges API error', { error: error.message })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+// POST - Create a badge
+// Learners who already meet its criteria receive it on their next matching event
+export const POST = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const body = await request.json()
+    const validationError = validateBadge(body)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const supabase = createServiceClient()
+    const { data, error } = await supabase
+      .from('badges')
+      .insert(pickBadgeFields(body))
+      .select(BADGE_FIELDS)
+      .single()
+
+    if (error) {
+      if (error.code === '23505') {
+        return NextResponse.json({ error: 'A badge with this name already exists' }, { status: 409 })
+      }
+      logger.error('Failed to create badge', { error: error.message, userId: user.id })
+      return NextResponse.json({ error: 'Failed to create badge' }, { status: 500 })
+    }
+
+    logger.info('Badge created', { badgeId: data.id, criteria: data.criteria?.type, userId: user.id })
+
+    return NextResponse.json({ success: true, badge: { ...toBadge(data), awarded_count: 0 } }, { status: 201 })
+  } catch (error: any) {
+    logger.error('Badge create API error', { error: error.message })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
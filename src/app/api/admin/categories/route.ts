@@ -1,13 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { withAdminAuth, withServiceRole } from '@/lib/api-auth'
+import { withAdminAuth, withInstructorAuth, withServiceRole, withAuthoringServiceRole } from '@/lib/api-auth'
 import { logger } from '@/lib/logger'
 
 // GET /api/admin/categories - Fetch all categories (SECURE)
-export const GET = withAdminAuth(async (request: NextRequest, user) => {
+// Instructors read them too, for the course and quiz forms
+export const GET = withInstructorAuth(async (request: NextRequest, user) => {
   try {
     logger.info('Admin categories fetch requested', { adminUserId: user.id })
 
-    const categories = await withServiceRole(user, async (serviceClient) => {
+    const categories = await withAuthoringServiceRole(user, async (serviceClient) => {
       const { data, error } = await serviceClient
         .from('categories')
         .select('*')
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import {
+  clearDefaultCertificateTemplate,
+  pickCertificateTemplateFields,
+  validateCertificateTemplate
+} from '@/lib/certificates'
+
+// PUT - Edit a template; issued certificates re-render with the new design
+export const PUT = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const url = new URL(request.url)
+    const templateId = url.pathname.split('/').pop()
+
+    if (!templateId) {
+      return NextResponse.json({ error: 'Template ID is required' }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const validationError = validateCertificateTemplate(body, true)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const fields = pickCertificateTemplateFields(body)
+    const supabase = createServiceClient()
+
+    if (fields.is_default) {
+      await clearDefaultCertificateTemplate(supabase, templateId)
+    }
+
+    const { data, error } = await supabase
+      .from('certificate_templates')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', templateId)
+      .select()
+      .single()
+
+    if (error || !data) {
+      logger.error('Failed to update certificate template', { error: error?.message, templateId, userId: user.id })
+      return NextResponse.json({ error: 'Failed to update template' }, { status: error?.code === 'PGRST116' ? 404 : 500 })
+    }
+
+    return NextResponse.json({ success: true, template: data })
+  } catch (error: any) {
+    logger.error('Certificate template update API error', { error: error.message })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+// DELETE - Remove a template
+// Courses, quizzes and certificates using it fall back to the default template
+export const DELETE = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const url = new URL(request.url)
+    const templateId = url.pathname.split('/').pop()
+
+    if (!templateId) {
+      return NextResponse.json({ error: 'Template ID is required' }, { status: 400 })
+    }
+
+    const supabase = createServiceClient()
+    const { data: template } = await supabase
+      .from('certificate_templates')
+      .select('id, is_default')
+      .eq('id', templateId)
+      .maybeSingle()
+
+    if (!template) {
+      return NextResponse.json({ error: 'Template not found' }, { status: 404 })
+    }
+    if (template.is_default) {
+      return NextResponse.json({ error: 'Make another template the default before deleting this one' }, { status: 400 })
+    }
+
+    const { error } = await supabase
+      .from('certificate_templates')
+      .delete()
+      .eq('id', templateId)
+
+    if (error) {
+      logger.error('Failed to delete certificate template', { error: error.message, templateId, userId: user.id })
+      return NextResponse.json({ error: 'Failed to delete template' }, { status: 500 })
+    }
+
+    logger.info('Certificate template deleted', { templateId, userId: user.id })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    logger.error('Certificate template delete API error', { error: error.message })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
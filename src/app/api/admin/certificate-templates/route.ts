@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth, withInstructorAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import {
+  clearDefaultCertificateTemplate,
+  pickCertificateTemplateFields,
+  validateCertificateTemplate
+} from '@/lib/certificates'
+
+// GET - All certificate templates, default first
+// Instructors read them too, to pick one for their courses and quizzes
+export const GET = withInstructorAuth(async (request: NextRequest, user) => {
+  try {
+    const supabase = createServiceClient()
+    const { data, error } = await supabase
+      .from('certificate_templates')
+      .select('*')
+      .order('is_default', { ascending: false })
+      .order('name')
+
+    if (error) {
+      logger.error('Failed to fetch certificate templates', { error: error.message, userId: user.id })
+      return NextResponse.json({ error: 'Failed to fetch certificate templates' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, templates: data || [] })
+  } catch (error: any) {
+    logger.error('Certificate templates API error', { error: error.message })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+// POST - Create a template
+export const POST = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const body = await request.json()
+    const validationError = validateCertificateTemplate(body)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const fields = pickCertificateTemplateFields(body)
+    const supabase = createServiceClient()
+
+    if (fields.is_default) {
+      await clearDefaultCertificateTemplate(supabase)
+    }
+
+    const { data, error } = await supabase
+      .from('certificate_templates')
+      .insert(fields)
+      .select()
+      .single()
+
+    if (error) {
+      logger.error('Failed to create certificate template', { error: error.message, userId: user.id })
+      return NextResponse.json({ error: 'Failed to create template' }, { status: 500 })
+    }
+
+    logger.info('Certificate template created', { templateId: data.id, userId: user.id })
+
+    return NextResponse.json({ success: true, template: data }, { status: 201 })
+  } catch (error: any) {
+    logger.error('Certificate template create API error', { error: error.message })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
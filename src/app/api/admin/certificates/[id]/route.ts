@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+
+// PATCH - Revoke or restore a certificate
+// Body: { is_valid: boolean }
+export const PATCH = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const url = new URL(request.url)
+    const certificateId = url.pathname.split('/').pop()
+
+    if (!certificateId) {
+      return NextResponse.json({ error: 'Certificate ID is required' }, { status: 400 })
+    }
+
+    const { is_valid } = await request.json()
+    if (typeof is_valid !== 'boolean') {
+      return NextResponse.json({ error: 'is_valid must be true or false' }, { status: 400 })
+    }
+
+    const supabase = createServiceClient()
+    const { data, error } = await supabase
+      .from('certificates')
+      .update({
+        is_valid,
+        revoked_at: is_valid ? null : new Date().toISOString()
+      })
+      .eq('id', certificateId)
+      .select('id, certificate_number, is_valid, revoked_at')
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Failed to update certificate', { error: error.message, certificateId, userId: user.id })
+      return NextResponse.json({ error: 'Failed to update certificate' }, { status: 500 })
+    }
+    if (!data) {
+      return NextResponse.json({ error: 'Certificate not found' }, { status: 404 })
+    }
+
+    logger.info(is_valid ? 'Certificate restored' : 'Certificate revoked', {
+      certificateId,
+      code: data.certificate_number,
+      userId: user.id
+    })
+
+    return NextResponse.json({ success: true, certificate: data })
+  } catch (error: any) {
+    logger.error('Certificate update API error', { error: error.message })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
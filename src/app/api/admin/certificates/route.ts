@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+
+// GET - Issued certificates, newest first
+// ?search= (code, recipient or title), ?page=, ?limit=
+export const GET = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const page = Math.max(parseInt(searchParams.get('page') || '1', 10) || 1, 1)
+    const limit = Math.min(parseInt(searchParams.get('limit') || '25', 10) || 25, 100)
+    const search = searchParams.get('search')?.trim().replace(/[,()]/g, '') || ''
+
+    const supabase = createServiceClient()
+    const from = (page - 1) * limit
+
+    let query = supabase
+      .from('certificates')
+      .select('id, user_id, course_id, quiz_id, certificate_number, recipient_name, title, score, issued_at, is_valid, revoked_at', { count: 'exact' })
+      .order('issued_at', { ascending: false })
+      .range(from, from + limit - 1)
+
+    if (search) {
+      query = query.or(`certificate_number.ilike.%${search}%,recipient_name.ilike.%${search}%,title.ilike.%${search}%`)
+    }
+
+    const { data, error, count } = await query
+
+    if (error) {
+      logger.error('Failed to fetch certificates', { error: error.message, userId: user.id })
+      return NextResponse.json({ error: 'Failed to fetch certificates' }, { status: 500 })
+    }
+
+    const total = count || 0
+
+    return NextResponse.json({
+      success: true,
+      certificates: data || [],
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    })
+  } catch (error: any) {
+    logger.error('Certificates API error', { error: error.message })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
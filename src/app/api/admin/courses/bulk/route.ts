@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { withAdminAuth, withServiceRole } from '@/lib/api-auth'
+import { withInstructorAudit, withAuthoringServiceRole } from '@/lib/api-auth'
 import { logger } from '@/lib/logger'
+import { assertCourseAccess, ContentAccessError, loadContentScope } from '@/lib/content-scope'
 
-export const POST = withAdminAuth(async (request: NextRequest, user) => {
+// Instructors can only act on their own courses; one course outside their scope fails the whole request
+export const POST = withInstructorAudit(async (request: NextRequest, user, audit) => {
   try {
     const body = await request.json()
     const { action, itemIds, params } = body
@@ -21,10 +23,22 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
       params
     })
 
-    return withServiceRole(user, async (supabase) => {
+    return withAuthoringServiceRole(user, async (supabase) => {
+
+    assertCourseAccess(await loadContentScope(supabase, user), itemIds)
 
     let result
     let affectedRows = 0
+    const before = action === 'export' ? new Map() : await audit.snapshots(supabase, 'course', itemIds)
+    const recordUpdates = (rows: any[] | null, auditAction: string) => {
+      audit.record((rows || []).map((row: any) => ({
+        action: auditAction,
+        resource_type: 'course' as const,
+        resource_id: row.id,
+        before: before.get(row.id),
+        after: row
+      })))
+    }
 
     switch (action) {
       case 'publish':
@@ -32,9 +46,10 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
           .from('courses')
           .update({ is_published: true })
           .in('id', itemIds)
-          .select('id')
+          .select('*')
 
         if (publishError) throw publishError
+        recordUpdates(publishData, 'course.bulk_published')
         affectedRows = publishData?.length || 0
         result = { action: 'published', count: affectedRows }
         break
@@ -44,9 +59,10 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
           .from('courses')
           .update({ is_published: false })
           .in('id', itemIds)
-          .select('id')
+          .select('*')
 
         if (unpublishError) throw unpublishError
+        recordUpdates(unpublishData, 'course.bulk_unpublished')
         affectedRows = unpublishData?.length || 0
         result = { action: 'unpublished', count: affectedRows }
         break
@@ -73,6 +89,12 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
 
           if (deleteError) throw deleteError
           affectedRows = deleteData?.length || 0
+          audit.record((deleteData || []).map((row: any) => ({
+            action: 'course.bulk_deleted',
+            resource_type: 'course' as const,
+            resource_id: row.id,
+            before: before.get(row.id)
+          })))
         }
 
         result = {
@@ -106,9 +128,15 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
           const { data: duplicateData, error: duplicateError } = await supabase
             .from('courses')
             .insert(duplicatedCourses)
-            .select('id')
+            .select('*')
 
           if (duplicateError) throw duplicateError
+          audit.record((duplicateData || []).map((row: any) => ({
+            action: 'course.bulk_duplicated',
+            resource_type: 'course' as const,
+            resource_id: row.id,
+            after: row
+          })))
           affectedRows = duplicateData?.length || 0
         }
 
@@ -125,9 +153,10 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
             archived_at: new Date().toISOString()
           })
           .in('id', itemIds)
-          .select('id')
+          .select('*')
 
         if (archiveError) throw archiveError
+        recordUpdates(archiveData, 'course.bulk_archived')
         affectedRows = archiveData?.length || 0
         result = { action: 'archived', count: affectedRows }
         break
@@ -174,7 +203,7 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
       result
     })
     
-    }) // Close withServiceRole callback
+    }) // Close withAuthoringServiceRole callback
 
   } catch (error: any) {
     logger.error('Bulk course operation failed', { error: error?.message || 'Unknown error' })
@@ -184,7 +213,7 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
         success: false, 
         message: error instanceof Error ? error.message : 'Unknown error occurred during bulk operation' 
       },
-      { status: 500 }
+      { status: error instanceof ContentAccessError ? 404 : 500 }
     )
   }
 })
\ No newline at end of file
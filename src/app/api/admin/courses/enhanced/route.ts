@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createAuthenticatedClient, verifyAdminAuth as verifyAdminAuthHelper } from '@/lib/api-auth'
+import { createAuthenticatedClient, verifyAdminAuth as verifyAdminAuthHelper, withAdminAudit } from '@/lib/api-auth'
 import { logger } from '@/lib/logger'
 
 // Helper function to verify admin authentication
@@ -110,13 +110,10 @@ export async function GET(request: NextRequest) {
   }
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withAdminAudit(async (request: NextRequest, user, audit) => {
   try {
     const supabase = await createAuthenticatedClient(request)
     
-    // Verify admin authentication and get user
-    const user = await verifyAdminAuthHelper(supabase)
-    
     const body = await request.json()
     const { courseData, action } = body
     // SECURITY: No longer trusting userId from client - using authenticated user.id
@@ -124,10 +121,17 @@ export async function POST(request: NextRequest) {
     if (action === 'create') {
       // Create new course with full structure
       const courseResult = await createEnhancedCourse(courseData, supabase, user.id)
+      if (courseResult.success) {
+        audit.record({ action: 'course.created', resource_type: 'course', resource_id: courseResult.data.id, after: courseResult.data })
+      }
       return NextResponse.json(courseResult)
     } else if (action === 'update') {
       // Update existing course with full structure
+      const before = await audit.snapshot(supabase, 'course', courseData.id)
       const courseResult = await updateEnhancedCourse(courseData, supabase, user.id)
+      if (courseResult.success && courseResult.data) {
+        audit.record({ action: 'course.updated', resource_type: 'course', resource_id: courseData.id, before, after: courseResult.data })
+      }
       return NextResponse.json(courseResult)
     } else {
       return NextResponse.json({ 
@@ -138,26 +142,12 @@ export async function POST(request: NextRequest) {
   } catch (error: any) {
     logger.error('Error processing request', { error: error?.message || 'Unknown error' })
     
-    if (error.message === 'Authentication required') {
-      return NextResponse.json({ 
-        success: false, 
-        error: 'Please log in to access this resource' 
-      }, { status: 401 })
-    }
-    
-    if (error.message === 'Admin access required') {
-      return NextResponse.json({ 
-        success: false, 
-        error: 'Admin privileges required for this operation' 
-      }, { status: 403 })
-    }
-    
     return NextResponse.json({ 
       success: false, 
       error: 'Internal server error' 
     }, { status: 500 })
   }
-}
+})
 
 async function createEnhancedCourse(courseData: any, supabase: any, authenticatedUserId: string) {
   try {
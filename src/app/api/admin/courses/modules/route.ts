@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { withAdminAuth, createServiceClient } from '@/lib/api-auth'
+import { withInstructorAudit, createServiceClient } from '@/lib/api-auth'
 import { logger } from '@/lib/logger'
+import { canAccessCourse, canAccessQuiz, loadContentScope } from '@/lib/content-scope'
 
-export const POST = withAdminAuth(async (request: NextRequest) => {
+export const POST = withInstructorAudit(async (request: NextRequest, user, audit) => {
   try {
     const supabase = createServiceClient()
 
@@ -17,8 +18,33 @@ export const POST = withAdminAuth(async (request: NextRequest) => {
       return NextResponse.json({ error: 'Modules array is required' }, { status: 400 })
     }
 
+    // Instructors edit only their own courses and can only link their own quizzes to lessons
+    const scope = await loadContentScope(supabase, user)
+    if (!canAccessCourse(scope, courseId)) {
+      return NextResponse.json({ error: 'Course not found' }, { status: 404 })
+    }
+
+    const linkedQuizIds: string[] = modules.flatMap((module: any) =>
+      Array.isArray(module.lessons) ? module.lessons.map((lesson: any) => lesson.quiz_id).filter(Boolean) : []
+    )
+    if (linkedQuizIds.some(quizId => !canAccessQuiz(scope, quizId))) {
+      return NextResponse.json({ error: 'Quiz not found' }, { status: 404 })
+    }
+
     logger.info(`Course modules API: Saving ${modules.length} modules for course ${courseId}`)
 
+    // Outline of the curriculum being replaced, for the audit log
+    const { data: existingModules, error: existingError } = await supabase
+      .from('course_modules')
+      .select('title, course_lessons (id)')
+      .eq('course_id', courseId)
+      .order('order_index')
+
+    if (existingError) {
+      logger.error('Course modules API: Error reading existing modules:', existingError)
+      throw existingError
+    }
+
     // Delete existing modules and lessons (cascade will handle lessons)
     const { error: deleteError } = await supabase
       .from('course_modules')
@@ -79,6 +105,20 @@ export const POST = withAdminAuth(async (request: NextRequest) => {
       }
     }
 
+    audit.record({
+      action: 'course.curriculum_replaced',
+      resource_type: 'course',
+      resource_id: courseId,
+      before: {
+        modules: (existingModules || []).map((module: any) => module.title),
+        lesson_count: (existingModules || []).reduce((sum: number, module: any) => sum + (module.course_lessons?.length || 0), 0)
+      },
+      after: {
+        modules: modules.map((module: any) => module.title),
+        lesson_count: modules.reduce((sum: number, module: any) => sum + (Array.isArray(module.lessons) ? module.lessons.length : 0), 0)
+      }
+    })
+
     logger.info(`Course modules API: Successfully saved all modules and lessons for course ${courseId}`)
 
     return NextResponse.json({
@@ -1,9 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { withAdminAuth, withServiceRole } from '@/lib/api-auth'
+import { withInstructorAuth, withInstructorAudit, withAuthoringServiceRole } from '@/lib/api-auth'
 import { logger } from '@/lib/logger'
+import {
+  assertCourseAccess,
+  ContentAccessError,
+  loadContentScope,
+  scopeCourseFields,
+  scopeQuery
+} from '@/lib/content-scope'
 
 // POST - Create or update course (SECURE)
-export const POST = withAdminAuth(async (request: NextRequest, user) => {
+// Instructors create courses as their own and can only update those
+export const POST = withInstructorAudit(async (request: NextRequest, user, audit) => {
   try {
     const body = await request.json()
     const { courseData, action } = body
@@ -14,14 +22,16 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
       courseTitle: courseData?.title 
     })
 
-    const result = await withServiceRole(user, async (serviceClient) => {
+    const result = await withAuthoringServiceRole(user, async (serviceClient) => {
+      const scope = await loadContentScope(serviceClient, user)
+
       if (action === 'create') {
         const { data, error } = await serviceClient
           .from('courses')
-          .insert({
+          .insert(scopeCourseFields(scope, {
             ...courseData,
             instructor_id: courseData.instructor_id || user.id
-          })
+          }, true))
           .select()
           .single()
 
@@ -29,14 +39,17 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
           throw new Error(`Course creation failed: ${error.message}`)
         }
 
+        audit.record({ action: 'course.created', resource_type: 'course', resource_id: data.id, after: data })
         return data
       } else if (action === 'update') {
         const { id, ...updates } = courseData
+        assertCourseAccess(scope, id)
+        const before = await audit.snapshot(serviceClient, 'course', id)
         
         const { data, error } = await serviceClient
           .from('courses')
           .update({
-            ...updates,
+            ...scopeCourseFields(scope, updates, false),
             updated_at: new Date().toISOString()
           })
           .eq('id', id)
@@ -47,6 +60,7 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
           throw new Error(`Course update failed: ${error.message}`)
         }
 
+        audit.record({ action: 'course.updated', resource_type: 'course', resource_id: id, before, after: data })
         return data
       } else {
         throw new Error('Invalid action specified')
@@ -72,13 +86,13 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
     
     return NextResponse.json(
       { error: error.message },
-      { status: 500 }
+      { status: error instanceof ContentAccessError ? 404 : 500 }
     )
   }
 })
 
-// GET - Fetch all courses for admin (SECURE)
-export const GET = withAdminAuth(async (request: NextRequest, user) => {
+// GET - Fetch all courses for admin, or an instructor's own courses (SECURE)
+export const GET = withInstructorAuth(async (request: NextRequest, user) => {
   try {
     logger.info('Admin courses fetch requested', { adminUserId: user.id })
 
@@ -88,10 +102,15 @@ export const GET = withAdminAuth(async (request: NextRequest, user) => {
     const search = searchParams.get('search') || ''
     const category = searchParams.get('category') || 'all'
 
-    const { data, pagination } = await withServiceRole(user, async (serviceClient) => {
-      let query = serviceClient
-        .from('courses')
-        .select('*', { count: 'exact' })
+    const { data, pagination } = await withAuthoringServiceRole(user, async (serviceClient) => {
+      const scope = await loadContentScope(serviceClient, user)
+      let query = scopeQuery(
+        serviceClient
+          .from('courses')
+          .select('*', { count: 'exact' }),
+        'id',
+        scope.courseIds
+      )
 
       // Server-side filtering
       if (search) {
@@ -150,7 +169,7 @@ export const GET = withAdminAuth(async (request: NextRequest, user) => {
 })
 
 // PUT - Update course (SECURE)
-export const PUT = withAdminAuth(async (request: NextRequest, user) => {
+export const PUT = withInstructorAudit(async (request: NextRequest, user, audit) => {
   try {
     const body = await request.json()
     const { id, ...updateData } = body
@@ -173,6 +192,8 @@ export const PUT = withAdminAuth(async (request: NextRequest, user) => {
       'duration',
       'image_url',
       'is_published',
+      'certificate_enabled',
+      'certificate_template_id',
       'updated_at'
     ]
 
@@ -200,6 +221,8 @@ export const PUT = withAdminAuth(async (request: NextRequest, user) => {
         errors.push('Price must be a positive number')
       } else if (key === 'is_published' && typeof value !== 'boolean') {
         errors.push('is_published must be a boolean')
+      } else if (key === 'certificate_enabled' && typeof value !== 'boolean') {
+        errors.push('certificate_enabled must be a boolean')
       } else {
         validatedData[key] = value
       }
@@ -221,10 +244,14 @@ export const PUT = withAdminAuth(async (request: NextRequest, user) => {
       fields: Object.keys(validatedData)
     })
 
-    const updatedCourse = await withServiceRole(user, async (serviceClient) => {
+    const updatedCourse = await withAuthoringServiceRole(user, async (serviceClient) => {
+      const scope = await loadContentScope(serviceClient, user)
+      assertCourseAccess(scope, id)
+
+      const before = await audit.snapshot(serviceClient, 'course', id)
       const { data, error } = await serviceClient
         .from('courses')
-        .update(validatedData)
+        .update(scopeCourseFields(scope, validatedData, false))
         .eq('id', id)
         .select('*')
         .single()
@@ -233,6 +260,7 @@ export const PUT = withAdminAuth(async (request: NextRequest, user) => {
         throw new Error(`Course update failed: ${error.message}`)
       }
 
+      audit.record({ action: 'course.updated', resource_type: 'course', resource_id: id, before, after: data })
       return data
     })
 
@@ -254,7 +282,7 @@ export const PUT = withAdminAuth(async (request: NextRequest, user) => {
     
     return NextResponse.json(
       { error: error.message },
-      { status: 500 }
+      { status: error instanceof ContentAccessError ? 404 : 500 }
     )
   }
 })
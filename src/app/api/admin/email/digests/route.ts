@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { queueWeeklyDigests } from '@/lib/email'
+
+// POST - Queue last week's progress digest for learners who turned weekly updates on
+// Each learner gets one digest per week however often this runs.
+export const POST = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const queued = await queueWeeklyDigests(createServiceClient())
+    logger.info('Weekly digests requested', { userId: user.id, queued })
+
+    return NextResponse.json({ success: true, queued })
+  } catch (error: any) {
+    logger.error('Weekly digest API error', { error: error.message, userId: user.id })
+    return NextResponse.json({ error: 'Failed to queue weekly digests' }, { status: 500 })
+  }
+})
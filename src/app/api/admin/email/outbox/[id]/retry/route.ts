@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { processOutbox, retryOutboxEmail } from '@/lib/email'
+
+// POST - Requeue a failed email with a fresh set of attempts and try it now
+export const POST = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const pathParts = new URL(request.url).pathname.split('/')
+    const id = pathParts[pathParts.length - 2]
+
+    const supabase = createServiceClient()
+    const email = await retryOutboxEmail(supabase, id)
+    if (!email) {
+      return NextResponse.json({ error: 'Failed email not found' }, { status: 404 })
+    }
+
+    const result = await processOutbox(supabase, { limit: 20 })
+    logger.info('Email retried', { outboxId: id, userId: user.id, ...result })
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error: any) {
+    logger.error('Email retry API error', { error: error.message, userId: user.id })
+    return NextResponse.json({ error: 'Failed to retry email' }, { status: 500 })
+  }
+})
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { processOutbox } from '@/lib/email'
+
+// POST - Send every email that is due now, including retries whose backoff has passed
+export const POST = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const result = await processOutbox(createServiceClient(), { limit: 100 })
+    logger.info('Email outbox processed', { userId: user.id, ...result })
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error: any) {
+    logger.error('Email outbox API error', { error: error.message, userId: user.id })
+    return NextResponse.json({ error: 'Failed to process email outbox' }, { status: 500 })
+  }
+})
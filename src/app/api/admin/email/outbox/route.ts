@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { OUTBOX_STATUSES, listOutbox, type OutboxStatus } from '@/lib/email'
+
+// GET - Recent outbox emails and a count per status
+// Query: ?status=failed
+export const GET = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const status = new URL(request.url).searchParams.get('status')
+    if (status && !OUTBOX_STATUSES.includes(status as OutboxStatus)) {
+      return NextResponse.json({ error: `Status must be one of: ${OUTBOX_STATUSES.join(', ')}` }, { status: 400 })
+    }
+
+    const outbox = await listOutbox(createServiceClient(), { status: (status as OutboxStatus) || undefined })
+
+    return NextResponse.json({ success: true, ...outbox })
+  } catch (error: any) {
+    logger.error('Email outbox API error', { error: error.message, userId: user.id })
+    return NextResponse.json({ error: 'Failed to load email outbox' }, { status: 500 })
+  }
+})
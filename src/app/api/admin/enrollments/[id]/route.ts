@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { withAdminAuth, createServiceClient } from '@/lib/api-auth'
+import { withAdminAudit, createServiceClient } from '@/lib/api-auth'
 
-export const DELETE = withAdminAuth(async (
+export const DELETE = withAdminAudit(async (
   request: NextRequest,
-  user: any
+  user,
+  audit
 ) => {
   try {
     const supabase = createServiceClient()
@@ -53,6 +54,8 @@ export const DELETE = withAdminAuth(async (
       }, { status: 500 })
     }
 
+    audit.record({ action: 'enrollment.deleted', resource_type: 'enrollment', resource_id: enrollmentId, before: enrollment })
+
     console.log('Enrollment deleted successfully')
     return NextResponse.json({ 
       success: true, 
@@ -65,9 +68,10 @@ export const DELETE = withAdminAuth(async (
   }
 })
 
-export const PATCH = withAdminAuth(async (
+export const PATCH = withAdminAudit(async (
   request: NextRequest,
-  user: any
+  user,
+  audit
 ) => {
   try {
     const supabase = createServiceClient()
@@ -100,6 +104,8 @@ export const PATCH = withAdminAuth(async (
       return NextResponse.json({ error: 'No valid fields to update' }, { status: 400 })
     }
 
+    const before = await audit.snapshot(supabase, 'enrollment', enrollmentId)
+
     // Update the enrollment
     const { data: enrollment, error } = await supabase
       .from('enrollments')
@@ -113,6 +119,8 @@ export const PATCH = withAdminAuth(async (
       return NextResponse.json({ error: 'Failed to update enrollment' }, { status: 500 })
     }
 
+    audit.record({ action: 'enrollment.updated', resource_type: 'enrollment', resource_id: enrollmentId, before, after: enrollment })
+
     return NextResponse.json({ 
       enrollment,
       updatedBy: { id: user.id, email: user.email, role: user.role }
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { withAdminAuth, createServiceClient } from '@/lib/api-auth'
+import { withAdminAuth, withAdminAudit, createServiceClient } from '@/lib/api-auth'
 import { logger } from '@/lib/logger'
+import { evaluateBadges } from '@/lib/badges'
+import { notifyEnrollment } from '@/lib/notifications'
+import { sendEnrollmentEmail } from '@/lib/email'
 
 // GET - Fetch all enrollments with details
 export const GET = withAdminAuth(async (request: NextRequest) => {
@@ -119,7 +122,7 @@ export const GET = withAdminAuth(async (request: NextRequest) => {
 })
 
 // POST - Create new enrollment (manual enrollment by admin)
-export const POST = withAdminAuth(async (request: NextRequest, user) => {
+export const POST = withAdminAudit(async (request: NextRequest, user, audit) => {
   try {
     const { user_id, course_id } = await request.json()
 
@@ -164,6 +167,26 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
       throw new Error(`Database error: ${error.message}`)
     }
 
+    audit.record({ action: 'enrollment.created', resource_type: 'enrollment', resource_id: enrollment.id, after: enrollment })
+
+    try {
+      await notifyEnrollment(serviceClient, user_id, course_id)
+    } catch (notifyError: any) {
+      logger.warn('Failed to send enrollment notification', { error: notifyError.message, targetUserId: user_id })
+    }
+
+    try {
+      await sendEnrollmentEmail(serviceClient, user_id, course_id)
+    } catch (emailError: any) {
+      logger.warn('Failed to queue enrollment email', { error: emailError.message, targetUserId: user_id })
+    }
+
+    try {
+      await evaluateBadges(serviceClient, user_id, { type: 'enrollment', course_id })
+    } catch (badgeError: any) {
+      logger.warn('Failed to evaluate badges', { error: badgeError.message, targetUserId: user_id })
+    }
+
     logger.info('Admin enrollment creation completed', { 
       adminUserId: user.id, 
       enrollmentId: enrollment.id 
@@ -184,7 +207,7 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
 })
 
 // DELETE - Remove enrollment (unenroll student)  
-export const DELETE = withAdminAuth(async (request: NextRequest, user) => {
+export const DELETE = withAdminAudit(async (request: NextRequest, user, audit) => {
   try {
     const { searchParams } = new URL(request.url)
     const enrollmentId = searchParams.get('id')
@@ -199,6 +222,7 @@ export const DELETE = withAdminAuth(async (request: NextRequest, user) => {
     })
 
     const serviceClient = createServiceClient()
+    const before = await audit.snapshot(serviceClient, 'enrollment', enrollmentId)
 
     const { error } = await serviceClient
       .from('enrollments')
@@ -209,6 +233,10 @@ export const DELETE = withAdminAuth(async (request: NextRequest, user) => {
       throw new Error(`Database error: ${error.message}`)
     }
 
+    if (before) {
+      audit.record({ action: 'enrollment.deleted', resource_type: 'enrollment', resource_id: enrollmentId, before })
+    }
+
     logger.info('Admin enrollment deletion completed', { 
       adminUserId: user.id, 
       enrollmentId 
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withInstructorAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { gradeEssayAnswer, GradingValidationError } from '@/lib/grading/manual-grading'
+import { markSuggestionReviewed } from '@/lib/grading/ai-pregrade'
+import { issueQuizCertificate } from '@/lib/certificates'
+import { syncLearningPathProgress } from '@/lib/learning-paths'
+import { evaluateBadges } from '@/lib/badges'
+import { refreshUserStats } from '@/lib/user-stats'
+import { notifyEssayGraded } from '@/lib/notifications'
+import { sendQuizResultEmail } from '@/lib/email'
+import { canAccessQuiz, isUnrestricted, loadContentScope } from '@/lib/content-scope'
+
+// POST - Grade one essay or speaking answer against its rubric and re-finalize the attempt
+// Body: { rubric_scores?: { [criterionId]: number }, points_awarded?: number, feedback?: string }
+export const POST = withInstructorAuth(async (request: NextRequest, user) => {
+  try {
+    // Extract question attempt ID from URL path
+    const url = new URL(request.url)
+    const pathParts = url.pathname.split('/')
+    const questionAttemptId = pathParts[pathParts.length - 1]
+
+    if (!questionAttemptId) {
+      return NextResponse.json({ error: 'Answer ID is required' }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const { rubric_scores, points_awarded, feedback } = body || {}
+
+    if (rubric_scores !== undefined && (typeof rubric_scores !== 'object' || Array.isArray(rubric_scores))) {
+      return NextResponse.json({ error: 'rubric_scores must be an object' }, { status: 400 })
+    }
+    if (feedback !== undefined && feedback !== null && (typeof feedback !== 'string' || feedback.length > 5000)) {
+      return NextResponse.json({ error: 'Feedback must be text under 5000 characters' }, { status: 400 })
+    }
+
+    const supabase = createServiceClient()
+
+    // Instructors grade only answers to their own quizzes
+    const scope = await loadContentScope(supabase, user)
+    if (!isUnrestricted(scope)) {
+      const { data: answer } = await supabase
+        .from('question_attempts')
+        .select('quiz_attempts!inner ( quiz_id )')
+        .eq('id', questionAttemptId)
+        .maybeSingle()
+
+      const parent = answer?.quiz_attempts as unknown as { quiz_id: string } | null | undefined
+      if (!canAccessQuiz(scope, parent?.quiz_id)) {
+        return NextResponse.json({ error: 'Answer not found' }, { status: 404 })
+      }
+    }
+
+    const { questionAttempt, attempt } = await gradeEssayAnswer(supabase, questionAttemptId, user.id, {
+      rubricScores: rubric_scores,
+      pointsAwarded: typeof points_awarded === 'number' ? points_awarded : undefined,
+      feedback: feedback || undefined
+    })
+
+    // An AI draft for this answer records whether the grader kept or edited it
+    try {
+      await markSuggestionReviewed(supabase, questionAttemptId, {
+        rubric_scores: questionAttempt.metadata?.rubric_scores || {},
+        points_earned: Number(questionAttempt.points_earned),
+        feedback: questionAttempt.grader_feedback
+      })
+    } catch (suggestionError: any) {
+      logger.warn('Failed to update grading suggestion', { error: suggestionError.message, questionAttemptId })
+    }
+
+    // The last essay graded can turn a pending attempt into a pass
+    if (attempt.passed) {
+      try {
+        await issueQuizCertificate(supabase, attempt.id)
+      } catch (certificateError: any) {
+        logger.warn('Failed to issue quiz certificate', { error: certificateError.message, quizAttemptId: attempt.id })
+      }
+    }
+
+    // Graded attempts count toward learning path progress
+    try {
+      await syncLearningPathProgress(supabase, attempt.user_id, attempt.quiz_id)
+    } catch (pathError: any) {
+      logger.warn('Failed to update learning path progress', { error: pathError.message, quizAttemptId: attempt.id })
+    }
+
+    if (attempt.grading_status === 'graded') {
+      try {
+        await evaluateBadges(supabase, attempt.user_id, { type: 'quiz_graded', quiz_id: attempt.quiz_id })
+      } catch (badgeError: any) {
+        logger.warn('Failed to evaluate badges', { error: badgeError.message, quizAttemptId: attempt.id })
+      }
+
+      try {
+        await refreshUserStats(supabase, attempt.user_id)
+      } catch (statsError: any) {
+        logger.warn('Failed to refresh user stats', { error: statsError.message, quizAttemptId: attempt.id })
+      }
+
+      try {
+        await notifyEssayGraded(supabase, attempt)
+      } catch (notifyError: any) {
+        logger.warn('Failed to send graded essay notification', { error: notifyError.message, quizAttemptId: attempt.id })
+      }
+
+      try {
+        await sendQuizResultEmail(supabase, attempt)
+      } catch (emailError: any) {
+        logger.warn('Failed to queue quiz result email', { error: emailError.message, quizAttemptId: attempt.id })
+      }
+    }
+
+    logger.info('Essay graded', {
+      questionAttemptId,
+      quizAttemptId: attempt.id,
+      graderId: user.id,
+      pointsEarned: questionAttempt.points_earned,
+      attemptStatus: attempt.grading_status
+    })
+
+    return NextResponse.json({
+      success: true,
+      answer: {
+        id: questionAttempt.id,
+        points_earned: questionAttempt.points_earned,
+        grading_status: questionAttempt.grading_status
+      },
+      attempt
+    })
+  } catch (error: any) {
+    if (error instanceof GradingValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error.message === 'Answer not found' || error.message === 'Quiz attempt not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+
+    logger.error('Essay grading API error', { error: error.message })
+    return NextResponse.json({ error: 'Failed to save grade' }, { status: 500 })
+  }
+})
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withInstructorAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { GradingValidationError } from '@/lib/grading/manual-grading'
+import { draftEssayGrade, getPregradeProvider, isPregradeProvider, isStubProviderAllowed, PregradeError } from '@/lib/grading/ai-pregrade'
+import { canAccessQuiz, isUnrestricted, loadContentScope } from '@/lib/content-scope'
+
+// POST - Draft rubric scores and inline feedback for one essay answer with AI
+// Body: { provider?: 'claude' | 'gemini' | 'stub' } (default AI_GRADING_PROVIDER, then claude)
+// stub is only accepted outside production or when AI_GRADING_PROVIDER=stub
+// The draft is stored as a suggestion only; the grader saves the grade through POST /api/admin/grading/[id]
+export const POST = withInstructorAuth(async (request: NextRequest, user) => {
+  try {
+    // Extract question attempt ID from URL path (/api/admin/grading/[id]/suggestion)
+    const url = new URL(request.url)
+    const pathParts = url.pathname.split('/')
+    const questionAttemptId = pathParts[pathParts.length - 2]
+
+    if (!questionAttemptId) {
+      return NextResponse.json({ error: 'Answer ID is required' }, { status: 400 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { provider } = body || {}
+
+    if (provider !== undefined && !isPregradeProvider(provider)) {
+      return NextResponse.json({ error: 'provider must be claude, gemini or stub' }, { status: 400 })
+    }
+    if (provider === 'stub' && !isStubProviderAllowed()) {
+      return NextResponse.json({ error: 'The offline stub provider is not available in production' }, { status: 400 })
+    }
+
+    const supabase = createServiceClient()
+
+    // Instructors draft grades only for answers to their own quizzes
+    const scope = await loadContentScope(supabase, user)
+    if (!isUnrestricted(scope)) {
+      const { data: answer } = await supabase
+        .from('question_attempts')
+        .select('quiz_attempts!inner ( quiz_id )')
+        .eq('id', questionAttemptId)
+        .maybeSingle()
+
+      const parent = answer?.quiz_attempts as unknown as { quiz_id: string } | null | undefined
+      if (!canAccessQuiz(scope, parent?.quiz_id)) {
+        return NextResponse.json({ error: 'Answer not found' }, { status: 404 })
+      }
+    }
+
+    const draftPromise = draftEssayGrade(supabase, questionAttemptId, getPregradeProvider(provider), user.id)
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new PregradeError('AI grading timed out after 60 seconds', 504)), 60000)
+    })
+
+    try {
+      const suggestion = await Promise.race([draftPromise, timeoutPromise])
+      return NextResponse.json({ success: true, suggestion })
+    } finally {
+      clearTimeout(timer)
+    }
+  } catch (error: any) {
+    if (error instanceof GradingValidationError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error.message === 'Answer not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+    if (error instanceof PregradeError) {
+      logger.warn('AI grading draft failed', { error: error.message, userId: user.id })
+      return NextResponse.json({ error: error.message }, { status: error.status })
+    }
+
+    logger.error('AI grading suggestion API error', { error: error.message })
+    return NextResponse.json({ error: 'Failed to draft a grade' }, { status: 500 })
+  }
+})
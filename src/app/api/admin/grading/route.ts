@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withInstructorAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { getRubricCriteria, MANUALLY_GRADED_TYPES } from '@/lib/grading/manual-grading'
+import { loadGradeSuggestions } from '@/lib/grading/ai-pregrade'
+import type { GradeSuggestion } from '@/lib/grading/suggestions'
+import { createRecordingUrls, getSpeakingAnswer, normalizeSpeakingSettings } from '@/lib/speaking'
+import { normalizeWritingSettings } from '@/lib/writing'
+import { loadContentScope, scopeQuery } from '@/lib/content-scope'
+
+// GET - Grading queue of essay and speaking answers
+// ?status=pending (default) | graded, ?quizId= to narrow to one quiz
+// Instructors only see answers to their own quizzes; items carry any AI draft grade as suggestion
+export const GET = withInstructorAuth(async (request: NextRequest, user) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status') === 'graded' ? 'graded' : 'pending'
+    const quizId = searchParams.get('quizId')
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10) || 50, 200)
+
+    const supabase = createServiceClient()
+
+    let query = supabase
+      .from('question_attempts')
+      .select(`
+        id,
+        quiz_attempt_id,
+        question_id,
+        user_answer,
+        points_earned,
+        points_possible,
+        time_spent_seconds,
+        grading_status,
+        grader_feedback,
+        graded_at,
+        metadata,
+        created_at,
+        quiz_questions!inner (
+          question,
+          question_type,
+          correct_answer_json,
+          question_metadata,
+          rubric,
+          speaking_settings,
+          writing_settings,
+          quiz_id
+        ),
+        quiz_attempts!inner (
+          user_id,
+          quiz_id,
+          completed_at,
+          attempt_number,
+          quizzes ( title ),
+          users ( name, email )
+        )
+      `)
+      .eq('grading_status', status)
+      .in('quiz_questions.question_type', [...MANUALLY_GRADED_TYPES])
+      .order('created_at', { ascending: status === 'pending' })
+      .limit(limit)
+
+    if (quizId) {
+      query = query.eq('quiz_attempts.quiz_id', quizId)
+    }
+
+    const scope = await loadContentScope(supabase, user)
+    query = scopeQuery(query, 'quiz_attempts.quiz_id', scope.quizIds)
+
+    const { data, error } = await query
+
+    if (error) {
+      logger.error('Failed to fetch grading queue', { error: error.message, userId: user.id })
+      return NextResponse.json({ error: 'Failed to fetch grading queue' }, { status: 500 })
+    }
+
+    // AI drafts are an extra; the queue still loads without them
+    let suggestions = new Map<string, GradeSuggestion>()
+    try {
+      suggestions = await loadGradeSuggestions(supabase, (data || []).map((row: any) => row.id))
+    } catch (suggestionError: any) {
+      logger.warn('Failed to load grading suggestions', { error: suggestionError.message })
+    }
+
+    // Recordings are private; graders play them through short-lived signed URLs
+    const recordings = new Map((data || [])
+      .filter((row: any) => row.quiz_questions?.question_type === 'speaking')
+      .map((row: any) => [row.id, getSpeakingAnswer(row.user_answer, row.quiz_attempts?.user_id)]))
+    let recordingUrls = new Map<string, string>()
+    try {
+      recordingUrls = await createRecordingUrls(
+        supabase,
+        Array.from(recordings.values()).flatMap(recording => recording ? [recording.recording_path] : [])
+      )
+    } catch (recordingError: any) {
+      logger.warn('Failed to sign speaking recordings', { error: recordingError.message })
+    }
+
+    const items = (data || []).map((row: any) => {
+      const isSpeaking = row.quiz_questions?.question_type === 'speaking'
+      const recording = recordings.get(row.id) || null
+
+      return {
+        id: row.id,
+        quiz_attempt_id: row.quiz_attempt_id,
+        question_id: row.question_id,
+        question: row.quiz_questions?.question,
+        question_type: row.quiz_questions?.question_type,
+        quiz_id: row.quiz_attempts?.quiz_id,
+        quiz_title: row.quiz_attempts?.quizzes?.title || 'Unknown Quiz',
+        student_name: row.quiz_attempts?.users?.name || 'Unknown Student',
+        student_email: row.quiz_attempts?.users?.email,
+        attempt_number: row.quiz_attempts?.attempt_number,
+        submitted_at: row.quiz_attempts?.completed_at || row.created_at,
+        answer: isSpeaking ? '' : typeof row.user_answer === 'string' ? row.user_answer : JSON.stringify(row.user_answer ?? ''),
+        recording: recording
+          ? { ...recording, recording_url: recordingUrls.get(recording.recording_path) || null }
+          : null,
+        speaking_part: isSpeaking ? normalizeSpeakingSettings(row.quiz_questions?.speaking_settings).part : null,
+        writing: isSpeaking ? null : normalizeWritingSettings(row.quiz_questions?.writing_settings),
+        points_possible: Number(row.points_possible) || 0,
+        points_earned: Number(row.points_earned) || 0,
+        time_spent_seconds: row.time_spent_seconds || 0,
+        rubric: getRubricCriteria(row.quiz_questions || {}),
+        rubric_scores: row.metadata?.rubric_scores || {},
+        feedback: row.grader_feedback,
+        suggestion: suggestions.get(row.id) || null,
+        grading_status: row.grading_status,
+        graded_at: row.graded_at
+      }
+    })
+
+    return NextResponse.json({ success: true, items })
+  } catch (error: any) {
+    logger.error('Grading queue API error', { error: error.message })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
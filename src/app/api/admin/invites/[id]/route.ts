@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { revokeInstructorInvite } from '@/lib/user-roles'
+
+// DELETE - Withdraw a pending invitation so its link stops working
+export const DELETE = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const pathParts = new URL(request.url).pathname.split('/')
+    const id = pathParts[pathParts.length - 1]
+
+    const invite = await revokeInstructorInvite(createServiceClient(), user.id, id, request)
+    if (!invite) {
+      return NextResponse.json({ error: 'Pending invitation not found' }, { status: 404 })
+    }
+
+    logger.info('Instructor invite revoked', { inviteId: id, userId: user.id })
+
+    return NextResponse.json({ success: true, invite })
+  } catch (error: any) {
+    logger.error('Revoke instructor invite API error', { error: error.message, userId: user.id })
+    return NextResponse.json({ error: 'Failed to revoke invitation' }, { status: 500 })
+  }
+})
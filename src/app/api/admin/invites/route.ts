@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { createInstructorInvite, listInstructorInvites, RoleChangeError } from '@/lib/user-roles'
+import { getSiteUrl, sendInstructorInviteEmail } from '@/lib/email'
+
+// GET - Instructor invitations, newest first, with their current status
+export const GET = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const invites = await listInstructorInvites(createServiceClient())
+    return NextResponse.json({ success: true, invites })
+  } catch (error: any) {
+    logger.error('Instructor invites API error', { error: error.message, userId: user.id })
+    return NextResponse.json({ error: 'Failed to load invitations' }, { status: 500 })
+  }
+})
+
+// POST - Invite someone to become an instructor
+// Body: { email: string }
+// Emails the link and also returns it, since the link is only shown once.
+export const POST = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const body = await request.json().catch(() => null)
+    const supabase = createServiceClient()
+    const { invite, token } = await createInstructorInvite(supabase, user.id, body?.email, request)
+    const inviteUrl = `${getSiteUrl()}/invite/${token}`
+
+    let emailQueued = false
+    try {
+      emailQueued = !!(await sendInstructorInviteEmail(supabase, invite, inviteUrl, invite.inviter_name || user.email))
+    } catch (emailError: any) {
+      logger.warn('Failed to queue instructor invite email', { error: emailError.message, inviteId: invite.id })
+    }
+
+    logger.info('Instructor invited', { inviteId: invite.id, invitedBy: user.id })
+
+    return NextResponse.json({ success: true, invite, invite_url: inviteUrl, email_queued: emailQueued }, { status: 201 })
+  } catch (error: any) {
+    if (error instanceof RoleChangeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+
+    logger.error('Create instructor invite API error', { error: error.message, userId: user.id })
+    return NextResponse.json({ error: 'Failed to create invitation' }, { status: 500 })
+  }
+})
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { LEADERBOARD_FIELDS, resetLeaderboardNow, toLeaderboard } from '@/lib/leaderboards'
+
+// POST - Close the current period early: archive the standings so far and start over
+export const POST = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const url = new URL(request.url)
+    const pathParts = url.pathname.split('/')
+    const leaderboardId = pathParts[pathParts.length - 2]
+
+    if (!leaderboardId) {
+      return NextResponse.json({ error: 'Leaderboard ID is required' }, { status: 400 })
+    }
+
+    const supabase = createServiceClient()
+    const { data, error } = await supabase
+      .from('leaderboards')
+      .select(LEADERBOARD_FIELDS)
+      .eq('id', leaderboardId)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Failed to load leaderboard', { error: error.message, leaderboardId })
+      return NextResponse.json({ error: 'Failed to reset leaderboard' }, { status: 500 })
+    }
+    if (!data) {
+      return NextResponse.json({ error: 'Leaderboard not found' }, { status: 404 })
+    }
+
+    const board = toLeaderboard(data)
+    if (board.time_period === 'all_time') {
+      return NextResponse.json({ error: 'All-time leaderboards do not reset' }, { status: 400 })
+    }
+
+    const result = await resetLeaderboardNow(supabase, board)
+
+    logger.info('Leaderboard reset by admin', { leaderboardId, archived: result.archived, userId: user.id })
+
+    return NextResponse.json({ success: true, leaderboard: result.board, archived: result.archived })
+  } catch (error: any) {
+    logger.error('Leaderboard reset API error', { error: error.message })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import {
+  LEADERBOARD_FIELDS,
+  getInitialReset,
+  pickLeaderboardFields,
+  toLeaderboard,
+  validateLeaderboard
+} from '@/lib/leaderboards'
+
+// PUT - Update a leaderboard
+// Changing the period starts it over from the current calendar period; the archive is kept
+export const PUT = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const url = new URL(request.url)
+    const leaderboardId = url.pathname.split('/').pop()
+
+    if (!leaderboardId) {
+      return NextResponse.json({ error: 'Leaderboard ID is required' }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const validationError = validateLeaderboard(body, true)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const supabase = createServiceClient()
+    const { data: existing, error: existingError } = await supabase
+      .from('leaderboards')
+      .select('time_period')
+      .eq('id', leaderboardId)
+      .maybeSingle()
+
+    if (existingError) {
+      logger.error('Failed to load leaderboard', { error: existingError.message, leaderboardId })
+      return NextResponse.json({ error: 'Failed to update leaderboard' }, { status: 500 })
+    }
+    if (!existing) {
+      return NextResponse.json({ error: 'Leaderboard not found' }, { status: 404 })
+    }
+
+    const fields: Record<string, unknown> = { ...pickLeaderboardFields(body), updated_at: new Date().toISOString() }
+    if (body.time_period !== undefined && body.time_period !== existing.time_period) {
+      fields.last_reset = getInitialReset({ time_period: body.time_period })
+    }
+
+    const { data, error } = await supabase
+      .from('leaderboards')
+      .update(fields)
+      .eq('id', leaderboardId)
+      .select(LEADERBOARD_FIELDS)
+      .single()
+
+    if (error) {
+      if (error.code === '23503') {
+        return NextResponse.json({ error: 'The selected quiz, category or learning path no longer exists' }, { status: 400 })
+      }
+      logger.error('Failed to update leaderboard', { error: error.message, leaderboardId, userId: user.id })
+      return NextResponse.json({ error: 'Failed to update leaderboard' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, leaderboard: toLeaderboard(data) })
+  } catch (error: any) {
+    logger.error('Leaderboard update API error', { error: error.message })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+// DELETE - Remove a leaderboard and its archived standings
+export const DELETE = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const url = new URL(request.url)
+    const leaderboardId = url.pathname.split('/').pop()
+
+    if (!leaderboardId) {
+      return NextResponse.json({ error: 'Leaderboard ID is required' }, { status: 400 })
+    }
+
+    const supabase = createServiceClient()
+    const { data, error } = await supabase
+      .from('leaderboards')
+      .delete()
+      .eq('id', leaderboardId)
+      .select('id')
+
+    if (error) {
+      logger.error('Failed to delete leaderboard', { error: error.message, leaderboardId, userId: user.id })
+      return NextResponse.json({ error: 'Failed to delete leaderboard' }, { status: 500 })
+    }
+    if (!data || data.length === 0) {
+      return NextResponse.json({ error: 'Leaderboard not found' }, { status: 404 })
+    }
+
+    logger.info('Leaderboard deleted', { leaderboardId, userId: user.id })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    logger.error('Leaderboard delete API error', { error: error.message })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import {
+  LEADERBOARD_FIELDS,
+  getInitialReset,
+  loadScopeNames,
+  pickLeaderboardFields,
+  toLeaderboard,
+  validateLeaderboard
+} from '@/lib/leaderboards'
+
+// GET - All leaderboards with the name of what each one ranks
+export const GET = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const supabase = createServiceClient()
+    const { data, error } = await supabase
+      .from('leaderboards')
+      .select(LEADERBOARD_FIELDS)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      logger.error('Failed to fetch leaderboards', { error: error.message, userId: user.id })
+      return NextResponse.json({ error: 'Failed to fetch leaderboards' }, { status: 500 })
+    }
+
+    const boards = (data || []).map(toLeaderboard)
+    const scopeNames = await loadScopeNames(supabase, boards)
+
+    return NextResponse.json({
+      success: true,
+      leaderboards: boards.map(board => ({ ...board, scope_name: scopeNames.get(board.id) || null }))
+    })
+  } catch (error: any) {
+    logger.error('Leaderboards API error', { error: error.message })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+// POST - Create a leaderboard; weekly and monthly boards start with the current calendar period
+export const POST = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const body = await request.json()
+    const validationError = validateLeaderboard(body)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const fields = pickLeaderboardFields(body)
+    const supabase = createServiceClient()
+    const { data, error } = await supabase
+      .from('leaderboards')
+      .insert({ ...fields, last_reset: getInitialReset({ time_period: fields.time_period! }) })
+      .select(LEADERBOARD_FIELDS)
+      .single()
+
+    if (error) {
+      if (error.code === '23503') {
+        return NextResponse.json({ error: 'The selected quiz, category or learning path no longer exists' }, { status: 400 })
+      }
+      logger.error('Failed to create leaderboard', { error: error.message, userId: user.id })
+      return NextResponse.json({ error: 'Failed to create leaderboard' }, { status: 500 })
+    }
+
+    logger.info('Leaderboard created', { leaderboardId: data.id, period: data.time_period, userId: user.id })
+
+    return NextResponse.json({ success: true, leaderboard: toLeaderboard(data) }, { status: 201 })
+  } catch (error: any) {
+    logger.error('Leaderboard create API error', { error: error.message })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import {
+  LEARNING_PATH_FIELDS,
+  pickLearningPathFields,
+  toLearningPath,
+  validateLearningPath,
+  validatePathReferences
+} from '@/lib/learning-paths'
+
+// PUT - Update a learning path
+// Recorded completions are kept; other progress catches up on the learner's next submission
+export const PUT = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const url = new URL(request.url)
+    const pathId = url.pathname.split('/').pop()
+
+    if (!pathId) {
+      return NextResponse.json({ error: 'Learning path ID is required' }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const validationError = validateLearningPath(body, true)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const fields = pickLearningPathFields(body)
+    const supabase = createServiceClient()
+
+    const referenceError = await validatePathReferences(supabase, fields, pathId)
+    if (referenceError) {
+      return NextResponse.json({ error: referenceError }, { status: 400 })
+    }
+
+    const { data, error } = await supabase
+      .from('learning_paths')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', pathId)
+      .select(LEARNING_PATH_FIELDS)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Failed to update learning path', { error: error.message, pathId, userId: user.id })
+      return NextResponse.json({ error: 'Failed to update learning path' }, { status: 500 })
+    }
+    if (!data) {
+      return NextResponse.json({ error: 'Learning path not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, path: toLearningPath(data) })
+  } catch (error: any) {
+    logger.error('Learning path update API error', { error: error.message })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+// DELETE - Remove a learning path and its learners' progress
+export const DELETE = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const url = new URL(request.url)
+    const pathId = url.pathname.split('/').pop()
+
+    if (!pathId) {
+      return NextResponse.json({ error: 'Learning path ID is required' }, { status: 400 })
+    }
+
+    const supabase = createServiceClient()
+    const { data, error } = await supabase
+      .from('learning_paths')
+      .delete()
+      .eq('id', pathId)
+      .select('id')
+
+    if (error) {
+      logger.error('Failed to delete learning path', { error: error.message, pathId, userId: user.id })
+      return NextResponse.json({ error: 'Failed to delete learning path' }, { status: 500 })
+    }
+    if (!data || data.length === 0) {
+      return NextResponse.json({ error: 'Learning path not found' }, { status: 404 })
+    }
+
+    logger.info('Learning path deleted', { pathId, userId: user.id })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    logger.error('Learning path delete API error', { error: error.message })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import {
+  LEARNING_PATH_FIELDS,
+  pickLearningPathFields,
+  toLearningPath,
+  validateLearningPath,
+  validatePathReferences
+} from '@/lib/learning-paths'
+
+// GET - All learning paths with how many learners started and completed each
+export const GET = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const supabase = createServiceClient()
+    const [pathsResult, progressResult] = await Promise.all([
+      supabase
+        .from('learning_paths')
+        .select(LEARNING_PATH_FIELDS)
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('learning_path_progress')
+        .select('learning_path_id, completed_at')
+    ])
+
+    if (pathsResult.error) {
+      logger.error('Failed to fetch learning paths', { error: pathsResult.error.message, userId: user.id })
+      return NextResponse.json({ error: 'Failed to fetch learning paths' }, { status: 500 })
+    }
+
+    const stats = new Map<string, { learners: number; completed: number }>()
+    ;(progressResult.data || []).forEach((row: { learning_path_id: string; completed_at: string | null }) => {
+      const entry = stats.get(row.learning_path_id) || { learners: 0, completed: 0 }
+      entry.learners++
+      if (row.completed_at) entry.completed++
+      stats.set(row.learning_path_id, entry)
+    })
+
+    return NextResponse.json({
+      success: true,
+      paths: (pathsResult.data || []).map((row: any) => ({
+        ...toLearningPath(row),
+        stats: stats.get(row.id) || { learners: 0, completed: 0 }
+      }))
+    })
+  } catch (error: any) {
+    logger.error('Learning paths API error', { error: error.message })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+// POST - Create a learning path
+export const POST = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const body = await request.json()
+    const validationError = validateLearningPath(body)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const fields = pickLearningPathFields(body)
+    const supabase = createServiceClient()
+
+    const referenceError = await validatePathReferences(supabase, fields)
+    if (referenceError) {
+      return NextResponse.json({ error: referenceError }, { status: 400 })
+    }
+
+    const { data, error } = await supabase
+      .from('learning_paths')
+      .insert({ ...fields, created_by: user.id })
+      .select(LEARNING_PATH_FIELDS)
+      .single()
+
+    if (error) {
+      logger.error('Failed to create learning path', { error: error.message, userId: user.id })
+      return NextResponse.json({ error: 'Failed to create learning path' }, { status: 500 })
+    }
+
+    logger.info('Learning path created', { pathId: data.id, quizzes: data.quiz_ids?.length, userId: user.id })
+
+    return NextResponse.json({ success: true, path: toLearningPath(data) }, { status: 201 })
+  } catch (error: any) {
+    logger.error('Learning path create API error', { error: error.message })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import {
+  MOCK_TEST_FIELDS,
+  pickMockTestFields,
+  toMockTest,
+  validateMockTest,
+  validateMockTestReferences
+} from '@/lib/mock-tests'
+
+// PUT - Update a mock test
+// Results are worked out when read, so students see the new sections and tables straight away
+export const PUT = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const url = new URL(request.url)
+    const mockTestId = url.pathname.split('/').pop()
+
+    if (!mockTestId) {
+      return NextResponse.json({ error: 'Mock test ID is required' }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const validationError = validateMockTest(body, true)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const fields = pickMockTestFields(body)
+    const supabase = createServiceClient()
+
+    if (fields.sections) {
+      const referenceError = await validateMockTestReferences(supabase, fields.sections)
+      if (referenceError) {
+        return NextResponse.json({ error: referenceError }, { status: 400 })
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('mock_tests')
+      .update({ ...fields, updated_at: new Date().toISOString() })
+      .eq('id', mockTestId)
+      .select(MOCK_TEST_FIELDS)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Failed to update mock test', { error: error.message, mockTestId, userId: user.id })
+      return NextResponse.json({ error: 'Failed to update mock test' }, { status: 500 })
+    }
+    if (!data) {
+      return NextResponse.json({ error: 'Mock test not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ success: true, test: toMockTest(data) })
+  } catch (error: any) {
+    logger.error('Mock test update API error', { error: error.message })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+// DELETE - Remove a mock test; its quizzes and their attempts are kept
+export const DELETE = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const url = new URL(request.url)
+    const mockTestId = url.pathname.split('/').pop()
+
+    if (!mockTestId) {
+      return NextResponse.json({ error: 'Mock test ID is required' }, { status: 400 })
+    }
+
+    const supabase = createServiceClient()
+    const { data, error } = await supabase
+      .from('mock_tests')
+      .delete()
+      .eq('id', mockTestId)
+      .select('id')
+
+    if (error) {
+      logger.error('Failed to delete mock test', { error: error.message, mockTestId, userId: user.id })
+      return NextResponse.json({ error: 'Failed to delete mock test' }, { status: 500 })
+    }
+    if (!data || data.length === 0) {
+      return NextResponse.json({ error: 'Mock test not found' }, { status: 404 })
+    }
+
+    logger.info('Mock test deleted', { mockTestId, userId: user.id })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    logger.error('Mock test delete API error', { error: error.message })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
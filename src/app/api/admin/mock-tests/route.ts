@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import {
+  MOCK_TEST_FIELDS,
+  pickMockTestFields,
+  toMockTest,
+  validateMockTest,
+  validateMockTestReferences
+} from '@/lib/mock-tests'
+
+// GET - All mock tests, newest first
+export const GET = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const supabase = createServiceClient()
+    const { data, error } = await supabase
+      .from('mock_tests')
+      .select(MOCK_TEST_FIELDS)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      logger.error('Failed to fetch mock tests', { error: error.message, userId: user.id })
+      return NextResponse.json({ error: 'Failed to fetch mock tests' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, tests: (data || []).map(toMockTest) })
+  } catch (error: any) {
+    logger.error('Mock tests API error', { error: error.message })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+// POST - Create a mock test
+export const POST = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const body = await request.json()
+    const validationError = validateMockTest(body)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const fields = pickMockTestFields(body)
+    const supabase = createServiceClient()
+
+    const referenceError = await validateMockTestReferences(supabase, fields.sections!)
+    if (referenceError) {
+      return NextResponse.json({ error: referenceError }, { status: 400 })
+    }
+
+    const { data, error } = await supabase
+      .from('mock_tests')
+      .insert({ ...fields, created_by: user.id })
+      .select(MOCK_TEST_FIELDS)
+      .single()
+
+    if (error) {
+      logger.error('Failed to create mock test', { error: error.message, userId: user.id })
+      return NextResponse.json({ error: 'Failed to create mock test' }, { status: 500 })
+    }
+
+    logger.info('Mock test created', { mockTestId: data.id, module: data.module, userId: user.id })
+
+    return NextResponse.json({ success: true, test: toMockTest(data) }, { status: 201 })
+  } catch (error: any) {
+    logger.error('Mock test create API error', { error: error.message })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
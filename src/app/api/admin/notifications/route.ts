@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { listAudience, notifyUsers, validateAnnouncement, type AnnouncementAudience } from '@/lib/notifications'
+
+// POST - Send an announcement to every learner or to one course's learners
+// Body: { title, message, action_url?, audience: { type: 'all' } | { type: 'course', course_id } }
+export const POST = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const body = await request.json()
+    const validationError = validateAnnouncement(body)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const audience: AnnouncementAudience = body.audience.type === 'course'
+      ? { type: 'course', course_id: body.audience.course_id }
+      : { type: 'all' }
+
+    const supabase = createServiceClient()
+    if (audience.type === 'course') {
+      const { data: course } = await supabase.from('courses').select('id').eq('id', audience.course_id).maybeSingle()
+      if (!course) {
+        return NextResponse.json({ error: 'Course not found' }, { status: 404 })
+      }
+    }
+
+    const recipients = await listAudience(supabase, audience)
+    const announcementId = crypto.randomUUID()
+    const delivered = await notifyUsers(supabase, recipients, {
+      type: 'announcement',
+      title: body.title.trim(),
+      message: body.message.trim(),
+      action_url: body.action_url || null,
+      dedupe_key: `announcement:${announcementId}`,
+      metadata: { announcement_id: announcementId, audience, sent_by: user.id }
+    })
+
+    logger.info('Announcement sent', { announcementId, adminUserId: user.id, audience: audience.type, delivered })
+
+    return NextResponse.json({ success: true, announcement_id: announcementId, delivered }, { status: 201 })
+  } catch (error: any) {
+    logger.error('Announcement API error', { error: error.message })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { normalizeTags, validateTemplateInput } from '@/lib/question-bank'
+
+const EDITABLE_FIELDS = ['title', 'description', 'category', 'difficulty', 'question_type', 'question_data', 'tags'] as const
+
+// PATCH - Edit a bank item (tags, category, difficulty or content)
+export const PATCH = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const url = new URL(request.url)
+    const templateId = url.pathname.split('/').pop()
+
+    if (!templateId) {
+      return NextResponse.json({ error: 'Template ID is required' }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const validationError = validateTemplateInput(body, true)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const updates: Record<string, any> = Object.fromEntries(
+      EDITABLE_FIELDS.filter(field => body[field] !== undefined).map(field => [field, body[field]])
+    )
+    if (updates.tags) updates.tags = normalizeTags(updates.tags)
+    if (typeof updates.title === 'string') updates.title = updates.title.trim()
+    if (typeof updates.category === 'string') updates.category = updates.category.trim()
+
+    const supabase = createServiceClient()
+    const { data, error } = await supabase
+      .from('question_templates')
+      .update({ ...updates, updated_at: new Date().toISOString() })
+      .eq('id', templateId)
+      .select()
+      .single()
+
+    if (error || !data) {
+      logger.error('Failed to update question template', { error: error?.message, templateId, userId: user.id })
+      return NextResponse.json({ error: 'Failed to update question' }, { status: error?.code === 'PGRST116' ? 404 : 500 })
+    }
+
+    return NextResponse.json({ success: true, template: data })
+  } catch (error: any) {
+    logger.error('Question bank update API error', { error: error.message })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+// DELETE - Remove a bank item
+// Attempts that drew it keep their own copy in quiz_attempts.question_draw
+export const DELETE = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const url = new URL(request.url)
+    const templateId = url.pathname.split('/').pop()
+
+    if (!templateId) {
+      return NextResponse.json({ error: 'Template ID is required' }, { status: 400 })
+    }
+
+    const supabase = createServiceClient()
+    const { error } = await supabase
+      .from('question_templates')
+      .delete()
+      .eq('id', templateId)
+
+    if (error) {
+      logger.error('Failed to delete question template', { error: error.message, templateId, userId: user.id })
+      return NextResponse.json({ error: 'Failed to delete question' }, { status: 500 })
+    }
+
+    logger.info('Question removed from bank', { templateId, userId: user.id })
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    logger.error('Question bank delete API error', { error: error.message })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { countRuleMatches, normalizeDrawRules, validateDrawRules } from '@/lib/question-bank'
+
+// POST - How many bank items each draw rule can choose from
+// Body: { rules: DrawRule[] }
+export const POST = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const body = await request.json()
+
+    const validationError = validateDrawRules(body?.rules)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const rules = normalizeDrawRules(body?.rules)
+    const available = await countRuleMatches(createServiceClient(), rules)
+
+    return NextResponse.json({ success: true, available })
+  } catch (error: any) {
+    logger.error('Draw preview API error', { error: error.message, userId: user.id })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import {
+  normalizeTags,
+  validateTemplateInput,
+  templateFromQuizQuestion,
+  TEMPLATE_DIFFICULTIES
+} from '@/lib/question-bank'
+
+// GET - Browse the question bank
+// ?search=, ?category=, ?difficulty=, ?type=, ?tag=, ?page=, ?limit=
+export const GET = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const page = Math.max(parseInt(searchParams.get('page') || '1', 10) || 1, 1)
+    const limit = Math.min(parseInt(searchParams.get('limit') || '25', 10) || 25, 100)
+    const search = searchParams.get('search')?.trim() || ''
+    const category = searchParams.get('category') || ''
+    const difficulty = searchParams.get('difficulty') || ''
+    const questionType = searchParams.get('type') || ''
+    const tag = searchParams.get('tag')?.trim().toLowerCase() || ''
+
+    const supabase = createServiceClient()
+    const from = (page - 1) * limit
+
+    let query = supabase
+      .from('question_templates')
+      .select('*', { count: 'exact' })
+      .order('updated_at', { ascending: false })
+      .range(from, from + limit - 1)
+
+    if (search) {
+      query = query.or(`title.ilike.%${search}%,description.ilike.%${search}%`)
+    }
+    if (category) {
+      query = query.eq('category', category)
+    }
+    if (difficulty && TEMPLATE_DIFFICULTIES.includes(difficulty as any)) {
+      query = query.eq('difficulty', difficulty)
+    }
+    if (questionType) {
+      query = query.eq('question_type', questionType)
+    }
+    if (tag) {
+      query = query.contains('tags', [tag])
+    }
+
+    // Filter options cover the whole bank, not just this page
+    const [itemsResult, facetsResult] = await Promise.all([
+      query,
+      supabase.from('question_templates').select('category, tags')
+    ])
+
+    if (itemsResult.error) {
+      logger.error('Failed to fetch question bank', { error: itemsResult.error.message, userId: user.id })
+      return NextResponse.json({ error: 'Failed to fetch question bank' }, { status: 500 })
+    }
+
+    const categories = new Set<string>()
+    const tags = new Set<string>()
+    ;(facetsResult.data || []).forEach((row: any) => {
+      if (row.category) categories.add(row.category)
+      ;(row.tags || []).forEach((t: string) => tags.add(t))
+    })
+
+    const total = itemsResult.count || 0
+
+    return NextResponse.json({
+      success: true,
+      items: itemsResult.data || [],
+      facets: {
+        categories: Array.from(categories).sort(),
+        tags: Array.from(tags).sort()
+      },
+      pagination: {
+        page,
+        limit,
+        total,
+        totalPages: Math.ceil(total / limit)
+      }
+    })
+  } catch (error: any) {
+    logger.error('Question bank API error', { error: error.message })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+// POST - Add an item to the bank
+// Body: a template ({ title, category, difficulty, question_type, question_data, tags })
+//   or { quiz_question_id, category?, tags? } to copy an existing quiz question
+export const POST = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const body = await request.json()
+    const supabase = createServiceClient()
+
+    let template: Record<string, any>
+
+    if (body?.quiz_question_id) {
+      const { data: question, error } = await supabase
+        .from('quiz_questions')
+        .select('*, quizzes ( category )')
+        .eq('id', body.quiz_question_id)
+        .single()
+
+      if (error || !question) {
+        return NextResponse.json({ error: 'Question not found' }, { status: 404 })
+      }
+
+      template = templateFromQuizQuestion(question, body.category || (question as any).quizzes?.category)
+      if (body.tags !== undefined) {
+        template.tags = normalizeTags(body.tags)
+      }
+    } else {
+      const validationError = validateTemplateInput(body)
+      if (validationError) {
+        return NextResponse.json({ error: validationError }, { status: 400 })
+      }
+
+      template = {
+        title: body.title.trim(),
+        description: body.description || null,
+        category: body.category?.trim() || 'general',
+        difficulty: body.difficulty || 'intermediate',
+        question_type: body.question_type,
+        question_data: body.question_data,
+        tags: normalizeTags(body.tags)
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('question_templates')
+      .insert({ ...template, created_by: user.id })
+      .select()
+      .single()
+
+    if (error) {
+      logger.error('Failed to create question template', { error: error.message, userId: user.id })
+      return NextResponse.json({ error: 'Failed to add question to bank' }, { status: 500 })
+    }
+
+    logger.info('Question added to bank', {
+      templateId: data.id,
+      userId: user.id,
+      fromQuizQuestion: body?.quiz_question_id || null
+    })
+
+    return NextResponse.json({ success: true, template: data })
+  } catch (error: any) {
+    logger.error('Question bank create API error', { error: error.message })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
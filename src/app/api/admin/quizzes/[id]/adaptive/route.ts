@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withInstructorAuth, withInstructorAudit, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { canAccessQuiz, loadContentScope } from '@/lib/content-scope'
+import {
+  normalizeAdaptiveSettings,
+  ITEM_SELECTION_ALGORITHMS,
+  THETA_ESTIMATION_METHODS
+} from '@/lib/adaptive'
+
+function validateAdaptiveSettings(body: any): string | null {
+  if (typeof body !== 'object' || body === null) return 'Settings are required'
+
+  const { min_questions, max_questions, target_accuracy, stopping_criteria } = body
+
+  if (!Number.isInteger(min_questions) || min_questions < 1) {
+    return 'Minimum questions must be a whole number of at least 1'
+  }
+  if (!Number.isInteger(max_questions) || max_questions < min_questions) {
+    return 'Maximum questions must be a whole number no lower than the minimum'
+  }
+  if (typeof target_accuracy !== 'number' || target_accuracy <= 0 || target_accuracy >= 1) {
+    return 'Target accuracy must be between 0 and 1'
+  }
+  const standardError = stopping_criteria?.standard_error
+  if (typeof standardError !== 'number' || standardError <= 0 || standardError > 2) {
+    return 'Standard error threshold must be greater than 0 and at most 2'
+  }
+  if (!ITEM_SELECTION_ALGORITHMS.includes(body.item_selection_algorithm)) {
+    return 'Unknown item selection algorithm'
+  }
+  if (!THETA_ESTIMATION_METHODS.includes(body.theta_estimation_method)) {
+    return 'Unknown theta estimation method'
+  }
+
+  return null
+}
+
+// GET - Adaptive delivery settings for a quiz (defaults when none are saved)
+export const GET = withInstructorAuth(async (request: NextRequest, user) => {
+  try {
+    const url = new URL(request.url)
+    const quizId = url.pathname.split('/').slice(-2, -1)[0] // Get quiz id from path
+
+    if (!quizId) {
+      return NextResponse.json({ error: 'Quiz ID is required' }, { status: 400 })
+    }
+
+    const supabase = createServiceClient()
+    if (!canAccessQuiz(await loadContentScope(supabase, user), quizId)) {
+      return NextResponse.json({ error: 'Quiz not found' }, { status: 404 })
+    }
+
+    const { data, error } = await supabase
+      .from('adaptive_quiz_settings')
+      .select('*')
+      .eq('quiz_id', quizId)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Failed to fetch adaptive settings', { error: error.message, quizId })
+      return NextResponse.json({ error: 'Failed to fetch adaptive settings' }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true, settings: normalizeAdaptiveSettings(data) })
+  } catch (error: any) {
+    logger.error('Adaptive settings fetch API error', { error: error.message })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+// PUT - Save adaptive delivery settings for a quiz
+export const PUT = withInstructorAudit(async (request: NextRequest, user, audit) => {
+  try {
+    const url = new URL(request.url)
+    const quizId = url.pathname.split('/').slice(-2, -1)[0] // Get quiz id from path
+
+    if (!quizId) {
+      return NextResponse.json({ error: 'Quiz ID is required' }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const validationError = validateAdaptiveSettings(body)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const settings = normalizeAdaptiveSettings(body)
+    const supabase = createServiceClient()
+    if (!canAccessQuiz(await loadContentScope(supabase, user), quizId)) {
+      return NextResponse.json({ error: 'Quiz not found' }, { status: 404 })
+    }
+
+    const { data: before } = await supabase
+      .from('adaptive_quiz_settings')
+      .select('*')
+      .eq('quiz_id', quizId)
+      .maybeSingle()
+
+    const { data, error } = await supabase
+      .from('adaptive_quiz_settings')
+      .upsert({
+        quiz_id: quizId,
+        ...settings,
+        updated_at: new Date().toISOString()
+      }, { onConflict: 'quiz_id' })
+      .select()
+      .single()
+
+    if (error) {
+      logger.error('Failed to save adaptive settings', { error: error.message, quizId })
+      return NextResponse.json({ error: 'Failed to save adaptive settings' }, { status: 500 })
+    }
+
+    // Logged against the quiz; the settings row has no id of its own worth filtering by
+    audit.record({
+      action: 'quiz.adaptive_settings_updated',
+      resource_type: 'quiz',
+      resource_id: quizId,
+      before: before || {},
+      after: data
+    })
+
+    logger.info('Adaptive settings saved', { quizId, enabled: settings.enabled, userId: user.id })
+
+    return NextResponse.json({ success: true, settings: normalizeAdaptiveSettings(data) })
+  } catch (error: any) {
+    logger.error('Adaptive settings save API error', { error: error.message })
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
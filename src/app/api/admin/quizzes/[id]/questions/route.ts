@@ -1,14 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { withAdminAuth, createServiceClient } from '@/lib/api-auth'
+import { withInstructorAuth, withInstructorAudit, createServiceClient, type AuditRecorder } from '@/lib/api-auth'
 import { QuizQuestion } from '@/lib/supabase'
 import { logger } from '@/lib/logger'
+import { canAccessQuiz, loadContentScope } from '@/lib/content-scope'
+import { normalizeSpeakingSettings, validateSpeakingSettings } from '@/lib/speaking'
+import { normalizeWritingSettings, validateWritingSettings } from '@/lib/writing'
 
 // Simple in-memory lock to prevent concurrent saves on the same quiz
 const saveLocks = new Map<string, Promise<any>>()
 
-export const POST = withAdminAuth(async (
+export const POST = withInstructorAudit(async (
   request: NextRequest,
-  user
+  user,
+  audit
 ) => {
   try {
     const url = new URL(request.url)
@@ -20,6 +24,11 @@ export const POST = withAdminAuth(async (
       }, { status: 400 })
     }
 
+    const supabase = createServiceClient()
+    if (!canAccessQuiz(await loadContentScope(supabase, user), quizId)) {
+      return NextResponse.json({ error: 'Quiz not found' }, { status: 404 })
+    }
+
     // Check if there's already a save operation in progress for this quiz
     if (saveLocks.has(quizId)) {
       logger.warn('Save operation already in progress', { quizId })
@@ -27,7 +36,7 @@ export const POST = withAdminAuth(async (
     }
 
     // Create a promise for this save operation
-    const savePromise = performQuestionSave(request, quizId)
+    const savePromise = performQuestionSave(request, quizId, audit)
     saveLocks.set(quizId, savePromise)
 
     try {
@@ -46,7 +55,7 @@ export const POST = withAdminAuth(async (
   }
 })
 
-async function performQuestionSave(request: NextRequest, quizId: string) {
+async function performQuestionSave(request: NextRequest, quizId: string, audit: AuditRecorder) {
   const { questions, saveType = 'draft' } = await request.json()
 
   if (!questions || !Array.isArray(questions)) {
@@ -55,6 +64,17 @@ async function performQuestionSave(request: NextRequest, quizId: string) {
     }, { status: 400 })
   }
 
+  for (const [index, q] of questions.entries()) {
+    const settingsError = q?.question_type === 'speaking'
+      ? validateSpeakingSettings(q.speaking_settings)
+      : q?.question_type === 'essay' ? validateWritingSettings(q.writing_settings) : null
+    if (settingsError) {
+      return NextResponse.json({
+        error: `Question ${index + 1}: ${settingsError}`
+      }, { status: 400 })
+    }
+  }
+
   // Create admin service client
   const supabase = createServiceClient()
 
@@ -68,9 +88,33 @@ async function performQuestionSave(request: NextRequest, quizId: string) {
     // Professional approach: Single transaction with optimized database operations
     // The key insight: Instead of fighting the trigger, work with it efficiently
 
+    // The questions as they were: the only ids this save may keep, and what it added,
+    // changed and removed for the audit log
+    const { data: existingQuestions, error: existingError } = await supabase
+      .from('quiz_questions')
+      .select('*')
+      .eq('quiz_id', quizId)
+
+    if (existingError) {
+      logger.error('Failed to read existing questions', { existingError, quizId })
+      return NextResponse.json({
+        error: 'Failed to read existing questions',
+        details: existingError.message
+      }, { status: 500 })
+    }
+    const before = new Map<string, any>((existingQuestions || []).map((q: any) => [q.id, q]))
+
     // Step 1: Prepare all questions with proper IDs and structure
+    // Only ids of this quiz's own questions are kept (once each); anything else gets a new
+    // id so a save can never overwrite or take over a question from another quiz
+    const usedIds = new Set<string>()
+    const resolveId = (id: unknown): string => {
+      if (typeof id !== 'string' || !before.has(id) || usedIds.has(id)) return crypto.randomUUID()
+      usedIds.add(id)
+      return id
+    }
     const questionsWithIds = questions.map((q: any, index: number) => ({
-      id: q.id || crypto.randomUUID(), // Keep existing IDs or generate new ones
+      id: resolveId(q.id),
       quiz_id: quizId,
       question: q.question,
       question_type: q.question_type,
@@ -92,18 +136,29 @@ async function performQuestionSave(request: NextRequest, quizId: string) {
       partial_credit: q.partial_credit,
       feedback_correct: q.feedback_correct,
       feedback_incorrect: q.feedback_incorrect,
-      hint: q.hint
+      hint: q.hint,
+      speaking_settings: q.question_type === 'speaking' ? normalizeSpeakingSettings(q.speaking_settings) : null,
+      writing_settings: q.question_type === 'essay' ? normalizeWritingSettings(q.writing_settings) : null
     }))
 
     // Step 2: Execute the bulk replace in a single atomic operation
     // This minimizes trigger executions while maintaining data integrity
     
-    // Delete existing questions (triggers will fire, but only once per batch)
-    const { error: deleteError } = await supabase
+    // Delete only questions that were removed in the editor. Kept questions retain their IDs
+    // so question_attempts and question_analytics stay attached to them. The filter is built
+    // only from ids already read from this quiz, never from raw client input.
+    const keptIds = questionsWithIds.map((q: any) => q.id).filter((id: string) => before.has(id))
+    let deleteQuery = supabase
       .from('quiz_questions')
       .delete()
       .eq('quiz_id', quizId)
 
+    if (keptIds.length > 0) {
+      deleteQuery = deleteQuery.not('id', 'in', `(${keptIds.join(',')})`)
+    }
+
+    const { error: deleteError } = await deleteQuery
+
     if (deleteError) {
       logger.error('Failed to clear existing questions', { deleteError, quizId })
       return NextResponse.json({
@@ -112,10 +167,10 @@ async function performQuestionSave(request: NextRequest, quizId: string) {
       }, { status: 500 })
     }
 
-    // Insert all new questions in a single bulk operation
+    // Upsert all remaining and new questions in a single bulk operation
     const { data: insertedQuestions, error: insertError } = await supabase
       .from('quiz_questions')
-      .insert(questionsWithIds)
+      .upsert(questionsWithIds, { onConflict: 'id' })
       .select()
 
     if (insertError) {
@@ -126,6 +181,20 @@ async function performQuestionSave(request: NextRequest, quizId: string) {
       }, { status: 500 })
     }
 
+    const keptIdSet = new Set(keptIds)
+    audit.record([
+      ...(existingQuestions || [])
+        .filter((q: any) => !keptIdSet.has(q.id))
+        .map((q: any) => ({ action: 'quiz_question.deleted', resource_type: 'quiz_question' as const, resource_id: q.id, before: q })),
+      ...(insertedQuestions || []).map((q: any) => ({
+        action: before.has(q.id) ? 'quiz_question.updated' : 'quiz_question.created',
+        resource_type: 'quiz_question' as const,
+        resource_id: q.id,
+        before: before.get(q.id),
+        after: q
+      }))
+    ])
+
     // Step 3: Update quiz metadata in a single operation
     // The trigger will have updated total_questions, but we ensure it's correct
     const { error: updateError } = await supabase
@@ -145,7 +214,7 @@ async function performQuestionSave(request: NextRequest, quizId: string) {
       quizId, 
       questionsCount: questions.length,
       insertedCount: insertedQuestions?.length,
-      totalDatabaseOperations: 3 // delete + insert + update (minimal trigger executions)
+      totalDatabaseOperations: 3 // delete + upsert + update (minimal trigger executions)
     })
 
     return NextResponse.json({
@@ -168,7 +237,7 @@ async function performQuestionSave(request: NextRequest, quizId: string) {
   }
 }
 
-export const GET = withAdminAuth(async (
+export const GET = withInstructorAuth(async (
   request: NextRequest,
   user
 ) => {
@@ -184,6 +253,9 @@ export const GET = withAdminAuth(async (
 
     // Create admin service client
     const supabase = createServiceClient()
+    if (!canAccessQuiz(await loadContentScope(supabase, user), quizId)) {
+      return NextResponse.json({ error: 'Quiz not found' }, { status: 404 })
+    }
 
     // Fetch questions for this quiz
     const { data: questions, error } = await supabase
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { withAdminAuth, createServiceClient } from '@/lib/api-auth'
+import { withInstructorAuth, withInstructorAudit, createServiceClient } from '@/lib/api-auth'
+import { canAccessQuiz, ContentAccessError, loadContentScope, scopeQuizFields } from '@/lib/content-scope'
+import { validateQuizPolicies } from '@/lib/quiz-policies'
+import { normalizeDrawRules, validateDrawRules } from '@/lib/question-bank'
+import { normalizeListeningSettings, validateListeningSettings } from '@/lib/listening'
 
 // GET /api/admin/quizzes/[id] - Fetch quiz with questions for editing
-export const GET = withAdminAuth(async (
+export const GET = withInstructorAuth(async (
   request: NextRequest,
   user
 ) => {
@@ -24,6 +28,9 @@ export const GET = withAdminAuth(async (
     
     // Use service role for admin access
     const supabase = createServiceClient()
+    if (!canAccessQuiz(await loadContentScope(supabase, user), id)) {
+      return NextResponse.json({ error: 'Quiz not found' }, { status: 404 })
+    }
 
     // Build dynamic field selection
     let selectFields = '*'
@@ -125,9 +132,10 @@ export const GET = withAdminAuth(async (
 })
 
 // PUT /api/admin/quizzes/[id] - Update quiz
-export const PUT = withAdminAuth(async (
+export const PUT = withInstructorAudit(async (
   request: NextRequest,
-  user
+  user,
+  audit
 ) => {
   try {
     const url = new URL(request.url)
@@ -141,13 +149,34 @@ export const PUT = withAdminAuth(async (
       )
     }
 
+    const policyError = validateQuizPolicies(body) ||
+      validateDrawRules(body.draw_rules) ||
+      validateListeningSettings(body.listening_settings)
+    if (policyError) {
+      return NextResponse.json({ error: policyError }, { status: 400 })
+    }
+    if (body.draw_rules !== undefined) {
+      body.draw_rules = normalizeDrawRules(body.draw_rules)
+    }
+    if (body.listening_settings) {
+      body.listening_settings = normalizeListeningSettings(body.listening_settings)
+    }
+
     // Use service role for admin access
     const supabase = createServiceClient()
 
+    const scope = await loadContentScope(supabase, user)
+    if (!canAccessQuiz(scope, id)) {
+      return NextResponse.json({ error: 'Quiz not found' }, { status: 404 })
+    }
+    const updates = scopeQuizFields(scope, body, false)
+
+    const before = await audit.snapshot(supabase, 'quiz', id)
+
     // Update quiz
     const { data: quiz, error: updateError } = await supabase
       .from('quizzes')
-      .update(body)
+      .update(updates)
       .eq('id', id)
       .select()
       .single()
@@ -160,10 +189,15 @@ export const PUT = withAdminAuth(async (
       )
     }
 
+    audit.record({ action: 'quiz.updated', resource_type: 'quiz', resource_id: id, before, after: quiz })
+
     return NextResponse.json(quiz)
 
   } catch (error: any) {
     console.error('Unexpected error in quiz update:', error)
+    if (error instanceof ContentAccessError) {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
     return NextResponse.json(
       { error: 'Internal server error', details: error instanceof Error ? error.message : 'Unknown error' },
       { status: 500 }
@@ -172,9 +206,10 @@ export const PUT = withAdminAuth(async (
 })
 
 // DELETE /api/admin/quizzes/[id] - Delete quiz
-export const DELETE = withAdminAuth(async (
+export const DELETE = withInstructorAudit(async (
   request: NextRequest,
-  user
+  user,
+  audit
 ) => {
   try {
     const url = new URL(request.url)
@@ -189,6 +224,11 @@ export const DELETE = withAdminAuth(async (
 
     // Use service role for admin access
     const supabase = createServiceClient()
+    if (!canAccessQuiz(await loadContentScope(supabase, user), id)) {
+      return NextResponse.json({ error: 'Quiz not found' }, { status: 404 })
+    }
+
+    const before = await audit.snapshot(supabase, 'quiz', id)
 
     // Delete quiz (cascade will handle questions)
     const { error: deleteError } = await supabase
@@ -204,6 +244,10 @@ export const DELETE = withAdminAuth(async (
       )
     }
 
+    if (before) {
+      audit.record({ action: 'quiz.deleted', resource_type: 'quiz', resource_id: id, before })
+    }
+
     return NextResponse.json({ success: true })
 
   } catch (error: any) {
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { withAdminAuth, withServiceRole } from '@/lib/api-auth'
+import { withInstructorAudit, withAuthoringServiceRole } from '@/lib/api-auth'
 import { logger } from '@/lib/logger'
+import { canAccessQuiz, loadContentScope } from '@/lib/content-scope'
 
 interface BulkOperationRequest {
   action: 'publish' | 'unpublish' | 'delete' | 'duplicate' | 'archive' | 'export'
@@ -8,7 +9,8 @@ interface BulkOperationRequest {
   params?: Record<string, any>
 }
 
-export const POST = withAdminAuth(async (request: NextRequest, user) => {
+// Instructors can only act on their own quizzes; one quiz outside their scope fails the whole request
+export const POST = withInstructorAudit(async (request: NextRequest, user, audit) => {
   try {
     const body: BulkOperationRequest = await request.json()
     const { action, quizIds, params } = body
@@ -33,8 +35,23 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
       adminUserId: user.id
     })
 
-    return withServiceRole(user, async (serviceClient) => {
+    return withAuthoringServiceRole(user, async (serviceClient) => {
+      const scope = await loadContentScope(serviceClient, user)
+      if (quizIds.some(quizId => !canAccessQuiz(scope, quizId))) {
+        return NextResponse.json({ error: 'One or more quizzes were not found' }, { status: 404 })
+      }
+
       let result: any = { success: true, processedCount: 0, errors: [] }
+      const before = action === 'export' ? new Map() : await audit.snapshots(serviceClient, 'quiz', quizIds)
+      const recordUpdates = (rows: any[] | null, auditAction: string) => {
+        audit.record((rows || []).map((row: any) => ({
+          action: auditAction,
+          resource_type: 'quiz' as const,
+          resource_id: row.id,
+          before: before.get(row.id),
+          after: row
+        })))
+      }
 
       switch (action) {
         case 'publish':
@@ -47,7 +64,7 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
               updated_at: new Date().toISOString()
             })
             .in('id', quizIds)
-            .select('id, title')
+            .select('*')
 
           if (publishError) {
             logger.error('Bulk publish/unpublish failed', { error: publishError, action })
@@ -57,6 +74,7 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
             )
           }
 
+          recordUpdates(publishData, `quiz.bulk_${action}ed`)
           result.processedCount = publishData?.length || 0
           result.message = `Successfully ${action}ed ${result.processedCount} quizzes`
           break
@@ -77,6 +95,12 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
             )
           }
 
+          audit.record((deleteData || []).map((row: any) => ({
+            action: 'quiz.bulk_deleted',
+            resource_type: 'quiz' as const,
+            resource_id: row.id,
+            before: before.get(row.id)
+          })))
           result.processedCount = deleteData?.length || 0
           result.message = `Successfully deleted ${result.processedCount} quizzes`
           break
@@ -102,6 +126,7 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
               id: undefined, // Let Supabase generate new ID
               title: `${quiz.title} (Copy)`,
               is_published: false, // Always create duplicates as drafts
+              created_by: user.id,
               created_at: new Date().toISOString(),
               updated_at: new Date().toISOString()
             }
@@ -112,7 +137,7 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
           const { data: duplicateData, error: duplicateError } = await serviceClient
             .from('quizzes')
             .insert(duplicatedQuizzes)
-            .select('id, title')
+            .select('*')
 
           if (duplicateError) {
             logger.error('Bulk duplicate failed', { error: duplicateError })
@@ -122,9 +147,15 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
             )
           }
 
+          audit.record((duplicateData || []).map((row: any) => ({
+            action: 'quiz.bulk_duplicated',
+            resource_type: 'quiz' as const,
+            resource_id: row.id,
+            after: row
+          })))
           result.processedCount = duplicateData?.length || 0
           result.message = `Successfully duplicated ${result.processedCount} quizzes`
-          result.newItems = duplicateData
+          result.newItems = (duplicateData || []).map((quiz: any) => ({ id: quiz.id, title: quiz.title }))
           break
 
         case 'archive':
@@ -136,7 +167,7 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
               updated_at: new Date().toISOString()
             })
             .in('id', quizIds)
-            .select('id, title')
+            .select('*')
 
           if (archiveError) {
             logger.error('Bulk archive failed', { error: archiveError })
@@ -146,6 +177,7 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
             )
           }
 
+          recordUpdates(archiveData, 'quiz.bulk_archived')
           result.processedCount = archiveData?.length || 0
           result.message = `Successfully archived ${result.processedCount} quizzes`
           break
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withInstructorAuth, withAuthoringServiceRole } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { classifyItem } from '@/lib/grading'
+import { loadContentScope, scopeQuery } from '@/lib/content-scope'
+
+// GET - Item analysis per question: difficulty, discrimination and a quality flag
+// ?quizId= limits to one quiz; ?flaggedOnly=true returns only items that need review
+// Instructors see only the questions on their own quizzes
+export const GET = withInstructorAuth(async (request: NextRequest, user) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const quizId = searchParams.get('quizId')
+    const flaggedOnly = searchParams.get('flaggedOnly') === 'true'
+
+    const items = await withAuthoringServiceRole(user, async (serviceClient) => {
+      const scope = await loadContentScope(serviceClient, user)
+      let query = serviceClient
+        .from('question_analytics')
+        .select(`
+          question_id,
+          total_attempts,
+          correct_attempts,
+          average_time_seconds,
+          difficulty_rating,
+          discrimination_index,
+          last_updated,
+          quiz_questions!inner (
+            question,
+            question_type,
+            quiz_id,
+            quizzes ( title )
+          )
+        `)
+        .order('total_attempts', { ascending: false })
+        .limit(500)
+
+      query = scopeQuery(query, 'quiz_questions.quiz_id', scope.quizIds)
+
+      if (quizId) {
+        query = query.eq('quiz_questions.quiz_id', quizId)
+      }
+
+      const { data, error } = await query
+      if (error) throw error
+
+      const rows = (data || []).map((row: any) => ({
+        question_id: row.question_id,
+        question: row.quiz_questions?.question,
+        question_type: row.quiz_questions?.question_type,
+        quiz_id: row.quiz_questions?.quiz_id,
+        quiz_title: row.quiz_questions?.quizzes?.title || 'Unknown Quiz',
+        total_attempts: row.total_attempts || 0,
+        correct_attempts: row.correct_attempts || 0,
+        average_time_seconds: Number(row.average_time_seconds) || 0,
+        difficulty_rating: Number(row.difficulty_rating) || 0,
+        discrimination_index: Number(row.discrimination_index) || 0,
+        last_updated: row.last_updated,
+        flag: classifyItem({
+          total_attempts: row.total_attempts || 0,
+          difficulty_rating: Number(row.difficulty_rating) || 0,
+          discrimination_index: Number(row.discrimination_index) || 0
+        })
+      }))
+
+      return flaggedOnly
+        ? rows.filter((item: any) => item.flag !== 'ok' && item.flag !== 'insufficient_data')
+        : rows
+    })
+
+    return NextResponse.json({ success: true, items })
+  } catch (error: any) {
+    logger.error('Item analytics fetch failed', { error: error.message })
+    return NextResponse.json({ error: 'Failed to fetch item analytics' }, { status: 500 })
+  }
+})
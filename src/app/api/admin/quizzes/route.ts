@@ -1,9 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { withAdminAuth, withServiceRole } from '@/lib/api-auth'
+import { withInstructorAuth, withInstructorAudit, withAuthoringServiceRole } from '@/lib/api-auth'
 import { logger } from '@/lib/logger'
-
-// GET - Fetch all quizzes for admin (SECURE)
-export const GET = withAdminAuth(async (request: NextRequest, user) => {
+import {
+  assertQuizAccess,
+  ContentAccessError,
+  loadContentScope,
+  scopeQuery,
+  scopeQuizFields
+} from '@/lib/content-scope'
+import {
+  normalizeRetakePolicy,
+  normalizeAvailabilityWindow,
+  normalizeGradingPolicy,
+  validateQuizPolicies
+} from '@/lib/quiz-policies'
+import { normalizeDrawRules, validateDrawRules } from '@/lib/question-bank'
+import { normalizeListeningSettings, validateListeningSettings } from '@/lib/listening'
+
+// GET - Fetch all quizzes for admin, or an instructor's own quizzes (SECURE)
+export const GET = withInstructorAuth(async (request: NextRequest, user) => {
   try {
     logger.info('Admin quizzes fetch requested', { adminUserId: user.id })
 
@@ -18,7 +33,8 @@ export const GET = withAdminAuth(async (request: NextRequest, user) => {
     const mode = searchParams.get('mode') || 'full' // 'slim', 'full', 'stats'
     const fields = searchParams.get('fields')?.split(',') || []
 
-    const { quizzes, pagination } = await withServiceRole(user, async (serviceClient) => {
+    const { quizzes, pagination } = await withAuthoringServiceRole(user, async (serviceClient) => {
+      const scope = await loadContentScope(serviceClient, user)
       const from = (page - 1) * limit
       const to = from + limit - 1
 
@@ -32,7 +48,9 @@ export const GET = withAdminAuth(async (request: NextRequest, user) => {
           shuffle_questions, shuffle_options, show_results_immediately,
           allow_review, allow_backtrack, randomize_questions,
           questions_per_page, show_progress, auto_submit, instructions,
-          tags, estimated_time_minutes
+          tags, estimated_time_minutes, retake_policy, grading_policy,
+          availability_window, draw_rules, certificate_template_id,
+          passage_audio_url, listening_settings
         `,
         reading: `
           id, title, description, category, difficulty, duration_minutes,
@@ -48,11 +66,15 @@ export const GET = withAdminAuth(async (request: NextRequest, user) => {
         : fieldSets[mode as keyof typeof fieldSets] || fieldSets.slim
 
       // Build the optimized query
-      let query = serviceClient
-        .from('quizzes')
-        .select(selectFields, { count: 'exact' })
-        .order('created_at', { ascending: false })
-        .range(from, to)
+      let query = scopeQuery(
+        serviceClient
+          .from('quizzes')
+          .select(selectFields, { count: 'exact' })
+          .order('created_at', { ascending: false })
+          .range(from, to),
+        'id',
+        scope.quizIds
+      )
 
       // Apply filters
       if (search) {
@@ -168,19 +190,28 @@ export const GET = withAdminAuth(async (request: NextRequest, user) => {
 })
 
 // POST - Create new quiz (SECURE)
-export const POST = withAdminAuth(async (request: NextRequest, user) => {
+// Instructors' quizzes are their own and can only belong to their own courses
+export const POST = withInstructorAudit(async (request: NextRequest, user, audit) => {
   try {
     const body = await request.json()
+
+    const policyError = validateQuizPolicies(body) ||
+      validateDrawRules(body.draw_rules) ||
+      validateListeningSettings(body.listening_settings)
+    if (policyError) {
+      return NextResponse.json({ error: policyError }, { status: 400 })
+    }
     
     logger.info('Admin quiz creation requested', { 
       adminUserId: user.id, 
       quizTitle: body.title 
     })
 
-    const quiz = await withServiceRole(user, async (serviceClient) => {
+    const quiz = await withAuthoringServiceRole(user, async (serviceClient) => {
+      const scope = await loadContentScope(serviceClient, user)
       const { data, error } = await serviceClient
         .from('quizzes')
-        .insert([{
+        .insert([scopeQuizFields(scope, {
           title: body.title,
           description: body.description,
           category: body.category,
@@ -206,6 +237,11 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
           instructions: body.instructions || '',
           tags: body.tags || [],
           estimated_time_minutes: body.estimated_time_minutes,
+          retake_policy: normalizeRetakePolicy(body.retake_policy),
+          availability_window: normalizeAvailabilityWindow(body.availability_window),
+          grading_policy: normalizeGradingPolicy(body.grading_policy),
+          draw_rules: normalizeDrawRules(body.draw_rules),
+          certificate_template_id: body.certificate_template_id || null,
           
           // Reading quiz fields
           reading_passage: body.reading_passage,
@@ -213,8 +249,11 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
           passage_source: body.passage_source,
           passage_audio_url: body.passage_audio_url,
           word_count: body.word_count,
-          estimated_read_time: body.estimated_read_time
-        }])
+          estimated_read_time: body.estimated_read_time,
+
+          // Listening section (see lib/listening)
+          listening_settings: body.listening_settings ? normalizeListeningSettings(body.listening_settings) : null
+        }, true)])
         .select()
         .single()
 
@@ -222,6 +261,7 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
         throw new Error(`Quiz creation failed: ${error.message}`)
       }
 
+      audit.record({ action: 'quiz.created', resource_type: 'quiz', resource_id: data.id, after: data })
       return data
     })
 
@@ -240,13 +280,13 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
     
     return NextResponse.json(
       { error: error.message },
-      { status: 500 }
+      { status: error instanceof ContentAccessError ? 404 : 500 }
     )
   }
 })
 
 // PUT - Update existing quiz (SECURE)
-export const PUT = withAdminAuth(async (request: NextRequest, user) => {
+export const PUT = withInstructorAudit(async (request: NextRequest, user, audit) => {
   try {
     const body = await request.json()
     const quizId = body.id
@@ -255,15 +295,26 @@ export const PUT = withAdminAuth(async (request: NextRequest, user) => {
       return NextResponse.json({ error: 'Quiz ID is required' }, { status: 400 })
     }
 
+    const policyError = validateQuizPolicies(body) ||
+      validateDrawRules(body.draw_rules) ||
+      validateListeningSettings(body.listening_settings)
+    if (policyError) {
+      return NextResponse.json({ error: policyError }, { status: 400 })
+    }
+
     logger.info('Admin quiz update requested', { 
       adminUserId: user.id, 
       quizId 
     })
 
-    const quiz = await withServiceRole(user, async (serviceClient) => {
+    const quiz = await withAuthoringServiceRole(user, async (serviceClient) => {
+      const scope = await loadContentScope(serviceClient, user)
+      assertQuizAccess(scope, quizId)
+
+      const before = await audit.snapshot(serviceClient, 'quiz', quizId)
       const { data, error} = await serviceClient
         .from('quizzes')
-        .update({
+        .update(scopeQuizFields(scope, {
           title: body.title,
           description: body.description,
           category: body.category,
@@ -289,6 +340,11 @@ export const PUT = withAdminAuth(async (request: NextRequest, user) => {
           instructions: body.instructions,
           tags: body.tags,
           estimated_time_minutes: body.estimated_time_minutes,
+          retake_policy: body.retake_policy ? normalizeRetakePolicy(body.retake_policy) : undefined,
+          availability_window: body.availability_window ? normalizeAvailabilityWindow(body.availability_window) : undefined,
+          grading_policy: body.grading_policy ? normalizeGradingPolicy(body.grading_policy) : undefined,
+          draw_rules: body.draw_rules !== undefined ? normalizeDrawRules(body.draw_rules) : undefined,
+          certificate_template_id: body.certificate_template_id !== undefined ? body.certificate_template_id || null : undefined,
 
           // Reading quiz fields (CRITICAL: was missing!)
           reading_passage: body.reading_passage,
@@ -298,8 +354,13 @@ export const PUT = withAdminAuth(async (request: NextRequest, user) => {
           word_count: body.word_count,
           estimated_read_time: body.estimated_read_time,
 
+          // Listening section (see lib/listening)
+          listening_settings: body.listening_settings !== undefined
+            ? (body.listening_settings ? normalizeListeningSettings(body.listening_settings) : null)
+            : undefined,
+
           updated_at: new Date().toISOString()
-        })
+        }, false))
         .eq('id', quizId)
         .select()
         .single()
@@ -308,6 +369,7 @@ export const PUT = withAdminAuth(async (request: NextRequest, user) => {
         throw new Error(`Quiz update failed: ${error.message}`)
       }
 
+      audit.record({ action: 'quiz.updated', resource_type: 'quiz', resource_id: quizId, before, after: data })
       return data
     })
 
@@ -326,13 +388,13 @@ export const PUT = withAdminAuth(async (request: NextRequest, user) => {
     
     return NextResponse.json(
       { error: error.message },
-      { status: 500 }
+      { status: error instanceof ContentAccessError ? 404 : 500 }
     )
   }
 })
 
 // DELETE - Remove quiz (SECURE)
-export const DELETE = withAdminAuth(async (request: NextRequest, user) => {
+export const DELETE = withInstructorAudit(async (request: NextRequest, user, audit) => {
   try {
     const { searchParams } = new URL(request.url)
     const quizId = searchParams.get('id')
@@ -346,7 +408,10 @@ export const DELETE = withAdminAuth(async (request: NextRequest, user) => {
       quizId 
     })
 
-    await withServiceRole(user, async (serviceClient) => {
+    await withAuthoringServiceRole(user, async (serviceClient) => {
+      assertQuizAccess(await loadContentScope(serviceClient, user), quizId)
+
+      const before = await audit.snapshot(serviceClient, 'quiz', quizId)
       const { error } = await serviceClient
         .from('quizzes')
         .delete()
@@ -355,6 +420,10 @@ export const DELETE = withAdminAuth(async (request: NextRequest, user) => {
       if (error) {
         throw new Error(`Quiz deletion failed: ${error.message}`)
       }
+
+      if (before) {
+        audit.record({ action: 'quiz.deleted', resource_type: 'quiz', resource_id: quizId, before })
+      }
     })
 
     logger.info('Admin quiz deletion completed', { 
@@ -372,7 +441,7 @@ export const DELETE = withAdminAuth(async (request: NextRequest, user) => {
     
     return NextResponse.json(
       { error: error.message },
-      { status: 500 }
+      { status: error instanceof ContentAccessError ? 404 : 500 }
     )
   }
 })
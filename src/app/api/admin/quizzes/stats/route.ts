@@ -1,23 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { withAdminAuth, withServiceRole } from '@/lib/api-auth'
+import { withInstructorAuth, withAuthoringServiceRole } from '@/lib/api-auth'
 import { logger } from '@/lib/logger'
+import { canAccessQuiz, loadContentScope } from '@/lib/content-scope'
 
 // GET - Fetch quiz statistics only (for lazy loading)
-export const GET = withAdminAuth(async (request: NextRequest, user) => {
+// Quizzes outside an instructor's own content are left out
+export const GET = withInstructorAuth(async (request: NextRequest, user) => {
   try {
     const { searchParams } = new URL(request.url)
-    const quizIds = searchParams.get('quizIds')?.split(',') || []
+    const requestedIds = searchParams.get('quizIds')?.split(',') || []
     
-    if (quizIds.length === 0) {
+    if (requestedIds.length === 0) {
       return NextResponse.json({ error: 'Quiz IDs are required' }, { status: 400 })
     }
 
     logger.info('Quiz statistics fetch requested', { 
       adminUserId: user.id, 
-      quizCount: quizIds.length 
+      quizCount: requestedIds.length 
     })
 
-    const stats = await withServiceRole(user, async (serviceClient) => {
+    const stats = await withAuthoringServiceRole(user, async (serviceClient) => {
+      const scope = await loadContentScope(serviceClient, user)
+      const quizIds = requestedIds.filter(quizId => canAccessQuiz(scope, quizId))
+
       // Get question counts in parallel
       const [questionCountsResult, attemptsResult] = await Promise.all([
         serviceClient
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { withAdminAuth, createServiceClient } from '@/lib/api-auth'
+import { withAdminAuth, withAdminAudit, createServiceClient } from '@/lib/api-auth'
 import { logger } from '@/lib/logger'
 
 interface QuizWithQuestionsRequest {
@@ -27,9 +27,10 @@ interface QuizWithQuestionsRequest {
   }>
 }
 
-export const POST = withAdminAuth(async (
+export const POST = withAdminAudit(async (
   request: NextRequest,
-  user
+  user,
+  audit
 ) => {
   try {
     const requestData: QuizWithQuestionsRequest = await request.json()
@@ -65,13 +66,13 @@ export const POST = withAdminAuth(async (
         .from('quizzes')
         .insert({
           ...quizData,
-          instructor_id: user.id,
+          created_by: user.id,
           total_questions: questions.length,
           is_published: false,
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString()
         })
-        .select('id, title')
+        .select('*')
         .single()
 
       if (quizError || !quizInsert) {
@@ -118,6 +119,13 @@ export const POST = withAdminAuth(async (
         throw new Error('Failed to create questions: ' + questionsError.message)
       }
 
+      audit.record({
+        action: 'quiz.created',
+        resource_type: 'quiz',
+        resource_id: quizId,
+        after: { ...quizInsert, questions_created: questionsInsert?.length || 0 }
+      })
+
       logger.info('Successfully created quiz with questions in batch', {
         quizId,
         quizTitle: quizInsert.title,
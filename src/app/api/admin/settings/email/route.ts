@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import {
+  loadEmailSettings,
+  resolveTransportName,
+  saveEmailSettings,
+  toPublicEmailSettings,
+  validateEmailSettings,
+  type EmailSettings
+} from '@/lib/email'
+
+// GET - Sender and SMTP settings; the SMTP password is never returned
+export const GET = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const settings = await loadEmailSettings(createServiceClient())
+
+    return NextResponse.json({
+      success: true,
+      settings: toPublicEmailSettings(settings),
+      // EMAIL_TRANSPORT can override the saved transport
+      transport_in_effect: resolveTransportName(settings)
+    })
+  } catch (error: any) {
+    logger.error('Email settings API error', { error: error.message, userId: user.id })
+    return NextResponse.json({ error: 'Failed to load email settings' }, { status: 500 })
+  }
+})
+
+// PUT - Update email settings; omit smtp_password to keep the saved one
+export const PUT = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const body = await request.json()
+    const validationError = validateEmailSettings(body)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const settings = await saveEmailSettings(createServiceClient(), body as Partial<EmailSettings>, user.id)
+    logger.info('Email settings updated', { userId: user.id, transport: settings.transport })
+
+    return NextResponse.json({
+      success: true,
+      settings: toPublicEmailSettings(settings),
+      transport_in_effect: resolveTransportName(settings)
+    })
+  } catch (error: any) {
+    logger.error('Email settings API error', { error: error.message, userId: user.id })
+    return NextResponse.json({ error: 'Failed to save email settings' }, { status: 500 })
+  }
+})
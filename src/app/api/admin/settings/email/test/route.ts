@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import {
+  createMessageId,
+  createTransport,
+  getSiteUrl,
+  isValidEmail,
+  loadEmailSettings,
+  renderEmail
+} from '@/lib/email'
+
+// POST - Send a test email with the saved settings, bypassing the outbox so the result is immediate
+// Body: { to?: string } - defaults to the signed-in admin
+export const POST = withAdminAuth(async (request: NextRequest, user) => {
+  const body = await request.json().catch(() => ({}))
+  const to = body?.to || user.email
+
+  if (!isValidEmail(to)) {
+    return NextResponse.json({ error: 'Enter a valid email address to send the test to' }, { status: 400 })
+  }
+
+  try {
+    const settings = await loadEmailSettings(createServiceClient())
+    const transport = createTransport(settings)
+    const content = renderEmail('test', { name: user.email.split('@')[0] }, { site_name: settings.from_name, site_url: getSiteUrl() })
+
+    const messageId = await transport.send({
+      ...content,
+      from: { email: settings.from_email, name: settings.from_name },
+      to: { email: to },
+      reply_to: settings.reply_to || null,
+      message_id: createMessageId(settings.from_email)
+    })
+
+    logger.info('Test email sent', { userId: user.id, transport: transport.name })
+    return NextResponse.json({ success: true, transport: transport.name, message_id: messageId })
+  } catch (error: any) {
+    logger.warn('Test email failed', { error: error.message, userId: user.id })
+    // The transport's own message is the useful part, e.g. an SMTP authentication failure
+    return NextResponse.json({ error: `Test email failed: ${error.message}` }, { status: 502 })
+  }
+})
@@ -0,0 +1,68 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAdminAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import {
+  loadPlatformSettings,
+  savePlatformSettings,
+  validatePlatformSettings,
+  type PlatformSettingsUpdate
+} from '@/lib/platform-settings'
+import {
+  loadEmailSettings,
+  saveEmailSettings,
+  toPublicEmailSettings,
+  validateEmailSettings
+} from '@/lib/email'
+
+// GET - Every admin settings section; the SMTP password is never returned
+export const GET = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const supabase = createServiceClient()
+    const [settings, email] = await Promise.all([
+      loadPlatformSettings(supabase),
+      loadEmailSettings(supabase)
+    ])
+
+    return NextResponse.json({
+      success: true,
+      settings: { ...settings, email: toPublicEmailSettings(email) }
+    })
+  } catch (error: any) {
+    logger.error('Platform settings API error', { error: error.message, userId: user.id })
+    return NextResponse.json({ error: 'Failed to load settings' }, { status: 500 })
+  }
+})
+
+// PUT - Save settings; sections and keys left out keep their current values
+// Body: { site?, notifications?, security?, database?, email? }
+export const PUT = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ error: 'Settings are required' }, { status: 400 })
+    }
+
+    const { email: emailUpdate, ...update } = body
+    const validationError = validatePlatformSettings(update)
+      || (emailUpdate !== undefined ? validateEmailSettings(emailUpdate) : null)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    const supabase = createServiceClient()
+    const settings = await savePlatformSettings(supabase, update as PlatformSettingsUpdate, user.id)
+    const email = emailUpdate !== undefined
+      ? await saveEmailSettings(supabase, emailUpdate, user.id)
+      : await loadEmailSettings(supabase)
+
+    logger.info('Platform settings updated', { userId: user.id, sections: Object.keys(body) })
+
+    return NextResponse.json({
+      success: true,
+      settings: { ...settings, email: toPublicEmailSettings(email) }
+    })
+  } catch (error: any) {
+    logger.error('Platform settings API error', { error: error.message, userId: user.id })
+    return NextResponse.json({ error: 'Failed to save settings' }, { status: 500 })
+  }
+})
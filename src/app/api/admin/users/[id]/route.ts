@@ -1,10 +1,48 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { withAdminAuth, createServiceClient } from '@/lib/api-auth'
+import { withAdminAuth, withAdminAudit, createServiceClient } from '@/lib/api-auth'
 import { logger } from '@/lib/logger'
+import { changeUserRole, isUserRole, RoleChangeError } from '@/lib/user-roles'
 
-export const PUT = withAdminAuth(async (
+function getUserIdFromPath(request: NextRequest): string | undefined {
+  const pathParts = new URL(request.url).pathname.split('/')
+  return pathParts[pathParts.length - 1] || undefined
+}
+
+// PATCH - Change a user's role; the only field this route accepts
+// Body: { role: 'student' | 'instructor' | 'admin' }
+export const PATCH = withAdminAuth(async (request: NextRequest, user) => {
+  try {
+    const userId = getUserIdFromPath(request)
+    if (!userId) {
+      return NextResponse.json({ error: 'User ID is required' }, { status: 400 })
+    }
+
+    const body = await request.json().catch(() => null)
+    const { user: updated, changed } = await changeUserRole(createServiceClient(), user.id, userId, body?.role, request)
+
+    if (changed) {
+      logger.info('User role changed', { userId, role: updated.role, changedBy: user.id })
+    }
+
+    return NextResponse.json({ success: true, user: updated, changed })
+  } catch (error: any) {
+    if (error instanceof RoleChangeError) {
+      return NextResponse.json({ error: error.message }, { status: 400 })
+    }
+    if (error.message === 'User not found') {
+      return NextResponse.json({ error: error.message }, { status: 404 })
+    }
+
+    logger.error('Change role API error', { error: error.message })
+    return NextResponse.json({ error: 'Failed to change role' }, { status: 500 })
+  }
+})
+
+
+export const PUT = withAdminAudit(async (
   request: NextRequest,
-  user: any
+  user,
+  audit
 ) => {
   try {
     const supabase = createServiceClient()
@@ -39,7 +77,7 @@ export const PUT = withAdminAuth(async (
       )
     }
 
-    if (!['student', 'instructor', 'admin'].includes(role)) {
+    if (!isUserRole(role)) {
       return NextResponse.json(
         { error: 'Invalid role specified' },
         { status: 400 }
@@ -77,13 +115,16 @@ export const PUT = withAdminAuth(async (
       }
     }
 
+    // Role changes are checked and logged separately, before anything else is saved
+    await changeUserRole(supabase, user.id, userId, role, request)
+    const before = await audit.snapshot(supabase, 'user', userId)
+
     // Update user in our users table
     const { data, error } = await supabase
       .from('users')
       .update({
         name: name.trim(),
         email: email.toLowerCase(),
-        role: role,
         updated_at: new Date().toISOString()
       })
       .eq('id', userId)
@@ -105,8 +146,7 @@ export const PUT = withAdminAuth(async (
         {
           email: email.toLowerCase(),
           user_metadata: {
-            name: name.trim(),
-            role: role
+            name: name.trim()
           }
         }
       )
@@ -121,8 +161,7 @@ export const PUT = withAdminAuth(async (
         userId,
         {
           user_metadata: {
-            name: name.trim(),
-            role: role
+            name: name.trim()
           }
         }
       )
@@ -133,6 +172,8 @@ export const PUT = withAdminAuth(async (
       }
     }
 
+    audit.record({ action: 'user.updated', resource_type: 'user', resource_id: userId, before, after: data })
+
     return NextResponse.json({
       message: 'User updated successfully',
       user: data,
@@ -140,6 +181,13 @@ export const PUT = withAdminAuth(async (
     })
 
   } catch (error: any) {
+    if (error instanceof RoleChangeError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 400 }
+      )
+    }
+
     logger.error('Update user error', { error: error?.message || 'Unknown error' })
     return NextResponse.json(
       { error: 'Internal server error' },
@@ -148,9 +196,10 @@ export const PUT = withAdminAuth(async (
   }
 })
 
-export const DELETE = withAdminAuth(async (
+export const DELETE = withAdminAudit(async (
   request: NextRequest,
-  user: any
+  user,
+  audit
 ) => {
   try {
     const supabase = createServiceClient()
@@ -170,7 +219,7 @@ export const DELETE = withAdminAuth(async (
     // Check if user exists
     const { data: existingUser, error: fetchError } = await supabase
       .from('users')
-      .select('id, email, role')
+      .select('*')
       .eq('id', userId)
       .single()
 
@@ -210,6 +259,8 @@ export const DELETE = withAdminAuth(async (
       )
     }
 
+    audit.record({ action: 'user.deleted', resource_type: 'user', resource_id: userId, before: existingUser })
+
     // Delete user from Supabase Auth
     const { error: authDeleteError } = await supabase.auth.admin.deleteUser(userId)
 
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { withAdminAuth, withServiceRole } from '@/lib/api-auth'
+import { withAdminAuth, withAdminAudit, withServiceRole, createServiceClient } from '@/lib/api-auth'
 import { logger } from '@/lib/logger'
+import { AuthSecurity } from '@/lib/auth-security'
+import { getPasswordPolicy, getPlatformSettings } from '@/lib/platform-settings'
+import { isUserRole } from '@/lib/user-roles'
 
 // GET - Fetch all users for admin (SECURE)
 export const GET = withAdminAuth(async (request: NextRequest, user) => {
@@ -40,7 +43,7 @@ export const GET = withAdminAuth(async (request: NextRequest, user) => {
 })
 
 // POST - Create new user (SECURE)
-export const POST = withAdminAuth(async (request: NextRequest, user) => {
+export const POST = withAdminAudit(async (request: NextRequest, user, audit) => {
   try {
     const { name, email, password, role } = await request.json()
 
@@ -52,6 +55,13 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
       )
     }
 
+    if (!isUserRole(role)) {
+      return NextResponse.json(
+        { error: 'Invalid role specified' },
+        { status: 400 }
+      )
+    }
+
     // Validate email format
     const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
     if (!emailRegex.test(email)) {
@@ -61,6 +71,16 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
       )
     }
 
+    // Validate password against the platform password policy
+    const { security } = await getPlatformSettings(createServiceClient())
+    const passwordCheck = AuthSecurity.validatePassword(password, getPasswordPolicy(security))
+    if (!passwordCheck.isValid) {
+      return NextResponse.json(
+        { error: passwordCheck.errors[0] },
+        { status: 400 }
+      )
+    }
+
     logger.info('Admin user creation requested', { 
       adminUserId: user.id, 
       newUserEmail: email,
@@ -85,8 +105,7 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
         password,
         email_confirm: true, // Admin-created users are auto-confirmed
         user_metadata: {
-          name,
-          role
+          name
         }
       })
 
@@ -111,6 +130,8 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
         throw userError
       }
 
+      audit.record({ action: 'user.created', resource_type: 'user', resource_id: userData.id, after: userData })
+
       return userData
     })
 
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/api-auth'
+import { authRateLimiter } from '@/lib/auth-security'
+import { logger } from '@/lib/logger'
+import { getPlatformSettings } from '@/lib/platform-settings'
+import { createClient } from '@/utils/supabase/server'
+
+// POST - Sign in with email and password
+// Body: { email, password }
+// After security.login_attempts failed sign-ins an email is locked out for
+// AUTH_CONFIG.LOGIN_COOLDOWN. Sets the session cookies and returns the tokens
+// so the browser client can pick up the session.
+// Failures are counted in memory per server instance, and sign-ins sent straight
+// to Supabase Auth bypass this route; Supabase's own rate limits cover those.
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null)
+  const email = typeof body?.email === 'string' ? body.email.trim().toLowerCase() : ''
+  const password = typeof body?.password === 'string' ? body.password : ''
+  if (!email || !password) {
+    return NextResponse.json(
+      { success: false, error: 'Email and password are required', code: 'INVALID_CREDENTIALS' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const { security } = await getPlatformSettings(createServiceClient())
+    const identifier = `login:${email}`
+
+    if (authRateLimiter.isBlocked(identifier, security.login_attempts)) {
+      const retryAfter = Math.ceil(authRateLimiter.getRemainingCooldown(identifier) / 1000)
+      return NextResponse.json(
+        { success: false, error: 'Too many failed sign-in attempts. Try again later.', code: 'RATE_LIMITED' },
+        { status: 429, headers: { 'Retry-After': String(retryAfter) } }
+      )
+    }
+
+    const supabase = await createClient()
+    const { data, error } = await supabase.auth.signInWithPassword({ email, password })
+
+    authRateLimiter.recordAttempt(identifier, !error, security.login_attempts)
+
+    if (error || !data.session) {
+      return NextResponse.json(
+        { success: false, error: error?.message || 'Failed to sign in', code: 'INVALID_CREDENTIALS' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      session: {
+        access_token: data.session.access_token,
+        refresh_token: data.session.refresh_token
+      }
+    })
+  } catch (error: any) {
+    logger.error('Sign in API error', { error: error.message })
+    return NextResponse.json(
+      { success: false, error: 'Something went wrong. Please try again.', code: 'SIGN_IN_FAILED' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import rateLimiter, { getClientIdentifier, RateLimitPresets } from '@/lib/rate-limit'
+import { getSiteUrl, isValidEmail, sendPasswordResetEmail } from '@/lib/email'
+
+// POST - Email a password reset link in the platform's branding
+// Body: { email }
+// Answers the same whether or not the account exists. Without a real email
+// transport configured, Supabase Auth sends its default reset email instead.
+export async function POST(request: NextRequest) {
+  const rateLimitResult = rateLimiter.check(
+    `password-reset:${getClientIdentifier(request)}`,
+    RateLimitPresets.strict.limit,
+    RateLimitPresets.strict.windowMs
+  )
+  if (!rateLimitResult.success) {
+    return NextResponse.json(
+      { success: false, error: 'Too many requests. Try again in a moment.', code: 'RATE_LIMITED' },
+      { status: 429, headers: { 'Retry-After': String(rateLimitResult.retryAfter || 60) } }
+    )
+  }
+
+  const body = await request.json().catch(() => null)
+  const email = typeof body?.email === 'string' ? body.email.trim().toLowerCase() : ''
+  if (!isValidEmail(email)) {
+    return NextResponse.json(
+      { success: false, error: 'Please enter a valid email address', code: 'INVALID_EMAIL' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const serviceClient = createServiceClient()
+    const redirectTo = `${getSiteUrl()}/auth/reset-password`
+
+    const sent = await sendPasswordResetEmail(serviceClient, email, redirectTo)
+    if (!sent) {
+      const { error } = await serviceClient.auth.resetPasswordForEmail(email, { redirectTo })
+      if (error) {
+        logger.warn('Supabase password reset failed', { error: error.message })
+      }
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    logger.error('Password reset API error', { error: error.message })
+    return NextResponse.json(
+      { success: false, error: 'Something went wrong. Please try again.', code: 'PASSWORD_RESET_FAILED' },
+      { status: 500 }
+    )
+  }
+}
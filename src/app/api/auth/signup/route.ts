@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/api-auth'
+import { AuthSecurity } from '@/lib/auth-security'
+import { isValidEmail } from '@/lib/email'
+import { logger } from '@/lib/logger'
+import { getPasswordPolicy, getPlatformSettings } from '@/lib/platform-settings'
+import rateLimiter, { getClientIdentifier, RateLimitPresets } from '@/lib/rate-limit'
+import { createClient } from '@/utils/supabase/server'
+
+// POST - Create an account with email and password
+// Body: { email, password, name? }
+// The password must meet the admin security settings' policy. Returns the
+// session tokens, or a null session while the email still needs confirming.
+export async function POST(request: NextRequest) {
+  const rateLimitResult = rateLimiter.check(
+    `signup:${getClientIdentifier(request)}`,
+    RateLimitPresets.strict.limit,
+    RateLimitPresets.strict.windowMs
+  )
+  if (!rateLimitResult.success) {
+    return NextResponse.json(
+      { success: false, error: 'Too many requests. Try again in a moment.', code: 'RATE_LIMITED' },
+      { status: 429, headers: { 'Retry-After': String(rateLimitResult.retryAfter || 60) } }
+    )
+  }
+
+  const body = await request.json().catch(() => null)
+  const email = typeof body?.email === 'string' ? body.email.trim().toLowerCase() : ''
+  const password = typeof body?.password === 'string' ? body.password : ''
+  const name = typeof body?.name === 'string' ? body.name.trim().slice(0, 200) : undefined
+  if (!isValidEmail(email)) {
+    return NextResponse.json(
+      { success: false, error: 'Please enter a valid email address', code: 'INVALID_EMAIL' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const { security } = await getPlatformSettings(createServiceClient())
+    const passwordCheck = AuthSecurity.validatePassword(password, getPasswordPolicy(security))
+    if (!passwordCheck.isValid) {
+      return NextResponse.json(
+        { success: false, error: passwordCheck.errors[0], errors: passwordCheck.errors, code: 'WEAK_PASSWORD' },
+        { status: 400 }
+      )
+    }
+
+    const supabase = await createClient()
+    const { data, error } = await supabase.auth.signUp({
+      email,
+      password,
+      options: {
+        data: { name }
+      }
+    })
+
+    if (error) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: 'SIGN_UP_FAILED' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      session: data.session
+        ? { access_token: data.session.access_token, refresh_token: data.session.refresh_token }
+        : null
+    })
+  } catch (error: any) {
+    logger.error('Sign up API error', { error: error.message })
+    return NextResponse.json(
+      { success: false, error: 'Something went wrong. Please try again.', code: 'SIGN_UP_FAILED' },
+      { status: 500 }
+    )
+  }
+}
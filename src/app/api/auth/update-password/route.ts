@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/api-auth'
+import { AuthSecurity } from '@/lib/auth-security'
+import { logger } from '@/lib/logger'
+import { getPasswordPolicy, getPlatformSettings } from '@/lib/platform-settings'
+import { createClient } from '@/utils/supabase/server'
+
+// POST - Set a new password for the signed-in user, e.g. from a reset link
+// Body: { password }
+// The password must meet the admin security settings' policy
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => null)
+  const password = typeof body?.password === 'string' ? body.password : ''
+
+  try {
+    const supabase = await createClient()
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Reset link has expired or is invalid. Please request a new password reset.', code: 'AUTH_REQUIRED' },
+        { status: 401 }
+      )
+    }
+
+    const { security } = await getPlatformSettings(createServiceClient())
+    const passwordCheck = AuthSecurity.validatePassword(password, getPasswordPolicy(security))
+    if (!passwordCheck.isValid) {
+      return NextResponse.json(
+        { success: false, error: passwordCheck.errors[0], errors: passwordCheck.errors, code: 'WEAK_PASSWORD' },
+        { status: 400 }
+      )
+    }
+
+    const { error } = await supabase.auth.updateUser({ password })
+    if (error) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: 'PASSWORD_UPDATE_FAILED' },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error: any) {
+    logger.error('Password update API error', { error: error.message })
+    return NextResponse.json(
+      { success: false, error: 'Something went wrong. Please try again.', code: 'PASSWORD_UPDATE_FAILED' },
+      { status: 500 }
+    )
+  }
+}
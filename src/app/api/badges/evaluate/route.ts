@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { evaluateBadges } from '@/lib/badges'
+import { notifyEnrollment } from '@/lib/notifications'
+import { sendEnrollmentEmail } from '@/lib/email'
+
+const CLIENT_EVENTS = ['lesson_completed', 'enrollment'] as const
+
+// POST - Check for badges after a lesson completion or enrollment made from the browser
+// Body: { event: 'lesson_completed' | 'enrollment', course_id?: string }
+// Only says which event happened; the engine re-reads the learner's records to decide.
+// Enrollments also get their welcome notification and email here, once the enrollment is confirmed.
+export const POST = withAuth(async (request: NextRequest, user) => {
+  try {
+    const body = await request.json().catch(() => null)
+    const event = body?.event
+
+    if (!CLIENT_EVENTS.includes(event)) {
+      return NextResponse.json(
+        { success: false, error: `event must be one of: ${CLIENT_EVENTS.join(', ')}`, code: 'INVALID_EVENT' },
+        { status: 400 }
+      )
+    }
+
+    const courseId = typeof body.course_id === 'string' ? body.course_id : undefined
+    const serviceClient = createServiceClient()
+
+    if (event === 'enrollment' && courseId) {
+      try {
+        await notifyEnrollment(serviceClient, user.id, courseId)
+      } catch (notifyError: any) {
+        logger.warn('Failed to send enrollment notification', { error: notifyError.message, userId: user.id })
+      }
+
+      try {
+        await sendEnrollmentEmail(serviceClient, user.id, courseId)
+      } catch (emailError: any) {
+        logger.warn('Failed to queue enrollment email', { error: emailError.message, userId: user.id })
+      }
+    }
+
+    const newBadges = await evaluateBadges(serviceClient, user.id, { type: event, course_id: courseId })
+
+    return NextResponse.json({ success: true, new_badges: newBadges })
+  } catch (error: any) {
+    logger.error('Badge evaluation API error', { error: error.message, userId: user.id })
+    return NextResponse.json({ success: false, error: 'Failed to check badges' }, { status: 500 })
+  }
+})
@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { listLearnerBadges } from '@/lib/badges'
+
+// GET - The signed-in learner's badge shelf: earned badges and progress toward the rest
+export const GET = withAuth(async (request: NextRequest, user) => {
+  try {
+    const badges = await listLearnerBadges(createServiceClient(), user.id)
+
+    return NextResponse.json({ success: true, badges })
+  } catch (error: any) {
+    logger.error('Badges API error', { error: error.message, userId: user.id })
+    return NextResponse.json({ success: false, error: 'Failed to load badges' }, { status: 500 })
+  }
+})
@@ -0,0 +1,57 @@
+/**
+ * Certificate Image
+ * Renders the certificate as SVG; ?download=1 serves it as an attachment.
+ * Revoked certificates are not rendered.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import {
+  findCertificateByCode,
+  loadCertificateTemplate,
+  renderCertificateSvg,
+  toCertificateVerification,
+  withTemplateDefaults
+} from '@/lib/certificates'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  let code: string | undefined
+
+  try {
+    code = (await params).code
+    const serviceClient = createServiceClient()
+    const certificate = await findCertificateByCode(serviceClient, code)
+
+    if (!certificate || toCertificateVerification(certificate).status === 'revoked') {
+      return NextResponse.json(
+        { success: false, error: 'Certificate not found', code: 'CERTIFICATE_NOT_FOUND' },
+        { status: 404 }
+      )
+    }
+
+    const template = withTemplateDefaults(await loadCertificateTemplate(serviceClient, certificate.template_id))
+    const url = new URL(request.url)
+    const verifyUrl = `${url.origin}/certificates/${certificate.certificate_number}`
+    const svg = renderCertificateSvg(template, certificate, verifyUrl)
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'image/svg+xml; charset=utf-8',
+      'Cache-Control': 'public, max-age=300'
+    }
+    if (url.searchParams.get('download')) {
+      headers['Content-Disposition'] = `attachment; filename="certificate-${certificate.certificate_number}.svg"`
+    }
+
+    return new NextResponse(svg, { headers })
+  } catch (error: any) {
+    logger.error('Certificate image API error', { error: error.message, code })
+    return NextResponse.json(
+      { success: false, error: 'Failed to render certificate' },
+      { status: 500 }
+    )
+  }
+}
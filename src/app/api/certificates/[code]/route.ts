@@ -0,0 +1,37 @@
+/**
+ * Public Certificate Verification
+ * Anyone with the code can check a certificate; only the name on it, the title,
+ * the score and its status are returned.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { findCertificateByCode, toCertificateVerification } from '@/lib/certificates'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ code: string }> }
+) {
+  let code: string | undefined
+
+  try {
+    code = (await params).code
+    const certificate = await findCertificateByCode(createServiceClient(), code)
+
+    if (!certificate) {
+      return NextResponse.json(
+        { success: false, error: 'Certificate not found', code: 'CERTIFICATE_NOT_FOUND' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, certificate: toCertificateVerification(certificate) })
+  } catch (error: any) {
+    logger.error('Certificate verification API error', { error: error.message, code })
+    return NextResponse.json(
+      { success: false, error: 'Failed to verify certificate' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { listUserCertificates, toCertificateVerification } from '@/lib/certificates'
+
+// GET - The signed-in learner's certificates, newest first
+export const GET = withAuth(async (request: NextRequest, user) => {
+  try {
+    const certificates = await listUserCertificates(createServiceClient(), user.id)
+
+    return NextResponse.json({
+      success: true,
+      certificates: certificates.map(certificate => ({
+        id: certificate.id,
+        course_id: certificate.course_id,
+        quiz_id: certificate.quiz_id,
+        ...toCertificateVerification(certificate)
+      }))
+    })
+  } catch (error: any) {
+    logger.error('Certificates API error', { error: error.message, userId: user.id })
+    return NextResponse.json({ success: false, error: 'Failed to load certificates' }, { status: 500 })
+  }
+})
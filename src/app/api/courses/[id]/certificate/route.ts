@@ -0,0 +1,55 @@
+/**
+ * Course Certificate Endpoint
+ * POST issues the course certificate once every published lesson is complete.
+ * Completion is recomputed from lesson_progress; the client's progress figure isn't trusted.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createAuthenticatedClient, createServiceClient, verifyAuthentication } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { getCourseCompletion, issueCourseCertificate, toCertificateVerification } from '@/lib/certificates'
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  let courseId: string | undefined
+
+  try {
+    courseId = (await params).id
+
+    const supabase = await createAuthenticatedClient(request)
+    let user
+    try {
+      user = await verifyAuthentication(supabase)
+    } catch {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const serviceClient = createServiceClient()
+    const result = await issueCourseCertificate(serviceClient, user.id, courseId)
+
+    if (!result) {
+      return NextResponse.json({
+        success: true,
+        certificate: null,
+        completion: await getCourseCompletion(serviceClient, user.id, courseId)
+      })
+    }
+
+    return NextResponse.json({
+      success: true,
+      issued: result.issued,
+      certificate: toCertificateVerification(result.certificate)
+    })
+  } catch (error: any) {
+    logger.error('Course certificate API error', { error: error.message, courseId })
+    return NextResponse.json(
+      { success: false, error: 'Failed to issue certificate' },
+      { status: 500 }
+    )
+  }
+}
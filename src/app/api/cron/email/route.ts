@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { timingSafeEqual } from 'crypto'
+import { createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { processOutbox, queueWeeklyDigests } from '@/lib/email'
+
+function isAuthorizedCron(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET
+  if (!secret) return false
+
+  const expected = Buffer.from(`Bearer ${secret}`)
+  const received = Buffer.from(request.headers.get('authorization') || '')
+  return received.length === expected.length && timingSafeEqual(received, expected)
+}
+
+// GET - Scheduled email worker: send every email that is due, including retries
+// ?task=digests first queues last week's progress digests (run weekly)
+// Called by the scheduler (vercel.json crons, or any cron with curl) with Authorization: Bearer CRON_SECRET
+export async function GET(request: NextRequest) {
+  if (!isAuthorizedCron(request)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const supabase = createServiceClient()
+    const task = new URL(request.url).searchParams.get('task')
+
+    const digestsQueued = task === 'digests' ? await queueWeeklyDigests(supabase) : 0
+    const result = await processOutbox(supabase, { limit: 100 })
+    logger.info('Email cron run', { task: task || 'outbox', digestsQueued, ...result })
+
+    return NextResponse.json({ success: true, digests_queued: digestsQueued, ...result })
+  } catch (error: any) {
+    logger.error('Email cron error', { error: error.message })
+    return NextResponse.json({ error: 'Failed to process email outbox' }, { status: 500 })
+  }
+}
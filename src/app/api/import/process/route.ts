@@ -1,10 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { withAdminAuth, withServiceRole } from '@/lib/api-auth'
+import { withAdminAudit, withServiceRole } from '@/lib/api-auth'
 import { logger } from '@/lib/logger'
 import type { QuestionImport } from '@/lib/import/validation'
 
 // Import process API - fixed schema mapping
-export const POST = withAdminAuth(async (request: NextRequest, user) => {
+export const POST = withAdminAudit(async (request: NextRequest, user, audit) => {
   try {
     logger.info('[Import Process] Request received', { adminUserId: user.id })
     
@@ -50,7 +50,7 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
             passing_score: newQuizData.passing_score || 70,
             is_published: false // Start as draft
           })
-          .select('id')
+          .select('*')
           .single()
         
         if (quizError || !newQuiz) {
@@ -59,6 +59,7 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
         }
         
         targetQuizId = newQuiz.id
+        audit.record({ action: 'quiz.created', resource_type: 'quiz', resource_id: newQuiz.id, after: newQuiz })
         logger.info('[Import Process] Quiz created', { quizId: targetQuizId })
       }
       
@@ -165,6 +166,14 @@ export const POST = withAdminAuth(async (request: NextRequest, user) => {
         logger.warn('[Import Process] Failed to update quiz count', { error: updateError })
         // Non-critical error, continue
       }
+
+      audit.record({
+        action: 'quiz.questions_imported',
+        resource_type: 'quiz',
+        resource_id: targetQuizId,
+        before: { total_questions: currentQuiz?.total_questions || 0 },
+        after: { total_questions: newTotal, questions_imported: insertedQuestions?.length || 0 }
+      })
       
       logger.info('[Import Process] Success', { 
         quizId: targetQuizId,
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { acceptInstructorInvite, RoleChangeError } from '@/lib/user-roles'
+
+// POST - Accept an instructor invitation as the signed-in user
+// Body: { token: string }
+export const POST = withAuth(async (request: NextRequest, user) => {
+  try {
+    const body = await request.json().catch(() => null)
+    const token = body?.token
+
+    if (typeof token !== 'string' || !token || token.length > 200) {
+      return NextResponse.json(
+        { success: false, error: 'Invitation token is required', code: 'INVALID_TOKEN' },
+        { status: 400 }
+      )
+    }
+
+    const { invite, role } = await acceptInstructorInvite(createServiceClient(), user, token, request)
+    logger.info('Instructor invite accepted', { inviteId: invite.id, userId: user.id, role })
+
+    return NextResponse.json({ success: true, role })
+  } catch (error: any) {
+    if (error instanceof RoleChangeError) {
+      return NextResponse.json(
+        { success: false, error: error.message, code: 'INVITE_NOT_ACCEPTED' },
+        { status: 400 }
+      )
+    }
+
+    logger.error('Accept invite API error', { error: error.message, userId: user.id })
+    return NextResponse.json({ success: false, error: 'Failed to accept invitation' }, { status: 500 })
+  }
+})
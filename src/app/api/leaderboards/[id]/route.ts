@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { loadUserSettings } from '@/lib/user-settings'
+import {
+  LEADERBOARD_FIELDS,
+  computeStandings,
+  getCurrentPeriod,
+  listArchivedPeriods,
+  loadArchivedStandings,
+  loadScopeNames,
+  nameStandings,
+  rollOverLeaderboard,
+  toLeaderboard
+} from '@/lib/leaderboards'
+
+// GET - One public leaderboard's standings for the current period, or ?period=<start> for an archived one
+// Closed periods are archived here on first view after they end
+export const GET = withAuth(async (request: NextRequest, user) => {
+  try {
+    const url = new URL(request.url)
+    const leaderboardId = url.pathname.split('/').pop()
+    const requestedPeriod = url.searchParams.get('period')
+
+    const supabase = createServiceClient()
+    const { data, error } = await supabase
+      .from('leaderboards')
+      .select(LEADERBOARD_FIELDS)
+      .eq('id', leaderboardId)
+      .eq('is_public', true)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Failed to fetch leaderboard', { error: error.message, leaderboardId, userId: user.id })
+      return NextResponse.json({ success: false, error: 'Failed to load leaderboard' }, { status: 500 })
+    }
+    if (!data) {
+      return NextResponse.json(
+        { success: false, error: 'Leaderboard not found', code: 'LEADERBOARD_NOT_FOUND' },
+        { status: 404 }
+      )
+    }
+
+    const board = await rollOverLeaderboard(supabase, toLeaderboard(data))
+
+    let period: { start: string | null; end: string }
+    let standings
+    if (requestedPeriod) {
+      const archived = await loadArchivedStandings(supabase, board.id, requestedPeriod)
+      if (!archived.period) {
+        return NextResponse.json(
+          { success: false, error: 'No standings were archived for that period', code: 'PERIOD_NOT_FOUND' },
+          { status: 404 }
+        )
+      }
+      period = archived.period
+      standings = archived.standings
+    } else {
+      period = getCurrentPeriod(board, new Date())
+      standings = await computeStandings(supabase, board, period)
+    }
+
+    const [scopeNames, settings, archivedPeriods] = await Promise.all([
+      loadScopeNames(supabase, [board]),
+      loadUserSettings(supabase, user.id),
+      board.time_period === 'all_time' ? Promise.resolve([]) : listArchivedPeriods(supabase, board.id)
+    ])
+
+    // Learners outside the top still see where they stand
+    const visible = standings.slice(0, board.max_entries)
+    const ownStanding = standings.find(standing => standing.user_id === user.id)
+    const named = await nameStandings(
+      supabase,
+      ownStanding && !visible.includes(ownStanding) ? [...visible, ownStanding] : visible,
+      user.id
+    )
+
+    return NextResponse.json({
+      success: true,
+      leaderboard: {
+        id: board.id,
+        name: board.name,
+        description: board.description,
+        leaderboard_type: board.leaderboard_type,
+        time_period: board.time_period,
+        max_entries: board.max_entries,
+        scope_name: scopeNames.get(board.id) || null
+      },
+      period: { ...period, is_current: !requestedPeriod },
+      standings: named.slice(0, visible.length),
+      participants: standings.length,
+      my_standing: named.find(standing => standing.is_current_user) || null,
+      opted_out: !settings.privacy.showOnLeaderboards,
+      archived_periods: archivedPeriods
+    })
+  } catch (error: any) {
+    logger.error('Leaderboard API error', { error: error.message, userId: user.id })
+    return NextResponse.json({ success: false, error: 'Failed to load leaderboard' }, { status: 500 })
+  }
+})
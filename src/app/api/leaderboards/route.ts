@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { LEADERBOARD_FIELDS, loadScopeNames, toLeaderboard } from '@/lib/leaderboards'
+
+// GET - Public leaderboards
+export const GET = withAuth(async (request: NextRequest, user) => {
+  try {
+    const supabase = createServiceClient()
+    const { data, error } = await supabase
+      .from('leaderboards')
+      .select(LEADERBOARD_FIELDS)
+      .eq('is_public', true)
+      .order('name')
+
+    if (error) {
+      logger.error('Failed to fetch leaderboards', { error: error.message, userId: user.id })
+      return NextResponse.json({ success: false, error: 'Failed to load leaderboards' }, { status: 500 })
+    }
+
+    const boards = (data || []).map(toLeaderboard)
+    const scopeNames = await loadScopeNames(supabase, boards)
+
+    return NextResponse.json({
+      success: true,
+      leaderboards: boards.map(board => ({
+        id: board.id,
+        name: board.name,
+        description: board.description,
+        leaderboard_type: board.leaderboard_type,
+        time_period: board.time_period,
+        scope_name: scopeNames.get(board.id) || null
+      }))
+    })
+  } catch (error: any) {
+    logger.error('Leaderboards API error', { error: error.message, userId: user.id })
+    return NextResponse.json({ success: false, error: 'Failed to load leaderboards' }, { status: 500 })
+  }
+})
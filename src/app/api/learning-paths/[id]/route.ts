@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { LEARNING_PATH_FIELDS, buildPathProgress, toLearningPath } from '@/lib/learning-paths'
+
+// GET - One public learning path: its quizzes in order, which are unlocked and the learner's scores
+export const GET = withAuth(async (request: NextRequest, user) => {
+  try {
+    const url = new URL(request.url)
+    const pathId = url.pathname.split('/').pop()
+
+    const supabase = createServiceClient()
+    const { data, error } = await supabase
+      .from('learning_paths')
+      .select(LEARNING_PATH_FIELDS)
+      .eq('id', pathId)
+      .eq('is_public', true)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Failed to fetch learning path', { error: error.message, pathId, userId: user.id })
+      return NextResponse.json({ success: false, error: 'Failed to load learning path' }, { status: 500 })
+    }
+    if (!data) {
+      return NextResponse.json(
+        { success: false, error: 'Learning path not found', code: 'LEARNING_PATH_NOT_FOUND' },
+        { status: 404 }
+      )
+    }
+
+    const path = toLearningPath(data)
+    const progress = (await buildPathProgress(supabase, user.id, [path])).get(path.id)!
+    const quizIds = progress.steps.map(step => step.quiz_id)
+
+    const [quizzesResult, prerequisitesResult, progressRowResult] = await Promise.all([
+      quizIds.length > 0
+        ? supabase
+            .from('quizzes')
+            .select('id, title, description, difficulty, category, time_limit_minutes, total_questions')
+            .in('id', quizIds)
+        : Promise.resolve({ data: [] as any[], error: null }),
+      path.prerequisites.length > 0
+        ? supabase
+            .from('learning_paths')
+            .select('id, name')
+            .in('id', path.prerequisites)
+        : Promise.resolve({ data: [] as any[], error: null }),
+      supabase
+        .from('learning_path_progress')
+        .select('started_at, completed_at')
+        .eq('user_id', user.id)
+        .eq('learning_path_id', path.id)
+        .maybeSingle()
+    ])
+
+    if (quizzesResult.error) {
+      throw new Error(`Failed to load path quizzes: ${quizzesResult.error.message}`)
+    }
+
+    const quizzes = new Map((quizzesResult.data || []).map((quiz: any) => [quiz.id, quiz]))
+    const missing = new Set(progress.missing_prerequisites)
+
+    return NextResponse.json({
+      success: true,
+      path: {
+        id: path.id,
+        name: path.name,
+        description: path.description,
+        difficulty_level: path.difficulty_level,
+        estimated_hours: path.estimated_hours,
+        tags: path.tags,
+        completion_criteria: path.completion_criteria
+      },
+      prerequisites: (prerequisitesResult.data || []).map((prerequisite: { id: string; name: string }) => ({
+        ...prerequisite,
+        completed: !missing.has(prerequisite.id)
+      })),
+      steps: progress.steps.map(step => ({ ...step, quiz: quizzes.get(step.quiz_id) || null })),
+      progress: {
+        met_count: progress.met_count,
+        progress_percentage: progress.progress_percentage,
+        current_quiz_index: progress.current_quiz_index,
+        completed: progress.completed,
+        started_at: progressRowResult.data?.started_at || null,
+        completed_at: progressRowResult.data?.completed_at || null
+      }
+    })
+  } catch (error: any) {
+    logger.error('Learning path API error', { error: error.message, userId: user.id })
+    return NextResponse.json({ success: false, error: 'Failed to load learning path' }, { status: 500 })
+  }
+})
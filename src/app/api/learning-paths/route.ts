@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { LEARNING_PATH_FIELDS, buildPathProgress, toLearningPath } from '@/lib/learning-paths'
+
+// GET - Public learning paths with the signed-in learner's progress on each
+export const GET = withAuth(async (request: NextRequest, user) => {
+  try {
+    const supabase = createServiceClient()
+    const { data, error } = await supabase
+      .from('learning_paths')
+      .select(LEARNING_PATH_FIELDS)
+      .eq('is_public', true)
+      .order('name')
+
+    if (error) {
+      logger.error('Failed to fetch learning paths', { error: error.message, userId: user.id })
+      return NextResponse.json({ success: false, error: 'Failed to load learning paths' }, { status: 500 })
+    }
+
+    const paths = (data || []).map(toLearningPath)
+    const progress = await buildPathProgress(supabase, user.id, paths)
+
+    return NextResponse.json({
+      success: true,
+      paths: paths.map(path => {
+        const pathProgress = progress.get(path.id)!
+        return {
+          id: path.id,
+          name: path.name,
+          description: path.description,
+          difficulty_level: path.difficulty_level,
+          estimated_hours: path.estimated_hours,
+          tags: path.tags,
+          quiz_count: pathProgress.steps.length,
+          progress: {
+            met_count: pathProgress.met_count,
+            progress_percentage: pathProgress.progress_percentage,
+            completed: pathProgress.completed,
+            locked: pathProgress.missing_prerequisites.length > 0
+          }
+        }
+      })
+    })
+  } catch (error: any) {
+    logger.error('Learning paths API error', { error: error.message, userId: user.id })
+    return NextResponse.json({ success: false, error: 'Failed to load learning paths' }, { status: 500 })
+  }
+})
@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import {
+  MOCK_TEST_FIELDS,
+  computeBandProfile,
+  getMockTestQuizIds,
+  getSectionBandTable,
+  loadSectionScores,
+  toMockTest
+} from '@/lib/mock-tests'
+import { IELTS_SKILLS } from '@/lib/score-utils'
+
+// GET - One published mock test: its sections' quizzes, the student's score on each and the band profile
+export const GET = withAuth(async (request: NextRequest, user) => {
+  try {
+    const url = new URL(request.url)
+    const mockTestId = url.pathname.split('/').pop()
+
+    const supabase = createServiceClient()
+    const { data, error } = await supabase
+      .from('mock_tests')
+      .select(MOCK_TEST_FIELDS)
+      .eq('id', mockTestId)
+      .eq('is_published', true)
+      .maybeSingle()
+
+    if (error) {
+      logger.error('Failed to fetch mock test', { error: error.message, mockTestId, userId: user.id })
+      return NextResponse.json({ success: false, error: 'Failed to load mock test' }, { status: 500 })
+    }
+    if (!data) {
+      return NextResponse.json(
+        { success: false, error: 'Mock test not found', code: 'MOCK_TEST_NOT_FOUND' },
+        { status: 404 }
+      )
+    }
+
+    const test = toMockTest(data)
+    const quizIds = getMockTestQuizIds(test)
+    const [scores, quizzesResult] = await Promise.all([
+      loadSectionScores(supabase, user.id, quizIds),
+      quizIds.length > 0
+        ? supabase
+            .from('quizzes')
+            .select('id, title, description, time_limit_minutes, total_questions')
+            .in('id', quizIds)
+            .eq('is_published', true)
+        : Promise.resolve({ data: [] as any[], error: null })
+    ])
+
+    if (quizzesResult.error) {
+      throw new Error(`Failed to load mock test quizzes: ${quizzesResult.error.message}`)
+    }
+
+    const quizzes = new Map((quizzesResult.data || []).map((quiz: any) => [quiz.id, quiz]))
+    const profile = computeBandProfile(test, scores)
+
+    return NextResponse.json({
+      success: true,
+      test: {
+        id: test.id,
+        title: test.title,
+        description: test.description,
+        module: test.module
+      },
+      sections: IELTS_SKILLS.map((skill, index) => ({
+        ...profile.sections[index],
+        quizzes: test.sections[skill]
+          .filter(quizId => quizzes.has(quizId))
+          .map(quizId => ({
+            ...quizzes.get(quizId),
+            percentage_score: scores[quizId]?.percentage_score ?? null,
+            pending_review: scores[quizId]?.pending_review ?? false
+          })),
+        band_table: skill === 'listening' || skill === 'reading' ? getSectionBandTable(test, skill) : null
+      })),
+      overall_band: profile.overall_band,
+      complete: profile.complete
+    })
+  } catch (error: any) {
+    logger.error('Mock test API error', { error: error.message, userId: user.id })
+    return NextResponse.json({ success: false, error: 'Failed to load mock test' }, { status: 500 })
+  }
+})
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import {
+  MOCK_TEST_FIELDS,
+  computeBandProfile,
+  getMockTestQuizIds,
+  loadSectionScores,
+  toMockTest
+} from '@/lib/mock-tests'
+
+// GET - Published mock tests with the signed-in student's bands on each
+export const GET = withAuth(async (request: NextRequest, user) => {
+  try {
+    const supabase = createServiceClient()
+    const { data, error } = await supabase
+      .from('mock_tests')
+      .select(MOCK_TEST_FIELDS)
+      .eq('is_published', true)
+      .order('title')
+
+    if (error) {
+      logger.error('Failed to fetch mock tests', { error: error.message, userId: user.id })
+      return NextResponse.json({ success: false, error: 'Failed to load mock tests' }, { status: 500 })
+    }
+
+    const tests = (data || []).map(toMockTest)
+    const quizIds = Array.from(new Set(tests.flatMap(getMockTestQuizIds)))
+    const scores = await loadSectionScores(supabase, user.id, quizIds)
+
+    return NextResponse.json({
+      success: true,
+      tests: tests.map(test => ({
+        id: test.id,
+        title: test.title,
+        description: test.description,
+        module: test.module,
+        profile: computeBandProfile(test, scores)
+      }))
+    })
+  } catch (error: any) {
+    logger.error('Mock tests API error', { error: error.message, userId: user.id })
+    return NextResponse.json({ success: false, error: 'Failed to load mock tests' }, { status: 500 })
+  }
+})
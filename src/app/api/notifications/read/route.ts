@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { countUnreadNotifications, markNotificationsRead } from '@/lib/notifications'
+
+// POST - Mark notifications read
+// Body: { ids: string[] } or { all: true }
+export const POST = withAuth(async (request: NextRequest, user) => {
+  try {
+    const body = await request.json().catch(() => null)
+    const all = body?.all === true
+    const ids = body?.ids
+
+    if (!all && (!Array.isArray(ids) || ids.length === 0 || !ids.every((id: unknown) => typeof id === 'string'))) {
+      return NextResponse.json(
+        { success: false, error: 'Provide ids to mark read, or all: true', code: 'INVALID_REQUEST' },
+        { status: 400 }
+      )
+    }
+
+    const serviceClient = createServiceClient()
+    const updated = await markNotificationsRead(serviceClient, user.id, all ? 'all' : ids)
+    const unreadCount = await countUnreadNotifications(serviceClient, user.id)
+
+    return NextResponse.json({ success: true, updated, unread_count: unreadCount })
+  } catch (error: any) {
+    logger.error('Mark notifications read API error', { error: error.message, userId: user.id })
+    return NextResponse.json({ success: false, error: 'Failed to update notifications' }, { status: 500 })
+  }
+})
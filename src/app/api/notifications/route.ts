@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { generateReminders, listNotifications } from '@/lib/notifications'
+
+const MAX_LIMIT = 50
+
+// GET - The signed-in user's latest notifications and unread count
+// Query: ?limit=20&unread=true
+// Due course and quiz deadline reminders are sent first, so the inbox is the only trigger they need.
+export const GET = withAuth(async (request: NextRequest, user) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20', 10) || 20, 1), MAX_LIMIT)
+    const serviceClient = createServiceClient()
+
+    try {
+      await generateReminders(serviceClient, user.id)
+    } catch (reminderError: any) {
+      logger.warn('Failed to generate reminders', { error: reminderError.message, userId: user.id })
+    }
+
+    const inbox = await listNotifications(serviceClient, user.id, {
+      limit,
+      unreadOnly: searchParams.get('unread') === 'true'
+    })
+
+    return NextResponse.json({ success: true, ...inbox })
+  } catch (error: any) {
+    logger.error('Notifications API error', { error: error.message, userId: user.id })
+    return NextResponse.json({ success: false, error: 'Failed to load notifications' }, { status: 500 })
+  }
+})
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { DEFAULT_PLATFORM_SETTINGS, getPasswordPolicy, getPlatformSettings } from '@/lib/platform-settings'
+
+// GET - The settings sign-up and password forms need before anyone signs in:
+// the site name and the password policy
+export async function GET() {
+  try {
+    const settings = await getPlatformSettings(createServiceClient())
+
+    return NextResponse.json({
+      success: true,
+      site: { name: settings.site.name, description: settings.site.description },
+      password_policy: getPasswordPolicy(settings.security)
+    }, {
+      headers: { 'Cache-Control': 'public, max-age=60, stale-while-revalidate=300' }
+    })
+  } catch (error: any) {
+    logger.error('Public platform settings API error', { error: error.message })
+    // The defaults are still a usable policy
+    return NextResponse.json({
+      success: true,
+      site: { name: DEFAULT_PLATFORM_SETTINGS.site.name, description: DEFAULT_PLATFORM_SETTINGS.site.description },
+      password_policy: getPasswordPolicy()
+    })
+  }
+}
@@ -4,8 +4,14 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { createAuthenticatedClient, verifyAuthentication } from '@/lib/api-auth'
+import { createAuthenticatedClient, createServiceClient, verifyAuthentication } from '@/lib/api-auth'
 import { logger } from '@/lib/logger'
+import { gradeQuestion } from '@/lib/grading'
+import type { AttemptQuestionDraw } from '@/lib/question-bank'
+import { applyQuestionShuffle, type QuestionShuffle } from '@/lib/quiz-shuffle'
+import { computeOfficialScore, listQuizAttempts, normalizeGradingPolicy } from '@/lib/quiz-policies'
+import { formatTimestamp, isListeningQuiz, normalizeListeningSettings } from '@/lib/listening'
+import { createRecordingUrls, getSpeakingAnswer } from '@/lib/speaking'
 
 // Input validation helper
 function validateAttemptId(attemptId: string | undefined): string {
@@ -62,12 +68,20 @@ export async function GET(
         percentage_score,
         attempt_number,
         completed_at,
+        grading_status,
+        adaptive_result,
+        question_draw,
+        question_shuffle,
         quizzes (
           id,
           title,
           description,
           category,
-          difficulty
+          difficulty,
+          passing_score,
+          grading_policy,
+          passage_audio_url,
+          listening_settings
         )
       `)
       .eq('id', attemptId)
@@ -109,7 +123,11 @@ export async function GET(
         correct_answer_text,
         correct_answer_json,
         explanation,
-        order_index
+        order_index,
+        points,
+        weight,
+        partial_credit,
+        question_metadata
       `)
       .eq('quiz_id', attempt.quiz_id)
       .order('order_index')
@@ -121,43 +139,126 @@ export async function GET(
       })
     }
 
+    // Essay answers carry their own grading state and instructor feedback
+    // (ownership is verified above, so read them with the service client)
+    const serviceClient = createServiceClient()
+    const { data: questionAttempts } = await serviceClient
+      .from('question_attempts')
+      .select('question_id, points_earned, grading_status, grader_feedback')
+      .eq('quiz_attempt_id', attemptId)
+
+    const manualGrades = new Map(
+      (questionAttempts || [])
+        .filter(qa => qa.grading_status !== 'auto')
+        .map(qa => [qa.question_id, qa])
+    )
+
     // Build detailed answer array for results display
-    const detailedAnswers = questions?.map(question => {
+    // Correctness comes from the same grader registry the submit route uses
+    // Adaptive attempts only show the questions that were actually delivered;
+    // draw-per-attempt quizzes add the bank items as they were when graded.
+    // Shuffled attempts are reviewed in the order they were taken; stored answers are
+    // canonical, so options keep their canonical order
+    const questionShuffle = attempt.question_shuffle as QuestionShuffle | null
+    const standardQuestions = [...(questions || []), ...((attempt.question_draw as AttemptQuestionDraw | null)?.questions || [])]
+    const deliveredQuestions = attempt.adaptive_result
+      ? questions?.filter(question => question.id in (attempt.answers || {}))
+      : questionShuffle
+        ? applyQuestionShuffle(standardQuestions, { ...questionShuffle, option_orders: {} })
+        : standardQuestions
+
+    // Recordings are private; they play through short-lived signed URLs
+    const recordings = new Map((deliveredQuestions || [])
+      .filter(question => question.question_type === 'speaking')
+      .map(question => [question.id, getSpeakingAnswer(attempt.answers[question.id], attempt.user_id)]))
+    let recordingUrls = new Map<string, string>()
+    try {
+      recordingUrls = await createRecordingUrls(
+        serviceClient,
+        Array.from(recordings.values()).flatMap(recording => recording ? [recording.recording_path] : [])
+      )
+    } catch (recordingError: any) {
+      logger.warn('Failed to sign speaking recordings', { attemptId, error: recordingError.message })
+    }
+
+    const detailedAnswers = deliveredQuestions?.map(question => {
       const userAnswer = attempt.answers[question.id]
-      let isCorrect = false
+      const grade = gradeQuestion(question, userAnswer)
+      const manualGrade = manualGrades.get(question.id)
+      const pendingReview = grade.requires_manual_grading && manualGrade?.grading_status !== 'graded'
+      const recording = recordings.get(question.id) || null
       let correctAnswerDisplay = ''
 
-      // Determine correct answer based on question type
+      // Determine correct answer display based on question type
       if (question.question_type === 'multiple_choice' || question.question_type === 'single_choice') {
-        isCorrect = userAnswer === question.correct_answer
         const options = question.options as string[]
         correctAnswerDisplay = options[question.correct_answer] || String(question.correct_answer)
       } else if (question.question_type === 'true_false') {
-        isCorrect = userAnswer === question.correct_answer
         correctAnswerDisplay = question.correct_answer === 0 ? 'True' : 'False'
       } else if (question.question_type === 'fill_blank') {
-        const correctAnswer = String(question.correct_answer_text || question.correct_answer || '').toLowerCase().trim()
-        const userAnswerStr = String(userAnswer || '').toLowerCase().trim()
-        isCorrect = userAnswerStr === correctAnswer
         correctAnswerDisplay = question.correct_answer_text || String(question.correct_answer)
+      } else if (question.question_type === 'matching' && Array.isArray(question.options)) {
+        correctAnswerDisplay = (question.options as Array<{ left: string; right: string }>)
+          .map(pair => `${pair.left} → ${pair.right}`)
+          .join(', ')
+      } else if (question.question_type === 'ordering' && Array.isArray(question.options)) {
+        correctAnswerDisplay = (question.options as string[]).join(' → ')
       }
 
       return {
         question: question.question,
-        user_answer: String(userAnswer || 'No answer'),
+        user_answer: recording
+          ? `Recorded answer (${formatTimestamp(recording.duration_seconds)})`
+          : typeof userAnswer === 'object' && userAnswer !== null
+            ? JSON.stringify(userAnswer)
+            : String(userAnswer ?? 'No answer'),
+        recording_url: recording ? recordingUrls.get(recording.recording_path) ?? null : null,
         correct_answer: correctAnswerDisplay,
-        is_correct: isCorrect,
-        explanation: question.explanation
+        is_correct: manualGrade?.grading_status === 'graded'
+          ? Number(manualGrade.points_earned) >= grade.points_possible
+          : grade.is_correct,
+        points_earned: manualGrade?.grading_status === 'graded'
+          ? Number(manualGrade.points_earned)
+          : grade.points_earned,
+        points_possible: grade.points_possible,
+        explanation: question.explanation,
+        pending_review: pendingReview,
+        feedback: manualGrade?.grader_feedback || null
       }
     }) || []
 
     // Calculate correct answers count
     const correctAnswersCount = detailedAnswers.filter(a => a.is_correct).length
 
+    // The quiz's grading policy picks which attempt counts as the official score
+    const quizInfo = attempt.quizzes as any
+    const gradingPolicy = normalizeGradingPolicy(quizInfo?.grading_policy)
+    const officialScore = computeOfficialScore(
+      await listQuizAttempts(serviceClient, attempt.user_id, attempt.quiz_id),
+      gradingPolicy.method,
+      quizInfo?.passing_score ?? null
+    )
+
+    // Certificate earned for this quiz, if any (issued on the first passing attempt)
+    const { data: certificate } = await serviceClient
+      .from('certificates')
+      .select('certificate_number, is_valid')
+      .eq('user_id', attempt.user_id)
+      .eq('quiz_id', attempt.quiz_id)
+      .maybeSingle()
+
+    // Listening sections reveal their transcript once the attempt is submitted
+    const listening = isListeningQuiz(quizInfo)
+      ? {
+          audio_url: quizInfo.passage_audio_url,
+          transcript: normalizeListeningSettings(quizInfo.listening_settings).transcript || null
+        }
+      : null
+
     // Format response for results page
     const formattedResult = {
       id: attempt.id,
-      quiz_title: (attempt.quizzes as any)?.title || 'Unknown Quiz',
+      quiz_title: quizInfo?.title || 'Unknown Quiz',
       score: attempt.score,
       total_questions: attempt.total_questions,
       correct_answers: correctAnswersCount,
@@ -166,6 +267,12 @@ export async function GET(
       percentage_score: attempt.percentage_score,
       passed: attempt.passed,
       attempt_number: attempt.attempt_number,
+      grading_status: attempt.grading_status || 'graded',
+      adaptive_result: attempt.adaptive_result || null,
+      grading_method: gradingPolicy.method,
+      official_score: officialScore,
+      certificate_code: certificate?.is_valid ? certificate.certificate_number : null,
+      listening,
       answers: detailedAnswers
     }
 
@@ -0,0 +1,192 @@
+/**
+ * Adaptive Quiz Delivery Endpoint
+ * Records the answer to the current question and returns the next one picked from
+ * the student's ability estimate, or done=true once the stopping rule is met.
+ * Calling it without an answer returns the pending question. The session itself is
+ * started by the session endpoint, where retake and availability rules are checked.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createAuthenticatedClient, createServiceClient, verifyAuthentication } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import {
+  loadAdaptiveSettings,
+  loadAdaptivePool,
+  evaluateSession,
+  getPendingQuestionId,
+  toPublicQuestion
+} from '@/lib/adaptive'
+import {
+  getActiveQuizSession,
+  saveQuizSession,
+  getSessionTiming,
+  type QuizSessionData
+} from '@/lib/quiz-sessions'
+
+// Input validation helper
+function validateQuizId(quizId: string | undefined): string {
+  if (!quizId || typeof quizId !== 'string') {
+    throw new Error('Invalid quiz ID')
+  }
+
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
+  if (!uuidRegex.test(quizId)) {
+    throw new Error('Invalid quiz ID format')
+  }
+
+  return quizId
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  let rawQuizId: string | undefined
+
+  try {
+    const resolvedParams = await params
+    rawQuizId = resolvedParams.id
+    const quizId = validateQuizId(rawQuizId)
+
+    const body = await request.json().catch(() => ({}))
+    const { question_id: answeredQuestionId, answer } = body || {}
+
+    if (answeredQuestionId !== undefined && typeof answeredQuestionId !== 'string') {
+      return NextResponse.json({ success: false, error: 'Invalid question ID' }, { status: 400 })
+    }
+    if (answer !== undefined && JSON.stringify(answer).length > 20000) {
+      return NextResponse.json({ success: false, error: 'Answer data too large' }, { status: 400 })
+    }
+
+    // Create authenticated client
+    const supabase = await createAuthenticatedClient(request)
+
+    // Verify authentication
+    let user
+    try {
+      user = await verifyAuthentication(supabase)
+    } catch (error: any) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { data: quiz } = await supabase
+      .from('quizzes')
+      .select('id, is_published')
+      .eq('id', quizId)
+      .eq('is_published', true)
+      .single()
+
+    if (!quiz) {
+      return NextResponse.json(
+        { success: false, error: 'Quiz not found or not available' },
+        { status: 404 }
+      )
+    }
+
+    const serviceClient = createServiceClient()
+    const settings = await loadAdaptiveSettings(serviceClient, quizId)
+
+    if (!settings) {
+      return NextResponse.json(
+        { success: false, error: 'Adaptive delivery is not enabled for this quiz' },
+        { status: 400 }
+      )
+    }
+
+    const pool = await loadAdaptivePool(serviceClient, quizId)
+    if (pool.items.length === 0) {
+      return NextResponse.json(
+        { success: false, error: 'This quiz has no questions that can be delivered adaptively' },
+        { status: 400 }
+      )
+    }
+
+    const session = await getActiveQuizSession(serviceClient, user.id, quizId)
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'No quiz session in progress', code: 'NO_ACTIVE_SESSION' },
+        { status: 409 }
+      )
+    }
+
+    const sessionData: QuizSessionData = {
+      ...session.session_data,
+      mode: 'adaptive',
+      administered: session.session_data?.administered || [],
+      responses: session.session_data?.responses || {}
+    }
+
+    // Only the question currently on screen can be answered
+    if (answeredQuestionId !== undefined) {
+      if (getSessionTiming(session).overdue) {
+        return NextResponse.json(
+          { success: false, error: 'Time limit exceeded', code: 'SESSION_EXPIRED' },
+          { status: 409 }
+        )
+      }
+      if (answeredQuestionId !== getPendingQuestionId(sessionData)) {
+        return NextResponse.json(
+          { success: false, error: 'This question is not the current adaptive question' },
+          { status: 409 }
+        )
+      }
+      sessionData.responses![answeredQuestionId] = answer ?? null
+    }
+
+    const decision = evaluateSession(settings, pool, sessionData)
+
+    const pendingId = getPendingQuestionId(sessionData)
+    let nextQuestionId: string | null = null
+    if (!decision.done) {
+      nextQuestionId = pendingId || decision.next_question_id!
+      if (!pendingId) {
+        sessionData.administered!.push(nextQuestionId)
+      }
+    }
+
+    sessionData.theta = decision.theta
+    sessionData.standard_error = decision.standard_error
+
+    await saveQuizSession(serviceClient, session.id, sessionData)
+
+    const nextQuestion = nextQuestionId
+      ? pool.questions.find(q => q.id === nextQuestionId)
+      : null
+
+    logger.debug('Adaptive step', {
+      quizId,
+      userId: user.id,
+      answered: decision.answered,
+      theta: decision.theta,
+      standardError: decision.standard_error,
+      done: decision.done,
+      stopReason: decision.stop_reason
+    })
+
+    return NextResponse.json({
+      success: true,
+      done: decision.done,
+      stop_reason: decision.stop_reason || null,
+      question: nextQuestion ? toPublicQuestion(nextQuestion) : null,
+      progress: {
+        answered: decision.answered,
+        min_questions: settings.min_questions,
+        max_questions: Math.min(settings.max_questions, pool.items.length)
+      }
+    })
+
+  } catch (error: any) {
+    logger.error('Adaptive delivery API error', {
+      error: error.message,
+      quizId: rawQuizId
+    })
+
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to load next question' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServiceClient } from '@/lib/api-auth'
 import { logger } from '@/lib/logger'
+import { loadAdaptiveSettings } from '@/lib/adaptive'
+import { normalizeListeningSettings, toPublicListeningSettings } from '@/lib/listening'
 
 // Input validation helper
 function validateQuizId(quizId: string | undefined): string {
@@ -55,7 +57,8 @@ export async function GET(
           passage_audio_url,
           word_count,
           estimated_read_time,
-          time_limit_minutes
+          time_limit_minutes,
+          listening_settings
         `)
         .eq('id', quizId)
         .eq('is_published', true) // Only published quizzes for public access
@@ -75,7 +78,9 @@ export async function GET(
           image_url,
           audio_url,
           video_url,
-          time_limit_seconds
+          time_limit_seconds,
+          speaking_settings,
+          writing_settings
         `)
         .eq('quiz_id', quizId)
         .order('order_index')
@@ -92,8 +97,14 @@ export async function GET(
       throw new Error(`Questions fetch failed: ${questionsResult.error.message}`)
     }
 
-    const quiz = quizResult.data
-    const questions = questionsResult.data || []
+    // The listening transcript is only shown with the results
+    const quiz = {
+      ...quizResult.data,
+      listening_settings: quizResult.data.listening_settings
+        ? toPublicListeningSettings(normalizeListeningSettings(quizResult.data.listening_settings))
+        : null
+    }
+    let questions = questionsResult.data || []
 
     // Validate quiz is available for taking
     if (!quiz.is_published) {
@@ -105,6 +116,12 @@ export async function GET(
     //   await supabase.from('quizzes').update({ total_questions: questions.length }).eq('id', quizId)
     // }
 
+    // Adaptive quizzes deliver one question at a time from /adaptive; don't expose the item pool
+    const adaptiveSettings = await loadAdaptiveSettings(supabase, quizId)
+    if (adaptiveSettings) {
+      questions = []
+    }
+
     logger.info('Public quiz details fetch completed', { 
       quizId, 
       questionsCount: questions.length,
@@ -114,7 +131,14 @@ export async function GET(
     return NextResponse.json({
       success: true,
       quiz,
-      questions
+      questions,
+      adaptive: adaptiveSettings
+        ? {
+            enabled: true,
+            min_questions: adaptiveSettings.min_questions,
+            max_questions: adaptiveSettings.max_questions
+          }
+        : null
     })
 
   } catch (error: any) {
@@ -0,0 +1,331 @@
+/**
+ * Quiz Session Endpoint
+ * POST starts an attempt or resumes the active one (on any device). New attempts
+ * must pass the quiz's availability window and retake policy, and quizzes in a
+ * learning path must be unlocked.
+ * Quizzes with draw rules get their bank items drawn here, once per attempt, and
+ * shuffled quizzes get the attempt's question and option order.
+ * Listening sections get their transfer time added to the deadline.
+ * PATCH is the heartbeat: it saves progress and returns the server-side time remaining.
+ * For listening sections it also records plays of the recording and starts transfer
+ * time, which brings the deadline forward.
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { createAuthenticatedClient, createServiceClient, verifyAuthentication } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { loadAdaptiveSettings, toPublicQuestion, PUBLIC_QUESTION_FIELDS } from '@/lib/adaptive'
+import { normalizeDrawRules, drawQuestionsForAttempt, loadDrawnQuestions, type QuestionDraw } from '@/lib/question-bank'
+import {
+  startQuizSession,
+  getActiveQuizSession,
+  saveQuizSession,
+  getSessionTiming,
+  MAX_SESSION_ANSWERS_LENGTH,
+  type QuizSession,
+  type QuizSessionData
+} from '@/lib/quiz-sessions'
+import { createQuestionShuffle, applyQuestionShuffle } from '@/lib/quiz-shuffle'
+import { checkQuizAccess, listQuizAttempts } from '@/lib/quiz-policies'
+import { getQuizPathLock } from '@/lib/learning-paths'
+import {
+  getListeningTimeLimit,
+  getTransferExpiresAt,
+  isListeningQuiz,
+  mergeListeningProgress,
+  normalizeListeningProgress,
+  normalizeListeningSettings
+} from '@/lib/listening'
+
+// Input validation helper
+function validateQuizId(quizId: string | undefined): string {
+  if (!quizId || typeof quizId !== 'string') {
+    throw new Error('Invalid quiz ID')
+  }
+
+  const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i
+  if (!uuidRegex.test(quizId)) {
+    throw new Error('Invalid quiz ID format')
+  }
+
+  return quizId
+}
+
+/**
+ * The attempt's questions in canonical order: the quiz's own questions followed by
+ * any items drawn from the bank
+ */
+async function loadAttemptQuestions(serviceClient: any, quizId: string, draw?: QuestionDraw): Promise<any[]> {
+  const { data: fixed, error } = await serviceClient
+    .from('quiz_questions')
+    .select([...PUBLIC_QUESTION_FIELDS, 'randomize_options'].join(', '))
+    .eq('quiz_id', quizId)
+    .order('order_index')
+
+  if (error) {
+    throw new Error(`Failed to load questions: ${error.message}`)
+  }
+
+  const fixedQuestions = fixed || []
+  if (!draw) return fixedQuestions
+
+  const drawn = await loadDrawnQuestions(serviceClient, draw, fixedQuestions.length)
+  return [...fixedQuestions, ...drawn]
+}
+
+function formatSession(session: QuizSession, resumed: boolean) {
+  const timing = getSessionTiming(session)
+
+  return {
+    id: session.id,
+    mode: session.session_data?.mode || 'standard',
+    resumed,
+    server_time: new Date().toISOString(),
+    ...timing,
+    answers: session.session_data?.answers || {},
+    current_question_index: session.session_data?.current_question_index || 0,
+    listening: session.session_data?.listening ?? null
+  }
+}
+
+async function authenticate(request: NextRequest) {
+  const supabase = await createAuthenticatedClient(request)
+  try {
+    const user = await verifyAuthentication(supabase)
+    return { supabase, user }
+  } catch {
+    return { supabase, user: null }
+  }
+}
+
+// POST - Start or resume the attempt's session
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  let rawQuizId: string | undefined
+
+  try {
+    const resolvedParams = await params
+    rawQuizId = resolvedParams.id
+    const quizId = validateQuizId(rawQuizId)
+
+    const { supabase, user } = await authenticate(request)
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { data: quiz } = await supabase
+      .from('quizzes')
+      .select('id, is_published, time_limit_minutes, max_attempts, retake_policy, availability_window, draw_rules, shuffle_questions, shuffle_options, randomize_questions, passage_audio_url, listening_settings')
+      .eq('id', quizId)
+      .eq('is_published', true)
+      .single()
+
+    if (!quiz) {
+      return NextResponse.json(
+        { success: false, error: 'Quiz not found or not available' },
+        { status: 404 }
+      )
+    }
+
+    const serviceClient = createServiceClient()
+
+    // An attempt already in progress can always be resumed
+    const activeSession = await getActiveQuizSession(serviceClient, user.id, quizId)
+    if (!activeSession) {
+      const access = checkQuizAccess(quiz, await listQuizAttempts(serviceClient, user.id, quizId))
+      if (!access.allowed) {
+        return NextResponse.json(
+          { success: false, error: access.error, code: access.code, retry_at: access.retry_at || null },
+          { status: 403 }
+        )
+      }
+
+      const lock = await getQuizPathLock(serviceClient, user.id, quizId)
+      if (lock.locked) {
+        return NextResponse.json(
+          { success: false, error: lock.error, code: 'QUIZ_LOCKED', learning_path_id: lock.path_id },
+          { status: 403 }
+        )
+      }
+    }
+
+    const adaptiveSettings = await loadAdaptiveSettings(serviceClient, quizId)
+
+    // Draws and shuffling apply to standard delivery; adaptive quizzes pick from their own pool
+    let initialData: Partial<QuizSessionData> | undefined
+    let attemptQuestions: any[] | null = null
+    if (!activeSession && !adaptiveSettings) {
+      const drawRules = normalizeDrawRules(quiz.draw_rules)
+      const draw = drawRules.length > 0
+        ? await drawQuestionsForAttempt(serviceClient, drawRules)
+        : undefined
+      attemptQuestions = await loadAttemptQuestions(serviceClient, quizId, draw)
+      const shuffle = createQuestionShuffle(quiz, attemptQuestions) ?? undefined
+      initialData = { ...(draw && { draw }), ...(shuffle && { shuffle }) }
+    }
+
+    const listening = isListeningQuiz(quiz) ? normalizeListeningSettings(quiz.listening_settings) : null
+    if (listening) {
+      initialData = { ...initialData, listening: normalizeListeningProgress(null) }
+    }
+
+    const { session, resumed } = await startQuizSession(serviceClient, {
+      userId: user.id,
+      quizId,
+      mode: adaptiveSettings ? 'adaptive' : 'standard',
+      timeLimitMinutes: listening ? getListeningTimeLimit(quiz.time_limit_minutes, listening) : quiz.time_limit_minutes,
+      userAgent: request.headers.get('user-agent'),
+      initialData
+    })
+
+    // Drawn or shuffled attempts are delivered from the session, not the quiz's question list
+    const { draw, shuffle } = session.session_data || {}
+    let questions: any[] | null = null
+    if (draw || shuffle) {
+      const canonical = !resumed && attemptQuestions
+        ? attemptQuestions
+        : await loadAttemptQuestions(serviceClient, quizId, draw)
+      questions = (shuffle ? applyQuestionShuffle(canonical, shuffle) : canonical).map(toPublicQuestion)
+    }
+
+    logger.info(resumed ? 'Quiz session resumed' : 'Quiz session started', {
+      quizId,
+      userId: user.id,
+      sessionId: session.id,
+      expiresAt: session.expires_at,
+      drawnItems: draw?.template_ids.length ?? 0,
+      shuffled: Boolean(shuffle)
+    })
+
+    return NextResponse.json({
+      success: true,
+      session: formatSession(session, resumed),
+      questions
+    })
+
+  } catch (error: any) {
+    logger.error('Quiz session start API error', {
+      error: error.message,
+      quizId: rawQuizId
+    })
+
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to start quiz session' },
+      { status: 500 }
+    )
+  }
+}
+
+// PATCH - Heartbeat: save progress and report time remaining
+// Body: { answers?: object, current_question_index?: number, listening?: { plays?: number, transfer_started?: boolean } }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  let rawQuizId: string | undefined
+
+  try {
+    const resolvedParams = await params
+    rawQuizId = resolvedParams.id
+    const quizId = validateQuizId(rawQuizId)
+
+    const body = await request.json().catch(() => ({}))
+    const { answers, current_question_index, listening } = body || {}
+
+    if (answers !== undefined && (typeof answers !== 'object' || answers === null || Array.isArray(answers))) {
+      return NextResponse.json({ success: false, error: 'Invalid answers format' }, { status: 400 })
+    }
+    if (answers !== undefined && JSON.stringify(answers).length > MAX_SESSION_ANSWERS_LENGTH) {
+      return NextResponse.json({ success: false, error: 'Answers data too large' }, { status: 400 })
+    }
+    if (current_question_index !== undefined && (!Number.isInteger(current_question_index) || current_question_index < 0)) {
+      return NextResponse.json({ success: false, error: 'Invalid question index' }, { status: 400 })
+    }
+    if (listening !== undefined && (
+      typeof listening !== 'object' || listening === null ||
+      (listening.plays !== undefined && (!Number.isInteger(listening.plays) || listening.plays < 0))
+    )) {
+      return NextResponse.json({ success: false, error: 'Invalid listening progress' }, { status: 400 })
+    }
+
+    const { user } = await authenticate(request)
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const serviceClient = createServiceClient()
+    const session = await getActiveQuizSession(serviceClient, user.id, quizId)
+
+    if (!session) {
+      return NextResponse.json(
+        { success: false, error: 'No quiz session in progress', code: 'NO_ACTIVE_SESSION' },
+        { status: 404 }
+      )
+    }
+
+    // Progress sent after the grace period is ignored; the attempt closes with what was saved
+    const timing = getSessionTiming(session)
+    if (timing.overdue) {
+      return NextResponse.json(
+        { success: false, error: 'Time limit exceeded', code: 'SESSION_EXPIRED', session: formatSession(session, true) },
+        { status: 409 }
+      )
+    }
+
+    const sessionData: QuizSessionData = {
+      ...session.session_data,
+      // Adaptive answers are recorded by the delivery endpoint, not the heartbeat
+      ...(session.session_data?.mode !== 'adaptive' && answers !== undefined && { answers }),
+      ...(current_question_index !== undefined && { current_question_index })
+    }
+
+    // Plays are counted and transfer time started here, so a reload can't reset them
+    let expiresAt = session.expires_at
+    if (listening !== undefined && session.session_data?.listening) {
+      const { data: quiz } = await serviceClient
+        .from('quizzes')
+        .select('listening_settings')
+        .eq('id', quizId)
+        .single()
+
+      const settings = normalizeListeningSettings(quiz?.listening_settings)
+      sessionData.listening = mergeListeningProgress(
+        normalizeListeningProgress(session.session_data.listening),
+        listening,
+        settings
+      )
+      expiresAt = getTransferExpiresAt(session.expires_at, sessionData.listening, settings)
+    }
+
+    await saveQuizSession(
+      serviceClient,
+      session.id,
+      sessionData,
+      expiresAt !== session.expires_at ? { expiresAt } : {}
+    )
+
+    return NextResponse.json({
+      success: true,
+      session: formatSession({ ...session, session_data: sessionData, expires_at: expiresAt }, true)
+    })
+
+  } catch (error: any) {
+    logger.error('Quiz session heartbeat API error', {
+      error: error.message,
+      quizId: rawQuizId
+    })
+
+    return NextResponse.json(
+      { success: false, error: error.message || 'Failed to save quiz session' },
+      { status: 500 }
+    )
+  }
+}
@@ -4,8 +4,32 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server'
-import { createAuthenticatedClient, verifyAuthentication } from '@/lib/api-auth'
+import { createAuthenticatedClient, createServiceClient, verifyAuthentication } from '@/lib/api-auth'
 import { logger } from '@/lib/logger'
+import { gradeSubmission } from '@/lib/grading'
+import type { GradableQuestion } from '@/lib/grading/types'
+import { QuestionAttemptsWriteError, recordQuestionAttempts, validateQuestionMeta } from '@/lib/grading/persistence'
+import {
+  loadAdaptiveSettings,
+  loadAdaptivePool,
+  evaluateSession,
+  thetaToPercentage
+} from '@/lib/adaptive'
+import {
+  getActiveQuizSession,
+  getSessionTiming,
+  getSessionTimeTaken,
+  closeQuizSession
+} from '@/lib/quiz-sessions'
+import { checkQuizAccess, listQuizAttempts } from '@/lib/quiz-policies'
+import { normalizeDrawRules, loadDrawnQuestions, type AttemptQuestionDraw } from '@/lib/question-bank'
+import { toCanonicalAnswers } from '@/lib/quiz-shuffle'
+import { getSpeakingAnswer } from '@/lib/speaking'
+import { issueQuizCertificate } from '@/lib/certificates'
+import { syncLearningPathProgress } from '@/lib/learning-paths'
+import { evaluateBadges, type AwardedBadge } from '@/lib/badges'
+import { refreshUserStats } from '@/lib/user-stats'
+import { sendQuizResultEmail } from '@/lib/email'
 
 // Input validation helper
 function validateQuizId(quizId: string | undefined): string {
@@ -22,7 +46,7 @@ function validateQuizId(quizId: string | undefined): string {
 }
 
 function validateSubmissionData(data: any) {
-  const { answers, time_taken } = data
+  const { answers, time_taken, question_meta } = data
 
   if (!answers || typeof answers !== 'object') {
     throw new Error('Invalid answers format')
@@ -38,7 +62,7 @@ function validateSubmissionData(data: any) {
     throw new Error('Invalid time_taken value')
   }
 
-  return { answers, time_taken }
+  return { answers, time_taken, questionMeta: validateQuestionMeta(question_meta) }
 }
 
 export async function POST(
@@ -55,7 +79,9 @@ export async function POST(
 
     // Parse and validate request body
     const requestData = await request.json()
-    const { answers, time_taken } = validateSubmissionData(requestData)
+    const submission = validateSubmissionData(requestData)
+    const { time_taken, questionMeta } = submission
+    let answers: Record<string, any> = submission.answers
 
     // Create authenticated client
     const supabase = await createAuthenticatedClient(request)
@@ -75,14 +101,14 @@ export async function POST(
     const [quizResult, questionsResult] = await Promise.all([
       supabase
         .from('quizzes')
-        .select('id, title, is_published, passing_score, max_attempts, time_limit_minutes')
+        .select('id, title, is_published, passing_score, max_attempts, time_limit_minutes, retake_policy, availability_window, draw_rules')
         .eq('id', quizId)
         .eq('is_published', true)
         .single(),
 
       supabase
         .from('quiz_questions')
-        .select('id, question_type, correct_answer, points, options')
+        .select('id, question, question_type, options, correct_answer, correct_answer_text, correct_answer_json, points, weight, partial_credit, question_metadata')
         .eq('quiz_id', quizId)
         .order('order_index')
     ])
@@ -99,60 +125,123 @@ export async function POST(
     }
 
     const quiz = quizResult.data
-    const questions = questionsResult.data || []
+    let questions: GradableQuestion[] = questionsResult.data || []
 
-    // Get current attempt number
-    const { data: existingAttempts } = await supabase
-      .from('quiz_attempts')
-      .select('id, attempt_number', { count: 'exact' })
-      .eq('quiz_id', quizId)
-      .eq('user_id', user.id)
-      .order('attempt_number', { ascending: false })
-      .limit(1)
-
-    const attemptNumber = existingAttempts && existingAttempts.length > 0
-      ? (existingAttempts[0].attempt_number || 0) + 1
-      : 1
+    // The session owns the clock; timed quizzes can't be submitted without one
+    const serviceClient = createServiceClient()
+    const session = await getActiveQuizSession(serviceClient, user.id, quizId)
 
-    // Check attempt limit
-    if (quiz.max_attempts && quiz.max_attempts > 0 && attemptNumber > quiz.max_attempts) {
+    if (!session && quiz.time_limit_minutes && quiz.time_limit_minutes > 0) {
       return NextResponse.json(
-        { success: false, error: 'Maximum attempts reached' },
-        { status: 403 }
+        { success: false, error: 'No quiz session in progress. Start the quiz before submitting.', code: 'NO_ACTIVE_SESSION' },
+        { status: 409 }
       )
     }
 
-    // Calculate score on server side
-    let totalScore = 0
-    let earnedScore = 0
+    // Past the time limit plus grace, the attempt closes with the answers saved by the last heartbeat
+    const autoClosed = session ? getSessionTiming(session).overdue : false
+    if (session && autoClosed && session.session_data?.mode !== 'adaptive') {
+      answers = session.session_data?.answers || {}
+    }
+    const timeTaken = session ? getSessionTimeTaken(session) : (time_taken || 0)
 
-    questions.forEach(question => {
-      const points = question.points || 1
-      totalScore += points
+    // Adaptive attempts are scored from the server-side session, not the posted answers
+    const adaptiveSettings = await loadAdaptiveSettings(serviceClient, quizId)
 
-      const userAnswer = answers[question.id]
-      let isCorrect = false
+    if (adaptiveSettings && session?.session_data?.mode !== 'adaptive') {
+      return NextResponse.json(
+        { success: false, error: 'No adaptive session in progress for this quiz', code: 'NO_ACTIVE_SESSION' },
+        { status: 409 }
+      )
+    }
 
-      // Check answer based on question type
-      if (question.question_type === 'multiple_choice' || question.question_type === 'single_choice') {
-        isCorrect = userAnswer === question.correct_answer
-      } else if (question.question_type === 'true_false') {
-        isCorrect = userAnswer === question.correct_answer
-      } else if (question.question_type === 'fill_blank') {
-        // Case-insensitive comparison for fill in the blank
-        const correctAnswer = String((question as any).correct_answer_text || question.correct_answer || '').toLowerCase().trim()
-        const userAnswerStr = String(userAnswer || '').toLowerCase().trim()
-        isCorrect = userAnswerStr === correctAnswer
+    // Draw-per-attempt quizzes are graded against the items drawn when the session started
+    let questionDraw: AttemptQuestionDraw | null = null
+    if (!adaptiveSettings && normalizeDrawRules(quiz.draw_rules).length > 0) {
+      const draw = session?.session_data?.draw
+      if (!draw) {
+        return NextResponse.json(
+          { success: false, error: 'No quiz session in progress. Start the quiz before submitting.', code: 'NO_ACTIVE_SESSION' },
+          { status: 409 }
+        )
       }
-      // Essay questions need manual grading, so isCorrect stays false
 
-      if (isCorrect) {
-        earnedScore += points
+      const drawnQuestions = await loadDrawnQuestions(serviceClient, draw, questions.length)
+      questions = [...questions, ...drawnQuestions]
+      questionDraw = { ...draw, questions: drawnQuestions }
+    }
+
+    // Shuffled attempts are answered against the displayed option order; everything
+    // from grading onwards uses canonical indexes
+    const questionShuffle = adaptiveSettings ? null : session?.session_data?.shuffle || null
+    answers = toCanonicalAnswers(answers, questionShuffle, questions)
+
+    let adaptiveResult: Record<string, any> | null = null
+    if (adaptiveSettings && session) {
+      const responses = session.session_data.responses || {}
+      const pool = await loadAdaptivePool(serviceClient, quizId)
+      const decision = evaluateSession(adaptiveSettings, pool, session.session_data)
+
+      // Only the stopping rule or the time limit ends an adaptive attempt; an attempt
+      // cut off by time scores the items it is short of min_questions as wrong
+      if (!decision.done && !autoClosed) {
+        return NextResponse.json(
+          { success: false, error: 'Answer the remaining questions before finishing the test', code: 'ADAPTIVE_NOT_FINISHED' },
+          { status: 409 }
+        )
       }
-    })
+      const scored = decision.done ? decision : evaluateSession(adaptiveSettings, pool, session.session_data, true)
+
+      answers = responses
+      questions = questions.filter(q => q.id in responses)
+      adaptiveResult = {
+        theta: scored.theta,
+        standard_error: scored.standard_error,
+        method: scored.method,
+        items_administered: decision.answered,
+        stop_reason: decision.stop_reason || 'time_limit'
+      }
+    }
+
+    // Speaking answers keep only a recording path in the student's own folder of the
+    // recordings bucket; anything else (e.g. an outside URL) counts as no recording
+    for (const question of questions) {
+      if (question.question_type === 'speaking' && question.id in answers) {
+        answers = { ...answers, [question.id]: getSpeakingAnswer(answers[question.id], user.id) }
+      }
+    }
+
+    // Retake and availability rules apply as of the attempt's start, so a quiz that
+    // closes mid-attempt still accepts the submission
+    const previousAttempts = await listQuizAttempts(serviceClient, user.id, quizId)
+    const access = checkQuizAccess(
+      quiz,
+      previousAttempts,
+      session ? new Date(session.started_at) : new Date()
+    )
 
-    const percentageScore = totalScore > 0 ? (earnedScore / totalScore) * 100 : 0
-    const passed = quiz.passing_score ? percentageScore >= quiz.passing_score : true
+    if (!access.allowed) {
+      return NextResponse.json(
+        { success: false, error: access.error, code: access.code, retry_at: access.retry_at || null },
+        { status: 403 }
+      )
+    }
+
+    const attemptNumber = previousAttempts.reduce(
+      (highest, attempt) => Math.max(highest, attempt.attempt_number || 0),
+      0
+    ) + 1
+
+    // Grade every question on the server with the grader registered for its type
+    const grading = gradeSubmission(questions, answers)
+    const earnedScore = grading.earnedPoints
+    const totalScore = grading.totalPoints
+    // Adaptive scores report ability, since everyone answers about target_accuracy of their items
+    const percentageScore = adaptiveResult ? thetaToPercentage(adaptiveResult.theta) : grading.percentage
+    // Essays go to the grading queue; pass/fail is settled once they are graded
+    const gradingStatus = grading.pendingManualGrading > 0 ? 'pending_review' : 'graded'
+    const passed = gradingStatus === 'graded' &&
+      (quiz.passing_score ? percentageScore >= quiz.passing_score : true)
 
     // Save quiz attempt
     const { data: result, error: resultError } = await supabase
@@ -160,13 +249,18 @@ export async function POST(
       .insert({
         quiz_id: quizId,
         user_id: user.id,
-        score: earnedScore,
+        score: Math.round(earnedScore),
         total_questions: questions.length,
-        time_taken_seconds: time_taken || 0,
+        time_taken_seconds: timeTaken,
         answers: answers,
         passed: passed,
         percentage_score: percentageScore,
-        attempt_number: attemptNumber
+        attempt_number: attemptNumber,
+        grading_status: gradingStatus,
+        graded_at: gradingStatus === 'graded' ? new Date().toISOString() : null,
+        adaptive_result: adaptiveResult,
+        question_draw: questionDraw,
+        question_shuffle: questionShuffle
       })
       .select()
       .single()
@@ -180,6 +274,40 @@ export async function POST(
       throw new Error('Failed to save quiz attempt')
     }
 
+    // Per-question results feed item analytics; failures must not lose the attempt.
+    // Answers awaiting manual grading only reach the grading queue through these rows,
+    // so a pending_review attempt whose rows could not be saved is rolled back instead.
+    try {
+      await recordQuestionAttempts(serviceClient, {
+        quizAttemptId: result.id,
+        grading,
+        answers,
+        questionMeta,
+        bankItemIds: questionDraw?.template_ids
+      })
+    } catch (analyticsError: any) {
+      if (analyticsError instanceof QuestionAttemptsWriteError && gradingStatus === 'pending_review') {
+        logger.error('Failed to record answers for manual grading, rolling back attempt', {
+          error: analyticsError.message,
+          quizId,
+          attemptId: result.id
+        })
+        await serviceClient.from('quiz_attempts').delete().eq('id', result.id)
+        throw new Error('Failed to save quiz attempt')
+      }
+
+      logger.warn('Failed to record question attempts', {
+        error: analyticsError.message,
+        quizId,
+        attemptId: result.id
+      })
+    }
+
+    // Closed only once the attempt is kept, so a rolled-back submission can be retried
+    if (session) {
+      await closeQuizSession(serviceClient, session.id, result.id)
+    }
+
     // Mark progress as completed
     await supabase
       .from('quiz_progress')
@@ -187,6 +315,64 @@ export async function POST(
       .eq('quiz_id', quizId)
       .eq('user_id', user.id)
 
+    // Quizzes linked to a certificate template issue one on the first pass
+    let certificateCode: string | null = null
+    if (passed) {
+      try {
+        const issuedCertificate = await issueQuizCertificate(serviceClient, result.id)
+        certificateCode = issuedCertificate?.certificate.certificate_number || null
+      } catch (certificateError: any) {
+        logger.warn('Failed to issue quiz certificate', {
+          error: certificateError.message,
+          quizId,
+          attemptId: result.id
+        })
+      }
+    }
+
+    // A new official score can unlock the next quiz in a learning path
+    try {
+      await syncLearningPathProgress(serviceClient, user.id, quizId)
+    } catch (pathError: any) {
+      logger.warn('Failed to update learning path progress', {
+        error: pathError.message,
+        quizId,
+        userId: user.id
+      })
+    }
+
+    // Runs after the path sync so a just-completed path counts
+    let newBadges: AwardedBadge[] = []
+    try {
+      newBadges = await evaluateBadges(serviceClient, user.id, { type: 'quiz_submitted', quiz_id: quizId })
+    } catch (badgeError: any) {
+      logger.warn('Failed to evaluate badges', {
+        error: badgeError.message,
+        quizId,
+        userId: user.id
+      })
+    }
+
+    // After badges, whose points count toward the total
+    try {
+      await refreshUserStats(serviceClient, user.id)
+    } catch (statsError: any) {
+      logger.warn('Failed to refresh user stats', {
+        error: statsError.message,
+        userId: user.id
+      })
+    }
+
+    // A failed send stays in the email outbox for retry
+    try {
+      await sendQuizResultEmail(serviceClient, result)
+    } catch (emailError: any) {
+      logger.warn('Failed to queue quiz result email', {
+        error: emailError.message,
+        attemptId: result.id
+      })
+    }
+
     logger.info('Quiz submitted successfully', {
       quizId,
       userId: user.id,
@@ -194,7 +380,9 @@ export async function POST(
       totalPoints: totalScore,
       percentageScore,
       passed,
-      attemptNumber
+      attemptNumber,
+      autoClosed,
+      pendingManualGrading: grading.pendingManualGrading
     })
 
     return NextResponse.json({
@@ -202,10 +390,19 @@ export async function POST(
       result: {
         id: result.id,
         score: earnedScore,
+        total_points: totalScore,
         total_questions: questions.length,
         percentage_score: percentageScore,
         passed: passed,
-        attempt_number: attemptNumber
+        attempt_number: attemptNumber,
+        grading_status: gradingStatus,
+        pending_review_count: grading.pendingManualGrading,
+        adaptive_result: adaptiveResult,
+        auto_closed: autoClosed,
+        time_taken_seconds: timeTaken,
+        question_results: grading.results,
+        certificate_code: certificateCode,
+        new_badges: newBadges
       }
     })
 
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { loadUserSettings, saveUserSettings, validateUserSettings } from '@/lib/user-settings'
+
+// GET - The signed-in user's settings, with defaults for anything never saved
+export const GET = withAuth(async (request: NextRequest, user) => {
+  try {
+    const settings = await loadUserSettings(createServiceClient(), user.id)
+
+    return NextResponse.json({ success: true, settings })
+  } catch (error: any) {
+    logger.error('Settings API error', { error: error.message, userId: user.id })
+    return NextResponse.json({ success: false, error: 'Failed to load settings' }, { status: 500 })
+  }
+})
+
+// PUT - Save settings; sections and keys left out keep their current values
+// Body: { notifications?: {...}, preferences?: {...}, privacy?: {...} }
+export const PUT = withAuth(async (request: NextRequest, user) => {
+  try {
+    const body = await request.json().catch(() => null)
+    const validationError = validateUserSettings(body)
+    if (validationError) {
+      return NextResponse.json({ success: false, error: validationError, code: 'INVALID_SETTINGS' }, { status: 400 })
+    }
+
+    const settings = await saveUserSettings(createServiceClient(), user.id, body)
+
+    return NextResponse.json({ success: true, settings })
+  } catch (error: any) {
+    logger.error('Settings save API error', { error: error.message, userId: user.id })
+    return NextResponse.json({ success: false, error: 'Failed to save settings' }, { status: 500 })
+  }
+})
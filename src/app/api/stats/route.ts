@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withAuth, createServiceClient } from '@/lib/api-auth'
+import { logger } from '@/lib/logger'
+import { refreshUserStats } from '@/lib/user-stats'
+
+// GET - The signed-in learner's streaks, points, study time and activity, brought up to date first
+// Recomputing here also picks up lesson progress, which is saved straight from the browser
+export const GET = withAuth(async (request: NextRequest, user) => {
+  try {
+    const stats = await refreshUserStats(createServiceClient(), user.id)
+
+    return NextResponse.json({ success: true, stats })
+  } catch (error: any) {
+    logger.error('User stats API error', { error: error.message, userId: user.id })
+    return NextResponse.json({ success: false, error: 'Failed to load stats' }, { status: 500 })
+  }
+})
@@ -1,5 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { withAuth, withServiceRole } from '@/lib/api-auth'
+import { computeOfficialScore, normalizeGradingPolicy, type OfficialScore } from '@/lib/quiz-policies'
+import { loadUserStats } from '@/lib/user-stats'
 
 export const GET = withAuth(async (request: NextRequest, user) => {
   try {
@@ -23,7 +25,7 @@ export const GET = withAuth(async (request: NextRequest, user) => {
 
     return withServiceRole(user, async (serviceClient) => {
       // Execute all queries in parallel for better performance
-      const [coursesResult, quizResult] = await Promise.allSettled([
+      const [coursesResult, quizResult, userStatsResult] = await Promise.allSettled([
         // Fetch user courses with progress (fixed table name)
         serviceClient
           .from('enrollments')
@@ -44,7 +46,7 @@ export const GET = withAuth(async (request: NextRequest, user) => {
           .order('last_accessed_at', { ascending: false, nullsFirst: false })
           .limit(5),
         
-        // Fetch recent quiz attempts (fixed column name)
+        // Fetch completed quiz attempts; every attempt is needed for official scores
         serviceClient
           .from('quiz_attempts')
           .select(`
@@ -53,17 +55,24 @@ export const GET = withAuth(async (request: NextRequest, user) => {
             total_questions,
             percentage_score,
             completed_at,
+            created_at,
+            grading_status,
             quiz_id,
             attempt_number,
             quizzes!inner (
               id,
-              title
+              title,
+              passing_score,
+              grading_policy
             )
           `)
           .eq('user_id', userId)
           .not('completed_at', 'is', null)  // Only completed attempts
           .order('completed_at', { ascending: false })
-          .limit(5)
+          .limit(1000),
+
+        // Streak and study time, kept current by the stats aggregator
+        loadUserStats(serviceClient, userId)
       ])
 
       // Handle results with proper error handling
@@ -73,6 +82,8 @@ export const GET = withAuth(async (request: NextRequest, user) => {
       const quizData = quizResult.status === 'fulfilled' ? quizResult.value.data : []
       const quizError = quizResult.status === 'fulfilled' ? quizResult.value.error : quizResult.reason
 
+      const userStats = userStatsResult.status === 'fulfilled' ? userStatsResult.value : null
+
       // Log errors but don't fail the request
       if (coursesError) {
         console.error('Error fetching user courses:', coursesError)
@@ -80,6 +91,9 @@ export const GET = withAuth(async (request: NextRequest, user) => {
       if (quizError) {
         console.error('Error fetching quiz attempts:', quizError)
       }
+      if (userStatsResult.status === 'rejected') {
+        console.error('Error fetching user stats:', userStatsResult.reason)
+      }
 
       // Debug logging for data received
       console.log('Dashboard API Debug:', {
@@ -109,20 +123,40 @@ export const GET = withAuth(async (request: NextRequest, user) => {
         }
       }) || []
 
+      // Official score per quiz, picked from its attempts by the quiz's grading policy
+      const attemptsByQuiz = new Map<string, any[]>()
+      processedQuizData.forEach((attempt: any) => {
+        attemptsByQuiz.set(attempt.quiz_id, [...(attemptsByQuiz.get(attempt.quiz_id) || []), attempt])
+      })
+
+      const officialScores = new Map<string, OfficialScore | null>()
+      attemptsByQuiz.forEach((attempts, quizId) => {
+        const quiz = attempts[0].quizzes
+        officialScores.set(quizId, computeOfficialScore(
+          attempts,
+          normalizeGradingPolicy(quiz?.grading_policy).method,
+          quiz?.passing_score ?? null
+        ))
+      })
+      const officialPercentages = Array.from(officialScores.values())
+        .filter((official): official is OfficialScore => official !== null)
+        .map(official => official.percentage_score)
+
+      const recentAttempts = processedQuizData.slice(0, 5)
+
       // Transform data for the dashboard with correct calculations
       const completedCourses = coursesData?.filter((course: any) => course.progress >= 100).length || 0
       
       const stats = {
         totalCourses: coursesData?.length || 0,
         completedCourses,
-        totalQuizzes: processedQuizData.length,
-        averageScore: processedQuizData.length > 0 
-          ? Math.round(processedQuizData.reduce((sum: number, attempt: any) => 
-              sum + (attempt.percentage || 0), 0) / processedQuizData.length)
+        totalQuizzes: attemptsByQuiz.size,
+        averageScore: officialPercentages.length > 0
+          ? Math.round(officialPercentages.reduce((sum, percentage) => sum + percentage, 0) / officialPercentages.length)
           : 0,
-        studyHours: Math.round((coursesData?.reduce((sum: number, course: any) => 
-          sum + (course.total_watch_time_minutes || 0), 0) || 0) / 60), // Convert minutes to hours
-        streak: processedQuizData.length > 0 ? Math.max(1, Math.floor(processedQuizData.length / 2)) : 0 // Simple streak calculation
+        studyHours: Math.round((userStats?.total_study_time_minutes || 0) / 6) / 10, // Minutes to hours, one decimal
+        streak: userStats?.study_streak_days || 0,
+        points: userStats?.total_points || 0
       }
 
       const recentCourses = coursesData?.map((enrollment: any) => ({
@@ -136,7 +170,8 @@ export const GET = withAuth(async (request: NextRequest, user) => {
         category: enrollment.courses.category || 'General'
       })) || []
 
-      const recentQuizzes = processedQuizData.slice(0, 5).map((attempt: any) => {
+      const recentQuizzes = recentAttempts.map((attempt: any) => {
+        const official = officialScores.get(attempt.quiz_id)
         return {
           id: attempt.id,
           quizId: attempt.quiz_id,
@@ -145,7 +180,9 @@ export const GET = withAuth(async (request: NextRequest, user) => {
           totalQuestions: attempt.total_questions || 0,
           completedAt: new Date(attempt.completed_at).toISOString(),
           percentage: attempt.percentage,
-          attemptNumber: attempt.attempt_number || 1
+          attemptNumber: attempt.attempt_number || 1,
+          officialPercentage: official ? Math.round(official.percentage_score) : null,
+          gradingMethod: normalizeGradingPolicy(attempt.quizzes?.grading_policy).method
         }
       })
 
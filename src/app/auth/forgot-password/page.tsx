@@ -4,7 +4,6 @@ import { useState } from 'react'
 import Link from 'next/link'
 import { ArrowLeft, Mail, CheckCircle, AlertTriangle, Loader2 } from 'lucide-react'
 import { EmailField } from '@/components/auth/FormField'
-import { createSupabaseClient } from '@/lib/supabase'
 
 export default function ForgotPasswordPage() {
   const [email, setEmail] = useState('')
@@ -32,17 +31,16 @@ export default function ForgotPasswordPage() {
     setError('')
 
     try {
-      const supabase = createSupabaseClient()
-      const { error } = await supabase.auth.resetPasswordForEmail(email, {
-        redirectTo: `${window.location.origin}/auth/reset-password`,
+      // The server sends the branded reset email, or Supabase's default when no email transport is set up
+      const response = await fetch('/api/auth/password-reset', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email })
       })
+      const result = await response.json().catch(() => null)
 
-      if (error) {
-        if (error.message.includes('User not found')) {
-          setError('No account found with this email address. Please check your email or create a new account.')
-        } else {
-          setError(error.message)
-        }
+      if (!response.ok || !result?.success) {
+        setError(result?.error || 'Something went wrong. Please try again.')
       } else {
         setSent(true)
       }
@@ -6,6 +6,8 @@ import { useAuth } from '@/contexts/AuthContext'
 import { createSupabaseClient } from '@/lib/supabase'
 import { Loader2, AlertTriangle } from 'lucide-react'
 import { getSecureRedirect } from '@/lib/redirect-security'
+import { AuthSecurity } from '@/lib/auth-security'
+import { usePasswordPolicy } from '@/hooks/api/usePlatformSettings'
 import Link from 'next/link'
 
 // Force dynamic rendering
@@ -23,6 +25,7 @@ function AuthPageContent() {
   const [error, setError] = useState('')
   const [showPassword, setShowPassword] = useState(false)
   const [isRedirecting, setIsRedirecting] = useState(false)
+  const passwordPolicy = usePasswordPolicy()
 
   // Sign In form state
   const [signInData, setSignInData] = useState({
@@ -164,6 +167,13 @@ function AuthPageContent() {
       return
     }
 
+    const passwordCheck = AuthSecurity.validatePassword(signUpData.password, passwordPolicy)
+    if (!passwordCheck.isValid) {
+      setError(passwordCheck.errors[0])
+      setLoading(false)
+      return
+    }
+
     const fullName = `${signUpData.firstName} ${signUpData.lastName}`.trim()
     const { error: signUpError } = await signUp(signUpData.email, signUpData.password, fullName)
     
@@ -335,7 +345,7 @@ function AuthPageContent() {
                   onChange={(e) => setSignUpData({ ...signUpData, password: e.target.value })}
                   placeholder="Create a password"
                   required
-                  minLength={8}
+                  minLength={passwordPolicy.min_length}
                   autoComplete="new-password"
                   className="w-full bg-white/10 backdrop-blur-sm border border-white/20 rounded-2xl px-4 py-4 text-white placeholder:text-white/50 focus:outline-none focus:ring-2 focus:ring-white/30 transition-all"
                 />
@@ -7,6 +7,8 @@ import { CheckCircle, AlertTriangle, Loader2, Lock } from 'lucide-react'
 import { PasswordField } from '@/components/auth/FormField'
 import { PasswordStrengthMeter } from '@/components/auth/PasswordStrengthMeter'
 import { createSupabaseClient } from '@/lib/supabase'
+import { getPasswordRequirements } from '@/lib/platform-settings'
+import { usePasswordPolicy } from '@/hooks/api/usePlatformSettings'
 
 function ResetPasswordForm() {
   const router = useRouter()
@@ -23,6 +25,7 @@ function ResetPasswordForm() {
   const [passwordValid, setPasswordValid] = useState(false)
   const [validatingToken, setValidatingToken] = useState(true)
   const [tokenValid, setTokenValid] = useState(false)
+  const passwordPolicy = usePasswordPolicy()
 
   // Check if we have the required tokens
   useEffect(() => {
@@ -84,18 +87,22 @@ function ResetPasswordForm() {
     setError('')
 
     try {
-      const supabase = createSupabaseClient()
-      const { error } = await supabase.auth.updateUser({
-        password: formData.password
+      // Set on the server, which checks the password policy
+      const response = await fetch('/api/auth/update-password', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ password: formData.password })
       })
+      const result = await response.json().catch(() => ({}))
 
-      if (error) {
-        if (error.message.includes('New password should be different')) {
+      if (!response.ok) {
+        const message: string = result.error || 'Something went wrong. Please try again.'
+        if (message.includes('New password should be different')) {
           setError('Your new password must be different from your current password.')
-        } else if (error.message.includes('Password should be at least')) {
+        } else if (message.includes('Password should be at least')) {
           setError('Your password doesn\'t meet the minimum security requirements.')
         } else {
-          setError(error.message)
+          setError(message)
         }
       } else {
         setSuccess(true)
@@ -273,10 +280,9 @@ function ResetPasswordForm() {
             <div className="bg-primary/5 border border-primary/20 rounded-lg p-4">
               <p className="text-primary text-sm font-medium mb-2">Password Requirements:</p>
               <ul className="text-primary text-sm space-y-1">
-                <li>• At least 8 characters long</li>
-                <li>• Contains uppercase and lowercase letters</li>
-                <li>• Includes at least one number</li>
-                <li>• Has at least one special character</li>
+                {getPasswordRequirements(passwordPolicy).map(requirement => (
+                  <li key={requirement.id}>• {requirement.label}</li>
+                ))}
               </ul>
             </div>
 
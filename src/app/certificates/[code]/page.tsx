@@ -0,0 +1,132 @@
+import { Metadata } from 'next'
+import Link from 'next/link'
+import Image from 'next/image'
+import { ShieldCheck, ShieldAlert, Download, ExternalLink } from 'lucide-react'
+import { Card } from '@/components/ui/card'
+import { createServiceClient } from '@/lib/api-auth'
+import {
+  CERTIFICATE_WIDTH,
+  CERTIFICATE_HEIGHT,
+  findCertificateByCode,
+  formatCertificateDate,
+  toCertificateVerification
+} from '@/lib/certificates'
+
+type Props = {
+  params: Promise<{ code: string }>
+}
+
+const STATUS_DETAILS = {
+  valid: { label: 'Valid certificate', className: 'text-green-700 bg-green-50 border-green-200' },
+  revoked: { label: 'This certificate has been revoked', className: 'text-red-700 bg-red-50 border-red-200' },
+  expired: { label: 'This certificate has expired', className: 'text-amber-700 bg-amber-50 border-amber-200' }
+} as const
+
+async function loadVerification(code: string) {
+  const certificate = await findCertificateByCode(createServiceClient(), decodeURIComponent(code))
+  return certificate ? toCertificateVerification(certificate) : null
+}
+
+export async function generateMetadata({ params }: Props): Promise<Metadata> {
+  const { code } = await params
+
+  try {
+    const verification = await loadVerification(code)
+    return {
+      title: verification
+        ? `${verification.recipient_name} - ${verification.title} Certificate - Acadex`
+        : 'Certificate Not Found - Acadex',
+      robots: { index: false, follow: false }
+    }
+  } catch {
+    return { title: 'Certificate Verification - Acadex', robots: { index: false, follow: false } }
+  }
+}
+
+export default async function CertificateVerificationPage({ params }: Props) {
+  const { code } = await params
+  const verification = await loadVerification(code)
+
+  if (!verification) {
+    return (
+      <div className="max-w-2xl mx-auto px-4 py-16">
+        <Card className="p-8 text-center">
+          <ShieldAlert className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Certificate not found</h1>
+          <p className="text-gray-600">
+            No certificate matches the code &ldquo;{decodeURIComponent(code)}&rdquo;. Check the code and try again.
+          </p>
+        </Card>
+      </div>
+    )
+  }
+
+  const status = STATUS_DETAILS[verification.status]
+  const imageUrl = `/api/certificates/${verification.code}/image`
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-10 space-y-6">
+      <div className={`flex items-center gap-3 p-4 rounded-lg border ${status.className}`}>
+        {verification.status === 'valid' ? <ShieldCheck className="w-6 h-6 shrink-0" /> : <ShieldAlert className="w-6 h-6 shrink-0" />}
+        <div>
+          <p className="font-semibold">{status.label}</p>
+          <p className="text-sm">
+            Issued to {verification.recipient_name} on {formatCertificateDate(verification.issued_at)}
+            {verification.expires_at && ` · Expires ${formatCertificateDate(verification.expires_at)}`}
+          </p>
+        </div>
+      </div>
+
+      <Card className="p-6">
+        <dl className="grid grid-cols-1 sm:grid-cols-3 gap-4 text-sm">
+          <div>
+            <dt className="text-gray-500">{verification.source === 'quiz' ? 'Quiz passed' : 'Course completed'}</dt>
+            <dd className="font-medium text-gray-900">{verification.title}</dd>
+          </div>
+          {verification.score !== null && (
+            <div>
+              <dt className="text-gray-500">Score</dt>
+              <dd className="font-medium text-gray-900">{Math.round(verification.score)}%</dd>
+            </div>
+          )}
+          <div>
+            <dt className="text-gray-500">Certificate code</dt>
+            <dd className="font-mono font-medium text-gray-900">{verification.code}</dd>
+          </div>
+        </dl>
+      </Card>
+
+      {verification.status !== 'revoked' && (
+        <>
+          <Card className="p-2 overflow-hidden">
+            <Image
+              src={imageUrl}
+              alt={`${verification.title} certificate for ${verification.recipient_name}`}
+              width={CERTIFICATE_WIDTH}
+              height={CERTIFICATE_HEIGHT}
+              unoptimized
+              className="w-full h-auto"
+            />
+          </Card>
+          <div className="flex flex-wrap gap-3">
+            <a
+              href={`${imageUrl}?download=1`}
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-primary text-white text-sm font-medium hover:bg-primary/90"
+            >
+              <Download className="w-4 h-4" />
+              Download
+            </a>
+            <Link
+              href={imageUrl}
+              target="_blank"
+              className="inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-gray-300 text-sm font-medium text-gray-700 hover:bg-gray-50"
+            >
+              <ExternalLink className="w-4 h-4" />
+              Open for printing
+            </Link>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
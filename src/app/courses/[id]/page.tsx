@@ -4,6 +4,7 @@ import { useState, useEffect } from 'react'
 import { useRouter, useParams } from 'next/navigation'
 import { useAuth } from '@/contexts/AuthContext'
 import { createSupabaseClient } from '@/lib/supabase'
+import { useCheckBadges } from '@/hooks/api'
 import { Loader2, BookOpen, Clock, Users, Award, CheckCircle, ArrowRight } from 'lucide-react'
 import Link from 'next/link'
 
@@ -16,6 +17,7 @@ export default function CourseDetailPage() {
   const router = useRouter()
   const params = useParams()
   const { user } = useAuth()
+  const checkBadges = useCheckBadges()
   const courseId = params.id as string
   
   const [course, setCourse] = useState<any>(null)
@@ -112,6 +114,9 @@ export default function CourseDetailPage() {
 
       if (error) throw error
 
+      // Badges are announced after the redirect
+      checkBadges.mutate({ event: 'enrollment', course_id: courseId })
+
       // Redirect to study page
       router.push(`/courses/${courseId}/study`)
     } catch (error: any) {
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
 import { useParams, useRouter } from 'next/navigation'
+import Link from 'next/link'
 import { createSupabaseClient, Course, CourseModule, CourseLesson, LessonProgress } from '@/lib/supabase'
 import { getCourseWithModulesAndLessons, updateEnrollmentProgress } from '@/lib/database-operations'
 import { useAuth } from '@/contexts/AuthContext'
@@ -12,7 +13,9 @@ import { LessonContent } from '@/components/course/LessonContent'
 import { logger } from '@/lib/logger'
 import { ContextualBackButton } from '@/components/navigation/ContextualBackButton'
 import { CourseErrorBoundary } from '@/components/ErrorBoundary'
-import { AlertCircle, RefreshCw, ArrowLeft } from 'lucide-react'
+import { AlertCircle, RefreshCw, ArrowLeft, Award, X } from 'lucide-react'
+import { authenticatedPost } from '@/lib/auth-api'
+import { useCheckBadges } from '@/hooks/api'
 
 // Force dynamic rendering - this page requires authentication
 export const dynamic = 'force-dynamic'
@@ -32,6 +35,7 @@ export default function CourseStudyPage() {
   const router = useRouter()
   const { user, loading: authLoading } = useAuth()
   const sound = useSound()
+  const checkBadges = useCheckBadges()
   const courseId = params?.id as string | undefined
   
   // Core state
@@ -46,6 +50,7 @@ export default function CourseStudyPage() {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false)
   const [isCompletingLesson, setIsCompletingLesson] = useState(false)
   const [sessionWarning, setSessionWarning] = useState(false)
+  const [certificateCode, setCertificateCode] = useState<string | null>(null)
   const [loadingStage, setLoadingStage] = useState<'auth' | 'params' | 'content'>('auth')
 
   // Refs to prevent race conditions
@@ -456,6 +461,18 @@ export default function CourseStudyPage() {
           const supabase = createSupabaseClient()
           await updateEnrollmentProgress(supabase, user.id, params.id as string, validatedProgress, currentLesson.id)
           console.log('✅ Enrollment progress updated successfully')
+
+          // The server re-checks completion and issues the certificate if the course offers one
+          if (validatedProgress >= 100) {
+            const response = await authenticatedPost(`/api/courses/${params.id}/certificate`, {})
+            const certificateResult = await response.json()
+            if (certificateResult.certificate?.status === 'valid') {
+              setCertificateCode(certificateResult.certificate.code)
+            }
+          }
+
+          // Runs after the progress update so a finished course counts
+          checkBadges.mutate({ event: 'lesson_completed', course_id: params.id as string })
         } catch (progressError) {
           console.warn('⚠️ Failed to update enrollment progress:', progressError)
           // Don't throw - lesson completion should still work even if enrollment update fails
@@ -767,6 +784,30 @@ export default function CourseStudyPage() {
           </div>
         )}
 
+        {certificateCode && (
+          <div className="fixed top-4 left-1/2 transform -translate-x-1/2 z-50 max-w-md w-full px-4">
+            <div className="bg-green-50 border-l-4 border-green-500 p-4 shadow-lg rounded flex items-start gap-3">
+              <Award className="h-5 w-5 text-green-600 shrink-0" />
+              <div className="flex-1">
+                <p className="text-sm text-green-800 font-medium">Course complete - your certificate is ready</p>
+                <Link
+                  href={`/certificates/${certificateCode}`}
+                  className="mt-1 inline-block text-sm font-medium text-green-700 hover:text-green-600 underline"
+                >
+                  View certificate
+                </Link>
+              </div>
+              <button
+                onClick={() => setCertificateCode(null)}
+                className="text-green-500 hover:text-green-700"
+              >
+                <span className="sr-only">Dismiss</span>
+                <X className="h-5 w-5" />
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Course Header */}
         <CourseHeader
           course={course}
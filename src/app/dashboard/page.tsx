@@ -10,6 +10,8 @@ import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Progress } from '@/components/ui/progress'
 import { StatCard, StatCardPresets } from '@/components/ui/stat-card'
+import { BadgeShelf } from '@/components/dashboard/BadgeShelf'
+import { StreakHeatmap } from '@/components/dashboard/StreakHeatmap'
 import {
   BookOpen,
   GraduationCap,
@@ -53,7 +55,8 @@ export default function StudentDashboard() {
     totalQuizzes: 0,
     averageScore: 0,
     studyHours: 0,
-    streak: 0
+    streak: 0,
+    points: 0
   }
 
   const recentCourses = dashboardData?.recentCourses || []
@@ -164,6 +167,8 @@ export default function StudentDashboard() {
               />
             </div>
 
+            <StreakHeatmap />
+
             {/* My Courses Section */}
             <Card className="border-2 border-gray-100 shadow-lg">
               <CardContent className="!p-3 sm:!p-4 md:!p-5 lg:!p-6">
@@ -242,7 +247,13 @@ export default function StudentDashboard() {
                           <div className="flex flex-wrap items-center gap-1.5 sm:gap-2 text-xs sm:text-sm text-gray-600">
                             <span>{quiz.score ?? 0}/{quiz.totalQuestions ?? 0} correct</span>
                             <span className="hidden sm:inline">•</span>
-                            <span className="hidden sm:inline">Attempt #{(quiz as any).attemptNumber ?? 1}</span>
+                            <span className="hidden sm:inline">Attempt #{quiz.attemptNumber ?? 1}</span>
+                            {quiz.officialPercentage !== null && quiz.officialPercentage !== undefined && (
+                              <>
+                                <span className="hidden sm:inline">•</span>
+                                <span className="hidden sm:inline">Official ({quiz.gradingMethod}): {quiz.officialPercentage}%</span>
+                              </>
+                            )}
                             <span className="hidden sm:inline">•</span>
                             <span className="hidden sm:inline">{formatDate(quiz.completedAt)}</span>
                           </div>
@@ -324,6 +335,8 @@ export default function StudentDashboard() {
               </CardContent>
             </Card>
 
+            <BadgeShelf />
+
             {/* Quick Stats Card */}
             <Card className="border-2 border-gray-100 shadow-lg">
               <CardContent className="!p-3 sm:!p-4 md:!p-5 lg:!p-6">
@@ -1,13 +1,15 @@
 'use client'
 
 import { useState, useEffect } from 'react'
+import { toast } from 'sonner'
 import { useRouter } from 'next/navigation'
 import { useAuth } from '@/contexts/AuthContext'
 import { useSound } from '@/contexts/SoundContext'
 import { DashboardLayout } from '@/components/layouts/DashboardLayout'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
-import { createSupabaseClient } from '@/lib/supabase'
+import { useUserSettings, useUpdateUserSettings } from '@/hooks/api'
+import { DEFAULT_USER_SETTINGS, type UserSettings } from '@/lib/user-settings'
 import {
   Bell,
   Shield,
@@ -19,32 +21,38 @@ import {
   VolumeX
 } from 'lucide-react'
 
-interface UserSettings {
-  notifications: {
-    courseReminders: boolean
-    quizDeadlines: boolean
-    progressUpdates: boolean
-    emailDigest: boolean
-  }
-  preferences: {
-    language: string
-    timezone: string
-    theme: 'light' | 'dark' | 'system'
-    autoplay: boolean
-    soundEffects: boolean
-  }
-  privacy: {
-    profileVisibility: 'public' | 'private'
-    progressSharing: boolean
-    analyticsOptOut: boolean
-  }
-}
+const COMMON_TIMEZONES = [
+  'UTC',
+  'Europe/London',
+  'Europe/Paris',
+  'Europe/Istanbul',
+  'Africa/Cairo',
+  'Africa/Lagos',
+  'Asia/Dubai',
+  'Asia/Karachi',
+  'Asia/Kolkata',
+  'Asia/Dhaka',
+  'Asia/Bangkok',
+  'Asia/Ho_Chi_Minh',
+  'Asia/Shanghai',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland',
+  'America/Sao_Paulo',
+  'America/New_York',
+  'America/Chicago',
+  'America/Denver',
+  'America/Los_Angeles'
+]
 
 export default function SettingsPage() {
   const { user, loading: authLoading } = useAuth()
   const sound = useSound()
   const router = useRouter()
-  const [loading, setLoading] = useState(true)
+  const { data: savedSettings, isLoading: settingsLoading } = useUserSettings()
+  const updateSettings = useUpdateUserSettings()
+  const loading = !!user && settingsLoading
 
   useEffect(() => {
     if (!authLoading && !user) {
@@ -54,62 +62,11 @@ export default function SettingsPage() {
     }
   }, [authLoading, user, router])
 
-  const [settings, setSettings] = useState<UserSettings>({
-    notifications: {
-      courseReminders: true,
-      quizDeadlines: true,
-      progressUpdates: false,
-      emailDigest: true
-    },
-    preferences: {
-      language: 'en',
-      timezone: 'UTC',
-      theme: 'light',
-      autoplay: false,
-      soundEffects: true
-    },
-    privacy: {
-      profileVisibility: 'private',
-      progressSharing: false,
-      analyticsOptOut: false
-    }
-  })
+  const [settings, setSettings] = useState<UserSettings>(DEFAULT_USER_SETTINGS)
 
   useEffect(() => {
-    const fetchUserSettings = async () => {
-      if (!user?.id) return
-
-      try {
-        setLoading(true)
-        const supabase = createSupabaseClient()
-
-        // Note: users table only has: id, email, name, avatar_url, role, created_at, updated_at
-        // Settings are stored locally for now (could be moved to a separate user_settings table later)
-        const { data: userData, error: userError } = await supabase
-          .from('users')
-          .select('id, email, name')
-          .eq('id', user.id)
-          .single()
-
-        if (userError) {
-          console.log('[Settings] Error fetching user data:', userError.message)
-          // Error fetching user data - using default settings
-        } else if (userData) {
-          console.log('[Settings] User data loaded:', userData)
-          // For now, settings are managed locally
-          // In the future, could add a user_settings table to persist these
-        }
-      } catch (error: any) {
-        console.error('[Settings] Error fetching user settings:', error)
-        // Error fetching user settings - using defaults
-      } finally {
-        setLoading(false)
-      }
-    }
-
-    fetchUserSettings()
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [user])
+    if (savedSettings) setSettings(savedSettings)
+  }, [savedSettings])
 
   const updateNotificationSetting = (key: keyof UserSettings['notifications']) => {
     setSettings(prev => ({
@@ -153,25 +110,17 @@ export default function SettingsPage() {
     if (!user?.id) return
 
     try {
-      // Note: Settings are currently stored in localStorage via SoundContext
-      // The users table doesn't have columns for these settings yet
-      // In the future, could add a user_settings table to persist these to the database
-
-      console.log('[Settings] Settings saved locally:', settings)
-      // Settings saved successfully - already persisted via localStorage in SoundContext
-
-      // If you want to add database persistence later, create a user_settings table with:
-      // - user_id (uuid, foreign key to users.id)
-      // - notification_preferences (jsonb)
-      // - privacy_settings (jsonb)
-      // - appearance_settings (jsonb)
-      // - timezone (text)
-
+      await updateSettings.mutateAsync(settings)
+      toast.success('Settings saved')
     } catch (error: any) {
-      console.error('[Settings] Error saving settings:', error)
+      toast.error(error.message || 'Failed to save settings')
     }
   }
 
+  // The browser's own zone first, plus whatever is saved if it isn't in the list
+  const browserTimezone = Intl.DateTimeFormat().resolvedOptions().timeZone
+  const timezoneOptions = Array.from(new Set([browserTimezone, settings.preferences.timezone, ...COMMON_TIMEZONES].filter(Boolean)))
+
   if (loading || authLoading) {
     return (
       <DashboardLayout title="Settings">
@@ -247,6 +196,44 @@ export default function SettingsPage() {
                 </button>
               </div>
 
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                <div>
+                  <h4 className="font-medium text-gray-900">Achievements</h4>
+                  <p className="text-sm text-gray-600">Be notified when you earn a badge</p>
+                </div>
+                <button
+                  onClick={() => updateNotificationSetting('achievements')}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors self-start sm:self-auto ${
+                    settings.notifications.achievements ? 'bg-primary' : 'bg-gray-200'
+                  }`}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                      settings.notifications.achievements ? 'translate-x-6' : 'translate-x-1'
+                    }`}
+                  />
+                </button>
+              </div>
+
+              <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+                <div>
+                  <h4 className="font-medium text-gray-900">Graded Work</h4>
+                  <p className="text-sm text-gray-600">Be notified when an instructor grades your written answers</p>
+                </div>
+                <button
+                  onClick={() => updateNotificationSetting('gradedWork')}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors self-start sm:self-auto ${
+                    settings.notifications.gradedWork ? 'bg-primary' : 'bg-gray-200'
+                  }`}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                      settings.notifications.gradedWork ? 'translate-x-6' : 'translate-x-1'
+                    }`}
+                  />
+                </button>
+              </div>
+
               <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
                 <div>
                   <h4 className="font-medium text-gray-900">Progress Updates</h4>
@@ -313,6 +300,22 @@ export default function SettingsPage() {
                 </select>
               </div>
 
+              <div className="flex items-center justify-between">
+                <div>
+                  <h4 className="font-medium text-gray-900">Timezone</h4>
+                  <p className="text-sm text-gray-600">Where your study days start and end, for streaks</p>
+                </div>
+                <select
+                  value={settings.preferences.timezone}
+                  onChange={(e) => updatePreferenceSetting('timezone', e.target.value)}
+                  className="border-2 border-gray-300 rounded-md px-3 py-2 text-sm bg-white text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent max-w-[12rem]"
+                >
+                  {timezoneOptions.map(timezone => (
+                    <option key={timezone} value={timezone}>{timezone.replace(/_/g, ' ')}</option>
+                  ))}
+                </select>
+              </div>
+
               <div className="flex items-center justify-between">
                 <div>
                   <h4 className="font-medium text-gray-900">Theme</h4>
@@ -457,6 +460,26 @@ export default function SettingsPage() {
                 </button>
               </div>
 
+              <div className="flex items-center justify-between">
+                <div>
+                  <h4 className="font-medium text-gray-900">Show Me on Leaderboards</h4>
+                  <p className="text-sm text-gray-600">Appear by name in leaderboard rankings</p>
+                </div>
+                <button
+                  onClick={() => updatePrivacySetting('showOnLeaderboards', !settings.privacy.showOnLeaderboards)}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                    settings.privacy.showOnLeaderboards ? 'bg-primary' : 'bg-gray-200'
+                  }`}
+                  aria-label={settings.privacy.showOnLeaderboards ? 'Hide me from leaderboards' : 'Show me on leaderboards'}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                      settings.privacy.showOnLeaderboards ? 'translate-x-6' : 'translate-x-1'
+                    }`}
+                  />
+                </button>
+              </div>
+
               <div className="flex items-center justify-between">
                 <div>
                   <h4 className="font-medium text-gray-900">Analytics Opt-out</h4>
@@ -481,9 +504,9 @@ export default function SettingsPage() {
 
         {/* Save Button */}
         <div className="mt-8 flex justify-end">
-          <Button onClick={saveSettings} variant="secondary" size="lg" className="flex items-center gap-2">
+          <Button onClick={saveSettings} variant="secondary" size="lg" className="flex items-center gap-2" disabled={updateSettings.isPending}>
             <Check className="h-4 w-4" />
-            Save Settings
+            {updateSettings.isPending ? 'Saving...' : 'Save Settings'}
           </Button>
         </div>
       </div>
@@ -0,0 +1,126 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { AlertTriangle, CheckCircle, GraduationCap, Loader2 } from 'lucide-react'
+import { useAuth } from '@/contexts/AuthContext'
+
+export default function InstructorInvitePage() {
+  const { token } = useParams<{ token: string }>()
+  const { user, loading } = useAuth()
+  const [accepting, setAccepting] = useState(false)
+  const [accepted, setAccepted] = useState(false)
+  const [error, setError] = useState('')
+
+  const invitePath = `/invite/${encodeURIComponent(token)}`
+
+  const handleAccept = async () => {
+    setAccepting(true)
+    setError('')
+
+    try {
+      const response = await fetch('/api/invites/accept', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token })
+      })
+      const result = await response.json().catch(() => null)
+
+      if (!response.ok || !result?.success) {
+        setError(result?.error || 'Something went wrong. Please try again.')
+      } else {
+        setAccepted(true)
+      }
+    } catch (err) {
+      setError('Something went wrong. Please try again.')
+    } finally {
+      setAccepting(false)
+    }
+  }
+
+  return (
+    <div className="relative min-h-screen bg-gradient-to-br from-primary/10 via-white to-secondary/10 flex items-center justify-center py-12 px-4 sm:px-6 lg:px-8">
+      <div className="relative w-full max-w-md">
+        <div className="bg-white/90 backdrop-blur-xl rounded-2xl shadow-2xl border border-white/20 p-8 text-center">
+          {accepted ? (
+            <>
+              <div className="mx-auto w-16 h-16 bg-green-100 rounded-full flex items-center justify-center mb-6">
+                <CheckCircle className="w-8 h-8 text-green-600" />
+              </div>
+              <h1 className="text-2xl font-bold text-gray-900 mb-4">You&apos;re an instructor</h1>
+              <p className="text-gray-900 mb-6">
+                Your account now has instructor access. Sign-in pages and menus pick it up on the next page load.
+              </p>
+              {/* A full reload so the server reads the new role */}
+              <a
+                href="/admin/courses"
+                className="block w-full bg-primary hover:bg-secondary text-white py-3 px-4 rounded-xl font-medium transition-colors"
+              >
+                Open the Teaching Workspace
+              </a>
+            </>
+          ) : (
+            <>
+              <div className="mx-auto w-16 h-16 bg-secondary/10 rounded-full flex items-center justify-center mb-6">
+                <GraduationCap className="w-8 h-8 text-secondary" />
+              </div>
+              <h1 className="text-2xl font-bold text-gray-900 mb-4">Instructor Invitation</h1>
+              <p className="text-gray-900 mb-6">
+                You&apos;ve been invited to teach on Acadex. Accept the invitation with the account that uses the email address it was sent to.
+              </p>
+
+              {error && (
+                <div className="bg-destructive/5 border border-destructive/20 rounded-xl p-4 mb-6 text-left">
+                  <div className="flex items-start gap-3">
+                    <AlertTriangle className="w-5 h-5 text-destructive flex-shrink-0 mt-0.5" />
+                    <p className="text-destructive text-sm">{error}</p>
+                  </div>
+                </div>
+              )}
+
+              {loading ? (
+                <Loader2 className="w-6 h-6 animate-spin mx-auto text-primary" />
+              ) : user ? (
+                <>
+                  <p className="text-sm text-gray-600 mb-4">
+                    Signed in as <strong>{user.email}</strong>
+                  </p>
+                  <button
+                    onClick={handleAccept}
+                    disabled={accepting}
+                    className="w-full bg-primary hover:bg-secondary text-white py-3 px-4 rounded-xl font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {accepting ? (
+                      <span className="flex items-center justify-center gap-2">
+                        <Loader2 className="w-5 h-5 animate-spin" />
+                        Accepting...
+                      </span>
+                    ) : (
+                      'Accept Invitation'
+                    )}
+                  </button>
+                </>
+              ) : (
+                <div className="space-y-3">
+                  <Link
+                    href={`/auth?tab=signup&redirect=${encodeURIComponent(invitePath)}`}
+                    className="block w-full bg-primary hover:bg-secondary text-white py-3 px-4 rounded-xl font-medium transition-colors"
+                  >
+                    Create an Account
+                  </Link>
+                  <Link
+                    href={`/auth?tab=signin&redirect=${encodeURIComponent(invitePath)}`}
+                    className="block w-full bg-muted hover:bg-muted/80 text-muted-foreground py-3 px-4 rounded-xl font-medium transition-colors"
+                  >
+                    I already have an account
+                  </Link>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
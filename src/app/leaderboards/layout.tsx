@@ -0,0 +1,15 @@
+import { Metadata } from 'next'
+import { requireAuth } from '@/lib/auth'
+
+export const metadata: Metadata = {
+  title: 'Leaderboards - Acadex Academy',
+  description: 'See how your quiz results rank against other learners this week, this month and all time.',
+  robots: { index: false }
+}
+
+export default async function LeaderboardsLayout({ children }: { children: React.ReactNode }) {
+  // Standings highlight the signed-in learner
+  await requireAuth('/leaderboards')
+
+  return <>{children}</>
+}
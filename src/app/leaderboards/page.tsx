@@ -0,0 +1,220 @@
+'use client'
+
+import { useState } from 'react'
+import Link from 'next/link'
+import { Trophy, Medal, EyeOff } from 'lucide-react'
+import { useLeaderboards, useLeaderboard, type LeaderboardDetail } from '@/hooks/api'
+import { DashboardLayout } from '@/components/layouts/DashboardLayout'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { formatDate } from '@/lib/date-utils'
+import type { LeaderboardType, NamedStanding } from '@/lib/leaderboards/types'
+
+const PERIOD_NAMES = { weekly: 'This week', monthly: 'This month', all_time: 'All time' }
+
+const RANK_STYLES: Record<number, string> = {
+  1: 'text-yellow-500',
+  2: 'text-gray-400',
+  3: 'text-amber-700'
+}
+
+function formatScore(score: number, type: LeaderboardType) {
+  if (type === 'quizzes_passed') return `${score} passed`
+  if (type === 'average') return `${score}%`
+  return `${score} pts`
+}
+
+/** Archived periods end where the next one starts, so the last day shown is the day before */
+function formatPeriod(period: { start: string; end: string }) {
+  const lastDay = new Date(new Date(period.end).getTime() - 1)
+  return `${formatDate(period.start)} – ${formatDate(lastDay.toISOString())}`
+}
+
+function StandingRow({ standing, type }: { standing: NamedStanding; type: LeaderboardType }) {
+  return (
+    <tr className={standing.is_current_user ? 'bg-primary/5' : ''}>
+      <td className="px-4 py-3 w-16">
+        {RANK_STYLES[standing.rank] ? (
+          <Medal className={`w-5 h-5 ${RANK_STYLES[standing.rank]}`} aria-label={`Rank ${standing.rank}`} />
+        ) : (
+          <span className="text-sm font-medium text-gray-600">{standing.rank}</span>
+        )}
+      </td>
+      <td className="px-4 py-3">
+        <div className="flex items-center gap-3">
+          {standing.avatar_url ? (
+            // eslint-disable-next-line @next/next/no-img-element
+            <img src={standing.avatar_url} alt="" className="w-8 h-8 rounded-full object-cover" />
+          ) : (
+            <div className="w-8 h-8 rounded-full bg-gray-200 flex items-center justify-center text-sm font-medium text-gray-600">
+              {standing.name.charAt(0).toUpperCase()}
+            </div>
+          )}
+          <span className={`text-sm ${standing.is_current_user ? 'font-semibold text-gray-900' : 'text-gray-800'}`}>
+            {standing.name}{standing.is_current_user ? ' (you)' : ''}
+          </span>
+        </div>
+      </td>
+      <td className="px-4 py-3 text-sm text-gray-600 hidden sm:table-cell">
+        {standing.quizzes} quiz{standing.quizzes !== 1 ? 'zes' : ''}
+      </td>
+      <td className="px-4 py-3 text-right text-sm font-semibold text-gray-900">{formatScore(standing.score, type)}</td>
+    </tr>
+  )
+}
+
+function Standings({ data }: { data: LeaderboardDetail }) {
+  const { leaderboard, standings, my_standing: myStanding } = data
+  const showOwnRow = myStanding && !standings.some(standing => standing.is_current_user)
+
+  if (standings.length === 0) {
+    return (
+      <div className="py-12 text-center">
+        <Trophy className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+        <h3 className="text-lg font-medium text-gray-900 mb-1">No one ranked yet</h3>
+        <p className="text-gray-600">
+          {data.period.is_current ? 'Complete a quiz to claim the top spot.' : 'Nobody was ranked in this period.'}
+        </p>
+      </div>
+    )
+  }
+
+  return (
+    <table className="min-w-full divide-y divide-gray-200">
+      <thead className="bg-gray-50">
+        <tr>
+          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Rank</th>
+          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase">Learner</th>
+          <th className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase hidden sm:table-cell">Quizzes</th>
+          <th className="px-4 py-3 text-right text-xs font-medium text-gray-500 uppercase">Score</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-200">
+        {standings.map(standing => (
+          <StandingRow key={standing.user_id} standing={standing} type={leaderboard.leaderboard_type} />
+        ))}
+        {showOwnRow && (
+          <>
+            <tr>
+              <td colSpan={4} className="px-4 py-1 text-center text-xs text-gray-400">···</td>
+            </tr>
+            <StandingRow standing={myStanding} type={leaderboard.leaderboard_type} />
+          </>
+        )}
+      </tbody>
+    </table>
+  )
+}
+
+export default function LeaderboardsPage() {
+  const { data: leaderboards = [], isLoading, error } = useLeaderboards()
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [periodStart, setPeriodStart] = useState<string | null>(null)
+  const boardId = selectedId || leaderboards[0]?.id || null
+  const { data, isLoading: standingsLoading, error: standingsError } = useLeaderboard(boardId, periodStart)
+
+  const selectBoard = (id: string) => {
+    setSelectedId(id)
+    setPeriodStart(null)
+  }
+
+  return (
+    <DashboardLayout title="Leaderboards">
+      <div className="mb-6 md:mb-8">
+        <h1 className="text-2xl md:text-3xl font-bold text-gray-900 mb-2">Leaderboards</h1>
+        <p className="text-gray-600">See how your quiz results stack up. Weekly and monthly boards start fresh each period.</p>
+      </div>
+
+      {error ? (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+          {error.message || 'Failed to load leaderboards'}
+        </div>
+      ) : isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : leaderboards.length === 0 ? (
+        <Card variant="default">
+          <CardContent className="py-12 text-center">
+            <Trophy className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-1">No leaderboards yet</h3>
+            <p className="text-gray-600">Check back soon — your instructors haven&apos;t set any up.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {/* Board selector */}
+          <div className="flex flex-wrap gap-2">
+            {leaderboards.map(board => (
+              <button
+                key={board.id}
+                onClick={() => selectBoard(board.id)}
+                className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${
+                  board.id === boardId
+                    ? 'bg-primary text-white border-primary'
+                    : 'bg-white text-gray-700 border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                {board.name}
+              </button>
+            ))}
+          </div>
+
+          {data?.opted_out && (
+            <div className="flex items-start gap-2 p-3 rounded-lg bg-gray-50 border border-gray-200 text-sm text-gray-700">
+              <EyeOff className="w-4 h-4 mt-0.5 shrink-0" />
+              <span>
+                You&apos;re hidden from leaderboards.{' '}
+                <Link href="/dashboard/settings" className="text-primary underline">Change this in settings</Link>
+              </span>
+            </div>
+          )}
+
+          <Card variant="default">
+            <CardContent className="!p-0">
+              {standingsError ? (
+                <div className="p-4 text-sm text-red-800">{standingsError.message || 'Failed to load standings'}</div>
+              ) : standingsLoading || !data ? (
+                <div className="flex items-center justify-center h-48">
+                  <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+                </div>
+              ) : (
+                <>
+                  <div className="p-4 md:p-5 border-b border-gray-200 flex flex-wrap items-start justify-between gap-3">
+                    <div>
+                      <h2 className="text-lg font-semibold text-gray-900">{data.leaderboard.name}</h2>
+                      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-600 mt-1">
+                        <Badge variant="secondary">{data.leaderboard.scope_name || 'All quizzes'}</Badge>
+                        <span>{data.participants} learner{data.participants !== 1 ? 's' : ''} ranked</span>
+                        {data.my_standing && <span className="font-medium text-gray-900">You&apos;re #{data.my_standing.rank}</span>}
+                      </div>
+                      {data.leaderboard.description && (
+                        <p className="text-sm text-gray-600 mt-2 max-w-2xl">{data.leaderboard.description}</p>
+                      )}
+                    </div>
+
+                    {data.leaderboard.time_period !== 'all_time' && (
+                      <select
+                        value={periodStart || ''}
+                        onChange={(e) => setPeriodStart(e.target.value || null)}
+                        className="h-9 rounded-md border border-gray-300 px-3 text-sm bg-white focus:outline-none focus:ring-2 focus:ring-primary"
+                        aria-label="Period"
+                      >
+                        <option value="">{PERIOD_NAMES[data.leaderboard.time_period]}</option>
+                        {data.archived_periods.map(period => (
+                          <option key={period.start} value={period.start}>{formatPeriod(period)}</option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+
+                  <Standings data={data} />
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,153 @@
+'use client'
+
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { ArrowLeft, CheckCircle2, Lock, PlayCircle, Target, Clock, Trophy } from 'lucide-react'
+import { useLearningPath } from '@/hooks/api'
+import { DashboardLayout } from '@/components/layouts/DashboardLayout'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+import { formatDate } from '@/lib/date-utils'
+
+export default function LearningPathPage() {
+  const params = useParams()
+  const pathId = typeof params.id === 'string' ? params.id : null
+  const { data, isLoading, error } = useLearningPath(pathId)
+
+  if (isLoading) {
+    return (
+      <DashboardLayout title="Learning Path">
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  if (error || !data) {
+    return (
+      <DashboardLayout title="Learning Path">
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+          {error?.message || 'Learning path not found'}
+        </div>
+        <Link href="/learning-paths" className="inline-flex items-center gap-1 mt-4 text-sm text-primary hover:underline">
+          <ArrowLeft className="w-4 h-4" /> All learning paths
+        </Link>
+      </DashboardLayout>
+    )
+  }
+
+  const { path, prerequisites, steps, progress } = data
+  const missingPrerequisites = prerequisites.filter(prerequisite => !prerequisite.completed)
+
+  return (
+    <DashboardLayout title={path.name}>
+      <Link href="/learning-paths" className="inline-flex items-center gap-1 mb-4 text-sm text-gray-600 hover:text-gray-900">
+        <ArrowLeft className="w-4 h-4" /> All learning paths
+      </Link>
+
+      {/* Overview */}
+      <Card variant="default" className="mb-6">
+        <CardContent className="!p-5 md:!p-6 space-y-4">
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <div>
+              <h1 className="text-2xl md:text-3xl font-bold text-gray-900">{path.name}</h1>
+              {path.description && <p className="text-gray-600 mt-2 max-w-2xl">{path.description}</p>}
+            </div>
+            <Badge variant="secondary" className="capitalize">{path.difficulty_level}</Badge>
+          </div>
+
+          <div className="flex flex-wrap gap-4 text-sm text-gray-600">
+            <span className="flex items-center gap-1">
+              <Target className="w-4 h-4" /> Score {path.completion_criteria.min_score}% on each quiz to unlock the next
+            </span>
+            {path.estimated_hours !== null && (
+              <span className="flex items-center gap-1">
+                <Clock className="w-4 h-4" /> ~{path.estimated_hours} hours
+              </span>
+            )}
+          </div>
+
+          <div>
+            <div className="flex justify-between text-sm text-gray-600 mb-1">
+              <span>{progress.met_count} of {steps.length} quizzes done</span>
+              <span>{progress.progress_percentage}%</span>
+            </div>
+            <Progress value={progress.progress_percentage} variant={progress.completed ? 'success' : 'default'} />
+          </div>
+
+          {progress.completed && (
+            <div className="flex items-center gap-2 p-3 rounded-lg bg-green-50 border border-green-200 text-sm text-green-800">
+              <Trophy className="w-4 h-4" />
+              Path completed{progress.completed_at ? ` on ${formatDate(progress.completed_at)}` : ''}
+            </div>
+          )}
+
+          {missingPrerequisites.length > 0 && (
+            <div className="p-3 rounded-lg bg-amber-50 border border-amber-200 text-sm text-amber-900">
+              <div className="flex items-center gap-2 font-medium mb-1">
+                <Lock className="w-4 h-4" /> Complete these paths first
+              </div>
+              <ul className="list-disc list-inside space-y-0.5">
+                {missingPrerequisites.map(prerequisite => (
+                  <li key={prerequisite.id}>
+                    <Link href={`/learning-paths/${prerequisite.id}`} className="underline">{prerequisite.name}</Link>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Quizzes in order */}
+      <ol className="space-y-3">
+        {steps.map((step, index) => {
+          const isCurrent = index === progress.current_quiz_index && step.unlocked
+
+          return (
+            <li key={step.quiz_id}>
+              <Card variant="default" className={isCurrent ? 'ring-2 ring-primary' : ''}>
+                <CardContent className="!p-4 flex flex-col sm:flex-row sm:items-center gap-4">
+                  <div className={`flex items-center justify-center w-10 h-10 rounded-full shrink-0 ${
+                    step.met ? 'bg-green-100 text-green-700' : step.unlocked ? 'bg-blue-100 text-blue-700' : 'bg-gray-100 text-gray-400'
+                  }`}>
+                    {step.met ? <CheckCircle2 className="w-5 h-5" /> : step.unlocked ? <span className="font-semibold">{index + 1}</span> : <Lock className="w-4 h-4" />}
+                  </div>
+
+                  <div className="flex-1 min-w-0">
+                    <h3 className={`font-semibold ${step.unlocked ? 'text-gray-900' : 'text-gray-500'}`}>
+                      {step.quiz?.title || 'Quiz'}
+                    </h3>
+                    <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600 mt-1">
+                      {step.quiz?.difficulty && <span className="capitalize">{step.quiz.difficulty}</span>}
+                      {step.quiz?.time_limit_minutes && <span>{step.quiz.time_limit_minutes} min</span>}
+                      {step.official_score !== null && (
+                        <span className={step.met ? 'text-green-700 font-medium' : 'text-amber-700 font-medium'}>
+                          Your score: {Math.round(step.official_score)}%
+                        </span>
+                      )}
+                    </div>
+                  </div>
+
+                  {step.unlocked ? (
+                    <Button variant={isCurrent ? 'primary' : 'outline'} size="sm" asChild>
+                      <Link href={`/quizzes/${step.quiz_id}/take`} className="flex items-center justify-center gap-1">
+                        <PlayCircle className="w-4 h-4" />
+                        {step.met ? 'Retake' : step.official_score !== null ? 'Try again' : 'Start'}
+                      </Link>
+                    </Button>
+                  ) : (
+                    <span className="text-xs text-gray-500">Locked</span>
+                  )}
+                </CardContent>
+              </Card>
+            </li>
+          )
+        })}
+      </ol>
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,15 @@
+import { Metadata } from 'next'
+import { requireAuth } from '@/lib/auth'
+
+export const metadata: Metadata = {
+  title: 'Learning Paths - Acadex Academy',
+  description: 'Step-by-step quiz tracks that unlock as you reach each target score.',
+  robots: { index: false }
+}
+
+export default async function LearningPathsLayout({ children }: { children: React.ReactNode }) {
+  // Progress is per learner, so paths need a signed-in user
+  await requireAuth('/learning-paths')
+
+  return <>{children}</>
+}
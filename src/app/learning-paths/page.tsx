@@ -0,0 +1,94 @@
+'use client'
+
+import Link from 'next/link'
+import { Route, Lock, CheckCircle2, Clock, Brain, ArrowRight } from 'lucide-react'
+import { useLearningPaths } from '@/hooks/api'
+import { DashboardLayout } from '@/components/layouts/DashboardLayout'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { Progress } from '@/components/ui/progress'
+
+export default function LearningPathsPage() {
+  const { data: paths = [], isLoading, error } = useLearningPaths()
+
+  return (
+    <DashboardLayout title="Learning Paths">
+      <div className="mb-6 md:mb-8">
+        <h1 className="text-2xl md:text-3xl font-bold text-gray-900 mb-2">Learning Paths</h1>
+        <p className="text-gray-600">Work through quizzes in order — each one unlocks when you reach the target score on the one before.</p>
+      </div>
+
+      {error ? (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+          {error.message || 'Failed to load learning paths'}
+        </div>
+      ) : isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : paths.length === 0 ? (
+        <Card variant="default">
+          <CardContent className="py-12 text-center">
+            <Route className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-1">No learning paths yet</h3>
+            <p className="text-gray-600">Check back soon, or practise with individual quizzes in the meantime.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6">
+          {paths.map(path => (
+            <Card key={path.id} variant="interactive">
+              <CardContent className="!p-5 flex flex-col h-full">
+                <div className="flex items-start justify-between gap-3 mb-2">
+                  <h3 className="text-lg font-semibold text-gray-900">{path.name}</h3>
+                  {path.progress.completed ? (
+                    <Badge variant="success" className="flex items-center gap-1 shrink-0">
+                      <CheckCircle2 className="w-3 h-3" /> Completed
+                    </Badge>
+                  ) : path.progress.locked ? (
+                    <Badge variant="outline" className="flex items-center gap-1 shrink-0">
+                      <Lock className="w-3 h-3" /> Locked
+                    </Badge>
+                  ) : null}
+                </div>
+
+                {path.description && (
+                  <p className="text-sm text-gray-600 line-clamp-3 mb-3">{path.description}</p>
+                )}
+
+                <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600 mb-4">
+                  <Badge variant="secondary" className="capitalize">{path.difficulty_level}</Badge>
+                  <span className="flex items-center gap-1">
+                    <Brain className="w-3 h-3" /> {path.quiz_count} quiz{path.quiz_count !== 1 ? 'zes' : ''}
+                  </span>
+                  {path.estimated_hours !== null && (
+                    <span className="flex items-center gap-1">
+                      <Clock className="w-3 h-3" /> ~{path.estimated_hours}h
+                    </span>
+                  )}
+                </div>
+
+                <div className="mt-auto space-y-3">
+                  <div>
+                    <div className="flex justify-between text-xs text-gray-600 mb-1">
+                      <span>{path.progress.met_count} of {path.quiz_count} done</span>
+                      <span>{path.progress.progress_percentage}%</span>
+                    </div>
+                    <Progress value={path.progress.progress_percentage} size="sm" variant={path.progress.completed ? 'success' : 'default'} />
+                  </div>
+                  <Button variant="outline" size="sm" asChild>
+                    <Link href={`/learning-paths/${path.id}`} className="flex items-center justify-center gap-1">
+                      {path.progress.met_count > 0 && !path.progress.completed ? 'Continue' : 'View path'}
+                      <ArrowRight className="w-4 h-4" />
+                    </Link>
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,123 @@
+'use client'
+
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { ArrowLeft, BarChart3, CheckCircle2, Clock, Hourglass, PlayCircle } from 'lucide-react'
+import { useMockTest } from '@/hooks/api'
+import { DashboardLayout } from '@/components/layouts/DashboardLayout'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { SKILL_LABELS } from '@/lib/mock-tests/rules'
+import { formatBand, getBandBadgeClasses } from '@/lib/score-utils'
+
+export default function MockTestPage() {
+  const params = useParams()
+  const mockTestId = typeof params.id === 'string' ? params.id : null
+  const { data, isLoading, error } = useMockTest(mockTestId)
+
+  if (isLoading) {
+    return (
+      <DashboardLayout title="Mock Test">
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  if (error || !data) {
+    return (
+      <DashboardLayout title="Mock Test">
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+          {error?.message || 'Mock test not found'}
+        </div>
+        <Link href="/mock-tests" className="inline-flex items-center gap-1 mt-4 text-sm text-primary hover:underline">
+          <ArrowLeft className="w-4 h-4" /> All mock tests
+        </Link>
+      </DashboardLayout>
+    )
+  }
+
+  const { test, sections, complete } = data
+  const anyBand = sections.some(section => section.band !== null)
+
+  return (
+    <DashboardLayout title={test.title}>
+      <Link href="/mock-tests" className="inline-flex items-center gap-1 mb-4 text-sm text-gray-600 hover:text-gray-900">
+        <ArrowLeft className="w-4 h-4" /> All mock tests
+      </Link>
+
+      {/* Overview */}
+      <Card variant="default" className="mb-6">
+        <CardContent className="!p-5 md:!p-6 flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold text-gray-900">{test.title}</h1>
+            <Badge variant="secondary" className="mt-2">
+              {test.module === 'general_training' ? 'General Training' : 'Academic'}
+            </Badge>
+            {test.description && <p className="text-gray-600 mt-3 max-w-2xl">{test.description}</p>}
+          </div>
+          {anyBand && (
+            <Button variant={complete ? 'primary' : 'outline'} size="sm" asChild>
+              <Link href={`/mock-tests/${test.id}/results`} className="flex items-center gap-1">
+                <BarChart3 className="w-4 h-4" />
+                {complete ? 'View band profile' : 'Bands so far'}
+              </Link>
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Sections in test order */}
+      <div className="space-y-4">
+        {sections.filter(section => section.quiz_count > 0).map(section => (
+          <Card key={section.skill} variant="default">
+            <CardContent className="!p-5 space-y-3">
+              <div className="flex items-center justify-between gap-3">
+                <h2 className="text-lg font-semibold text-gray-900">{SKILL_LABELS[section.skill]}</h2>
+                {section.band !== null ? (
+                  <span className={`px-2.5 py-0.5 rounded-md border text-sm font-bold ${getBandBadgeClasses(section.band)}`}>
+                    Band {formatBand(section.band)}
+                  </span>
+                ) : (
+                  <span className="text-xs text-gray-500">
+                    {section.quizzes_done} of {section.quiz_count} done
+                  </span>
+                )}
+              </div>
+
+              <ol className="space-y-2">
+                {section.quizzes.map(quiz => {
+                  const done = quiz.percentage_score !== null
+                  return (
+                    <li key={quiz.id} className="flex flex-col sm:flex-row sm:items-center gap-3 p-3 rounded-lg border border-gray-200">
+                      <div className={`flex items-center justify-center w-8 h-8 rounded-full shrink-0 ${
+                        done ? 'bg-green-100 text-green-700' : quiz.pending_review ? 'bg-amber-100 text-amber-700' : 'bg-blue-100 text-blue-700'
+                      }`}>
+                        {done ? <CheckCircle2 className="w-4 h-4" /> : quiz.pending_review ? <Hourglass className="w-4 h-4" /> : <PlayCircle className="w-4 h-4" />}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <h3 className="font-medium text-gray-900">{quiz.title}</h3>
+                        <div className="flex flex-wrap items-center gap-3 text-xs text-gray-600 mt-0.5">
+                          {quiz.total_questions ? <span>{quiz.total_questions} questions</span> : null}
+                          {quiz.time_limit_minutes && (
+                            <span className="flex items-center gap-1"><Clock className="w-3 h-3" /> {quiz.time_limit_minutes} min</span>
+                          )}
+                          {!done && quiz.pending_review && <span className="text-amber-700">Awaiting grading</span>}
+                        </div>
+                      </div>
+                      <Button variant={done ? 'outline' : 'primary'} size="sm" asChild>
+                        <Link href={`/quizzes/${quiz.id}/take`}>{done ? 'Retake' : 'Start'}</Link>
+                      </Button>
+                    </li>
+                  )
+                })}
+              </ol>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </DashboardLayout>
+  )
+}
@@ -0,0 +1,91 @@
+'use client'
+
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { ArrowLeft } from 'lucide-react'
+import { useMockTest } from '@/hooks/api'
+import { DashboardLayout } from '@/components/layouts/DashboardLayout'
+import { Card, CardContent } from '@/components/ui/card'
+import { BandProfile } from '@/components/quiz/display/BandProfile'
+import { SKILL_LABELS } from '@/lib/mock-tests/rules'
+import { IELTS_RAW_MAX, formatBand } from '@/lib/score-utils'
+
+export default function MockTestResultsPage() {
+  const params = useParams()
+  const mockTestId = typeof params.id === 'string' ? params.id : null
+  const { data, isLoading, error } = useMockTest(mockTestId)
+
+  if (isLoading) {
+    return (
+      <DashboardLayout title="Band Profile">
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      </DashboardLayout>
+    )
+  }
+
+  if (error || !data) {
+    return (
+      <DashboardLayout title="Band Profile">
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+          {error?.message || 'Mock test not found'}
+        </div>
+        <Link href="/mock-tests" className="inline-flex items-center gap-1 mt-4 text-sm text-primary hover:underline">
+          <ArrowLeft className="w-4 h-4" /> All mock tests
+        </Link>
+      </DashboardLayout>
+    )
+  }
+
+  const { test, sections, overall_band } = data
+  const tableSections = sections.filter(section => section.band_table && section.raw_score !== null)
+
+  return (
+    <DashboardLayout title={`${test.title} - Band Profile`}>
+      <Link href={`/mock-tests/${test.id}`} className="inline-flex items-center gap-1 mb-4 text-sm text-gray-600 hover:text-gray-900">
+        <ArrowLeft className="w-4 h-4" /> Back to the test
+      </Link>
+
+      <Card variant="default" className="mb-6">
+        <CardContent className="!p-5 md:!p-6 space-y-6">
+          <div>
+            <h1 className="text-2xl md:text-3xl font-bold text-gray-900">Band Profile</h1>
+            <p className="text-gray-600 mt-1">
+              {test.title} · {test.module === 'general_training' ? 'General Training' : 'Academic'}
+            </p>
+          </div>
+          <BandProfile sections={sections} overallBand={overall_band} />
+        </CardContent>
+      </Card>
+
+      {/* How the raw marks converted */}
+      {tableSections.length > 0 && (
+        <Card variant="default">
+          <CardContent className="!p-5 md:!p-6">
+            <h2 className="text-lg font-semibold text-gray-900 mb-3">How your marks convert</h2>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {tableSections.map(section => (
+                <div key={section.skill}>
+                  <h3 className="text-sm font-medium text-gray-900 mb-2">
+                    {SKILL_LABELS[section.skill]}: {section.raw_score}/{IELTS_RAW_MAX} → band {formatBand(section.band)}
+                  </h3>
+                  <div className="grid grid-cols-4 gap-1 text-xs">
+                    {section.band_table!.map(row => (
+                      <div
+                        key={row.min_raw}
+                        className={`px-2 py-1 rounded ${row.band === section.band ? 'bg-primary text-white font-semibold' : 'bg-gray-50 text-gray-600'}`}
+                      >
+                        {formatBand(row.band)} · {row.min_raw}+
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </DashboardLayout>
+  )
+}
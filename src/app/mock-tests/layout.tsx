@@ -0,0 +1,15 @@
+import { Metadata } from 'next'
+import { requireAuth } from '@/lib/auth'
+
+export const metadata: Metadata = {
+  title: 'Mock Tests - Acadex Academy',
+  description: 'Full IELTS mock tests scored as section bands and an overall band.',
+  robots: { index: false }
+}
+
+export default async function MockTestsLayout({ children }: { children: React.ReactNode }) {
+  // Bands are worked out from the student's own attempts
+  await requireAuth('/mock-tests')
+
+  return <>{children}</>
+}
@@ -0,0 +1,85 @@
+'use client'
+
+import Link from 'next/link'
+import { ArrowRight, ClipboardCheck } from 'lucide-react'
+import { useMockTests } from '@/hooks/api'
+import { DashboardLayout } from '@/components/layouts/DashboardLayout'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { BandProfile } from '@/components/quiz/display/BandProfile'
+import { formatBand, getBandBadgeClasses } from '@/lib/score-utils'
+
+export default function MockTestsPage() {
+  const { data: tests = [], isLoading, error } = useMockTests()
+
+  return (
+    <DashboardLayout title="Mock Tests">
+      <div className="mb-6 md:mb-8">
+        <h1 className="text-2xl md:text-3xl font-bold text-gray-900 mb-2">Mock Tests</h1>
+        <p className="text-gray-600">Full IELTS tests. Each section gets a band from 0 to 9, and the four together give your overall band.</p>
+      </div>
+
+      {error ? (
+        <div className="p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-800">
+          {error.message || 'Failed to load mock tests'}
+        </div>
+      ) : isLoading ? (
+        <div className="flex items-center justify-center h-64">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+        </div>
+      ) : tests.length === 0 ? (
+        <Card variant="default">
+          <CardContent className="py-12 text-center">
+            <ClipboardCheck className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-1">No mock tests yet</h3>
+            <p className="text-gray-600">Check back soon, or practise with individual quizzes in the meantime.</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 md:gap-6">
+          {tests.map(test => {
+            const started = test.profile.sections.some(section => section.quizzes_done > 0)
+
+            return (
+              <Card key={test.id} variant="interactive">
+                <CardContent className="!p-5 flex flex-col h-full">
+                  <div className="flex items-start justify-between gap-3 mb-2">
+                    <div>
+                      <h3 className="text-lg font-semibold text-gray-900">{test.title}</h3>
+                      <Badge variant="secondary" className="mt-1">
+                        {test.module === 'general_training' ? 'General Training' : 'Academic'}
+                      </Badge>
+                    </div>
+                    {test.profile.overall_band !== null && (
+                      <span className={`shrink-0 px-3 py-1 rounded-lg border text-lg font-bold ${getBandBadgeClasses(test.profile.overall_band)}`}>
+                        {formatBand(test.profile.overall_band)}
+                      </span>
+                    )}
+                  </div>
+
+                  {test.description && (
+                    <p className="text-sm text-gray-600 line-clamp-3 mb-3">{test.description}</p>
+                  )}
+
+                  <div className="mt-auto space-y-4">
+                    <BandProfile sections={test.profile.sections} overallBand={test.profile.overall_band} compact />
+                    <Button variant="outline" size="sm" asChild>
+                      <Link
+                        href={test.profile.complete ? `/mock-tests/${test.id}/results` : `/mock-tests/${test.id}`}
+                        className="flex items-center justify-center gap-1"
+                      >
+                        {test.profile.complete ? 'View band profile' : started ? 'Continue' : 'Start test'}
+                        <ArrowRight className="w-4 h-4" />
+                      </Link>
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      )}
+    </DashboardLayout>
+  )
+}
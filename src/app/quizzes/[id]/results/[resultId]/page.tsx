@@ -5,7 +5,7 @@ import { useParams, useRouter } from 'next/navigation'
 import Link from 'next/link'
 import { useAuth } from '@/contexts/AuthContext'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
-import { AlertTriangle, CheckCircle, BarChart3, Lightbulb, Check, Edit, RefreshCw, BookOpen, Clock, Target, Award, TrendingUp, Brain, Star, Zap } from 'lucide-react'
+import { AlertTriangle, CheckCircle, BarChart3, Lightbulb, Check, Edit, RefreshCw, BookOpen, Clock, Target, Award, TrendingUp, Brain, Star, Zap, Headphones } from 'lucide-react'
 import { CollapsibleSection } from '@/components/quiz/display/CollapsibleSection'
 import { ContextualBackButton } from '@/components/navigation/ContextualBackButton'
 import { ResultsExplanation } from '@/components/quiz/display/ResultsExplanation'
@@ -19,15 +19,42 @@ interface QuizResult {
   correct_answers: number
   time_taken_minutes: number
   completed_at: string
+  grading_status?: 'graded' | 'pending_review'
+  adaptive_result?: {
+    theta: number
+    standard_error: number
+    items_administered: number
+  } | null
+  grading_method?: 'highest' | 'latest' | 'average'
+  official_score?: {
+    attempt_id: string | null
+    percentage_score: number
+    passed: boolean
+    attempts_counted: number
+  } | null
+  certificate_code?: string | null
+  listening?: {
+    audio_url: string
+    transcript: string | null
+  } | null
   answers: Array<{
     question: string
     user_answer: string
+    recording_url?: string | null
     correct_answer: string
     is_correct: boolean
     explanation?: string
+    pending_review?: boolean
+    feedback?: string | null
   }>
 }
 
+const OFFICIAL_SCORE_DESCRIPTIONS = {
+  highest: 'Your highest score',
+  latest: 'Your most recent score',
+  average: 'The average of your scores'
+} as const
+
 export default function QuizResultsPage() {
   const params = useParams()
   const router = useRouter()
@@ -264,6 +291,77 @@ export default function QuizResultsPage() {
           />
         </div>
 
+        {/* Pending Review Notice - essay answers still waiting for an instructor */}
+        {results.grading_status === 'pending_review' && (
+          <Card variant="elevated" className="p-4 sm:p-6 mb-6 border-yellow-300 bg-yellow-50">
+            <div className="flex items-start gap-3">
+              <Clock className="w-5 h-5 text-yellow-700 shrink-0 mt-0.5" />
+              <div>
+                <h2 className="font-semibold text-yellow-900">Pending review</h2>
+                <p className="text-sm text-yellow-800">
+                  Some of your answers are waiting for your instructor to grade them. Your final score and pass status will update once grading is complete.
+                </p>
+              </div>
+            </div>
+          </Card>
+        )}
+
+        {/* Adaptive Test Summary - the score reflects estimated ability, not raw accuracy */}
+        {results.adaptive_result && (
+          <Card variant="elevated" className="p-4 sm:p-6 mb-6 border-blue-200 bg-blue-50">
+            <div className="flex items-start gap-3">
+              <Target className="w-5 h-5 text-blue-700 shrink-0 mt-0.5" />
+              <div>
+                <h2 className="font-semibold text-blue-900">Adaptive test</h2>
+                <p className="text-sm text-blue-800">
+                  Questions were matched to your level, so you answered {results.adaptive_result.items_administered} questions.
+                  Estimated ability: {results.adaptive_result.theta.toFixed(2)} (± {results.adaptive_result.standard_error.toFixed(2)}).
+                </p>
+              </div>
+            </div>
+          </Card>
+        )}
+
+        {/* Official Score - with several attempts, the grading policy decides which one counts */}
+        {results.official_score && results.official_score.attempts_counted > 1 && (
+          <Card variant="elevated" className="p-4 sm:p-6 mb-6">
+            <div className="flex items-start gap-3">
+              <Award className="w-5 h-5 text-primary shrink-0 mt-0.5" />
+              <div>
+                <h2 className="font-semibold">
+                  Official score: {Math.round(results.official_score.percentage_score)}%
+                  {results.official_score.passed ? ' (passed)' : ' (not passed)'}
+                </h2>
+                <p className="text-sm text-muted-foreground">
+                  {OFFICIAL_SCORE_DESCRIPTIONS[results.grading_method || 'highest']} across your {results.official_score.attempts_counted} graded attempts.
+                  {results.official_score.attempt_id === results.id && ' This attempt is the one that counts.'}
+                </p>
+              </div>
+            </div>
+          </Card>
+        )}
+
+        {/* Certificate - quizzes linked to a certificate template issue one on the first pass */}
+        {results.certificate_code && (
+          <Card variant="elevated" className="p-4 sm:p-6 mb-6">
+            <div className="flex items-start gap-3">
+              <Award className="w-5 h-5 text-primary shrink-0 mt-0.5" />
+              <div className="flex-1">
+                <h2 className="font-semibold">You earned a certificate</h2>
+                <p className="text-sm text-muted-foreground">
+                  Anyone can check it with code {results.certificate_code}.
+                </p>
+              </div>
+              <Link
+                href={`/certificates/${results.certificate_code}`}
+                className="text-sm font-medium text-primary hover:underline shrink-0"
+              >
+                View certificate
+              </Link>
+            </div>
+          </Card>
+        )}
+
         {/* Results Header - Modern Design with Circular Progress */}
         <Card variant="elevated" className="text-center p-4 sm:p-6 md:p-8 mb-6 sm:mb-8 overflow-hidden relative">
           {/* Animated Background Gradient */}
@@ -392,6 +490,28 @@ export default function QuizResultsPage() {
           </div>
         </Card>
 
+        {/* Listening Review - the recording can be replayed freely and the transcript is shown now the attempt is in */}
+        {results.listening && (
+          <Card variant="elevated" className="mb-6 sm:mb-8">
+            <CardHeader className="bg-secondary/10 p-3 sm:p-4 md:p-6">
+              <CardTitle className="flex items-center gap-2 sm:gap-3 text-base sm:text-lg md:text-xl">
+                <Headphones className="w-4 h-4 sm:w-5 sm:h-5 md:w-6 md:h-6" />
+                <span>Recording and Transcript</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="p-3 sm:p-4 md:p-6 space-y-4">
+              <audio controls preload="none" src={results.listening.audio_url} className="w-full" />
+              {results.listening.transcript ? (
+                <CollapsibleSection title="Transcript" defaultOpen={false}>
+                  <p className="text-sm text-gray-700 leading-relaxed whitespace-pre-wrap">{results.listening.transcript}</p>
+                </CollapsibleSection>
+              ) : (
+                <p className="text-sm text-muted-foreground">No transcript was provided for this section.</p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Mobile-Optimized Detailed Results */}
         <Card variant="elevated" className="mb-6 sm:mb-8">
           <CardHeader className="bg-secondary/10 p-3 sm:p-4 md:p-6">
@@ -405,14 +525,18 @@ export default function QuizResultsPage() {
               {results.answers.map((answer, index) => (
                 <CollapsibleSection
                   key={index}
-                  title={`Question ${index + 1} ${answer.is_correct ? '✓' : '✗'}`}
+                  title={`Question ${index + 1} ${answer.pending_review ? '(pending review)' : answer.is_correct ? '✓' : '✗'}`}
                   defaultOpen={false}
                   className={`${
-                    answer.is_correct 
+                    answer.pending_review
+                      ? 'border-yellow-300 bg-yellow-50/30'
+                      : answer.is_correct 
                       ? 'border-green-300 bg-green-50/30' 
                       : 'border-red-300 bg-red-50/30'
                   }`}
-                  icon={answer.is_correct ? (
+                  icon={answer.pending_review ? (
+                    <Clock className="w-4 h-4 text-yellow-700" />
+                  ) : answer.is_correct ? (
                     <CheckCircle className="w-4 h-4 text-success" />
                   ) : (
                     <AlertTriangle className="w-4 h-4 text-destructive" />
@@ -426,6 +550,15 @@ export default function QuizResultsPage() {
                     explanation={answer.explanation}
                     questionNumber={index + 1}
                   />
+                  {answer.recording_url && (
+                    <audio controls preload="none" src={answer.recording_url} className="w-full mt-3" />
+                  )}
+                  {answer.feedback && (
+                    <div className="mt-3 p-3 bg-blue-50 border border-blue-200 rounded-lg">
+                      <div className="text-sm font-semibold text-blue-900 mb-1">Instructor feedback</div>
+                      <p className="text-sm text-blue-800 whitespace-pre-wrap">{answer.feedback}</p>
+                    </div>
+                  )}
                 </CollapsibleSection>
               ))}
             </div>
@@ -4,16 +4,72 @@ import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { useRouter, useParams } from 'next/navigation';
 import { useAuth } from '@/contexts/AuthContext';
 import { useSound } from '@/contexts/SoundContext';
+import { useBadgeAnnouncer } from '@/hooks/useBadgeAnnouncer';
 import { StandardQuizLayout } from '@/components/quiz/layouts/StandardQuizLayout';
 import { ReadingQuizLayout } from '@/components/quiz/layouts/ReadingQuizLayout';
+import { AdaptiveQuizLayout } from '@/components/quiz/layouts/AdaptiveQuizLayout';
+import { ListeningQuizLayout } from '@/components/quiz/layouts/ListeningQuizLayout';
+import { isListeningQuiz, normalizeListeningProgress, type ListeningProgress } from '@/lib/listening';
 import { QuizErrorBoundary } from '@/components/ErrorBoundary';
 import { AlertCircle, RefreshCw, ArrowLeft } from 'lucide-react';
 
+interface AdaptiveProgress {
+  answered: number;
+  min_questions: number;
+  max_questions: number;
+}
+
+interface QuizSessionState {
+  id: string;
+  resumed: boolean;
+  time_remaining_seconds: number | null;
+  answers: Record<string, any>;
+  current_question_index: number;
+  /** Listening sections: plays used and when transfer time started */
+  listening: ListeningProgress | null;
+  /** Set for drawn or shuffled attempts: the questions in the order this attempt shows them */
+  questions: any[] | null;
+}
+
+// Heartbeat interval: saves progress for resume and resyncs the timer with the server
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+// Start the attempt on the server, or resume the one already in progress
+async function fetchSessionStart(quizId: string): Promise<QuizSessionState> {
+  const response = await fetch(`/api/quizzes/${quizId}/session`, { method: 'POST' });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || !result.success) {
+    // Retake cooldowns and windows that haven't opened yet say when to come back
+    const retryAt = result.retry_at ? ` Available from ${new Date(result.retry_at).toLocaleString()}.` : '';
+    throw new Error((result.error || `Failed to start quiz: ${response.status}`) + retryAt);
+  }
+
+  return { ...result.session, questions: result.questions ?? null };
+}
+
+// Ask the adaptive endpoint for the next question; without an answer it returns the pending one
+async function fetchAdaptiveStep(quizId: string, payload?: { question_id: string; answer: any }) {
+  const response = await fetch(`/api/quizzes/${quizId}/adaptive`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(payload || {}),
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `Failed to load next question: ${response.status}`);
+  }
+
+  return result as { done: boolean; question: any | null; progress: AdaptiveProgress };
+}
+
 export default function QuizTakingPage() {
   const router = useRouter();
   const params = useParams();
   const { user, loading: authLoading } = useAuth();
   const sound = useSound();
+  const announceBadges = useBadgeAnnouncer();
 
   const quizId = params?.id as string | undefined;
 
@@ -26,11 +82,20 @@ export default function QuizTakingPage() {
   const [error, setError] = useState<string | null>(null);
   const [submitting, setSubmitting] = useState(false);
   const [timeLeft, setTimeLeft] = useState<number | null>(null);
+  const [adaptiveProgress, setAdaptiveProgress] = useState<AdaptiveProgress | null>(null);
+  const [loadingNext, setLoadingNext] = useState(false);
+  const [adaptiveDone, setAdaptiveDone] = useState(false);
+  const [listeningProgress, setListeningProgress] = useState<ListeningProgress | null>(null);
 
   // Refs
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   const hasFetchedRef = useRef(false);
   const submitRef = useRef(false); // Prevent double submission
+  const questionTimesRef = useRef<Record<string, number>>({}); // Seconds spent per question
+  const questionStartRef = useRef<number>(Date.now());
+  const sessionActiveRef = useRef(false);
+  const answersRef = useRef<Record<string, any>>({});
+  const currentIndexRef = useRef(0);
 
   // Load quiz data - only once when auth is ready
   useEffect(() => {
@@ -91,13 +156,38 @@ export default function QuizTakingPage() {
         }
 
         console.log('[Quiz] Quiz loaded successfully:', result.quiz.title);
+
+        // The server owns the clock and the saved progress
+        const session = await fetchSessionStart(quizId);
+        sessionActiveRef.current = true;
         setQuiz(result.quiz);
-        setQuestions(result.questions);
 
-        // Initialize timer if quiz has time limit
-        if (result.quiz.time_limit_minutes && result.quiz.time_limit_minutes > 0) {
-          const timeInSeconds = result.quiz.time_limit_minutes * 60;
-          setTimeLeft(timeInSeconds);
+        if (result.adaptive?.enabled) {
+          // Adaptive quizzes are served one question at a time
+          const step = await fetchAdaptiveStep(quizId);
+          setAdaptiveProgress(step.progress);
+          setQuestions(step.question ? [step.question] : []);
+          // A resumed session may already have met its stopping rule
+          setAdaptiveDone(step.done);
+        } else {
+          const attemptQuestions = session.questions ?? result.questions;
+          setQuestions(attemptQuestions);
+
+          // Resuming, possibly on another device: restore the saved answers and position
+          if (session.resumed) {
+            setAnswers(session.answers || {});
+            setCurrentQuestionIndex(Math.min(session.current_question_index || 0, Math.max(attemptQuestions.length - 1, 0)));
+          }
+        }
+        questionStartRef.current = Date.now();
+
+        if (isListeningQuiz(result.quiz)) {
+          setListeningProgress(normalizeListeningProgress(session.listening));
+        }
+
+        // Time remaining comes from the session, so reloading doesn't reset the timer
+        if (session.time_remaining_seconds !== null) {
+          setTimeLeft(session.time_remaining_seconds);
         }
 
         setLoading(false);
@@ -148,6 +238,104 @@ export default function QuizTakingPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [timeLeft]);
 
+  // Keep the latest progress in refs so the heartbeat interval isn't recreated on every answer
+  useEffect(() => {
+    answersRef.current = answers;
+    currentIndexRef.current = currentQuestionIndex;
+  }, [answers, currentQuestionIndex]);
+
+  // Heartbeat: save progress to the session and resync the timer with the server
+  useEffect(() => {
+    if (!quiz || !quizId) return;
+
+    const interval = setInterval(async () => {
+      if (!sessionActiveRef.current || submitRef.current) return;
+
+      try {
+        const response = await fetch(`/api/quizzes/${quizId}/session`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            answers: answersRef.current,
+            current_question_index: currentIndexRef.current
+          }),
+        });
+        const result = await response.json().catch(() => ({}));
+
+        if (result.code === 'SESSION_EXPIRED') {
+          // Out of time on the server: the timer effect submits at 0
+          setTimeLeft(0);
+          return;
+        }
+
+        const remaining = result.session?.time_remaining_seconds;
+        if (response.ok && typeof remaining === 'number') {
+          setTimeLeft(prev => (prev === null || Math.abs(prev - remaining) > 2 ? remaining : prev));
+        }
+      } catch (err) {
+        console.warn('[Quiz] Heartbeat failed:', err);
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+
+    return () => clearInterval(interval);
+  }, [quiz, quizId]);
+
+  // Listening: record a play or the start of transfer time straight away, so a reload can't undo it.
+  // The server caps plays and may bring the deadline forward, so take its progress and time back.
+  const saveListeningProgress = useCallback(async (update: { plays?: number; transfer_started?: boolean }) => {
+    if (!quizId || submitRef.current) return;
+
+    try {
+      const response = await fetch(`/api/quizzes/${quizId}/session`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          answers: answersRef.current,
+          current_question_index: currentIndexRef.current,
+          listening: update
+        }),
+      });
+      const result = await response.json().catch(() => ({}));
+
+      if (result.code === 'SESSION_EXPIRED') {
+        setTimeLeft(0);
+        return;
+      }
+
+      if (response.ok && result.session) {
+        if (result.session.listening) {
+          setListeningProgress(normalizeListeningProgress(result.session.listening));
+        }
+        if (typeof result.session.time_remaining_seconds === 'number') {
+          setTimeLeft(result.session.time_remaining_seconds);
+        }
+      }
+    } catch (err) {
+      console.warn('[Quiz] Failed to save listening progress:', err);
+    }
+  }, [quizId]);
+
+  const handlePlayStarted = useCallback((plays: number) => {
+    setListeningProgress(prev => prev && { ...prev, plays: Math.max(prev.plays, plays) });
+    saveListeningProgress({ plays });
+  }, [saveListeningProgress]);
+
+  const handleTransferStart = useCallback(() => {
+    setListeningProgress(prev => prev && { ...prev, transfer_started_at: prev.transfer_started_at ?? new Date().toISOString() });
+    saveListeningProgress({ transfer_started: true });
+  }, [saveListeningProgress]);
+
+  // Add time on the question being left to its running total
+  const recordQuestionTime = useCallback((index: number) => {
+    const question = questions[index];
+    if (!question) return;
+
+    const now = Date.now();
+    const elapsed = (now - questionStartRef.current) / 1000;
+    questionTimesRef.current[question.id] = (questionTimesRef.current[question.id] || 0) + elapsed;
+    questionStartRef.current = now;
+  }, [questions]);
+
   // Submit quiz
   const handleSubmit = useCallback(async () => {
     // CRITICAL: Prevent double submission (from timer + user click)
@@ -165,12 +353,21 @@ export default function QuizTakingPage() {
         ? (quiz.time_limit_minutes * 60) - (timeLeft || 0)
         : 0;
 
+      recordQuestionTime(currentQuestionIndex);
+      const questionMeta = Object.fromEntries(
+        Object.entries(questionTimesRef.current).map(([questionId, seconds]) => [
+          questionId,
+          { time_spent_seconds: Math.round(seconds) }
+        ])
+      );
+
       const response = await fetch(`/api/quizzes/${quizId}/submit`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
           answers,
-          time_taken: timeTaken
+          time_taken: timeTaken,
+          question_meta: questionMeta
         }),
       });
 
@@ -191,6 +388,9 @@ export default function QuizTakingPage() {
         timerRef.current = null;
       }
 
+      // The toast outlives the navigation to the results page
+      announceBadges(result.result.new_badges);
+
       // Navigate to results
       router.push(`/quizzes/${quizId}/results/${result.result.id}`);
     } catch (err) {
@@ -200,7 +400,47 @@ export default function QuizTakingPage() {
       // Allow retry on error
       submitRef.current = false;
     }
-  }, [submitting, quizId, user, quiz, timeLeft, answers, router, sound]);
+  }, [submitting, quizId, user, quiz, timeLeft, answers, router, sound, announceBadges, recordQuestionTime, currentQuestionIndex]);
+
+  // Adaptive: confirm the current answer and fetch the next question, or finish
+  const handleAdaptiveConfirm = useCallback(async () => {
+    const question = questions[currentQuestionIndex];
+    if (!question || !quizId || loadingNext || submitRef.current) return;
+
+    setLoadingNext(true);
+    recordQuestionTime(currentQuestionIndex);
+
+    try {
+      const step = await fetchAdaptiveStep(quizId, {
+        question_id: question.id,
+        answer: answers[question.id]
+      });
+
+      setAdaptiveProgress(step.progress);
+
+      if (step.done || !step.question) {
+        setLoadingNext(false);
+        handleSubmit();
+        return;
+      }
+
+      setQuestions(prev => [...prev, step.question]);
+      setCurrentQuestionIndex(prev => prev + 1);
+      setLoadingNext(false);
+      sound.play('question-next');
+    } catch (err) {
+      console.error('Error loading next adaptive question:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load next question');
+      setLoadingNext(false);
+    }
+  }, [questions, currentQuestionIndex, quizId, loadingNext, answers, recordQuestionTime, handleSubmit, sound]);
+
+  // Finish a resumed adaptive session that has nothing left to ask
+  useEffect(() => {
+    if (adaptiveDone && quiz && !error && !submitRef.current) {
+      handleSubmit();
+    }
+  }, [adaptiveDone, quiz, error, handleSubmit]);
 
   // Handle answer changes
   const handleAnswerChange = useCallback((questionId: string, answer: any) => {
@@ -210,23 +450,30 @@ export default function QuizTakingPage() {
 
   // Navigation
   const goNext = useCallback(() => {
+    recordQuestionTime(currentQuestionIndex);
     setCurrentQuestionIndex(prev => Math.min(prev + 1, questions.length - 1));
     sound.play('question-next'); // Play sound when moving to next question
-  }, [questions.length, sound]);
+  }, [questions.length, sound, recordQuestionTime, currentQuestionIndex]);
+
+  const goToQuestion = useCallback((index: number) => {
+    recordQuestionTime(currentQuestionIndex);
+    setCurrentQuestionIndex(Math.min(Math.max(index, 0), questions.length - 1));
+  }, [questions.length, recordQuestionTime, currentQuestionIndex]);
 
   const goPrevious = useCallback(() => {
+    recordQuestionTime(currentQuestionIndex);
     setCurrentQuestionIndex(prev => Math.max(prev - 1, 0));
     sound.play('question-next'); // Play sound when moving to previous question
-  }, [sound]);
+  }, [sound, recordQuestionTime, currentQuestionIndex]);
 
   // Loading state
-  if (loading || authLoading) {
+  if (loading || authLoading || (adaptiveDone && !error)) {
     return (
       <div className="min-h-screen flex items-center justify-center p-4 bg-gradient-to-br from-blue-50 to-indigo-100 dark:from-gray-900 dark:to-indigo-950">
         <div className="text-center max-w-md">
           <div className="w-20 h-20 border-4 border-blue-600/30 border-t-blue-600 rounded-full animate-spin mx-auto mb-6"></div>
           <h2 className="text-xl font-semibold text-gray-900 dark:text-white mb-2">
-            {authLoading ? 'Checking authentication...' : 'Loading quiz...'}
+            {authLoading ? 'Checking authentication...' : adaptiveDone ? 'Finishing your test...' : 'Loading quiz...'}
           </h2>
           <p className="text-gray-600 dark:text-gray-400">
             This should only take a moment...
@@ -301,7 +548,42 @@ export default function QuizTakingPage() {
   // Main quiz interface
   return (
     <QuizErrorBoundary>
-      {isReadingQuiz ? (
+      {adaptiveProgress ? (
+        <AdaptiveQuizLayout
+          question={questions[currentQuestionIndex]}
+          questionNumber={adaptiveProgress.answered + 1}
+          minQuestions={adaptiveProgress.min_questions}
+          maxQuestions={adaptiveProgress.max_questions}
+          answer={answers[questions[currentQuestionIndex].id]}
+          timeLeft={timeLeft ?? undefined}
+          showTimer={true}
+          onAnswerChange={handleAnswerChange}
+          onConfirm={handleAdaptiveConfirm}
+          loadingNext={loadingNext}
+          submitting={submitting}
+          quizTitle={quiz.title || "Quiz"}
+        />
+      ) : listeningProgress ? (
+        <ListeningQuizLayout
+          questions={questions}
+          currentQuestionIndex={currentQuestionIndex}
+          answers={answers}
+          timeLeft={timeLeft ?? undefined}
+          showTimer={true}
+          onAnswerChange={handleAnswerChange}
+          onPrevious={goPrevious}
+          onNext={goNext}
+          onSubmit={handleSubmit}
+          onQuestionSelect={goToQuestion}
+          submitting={submitting}
+          quizTitle={quiz.title || "Listening"}
+          audioUrl={quiz.passage_audio_url}
+          settings={quiz.listening_settings}
+          progress={listeningProgress}
+          onPlayStarted={handlePlayStarted}
+          onTransferStart={handleTransferStart}
+        />
+      ) : isReadingQuiz ? (
         <ReadingQuizLayout
           questions={questions}
           currentQuestionIndex={currentQuestionIndex}
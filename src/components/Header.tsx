@@ -28,6 +28,7 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
+import { NotificationBell } from '@/components/notifications'
 
 export default function Header() {
   const [isMenuOpen, setIsMenuOpen] = useState(false)
@@ -128,108 +129,113 @@ export default function Header() {
               </div>
             </nav>
 
-            {/* CTA Buttons */}
-            <div className="hidden md:flex items-center space-x-4">
-              {loading ? (
-                <div className="w-32 h-11 bg-gray-200 animate-pulse rounded-xl"></div>
-              ) : user ? (
-                <DropdownMenu>
-                  <DropdownMenuTrigger asChild>
-                    <button
-                      className="flex items-center gap-3 bg-white border border-gray-300 rounded-xl px-4 py-2.5 h-11 hover:border-gray-400 hover:shadow-md transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary"
-                      aria-label="User menu"
-                      aria-haspopup="true"
-                    >
-                      <div className="w-8 h-8 bg-gradient-to-br from-primary to-secondary rounded-full flex items-center justify-center shadow-sm">
-                        <span className="text-white font-bold text-sm">{user.name?.charAt(0).toUpperCase() || 'U'}</span>
-                      </div>
-                      <span className="text-gray-900 font-medium hidden lg:inline">
-                        {user.name || 'User'}
-                      </span>
-                      <ChevronDown size={16} className="text-gray-500 transition-transform duration-200" />
-                    </button>
-                  </DropdownMenuTrigger>
-                  <DropdownMenuContent align="end" className="w-64 bg-white border border-gray-200 rounded-xl shadow-lg p-2 mt-2 animate-in fade-in-0 zoom-in-95">
-                    {/* User Info Header */}
-                    <div className="px-3 py-3 border-b border-gray-100 mb-1">
-                      <div className="flex items-center gap-3">
-                        <div className="w-10 h-10 bg-gradient-to-br from-primary to-secondary rounded-full flex items-center justify-center shadow-sm">
-                          <span className="text-white font-bold">{user.name?.charAt(0).toUpperCase() || 'U'}</span>
+            <div className="flex items-center gap-2 md:gap-4">
+              {/* Notifications - Signed-in users, all screen sizes */}
+              {!loading && user && <NotificationBell />}
+
+              {/* CTA Buttons */}
+              <div className="hidden md:flex items-center space-x-4">
+                {loading ? (
+                  <div className="w-32 h-11 bg-gray-200 animate-pulse rounded-xl"></div>
+                ) : user ? (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <button
+                        className="flex items-center gap-3 bg-white border border-gray-300 rounded-xl px-4 py-2.5 h-11 hover:border-gray-400 hover:shadow-md transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-primary/20 focus:border-primary"
+                        aria-label="User menu"
+                        aria-haspopup="true"
+                      >
+                        <div className="w-8 h-8 bg-gradient-to-br from-primary to-secondary rounded-full flex items-center justify-center shadow-sm">
+                          <span className="text-white font-bold text-sm">{user.name?.charAt(0).toUpperCase() || 'U'}</span>
                         </div>
-                        <div className="flex-1 min-w-0">
-                          <div className="font-semibold text-gray-900 truncate">{user.name || 'User'}</div>
-                          <div className="text-xs text-gray-500 truncate">{user.email}</div>
+                        <span className="text-gray-900 font-medium hidden lg:inline">
+                          {user.name || 'User'}
+                        </span>
+                        <ChevronDown size={16} className="text-gray-500 transition-transform duration-200" />
+                      </button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end" className="w-64 bg-white border border-gray-200 rounded-xl shadow-lg p-2 mt-2 animate-in fade-in-0 zoom-in-95">
+                      {/* User Info Header */}
+                      <div className="px-3 py-3 border-b border-gray-100 mb-1">
+                        <div className="flex items-center gap-3">
+                          <div className="w-10 h-10 bg-gradient-to-br from-primary to-secondary rounded-full flex items-center justify-center shadow-sm">
+                            <span className="text-white font-bold">{user.name?.charAt(0).toUpperCase() || 'U'}</span>
+                          </div>
+                          <div className="flex-1 min-w-0">
+                            <div className="font-semibold text-gray-900 truncate">{user.name || 'User'}</div>
+                            <div className="text-xs text-gray-500 truncate">{user.email}</div>
+                          </div>
                         </div>
+                        {user.role && (
+                          <div className="mt-2">
+                            <span className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-primary/10 text-primary">
+                              {user.role.charAt(0).toUpperCase() + user.role.slice(1)}
+                            </span>
+                          </div>
+                        )}
                       </div>
-                      {user.role && (
-                        <div className="mt-2">
-                          <span className="inline-flex items-center px-2 py-1 rounded-md text-xs font-medium bg-primary/10 text-primary">
-                            {user.role.charAt(0).toUpperCase() + user.role.slice(1)}
-                          </span>
-                        </div>
-                      )}
-                    </div>
                     
-                    <div className="py-1">
-                      {/* Dashboard */}
-                      <DropdownMenuItem asChild>
-                        <Link href="/dashboard" className="flex items-center gap-3 px-3 py-2.5 text-sm text-gray-700 hover:bg-gray-50 rounded-lg transition-colors w-full cursor-pointer">
-                          <Home size={18} className="flex-shrink-0 text-primary" />
-                          <span className="font-medium">Dashboard</span>
-                        </Link>
-                      </DropdownMenuItem>
+                      <div className="py-1">
+                        {/* Dashboard */}
+                        <DropdownMenuItem asChild>
+                          <Link href="/dashboard" className="flex items-center gap-3 px-3 py-2.5 text-sm text-gray-700 hover:bg-gray-50 rounded-lg transition-colors w-full cursor-pointer">
+                            <Home size={18} className="flex-shrink-0 text-primary" />
+                            <span className="font-medium">Dashboard</span>
+                          </Link>
+                        </DropdownMenuItem>
                       
-                      {/* Profile */}
-                      <DropdownMenuItem asChild>
-                        <Link href="/dashboard" className="flex items-center gap-3 px-3 py-2.5 text-sm text-gray-700 hover:bg-gray-50 rounded-lg transition-colors w-full cursor-pointer">
-                          <User size={18} className="flex-shrink-0 text-primary" />
-                          <span className="font-medium">Profile</span>
-                        </Link>
-                      </DropdownMenuItem>
-                    </div>
+                        {/* Profile */}
+                        <DropdownMenuItem asChild>
+                          <Link href="/dashboard" className="flex items-center gap-3 px-3 py-2.5 text-sm text-gray-700 hover:bg-gray-50 rounded-lg transition-colors w-full cursor-pointer">
+                            <User size={18} className="flex-shrink-0 text-primary" />
+                            <span className="font-medium">Profile</span>
+                          </Link>
+                        </DropdownMenuItem>
+                      </div>
                     
-                    {/* Sign Out - Separated */}
-                    <div className="pt-1 mt-1 border-t border-gray-100">
-                      <DropdownMenuItem 
-                        onClick={handleSignOut} 
-                        className="flex items-center gap-3 px-3 py-2.5 text-sm text-red-600 hover:bg-red-50 rounded-lg transition-colors w-full cursor-pointer font-medium"
-                      >
-                        <ArrowRight size={18} className="flex-shrink-0" />
-                        <span>Sign Out</span>
-                      </DropdownMenuItem>
-                    </div>
-                  </DropdownMenuContent>
-                </DropdownMenu>
-              ) : (
-                <>
-                  <Link href="/auth?tab=signin" className="nav-link px-4 py-2 text-sm md:text-base lg:text-lg">
-                    Sign In
-                  </Link>
-                  <Link href="/auth?tab=signup" className="btn-primary transform hover:scale-105">
-                    Get Started
-                  </Link>
-                </>
-              )}
-            </div>
+                      {/* Sign Out - Separated */}
+                      <div className="pt-1 mt-1 border-t border-gray-100">
+                        <DropdownMenuItem 
+                          onClick={handleSignOut} 
+                          className="flex items-center gap-3 px-3 py-2.5 text-sm text-red-600 hover:bg-red-50 rounded-lg transition-colors w-full cursor-pointer font-medium"
+                        >
+                          <ArrowRight size={18} className="flex-shrink-0" />
+                          <span>Sign Out</span>
+                        </DropdownMenuItem>
+                      </div>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                ) : (
+                  <>
+                    <Link href="/auth?tab=signin" className="nav-link px-4 py-2 text-sm md:text-base lg:text-lg">
+                      Sign In
+                    </Link>
+                    <Link href="/auth?tab=signup" className="btn-primary transform hover:scale-105">
+                      Get Started
+                    </Link>
+                  </>
+                )}
+              </div>
 
-            {/* Mobile menu button - Bedimcode pattern */}
-            <div className="md:hidden relative">
-              <button
-                onClick={() => setIsMenuOpen(!isMenuOpen)}
-                className="relative w-10 h-10 flex items-center justify-center rounded-xl hover:bg-muted transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-primary"
-                aria-label={isMenuOpen ? 'Close menu' : 'Open menu'}
-                aria-expanded={isMenuOpen}
-                aria-controls="mobile-navigation"
-              >
-                <Menu 
-                  size={20} 
-                  className={`text-primary transition-all duration-300 ${isMenuOpen ? 'opacity-0 rotate-90' : 'opacity-100 rotate-0'}`} 
-                />
-                <X 
-                  size={20} 
-                  className={`absolute inset-0 m-auto text-primary transition-all duration-300 ${isMenuOpen ? 'opacity-100 rotate-0' : 'opacity-0 -rotate-90'}`} 
-                />
-              </button>
+              {/* Mobile menu button - Bedimcode pattern */}
+              <div className="md:hidden relative">
+                <button
+                  onClick={() => setIsMenuOpen(!isMenuOpen)}
+                  className="relative w-10 h-10 flex items-center justify-center rounded-xl hover:bg-muted transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-primary"
+                  aria-label={isMenuOpen ? 'Close menu' : 'Open menu'}
+                  aria-expanded={isMenuOpen}
+                  aria-controls="mobile-navigation"
+                >
+                  <Menu 
+                    size={20} 
+                    className={`text-primary transition-all duration-300 ${isMenuOpen ? 'opacity-0 rotate-90' : 'opacity-100 rotate-0'}`} 
+                  />
+                  <X 
+                    size={20} 
+                    className={`absolute inset-0 m-auto text-primary transition-all duration-300 ${isMenuOpen ? 'opacity-100 rotate-0' : 'opacity-0 -rotate-90'}`} 
+                  />
+                </button>
+              </div>
             </div>
           </div>
         </div>
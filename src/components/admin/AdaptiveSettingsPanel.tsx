@@ -0,0 +1,176 @@
+'use client'
+
+import React from 'react'
+import { Target } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { AdaptiveSettings } from '@/lib/adaptive/engine'
+
+interface AdaptiveSettingsPanelProps {
+  settings: AdaptiveSettings
+  onChange: (settings: AdaptiveSettings) => void
+}
+
+const SELECTION_LABELS: Record<AdaptiveSettings['item_selection_algorithm'], string> = {
+  maximum_information: 'Maximum information',
+  target_accuracy: 'Target accuracy'
+}
+
+const ESTIMATION_LABELS: Record<AdaptiveSettings['theta_estimation_method'], string> = {
+  maximum_likelihood: 'Maximum likelihood',
+  eap: 'Bayesian (EAP)'
+}
+
+/**
+ * Adaptive (CAT) delivery settings shown in the QuizBuilder settings panel
+ */
+export function AdaptiveSettingsPanel({ settings, onChange }: AdaptiveSettingsPanelProps) {
+  const update = (updates: Partial<AdaptiveSettings>) => onChange({ ...settings, ...updates })
+
+  return (
+    <div className="pt-4 border-t border-gray-200 space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 flex items-center gap-1">
+            <Target className="w-4 h-4" />
+            Adaptive Delivery
+          </h4>
+          <p className="text-xs text-gray-500 mt-1">
+            Pick each question from the student&apos;s estimated ability
+          </p>
+        </div>
+        <button
+          type="button"
+          role="switch"
+          aria-checked={settings.enabled}
+          onClick={() => update({ enabled: !settings.enabled })}
+          className={cn(
+            "relative inline-flex h-6 w-11 shrink-0 rounded-full transition-colors",
+            settings.enabled ? "bg-blue-600" : "bg-gray-300"
+          )}
+        >
+          <span
+            className={cn(
+              "inline-block h-5 w-5 mt-0.5 rounded-full bg-white shadow transition-transform",
+              settings.enabled ? "translate-x-5" : "translate-x-0.5"
+            )}
+          />
+        </button>
+      </div>
+
+      {settings.enabled && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-sm font-medium text-gray-700 mb-2 block">
+                Min questions
+              </label>
+              <input
+                type="number"
+                min="1"
+                value={settings.min_questions}
+                onChange={(e) => update({ min_questions: parseInt(e.target.value) || 1 })}
+                className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none"
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700 mb-2 block">
+                Max questions
+              </label>
+              <input
+                type="number"
+                min={settings.min_questions}
+                value={settings.max_questions}
+                onChange={(e) => update({ max_questions: parseInt(e.target.value) || settings.min_questions })}
+                className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none"
+              />
+            </div>
+          </div>
+
+          <div>
+            <label className="text-sm font-medium text-gray-700 mb-2 block">
+              Stop at standard error
+            </label>
+            <input
+              type="number"
+              min="0.1"
+              max="2"
+              step="0.05"
+              value={settings.stopping_criteria.standard_error}
+              onChange={(e) => update({
+                stopping_criteria: {
+                  ...settings.stopping_criteria,
+                  standard_error: parseFloat(e.target.value) || 0.3
+                }
+              })}
+              className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Lower values give a more precise estimate but ask more questions.
+            </p>
+          </div>
+
+          <div>
+            <label className="text-sm font-medium text-gray-700 mb-2 block">
+              Item selection
+            </label>
+            <select
+              value={settings.item_selection_algorithm}
+              onChange={(e) => update({ item_selection_algorithm: e.target.value as AdaptiveSettings['item_selection_algorithm'] })}
+              className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none bg-white"
+            >
+              {Object.entries(SELECTION_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          {settings.item_selection_algorithm === 'target_accuracy' && (
+            <div>
+              <label className="text-sm font-medium text-gray-700 mb-2 block">
+                Target accuracy ({Math.round(settings.target_accuracy * 100)}%)
+              </label>
+              <input
+                type="range"
+                min="0.5"
+                max="0.9"
+                step="0.05"
+                value={settings.target_accuracy}
+                onChange={(e) => update({ target_accuracy: parseFloat(e.target.value) })}
+                className="w-full"
+              />
+            </div>
+          )}
+
+          <div>
+            <label className="text-sm font-medium text-gray-700 mb-2 block">
+              Ability estimation
+            </label>
+            <select
+              value={settings.theta_estimation_method}
+              onChange={(e) => update({ theta_estimation_method: e.target.value as AdaptiveSettings['theta_estimation_method'] })}
+              className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none bg-white"
+            >
+              {Object.entries(ESTIMATION_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={settings.difficulty_adjustment}
+              onChange={(e) => update({ difficulty_adjustment: e.target.checked })}
+              className="w-4 h-4 text-blue-600"
+            />
+            Adjust difficulty (off delivers questions in order)
+          </label>
+
+          <p className="text-xs text-gray-500">
+            Essay questions are skipped in adaptive mode. Difficulty comes from question analytics once a question has enough attempts, otherwise from its difficulty level.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -3,6 +3,7 @@
 import { useState } from 'react'
 import { X, User, Mail, Lock, UserCheck, Loader2 } from 'lucide-react'
 import { createSupabaseClient } from '@/lib/supabase'
+import { usePasswordPolicy } from '@/hooks/api/usePlatformSettings'
 
 interface AddUserModalProps {
   isOpen: boolean
@@ -19,6 +20,7 @@ export default function AddUserModal({ isOpen, onClose, onUserAdded }: AddUserMo
   })
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const passwordPolicy = usePasswordPolicy()
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
@@ -145,9 +147,9 @@ export default function AddUserModal({ isOpen, onClose, onUserAdded }: AddUserMo
                 value={formData.password}
                 onChange={handleInputChange}
                 required
-                minLength={6}
+                minLength={passwordPolicy.min_length}
                 className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-                placeholder="Enter password (min 6 characters)"
+                placeholder={`Enter password (min ${passwordPolicy.min_length} characters)`}
               />
             </div>
           </div>
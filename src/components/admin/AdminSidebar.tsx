@@ -1,6 +1,7 @@
 'use client'
 
 import { BaseSidebar } from '@/components/layout/BaseSidebar'
+import { useRole } from '@/hooks/useRole'
 
 // Static navigation items - no recreation on renders
 const navigationItems = [
@@ -9,20 +10,46 @@ const navigationItems = [
   { title: 'Courses', href: '/admin/courses' },
   { title: 'Enrollments', href: '/admin/enrollments' },
   { title: 'Quizzes', href: '/admin/quizzes' },
+  { title: 'Grading', href: '/admin/grading' },
+  { title: 'Question Bank', href: '/admin/question-bank' },
+  { title: 'Learning Paths', href: '/admin/learning-paths' },
+  { title: 'Mock Tests', href: '/admin/mock-tests' },
+  { title: 'Badges', href: '/admin/badges' },
+  { title: 'Leaderboards', href: '/admin/leaderboards' },
+  { title: 'Announcements', href: '/admin/announcements' },
+  { title: 'Certificates', href: '/admin/certificates' },
   { title: 'Import', href: '/admin/import' },
   { title: 'Analytics', href: '/admin/analytics' },
+  { title: 'Audit Log', href: '/admin/audit' },
   { title: 'Settings', href: '/admin/settings' }
 ]
 
+// The parts of the workspace instructors use; their APIs only return the instructor's own content
+export const INSTRUCTOR_SECTIONS = ['/admin/courses', '/admin/quizzes', '/admin/grading', '/admin/analytics']
+
+export function isInstructorSection(pathname: string): boolean {
+  return INSTRUCTOR_SECTIONS.some(section => pathname === section || pathname.startsWith(`${section}/`))
+}
+
+const instructorNavigationItems = [
+  { title: 'My Courses', href: '/admin/courses' },
+  { title: 'My Quizzes', href: '/admin/quizzes' },
+  { title: 'Grading', href: '/admin/grading' },
+  { title: 'Analytics', href: '/admin/analytics' },
+  { title: 'Student Dashboard', href: '/dashboard' }
+]
+
 export function AdminSidebar({ onMobileClose }: { onMobileClose?: () => void }) {
+  const { isAdmin } = useRole()
+
   return (
     <BaseSidebar
-      title="Admin Panel"
+      title={isAdmin ? 'Admin Panel' : 'Teaching Workspace'}
       subtitle="Acadex Learning Platform"
-      navigationItems={navigationItems}
+      navigationItems={isAdmin ? navigationItems : instructorNavigationItems}
       theme="glass"
-      requireAdminRole
+      allowedRoles={['admin', 'instructor']}
       onMobileClose={onMobileClose}
     />
   )
-}
\ No newline at end of file
+}
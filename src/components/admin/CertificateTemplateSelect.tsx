@@ -0,0 +1,32 @@
+'use client'
+
+import { useCertificateTemplates } from '@/hooks/api'
+
+interface CertificateTemplateSelectProps {
+  value: string | null | undefined
+  onChange: (templateId: string | null) => void
+  /** Label for the empty option */
+  emptyLabel: string
+  id?: string
+}
+
+export function CertificateTemplateSelect({ value, onChange, emptyLabel, id }: CertificateTemplateSelectProps) {
+  const { data: templates = [], isLoading } = useCertificateTemplates()
+
+  return (
+    <select
+      id={id}
+      value={value || ''}
+      onChange={(e) => onChange(e.target.value || null)}
+      disabled={isLoading}
+      className="w-full p-2 text-sm border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none"
+    >
+      <option value="">{emptyLabel}</option>
+      {templates.map(template => (
+        <option key={template.id} value={template.id}>
+          {template.name}{template.is_default ? ' (default)' : ''}
+        </option>
+      ))}
+    </select>
+  )
+}
@@ -11,6 +11,7 @@ import { createSupabaseClient } from '@/lib/supabase'
 import type { Course } from '@/lib/supabase'
 import { toast } from 'sonner'
 import { categories, levels } from '@/lib/courseConstants'
+import { CertificateTemplateSelect } from './CertificateTemplateSelect'
 
 interface Lesson {
   id: string
@@ -587,6 +588,29 @@ export function CourseBuilder({ course, isOpen, onClose, onSuccess }: CourseBuil
                       </div>
                     </div>
 
+                    {/* Certificate on completion */}
+                    <div className="pt-4 border-t border-gray-200 space-y-3">
+                      <div className="flex items-center gap-3">
+                        <input
+                          type="checkbox"
+                          id="course-certificate"
+                          checked={courseData.certificate_enabled || false}
+                          onChange={(e) => setCourseData({ ...courseData, certificate_enabled: e.target.checked })}
+                          className="w-4 h-4 text-blue-600 rounded"
+                        />
+                        <label htmlFor="course-certificate" className="text-sm font-medium text-gray-700 cursor-pointer">
+                          Issue a certificate when all lessons are completed
+                        </label>
+                      </div>
+                      {courseData.certificate_enabled && (
+                        <CertificateTemplateSelect
+                          value={courseData.certificate_template_id}
+                          onChange={(templateId) => setCourseData({ ...courseData, certificate_template_id: templateId })}
+                          emptyLabel="Default template"
+                        />
+                      )}
+                    </div>
+
                     {/* Stats */}
                     <div className="pt-4 border-t border-gray-200">
                       <div className="grid grid-cols-2 gap-3">
@@ -0,0 +1,148 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { Shuffle, Plus, Trash2 } from 'lucide-react'
+import { authenticatedPost } from '@/lib/auth-api'
+import {
+  TEMPLATE_DIFFICULTIES,
+  TEMPLATE_QUESTION_TYPES,
+  type DrawRule
+} from '@/lib/question-bank/types'
+
+interface DrawRulesPanelProps {
+  rules: DrawRule[]
+  onChange: (rules: DrawRule[]) => void
+}
+
+// Essays can't be drawn: their grading queue reads the quiz's own questions
+const DRAWABLE_TYPES = TEMPLATE_QUESTION_TYPES.filter(type => type !== 'essay')
+
+const inputClass = 'w-full p-2 text-sm border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none bg-white'
+
+/**
+ * Draw-per-attempt rules shown in the QuizBuilder settings panel
+ */
+export function DrawRulesPanel({ rules, onChange }: DrawRulesPanelProps) {
+  const [available, setAvailable] = useState<number[] | null>(null)
+
+  // How many bank items each rule can choose from, refreshed as rules change
+  useEffect(() => {
+    if (rules.length === 0) {
+      setAvailable(null)
+      return
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await authenticatedPost('/api/admin/question-bank/preview', { rules })
+        const result = await response.json()
+        setAvailable(response.ok ? result.available : null)
+      } catch {
+        setAvailable(null)
+      }
+    }, 400)
+
+    return () => clearTimeout(timer)
+  }, [rules])
+
+  const updateRule = (index: number, updates: Partial<DrawRule>) =>
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...updates } : rule)))
+
+  const totalDrawn = rules.reduce((sum, rule) => sum + rule.count, 0)
+
+  return (
+    <div className="pt-4 border-t border-gray-200 space-y-4">
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 flex items-center gap-1">
+          <Shuffle className="w-4 h-4" />
+          Question Bank Draw
+        </h4>
+        <p className="text-xs text-gray-500 mt-1">
+          Each attempt adds a random set of bank questions after the questions below.
+          Not used for adaptive delivery.
+        </p>
+      </div>
+
+      {rules.map((rule, index) => (
+        <div key={index} className="p-3 bg-gray-50 rounded-lg space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min="1"
+              max="100"
+              value={rule.count}
+              onChange={(e) => updateRule(index, { count: Math.max(1, parseInt(e.target.value) || 1) })}
+              className={`${inputClass} w-20`}
+              aria-label="Number of questions"
+            />
+            <span className="text-sm text-gray-600 flex-1">questions</span>
+            <button
+              type="button"
+              onClick={() => onChange(rules.filter((_, i) => i !== index))}
+              className="p-1.5 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+              aria-label="Remove rule"
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <select
+              value={rule.difficulty || ''}
+              onChange={(e) => updateRule(index, { difficulty: (e.target.value || null) as DrawRule['difficulty'] })}
+              className={inputClass}
+            >
+              <option value="">Any difficulty</option>
+              {TEMPLATE_DIFFICULTIES.map(difficulty => (
+                <option key={difficulty} value={difficulty} className="capitalize">{difficulty}</option>
+              ))}
+            </select>
+            <select
+              value={rule.question_type || ''}
+              onChange={(e) => updateRule(index, { question_type: e.target.value || null })}
+              className={inputClass}
+            >
+              <option value="">Any type</option>
+              {DRAWABLE_TYPES.map(type => (
+                <option key={type} value={type}>{type.replace(/_/g, ' ')}</option>
+              ))}
+            </select>
+          </div>
+          <input
+            value={rule.category || ''}
+            onChange={(e) => updateRule(index, { category: e.target.value || null })}
+            placeholder="Category (any)"
+            className={inputClass}
+          />
+          <input
+            value={(rule.tags || []).join(', ')}
+            onChange={(e) => updateRule(index, {
+              tags: e.target.value.split(',').map(tag => tag.trim()).filter(Boolean)
+            })}
+            placeholder="Tags, comma separated (any)"
+            className={inputClass}
+          />
+          {available && available[index] !== undefined && (
+            <p className={`text-xs ${available[index] < rule.count ? 'text-red-600' : 'text-gray-500'}`}>
+              {available[index]} matching {available[index] === 1 ? 'question' : 'questions'} in the bank
+            </p>
+          )}
+        </div>
+      ))}
+
+      <button
+        type="button"
+        onClick={() => onChange([...rules, { count: 5, category: null, difficulty: null, question_type: null, tags: [] }])}
+        className="w-full flex items-center justify-center gap-1 p-2 text-sm text-blue-600 border-2 border-dashed border-blue-200 rounded-lg hover:bg-blue-50 transition-colors"
+      >
+        <Plus className="w-4 h-4" />
+        Add draw rule
+      </button>
+
+      {totalDrawn > 0 && (
+        <p className="text-xs text-gray-500">
+          {totalDrawn} bank {totalDrawn === 1 ? 'question' : 'questions'} drawn per attempt
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,416 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { toast } from 'sonner'
+import { Loader2, RefreshCw, RotateCcw, Save, Send } from 'lucide-react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import {
+  useEmailOutbox,
+  useEmailSettings,
+  useProcessOutbox,
+  useQueueWeeklyDigests,
+  useRetryOutboxEmail,
+  useSendTestEmail,
+  useUpdateEmailSettings
+} from '@/hooks/api/useEmailSettings'
+import { OUTBOX_STATUSES, type EmailSettings, type OutboxStatus } from '@/lib/email/types'
+
+const inputClass = 'w-full px-3 py-2 border-2 border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent bg-white text-gray-900 placeholder:text-gray-600'
+
+const TRANSPORT_OPTIONS = [
+  { value: 'smtp', label: 'SMTP server' },
+  { value: 'file', label: 'Write .eml files (local testing)' },
+  { value: 'console', label: 'Log only (no email is sent)' }
+] as const
+
+const STATUS_STYLES: Record<OutboxStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  sending: 'bg-blue-100 text-blue-800',
+  sent: 'bg-green-100 text-green-800',
+  failed: 'bg-red-100 text-red-800'
+}
+
+type EmailForm = Omit<EmailSettings, 'smtp_password'>
+
+/**
+ * Sender and SMTP settings, a test send, and the outbox of queued emails
+ */
+export function EmailSettingsPanel() {
+  const { data, isLoading } = useEmailSettings()
+  const updateSettings = useUpdateEmailSettings()
+  const sendTest = useSendTestEmail()
+
+  const [form, setForm] = useState<EmailForm | null>(null)
+  // Only sent when typed; an empty field keeps the saved password
+  const [password, setPassword] = useState('')
+  const [testRecipient, setTestRecipient] = useState('')
+
+  useEffect(() => {
+    if (data?.settings) {
+      const { smtp_password_set: _passwordSet, ...settings } = data.settings
+      setForm(settings)
+    }
+  }, [data])
+
+  if (isLoading || !form) {
+    return (
+      <Card>
+        <CardContent className="py-12 flex justify-center">
+          <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+        </CardContent>
+      </Card>
+    )
+  }
+
+  const update = <K extends keyof EmailForm>(key: K, value: EmailForm[K]) => {
+    setForm({ ...form, [key]: value })
+  }
+
+  const handleSave = async () => {
+    try {
+      await updateSettings.mutateAsync(password ? { ...form, smtp_password: password } : form)
+      setPassword('')
+      toast.success('Email settings saved')
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save email settings')
+    }
+  }
+
+  const handleTest = async () => {
+    try {
+      const result = await sendTest.mutateAsync(testRecipient.trim() || undefined)
+      toast.success(result.transport === 'smtp'
+        ? 'Test email sent'
+        : `Test email handed to the ${result.transport} transport`)
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to send test email')
+    }
+  }
+
+  const envOverride = data && data.transport_in_effect !== form.transport && data.transport_in_effect !== 'console'
+  const smtpFallback = data?.transport_in_effect === 'console' && data.settings.transport === 'smtp'
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Email Configuration</CardTitle>
+          <CardDescription>Sender details and the SMTP server used for platform emails</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-900 mb-2">
+              Delivery
+            </label>
+            <select
+              value={form.transport}
+              onChange={(e) => update('transport', e.target.value as EmailForm['transport'])}
+              className={inputClass}
+            >
+              {TRANSPORT_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            {envOverride && (
+              <p className="text-xs text-gray-500 mt-1">
+                EMAIL_TRANSPORT is set on the server, so emails currently use the {data?.transport_in_effect} transport.
+              </p>
+            )}
+            {smtpFallback && (
+              <p className="text-xs text-amber-700 mt-1">
+                No SMTP host is saved yet, so emails are only logged.
+              </p>
+            )}
+          </div>
+
+          {form.transport === 'smtp' && (
+            <>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-900 mb-2">
+                    SMTP Host
+                  </label>
+                  <input
+                    type="text"
+                    value={form.smtp_host}
+                    onChange={(e) => update('smtp_host', e.target.value)}
+                    placeholder="smtp.gmail.com"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-900 mb-2">
+                    SMTP Port
+                  </label>
+                  <input
+                    type="number"
+                    min={1}
+                    max={65535}
+                    value={form.smtp_port}
+                    onChange={(e) => update('smtp_port', parseInt(e.target.value) || 0)}
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-900 mb-2">
+                    Username
+                  </label>
+                  <input
+                    type="text"
+                    value={form.smtp_username}
+                    onChange={(e) => update('smtp_username', e.target.value)}
+                    autoComplete="off"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-900 mb-2">
+                    Password
+                  </label>
+                  <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    placeholder={data?.settings.smtp_password_set ? 'Saved (leave blank to keep)' : ''}
+                    autoComplete="new-password"
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-900">
+                <input
+                  type="checkbox"
+                  checked={form.smtp_secure}
+                  onChange={(e) => update('smtp_secure', e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300"
+                />
+                Use TLS from the start (usually port 465). Otherwise STARTTLS is used when the server offers it.
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-900">
+                <input
+                  type="checkbox"
+                  checked={form.smtp_allow_insecure_auth}
+                  onChange={(e) => update('smtp_allow_insecure_auth', e.target.checked)}
+                  className="h-4 w-4 rounded border-gray-300"
+                />
+                Allow signing in without encryption. Only for a trusted local relay: the password is sent in cleartext.
+              </label>
+            </>
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-900 mb-2">
+                From Email
+              </label>
+              <input
+                type="email"
+                value={form.from_email}
+                onChange={(e) => update('from_email', e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-900 mb-2">
+                From Name
+              </label>
+              <input
+                type="text"
+                value={form.from_name}
+                onChange={(e) => update('from_name', e.target.value)}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-900 mb-2">
+                Reply-To
+              </label>
+              <input
+                type="email"
+                value={form.reply_to}
+                onChange={(e) => update('reply_to', e.target.value)}
+                placeholder="Optional"
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          <div className="pt-4 border-t border-gray-200 flex flex-col md:flex-row md:items-center gap-3">
+            <button
+              onClick={handleSave}
+              disabled={updateSettings.isPending}
+              className="bg-primary text-white px-4 py-2 rounded-lg flex items-center justify-center gap-2 transition-colors disabled:opacity-50"
+            >
+              <Save className="h-4 w-4" />
+              {updateSettings.isPending ? 'Saving...' : 'Save Email Settings'}
+            </button>
+            <div className="flex flex-1 gap-2 md:justify-end">
+              <input
+                type="email"
+                value={testRecipient}
+                onChange={(e) => setTestRecipient(e.target.value)}
+                placeholder="Test recipient (defaults to you)"
+                className={`${inputClass} md:max-w-xs`}
+              />
+              <button
+                onClick={handleTest}
+                disabled={sendTest.isPending}
+                className="bg-muted/40 hover:bg-muted/60 text-gray-700 px-4 py-2 rounded-lg flex items-center gap-2 transition-colors whitespace-nowrap disabled:opacity-50"
+              >
+                <Send className="h-4 w-4" />
+                {sendTest.isPending ? 'Sending...' : 'Send Test'}
+              </button>
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">The test uses the saved settings, so save your changes first.</p>
+        </CardContent>
+      </Card>
+
+      <EmailOutboxCard />
+    </div>
+  )
+}
+
+function EmailOutboxCard() {
+  const [status, setStatus] = useState<OutboxStatus | undefined>(undefined)
+  const { data, isLoading } = useEmailOutbox(status)
+  const processOutbox = useProcessOutbox()
+  const retryEmail = useRetryOutboxEmail()
+  const queueDigests = useQueueWeeklyDigests()
+
+  const handleProcess = async () => {
+    try {
+      const result = await processOutbox.mutateAsync()
+      toast.success(`Sent ${result.sent}, retrying ${result.retrying}, failed ${result.failed}`)
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to process email outbox')
+    }
+  }
+
+  const handleRetry = async (id: string) => {
+    try {
+      await retryEmail.mutateAsync(id)
+      toast.success('Email requeued')
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to retry email')
+    }
+  }
+
+  const handleDigests = async () => {
+    if (!confirm('Queue last week\'s progress digest for every learner who opted in?')) return
+
+    try {
+      const result = await queueDigests.mutateAsync()
+      toast.success(result.queued === 1 ? 'Queued 1 digest' : `Queued ${result.queued} digests`)
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to queue weekly digests')
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-3">
+          <div>
+            <CardTitle>Email Outbox</CardTitle>
+            <CardDescription>Every email is queued here first and sent by the scheduled email job every few minutes. Failed sends are retried with increasing delays.</CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={handleDigests}
+              disabled={queueDigests.isPending}
+              className="bg-muted/40 hover:bg-muted/60 text-gray-700 px-3 py-2 rounded-lg text-sm flex items-center gap-2 transition-colors disabled:opacity-50"
+            >
+              <Send className="h-4 w-4" />
+              Queue Weekly Digests
+            </button>
+            <button
+              onClick={handleProcess}
+              disabled={processOutbox.isPending}
+              className="bg-primary text-white px-3 py-2 rounded-lg text-sm flex items-center gap-2 transition-colors disabled:opacity-50"
+            >
+              <RefreshCw className={`h-4 w-4 ${processOutbox.isPending ? 'animate-spin' : ''}`} />
+              Process Queue
+            </button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <button
+            onClick={() => setStatus(undefined)}
+            className={`px-3 py-1 rounded-full text-xs font-medium ${!status ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-700'}`}
+          >
+            All
+          </button>
+          {OUTBOX_STATUSES.map(option => (
+            <button
+              key={option}
+              onClick={() => setStatus(option)}
+              className={`px-3 py-1 rounded-full text-xs font-medium capitalize ${status === option ? 'bg-gray-900 text-white' : 'bg-gray-100 text-gray-700'}`}
+            >
+              {option} ({data?.counts[option] ?? 0})
+            </button>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="py-8 flex justify-center">
+            <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+          </div>
+        ) : !data?.emails.length ? (
+          <p className="py-8 text-center text-sm text-gray-500">No emails here yet.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-xs uppercase text-gray-500 border-b">
+                  <th className="py-2 pr-4">Recipient</th>
+                  <th className="py-2 pr-4">Subject</th>
+                  <th className="py-2 pr-4">Status</th>
+                  <th className="py-2 pr-4">Attempts</th>
+                  <th className="py-2 pr-4">Queued</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {data.emails.map(email => (
+                  <tr key={email.id} className="align-top">
+                    <td className="py-2 pr-4 text-gray-900">{email.to_email}</td>
+                    <td className="py-2 pr-4">
+                      <div className="text-gray-900">{email.subject}</div>
+                      {email.last_error && (
+                        <div className="text-xs text-red-600 mt-0.5">{email.last_error}</div>
+                      )}
+                    </td>
+                    <td className="py-2 pr-4">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[email.status]}`}>
+                        {email.status}
+                      </span>
+                    </td>
+                    <td className="py-2 pr-4 text-gray-600">{email.attempts}/{email.max_attempts}</td>
+                    <td className="py-2 pr-4 text-gray-600 whitespace-nowrap">{new Date(email.created_at).toLocaleString()}</td>
+                    <td className="py-2 text-right">
+                      {email.status === 'failed' && (
+                        <button
+                          onClick={() => handleRetry(email.id)}
+                          disabled={retryEmail.isPending}
+                          className="text-primary hover:underline text-xs inline-flex items-center gap-1 disabled:opacity-50"
+                        >
+                          <RotateCcw className="h-3 w-3" />
+                          Retry
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,331 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card'
+import { Textarea } from '@/components/ui/textarea'
+import { CheckCircle, Loader2, Sparkles } from 'lucide-react'
+import { formatDate } from '@/lib/date-utils'
+import { formatTimestamp } from '@/lib/listening'
+import { SPEAKING_PART_DEFAULTS } from '@/lib/speaking'
+import { WRITING_TASK_DEFAULTS, countWords, getLengthWarning } from '@/lib/writing'
+import { formatBand, percentageToBand } from '@/lib/score-utils'
+import { splitAnswerByComments, type GradeSuggestion } from '@/lib/grading/suggestions'
+import { useDraftGradeSuggestion, useGradeEssay, type GradingQueueItem } from '@/hooks/api'
+
+interface EssayGradingPanelProps {
+  item: GradingQueueItem
+  onGraded?: () => void
+}
+
+/**
+ * Rubric scoring form for one essay answer, or one speaking recording.
+ * Essays can be drafted with AI; the draft only fills the form for the grader to edit.
+ */
+export function EssayGradingPanel({ item, onGraded }: EssayGradingPanelProps) {
+  const gradeEssay = useGradeEssay()
+  const draftSuggestion = useDraftGradeSuggestion()
+  const [rubricScores, setRubricScores] = useState<Record<string, string>>({})
+  const [pointsAwarded, setPointsAwarded] = useState('')
+  const [feedback, setFeedback] = useState('')
+  const [suggestion, setSuggestion] = useState<GradeSuggestion | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  // Reset the form whenever a different answer is selected
+  useEffect(() => {
+    setRubricScores(Object.fromEntries(
+      Object.entries(item.rubric_scores || {}).map(([id, score]) => [id, String(score)])
+    ))
+    setPointsAwarded(item.grading_status === 'graded' ? String(item.points_earned) : '')
+    setFeedback(item.feedback || '')
+    setSuggestion(item.suggestion)
+    setError(null)
+  }, [item])
+
+  const isSpeaking = item.question_type === 'speaking'
+  // IELTS rubrics mark each criterion as a band out of 9, so the total maps onto a task band
+  const bandRubric = item.rubric.length > 0 && item.rubric.every(criterion => criterion.max_points === 9)
+  const bandLabel = !bandRubric ? null : isSpeaking ? 'Speaking band' : item.writing ? `Task ${item.writing.task} band` : null
+  const wordCount = countWords(item.answer)
+  const lengthWarning = getLengthWarning(wordCount, item.writing)
+  const hasRubric = item.rubric.length > 0
+  const rubricMax = item.rubric.reduce((sum, criterion) => sum + criterion.max_points, 0)
+  const rubricTotal = item.rubric.reduce((sum, criterion) => sum + (Number(rubricScores[criterion.id]) || 0), 0)
+  const previewPoints = hasRubric && rubricMax > 0
+    ? Math.round((rubricTotal / rubricMax) * item.points_possible * 100) / 100
+    : Number(pointsAwarded) || 0
+
+  const handleDraft = async () => {
+    setError(null)
+
+    try {
+      setSuggestion(await draftSuggestion.mutateAsync({ id: item.id }))
+    } catch (err: any) {
+      setError(err.message || 'Failed to draft a grade')
+    }
+  }
+
+  const applySuggestion = (draft: GradeSuggestion) => {
+    if (hasRubric) {
+      setRubricScores(Object.fromEntries(
+        item.rubric.map(criterion => [criterion.id, String(draft.rubric_scores[criterion.id] ?? '')])
+      ))
+    } else {
+      setPointsAwarded(String(draft.points_suggested))
+    }
+    setFeedback(draft.feedback)
+  }
+
+  const handleSubmit = async () => {
+    setError(null)
+
+    try {
+      await gradeEssay.mutateAsync({
+        id: item.id,
+        ...(hasRubric
+          ? {
+              rubric_scores: Object.fromEntries(
+                item.rubric.map(criterion => [criterion.id, Number(rubricScores[criterion.id])])
+              )
+            }
+          : { points_awarded: Number(pointsAwarded) }),
+        feedback: feedback.trim() || undefined
+      })
+      onGraded?.()
+    } catch (err: any) {
+      setError(err.message || 'Failed to save grade')
+    }
+  }
+
+  const incomplete = hasRubric
+    ? item.rubric.some(criterion => rubricScores[criterion.id] === undefined || rubricScores[criterion.id] === '')
+    : pointsAwarded === ''
+
+  return (
+    <Card variant="elevated">
+      <CardHeader>
+        <CardTitle className="text-lg">{item.quiz_title}</CardTitle>
+        <CardDescription>
+          {item.student_name}{item.student_email ? ` (${item.student_email})` : ''} • Attempt {item.attempt_number} • Submitted {formatDate(item.submitted_at)}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div>
+          <h3 className="text-sm font-medium text-gray-500 mb-1">Question</h3>
+          <p className="text-gray-900">{item.question}</p>
+        </div>
+
+        {isSpeaking ? (
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <h3 className="text-sm font-medium text-gray-500">Recording</h3>
+              <span className="text-xs text-gray-500">
+                {item.speaking_part && SPEAKING_PART_DEFAULTS[item.speaking_part].label}
+                {item.recording && ` • ${formatTimestamp(item.recording.duration_seconds)}`}
+              </span>
+            </div>
+            {item.recording?.recording_url ? (
+              <audio controls preload="metadata" src={item.recording.recording_url} className="w-full" />
+            ) : item.recording ? (
+              <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg italic text-gray-400">The recording could not be loaded</div>
+            ) : (
+              <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg italic text-gray-400">No recording submitted</div>
+            )}
+          </div>
+        ) : (
+          <div>
+            <div className="flex items-center justify-between mb-1">
+              <h3 className="text-sm font-medium text-gray-500">Student answer</h3>
+              <span className="text-xs text-gray-500">
+                {item.writing && `${WRITING_TASK_DEFAULTS[item.writing.task].label} • `}
+                {wordCount} words
+              </span>
+            </div>
+            <div className="p-4 bg-gray-50 border border-gray-200 rounded-lg whitespace-pre-wrap text-gray-800 max-h-96 overflow-y-auto">
+              {!item.answer ? (
+                <span className="italic text-gray-400">No answer submitted</span>
+              ) : suggestion && suggestion.comments.length > 0 ? (
+                // Passages the AI draft commented on, numbered like the comment list below
+                splitAnswerByComments(item.answer, suggestion.comments).map((segment, index) =>
+                  segment.comment === null ? (
+                    <span key={index}>{segment.text}</span>
+                  ) : (
+                    <mark key={index} title={suggestion.comments[segment.comment].comment} className="bg-violet-100 text-gray-900 rounded px-0.5">
+                      {segment.text}
+                      <sup className="ml-0.5 text-violet-700 font-semibold">{segment.comment + 1}</sup>
+                    </mark>
+                  )
+                )
+              ) : (
+                item.answer
+              )}
+            </div>
+            {lengthWarning && (
+              <p className="text-sm text-amber-700 mt-2">{lengthWarning}</p>
+            )}
+          </div>
+        )}
+
+        {/* AI draft */}
+        {!isSpeaking && item.answer && (
+          suggestion ? (
+            <div className="p-4 border border-violet-200 bg-violet-50/50 rounded-lg space-y-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <h3 className="flex items-center gap-2 text-sm font-medium text-violet-900">
+                  <Sparkles className="w-4 h-4" />
+                  AI draft
+                  <span className="font-normal text-violet-700">
+                    {suggestion.provider === 'stub' ? 'Offline stub' : suggestion.model}
+                    {suggestion.provider !== 'stub' && ` • ${Math.round(suggestion.confidence * 100)}% confident`}
+                    {suggestion.status !== 'draft' && ` • ${suggestion.status}`}
+                  </span>
+                </h3>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={handleDraft}
+                    disabled={draftSuggestion.isPending}
+                    className="px-3 py-1.5 text-sm text-violet-700 hover:bg-violet-100 rounded-lg transition-colors disabled:opacity-50"
+                  >
+                    {draftSuggestion.isPending ? 'Drafting...' : 'Redraft'}
+                  </button>
+                  <button
+                    onClick={() => applySuggestion(suggestion)}
+                    className="px-3 py-1.5 text-sm bg-violet-600 text-white hover:bg-violet-700 rounded-lg transition-colors"
+                  >
+                    Apply to form
+                  </button>
+                </div>
+              </div>
+
+              <ul className="text-sm text-gray-700 space-y-1">
+                {hasRubric ? (
+                  item.rubric.map(criterion => (
+                    <li key={criterion.id} className="flex justify-between gap-4">
+                      <span>{criterion.criterion}</span>
+                      <span className="font-medium">{suggestion.rubric_scores[criterion.id] ?? '-'} / {criterion.max_points}</span>
+                    </li>
+                  ))
+                ) : (
+                  <li className="flex justify-between gap-4">
+                    <span>Score</span>
+                    <span className="font-medium">{suggestion.points_suggested} / {item.points_possible}</span>
+                  </li>
+                )}
+              </ul>
+
+              {suggestion.feedback && (
+                <p className="text-sm text-gray-700 whitespace-pre-wrap">{suggestion.feedback}</p>
+              )}
+
+              {suggestion.comments.length > 0 && (
+                <ol className="text-sm text-gray-700 space-y-1 list-decimal list-inside">
+                  {suggestion.comments.map((comment, index) => (
+                    <li key={index}>
+                      <span className="italic">&ldquo;{comment.quote}&rdquo;</span> &mdash; {comment.comment}
+                    </li>
+                  ))}
+                </ol>
+              )}
+
+              <p className="text-xs text-violet-700">
+                A suggestion only: apply it, check every score and the feedback, then save the grade yourself.
+              </p>
+            </div>
+          ) : (
+            <div className="flex justify-end">
+              <button
+                onClick={handleDraft}
+                disabled={draftSuggestion.isPending}
+                className="flex items-center gap-2 px-3 py-1.5 text-sm border border-violet-200 text-violet-700 hover:bg-violet-50 rounded-lg transition-colors disabled:opacity-50"
+              >
+                {draftSuggestion.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4" />}
+                Draft with AI
+              </button>
+            </div>
+          )
+        )}
+
+        {/* Scoring */}
+        <div>
+          <h3 className="text-sm font-medium text-gray-500 mb-3">
+            {hasRubric ? 'Rubric' : 'Score'}
+          </h3>
+
+          {hasRubric ? (
+            <div className="space-y-3">
+              {item.rubric.map(criterion => (
+                <div key={criterion.id} className="flex items-start justify-between gap-4 p-3 border border-gray-200 rounded-lg">
+                  <div className="flex-1">
+                    <div className="font-medium text-gray-900">{criterion.criterion}</div>
+                    {criterion.description && (
+                      <div className="text-sm text-gray-600">{criterion.description}</div>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2 shrink-0">
+                    <input
+                      type="number"
+                      min={0}
+                      max={criterion.max_points}
+                      // Criterion bands are whole numbers
+                      step={bandRubric ? 1 : 0.5}
+                      value={rubricScores[criterion.id] ?? ''}
+                      onChange={(e) => setRubricScores(prev => ({ ...prev, [criterion.id]: e.target.value }))}
+                      aria-label={`Score for ${criterion.criterion}`}
+                      className="w-20 h-9 rounded-md border border-gray-300 px-2 text-right focus:outline-none focus:ring-2 focus:ring-primary"
+                    />
+                    <span className="text-sm text-gray-500">/ {criterion.max_points}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={0}
+                max={item.points_possible}
+                step={0.5}
+                value={pointsAwarded}
+                onChange={(e) => setPointsAwarded(e.target.value)}
+                aria-label="Points awarded"
+                className="w-24 h-9 rounded-md border border-gray-300 px-2 text-right focus:outline-none focus:ring-2 focus:ring-primary"
+              />
+              <span className="text-sm text-gray-500">/ {item.points_possible} points</span>
+            </div>
+          )}
+
+          <p className="text-sm text-gray-600 mt-3">
+            Question score: <span className="font-semibold">{previewPoints}</span> / {item.points_possible} points
+            {bandLabel && (
+              <> • {bandLabel} <span className="font-semibold">{formatBand(percentageToBand((rubricTotal / rubricMax) * 100))}</span></>
+            )}
+          </p>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-medium text-gray-500 mb-1">Feedback for the student</h3>
+          <Textarea
+            value={feedback}
+            onChange={(e) => setFeedback(e.target.value)}
+            rows={4}
+            placeholder="What went well and what to improve..."
+          />
+        </div>
+
+        {error && (
+          <div className="p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">{error}</div>
+        )}
+
+        <div className="flex justify-end">
+          <button
+            onClick={handleSubmit}
+            disabled={incomplete || gradeEssay.isPending}
+            className="flex items-center gap-2 px-4 py-2 bg-primary text-white hover:bg-secondary hover:text-black rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {gradeEssay.isPending ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle className="w-4 h-4" />}
+            {item.grading_status === 'graded' ? 'Update Grade' : 'Save Grade'}
+          </button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,188 @@
+'use client'
+
+import { useState } from 'react'
+import { toast } from 'sonner'
+import { Copy, GraduationCap, Loader2, Mail, X } from 'lucide-react'
+import { useCreateInstructorInvite, useInstructorInvites, useRevokeInstructorInvite } from '@/hooks/api'
+import { formatDate } from '@/lib/date-utils'
+import { INVITE_EXPIRY_DAYS } from '@/lib/user-roles/rules'
+import type { InviteStatus } from '@/lib/user-roles/types'
+
+interface InviteInstructorModalProps {
+  isOpen: boolean
+  onClose: () => void
+}
+
+const STATUS_STYLES: Record<InviteStatus, string> = {
+  pending: 'bg-blue-100 text-blue-800',
+  accepted: 'bg-green-100 text-green-800',
+  revoked: 'bg-gray-100 text-gray-700',
+  expired: 'bg-amber-100 text-amber-800'
+}
+
+export default function InviteInstructorModal({ isOpen, onClose }: InviteInstructorModalProps) {
+  const [email, setEmail] = useState('')
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null)
+
+  const { data: invites = [], isLoading } = useInstructorInvites(isOpen)
+  const createInvite = useCreateInstructorInvite()
+  const revokeInvite = useRevokeInstructorInvite()
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    createInvite.mutate(email.trim(), {
+      onSuccess: (result) => {
+        setInviteUrl(result.invite_url)
+        setEmail('')
+        toast.success(result.email_queued ? `Invitation emailed to ${result.invite.email}` : 'Invitation created; copy the link to send it')
+      },
+      onError: (error) => toast.error(error.message)
+    })
+  }
+
+  const handleCopy = async () => {
+    if (!inviteUrl) return
+    try {
+      await navigator.clipboard.writeText(inviteUrl)
+      toast.success('Link copied')
+    } catch {
+      toast.error('Could not copy the link')
+    }
+  }
+
+  const handleRevoke = (inviteId: string, inviteEmail: string) => {
+    if (!confirm(`Withdraw the invitation to ${inviteEmail}? The link will stop working.`)) return
+    revokeInvite.mutate(inviteId, {
+      onSuccess: () => toast.success('Invitation withdrawn'),
+      onError: (error) => toast.error(error.message)
+    })
+  }
+
+  const handleClose = () => {
+    setInviteUrl(null)
+    setEmail('')
+    onClose()
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+      <div className="surface-primary rounded-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto border border-subtle shadow-2xl">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-subtle">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 bg-secondary/10 rounded-lg flex items-center justify-center">
+              <GraduationCap className="w-5 h-5 text-secondary" />
+            </div>
+            <div>
+              <h2 className="text-xl font-semibold text-gray-900">Invite Instructor</h2>
+              <p className="text-sm text-gray-500">Links expire after {INVITE_EXPIRY_DAYS} days</p>
+            </div>
+          </div>
+          <button
+            onClick={handleClose}
+            className="text-gray-400 hover:text-gray-600 transition-colors"
+          >
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-6">
+          <form onSubmit={handleSubmit} className="space-y-3">
+            <label htmlFor="invite-email" className="block text-sm font-medium text-gray-700">
+              Email Address
+            </label>
+            <div className="flex gap-2">
+              <div className="relative flex-1">
+                <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
+                <input
+                  type="email"
+                  id="invite-email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                  className="w-full pl-10 pr-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  placeholder="instructor@example.com"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={createInvite.isPending || !email.trim()}
+                className="bg-secondary hover:bg-secondary/90 text-white px-4 py-2 rounded-lg flex items-center gap-2 transition-colors disabled:opacity-50"
+              >
+                {createInvite.isPending && <Loader2 className="w-4 h-4 animate-spin" />}
+                Send Invite
+              </button>
+            </div>
+            <p className="text-xs text-gray-500">
+              The invitation can only be accepted by an account signed in with this address.
+            </p>
+          </form>
+
+          {inviteUrl && (
+            <div className="bg-primary/5 border border-primary/20 rounded-lg p-3 space-y-2">
+              <p className="text-sm text-primary font-medium">Invitation link (shown once)</p>
+              <div className="flex gap-2">
+                <input
+                  readOnly
+                  value={inviteUrl}
+                  onFocus={(e) => e.target.select()}
+                  className="flex-1 px-3 py-2 text-xs border border-gray-300 rounded-lg bg-white text-gray-900"
+                />
+                <button
+                  type="button"
+                  onClick={handleCopy}
+                  className="px-3 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+                  aria-label="Copy invitation link"
+                >
+                  <Copy className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          )}
+
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 mb-2">Recent Invitations</h3>
+            {isLoading ? (
+              <Loader2 className="w-5 h-5 animate-spin text-gray-400" />
+            ) : invites.length === 0 ? (
+              <p className="text-sm text-gray-500">No invitations yet.</p>
+            ) : (
+              <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+                {invites.map(invite => (
+                  <li key={invite.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                    <div className="min-w-0">
+                      <p className="text-sm text-gray-900 truncate">{invite.email}</p>
+                      <p className="text-xs text-gray-500">
+                        {invite.status === 'pending'
+                          ? `Expires ${formatDate(invite.expires_at)}`
+                          : `Sent ${formatDate(invite.created_at)}`}
+                        {invite.inviter_name && ` · by ${invite.inviter_name}`}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <span className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${STATUS_STYLES[invite.status]}`}>
+                        {invite.status}
+                      </span>
+                      {invite.status === 'pending' && (
+                        <button
+                          type="button"
+                          onClick={() => handleRevoke(invite.id, invite.email)}
+                          disabled={revokeInvite.isPending}
+                          className="text-xs text-red-600 hover:text-red-800 disabled:opacity-50"
+                        >
+                          Revoke
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
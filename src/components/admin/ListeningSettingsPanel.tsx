@@ -0,0 +1,270 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { Headphones, Plus, Trash2 } from 'lucide-react'
+import { Card } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { cn } from '@/lib/utils'
+import {
+  MAX_LISTENING_PLAYS,
+  MAX_QUESTION_GROUPS,
+  MAX_TRANSFER_MINUTES,
+  formatTimestamp,
+  parseTimestamp,
+  type ListeningQuestionGroup,
+  type ListeningSettings
+} from '@/lib/listening'
+
+interface ListeningSettingsPanelProps {
+  audioUrl: string
+  settings: ListeningSettings
+  questionCount: number
+  /** Shuffled questions would no longer line up with the group numbers */
+  shuffled: boolean
+  onChange: (updates: { passage_audio_url?: string; listening_settings?: ListeningSettings }) => void
+}
+
+const inputClass = 'w-full p-2 text-sm border-2 border-gray-200 rounded-lg focus:border-sky-500 focus:outline-none bg-white'
+
+// Start times are typed as m:ss and only applied once they parse
+function StartTimeInput({ seconds, onChange }: { seconds: number; onChange: (seconds: number) => void }) {
+  const [draft, setDraft] = useState(formatTimestamp(seconds))
+
+  useEffect(() => {
+    setDraft(formatTimestamp(seconds))
+  }, [seconds])
+
+  return (
+    <input
+      type="text"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => {
+        const parsed = parseTimestamp(draft)
+        if (parsed === null) {
+          setDraft(formatTimestamp(seconds))
+        } else {
+          onChange(parsed)
+        }
+      }}
+      placeholder="0:00"
+      className={inputClass}
+    />
+  )
+}
+
+/**
+ * Recording, play limits, transfer time, question groups and transcript for
+ * listening quizzes in the QuizBuilder
+ */
+export function ListeningSettingsPanel({
+  audioUrl,
+  settings,
+  questionCount,
+  shuffled,
+  onChange
+}: ListeningSettingsPanelProps) {
+  const update = (updates: Partial<ListeningSettings>) =>
+    onChange({ listening_settings: { ...settings, ...updates } })
+
+  const groups = settings.question_groups
+  const updateGroup = (index: number, updates: Partial<ListeningQuestionGroup>) =>
+    update({ question_groups: groups.map((group, i) => (i === index ? { ...group, ...updates } : group)) })
+
+  const addGroup = () => {
+    const last = groups[groups.length - 1]
+    const from = last ? last.to_question + 1 : 1
+    update({
+      question_groups: [
+        ...groups,
+        {
+          title: '',
+          start_seconds: last ? last.start_seconds + 60 : 0,
+          from_question: from,
+          to_question: Math.max(from, Math.min(from + 9, questionCount))
+        }
+      ]
+    })
+  }
+
+  return (
+    <Card className="border-2 border-sky-200 bg-gradient-to-r from-sky-50 to-cyan-50">
+      <div className="p-6 space-y-5">
+        <div className="flex items-center gap-2">
+          <Headphones className="w-5 h-5 text-sky-600" />
+          <h3 className="text-lg font-semibold text-gray-900">
+            Listening Section
+          </h3>
+        </div>
+
+        {/* Recording */}
+        <div>
+          <label className="text-sm font-medium text-gray-700 mb-2 block">
+            Recording URL *
+          </label>
+          <input
+            type="url"
+            value={audioUrl}
+            onChange={(e) => onChange({ passage_audio_url: e.target.value })}
+            placeholder="https://..."
+            className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-sky-500 focus:outline-none"
+          />
+          {audioUrl && <audio controls preload="none" src={audioUrl} className="w-full mt-2" />}
+        </div>
+
+        {/* Plays */}
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div className="md:col-span-2">
+            <label className="text-sm font-medium text-gray-700 mb-2 block">
+              Playback
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              {([
+                ['single', 'Play once', 'No pausing or replay'],
+                ['limited', 'Limited replays', 'Can pause; set the number of plays']
+              ] as const).map(([mode, label, hint]) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => update({ play_mode: mode, max_plays: mode === 'single' ? 1 : Math.max(2, settings.max_plays) })}
+                  className={cn(
+                    "p-3 rounded-lg border-2 text-left transition-all",
+                    settings.play_mode === mode
+                      ? "border-sky-500 bg-white text-sky-700"
+                      : "border-gray-200 bg-white text-gray-700 hover:border-gray-300"
+                  )}
+                >
+                  <div className="text-sm font-medium">{label}</div>
+                  <div className="text-xs text-gray-500">{hint}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <label className="text-sm font-medium text-gray-700 mb-2 block">
+              Plays allowed
+            </label>
+            <input
+              type="number"
+              min="1"
+              max={MAX_LISTENING_PLAYS}
+              disabled={settings.play_mode === 'single'}
+              value={settings.max_plays}
+              onChange={(e) => update({ max_plays: Math.min(MAX_LISTENING_PLAYS, Math.max(1, parseInt(e.target.value) || 1)) })}
+              className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-sky-500 focus:outline-none disabled:bg-gray-100"
+            />
+          </div>
+        </div>
+
+        {/* Transfer time */}
+        <div>
+          <label className="text-sm font-medium text-gray-700 mb-2 block">
+            Transfer time (minutes)
+          </label>
+          <input
+            type="number"
+            min="0"
+            max={MAX_TRANSFER_MINUTES}
+            value={settings.transfer_minutes}
+            onChange={(e) => update({ transfer_minutes: Math.min(MAX_TRANSFER_MINUTES, Math.max(0, parseInt(e.target.value) || 0)) })}
+            className="w-full md:w-40 p-3 border-2 border-gray-200 rounded-lg focus:border-sky-500 focus:outline-none"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Starts when the last play finishes and is added to the time limit. IELTS allows 10 minutes; 0 = none.
+          </p>
+        </div>
+
+        {/* Question groups */}
+        <div className="space-y-2">
+          <div>
+            <label className="text-sm font-medium text-gray-700 block">
+              Question groups
+            </label>
+            <p className="text-xs text-gray-500 mt-1">
+              Each group is highlighted for students once the recording reaches its start time
+            </p>
+          </div>
+
+          {groups.map((group, index) => (
+            <div key={index} className="grid grid-cols-12 gap-2 items-end p-3 bg-white border border-gray-200 rounded-lg">
+              <div className="col-span-12 md:col-span-5">
+                <label className="text-xs text-gray-600 mb-1 block">Title</label>
+                <input
+                  type="text"
+                  value={group.title}
+                  onChange={(e) => updateGroup(index, { title: e.target.value })}
+                  placeholder={`Part ${index + 1}`}
+                  className={inputClass}
+                />
+              </div>
+              <div className="col-span-4 md:col-span-2">
+                <label className="text-xs text-gray-600 mb-1 block">Starts at</label>
+                <StartTimeInput
+                  seconds={group.start_seconds}
+                  onChange={(seconds) => updateGroup(index, { start_seconds: seconds })}
+                />
+              </div>
+              <div className="col-span-3 md:col-span-2">
+                <label className="text-xs text-gray-600 mb-1 block">From Q</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={group.from_question}
+                  onChange={(e) => updateGroup(index, { from_question: Math.max(1, parseInt(e.target.value) || 1) })}
+                  className={inputClass}
+                />
+              </div>
+              <div className="col-span-3 md:col-span-2">
+                <label className="text-xs text-gray-600 mb-1 block">To Q</label>
+                <input
+                  type="number"
+                  min="1"
+                  value={group.to_question}
+                  onChange={(e) => updateGroup(index, { to_question: Math.max(1, parseInt(e.target.value) || 1) })}
+                  className={inputClass}
+                />
+              </div>
+              <div className="col-span-2 md:col-span-1 flex justify-end">
+                <button
+                  type="button"
+                  onClick={() => update({ question_groups: groups.filter((_, i) => i !== index) })}
+                  className="p-2 text-red-600 hover:bg-red-50 rounded-lg"
+                  aria-label="Remove group"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+
+          {groups.length < MAX_QUESTION_GROUPS && (
+            <Button type="button" variant="outline" size="sm" onClick={addGroup}>
+              <Plus className="w-4 h-4 mr-1" />
+              Add Group
+            </Button>
+          )}
+
+          {shuffled && groups.length > 0 && (
+            <p className="text-xs text-amber-700">
+              Question shuffling is on, so the numbers students see won&apos;t match these groups
+            </p>
+          )}
+        </div>
+
+        {/* Transcript */}
+        <div>
+          <label className="text-sm font-medium text-gray-700 mb-2 block">
+            Transcript (Optional)
+          </label>
+          <textarea
+            value={settings.transcript}
+            onChange={(e) => update({ transcript: e.target.value })}
+            placeholder="Shown to students with their results, never while they take the section..."
+            className="w-full p-4 border-2 border-gray-200 rounded-lg focus:border-sky-500 focus:outline-none resize-none"
+            rows={6}
+          />
+        </div>
+      </div>
+    </Card>
+  )
+}
@@ -5,7 +5,9 @@ import { BaseModal } from '@/components/ui/BaseModal'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { BarChart3, TrendingUp, Users, Clock, Award, Target } from 'lucide-react'
 import { createSupabaseClient } from '@/lib/supabase'
+import { authenticatedGet } from '@/lib/auth-api'
 import { logger } from '@/lib/logger'
+import type { ItemQualityFlag } from '@/lib/grading'
 
 interface QuizAnalyticsData {
   totalAttempts: number
@@ -23,6 +25,24 @@ interface QuizAnalyticsData {
   }[]
 }
 
+interface FlaggedItem {
+  question_id: string
+  question: string
+  quiz_title: string
+  total_attempts: number
+  difficulty_rating: number
+  discrimination_index: number
+  flag: ItemQualityFlag
+}
+
+const FLAG_LABELS: Record<ItemQualityFlag, { label: string; className: string }> = {
+  too_easy: { label: 'Too easy', className: 'bg-green-100 text-green-700' },
+  too_hard: { label: 'Too hard', className: 'bg-red-100 text-red-700' },
+  non_discriminating: { label: 'Non-discriminating', className: 'bg-yellow-100 text-yellow-700' },
+  insufficient_data: { label: 'Insufficient data', className: 'bg-gray-100 text-gray-600' },
+  ok: { label: 'OK', className: 'bg-blue-100 text-blue-700' }
+}
+
 interface QuizAnalyticsProps {
   isOpen: boolean
   onClose: () => void
@@ -32,6 +52,19 @@ export function QuizAnalytics({ isOpen, onClose }: QuizAnalyticsProps) {
   const [analytics, setAnalytics] = useState<QuizAnalyticsData | null>(null)
   const [loading, setLoading] = useState(false)
   const [timeRange, setTimeRange] = useState<'7d' | '30d' | '90d' | 'all'>('30d')
+  const [flaggedItems, setFlaggedItems] = useState<FlaggedItem[]>([])
+
+  // Item analysis comes from question_analytics, updated on every submission
+  const fetchFlaggedItems = useCallback(async () => {
+    try {
+      const response = await authenticatedGet('/api/admin/quizzes/item-analytics?flaggedOnly=true')
+      if (!response.ok) throw new Error(`Failed to fetch item analytics: ${response.status}`)
+      const result = await response.json()
+      setFlaggedItems(result.items || [])
+    } catch (err: any) {
+      logger.error('Error fetching item analytics:', err)
+    }
+  }, [])
 
   const fetchAnalytics = useCallback(async () => {
     try {
@@ -216,8 +249,9 @@ export function QuizAnalytics({ isOpen, onClose }: QuizAnalyticsProps) {
   useEffect(() => {
     if (isOpen) {
       fetchAnalytics()
+      fetchFlaggedItems()
     }
-  }, [isOpen, fetchAnalytics])
+  }, [isOpen, fetchAnalytics, fetchFlaggedItems])
 
   if (!isOpen) return null
 
@@ -401,6 +435,40 @@ export function QuizAnalytics({ isOpen, onClose }: QuizAnalyticsProps) {
                   </CardContent>
                 </Card>
               </div>
+
+              {/* Item Analysis */}
+              <Card>
+                <CardHeader>
+                  <CardTitle>Items Needing Review</CardTitle>
+                  <CardDescription>Questions that are too easy, too hard or don&apos;t separate strong and weak students</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {flaggedItems.length > 0 ? (
+                    <div className="space-y-3">
+                      {flaggedItems.slice(0, 10).map((item) => (
+                        <div key={item.question_id} className="p-3 bg-gray-50 rounded-lg">
+                          <div className="flex items-start justify-between gap-3 mb-1">
+                            <div className="font-medium text-sm line-clamp-2">{item.question}</div>
+                            <span className={`shrink-0 px-2 py-0.5 rounded-full text-xs font-medium ${FLAG_LABELS[item.flag].className}`}>
+                              {FLAG_LABELS[item.flag].label}
+                            </span>
+                          </div>
+                          <div className="flex justify-between text-xs text-gray-600">
+                            <span className="truncate">{item.quiz_title} • {item.total_attempts} attempts</span>
+                            <span>
+                              {(item.difficulty_rating * 100).toFixed(0)}% missed • discrimination {item.discrimination_index.toFixed(2)}
+                            </span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-500 text-center py-4">
+                      No flagged questions yet
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
             </div>
           ) : (
             <div className="flex items-center justify-center py-20">
@@ -10,7 +10,22 @@ import { cn } from '@/lib/utils'
 import { createSupabaseClient } from '@/lib/supabase'
 import type { Quiz, QuizQuestion } from '@/lib/supabase'
 import { toast } from 'sonner'
-import { quizAPI, authenticatedPost, authenticatedGet } from '@/lib/auth-api'
+import { quizAPI, authenticatedPost, authenticatedGet, authenticatedPut } from '@/lib/auth-api'
+import { DEFAULT_ADAPTIVE_SETTINGS, type AdaptiveSettings } from '@/lib/adaptive/engine'
+import { normalizeRetakePolicy, normalizeAvailabilityWindow, normalizeGradingPolicy } from '@/lib/quiz-policies'
+import { AdaptiveSettingsPanel } from './AdaptiveSettingsPanel'
+import { QuizPoliciesPanel } from './QuizPoliciesPanel'
+import { DrawRulesPanel } from './DrawRulesPanel'
+import { ListeningSettingsPanel } from './ListeningSettingsPanel'
+import { SpeakingQuestionEditor } from './SpeakingQuestionEditor'
+import { WritingTaskEditor } from './WritingTaskEditor'
+import { CertificateTemplateSelect } from './CertificateTemplateSelect'
+import { useRole } from '@/hooks/useRole'
+import { normalizeDrawRules } from '@/lib/question-bank/draw'
+import { normalizeListeningSettings } from '@/lib/listening'
+import { normalizeSpeakingSettings } from '@/lib/speaking'
+import { normalizeWritingSettings } from '@/lib/writing'
+import { templateFromQuizQuestion } from '@/lib/question-bank/templates'
 
 interface QuizBuilderProps {
   quiz?: Quiz | null
@@ -20,6 +35,8 @@ interface QuizBuilderProps {
 }
 
 export function QuizBuilder({ quiz, isOpen, onClose, onSuccess }: QuizBuilderProps) {
+  // The question bank is shared across teachers, so only admins draw from or add to it
+  const { isAdmin } = useRole()
   const [quizData, setQuizData] = useState<Partial<Quiz>>({
     title: '',
     description: '',
@@ -41,15 +58,22 @@ export function QuizBuilder({ quiz, isOpen, onClose, onSuccess }: QuizBuilderPro
   const [imagePreview, setImagePreview] = useState<string>('')
   const [isSaving, setIsSaving] = useState(false)
   const [isLoadingQuestions, setIsLoadingQuestions] = useState(false)
+  const [adaptiveSettings, setAdaptiveSettings] = useState<AdaptiveSettings>(DEFAULT_ADAPTIVE_SETTINGS)
+  const [adaptiveChanged, setAdaptiveChanged] = useState(false)
 
   const isReadingQuiz = quizData.reading_passage && quizData.reading_passage.length > 0
+  const listeningSettings = normalizeListeningSettings(quizData.listening_settings)
+  const isListeningQuiz = listeningSettings.enabled
+  // Switching to another quiz type keeps the listening setup in case the author switches back
+  const listeningOff = quizData.listening_settings ? { ...listeningSettings, enabled: false } : null
 
   // Question type configurations
   const questionTypes = [
     { value: 'multiple_choice', label: 'Multiple Choice', icon: '○', color: 'blue' },
     { value: 'true_false', label: 'True/False', icon: '✓', color: 'green' },
     { value: 'fill_blank', label: 'Fill in Blank', icon: '✎', color: 'purple' },
-    { value: 'essay', label: 'Essay', icon: '📝', color: 'orange' }
+    { value: 'essay', label: 'Essay', icon: '📝', color: 'orange' },
+    { value: 'speaking', label: 'Speaking', icon: '🎤', color: 'rose' }
   ]
 
   // Load quiz data and questions when editing
@@ -58,6 +82,7 @@ export function QuizBuilder({ quiz, isOpen, onClose, onSuccess }: QuizBuilderPro
       setQuizData(quiz)
       setImagePreview(quiz.image_url || '')
       loadQuestions(quiz.id)
+      loadAdaptiveSettings(quiz.id)
     } else if (isOpen && !quiz) {
       // Reset for new quiz
       setQuizData({
@@ -78,6 +103,8 @@ export function QuizBuilder({ quiz, isOpen, onClose, onSuccess }: QuizBuilderPro
       setQuestions([])
       setImagePreview('')
       setActiveQuestionId(null)
+      setAdaptiveSettings(DEFAULT_ADAPTIVE_SETTINGS)
+      setAdaptiveChanged(false)
     }
   }, [quiz, isOpen])
 
@@ -100,6 +127,23 @@ export function QuizBuilder({ quiz, isOpen, onClose, onSuccess }: QuizBuilderPro
     }
   }
 
+  const loadAdaptiveSettings = async (quizId: string) => {
+    try {
+      const response = await authenticatedGet(`/api/admin/quizzes/${quizId}/adaptive`)
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load adaptive settings')
+      }
+
+      setAdaptiveSettings(result.settings)
+      setAdaptiveChanged(false)
+    } catch (error: any) {
+      console.error('Error loading adaptive settings:', error)
+      toast.error(error.message || 'Failed to load adaptive settings')
+    }
+  }
+
   // Handle image upload
   const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
@@ -157,6 +201,8 @@ export function QuizBuilder({ quiz, isOpen, onClose, onSuccess }: QuizBuilderPro
       newQuestion.correct_answer = 0
     } else if (type === 'fill_blank') {
       newQuestion.correct_answer_text = ''
+    } else if (type === 'speaking') {
+      newQuestion.speaking_settings = normalizeSpeakingSettings(null)
     }
 
     setQuestions([...questions, newQuestion])
@@ -185,6 +231,32 @@ export function QuizBuilder({ quiz, isOpen, onClose, onSuccess }: QuizBuilderPro
     }
   }
 
+  const saveQuestionToBank = async (question: Partial<QuizQuestion>) => {
+    if (!question.question?.trim()) {
+      toast.error('Add the question text before saving it to the bank')
+      return
+    }
+
+    try {
+      const response = await authenticatedPost(
+        '/api/admin/question-bank',
+        templateFromQuizQuestion(question, quizData.category || 'general')
+      )
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to save question to bank')
+      }
+
+      toast.success('Question saved to the question bank')
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save question to bank')
+    }
+  }
+
+  const drawRules = normalizeDrawRules(quizData.draw_rules)
+  const drawnPerAttempt = drawRules.reduce((sum, rule) => sum + rule.count, 0)
+
   const handleSave = async () => {
     // Validation
     if (!quizData.title?.trim()) {
@@ -192,8 +264,13 @@ export function QuizBuilder({ quiz, isOpen, onClose, onSuccess }: QuizBuilderPro
       return
     }
 
-    if (questions.length === 0) {
-      toast.error('Please add at least one question')
+    if (isListeningQuiz && !quizData.passage_audio_url?.trim()) {
+      toast.error('Please add the recording for the listening section')
+      return
+    }
+
+    if (questions.length === 0 && drawnPerAttempt === 0) {
+      toast.error('Please add at least one question or a question bank draw rule')
       return
     }
 
@@ -208,7 +285,8 @@ export function QuizBuilder({ quiz, isOpen, onClose, onSuccess }: QuizBuilderPro
       // Prepare quiz data for API
       const quizPayload = {
         ...quizData,
-        total_questions: questions.length
+        draw_rules: drawRules,
+        total_questions: questions.length + drawnPerAttempt
       }
 
       // Save/Update Quiz using API
@@ -251,7 +329,9 @@ export function QuizBuilder({ quiz, isOpen, onClose, onSuccess }: QuizBuilderPro
           difficulty_level: q.difficulty_level || 'medium',
           image_url: q.image_url || null,
           audio_url: q.audio_url || null,
-          video_url: q.video_url || null
+          video_url: q.video_url || null,
+          speaking_settings: q.question_type === 'speaking' ? normalizeSpeakingSettings(q.speaking_settings) : null,
+          writing_settings: q.question_type === 'essay' ? normalizeWritingSettings(q.writing_settings) : null
         }))
 
         const questionsResponse = await authenticatedPost(
@@ -264,6 +344,17 @@ export function QuizBuilder({ quiz, isOpen, onClose, onSuccess }: QuizBuilderPro
         if (!questionsResponse.ok || !questionsResult.success) {
           throw new Error(questionsResult.error || 'Failed to save questions')
         }
+
+        // Only write adaptive settings once they have been touched
+        if (adaptiveChanged) {
+          toast.loading('Saving adaptive settings...', { id: toastId })
+          const adaptiveResponse = await authenticatedPut(`/api/admin/quizzes/${quizId}/adaptive`, adaptiveSettings)
+          const adaptiveResult = await adaptiveResponse.json()
+
+          if (!adaptiveResponse.ok) {
+            throw new Error(adaptiveResult.error || 'Failed to save adaptive settings')
+          }
+        }
       }
 
       // Show success message
@@ -410,11 +501,19 @@ export function QuizBuilder({ quiz, isOpen, onClose, onSuccess }: QuizBuilderPro
 
         {/* Essay */}
         {question.question_type === 'essay' && (
-          <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg">
-            <p className="text-sm text-amber-800">
-              <strong>Note:</strong> Essay questions require manual grading. Students will type their response in a text area.
-            </p>
-          </div>
+          <WritingTaskEditor
+            settings={normalizeWritingSettings(question.writing_settings)}
+            imageUrl={question.image_url || ''}
+            onChange={(updates) => updateQuestion(question.id!, updates)}
+          />
+        )}
+
+        {/* Speaking */}
+        {question.question_type === 'speaking' && (
+          <SpeakingQuestionEditor
+            settings={normalizeSpeakingSettings(question.speaking_settings)}
+            onChange={(settings) => updateQuestion(question.id!, { speaking_settings: settings })}
+          />
         )}
 
         {/* Explanation & Points */}
@@ -443,6 +542,18 @@ export function QuizBuilder({ quiz, isOpen, onClose, onSuccess }: QuizBuilderPro
               onChange={(e) => updateQuestion(question.id!, { points: parseInt(e.target.value) || 1 })}
               className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none"
             />
+            <label className="text-sm font-medium text-gray-700 mb-2 mt-3 block">
+              Difficulty
+            </label>
+            <select
+              value={question.difficulty_level || 'medium'}
+              onChange={(e) => updateQuestion(question.id!, { difficulty_level: e.target.value as QuizQuestion['difficulty_level'] })}
+              className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none bg-white"
+            >
+              <option value="easy">Easy</option>
+              <option value="medium">Medium</option>
+              <option value="hard">Hard</option>
+            </select>
           </div>
         </div>
       </div>
@@ -501,12 +612,12 @@ export function QuizBuilder({ quiz, isOpen, onClose, onSuccess }: QuizBuilderPro
                       <label className="text-sm font-medium text-gray-700 mb-2 block">
                         Quiz Type
                       </label>
-                      <div className="grid grid-cols-2 gap-2">
+                      <div className="grid grid-cols-3 gap-2">
                         <button
-                          onClick={() => setQuizData({ ...quizData, reading_passage: '', passage_title: '' })}
+                          onClick={() => setQuizData({ ...quizData, reading_passage: '', passage_title: '', listening_settings: listeningOff })}
                           className={cn(
                             "p-3 rounded-lg border-2 text-sm font-medium transition-all",
-                            !isReadingQuiz
+                            !isReadingQuiz && !isListeningQuiz
                               ? "border-blue-500 bg-blue-50 text-blue-700"
                               : "border-gray-200 bg-white text-gray-700 hover:border-gray-300"
                           )}
@@ -515,7 +626,7 @@ export function QuizBuilder({ quiz, isOpen, onClose, onSuccess }: QuizBuilderPro
                           <div>Standard</div>
                         </button>
                         <button
-                          onClick={() => setQuizData({ ...quizData, reading_passage: ' ' })}
+                          onClick={() => setQuizData({ ...quizData, reading_passage: ' ', listening_settings: listeningOff })}
                           className={cn(
                             "p-3 rounded-lg border-2 text-sm font-medium transition-all",
                             isReadingQuiz
@@ -526,6 +637,23 @@ export function QuizBuilder({ quiz, isOpen, onClose, onSuccess }: QuizBuilderPro
                           <div className="text-lg mb-1">📖</div>
                           <div>Reading</div>
                         </button>
+                        <button
+                          onClick={() => setQuizData({
+                            ...quizData,
+                            reading_passage: '',
+                            passage_title: '',
+                            listening_settings: { ...listeningSettings, enabled: true }
+                          })}
+                          className={cn(
+                            "p-3 rounded-lg border-2 text-sm font-medium transition-all",
+                            isListeningQuiz
+                              ? "border-blue-500 bg-blue-50 text-blue-700"
+                              : "border-gray-200 bg-white text-gray-700 hover:border-gray-300"
+                          )}
+                        >
+                          <div className="text-lg mb-1">🎧</div>
+                          <div>Listening</div>
+                        </button>
                       </div>
                     </div>
 
@@ -647,6 +775,82 @@ export function QuizBuilder({ quiz, isOpen, onClose, onSuccess }: QuizBuilderPro
                       />
                     </div>
 
+                    {/* Adaptive Delivery */}
+                    <AdaptiveSettingsPanel
+                      settings={adaptiveSettings}
+                      onChange={(settings) => {
+                        setAdaptiveSettings(settings)
+                        setAdaptiveChanged(true)
+                      }}
+                    />
+
+                    {/* Retakes, availability window and official score */}
+                    <QuizPoliciesPanel
+                      retakePolicy={normalizeRetakePolicy(quizData.retake_policy)}
+                      availabilityWindow={normalizeAvailabilityWindow(quizData.availability_window)}
+                      gradingPolicy={normalizeGradingPolicy(quizData.grading_policy)}
+                      onChange={(updates) => setQuizData({ ...quizData, ...updates })}
+                    />
+
+                    {/* Per-attempt shuffling */}
+                    <div className="pt-4 border-t border-gray-200 space-y-3">
+                      <div>
+                        <h4 className="text-sm font-semibold text-gray-900">Shuffling</h4>
+                        <p className="text-xs text-gray-500 mt-1">
+                          Each attempt gets its own order; answers are scored against the original options
+                        </p>
+                      </div>
+                      {([
+                        ['shuffle_questions', 'Shuffle questions'],
+                        ['shuffle_options', 'Shuffle answer options']
+                      ] as const).map(([field, label]) => (
+                        <div key={field} className="flex items-center justify-between">
+                          <label className="text-sm font-medium text-gray-700">{label}</label>
+                          <button
+                            type="button"
+                            role="switch"
+                            aria-checked={Boolean(quizData[field])}
+                            onClick={() => setQuizData({ ...quizData, [field]: !quizData[field] })}
+                            className={cn(
+                              "relative inline-flex h-6 w-11 shrink-0 rounded-full transition-colors",
+                              quizData[field] ? "bg-blue-600" : "bg-gray-300"
+                            )}
+                          >
+                            <span
+                              className={cn(
+                                "inline-block h-5 w-5 mt-0.5 rounded-full bg-white shadow transition-transform",
+                                quizData[field] ? "translate-x-5" : "translate-x-0.5"
+                              )}
+                            />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+
+                    {/* Certificate on pass */}
+                    <div className="pt-4 border-t border-gray-200 space-y-2">
+                      <div>
+                        <label htmlFor="quiz-certificate" className="text-sm font-semibold text-gray-900">Certificate</label>
+                        <p className="text-xs text-gray-500 mt-1">
+                          Learners who pass get a verifiable certificate
+                        </p>
+                      </div>
+                      <CertificateTemplateSelect
+                        id="quiz-certificate"
+                        value={quizData.certificate_template_id}
+                        onChange={(templateId) => setQuizData({ ...quizData, certificate_template_id: templateId })}
+                        emptyLabel="No certificate"
+                      />
+                    </div>
+
+                    {/* Question bank draw rules */}
+                    {isAdmin && (
+                      <DrawRulesPanel
+                        rules={quizData.draw_rules || []}
+                        onChange={(rules) => setQuizData({ ...quizData, draw_rules: rules })}
+                      />
+                    )}
+
                     {/* Stats */}
                     <div className="pt-4 border-t border-gray-200">
                       <div className="grid grid-cols-2 gap-3">
@@ -720,6 +924,17 @@ export function QuizBuilder({ quiz, isOpen, onClose, onSuccess }: QuizBuilderPro
                   </Card>
                 )}
 
+                {/* Listening Section Editor (only for listening quizzes) */}
+                {isListeningQuiz && (
+                  <ListeningSettingsPanel
+                    audioUrl={quizData.passage_audio_url || ''}
+                    settings={listeningSettings}
+                    questionCount={questions.length}
+                    shuffled={Boolean(quizData.shuffle_questions || quizData.randomize_questions)}
+                    onChange={(updates) => setQuizData({ ...quizData, ...updates })}
+                  />
+                )}
+
                 {/* Add Question Toolbar */}
                 <Card className="bg-gradient-to-r from-blue-50 to-indigo-50 border-2 border-blue-200">
                   <div className="p-6">
@@ -727,7 +942,7 @@ export function QuizBuilder({ quiz, isOpen, onClose, onSuccess }: QuizBuilderPro
                       <Zap className="w-4 h-4 text-blue-600" />
                       Add Question
                     </h3>
-                    <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
                       {questionTypes.map((type) => (
                         <button
                           key={type.value}
@@ -816,6 +1031,15 @@ export function QuizBuilder({ quiz, isOpen, onClose, onSuccess }: QuizBuilderPro
                                 >
                                   Copy
                                 </button>
+                                {/* The bank has no speaking questions: recordings are graded against the quiz's own question */}
+                                {isAdmin && question.question_type !== 'speaking' && (
+                                  <button
+                                    onClick={() => saveQuestionToBank(question)}
+                                    className="px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                                  >
+                                    Save to bank
+                                  </button>
+                                )}
                                 <button
                                   onClick={() => deleteQuestion(question.id!)}
                                   className="p-1.5 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
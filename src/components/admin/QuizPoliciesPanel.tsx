@@ -0,0 +1,184 @@
+'use client'
+
+import React from 'react'
+import { CalendarClock } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { RetakePolicy, AvailabilityWindow, GradingPolicy, GradingMethod } from '@/lib/quiz-policies'
+
+interface QuizPoliciesPanelProps {
+  retakePolicy: RetakePolicy
+  availabilityWindow: AvailabilityWindow
+  gradingPolicy: GradingPolicy
+  onChange: (updates: {
+    retake_policy?: RetakePolicy
+    availability_window?: AvailabilityWindow
+    grading_policy?: GradingPolicy
+  }) => void
+}
+
+const GRADING_METHOD_LABELS: Record<GradingMethod, string> = {
+  highest: 'Highest attempt',
+  latest: 'Latest attempt',
+  average: 'Average of attempts'
+}
+
+const COMMON_TIMEZONES = [
+  'UTC',
+  'Europe/London',
+  'Europe/Berlin',
+  'America/New_York',
+  'America/Chicago',
+  'America/Los_Angeles',
+  'Asia/Ho_Chi_Minh',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney'
+]
+
+// datetime-local inputs want "YYYY-MM-DDTHH:mm"
+function toInputValue(value: string | null): string {
+  return value ? value.slice(0, 16) : ''
+}
+
+/**
+ * Retake, availability and grading policies shown in the QuizBuilder settings panel
+ */
+export function QuizPoliciesPanel({
+  retakePolicy,
+  availabilityWindow,
+  gradingPolicy,
+  onChange
+}: QuizPoliciesPanelProps) {
+  const updateRetake = (updates: Partial<RetakePolicy>) =>
+    onChange({ retake_policy: { ...retakePolicy, ...updates } })
+  const updateWindow = (updates: Partial<AvailabilityWindow>) =>
+    onChange({ availability_window: { ...availabilityWindow, ...updates } })
+
+  const timezones = COMMON_TIMEZONES.includes(availabilityWindow.timezone)
+    ? COMMON_TIMEZONES
+    : [availabilityWindow.timezone, ...COMMON_TIMEZONES]
+
+  return (
+    <div className="pt-4 border-t border-gray-200 space-y-4">
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 flex items-center gap-1">
+          <CalendarClock className="w-4 h-4" />
+          Attempts &amp; Availability
+        </h4>
+        <p className="text-xs text-gray-500 mt-1">
+          Checked when a student starts and submits the quiz
+        </p>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <label className="text-sm font-medium text-gray-700">Allow retakes</label>
+        <button
+          type="button"
+          role="switch"
+          aria-checked={retakePolicy.allowed}
+          onClick={() => updateRetake({ allowed: !retakePolicy.allowed })}
+          className={cn(
+            "relative inline-flex h-6 w-11 shrink-0 rounded-full transition-colors",
+            retakePolicy.allowed ? "bg-blue-600" : "bg-gray-300"
+          )}
+        >
+          <span
+            className={cn(
+              "inline-block h-5 w-5 mt-0.5 rounded-full bg-white shadow transition-transform",
+              retakePolicy.allowed ? "translate-x-5" : "translate-x-0.5"
+            )}
+          />
+        </button>
+      </div>
+
+      {retakePolicy.allowed && (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="text-sm font-medium text-gray-700 mb-2 block">
+              Max attempts
+            </label>
+            <input
+              type="number"
+              min="0"
+              value={retakePolicy.max_attempts}
+              onChange={(e) => updateRetake({ max_attempts: Math.max(0, parseInt(e.target.value) || 0) })}
+              className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none"
+            />
+            <p className="text-xs text-gray-500 mt-1">0 = unlimited</p>
+          </div>
+          <div>
+            <label className="text-sm font-medium text-gray-700 mb-2 block">
+              Cooldown (hours)
+            </label>
+            <input
+              type="number"
+              min="0"
+              step="0.5"
+              value={retakePolicy.cooldown_hours}
+              onChange={(e) => updateRetake({ cooldown_hours: Math.max(0, parseFloat(e.target.value) || 0) })}
+              className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none"
+            />
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="text-sm font-medium text-gray-700 mb-2 block">
+            Opens
+          </label>
+          <input
+            type="datetime-local"
+            value={toInputValue(availabilityWindow.start_date)}
+            onChange={(e) => updateWindow({ start_date: e.target.value || null })}
+            className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none"
+          />
+        </div>
+        <div>
+          <label className="text-sm font-medium text-gray-700 mb-2 block">
+            Closes
+          </label>
+          <input
+            type="datetime-local"
+            value={toInputValue(availabilityWindow.end_date)}
+            onChange={(e) => updateWindow({ end_date: e.target.value || null })}
+            className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label className="text-sm font-medium text-gray-700 mb-2 block">
+          Timezone
+        </label>
+        <select
+          value={availabilityWindow.timezone}
+          onChange={(e) => updateWindow({ timezone: e.target.value })}
+          className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none bg-white"
+        >
+          {timezones.map(timezone => (
+            <option key={timezone} value={timezone}>{timezone}</option>
+          ))}
+        </select>
+        <p className="text-xs text-gray-500 mt-1">
+          Open and close times are read in this timezone. Leave them empty for no limit.
+        </p>
+      </div>
+
+      <div>
+        <label className="text-sm font-medium text-gray-700 mb-2 block">
+          Official score
+        </label>
+        <select
+          value={gradingPolicy.method}
+          onChange={(e) => onChange({ grading_policy: { ...gradingPolicy, method: e.target.value as GradingMethod } })}
+          className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none bg-white"
+        >
+          {Object.entries(GRADING_METHOD_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>{label}</option>
+          ))}
+        </select>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,138 @@
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { Mic } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import {
+  MAX_CUE_CARD_POINTS,
+  MAX_PREP_SECONDS,
+  MAX_RESPONSE_SECONDS,
+  MIN_RESPONSE_SECONDS,
+  SPEAKING_PARTS,
+  SPEAKING_PART_DEFAULTS,
+  SPEAKING_RUBRIC,
+  type SpeakingSettings
+} from '@/lib/speaking'
+
+interface SpeakingQuestionEditorProps {
+  settings: SpeakingSettings
+  onChange: (settings: SpeakingSettings) => void
+}
+
+// Points are edited as lines and applied on blur, so blank lines survive while typing
+function CueCardInput({ points, onChange }: { points: string[]; onChange: (points: string[]) => void }) {
+  const text = points.join('\n')
+  const [draft, setDraft] = useState(text)
+
+  useEffect(() => {
+    setDraft(text)
+  }, [text])
+
+  return (
+    <textarea
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => onChange(draft.split('\n').map(point => point.trim()).filter(Boolean).slice(0, MAX_CUE_CARD_POINTS))}
+      placeholder={'where it is\nwhen you went there\nwhat you did there\nand explain why you would like to go back'}
+      className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none resize-none"
+      rows={4}
+    />
+  )
+}
+
+/**
+ * IELTS part, preparation and speaking time, and cue card points for a speaking
+ * question in the QuizBuilder
+ */
+export function SpeakingQuestionEditor({ settings, onChange }: SpeakingQuestionEditorProps) {
+  const update = (updates: Partial<SpeakingSettings>) => onChange({ ...settings, ...updates })
+
+  return (
+    <div className="space-y-4">
+      {/* Part */}
+      <div>
+        <label className="text-sm font-medium text-gray-700 mb-2 block">
+          IELTS Part
+        </label>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+          {SPEAKING_PARTS.map(part => (
+            <button
+              key={part}
+              type="button"
+              // Each part starts from its exam timings
+              onClick={() => update({
+                part,
+                prep_seconds: SPEAKING_PART_DEFAULTS[part].prep_seconds,
+                response_seconds: SPEAKING_PART_DEFAULTS[part].response_seconds
+              })}
+              className={cn(
+                "p-3 rounded-lg border-2 text-left text-sm font-medium transition-all",
+                settings.part === part
+                  ? "border-rose-500 bg-rose-50 text-rose-700"
+                  : "border-gray-200 bg-white text-gray-700 hover:border-gray-300"
+              )}
+            >
+              {SPEAKING_PART_DEFAULTS[part].label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Timing */}
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="text-sm font-medium text-gray-700 mb-2 block">
+            Preparation (seconds)
+          </label>
+          <input
+            type="number"
+            min="0"
+            max={MAX_PREP_SECONDS}
+            value={settings.prep_seconds}
+            onChange={(e) => update({ prep_seconds: Math.min(MAX_PREP_SECONDS, Math.max(0, parseInt(e.target.value) || 0)) })}
+            className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none"
+          />
+        </div>
+        <div>
+          <label className="text-sm font-medium text-gray-700 mb-2 block">
+            Speaking time (seconds)
+          </label>
+          <input
+            type="number"
+            min={MIN_RESPONSE_SECONDS}
+            max={MAX_RESPONSE_SECONDS}
+            value={settings.response_seconds}
+            onChange={(e) => update({
+              response_seconds: Math.min(MAX_RESPONSE_SECONDS, Math.max(MIN_RESPONSE_SECONDS, parseInt(e.target.value) || MIN_RESPONSE_SECONDS))
+            })}
+            className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none"
+          />
+        </div>
+      </div>
+
+      {/* Cue card */}
+      {settings.part === 2 && (
+        <div>
+          <label className="text-sm font-medium text-gray-700 mb-2 block">
+            Cue card points (one per line)
+          </label>
+          <CueCardInput
+            points={settings.cue_card_points}
+            onChange={(points) => update({ cue_card_points: points })}
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Shown under &quot;You should say:&quot; during the preparation minute
+          </p>
+        </div>
+      )}
+
+      <div className="p-4 bg-rose-50 border border-rose-200 rounded-lg flex gap-3">
+        <Mic className="w-4 h-4 text-rose-600 mt-0.5 shrink-0" />
+        <p className="text-sm text-rose-800">
+          Students record their answer, which stops at the speaking time. Recordings are graded in the grading queue on{' '}
+          {SPEAKING_RUBRIC.map(criterion => criterion.criterion).join(', ')}, each out of 9.
+        </p>
+      </div>
+    </div>
+  )
+}
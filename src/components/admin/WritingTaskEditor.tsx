@@ -0,0 +1,138 @@
+'use client'
+
+import React from 'react'
+import { PenLine } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import {
+  MAX_WRITING_WORDS,
+  WRITING_RUBRICS,
+  WRITING_TASKS,
+  WRITING_TASK_DEFAULTS,
+  type WritingSettings
+} from '@/lib/writing'
+
+interface WritingTaskEditorProps {
+  settings: WritingSettings | null
+  imageUrl: string
+  onChange: (updates: { writing_settings?: WritingSettings | null; image_url?: string }) => void
+}
+
+const clampWords = (value: string) => Math.min(MAX_WRITING_WORDS, Math.max(0, parseInt(value) || 0))
+
+/**
+ * Plain essay or IELTS Writing Task 1/2 mode for an essay question in the
+ * QuizBuilder: word limits and the Task 1 chart
+ */
+export function WritingTaskEditor({ settings, imageUrl, onChange }: WritingTaskEditorProps) {
+  const update = (updates: Partial<WritingSettings>) =>
+    settings && onChange({ writing_settings: { ...settings, ...updates } })
+
+  return (
+    <div className="space-y-4">
+      {/* Mode */}
+      <div>
+        <label className="text-sm font-medium text-gray-700 mb-2 block">
+          Essay Mode
+        </label>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+          <button
+            type="button"
+            onClick={() => onChange({ writing_settings: null })}
+            className={cn(
+              "p-3 rounded-lg border-2 text-left text-sm font-medium transition-all",
+              !settings
+                ? "border-orange-500 bg-orange-50 text-orange-700"
+                : "border-gray-200 bg-white text-gray-700 hover:border-gray-300"
+            )}
+          >
+            Standard essay
+          </button>
+          {WRITING_TASKS.map(task => (
+            <button
+              key={task}
+              type="button"
+              // Each task starts from its exam word count
+              onClick={() => onChange({ writing_settings: { task, min_words: WRITING_TASK_DEFAULTS[task].min_words, max_words: 0 } })}
+              className={cn(
+                "p-3 rounded-lg border-2 text-left text-sm font-medium transition-all",
+                settings?.task === task
+                  ? "border-orange-500 bg-orange-50 text-orange-700"
+                  : "border-gray-200 bg-white text-gray-700 hover:border-gray-300"
+              )}
+            >
+              IELTS {WRITING_TASK_DEFAULTS[task].label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {settings ? (
+        <>
+          {/* Word limits */}
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="text-sm font-medium text-gray-700 mb-2 block">
+                Minimum words
+              </label>
+              <input
+                type="number"
+                min="0"
+                max={MAX_WRITING_WORDS}
+                value={settings.min_words}
+                onChange={(e) => update({ min_words: clampWords(e.target.value) })}
+                className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none"
+              />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-gray-700 mb-2 block">
+                Maximum words (0 = none)
+              </label>
+              <input
+                type="number"
+                min="0"
+                max={MAX_WRITING_WORDS}
+                value={settings.max_words}
+                onChange={(e) => update({ max_words: clampWords(e.target.value) })}
+                className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none"
+              />
+            </div>
+          </div>
+
+          {/* Task 1 chart */}
+          {settings.task === 1 && (
+            <div>
+              <label className="text-sm font-medium text-gray-700 mb-2 block">
+                Chart or diagram image URL
+              </label>
+              <input
+                type="url"
+                value={imageUrl}
+                onChange={(e) => onChange({ image_url: e.target.value })}
+                placeholder="https://..."
+                className="w-full p-3 border-2 border-gray-200 rounded-lg focus:border-blue-500 focus:outline-none"
+              />
+              {imageUrl && (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={imageUrl} alt="Task 1 chart preview" className="mt-2 max-h-48 rounded-lg border border-gray-200 object-contain" />
+              )}
+            </div>
+          )}
+
+          <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg flex gap-3">
+            <PenLine className="w-4 h-4 text-amber-700 mt-0.5 shrink-0" />
+            <p className="text-sm text-amber-800">
+              Students see a live word count and a warning while under {settings.min_words} words. Graders give a band out of 9 for{' '}
+              {WRITING_RUBRICS[settings.task].map(criterion => criterion.criterion).join(', ')}.
+            </p>
+          </div>
+        </>
+      ) : (
+        <div className="p-4 bg-amber-50 border border-amber-200 rounded-lg">
+          <p className="text-sm text-amber-800">
+            <strong>Note:</strong> Essay questions require manual grading. Students will type their response in a text area.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -2,49 +2,44 @@
 
 import { useState, useEffect } from 'react'
 import { Check, X } from 'lucide-react'
+import { usePasswordPolicy } from '@/hooks/api/usePlatformSettings'
+import { getPasswordRequirements, type PasswordPolicy } from '@/lib/platform-settings'
 
 interface PasswordStrengthMeterProps {
   password: string
   onValidationChange?: (isValid: boolean) => void
   isInputFocused?: boolean
+  /** Defaults to the platform password policy from the admin security settings */
+  policy?: PasswordPolicy
 }
 
-interface PasswordRequirement {
+interface PasswordRequirementStatus {
   id: string
   label: string
-  regex: RegExp
   met: boolean
 }
 
-export function PasswordStrengthMeter({ password, onValidationChange, isInputFocused = false }: PasswordStrengthMeterProps) {
-  const [requirements, setRequirements] = useState<PasswordRequirement[]>([
-    { id: 'length', label: 'At least 8 characters', regex: /.{8,}/, met: false },
-    { id: 'uppercase', label: 'One uppercase letter', regex: /[A-Z]/, met: false },
-    { id: 'lowercase', label: 'One lowercase letter', regex: /[a-z]/, met: false },
-    { id: 'number', label: 'One number', regex: /\d/, met: false },
-    { id: 'special', label: 'One special character (!@#$%^&*)', regex: /[!@#$%^&*(),.?":{}|<>]/, met: false }
-  ])
+export function PasswordStrengthMeter({ password, onValidationChange, isInputFocused = false, policy }: PasswordStrengthMeterProps) {
+  const platformPolicy = usePasswordPolicy()
+  const activePolicy = policy || platformPolicy
+
+  const [requirements, setRequirements] = useState<PasswordRequirementStatus[]>([])
 
   const [strength, setStrength] = useState(0)
   const [strengthLabel, setStrengthLabel] = useState('')
   const [strengthColor, setStrengthColor] = useState('')
 
   useEffect(() => {
-    const baseRequirements = [
-      { id: 'length', label: 'At least 8 characters', regex: /.{8,}/, met: false },
-      { id: 'uppercase', label: 'One uppercase letter (A-Z)', regex: /[A-Z]/, met: false },
-      { id: 'lowercase', label: 'One lowercase letter (a-z)', regex: /[a-z]/, met: false },
-      { id: 'number', label: 'One number (0-9)', regex: /\d/, met: false },
-      { id: 'special', label: 'One special character (!@#$%^&*)', regex: /[!@#$%^&*(),.?":{}|<>]/, met: false }
-    ]
-
-    const updatedRequirements = baseRequirements.map(req => ({
-      ...req,
-      met: password.length > 0 ? req.regex.test(password) : false
+    const policyRequirements = getPasswordRequirements(activePolicy)
+
+    const updatedRequirements = policyRequirements.map(req => ({
+      id: req.id,
+      label: req.label,
+      met: password.length > 0 ? req.test(password) : false
     }))
 
     const metCount = updatedRequirements.filter(req => req.met).length
-    const strengthPercentage = password.length > 0 ? (metCount / baseRequirements.length) * 100 : 0
+    const strengthPercentage = password.length > 0 ? (metCount / policyRequirements.length) * 100 : 0
 
     setRequirements(updatedRequirements)
     setStrength(strengthPercentage)
@@ -64,10 +59,13 @@ export function PasswordStrengthMeter({ password, onValidationChange, isInputFoc
       setStrengthColor('bg-success')
     }
 
-    // Notify parent of validation status - require at least 4 out of 5 criteria
-    const isValid = metCount >= 4
+    // Notify parent of validation status - every requirement of the policy must be met
+    const isValid = metCount === policyRequirements.length
     onValidationChange?.(isValid)
-  }, [password, onValidationChange])
+  }, [password, onValidationChange, activePolicy])
+
+  const metCount = requirements.filter(req => req.met).length
+  const remaining = requirements.length - metCount
 
   if (password.length === 0) return null
 
@@ -140,13 +138,13 @@ export function PasswordStrengthMeter({ password, onValidationChange, isInputFoc
           {/* Summary Message */}
           {password.length > 0 && (
             <div className={`text-center p-2 rounded-md text-sm font-medium ${
-              requirements.filter(req => req.met).length >= 4
+              remaining === 0
                 ? 'bg-success/10 text-success border border-success/20'
                 : 'bg-warning/10 text-warning border border-warning/20'
             }`}>
-              {requirements.filter(req => req.met).length >= 4 
+              {remaining === 0
                 ? '✓ Password meets requirements' 
-                : `${5 - requirements.filter(req => req.met).length} more requirement${5 - requirements.filter(req => req.met).length === 1 ? '' : 's'} needed`
+                : `${remaining} more requirement${remaining === 1 ? '' : 's'} needed`
               }
             </div>
           )}
@@ -157,13 +155,13 @@ export function PasswordStrengthMeter({ password, onValidationChange, isInputFoc
       {isInputFocused && password.length > 0 && (
         <div className="text-center">
           <span className={`text-sm font-medium ${
-            requirements.filter(req => req.met).length >= 4
+            remaining === 0
               ? 'text-success'
               : 'text-muted-foreground'
           }`}>
-            {requirements.filter(req => req.met).length >= 4 
+            {remaining === 0
               ? '✓ Password meets requirements' 
-              : `${requirements.filter(req => req.met).length}/5 requirements met`
+              : `${metCount}/${requirements.length} requirements met`
             }
           </span>
         </div>
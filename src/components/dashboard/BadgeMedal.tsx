@@ -0,0 +1,59 @@
+'use client'
+
+import Image from 'next/image'
+import { Award, Lock } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { BadgeRarity } from '@/lib/badges/types'
+
+const RARITY_STYLES: Record<BadgeRarity, string> = {
+  common: 'from-gray-100 to-gray-200 text-gray-600 ring-gray-300',
+  uncommon: 'from-green-100 to-green-200 text-green-700 ring-green-300',
+  rare: 'from-blue-100 to-blue-200 text-blue-700 ring-blue-300',
+  epic: 'from-purple-100 to-purple-200 text-purple-700 ring-purple-300',
+  legendary: 'from-amber-100 to-amber-300 text-amber-700 ring-amber-400'
+}
+
+const SIZES = {
+  sm: { box: 'w-10 h-10', icon: 'w-5 h-5', pixels: 40 },
+  md: { box: 'w-14 h-14', icon: 'w-7 h-7', pixels: 56 }
+}
+
+interface BadgeMedalProps {
+  name: string
+  iconUrl: string | null
+  rarity: BadgeRarity
+  earned?: boolean
+  size?: keyof typeof SIZES
+  className?: string
+}
+
+/**
+ * Round badge icon framed in its rarity colour; greyed out with a lock until earned
+ */
+export function BadgeMedal({ name, iconUrl, rarity, earned = true, size = 'md', className }: BadgeMedalProps) {
+  const dimensions = SIZES[size]
+
+  return (
+    <div
+      className={cn(
+        "relative shrink-0 rounded-full bg-gradient-to-br ring-2 flex items-center justify-center overflow-hidden",
+        RARITY_STYLES[rarity] || RARITY_STYLES.common,
+        dimensions.box,
+        !earned && "grayscale opacity-50",
+        className
+      )}
+      title={name}
+    >
+      {iconUrl ? (
+        <Image src={iconUrl} alt={name} width={dimensions.pixels} height={dimensions.pixels} unoptimized className="object-cover" />
+      ) : (
+        <Award className={dimensions.icon} />
+      )}
+      {!earned && (
+        <span className="absolute bottom-0 right-0 rounded-full bg-white p-0.5 shadow">
+          <Lock className="w-3 h-3 text-gray-500" />
+        </span>
+      )}
+    </div>
+  )
+}
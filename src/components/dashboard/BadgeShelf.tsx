@@ -0,0 +1,94 @@
+'use client'
+
+import { Award } from 'lucide-react'
+import { useMyBadges } from '@/hooks/api'
+import { Card, CardContent } from '@/components/ui/card'
+import { Progress } from '@/components/ui/progress'
+import { formatDate } from '@/lib/date-utils'
+import { BadgeMedal } from './BadgeMedal'
+
+const NEXT_UP_LIMIT = 3
+
+/**
+ * Earned badges, plus the few the learner is closest to earning next
+ */
+export function BadgeShelf() {
+  const { data: badges = [], isLoading, error } = useMyBadges()
+
+  const earned = badges
+    .filter(badge => badge.earned)
+    .sort((a, b) => (b.awarded_at || '').localeCompare(a.awarded_at || ''))
+  const nextUp = badges
+    .filter(badge => !badge.earned && badge.progress)
+    .sort((a, b) => b.progress!.current / b.progress!.target - a.progress!.current / a.progress!.target)
+    .slice(0, NEXT_UP_LIMIT)
+  const points = earned.reduce((total, badge) => total + badge.points, 0)
+
+  return (
+    <Card className="border-2 border-gray-100 shadow-lg">
+      <CardContent className="!p-3 sm:!p-4 md:!p-5 lg:!p-6">
+        <div className="flex items-center justify-between mb-3 sm:mb-4">
+          <div className="flex items-center gap-2 sm:gap-3">
+            <div className="w-8 h-8 sm:w-10 sm:h-10 bg-gradient-to-br from-amber-400 to-amber-500 rounded-xl flex items-center justify-center">
+              <Award className="w-4 h-4 sm:w-5 sm:h-5 text-white" />
+            </div>
+            <h3 className="text-base sm:text-lg lg:text-xl font-bold text-gray-900">Badges</h3>
+          </div>
+          {badges.length > 0 && (
+            <span className="text-xs sm:text-sm text-gray-500">
+              {earned.length}/{badges.length} · {points} pts
+            </span>
+          )}
+        </div>
+
+        {error ? (
+          <p className="text-sm text-red-700">{error.message || 'Failed to load badges'}</p>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center h-24">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : badges.length === 0 ? (
+          <p className="text-sm text-gray-600">No badges to earn yet. Check back soon!</p>
+        ) : (
+          <div className="space-y-4">
+            {earned.length > 0 ? (
+              <div className="grid grid-cols-4 gap-3">
+                {earned.map(badge => (
+                  <div
+                    key={badge.id}
+                    className="flex flex-col items-center text-center gap-1"
+                    title={`${badge.description || badge.requirement}${badge.awarded_at ? ` — earned ${formatDate(badge.awarded_at)}` : ''}`}
+                  >
+                    <BadgeMedal name={badge.name} iconUrl={badge.icon_url} rarity={badge.rarity} size="sm" />
+                    <span className="text-[11px] leading-tight font-medium text-gray-700 line-clamp-2">{badge.name}</span>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-600">Pass quizzes, finish lessons and keep a streak going to earn your first badge.</p>
+            )}
+
+            {nextUp.length > 0 && (
+              <div className="pt-3 border-t border-gray-100 space-y-3">
+                <h4 className="text-xs font-semibold text-gray-500 uppercase tracking-wide">Next up</h4>
+                {nextUp.map(badge => (
+                  <div key={badge.id} className="flex items-center gap-3">
+                    <BadgeMedal name={badge.name} iconUrl={badge.icon_url} rarity={badge.rarity} earned={false} size="sm" />
+                    <div className="flex-1 min-w-0">
+                      <div className="flex justify-between text-xs text-gray-600 mb-1">
+                        <span className="font-medium text-gray-900 truncate">{badge.name}</span>
+                        <span>{badge.progress!.current}/{badge.progress!.target}</span>
+                      </div>
+                      <Progress value={(badge.progress!.current / badge.progress!.target) * 100} size="sm" />
+                      <p className="text-[11px] text-gray-500 mt-1 truncate">{badge.requirement}</p>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,96 @@
+'use client'
+
+import { Flame } from 'lucide-react'
+import { useMyStats } from '@/hooks/api'
+import { Card, CardContent } from '@/components/ui/card'
+import { HEATMAP_DAYS, addDays, getWeekStart, toLocalDate } from '@/lib/user-stats/aggregate'
+
+const WEEKDAY_LABELS = ['Mon', '', 'Wed', '', 'Fri', '', '']
+
+function getCellClass(count: number) {
+  if (count === 0) return 'bg-gray-100'
+  if (count === 1) return 'bg-green-200'
+  if (count <= 3) return 'bg-green-400'
+  return 'bg-green-600'
+}
+
+/**
+ * Daily activity over the last six months, one column per week, with the
+ * learner's current and longest streaks
+ */
+export function StreakHeatmap() {
+  const { data: stats, isLoading, error } = useMyStats()
+
+  const timezone = stats?.performance_trends.timezone || 'UTC'
+  const today = toLocalDate(new Date(), timezone)
+  const firstWeek = getWeekStart(addDays(today, -(HEATMAP_DAYS - 1)))
+  const weeks = Array.from({ length: HEATMAP_DAYS / 7 }, (_, week) =>
+    Array.from({ length: 7 }, (_, day) => addDays(firstWeek, week * 7 + day))
+  )
+  const daily = stats?.performance_trends.daily || {}
+  const activeDays = Object.keys(daily).length
+
+  return (
+    <Card className="border-2 border-gray-100 shadow-lg">
+      <CardContent className="!p-3 sm:!p-4 md:!p-5 lg:!p-6">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-3 sm:mb-4">
+          <div className="flex items-center gap-2 sm:gap-3">
+            <div className="w-8 h-8 sm:w-10 sm:h-10 bg-gradient-to-br from-orange-400 to-red-500 rounded-xl flex items-center justify-center">
+              <Flame className="w-4 h-4 sm:w-5 sm:h-5 text-white" />
+            </div>
+            <h3 className="text-base sm:text-lg lg:text-xl font-bold text-gray-900">Study Streak</h3>
+          </div>
+          {stats && (
+            <div className="flex items-center gap-4 text-xs sm:text-sm text-gray-600">
+              <span><span className="font-bold text-gray-900">{stats.study_streak_days}</span> day{stats.study_streak_days !== 1 ? 's' : ''} current</span>
+              <span><span className="font-bold text-gray-900">{stats.longest_streak_days}</span> longest</span>
+              <span><span className="font-bold text-gray-900">{stats.total_points}</span> pts</span>
+            </div>
+          )}
+        </div>
+
+        {error ? (
+          <p className="text-sm text-red-700">{error.message || 'Failed to load activity'}</p>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center h-24">
+            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <>
+            <div className="flex gap-1 overflow-x-auto pb-1">
+              <div className="flex flex-col gap-1 pr-1 shrink-0">
+                {WEEKDAY_LABELS.map((label, index) => (
+                  <div key={index} className="h-3 text-[10px] leading-3 text-gray-400">{label}</div>
+                ))}
+              </div>
+              {weeks.map(week => (
+                <div key={week[0]} className="flex flex-col gap-1 shrink-0">
+                  {week.map(day => {
+                    const count = daily[day] || 0
+                    return day > today ? (
+                      <div key={day} className="w-3 h-3" />
+                    ) : (
+                      <div
+                        key={day}
+                        className={`w-3 h-3 rounded-sm ${getCellClass(count)} ${day === today ? 'ring-1 ring-gray-400' : ''}`}
+                        title={`${day}: ${count === 0 ? 'no activity' : `${count} activit${count === 1 ? 'y' : 'ies'}`}`}
+                      />
+                    )
+                  })}
+                </div>
+              ))}
+            </div>
+            <div className="flex items-center justify-between mt-2 text-[11px] text-gray-500">
+              <span>{activeDays} active day{activeDays !== 1 ? 's' : ''} in the last 6 months</span>
+              <div className="flex items-center gap-1">
+                <span>Less</span>
+                {[0, 1, 2, 4].map(count => <div key={count} className={`w-3 h-3 rounded-sm ${getCellClass(count)}`} />)}
+                <span>More</span>
+              </div>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
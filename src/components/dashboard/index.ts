@@ -2,6 +2,9 @@
 // Note: DashboardLayout is now in @/components/layouts/DashboardLayout
 export { DashboardHeader } from './DashboardHeader'
 export { DashboardGrid, DashboardSection } from './DashboardGrid'
+export { BadgeMedal } from './BadgeMedal'
+export { BadgeShelf } from './BadgeShelf'
+export { StreakHeatmap } from './StreakHeatmap'
 
 // Dashboard Card Components
 export * from './cards'
@@ -57,7 +57,8 @@ export interface BaseSidebarProps {
   showUserProfile?: boolean
   onUserProfileClick?: () => void
   onMobileClose?: () => void
-  requireAdminRole?: boolean
+  /** Roles that may see the sidebar; anyone else gets an access denied panel */
+  allowedRoles?: Array<'admin' | 'instructor' | 'student'>
   customUserCard?: React.ReactNode
 }
 
@@ -139,20 +140,22 @@ export function BaseSidebar({
   showUserProfile = false,
   onUserProfileClick,
   onMobileClose,
-  requireAdminRole = false,
+  allowedRoles,
   customUserCard
 }: BaseSidebarProps) {
   const pathname = usePathname()
   const { user, signOut } = useAuth()
   const theme = themes[themeType]
 
-  // Admin role check
-  if (requireAdminRole && (!user || user.role !== 'admin')) {
+  // Role check
+  if (allowedRoles && (!user || !allowedRoles.includes(user.role))) {
     return (
       <div className="w-64 glass flex flex-col h-full items-center justify-center p-4">
         <div className="text-center">
           <h2 className="text-lg font-semibold text-red-600 mb-2">Access Denied</h2>
-          <p className="text-sm text-gray-600">Admin privileges required</p>
+          <p className="text-sm text-gray-600">
+            {allowedRoles.includes('instructor') ? 'Instructor or admin privileges required' : 'Admin privileges required'}
+          </p>
         </div>
       </div>
     )
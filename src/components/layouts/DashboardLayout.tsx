@@ -2,6 +2,7 @@
 
 import { ReactNode, useState } from 'react'
 import { StudentSidebar } from '@/components/student/StudentSidebar'
+import { NotificationBell } from '@/components/notifications'
 import { Menu } from 'lucide-react'
 
 interface DashboardLayoutProps {
@@ -15,6 +16,7 @@ interface DashboardLayoutProps {
  * 
  * Layout Structure:
  * - Fixed sidebar on desktop (lg:), overlay on mobile
+ * - Sticky header with the notification bell; menu button and title on mobile only
  * - Responsive padding that scales with viewport
  * - Max-width constraint for optimal readability
  * - Proper z-index layering for mobile menu
@@ -50,25 +52,26 @@ export function DashboardLayout({ children, title, headerAction }: DashboardLayo
 
       {/* Main Content Area - Offset by sidebar width on desktop */}
       <div className="lg:pl-64">
-        {/* Mobile Header - Sticky at top on mobile only */}
-        <header className="sticky top-0 z-40 lg:hidden bg-white/80 backdrop-blur-md border-b border-gray-200 px-4 py-3">
-          <div className="flex items-center justify-between">
+        {/* Header - Sticky at top; menu button and title on mobile only */}
+        <header className="sticky top-0 z-40 bg-white/80 backdrop-blur-md border-b border-gray-200 px-4 py-3 lg:px-8 lg:py-2">
+          <div className="flex items-center justify-between lg:justify-end">
             <button
               onClick={() => setSidebarOpen(true)}
-              className="p-2 rounded-lg text-gray-600 hover:text-gray-900 hover:bg-gray-100 transition-colors"
+              className="p-2 rounded-lg text-gray-600 hover:text-gray-900 hover:bg-gray-100 transition-colors lg:hidden"
               aria-label="Open navigation menu"
             >
               <Menu className="h-6 w-6" />
             </button>
             
             {title && (
-              <h1 className="text-base font-semibold text-gray-900 truncate">
+              <h1 className="text-base font-semibold text-gray-900 truncate lg:hidden">
                 {title}
               </h1>
             )}
             
-            <div className="w-10 flex items-center justify-end">
+            <div className="min-w-10 flex items-center justify-end gap-1">
               {headerAction}
+              <NotificationBell />
             </div>
           </div>
         </header>
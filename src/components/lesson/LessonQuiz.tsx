@@ -2,15 +2,10 @@
 
 import { useState, useEffect } from 'react'
 import { X, ChevronLeft, ChevronRight, Check } from 'lucide-react'
-import { createSupabaseClient } from '@/lib/supabase'
-
-interface QuizQuestion {
-  id: string
-  question: string
-  options: string[]
-  correct_answer: number
-  explanation?: string
-}
+import { createSupabaseClient, type QuizQuestion } from '@/lib/supabase'
+import { gradeSubmission } from '@/lib/grading'
+import { QuestionRendererFactory } from '@/components/student/quiz/QuestionRendererFactory'
+import { toQuestionData } from '@/components/student/quiz/question-types/toQuestionData'
 
 interface LessonQuizProps {
   lessonId: string
@@ -25,8 +20,9 @@ export function LessonQuiz({ lessonId, lessonTitle, isOpen, onClose, onComplete
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
   const [currentQuestionIndex, setCurrentQuestionIndex] = useState(0)
-  const [answers, setAnswers] = useState<Record<string, number>>({})
+  const [answers, setAnswers] = useState<Record<string, any>>({})
   const [showResults, setShowResults] = useState(false)
+  const [reviewing, setReviewing] = useState(false)
 
   // Load quiz data when component opens
   useEffect(() => {
@@ -61,14 +57,9 @@ export function LessonQuiz({ lessonId, lessonTitle, isOpen, onClose, onComplete
           setQuiz({
             title: data.title,
             description: data.description,
-            questions: data.quiz_questions?.map((q: any) => ({
-              id: q.id,
-              question: q.question,
-              options: q.options,
-              correct_answer: q.correct_answer,
-              explanation: q.explanation,
-              order_index: q.order_index
-            })).sort((a: any, b: any) => a.order_index - b.order_index) || []
+            questions: (data.quiz_questions as QuizQuestion[] | null)
+              ?.slice()
+              .sort((a, b) => a.order_index - b.order_index) || []
           })
         }
       } catch (err: any) {
@@ -162,18 +153,21 @@ export function LessonQuiz({ lessonId, lessonTitle, isOpen, onClose, onComplete
     )
   }
 
-  const handleAnswerSelect = (answerIndex: number) => {
+  const handleAnswerChange = (answer: any) => {
     if (!currentQuestion) return
     
     setAnswers(prev => ({
       ...prev,
-      [currentQuestion.id]: answerIndex
+      [currentQuestion.id]: answer
     }))
   }
 
   const handleNext = () => {
     if (currentQuestionIndex < quizQuestions.length - 1) {
       setCurrentQuestionIndex(prev => prev + 1)
+    } else if (reviewing) {
+      setReviewing(false)
+      setShowResults(true)
     } else {
       // Calculate score and show results
       const score = calculateScore()
@@ -188,14 +182,9 @@ export function LessonQuiz({ lessonId, lessonTitle, isOpen, onClose, onComplete
     }
   }
 
+  // Same graders as the quiz submit route
   const calculateScore = () => {
-    let correct = 0
-    quizQuestions.forEach(question => {
-      if (answers[question.id] === question.correct_answer) {
-        correct++
-      }
-    })
-    return Math.round((correct / quizQuestions.length) * 100)
+    return Math.round(gradeSubmission(quizQuestions, answers).percentage)
   }
 
   const getProgressPercentage = () => {
@@ -204,7 +193,7 @@ export function LessonQuiz({ lessonId, lessonTitle, isOpen, onClose, onComplete
 
   if (showResults) {
     const score = calculateScore()
-    const correct = quizQuestions.filter(q => answers[q.id] === q.correct_answer).length
+    const correct = gradeSubmission(quizQuestions, answers).results.filter(r => r.is_correct).length
     
     return (
       <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
@@ -227,6 +216,16 @@ export function LessonQuiz({ lessonId, lessonTitle, isOpen, onClose, onComplete
             <div className="text-3xl font-bold text-success mb-6">{score}%</div>
             
             <div className="flex gap-3">
+              <button
+                onClick={() => {
+                  setCurrentQuestionIndex(0)
+                  setShowResults(false)
+                  setReviewing(true)
+                }}
+                className="flex-1 bg-muted/40 hover:bg-muted/60 text-gray-800 px-4 py-2 rounded-xl font-medium transition-colors"
+              >
+                Review Answers
+              </button>
               <button
                 onClick={onClose}
                 className="flex-1 bg-muted/40 hover:bg-muted/60 text-gray-800 px-4 py-2 rounded-xl font-medium transition-colors"
@@ -238,6 +237,7 @@ export function LessonQuiz({ lessonId, lessonTitle, isOpen, onClose, onComplete
                   setCurrentQuestionIndex(0)
                   setAnswers({})
                   setShowResults(false)
+                  setReviewing(false)
                 }}
                 className="flex-1 bg-gradient-to-r from-primary to-primary/90 text-gray-900 px-4 py-2 rounded-xl font-medium transition-all"
               >
@@ -283,36 +283,15 @@ export function LessonQuiz({ lessonId, lessonTitle, isOpen, onClose, onComplete
 
         {/* Question Content */}
         <div className="p-6">
-          <h3 className="text-lg font-bold text-gray-900 mb-6 leading-relaxed">
-            {currentQuestion.question}
-          </h3>
-
-          <div className="space-y-3">
-            {currentQuestion.options.map((option, index) => (
-              <button
-                key={index}
-                onClick={() => handleAnswerSelect(index)}
-                className={`w-full text-left p-4 border-2 rounded-xl transition-all duration-200 ${
-                  answers[currentQuestion.id] === index
-                    ? 'border-primary bg-primary/5 text-primary'
-                    : 'border-gray-200 hover:border-primary/30 hover:bg-primary/5/50'
-                }`}
-              >
-                <div className="flex items-center gap-3">
-                  <div className={`w-5 h-5 rounded-full border-2 flex items-center justify-center ${
-                    answers[currentQuestion.id] === index
-                      ? 'border-primary bg-primary/50'
-                      : 'border-gray-300'
-                  }`}>
-                    {answers[currentQuestion.id] === index && (
-                      <div className="w-2 h-2 bg-white rounded-full" />
-                    )}
-                  </div>
-                  <span className="font-medium">{option}</span>
-                </div>
-              </button>
-            ))}
-          </div>
+          <QuestionRendererFactory
+            key={currentQuestion.id}
+            question={toQuestionData(currentQuestion)}
+            userAnswer={answers[currentQuestion.id]}
+            onAnswerChange={handleAnswerChange}
+            isSubmitted={reviewing}
+            showCorrectAnswer={reviewing}
+            isReview={false}
+          />
         </div>
 
         {/* Navigation */}
@@ -333,10 +312,10 @@ export function LessonQuiz({ lessonId, lessonTitle, isOpen, onClose, onComplete
 
             <button
               onClick={handleNext}
-              disabled={answers[currentQuestion.id] === undefined}
+              disabled={!reviewing && answers[currentQuestion.id] === undefined}
               className="flex items-center gap-2 px-6 py-2 bg-gradient-to-r from-primary to-primary/90 text-gray-900 rounded-xl font-medium disabled:opacity-50 disabled:cursor-not-allowed transition-all"
             >
-              {currentQuestionIndex === quizQuestions.length - 1 ? 'Finish' : 'Next'}
+              {currentQuestionIndex === quizQuestions.length - 1 ? (reviewing ? 'Back to Results' : 'Finish') : 'Next'}
               {currentQuestionIndex < quizQuestions.length - 1 && <ChevronRight className="w-4 h-4" />}
             </button>
           </div>
@@ -0,0 +1,133 @@
+'use client'
+
+import Link from 'next/link'
+import { Bell, BookOpen, Award, Megaphone, Clock, PenLine } from 'lucide-react'
+import { useAuth } from '@/contexts/AuthContext'
+import { useNotifications, useMarkNotificationsRead } from '@/hooks/api'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { formatRelativeTime } from '@/lib/date-utils'
+import type { AppNotification } from '@/lib/notifications/types'
+
+const TYPE_ICONS: Record<AppNotification['type'], { icon: typeof Bell; className: string }> = {
+  enrollment: { icon: BookOpen, className: 'bg-blue-100 text-blue-600' },
+  assignment: { icon: BookOpen, className: 'bg-blue-100 text-blue-600' },
+  achievement: { icon: Award, className: 'bg-yellow-100 text-yellow-600' },
+  announcement: { icon: Megaphone, className: 'bg-purple-100 text-purple-600' },
+  reminder: { icon: Clock, className: 'bg-orange-100 text-orange-600' },
+  graded_essay: { icon: PenLine, className: 'bg-green-100 text-green-600' }
+}
+
+function NotificationRow({ notification, onOpen }: { notification: AppNotification; onOpen: () => void }) {
+  const { icon: Icon, className } = TYPE_ICONS[notification.type] || TYPE_ICONS.announcement
+  const content = (
+    <div className="flex items-start gap-3">
+      <div className={`w-8 h-8 rounded-lg flex items-center justify-center shrink-0 ${className}`}>
+        <Icon className="w-4 h-4" />
+      </div>
+      <div className="min-w-0 flex-1">
+        <div className="flex items-start justify-between gap-2">
+          <p className={`text-sm truncate ${notification.is_read ? 'text-gray-700' : 'font-semibold text-gray-900'}`}>
+            {notification.title}
+          </p>
+          {!notification.is_read && <span className="w-2 h-2 mt-1.5 rounded-full bg-primary shrink-0" aria-label="Unread" />}
+        </div>
+        <p className="text-xs text-gray-600 line-clamp-2">{notification.message}</p>
+        <p className="text-xs text-gray-400 mt-1">{formatRelativeTime(notification.created_at)}</p>
+      </div>
+    </div>
+  )
+
+  if (notification.action_url) {
+    return (
+      <DropdownMenuItem asChild>
+        <Link href={notification.action_url} onClick={onOpen} className="block px-3 py-2.5 rounded-lg hover:bg-gray-50">
+          {content}
+        </Link>
+      </DropdownMenuItem>
+    )
+  }
+
+  return <DropdownMenuItem onClick={onOpen}>{content}</DropdownMenuItem>
+}
+
+/**
+ * Header bell with the unread count and the latest notifications.
+ * Renders nothing for signed-out visitors.
+ */
+export function NotificationBell() {
+  const { user } = useAuth()
+  const { data, isLoading, error } = useNotifications(user?.id)
+  const markRead = useMarkNotificationsRead()
+
+  if (!user) return null
+
+  const notifications = data?.notifications || []
+  const unreadCount = data?.unread_count || 0
+
+  const open = (notification: AppNotification) => {
+    if (!notification.is_read) markRead.mutate([notification.id])
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <button
+          className="relative p-2 rounded-lg text-gray-600 hover:text-gray-900 hover:bg-gray-100 transition-colors focus:outline-none focus:ring-2 focus:ring-primary/20"
+          aria-label={unreadCount > 0 ? `Notifications, ${unreadCount} unread` : 'Notifications'}
+        >
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-500 text-white text-[10px] font-bold flex items-center justify-center">
+              {unreadCount > 99 ? '99+' : unreadCount}
+            </span>
+          )}
+        </button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80 sm:w-96 p-2">
+        <div className="flex items-center justify-between px-3 py-2 border-b border-gray-100 mb-1">
+          <span className="font-semibold text-gray-900">Notifications</span>
+          {unreadCount > 0 && (
+            <button
+              onClick={() => markRead.mutate('all')}
+              className="text-xs font-medium text-primary hover:underline"
+            >
+              Mark all read
+            </button>
+          )}
+        </div>
+
+        <div className="max-h-96 overflow-y-auto">
+          {error ? (
+            <p className="px-3 py-6 text-center text-sm text-red-700">{error.message || 'Failed to load notifications'}</p>
+          ) : isLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+            </div>
+          ) : notifications.length === 0 ? (
+            <div className="px-3 py-8 text-center">
+              <Bell className="w-8 h-8 text-gray-300 mx-auto mb-2" />
+              <p className="text-sm text-gray-600">You&apos;re all caught up</p>
+            </div>
+          ) : (
+            notifications.map(notification => (
+              <NotificationRow key={notification.id} notification={notification} onOpen={() => open(notification)} />
+            ))
+          )}
+        </div>
+
+        <div className="border-t border-gray-100 mt-1 pt-1">
+          <DropdownMenuItem asChild>
+            <Link href="/dashboard/settings" className="block px-3 py-2 text-xs text-gray-500 hover:text-gray-700 rounded-lg">
+              Notification settings
+            </Link>
+          </DropdownMenuItem>
+        </div>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
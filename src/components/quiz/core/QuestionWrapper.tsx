@@ -7,6 +7,7 @@ import { MultipleChoice } from "../questions/MultipleChoice"
 import { TrueFalse } from "../questions/TrueFalse"
 import { FillBlank } from "../questions/FillBlank"
 import { Essay } from "../questions/Essay"
+import { Speaking } from "../questions/Speaking"
 import { MultiSelect } from "../questions/MultiSelect"
 
 // Simple Question Interface
@@ -16,8 +17,11 @@ interface Question {
   options?: string[]
   correct_answer?: any
   explanation?: string
-  question_type: 'multiple_choice' | 'single_choice' | 'true_false' | 'fill_blank' | 'essay'
+  question_type: 'multiple_choice' | 'single_choice' | 'true_false' | 'fill_blank' | 'essay' | 'speaking'
   points?: number
+  image_url?: string | null
+  speaking_settings?: unknown
+  writing_settings?: unknown
 }
 
 interface QuestionWrapperProps {
@@ -98,10 +102,24 @@ export const QuestionWrapper = memo<QuestionWrapperProps>(({
           <Essay
             value={answer}
             onValueChange={onAnswerChange}
+            writingSettings={question.writing_settings}
+            imageUrl={question.image_url}
             {...commonProps}
           />
         )
 
+      case 'speaking':
+        return (
+          <Speaking
+            questionId={question.id}
+            settings={question.speaking_settings}
+            value={answer}
+            onValueChange={onAnswerChange}
+            disabled={disabled}
+            className="mt-4"
+          />
+        )
+
       default:
         return (
           <div className="p-6 text-center text-muted-foreground bg-muted/20 rounded-lg">
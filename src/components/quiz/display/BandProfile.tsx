@@ -0,0 +1,88 @@
+/**
+ * Band Profile Component
+ * Section bands on the 0-9 scale with the overall band, for mock test results
+ */
+
+'use client'
+
+import { SKILL_LABELS } from '@/lib/mock-tests/rules'
+import type { SectionResult, SectionStatus } from '@/lib/mock-tests/types'
+import { IELTS_RAW_MAX, formatBand, getBandBadgeClasses, getBandDescriptor, getBandLevel } from '@/lib/score-utils'
+
+const STATUS_LABELS: Record<SectionStatus, string> = {
+  not_started: 'Not started',
+  in_progress: 'In progress',
+  awaiting_grading: 'Awaiting grading',
+  complete: 'Complete'
+}
+
+const BAR_COLORS = {
+  excellent: 'bg-green-500',
+  good: 'bg-amber-500',
+  'needs-improvement': 'bg-red-500'
+} as const
+
+interface BandProfileProps {
+  sections: SectionResult[]
+  overallBand: number | null
+  compact?: boolean
+}
+
+export function BandProfile({ sections, overallBand, compact = false }: BandProfileProps) {
+  return (
+    <div className={compact ? 'space-y-3' : 'space-y-6'}>
+      {!compact && (
+        <div className="flex items-center gap-4">
+          <div className={`flex flex-col items-center justify-center w-24 h-24 rounded-2xl border ${
+            overallBand !== null ? getBandBadgeClasses(overallBand) : 'bg-gray-50 text-gray-400 border-gray-200'
+          }`}>
+            <span className="text-xs font-medium uppercase tracking-wide">Overall</span>
+            <span className="text-3xl font-bold">{formatBand(overallBand)}</span>
+          </div>
+          <div>
+            {overallBand !== null ? (
+              <>
+                <div className="text-lg font-semibold text-gray-900">{getBandDescriptor(overallBand)}</div>
+                <p className="text-sm text-gray-600">The average of your four section bands, rounded to the nearest half band.</p>
+              </>
+            ) : (
+              <p className="text-sm text-gray-600">Your overall band appears once every section has a band.</p>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className={compact ? 'space-y-2' : 'space-y-4'}>
+        {sections.map(section => (
+          <div key={section.skill}>
+            <div className="flex items-baseline justify-between text-sm mb-1">
+              <span className="font-medium text-gray-900">{SKILL_LABELS[section.skill]}</span>
+              <span className="text-gray-600">
+                {section.band !== null ? (
+                  <>
+                    {section.raw_score !== null && !compact && (
+                      <span className="text-xs text-gray-500 mr-2">{section.raw_score}/{IELTS_RAW_MAX}</span>
+                    )}
+                    <span className="font-semibold text-gray-900">{formatBand(section.band)}</span>
+                  </>
+                ) : section.quiz_count === 0 ? (
+                  <span className="text-xs text-gray-400">Not in this test</span>
+                ) : (
+                  <span className="text-xs">{STATUS_LABELS[section.status]}</span>
+                )}
+              </span>
+            </div>
+            <div className={`w-full bg-gray-100 rounded-full ${compact ? 'h-1.5' : 'h-2.5'}`}>
+              {section.band !== null && (
+                <div
+                  className={`${BAR_COLORS[getBandLevel(section.band)]} rounded-full h-full`}
+                  style={{ width: `${(section.band / 9) * 100}%` }}
+                />
+              )}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
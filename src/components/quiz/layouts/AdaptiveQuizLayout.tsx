@@ -0,0 +1,121 @@
+"use client"
+
+import { QuestionWrapper } from "../core/QuestionWrapper"
+import { Timer } from "../core/Timer"
+import { TimerWarning } from "../core/TimerWarning"
+import { cn } from "@/lib/utils"
+import { ArrowRight, Loader2, Target } from "lucide-react"
+
+interface AdaptiveQuestion {
+  id: string
+  question: string
+  options?: string[]
+  question_type: 'multiple_choice' | 'single_choice' | 'true_false' | 'fill_blank' | 'essay' | 'speaking'
+  points?: number
+}
+
+interface AdaptiveQuizLayoutProps {
+  question: AdaptiveQuestion
+  questionNumber: number
+  minQuestions: number
+  maxQuestions: number
+  answer?: any
+  timeLeft?: number
+  showTimer?: boolean
+  onAnswerChange: (questionId: string, answer: any) => void
+  onConfirm: () => void
+  loadingNext?: boolean
+  submitting?: boolean
+  className?: string
+  quizTitle?: string
+}
+
+/**
+ * One question at a time with no going back: each answer is confirmed before the
+ * server picks the next question, and the test ends when the estimate is precise enough.
+ */
+export function AdaptiveQuizLayout({
+  question,
+  questionNumber,
+  minQuestions,
+  maxQuestions,
+  answer,
+  timeLeft,
+  showTimer = false,
+  onAnswerChange,
+  onConfirm,
+  loadingNext = false,
+  submitting = false,
+  className,
+  quizTitle = "Quiz"
+}: AdaptiveQuizLayoutProps) {
+  const busy = loadingNext || submitting
+  const hasAnswer = answer !== undefined && answer !== null && answer !== '' && !(Array.isArray(answer) && answer.length === 0)
+
+  return (
+    <div className={cn("min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 dark:from-gray-900 dark:via-indigo-950 dark:to-purple-950 relative", className)}>
+      {/* Header */}
+      <div className="bg-white/95 dark:bg-gray-900/95 backdrop-blur-xl border-b border-gray-200/50 dark:border-gray-700/50 sticky top-0 z-30 shadow-sm">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 py-3 flex items-center justify-between gap-3">
+          <div className="min-w-0">
+            <h1 className="text-base sm:text-lg font-bold text-gray-900 dark:text-white truncate">
+              {quizTitle}
+            </h1>
+            <p className="text-xs text-gray-600 dark:text-gray-400 flex items-center gap-1">
+              <Target className="w-3 h-3" />
+              Question {questionNumber} • Adaptive test of {minQuestions === maxQuestions ? maxQuestions : `${minQuestions}–${maxQuestions}`} questions
+            </p>
+          </div>
+
+          {showTimer && (
+            <Timer
+              timeLeft={timeLeft || 0}
+              hasTimeLimit={timeLeft !== undefined && timeLeft !== null && timeLeft > 0}
+            />
+          )}
+        </div>
+      </div>
+
+      {/* Main Content */}
+      <div className="max-w-5xl mx-auto px-4 sm:px-6 py-6 sm:py-10 pb-28">
+        {showTimer && timeLeft !== undefined && (timeLeft === 300 || timeLeft === 60 || timeLeft < 60) && (
+          <TimerWarning timeLeft={timeLeft} />
+        )}
+
+        <div key={question.id} className="animate-in fade-in slide-in-from-bottom-4 duration-500">
+          <QuestionWrapper
+            question={question}
+            answer={answer}
+            onAnswerChange={(value) => onAnswerChange(question.id, value)}
+            questionNumber={questionNumber}
+            disabled={busy}
+          />
+        </div>
+
+        <p className="mt-6 text-sm text-gray-600 dark:text-gray-400 text-center">
+          Answers can&apos;t be changed once confirmed. The next question adapts to how you are doing.
+        </p>
+
+        <div className="mt-6 flex justify-end">
+          <button
+            onClick={onConfirm}
+            disabled={!hasAnswer || busy}
+            className="flex items-center gap-2 px-6 py-3 bg-primary text-white rounded-xl font-semibold hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {busy ? (
+              <>
+                <Loader2 className="w-4 h-4 animate-spin" />
+                {submitting ? 'Finishing...' : 'Loading next question...'}
+              </>
+            ) : (
+              <>
+                Confirm Answer
+                <ArrowRight className="w-4 h-4" />
+              </>
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,402 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { QuestionWrapper } from "../core/QuestionWrapper"
+import { Timer } from "../core/Timer"
+import { Navigation } from "../core/Navigation"
+import { Progress } from "../core/Progress"
+import { cn } from "@/lib/utils"
+import {
+  findActiveGroupIndex,
+  formatTimestamp,
+  getAllowedPlays,
+  type ListeningProgress,
+  type ListeningQuestionGroup,
+  type PublicListeningSettings
+} from "@/lib/listening"
+import { Headphones, Hourglass, Pause, Play } from "lucide-react"
+
+// Simple Question Interface
+interface Question {
+  id: string
+  question: string
+  options?: string[]
+  correct_answer?: any
+  explanation?: string
+  question_type: 'multiple_choice' | 'single_choice' | 'true_false' | 'fill_blank' | 'essay' | 'speaking'
+  points?: number
+}
+
+interface ListeningQuizLayoutProps {
+  questions: Question[]
+  currentQuestionIndex: number
+  answers: Record<string, any>
+  timeLeft?: number
+  showTimer?: boolean
+  onAnswerChange: (questionId: string, answer: any) => void
+  onPrevious: () => void
+  onNext: () => void
+  onSubmit: () => void
+  onQuestionSelect?: (index: number) => void
+  submitting?: boolean
+  className?: string
+  quizTitle?: string
+  // Listening-specific props
+  audioUrl: string
+  settings: PublicListeningSettings
+  progress: ListeningProgress
+  /** A play of the recording has started; plays is the new total */
+  onPlayStarted: (plays: number) => void
+  /** The last play has finished, so transfer time begins */
+  onTransferStart: () => void
+}
+
+interface DisplayGroup extends ListeningQuestionGroup {
+  /** 0-based indexes of the questions in this group */
+  indexes: number[]
+}
+
+/**
+ * Question groups for the side panel. Questions outside every group are listed last,
+ * and a section without groups shows all its questions as one.
+ */
+function buildDisplayGroups(groups: ListeningQuestionGroup[], questionCount: number): DisplayGroup[] {
+  const all = Array.from({ length: questionCount }, (_, index) => index)
+  const display = groups.map(group => ({
+    ...group,
+    indexes: all.filter(index => index + 1 >= group.from_question && index + 1 <= group.to_question)
+  }))
+
+  const grouped = new Set(display.flatMap(group => group.indexes))
+  const rest = all.filter(index => !grouped.has(index))
+  if (rest.length > 0) {
+    display.push({
+      title: display.length > 0 ? "Other questions" : "",
+      start_seconds: 0,
+      from_question: rest[0] + 1,
+      to_question: rest[rest.length - 1] + 1,
+      indexes: rest
+    })
+  }
+
+  return display
+}
+
+export function ListeningQuizLayout({
+  questions,
+  currentQuestionIndex,
+  answers,
+  timeLeft,
+  showTimer = false,
+  onAnswerChange,
+  onPrevious,
+  onNext,
+  onSubmit,
+  onQuestionSelect,
+  submitting = false,
+  className,
+  quizTitle = "Listening",
+  audioUrl,
+  settings,
+  progress,
+  onPlayStarted,
+  onTransferStart
+}: ListeningQuizLayoutProps) {
+  const currentQuestion = questions[currentQuestionIndex]
+  const isLastQuestion = currentQuestionIndex === questions.length - 1
+
+  const audioRef = useRef<HTMLAudioElement>(null)
+  const [playing, setPlaying] = useState(false)
+  // Limited mode can pause partway; resuming doesn't use another play
+  const [paused, setPaused] = useState(false)
+  const [position, setPosition] = useState(0)
+  const [duration, setDuration] = useState(0)
+  const [audioError, setAudioError] = useState<string | null>(null)
+
+  const allowedPlays = getAllowedPlays(settings)
+  const playsLeft = Math.max(0, allowedPlays - progress.plays)
+  const inTransfer = Boolean(progress.transfer_started_at)
+  const finished = playsLeft === 0 && !playing && !paused
+  const canPlay = !submitting && !inTransfer && (paused || (!playing && playsLeft > 0))
+
+  const displayGroups = buildDisplayGroups(settings.question_groups, questions.length)
+  const activeGroup = playing || paused ? findActiveGroupIndex(settings.question_groups, position) : -1
+
+  const isAnswered = (questionId: string) => {
+    const answer = answers[questionId]
+    return answer !== undefined && answer !== null && answer !== '' && !(Array.isArray(answer) && answer.length === 0)
+  }
+
+  const answeredQuestions = new Set(
+    questions.map((question, index) => (isAnswered(question.id) ? index : -1)).filter(index => index !== -1)
+  )
+
+  // Plays already used up when the page loads (a reload during the last play): the recording
+  // isn't given back, so go straight to transfer time
+  useEffect(() => {
+    if (playsLeft === 0 && !inTransfer && settings.transfer_minutes > 0) {
+      onTransferStart()
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [])
+
+  // Stop the recording once the attempt is being submitted
+  useEffect(() => {
+    if (submitting) {
+      audioRef.current?.pause()
+    }
+  }, [submitting])
+
+  const handlePlay = async () => {
+    const audio = audioRef.current
+    if (!audio || !canPlay) return
+
+    setAudioError(null)
+    try {
+      if (paused) {
+        await audio.play()
+        return
+      }
+
+      audio.currentTime = 0
+      await audio.play()
+      onPlayStarted(progress.plays + 1)
+    } catch {
+      setAudioError("The recording couldn't be played. Check your connection and sound settings, then try again.")
+    }
+  }
+
+  const handleEnded = () => {
+    setPlaying(false)
+    setPaused(false)
+    if (playsLeft === 0 && !inTransfer && settings.transfer_minutes > 0) {
+      onTransferStart()
+    }
+  }
+
+  if (!currentQuestion) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-primary/10 to-secondary/10">
+        <div className="p-8 text-center">
+          <p className="text-muted-foreground">No questions available</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className={cn("min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 dark:from-gray-900 dark:via-indigo-950 dark:to-purple-950 relative", className)}>
+      {/* No controls: the recording can't be scrubbed, only played through */}
+      <audio
+        ref={audioRef}
+        src={audioUrl}
+        preload="auto"
+        onLoadedMetadata={(e) => setDuration(e.currentTarget.duration || 0)}
+        onTimeUpdate={(e) => setPosition(e.currentTarget.currentTime)}
+        onPlay={() => {
+          setPlaying(true)
+          setPaused(false)
+        }}
+        onPause={(e) => {
+          setPlaying(false)
+          setPaused(!e.currentTarget.ended)
+        }}
+        onEnded={handleEnded}
+        onError={() => setAudioError("The recording couldn't be loaded.")}
+      />
+
+      {/* Compact Header with Quiz Info */}
+      <div className="bg-white/95 dark:bg-gray-900/95 backdrop-blur-xl border-b border-gray-200/50 dark:border-gray-700/50 sticky top-0 z-30 shadow-sm">
+        <div className="max-w-7xl mx-auto">
+          {/* Top Row: Quiz Title + Timer */}
+          <div className="px-4 sm:px-6 py-3 flex items-center justify-between gap-3 border-b border-gray-100 dark:border-gray-800">
+            <h1 className="text-base sm:text-lg font-bold text-gray-900 dark:text-white truncate">
+              {quizTitle}
+            </h1>
+
+            {showTimer && (
+              <Timer
+                timeLeft={timeLeft || 0}
+                hasTimeLimit={timeLeft !== undefined && timeLeft !== null && timeLeft > 0}
+              />
+            )}
+          </div>
+
+          {/* Bottom Row: Progress Bar */}
+          <div className="px-4 sm:px-6 py-3">
+            <Progress
+              currentQuestion={currentQuestionIndex}
+              totalQuestions={questions.length}
+              answeredQuestions={answeredQuestions}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Transfer time - the recording is over, the remaining time is for completing answers */}
+      {inTransfer && (
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 pt-6">
+          <div className="flex items-start gap-3 p-4 rounded-xl border border-amber-300 bg-amber-50 text-amber-900">
+            <Hourglass className="w-5 h-5 shrink-0 mt-0.5" />
+            <div>
+              <h2 className="font-semibold">Transfer time</h2>
+              <p className="text-sm">
+                The recording has finished. You have {settings.transfer_minutes} minutes to check and complete your answers; the section is submitted when the timer runs out.
+              </p>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Two-panel layout: Player and question groups on left, Question on right */}
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 py-6 sm:py-8">
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 lg:gap-8">
+          {/* Left Panel - Player (sticky on desktop) */}
+          <div className="lg:sticky lg:top-24 h-fit space-y-4">
+            <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-100 dark:border-gray-700 p-5 sm:p-6 space-y-4">
+              <div className="flex items-center gap-3">
+                <div className="w-10 h-10 rounded-xl bg-gradient-to-br from-primary to-secondary flex items-center justify-center flex-shrink-0 shadow-lg">
+                  <Headphones className="h-5 w-5 text-white" />
+                </div>
+                <div className="flex-1">
+                  <h2 className="text-lg font-bold text-gray-900 dark:text-white">Recording</h2>
+                  <p className="text-xs text-gray-600 dark:text-gray-400">
+                    {settings.play_mode === 'single'
+                      ? "You will hear the recording once. It can't be paused or replayed."
+                      : `You can play the recording ${allowedPlays} times and pause it. It can't be rewound.`}
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex items-center gap-3">
+                {playing && settings.play_mode === 'limited' ? (
+                  <button
+                    onClick={() => audioRef.current?.pause()}
+                    className="inline-flex items-center gap-1.5 px-4 py-2 rounded-lg text-sm font-medium bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-50"
+                  >
+                    <Pause className="h-4 w-4" />
+                    Pause
+                  </button>
+                ) : (
+                  <button
+                    onClick={handlePlay}
+                    disabled={!canPlay}
+                    className={cn(
+                      "inline-flex items-center gap-1.5 px-4 py-2 rounded-lg text-sm font-medium transition-all duration-300 shadow-sm",
+                      canPlay
+                        ? "bg-primary text-white hover:shadow-md"
+                        : "bg-gray-100 dark:bg-gray-700 text-gray-500 cursor-not-allowed"
+                    )}
+                  >
+                    <Play className="h-4 w-4" />
+                    {playing ? 'Playing...' : paused ? 'Resume' : finished ? 'Recording finished' : progress.plays > 0 ? 'Play again' : 'Play recording'}
+                  </button>
+                )}
+                <span className="text-xs text-gray-600 dark:text-gray-400">
+                  {playsLeft} of {allowedPlays} {allowedPlays === 1 ? 'play' : 'plays'} left
+                </span>
+              </div>
+
+              {/* Position in the recording, with a marker where each question group starts */}
+              <div>
+                <div className="relative w-full h-2 bg-gray-100 dark:bg-gray-700 rounded-full">
+                  <div
+                    className="absolute inset-y-0 left-0 bg-primary rounded-full"
+                    style={{ width: duration > 0 ? `${Math.min(100, (position / duration) * 100)}%` : '0%' }}
+                  />
+                  {duration > 0 && settings.question_groups.map((group, index) => (
+                    <div
+                      key={index}
+                      className="absolute -top-0.5 h-3 w-0.5 bg-gray-400"
+                      style={{ left: `${Math.min(100, (group.start_seconds / duration) * 100)}%` }}
+                    />
+                  ))}
+                </div>
+                <div className="flex justify-between text-xs text-gray-500 mt-1">
+                  <span>{formatTimestamp(position)}</span>
+                  <span>{duration > 0 ? formatTimestamp(duration) : '--:--'}</span>
+                </div>
+              </div>
+
+              {audioError && (
+                <p className="text-sm text-red-600">{audioError}</p>
+              )}
+            </div>
+
+            {/* Question groups, highlighted as the recording reaches them */}
+            <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-100 dark:border-gray-700 p-4 space-y-3">
+              {displayGroups.map((group, groupIndex) => {
+                const active = groupIndex === activeGroup
+                return (
+                  <div
+                    key={groupIndex}
+                    className={cn(
+                      "rounded-xl border p-3 transition-colors",
+                      active ? "border-primary bg-primary/5" : "border-gray-200 dark:border-gray-700"
+                    )}
+                  >
+                    <div className="flex items-center justify-between gap-2 mb-2">
+                      <span className={cn("text-sm font-semibold", active ? "text-primary" : "text-gray-900 dark:text-white")}>
+                        {group.title || `Questions ${group.from_question}-${group.to_question}`}
+                      </span>
+                      {active && <span className="text-xs font-medium text-primary">Now playing</span>}
+                    </div>
+                    <div className="flex flex-wrap gap-1.5">
+                      {group.indexes.map(index => (
+                        <button
+                          key={questions[index].id}
+                          onClick={() => onQuestionSelect?.(index)}
+                          className={cn(
+                            "w-8 h-8 rounded-lg text-xs font-medium border transition-colors",
+                            index === currentQuestionIndex
+                              ? "bg-primary text-white border-primary"
+                              : isAnswered(questions[index].id)
+                              ? "bg-green-50 text-green-700 border-green-300"
+                              : "bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-300 border-gray-200 dark:border-gray-700"
+                          )}
+                        >
+                          {index + 1}
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )
+              })}
+            </div>
+          </div>
+
+          {/* Right Panel - Question */}
+          <div className="space-y-6">
+            <div className="animate-in fade-in slide-in-from-right-4 duration-500">
+              <QuestionWrapper
+                question={currentQuestion}
+                answer={answers[currentQuestion.id]}
+                onAnswerChange={(answer) => onAnswerChange(currentQuestion.id, answer)}
+                questionNumber={currentQuestionIndex + 1}
+                disabled={submitting}
+              />
+            </div>
+
+            {/* Navigation - Sticky on mobile */}
+            <div className="mt-8 sm:mt-10 fixed bottom-0 left-0 right-0 bg-gradient-to-t from-white via-white dark:from-gray-900 dark:via-gray-900 to-transparent pt-6 pb-6 px-4 sm:px-6 lg:relative lg:bg-none lg:pt-0 lg:pb-0 lg:px-0 border-t lg:border-t-0 border-gray-200/50 dark:border-gray-700/50 z-20">
+              <div className="max-w-3xl mx-auto">
+                <Navigation
+                  onPrevious={onPrevious}
+                  onNext={onNext}
+                  onSubmit={onSubmit}
+                  canGoPrevious={currentQuestionIndex > 0}
+                  canGoNext={currentQuestionIndex < questions.length - 1}
+                  isLastQuestion={isLastQuestion}
+                  submitting={submitting}
+                />
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+
+      {/* Add bottom padding to prevent content being hidden behind sticky navigation on mobile */}
+      <div className="h-24 lg:hidden"></div>
+    </div>
+  )
+}
@@ -16,7 +16,7 @@ interface Question {
   options?: string[]
   correct_answer?: any
   explanation?: string
-  question_type: 'multiple_choice' | 'single_choice' | 'true_false' | 'fill_blank' | 'essay'
+  question_type: 'multiple_choice' | 'single_choice' | 'true_false' | 'fill_blank' | 'essay' | 'speaking'
   points?: number
 }
 
@@ -1,7 +1,14 @@
 "use client"
 
+import { AlertTriangle } from "lucide-react"
 import { Textarea } from "@/components/ui/textarea"
 import { cn } from "@/lib/utils"
+import {
+  WRITING_TASK_DEFAULTS,
+  countWords,
+  getLengthWarning,
+  normalizeWritingSettings
+} from "@/lib/writing"
 
 interface EssayProps {
   value?: string
@@ -10,6 +17,10 @@ interface EssayProps {
   placeholder?: string
   rows?: number
   className?: string
+  /** IELTS Writing Task 1/2 settings; plain essays leave this out */
+  writingSettings?: unknown
+  /** Task 1 chart or diagram */
+  imageUrl?: string | null
 }
 
 export function Essay({
@@ -18,8 +29,72 @@ export function Essay({
   disabled = false,
   placeholder = "Enter your detailed answer here...",
   rows = 6,
-  className
+  className,
+  writingSettings,
+  imageUrl
 }: EssayProps) {
+  const writing = normalizeWritingSettings(writingSettings)
+
+  if (writing) {
+    const task = WRITING_TASK_DEFAULTS[writing.task]
+    const wordCount = countWords(value)
+    const lengthWarning = getLengthWarning(wordCount, writing)
+    const chartUrl = writing.task === 1 ? imageUrl : null
+
+    return (
+      <div className={cn("space-y-4", className)}>
+        <div className="flex flex-wrap items-center justify-between gap-2 text-xs sm:text-sm text-muted-foreground">
+          <span className="font-medium text-foreground">{task.label}</span>
+          <span>
+            Spend about {task.suggested_minutes} minutes • at least {writing.min_words} words
+          </span>
+        </div>
+
+        <div className={cn("grid gap-4", chartUrl && "lg:grid-cols-2")}>
+          {chartUrl && (
+            <div className="p-3 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg">
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={chartUrl}
+                alt="Task 1 chart"
+                className="w-full h-auto max-h-[28rem] object-contain"
+              />
+            </div>
+          )}
+
+          <div className="p-3 sm:p-4 bg-muted/20 rounded-lg">
+            <Textarea
+              value={value || ''}
+              onChange={(e) => onValueChange(e.target.value)}
+              placeholder="Write your answer here..."
+              disabled={disabled}
+              rows={writing.task === 1 ? 12 : 16}
+              spellCheck={false}
+              className="text-sm sm:text-base resize-y min-h-[240px]"
+            />
+            <div className="flex justify-between items-center mt-2 text-xs">
+              <span className={cn(
+                "font-medium",
+                wordCount >= writing.min_words ? "text-green-700 dark:text-green-400" : "text-muted-foreground"
+              )}>
+                {wordCount} / {writing.min_words} words
+              </span>
+              {writing.max_words > 0 && (
+                <span className="text-muted-foreground">Limit {writing.max_words} words</span>
+              )}
+            </div>
+            {lengthWarning && wordCount > 0 && (
+              <p className="flex items-start gap-2 mt-2 text-xs sm:text-sm text-amber-700 dark:text-amber-400">
+                <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+                {lengthWarning}
+              </p>
+            )}
+          </div>
+        </div>
+      </div>
+    )
+  }
+
   return (
     <div className={cn("space-y-4", className)}>
       <div className="p-3 sm:p-4 bg-muted/20 rounded-lg">
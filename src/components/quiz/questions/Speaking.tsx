@@ -0,0 +1,267 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Loader2, Mic, Square, RotateCcw } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { cn } from "@/lib/utils"
+import { useAuth } from "@/contexts/AuthContext"
+import { getSpeakingRecordingUrl, uploadSpeakingRecording } from "@/lib/storage"
+import { formatTimestamp } from "@/lib/listening"
+import {
+  SPEAKING_PART_DEFAULTS,
+  getSpeakingAnswer,
+  normalizeSpeakingSettings,
+  pickRecordingMimeType,
+  type SpeakingAnswer
+} from "@/lib/speaking"
+
+type RecorderPhase = 'idle' | 'preparing' | 'recording' | 'uploading' | 'failed'
+
+interface SpeakingProps {
+  questionId: string
+  settings?: unknown
+  value?: unknown
+  onValueChange: (value: SpeakingAnswer) => void
+  disabled?: boolean
+  className?: string
+}
+
+/**
+ * Records a spoken answer with MediaRecorder. Part 2 cue cards count down the
+ * preparation time first; recording stops at the speaking time and is uploaded
+ * straight away. Like the exam, each question is answered in one take.
+ */
+export function Speaking({
+  questionId,
+  settings: rawSettings,
+  value,
+  onValueChange,
+  disabled = false,
+  className
+}: SpeakingProps) {
+  const { user } = useAuth()
+  const settings = normalizeSpeakingSettings(rawSettings)
+  const answer = getSpeakingAnswer(value, user?.id)
+  const recordingPath = answer?.recording_path
+
+  const [phase, setPhase] = useState<RecorderPhase>('idle')
+  const [secondsLeft, setSecondsLeft] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+  const [playbackUrl, setPlaybackUrl] = useState<string | null>(null)
+
+  const streamRef = useRef<MediaStream | null>(null)
+  const recorderRef = useRef<MediaRecorder | null>(null)
+  const chunksRef = useRef<Blob[]>([])
+  const startedAtRef = useRef(0)
+  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null)
+  const pendingRef = useRef<{ blob: Blob; duration: number } | null>(null)
+
+  const clearTimer = () => {
+    if (timerRef.current) clearInterval(timerRef.current)
+    timerRef.current = null
+  }
+
+  const releaseMicrophone = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop())
+    streamRef.current = null
+  }
+
+  // Count down to deadline, then call onDone once
+  const startCountdown = (seconds: number, onDone: () => void) => {
+    clearTimer()
+    const deadline = Date.now() + seconds * 1000
+    setSecondsLeft(seconds)
+    timerRef.current = setInterval(() => {
+      const left = Math.max(0, Math.ceil((deadline - Date.now()) / 1000))
+      setSecondsLeft(left)
+      if (left === 0) {
+        clearTimer()
+        onDone()
+      }
+    }, 250)
+  }
+
+  const upload = async () => {
+    const pending = pendingRef.current
+    if (!pending || !user) return
+
+    setError(null)
+    setPhase('uploading')
+    const result = await uploadSpeakingRecording(pending.blob, questionId, user.id)
+    if (result.path) {
+      pendingRef.current = null
+      setPhase('idle')
+      onValueChange({ recording_path: result.path, duration_seconds: pending.duration })
+    } else {
+      setError(result.error || 'Failed to upload the recording')
+      setPhase('failed')
+    }
+  }
+
+  const stopRecording = () => {
+    clearTimer()
+    if (recorderRef.current?.state === 'recording') recorderRef.current.stop()
+  }
+
+  const startRecording = () => {
+    const stream = streamRef.current
+    if (!stream) return
+
+    const mimeType = pickRecordingMimeType(type => MediaRecorder.isTypeSupported(type))
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined)
+    chunksRef.current = []
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) chunksRef.current.push(event.data)
+    }
+    recorder.onstop = () => {
+      releaseMicrophone()
+      const duration = Math.min(settings.response_seconds, Math.round((Date.now() - startedAtRef.current) / 1000))
+      pendingRef.current = { blob: new Blob(chunksRef.current, { type: recorder.mimeType || mimeType }), duration }
+      upload()
+    }
+
+    recorderRef.current = recorder
+    startedAtRef.current = Date.now()
+    recorder.start()
+    setPhase('recording')
+    startCountdown(settings.response_seconds, stopRecording)
+  }
+
+  const handleStart = async () => {
+    setError(null)
+    if (typeof MediaRecorder === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+      setError('This browser cannot record audio. Try the latest Chrome, Edge, Firefox or Safari.')
+      return
+    }
+
+    // Ask for the microphone before preparation starts so the prompt doesn't use up prep time
+    try {
+      streamRef.current = await navigator.mediaDevices.getUserMedia({ audio: true })
+    } catch {
+      setError('Microphone access was blocked. Allow it in your browser settings to record your answer.')
+      return
+    }
+
+    if (settings.prep_seconds > 0) {
+      setPhase('preparing')
+      startCountdown(settings.prep_seconds, startRecording)
+    } else {
+      startRecording()
+    }
+  }
+
+  // The bucket is private, so playback goes through a signed URL
+  useEffect(() => {
+    if (!recordingPath) return
+    let cancelled = false
+    getSpeakingRecordingUrl(recordingPath).then(url => {
+      if (!cancelled) setPlaybackUrl(url)
+    })
+    return () => { cancelled = true }
+  }, [recordingPath])
+
+  // Leaving the question mid-answer keeps what was recorded so far
+  useEffect(() => () => {
+    clearTimer()
+    if (recorderRef.current?.state === 'recording') {
+      recorderRef.current.stop()
+    } else {
+      releaseMicrophone()
+    }
+  }, [])
+
+  const partLabel = SPEAKING_PART_DEFAULTS[settings.part].label
+  const showCueCard = settings.part === 2 && settings.cue_card_points.length > 0 && (phase === 'preparing' || phase === 'recording')
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      <div className="p-3 sm:p-4 bg-muted/20 rounded-lg space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-2 text-xs sm:text-sm text-muted-foreground">
+          <span className="font-medium text-foreground">{partLabel}</span>
+          <span>
+            {settings.prep_seconds > 0 && `${formatTimestamp(settings.prep_seconds)} to prepare • `}
+            up to {formatTimestamp(settings.response_seconds)} to speak
+          </span>
+        </div>
+
+        {showCueCard && (
+          <div className="p-4 bg-white dark:bg-gray-900 border-2 border-dashed border-gray-300 rounded-lg">
+            <p className="text-sm font-medium mb-2">You should say:</p>
+            <ul className="list-disc pl-5 space-y-1 text-sm">
+              {settings.cue_card_points.map((point, index) => (
+                <li key={index}>{point}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {answer ? (
+          <div className="space-y-2">
+            <p className="text-sm text-green-700 dark:text-green-400">
+              Answer recorded ({formatTimestamp(answer.duration_seconds)})
+            </p>
+            {playbackUrl && <audio controls preload="metadata" src={playbackUrl} className="w-full" />}
+          </div>
+        ) : phase === 'preparing' ? (
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <div>
+              <p className="text-sm text-muted-foreground">Preparation time</p>
+              <p className="text-3xl font-bold tabular-nums">{formatTimestamp(secondsLeft)}</p>
+              <p className="text-xs text-muted-foreground">Recording starts automatically when it runs out</p>
+            </div>
+            <Button type="button" variant="outline" onClick={() => { clearTimer(); startRecording() }}>
+              <Mic className="w-4 h-4 mr-2" />
+              Start speaking now
+            </Button>
+          </div>
+        ) : phase === 'recording' ? (
+          <div className="space-y-3">
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <div className="flex items-center gap-3">
+                <span className="w-3 h-3 rounded-full bg-red-600 animate-pulse" aria-hidden="true" />
+                <div>
+                  <p className="text-sm text-muted-foreground">Recording, time left</p>
+                  <p className="text-3xl font-bold tabular-nums">{formatTimestamp(secondsLeft)}</p>
+                </div>
+              </div>
+              <Button type="button" variant="outline" onClick={stopRecording}>
+                <Square className="w-4 h-4 mr-2" />
+                Finish answer
+              </Button>
+            </div>
+            <div className="h-1.5 bg-muted rounded-full overflow-hidden">
+              <div
+                className="h-full bg-red-600 transition-all"
+                style={{ width: `${(1 - secondsLeft / settings.response_seconds) * 100}%` }}
+              />
+            </div>
+          </div>
+        ) : phase === 'uploading' ? (
+          <p className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="w-4 h-4 animate-spin" />
+            Saving your recording...
+          </p>
+        ) : phase === 'failed' ? (
+          <Button type="button" variant="outline" onClick={upload}>
+            <RotateCcw className="w-4 h-4 mr-2" />
+            Try saving again
+          </Button>
+        ) : (
+          <div className="space-y-2">
+            <Button type="button" onClick={handleStart} disabled={disabled || !user}>
+              <Mic className="w-4 h-4 mr-2" />
+              {settings.prep_seconds > 0 ? 'Start preparation' : 'Start recording'}
+            </Button>
+            <p className="text-xs text-muted-foreground">
+              You can record your answer once. Recording stops when the time is up.
+            </p>
+          </div>
+        )}
+
+        {error && (
+          <p className="text-sm text-red-600">{error}</p>
+        )}
+      </div>
+    </div>
+  )
+}
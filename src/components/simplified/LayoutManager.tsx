@@ -28,6 +28,8 @@ function LoadingScreen({ message = 'Loading...' }: { message?: string }) {
 function getLayoutType(pathname: string) {
   if (pathname.startsWith('/admin')) return 'admin'
   if (pathname.startsWith('/dashboard')) return 'dashboard'
+  // Student pages rendered inside DashboardLayout
+  if (pathname.startsWith('/learning-paths') || pathname.startsWith('/leaderboards')) return 'dashboard'
   if (pathname.startsWith('/auth')) return 'auth'
   if (pathname.includes('/study') || pathname.includes('/take')) return 'fullscreen'
   return 'public'
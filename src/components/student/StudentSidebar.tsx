@@ -7,9 +7,14 @@ import {
   Brain,
   TrendingUp,
   Settings,
-  GraduationCap
+  GraduationCap,
+  Route,
+  Trophy,
+  Presentation,
+  ClipboardCheck
 } from 'lucide-react'
 import { BaseSidebar } from '@/components/layout/BaseSidebar'
+import { useRole } from '@/hooks/useRole'
 import { ProfileModal } from './ProfileModal'
 
 // Modern navigation items with icons
@@ -17,19 +22,25 @@ const navigationItems = [
   { title: 'Dashboard', href: '/dashboard', icon: LayoutDashboard },
   { title: 'My Courses', href: '/dashboard/my-courses', icon: BookOpen },
   { title: 'My Quizzes', href: '/dashboard/my-quizzes', icon: Brain },
+  { title: 'Learning Paths', href: '/learning-paths', icon: Route },
+  { title: 'Mock Tests', href: '/mock-tests', icon: ClipboardCheck },
+  { title: 'Leaderboards', href: '/leaderboards', icon: Trophy },
   { title: 'Progress', href: '/dashboard/progress', icon: TrendingUp },
   { title: 'Settings', href: '/dashboard/settings', icon: Settings }
 ]
 
+const teachingItem = { title: 'Teaching', href: '/admin/courses', icon: Presentation }
+
 export function StudentSidebar({ onMobileClose }: { onMobileClose?: () => void }) {
   const [isProfileModalOpen, setIsProfileModalOpen] = useState(false)
+  const { isInstructor } = useRole()
 
   return (
     <>
       <BaseSidebar
         title="Acadex"
         subtitle="Student Portal"
-        navigationItems={navigationItems}
+        navigationItems={isInstructor ? [...navigationItems, teachingItem] : navigationItems}
         theme="gradient"
         headerIcon={<GraduationCap className="w-6 h-6 text-white" />}
         showUserProfile
@@ -4,15 +4,35 @@ import React, { Suspense } from 'react'
 import { Loader2 } from 'lucide-react'
 import { QuestionData, QuestionRendererProps } from '@/types/question-types'
 
-// Lazy load only the question type renderers that exist
+// Lazy load question type renderers
 const MultipleChoiceRenderer = React.lazy(() => 
   import('./question-types/MultipleChoiceRenderer').then(m => ({ default: m.MultipleChoiceRenderer }))
 )
 
+const SingleChoiceRenderer = React.lazy(() => 
+  import('./question-types/SingleChoiceRenderer').then(m => ({ default: m.SingleChoiceRenderer }))
+)
+
 const TrueFalseRenderer = React.lazy(() => 
   import('./question-types/TrueFalseRenderer').then(m => ({ default: m.TrueFalseRenderer }))
 )
 
+const FillBlankRenderer = React.lazy(() => 
+  import('./question-types/FillBlankRenderer').then(m => ({ default: m.FillBlankRenderer }))
+)
+
+const EssayRenderer = React.lazy(() => 
+  import('./question-types/EssayRenderer').then(m => ({ default: m.EssayRenderer }))
+)
+
+const MatchingRenderer = React.lazy(() => 
+  import('./question-types/MatchingRenderer').then(m => ({ default: m.MatchingRenderer }))
+)
+
+const OrderingRenderer = React.lazy(() => 
+  import('./question-types/OrderingRenderer').then(m => ({ default: m.OrderingRenderer }))
+)
+
 interface QuestionRendererFactoryProps {
   question: QuestionData
   userAnswer?: any
@@ -37,24 +57,23 @@ export function QuestionRendererFactory({ question, ...props }: QuestionRenderer
       case 'multiple_choice':
         return <MultipleChoiceRenderer question={question} {...props} />
       
+      case 'single_choice':
+        return <SingleChoiceRenderer question={question} {...props} />
+      
       case 'true_false':
         return <TrueFalseRenderer question={question} {...props} />
       
-      case 'single_choice':
       case 'fill_blank':
+        return <FillBlankRenderer question={question} {...props} />
+      
       case 'essay':
+        return <EssayRenderer question={question} {...props} />
+      
       case 'matching':
+        return <MatchingRenderer question={question} {...props} />
+      
       case 'ordering':
-        return (
-          <div className="p-6 border rounded-lg bg-yellow-50 border-yellow-200">
-            <p className="text-yellow-800 font-medium">
-              Question type &ldquo;{question.question_type}&rdquo; renderer is coming soon!
-            </p>
-            <p className="text-yellow-600 text-sm mt-1">
-              This question type is supported but the student interface is still in development.
-            </p>
-          </div>
-        )
+        return <OrderingRenderer question={question} {...props} />
       
       default:
         return (
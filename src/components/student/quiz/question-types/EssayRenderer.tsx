@@ -0,0 +1,108 @@
+'use client'
+
+import React, { memo, useCallback } from 'react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Textarea } from '@/components/ui/textarea'
+import { cn } from '@/lib/utils'
+import { EssayData, QuestionRendererProps } from '@/types/question-types'
+import {
+  QuestionPrompt,
+  QuestionInstructions,
+  QuestionFooter,
+  QuestionExplanation,
+  CorrectAnswerOverlay
+} from './RendererParts'
+
+interface EssayRendererProps extends QuestionRendererProps<EssayData> {}
+
+function countWords(text: string): number {
+  const trimmed = text.trim()
+  return trimmed ? trimmed.split(/\s+/).length : 0
+}
+
+export const EssayRenderer = memo<EssayRendererProps>(({
+  question,
+  userAnswer,
+  onAnswerChange,
+  isSubmitted,
+  showCorrectAnswer,
+  isReview
+}) => {
+  const locked = isSubmitted && !isReview
+  const text = typeof userAnswer === 'string' ? userAnswer : ''
+  const wordCount = countWords(text)
+  const underMin = question.min_words !== undefined && wordCount > 0 && wordCount < question.min_words
+  const overMax = question.max_words !== undefined && wordCount > question.max_words
+
+  const handleChange = useCallback((value: string) => {
+    if (locked) return
+    onAnswerChange(value)
+  }, [locked, onAnswerChange])
+
+  const rubric = question.rubric_criteria || []
+
+  return (
+    <Card className="w-full">
+      <CardContent className="p-6 space-y-6">
+        <QuestionPrompt question={question} />
+
+        <QuestionInstructions>
+          Write your answer
+          {question.min_words && question.max_words
+            ? ` (${question.min_words}–${question.max_words} words)`
+            : question.min_words
+              ? ` (at least ${question.min_words} words)`
+              : question.max_words
+                ? ` (up to ${question.max_words} words)`
+                : ''}
+          :
+        </QuestionInstructions>
+
+        <div>
+          <Textarea
+            value={text}
+            onChange={(e) => handleChange(e.target.value)}
+            disabled={locked}
+            readOnly={showCorrectAnswer}
+            rows={10}
+            placeholder="Enter your detailed answer here..."
+            aria-label="Your essay"
+            className="text-sm sm:text-base min-h-[200px]"
+          />
+          <div className="flex justify-between items-center mt-2 text-xs">
+            <span className={cn('text-muted-foreground', (underMin || overMax) && 'text-amber-700 font-medium')}>
+              {wordCount} {wordCount === 1 ? 'word' : 'words'}
+            </span>
+            {underMin && <span className="text-amber-700">Below the {question.min_words}-word minimum</span>}
+            {overMax && <span className="text-amber-700">Over the {question.max_words}-word limit</span>}
+          </div>
+        </div>
+
+        {/* Essays are never auto-graded; show what the grader will assess */}
+        <CorrectAnswerOverlay show={showCorrectAnswer} title="Awaiting instructor grading">
+          {rubric.length > 0 ? (
+            <ul className="space-y-1">
+              {rubric.map(criterion => (
+                <li key={criterion.id} className="flex justify-between gap-4">
+                  <span>
+                    <span className="font-medium">{criterion.criterion}</span>
+                    {criterion.description && <span className="text-gray-600"> — {criterion.description}</span>}
+                  </span>
+                  <span className="shrink-0 text-gray-600">{criterion.max_points} pts</span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <span>Your answer will be reviewed and scored by an instructor.</span>
+          )}
+        </CorrectAnswerOverlay>
+
+        <QuestionFooter question={question} />
+
+        <QuestionExplanation question={question} show={showCorrectAnswer} />
+      </CardContent>
+    </Card>
+  )
+})
+
+EssayRenderer.displayName = 'EssayRenderer'
@@ -0,0 +1,139 @@
+'use client'
+
+import React, { memo, useCallback, useMemo } from 'react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { cn } from '@/lib/utils'
+import { FillBlankData, QuestionRendererProps } from '@/types/question-types'
+import {
+  QuestionPrompt,
+  QuestionInstructions,
+  QuestionFooter,
+  QuestionExplanation,
+  CorrectAnswerOverlay
+} from './RendererParts'
+
+interface FillBlankRendererProps extends QuestionRendererProps<FillBlankData> {}
+
+// Same markers the server grader recognises
+const BLANK_SPLIT = /\[BLANK\]|_{3,}/i
+
+function normalize(value: string, caseSensitive: boolean) {
+  const text = value.trim().replace(/\s+/g, ' ')
+  return caseSensitive ? text : text.toLowerCase()
+}
+
+/**
+ * Answer shape: a string for one blank, an array of strings (one per blank) for several
+ */
+export const FillBlankRenderer = memo<FillBlankRendererProps>(({
+  question,
+  userAnswer,
+  onAnswerChange,
+  isSubmitted,
+  showCorrectAnswer,
+  isReview
+}) => {
+  const locked = isSubmitted && !isReview
+  const segments = useMemo(() => question.text_with_blanks.split(BLANK_SPLIT), [question.text_with_blanks])
+  const blankCount = Math.max(1, segments.length - 1)
+  const hasInlineBlanks = segments.length > 1
+
+  const responses: string[] = useMemo(() => {
+    if (Array.isArray(userAnswer)) return userAnswer.map(value => String(value ?? ''))
+    if (typeof userAnswer === 'string') return [userAnswer]
+    return []
+  }, [userAnswer])
+
+  // One accepted answer per blank when there are several blanks; any accepted answer otherwise
+  const acceptedFor = useCallback((blankIndex: number): string[] => {
+    if (blankCount > 1) {
+      const answer = question.correct_answers[blankIndex]
+      return answer !== undefined ? [answer] : []
+    }
+    return question.correct_answers
+  }, [blankCount, question.correct_answers])
+
+  const isBlankCorrect = useCallback((blankIndex: number) => {
+    const response = normalize(responses[blankIndex] || '', question.case_sensitive)
+    return response.length > 0 &&
+      acceptedFor(blankIndex).some(answer => normalize(answer, question.case_sensitive) === response)
+  }, [responses, acceptedFor, question.case_sensitive])
+
+  const handleChange = useCallback((blankIndex: number, value: string) => {
+    if (locked) return
+    if (blankCount === 1) {
+      onAnswerChange(value)
+      return
+    }
+    const next = Array.from({ length: blankCount }, (_, index) => responses[index] || '')
+    next[blankIndex] = value
+    onAnswerChange(next)
+  }, [locked, blankCount, responses, onAnswerChange])
+
+  const renderInput = (blankIndex: number, inline: boolean) => (
+    <Input
+      key={`blank-${blankIndex}`}
+      type="text"
+      value={responses[blankIndex] || ''}
+      onChange={(e) => handleChange(blankIndex, e.target.value)}
+      disabled={locked}
+      aria-label={blankCount > 1 ? `Blank ${blankIndex + 1}` : 'Your answer'}
+      placeholder={inline ? `(${blankIndex + 1})` : 'Enter your answer...'}
+      className={cn(
+        inline ? 'inline-flex w-36 h-9 mx-1 align-baseline' : 'text-sm sm:text-base h-10 sm:h-11',
+        showCorrectAnswer && isBlankCorrect(blankIndex) && 'border-green-500 bg-green-50',
+        showCorrectAnswer && !isBlankCorrect(blankIndex) && 'border-red-500 bg-red-50'
+      )}
+    />
+  )
+
+  const allCorrect = Array.from({ length: blankCount }, (_, index) => isBlankCorrect(index)).every(Boolean)
+
+  return (
+    <Card className="w-full">
+      <CardContent className="p-6 space-y-6">
+        {hasInlineBlanks ? (
+          <QuestionPrompt question={question}>
+            <p className="text-lg font-medium text-gray-900 leading-loose">
+              {segments.map((segment, index) => (
+                <React.Fragment key={index}>
+                  {segment}
+                  {index < segments.length - 1 && renderInput(index, true)}
+                </React.Fragment>
+              ))}
+            </p>
+          </QuestionPrompt>
+        ) : (
+          <>
+            <QuestionPrompt question={question} />
+            <QuestionInstructions>Fill in the blank:</QuestionInstructions>
+            {renderInput(0, false)}
+          </>
+        )}
+
+        <CorrectAnswerOverlay
+          show={showCorrectAnswer}
+          isCorrect={allCorrect}
+          title={blankCount > 1 ? 'Correct answers' : 'Correct answer'}
+        >
+          {blankCount > 1 ? (
+            <ol className="list-decimal list-inside space-y-1">
+              {Array.from({ length: blankCount }, (_, index) => (
+                <li key={index}>{acceptedFor(index).join(' / ') || 'Not available'}</li>
+              ))}
+            </ol>
+          ) : (
+            <span>{question.correct_answers.join(' / ') || 'Not available'}</span>
+          )}
+        </CorrectAnswerOverlay>
+
+        <QuestionFooter question={question} />
+
+        <QuestionExplanation question={question} show={showCorrectAnswer} />
+      </CardContent>
+    </Card>
+  )
+})
+
+FillBlankRenderer.displayName = 'FillBlankRenderer'
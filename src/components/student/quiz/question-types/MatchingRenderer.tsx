@@ -0,0 +1,130 @@
+'use client'
+
+import React, { memo, useCallback, useMemo } from 'react'
+import { Card, CardContent } from '@/components/ui/card'
+import { CheckCircle, XCircle, ArrowRight } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { MatchingData, QuestionRendererProps } from '@/types/question-types'
+import { SeededRandom, shuffleArray, generateQuestionSeed } from '@/utils/questionRandomization'
+import {
+  QuestionPrompt,
+  QuestionInstructions,
+  QuestionFooter,
+  QuestionExplanation,
+  CorrectAnswerOverlay
+} from './RendererParts'
+
+interface MatchingRendererProps extends QuestionRendererProps<MatchingData> {}
+
+/**
+ * Answer shape: { [leftColumnIndex]: rightColumnIndex }, the format the server grader accepts
+ */
+export const MatchingRenderer = memo<MatchingRendererProps>(({
+  question,
+  userAnswer,
+  onAnswerChange,
+  isSubmitted,
+  showCorrectAnswer,
+  isReview
+}) => {
+  const locked = isSubmitted && !isReview
+  const answer = useMemo<Record<string, number>>(() => {
+    if (!userAnswer || typeof userAnswer !== 'object' || Array.isArray(userAnswer)) return {}
+    return Object.fromEntries(Object.entries(userAnswer).map(([left, right]) => [left, Number(right)]))
+  }, [userAnswer])
+
+  // Stable per question so the right column doesn't reorder between renders
+  const rightOrder = useMemo(() => {
+    const indexes = question.right_column.map((_, index) => index)
+    if (!question.randomize_options) return indexes
+    return shuffleArray(indexes, new SeededRandom(generateQuestionSeed('matching', question.id)))
+  }, [question.right_column, question.randomize_options, question.id])
+
+  const correctRightFor = useCallback((leftIndex: number): number => {
+    const leftId = question.left_column[leftIndex]?.id
+    const pair = question.correct_pairs.find(p => p.left_id === leftId)
+    return pair ? question.right_column.findIndex(item => item.id === pair.right_id) : -1
+  }, [question.left_column, question.right_column, question.correct_pairs])
+
+  const handleSelect = useCallback((leftIndex: number, value: string) => {
+    if (locked) return
+    const next = { ...answer }
+    if (value === '') {
+      delete next[leftIndex]
+    } else {
+      next[leftIndex] = Number(value)
+    }
+    onAnswerChange(next)
+  }, [locked, answer, onAnswerChange])
+
+  const allCorrect = question.left_column.every((_, index) => answer[index] === correctRightFor(index))
+
+  return (
+    <Card className="w-full">
+      <CardContent className="p-6 space-y-6">
+        <QuestionPrompt question={question} />
+
+        <QuestionInstructions>Match each item on the left with one on the right:</QuestionInstructions>
+
+        <div className="space-y-3">
+          {question.left_column.map((leftItem, leftIndex) => {
+            const selected = answer[leftIndex]
+            const isCorrect = selected === correctRightFor(leftIndex)
+
+            return (
+              <div
+                key={leftItem.id}
+                className={cn(
+                  'flex flex-col sm:flex-row sm:items-center gap-3 p-3 rounded-lg border-2',
+                  showCorrectAnswer
+                    ? isCorrect ? 'border-green-400 bg-green-50' : 'border-red-400 bg-red-50'
+                    : 'border-gray-200 bg-white'
+                )}
+              >
+                <div className="flex-1 font-medium text-gray-900">{leftItem.content}</div>
+                <ArrowRight className="hidden sm:block w-4 h-4 text-gray-400 shrink-0" />
+                <select
+                  value={selected !== undefined ? String(selected) : ''}
+                  onChange={(e) => handleSelect(leftIndex, e.target.value)}
+                  disabled={locked}
+                  aria-label={`Match for ${leftItem.content}`}
+                  className="flex-1 h-10 rounded-md border border-gray-300 bg-white px-3 text-sm focus:outline-none focus:ring-2 focus:ring-primary disabled:opacity-60"
+                >
+                  <option value="">Select a match...</option>
+                  {rightOrder.map(rightIndex => (
+                    <option key={question.right_column[rightIndex].id} value={rightIndex}>
+                      {question.right_column[rightIndex].content}
+                    </option>
+                  ))}
+                </select>
+                {showCorrectAnswer && (
+                  isCorrect
+                    ? <CheckCircle className="w-5 h-5 text-green-600 shrink-0" />
+                    : <XCircle className="w-5 h-5 text-red-600 shrink-0" />
+                )}
+              </div>
+            )
+          })}
+        </div>
+
+        <CorrectAnswerOverlay show={showCorrectAnswer} isCorrect={allCorrect} title="Correct matches">
+          <ul className="space-y-1">
+            {question.left_column.map((leftItem, leftIndex) => (
+              <li key={leftItem.id}>
+                <span className="font-medium">{leftItem.content}</span>
+                {' → '}
+                {question.right_column[correctRightFor(leftIndex)]?.content ?? 'Not available'}
+              </li>
+            ))}
+          </ul>
+        </CorrectAnswerOverlay>
+
+        <QuestionFooter question={question} />
+
+        <QuestionExplanation question={question} show={showCorrectAnswer} />
+      </CardContent>
+    </Card>
+  )
+})
+
+MatchingRenderer.displayName = 'MatchingRenderer'
@@ -1,11 +1,12 @@
 'use client'
 
-import React, { memo, useCallback, useState, useEffect } from 'react'
+import React, { memo, useCallback, useMemo } from 'react'
 import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { CheckCircle, XCircle, Circle } from 'lucide-react'
 import Image from 'next/image'
 import { MultipleChoiceData, QuestionRendererProps } from '@/types/question-types'
+import { CorrectAnswerOverlay } from './RendererParts'
 
 interface MultipleChoiceRendererProps extends QuestionRendererProps<MultipleChoiceData> {}
 
@@ -21,7 +22,6 @@ export const MultipleChoiceRenderer = memo<MultipleChoiceRendererProps>(({
   // Note: In this quiz system, "multiple_choice" is actually single choice
   // partial_credit is used for partial scoring, not multiple selection
   const allowMultiple = false  // Always false since "multiple_choice" is actually single choice
-  const shuffleOptions = question.randomize_options ?? true
   
   const handleOptionSelect = useCallback((optionIndex: number) => {
     if (isSubmitted && !isReview) return
@@ -92,21 +92,12 @@ export const MultipleChoiceRenderer = memo<MultipleChoiceRendererProps>(({
     }
   }
 
-  const [shuffledOptions, setShuffledOptions] = useState<Array<{ option: string; index: number }>>([])
-
-  // Initialize and shuffle options
-  useEffect(() => {
-    if (!shuffleOptions) {
-      const optionsWithIndex = question.options.map((option, index) => ({ option, index }))
-      setShuffledOptions(optionsWithIndex)
-      return
-    }
-    
-    // For demonstration - in real implementation, use a seeded random function
-    // based on user ID + question ID to ensure consistent shuffling
-    const optionsWithIndex = question.options.map((option, index) => ({ option, index }))
-    setShuffledOptions(optionsWithIndex.sort(() => Math.random() - 0.5))
-  }, [question.options, shuffleOptions])
+  // Options are shown in the order delivered: shuffled attempts get their option order
+  // from the server, which maps answers back to canonical indexes on submit
+  const displayedOptions = useMemo(
+    () => question.options.map((option, index) => ({ option, index })),
+    [question.options]
+  )
 
   return (
     <Card className="w-full">
@@ -141,7 +132,7 @@ export const MultipleChoiceRenderer = memo<MultipleChoiceRendererProps>(({
 
         {/* Options */}
         <div className="space-y-3">
-          {shuffledOptions.map(({ option, index }, displayIndex) => {
+          {displayedOptions.map(({ option, index }, displayIndex) => {
             const isSelected = isOptionSelected(index)
             const status = getOptionStatus(index)
             
@@ -165,6 +156,10 @@ export const MultipleChoiceRenderer = memo<MultipleChoiceRendererProps>(({
           })}
         </div>
 
+        <CorrectAnswerOverlay show={showCorrectAnswer} isCorrect={isOptionSelected(question.correct_answer)}>
+          {question.options[question.correct_answer] ?? 'Not available'}
+        </CorrectAnswerOverlay>
+
         {/* Points and Difficulty Display */}
         <div className="flex items-center justify-between text-sm text-gray-500 pt-4 border-t">
           <span>Points: {question.points}</span>
@@ -0,0 +1,145 @@
+'use client'
+
+import React, { memo, useCallback, useMemo } from 'react'
+import { DndContext, closestCenter, KeyboardSensor, PointerSensor, useSensor, useSensors, DragEndEvent } from '@dnd-kit/core'
+import { arrayMove, SortableContext, sortableKeyboardCoordinates, verticalListSortingStrategy, useSortable } from '@dnd-kit/sortable'
+import { CSS } from '@dnd-kit/utilities'
+import { Card, CardContent } from '@/components/ui/card'
+import { GripVertical, CheckCircle, XCircle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { OrderingData, QuestionRendererProps } from '@/types/question-types'
+import { SeededRandom, shuffleArray, generateQuestionSeed } from '@/utils/questionRandomization'
+import { getCorrectOrder } from './toQuestionData'
+import {
+  QuestionPrompt,
+  QuestionInstructions,
+  QuestionFooter,
+  QuestionExplanation,
+  CorrectAnswerOverlay
+} from './RendererParts'
+
+interface OrderingRendererProps extends QuestionRendererProps<OrderingData> {}
+
+interface SortableRowProps {
+  id: string
+  content: string
+  position: number
+  locked: boolean
+  isCorrectPosition?: boolean
+}
+
+function SortableRow({ id, content, position, locked, isCorrectPosition }: SortableRowProps) {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({ id, disabled: locked })
+
+  return (
+    <div
+      ref={setNodeRef}
+      style={{ transform: CSS.Transform.toString(transform), transition }}
+      className={cn(
+        'flex items-center gap-3 p-4 border-2 rounded-lg transition-all duration-200',
+        isDragging && 'shadow-lg border-primary bg-primary/5 z-50',
+        !isDragging && isCorrectPosition === true && 'border-green-400 bg-green-50',
+        !isDragging && isCorrectPosition === false && 'border-red-400 bg-red-50',
+        !isDragging && isCorrectPosition === undefined && 'border-gray-300 bg-white hover:border-primary/50'
+      )}
+    >
+      {!locked && (
+        <div
+          {...attributes}
+          {...listeners}
+          className="p-1 rounded hover:bg-gray-100 cursor-grab active:cursor-grabbing"
+          aria-label="Drag to reorder"
+        >
+          <GripVertical className="w-4 h-4 text-gray-400" />
+        </div>
+      )}
+      <span className="w-8 h-8 rounded-full bg-primary/10 text-primary border border-primary/30 flex items-center justify-center text-sm font-semibold shrink-0">
+        {position}
+      </span>
+      <span className="flex-1 text-sm font-medium text-gray-800">{content}</span>
+      {isCorrectPosition === true && <CheckCircle className="w-5 h-5 text-green-600 shrink-0" />}
+      {isCorrectPosition === false && <XCircle className="w-5 h-5 text-red-600 shrink-0" />}
+    </div>
+  )
+}
+
+/**
+ * Answer shape: item indexes in the order the student placed them
+ */
+export const OrderingRenderer = memo<OrderingRendererProps>(({
+  question,
+  userAnswer,
+  onAnswerChange,
+  isSubmitted,
+  showCorrectAnswer,
+  isReview
+}) => {
+  const locked = (isSubmitted && !isReview) || showCorrectAnswer
+  const correctOrder = useMemo(() => getCorrectOrder(question), [question])
+
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, { coordinateGetter: sortableKeyboardCoordinates })
+  )
+
+  // Seeded start order so items never appear in the answer order and stay put between renders
+  const order = useMemo(() => {
+    const indexes = question.items.map((_, index) => index)
+    if (Array.isArray(userAnswer) && userAnswer.length === indexes.length) {
+      return userAnswer.map(Number)
+    }
+    return shuffleArray(indexes, new SeededRandom(generateQuestionSeed('ordering', question.id)))
+  }, [question.items, question.id, userAnswer])
+
+  const handleDragEnd = useCallback((event: DragEndEvent) => {
+    const { active, over } = event
+    if (locked || !over || active.id === over.id) return
+
+    const oldIndex = order.findIndex(index => question.items[index].id === active.id)
+    const newIndex = order.findIndex(index => question.items[index].id === over.id)
+    onAnswerChange(arrayMove(order, oldIndex, newIndex))
+  }, [locked, order, question.items, onAnswerChange])
+
+  const correctCount = order.filter((itemIndex, position) => correctOrder[position] === itemIndex).length
+
+  return (
+    <Card className="w-full">
+      <CardContent className="p-6 space-y-6">
+        <QuestionPrompt question={question} />
+
+        <QuestionInstructions>Drag the items into the correct order:</QuestionInstructions>
+
+        <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+          <SortableContext items={order.map(index => question.items[index].id)} strategy={verticalListSortingStrategy}>
+            <div className="space-y-3">
+              {order.map((itemIndex, position) => (
+                <SortableRow
+                  key={question.items[itemIndex].id}
+                  id={question.items[itemIndex].id}
+                  content={question.items[itemIndex].content}
+                  position={position + 1}
+                  locked={locked}
+                  isCorrectPosition={showCorrectAnswer ? correctOrder[position] === itemIndex : undefined}
+                />
+              ))}
+            </div>
+          </SortableContext>
+        </DndContext>
+
+        <CorrectAnswerOverlay show={showCorrectAnswer} isCorrect={correctCount === order.length} title="Correct order">
+          <ol className="list-decimal list-inside space-y-1">
+            {correctOrder.map(itemIndex => (
+              <li key={question.items[itemIndex]?.id ?? itemIndex}>{question.items[itemIndex]?.content}</li>
+            ))}
+          </ol>
+        </CorrectAnswerOverlay>
+
+        <QuestionFooter question={question} />
+
+        <QuestionExplanation question={question} show={showCorrectAnswer} />
+      </CardContent>
+    </Card>
+  )
+})
+
+OrderingRenderer.displayName = 'OrderingRenderer'
@@ -0,0 +1,102 @@
+'use client'
+
+import React from 'react'
+import Image from 'next/image'
+import { CheckCircle, XCircle, Clock } from 'lucide-react'
+import { BaseQuestionData } from '@/types/question-types'
+
+/**
+ * Building blocks shared by the student question renderers
+ */
+
+export function QuestionPrompt({ question, children }: { question: BaseQuestionData; children?: React.ReactNode }) {
+  return (
+    <div className="space-y-4">
+      {children ?? (
+        <h3 className="text-lg font-medium text-gray-900 leading-relaxed">
+          {question.question}
+        </h3>
+      )}
+
+      {/* Question Image */}
+      {question.image_url && (
+        <div className="relative w-full max-w-2xl mx-auto">
+          <Image
+            src={question.image_url}
+            alt="Question image"
+            width={600}
+            height={400}
+            className="rounded-lg object-cover"
+          />
+        </div>
+      )}
+    </div>
+  )
+}
+
+export function QuestionInstructions({ children }: { children: React.ReactNode }) {
+  return (
+    <div className="text-sm text-gray-600 bg-blue-50 p-3 rounded-lg">
+      {children}
+    </div>
+  )
+}
+
+export function QuestionFooter({ question }: { question: BaseQuestionData }) {
+  return (
+    <div className="flex items-center justify-between text-sm text-gray-500 pt-4 border-t">
+      <span>Points: {question.points}</span>
+      <span className={`px-2 py-1 rounded-full text-xs ${
+        question.difficulty_level === 'easy' ? 'bg-green-100 text-green-800' :
+        question.difficulty_level === 'medium' ? 'bg-yellow-100 text-yellow-800' :
+        'bg-red-100 text-red-800'
+      }`}>
+        {question.difficulty_level}
+      </span>
+    </div>
+  )
+}
+
+export function QuestionExplanation({ question, show }: { question: BaseQuestionData; show: boolean }) {
+  if (!show || !question.explanation) return null
+
+  return (
+    <div className="mt-6 p-4 bg-blue-50 rounded-lg border border-blue-200">
+      <h4 className="font-medium text-blue-900 mb-2">Explanation:</h4>
+      <p className="text-blue-800 text-sm leading-relaxed">{question.explanation}</p>
+    </div>
+  )
+}
+
+interface CorrectAnswerOverlayProps {
+  show: boolean
+  /** true/false once graded; undefined when the answer needs manual grading */
+  isCorrect?: boolean
+  title?: string
+  children: React.ReactNode
+}
+
+/**
+ * Result banner with the correct answer, shown in review mode
+ */
+export function CorrectAnswerOverlay({ show, isCorrect, title = 'Correct answer', children }: CorrectAnswerOverlayProps) {
+  if (!show) return null
+
+  const tone = isCorrect === undefined
+    ? { box: 'bg-amber-50 border-amber-200', heading: 'text-amber-900', icon: <Clock className="w-5 h-5 text-amber-600" /> }
+    : isCorrect
+      ? { box: 'bg-green-50 border-green-200', heading: 'text-green-900', icon: <CheckCircle className="w-5 h-5 text-green-600" /> }
+      : { box: 'bg-red-50 border-red-200', heading: 'text-red-900', icon: <XCircle className="w-5 h-5 text-red-600" /> }
+
+  return (
+    <div className={`p-4 rounded-lg border ${tone.box}`} role="status">
+      <div className="flex items-center gap-2 mb-2">
+        {tone.icon}
+        <h4 className={`font-medium ${tone.heading}`}>
+          {isCorrect === undefined ? title : isCorrect ? 'Correct!' : `Incorrect — ${title.toLowerCase()}`}
+        </h4>
+      </div>
+      <div className="text-sm text-gray-800 leading-relaxed">{children}</div>
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+'use client'
+
+import React, { memo, useCallback } from 'react'
+import { Card, CardContent } from '@/components/ui/card'
+import { CheckCircle, XCircle } from 'lucide-react'
+import { SingleChoiceData, QuestionRendererProps } from '@/types/question-types'
+import {
+  QuestionPrompt,
+  QuestionInstructions,
+  QuestionFooter,
+  QuestionExplanation,
+  CorrectAnswerOverlay
+} from './RendererParts'
+
+interface SingleChoiceRendererProps extends QuestionRendererProps<SingleChoiceData> {}
+
+export const SingleChoiceRenderer = memo<SingleChoiceRendererProps>(({
+  question,
+  userAnswer,
+  onAnswerChange,
+  isSubmitted,
+  showCorrectAnswer,
+  isReview
+}) => {
+  const locked = isSubmitted && !isReview
+  const selected = typeof userAnswer === 'number' ? userAnswer : undefined
+
+  const handleSelect = useCallback((optionIndex: number) => {
+    if (locked) return
+    onAnswerChange(optionIndex)
+  }, [locked, onAnswerChange])
+
+  const getOptionClasses = (optionIndex: number) => {
+    const baseClasses = "flex items-center gap-3 p-4 rounded-lg border-2 transition-all duration-200"
+    const isSelected = selected === optionIndex
+    const isCorrect = optionIndex === question.correct_answer
+
+    if (showCorrectAnswer) {
+      if (isCorrect) return `${baseClasses} bg-green-50 border-green-500 text-green-800`
+      if (isSelected) return `${baseClasses} bg-red-50 border-red-500 text-red-800`
+      return `${baseClasses} bg-white border-gray-200 text-gray-500`
+    }
+
+    if (isSelected) return `${baseClasses} bg-primary/10 border-primary text-primary cursor-pointer`
+    return `${baseClasses} bg-white border-gray-200 hover:border-primary/50 hover:bg-gray-50 ${locked ? 'cursor-not-allowed' : 'cursor-pointer'}`
+  }
+
+  return (
+    <Card className="w-full">
+      <CardContent className="p-6 space-y-6">
+        <QuestionPrompt question={question} />
+
+        <QuestionInstructions>Choose one answer:</QuestionInstructions>
+
+        {/* Options */}
+        <div role="radiogroup" aria-label={question.question} className="space-y-3">
+          {question.options.map((option, index) => (
+            <label key={index} className={getOptionClasses(index)}>
+              <input
+                type="radio"
+                name={`question-${question.id}`}
+                className="w-4 h-4 accent-primary shrink-0"
+                checked={selected === index}
+                onChange={() => handleSelect(index)}
+                disabled={locked}
+              />
+              <span className="flex-1 text-left">{option}</span>
+              {showCorrectAnswer && index === question.correct_answer && (
+                <CheckCircle className="w-5 h-5 text-green-600 shrink-0" />
+              )}
+              {showCorrectAnswer && selected === index && index !== question.correct_answer && (
+                <XCircle className="w-5 h-5 text-red-600 shrink-0" />
+              )}
+            </label>
+          ))}
+        </div>
+
+        <CorrectAnswerOverlay show={showCorrectAnswer} isCorrect={selected === question.correct_answer}>
+          {question.options[question.correct_answer] ?? 'Not available'}
+        </CorrectAnswerOverlay>
+
+        <QuestionFooter question={question} />
+
+        <QuestionExplanation question={question} show={showCorrectAnswer} />
+      </CardContent>
+    </Card>
+  )
+})
+
+SingleChoiceRenderer.displayName = 'SingleChoiceRenderer'
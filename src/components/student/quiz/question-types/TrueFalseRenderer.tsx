@@ -6,6 +6,7 @@ import { Button } from '@/components/ui/button'
 import { Check, X, CheckCircle, XCircle } from 'lucide-react'
 import Image from 'next/image'
 import { TrueFalseData, QuestionRendererProps } from '@/types/question-types'
+import { CorrectAnswerOverlay } from './RendererParts'
 
 interface TrueFalseRendererProps extends QuestionRendererProps<TrueFalseData> {}
 
@@ -117,6 +118,10 @@ export const TrueFalseRenderer = memo<TrueFalseRendererProps>(({
           </Button>
         </div>
 
+        <CorrectAnswerOverlay show={showCorrectAnswer} isCorrect={userAnswer === question.correct_answer}>
+          {question.correct_answer ? 'True' : 'False'}
+        </CorrectAnswerOverlay>
+
         {/* Points and Difficulty Display */}
         <div className="flex items-center justify-between text-sm text-gray-500 pt-4 border-t">
           <span>Points: {question.points}</span>
@@ -1,11 +1,14 @@
 // Question Type Components for Students (Renderers)
 export { MultipleChoiceRenderer } from './MultipleChoiceRenderer'
 export { TrueFalseRenderer } from './TrueFalseRenderer'
-// export { SingleChoiceRenderer } from './SingleChoiceRenderer'
-// export { FillBlankRenderer } from './FillBlankRenderer'
-// export { EssayRenderer } from './EssayRenderer'
-// export { MatchingRenderer } from './MatchingRenderer'
-// export { OrderingRenderer } from './OrderingRenderer'
+export { SingleChoiceRenderer } from './SingleChoiceRenderer'
+export { FillBlankRenderer } from './FillBlankRenderer'
+export { EssayRenderer } from './EssayRenderer'
+export { MatchingRenderer } from './MatchingRenderer'
+export { OrderingRenderer } from './OrderingRenderer'
+
+// Adapter from quiz_questions rows
+export { toQuestionData, getCorrectOrder } from './toQuestionData'
 
 // Factory Component
 export { QuestionRendererFactory } from '../QuestionRendererFactory'
@@ -0,0 +1,157 @@
+import type { QuizQuestion } from '@/lib/supabase'
+import type {
+  QuestionData,
+  MultipleChoiceData,
+  FillBlankData,
+  EssayData,
+  MatchingData,
+  OrderingData
+} from '@/types/question-types'
+
+type QuestionRow = Pick<QuizQuestion, 'id' | 'question' | 'question_type'> & Partial<QuizQuestion>
+
+/**
+ * Convert a quiz_questions row into the QuestionData shape the student renderers expect.
+ * Complex types read the editor format from correct_answer_json and fall back to the
+ * import format in options. Rows fetched without answer keys convert to empty keys.
+ */
+export function toQuestionData(row: QuestionRow): QuestionData {
+  const json = row.correct_answer_json && typeof row.correct_answer_json === 'object'
+    ? row.correct_answer_json
+    : {}
+  const options: any[] = Array.isArray(row.options) ? row.options : []
+
+  const base = {
+    id: row.id,
+    quiz_id: row.quiz_id || '',
+    question: row.question,
+    explanation: row.explanation,
+    order_index: row.order_index ?? 0,
+    points: row.points ?? 1,
+    difficulty_level: row.difficulty_level || 'medium',
+    image_url: row.image_url,
+    audio_url: row.audio_url,
+    video_url: row.video_url
+  }
+
+  switch (row.question_type) {
+    case 'single_choice':
+      return {
+        ...base,
+        question_type: 'single_choice',
+        options,
+        correct_answer: row.correct_answer ?? -1,
+        randomize_options: row.randomize_options ?? false,
+        feedback_correct: row.feedback_correct,
+        feedback_incorrect: row.feedback_incorrect,
+        hint: row.hint
+      }
+
+    case 'true_false':
+      // Database mapping: True = 0, False = 1
+      return {
+        ...base,
+        question_type: 'true_false',
+        correct_answer: row.correct_answer === 0
+      }
+
+    case 'fill_blank':
+      return {
+        ...base,
+        question_type: 'fill_blank',
+        text_with_blanks: row.question,
+        correct_answers: Array.isArray(json.correct_answers)
+          ? json.correct_answers.map(String)
+          : options.length > 0
+            ? options.map(String)
+            : row.correct_answer_text ? [row.correct_answer_text] : [],
+        case_sensitive: json.case_sensitive === true,
+        allow_partial_credit: json.allow_partial_credit ?? row.partial_credit ?? false
+      } as FillBlankData
+
+    case 'essay':
+      return {
+        ...base,
+        question_type: 'essay',
+        min_words: json.min_words,
+        max_words: json.max_words,
+        rubric_criteria: Array.isArray(json.rubric_criteria) ? json.rubric_criteria : [],
+        auto_grade: row.auto_grade ?? false
+      } as EssayData
+
+    case 'matching': {
+      if (Array.isArray(json.left_column) && Array.isArray(json.right_column)) {
+        return {
+          ...base,
+          question_type: 'matching',
+          left_column: json.left_column,
+          right_column: json.right_column,
+          correct_pairs: Array.isArray(json.correct_pairs) ? json.correct_pairs : [],
+          randomize_options: json.randomize_options ?? row.randomize_options ?? true
+        } as MatchingData
+      }
+
+      // Import format: [{ left, right }] pairs listed in matching order
+      const pairs = options.filter(pair => pair && typeof pair === 'object')
+      return {
+        ...base,
+        question_type: 'matching',
+        left_column: pairs.map((pair, index) => ({ id: `left-${index}`, content: String(pair.left ?? '') })),
+        right_column: pairs.map((pair, index) => ({ id: `right-${index}`, content: String(pair.right ?? '') })),
+        correct_pairs: pairs.map((_, index) => ({ left_id: `left-${index}`, right_id: `right-${index}` })),
+        randomize_options: row.randomize_options ?? true
+      } as MatchingData
+    }
+
+    case 'ordering': {
+      if (Array.isArray(json.items)) {
+        return {
+          ...base,
+          question_type: 'ordering',
+          items: json.items,
+          correct_order: Array.isArray(json.correct_order) ? json.correct_order.map(Number) : [],
+          allow_partial_credit: json.allow_partial_credit ?? row.partial_credit ?? false
+        } as OrderingData
+      }
+
+      // Import format: options are listed in the correct order
+      return {
+        ...base,
+        question_type: 'ordering',
+        items: options.map((content, index) => ({ id: `item-${index}`, content: String(content), correct_position: index })),
+        correct_order: options.map((_, index) => index),
+        allow_partial_credit: row.partial_credit ?? false
+      } as OrderingData
+    }
+
+    case 'multiple_choice':
+    default:
+      return {
+        ...base,
+        question_type: 'multiple_choice',
+        options,
+        correct_answer: row.correct_answer ?? -1,
+        randomize_options: row.randomize_options ?? false,
+        partial_credit: row.partial_credit ?? false,
+        feedback_correct: row.feedback_correct,
+        feedback_incorrect: row.feedback_incorrect,
+        hint: row.hint,
+        time_limit_seconds: row.time_limit_seconds,
+        weight: row.weight
+      } as MultipleChoiceData
+  }
+}
+
+/**
+ * Order of item indexes that is correct for an ordering question
+ */
+export function getCorrectOrder(question: OrderingData): number[] {
+  if (question.correct_order.length === question.items.length) {
+    return question.correct_order
+  }
+
+  return question.items
+    .map((item, index) => ({ index, position: item.correct_position ?? index }))
+    .sort((a, b) => a.position - b.position)
+    .map(entry => entry.index)
+}
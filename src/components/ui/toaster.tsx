@@ -1,4 +1,5 @@
 import React from "react"
+import { Toaster as SonnerToaster } from "sonner"
 
 export interface ToastProps {
   message?: string
@@ -41,8 +42,9 @@ const Toast: React.FC<ToastProps> = ({
   )
 }
 
+// Renders the toasts raised with toast() from sonner
 const Toaster: React.FC = () => {
-  return <div id="toast-container"></div>
+  return <SonnerToaster position="top-right" richColors closeButton />
 }
 
 export { Toast, Toaster }
@@ -57,7 +57,8 @@ export function AuthProvider({
                       session.user.email?.split('@')[0] ||
                       'User',
                 avatar_url: session.user.user_metadata?.avatar_url || null,
-                role: session.user.user_metadata?.role || 'student', // Try to get role from metadata
+                // Roles come only from the users table; metadata can be edited by the user
+                role: 'student',
                 created_at: session.user.created_at,
                 updated_at: new Date().toISOString()
               })
@@ -76,13 +77,22 @@ export function AuthProvider({
   const signIn = async (email: string, password: string) => {
     try {
       setLoading(true)
-      const { error } = await supabase.auth.signInWithPassword({ email, password })
+      // Signed in on the server, which applies the login attempt limit
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password })
+      })
+      const result = await response.json().catch(() => ({}))
 
-      if (error) {
+      if (!response.ok) {
+        const error = new Error(result.error || 'Failed to sign in')
         logger.error('[Auth] Sign in error:', error)
         return { error }
       }
 
+      await supabase.auth.setSession(result.session)
+
       // Refresh server components to reflect new auth state
       router.refresh()
 
@@ -99,19 +109,25 @@ export function AuthProvider({
   const signUp = async (email: string, password: string, name?: string) => {
     try {
       setLoading(true)
-      const { error } = await supabase.auth.signUp({
-        email,
-        password,
-        options: {
-          data: { name }
-        }
+      // Signed up on the server, which checks the password policy
+      const response = await fetch('/api/auth/signup', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ email, password, name })
       })
+      const result = await response.json().catch(() => ({}))
 
-      if (error) {
+      if (!response.ok) {
+        const error = new Error(result.error || 'Failed to sign up')
         logger.error('[Auth] Sign up error:', error)
         return { error }
       }
 
+      // No session until the email is confirmed
+      if (result.session) {
+        await supabase.auth.setSession(result.session)
+      }
+
       // Refresh server components to reflect new auth state
       router.refresh()
 
@@ -10,9 +10,23 @@ export * from './useCacheInvalidation'
 export * from './useAdminQuizzes'
 export * from './useAdminCourses'
 export * from './useAdminUsers'
+export * from './useGradingQueue'
+export * from './useQuestionBank'
+export * from './useCertificates'
+export * from './useLearningPaths'
+export * from './useMockTests'
+export * from './useBadges'
+export * from './useLeaderboards'
+export * from './useEmailSettings'
+export * from './usePlatformSettings'
+export * from './useUserRoles'
+export * from './useAdminAudit'
 
 // Dashboard hooks  
 export * from './useDashboardData'
+export * from './useUserSettings'
+export * from './useUserStats'
+export * from './useNotifications'
 
 // Public API hooks
 export * from './usePublicAPI'
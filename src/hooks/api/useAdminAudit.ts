@@ -0,0 +1,50 @@
+/**
+ * Admin audit log hook
+ */
+import { useQuery } from '@tanstack/react-query'
+import { getAuthHeaders } from '@/lib'
+import type { AdminActivityEntry } from '@/lib/admin-activity'
+
+async function readJson(response: Response, fallbackError: string) {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || fallbackError)
+  }
+  return response.json()
+}
+
+export interface AuditLogQuery {
+  admin_user_id?: string
+  resource_type?: string
+  resource_id?: string
+  /** ISO timestamps */
+  from?: string
+  to?: string
+  page?: number
+}
+
+export interface AuditLogPage {
+  entries: AdminActivityEntry[]
+  actors: Array<{ id: string; name: string; email: string; role: string }>
+  pagination: { page: number; limit: number; total: number; totalPages: number }
+}
+
+export function useAdminAuditLog(query: AuditLogQuery) {
+  return useQuery({
+    queryKey: ['admin', 'audit', query],
+    queryFn: async (): Promise<AuditLogPage> => {
+      const params = new URLSearchParams()
+      for (const [key, value] of Object.entries(query)) {
+        if (value) params.set(key, String(value))
+      }
+
+      const response = await fetch(`/api/admin/audit?${params}`, {
+        headers: await getAuthHeaders()
+      })
+      const data = await readJson(response, 'Failed to load audit log')
+      return { entries: data.entries, actors: data.actors, pagination: data.pagination }
+    },
+    placeholderData: (previous) => previous,
+    staleTime: 30 * 1000,
+  })
+}
@@ -0,0 +1,138 @@
+/**
+ * Badge hooks
+ */
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { getAuthHeaders, logger } from '@/lib'
+import { useBadgeAnnouncer } from '@/hooks/useBadgeAnnouncer'
+import type { AwardedBadge, Badge, BadgeInput, LearnerBadge } from '@/lib/badges/types'
+
+export type AdminBadge = Badge & { awarded_count: number }
+
+export type BadgeUpdate = { id: string } & Partial<BadgeInput>
+
+async function readJson(response: Response, fallbackError: string) {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || fallbackError)
+  }
+  return response.json()
+}
+
+export function useAdminBadges() {
+  return useQuery({
+    queryKey: ['admin', 'badges'],
+    queryFn: async (): Promise<AdminBadge[]> => {
+      const response = await fetch('/api/admin/badges', {
+        headers: await getAuthHeaders()
+      })
+      const data = await readJson(response, 'Failed to fetch badges')
+      return data.badges || []
+    },
+    staleTime: 60 * 1000,
+  })
+}
+
+export function useCreateBadge() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (badge: BadgeInput) => {
+      const response = await fetch('/api/admin/badges', {
+        method: 'POST',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify(badge)
+      })
+      return readJson(response, 'Failed to create badge')
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'badges'] })
+      queryClient.invalidateQueries({ queryKey: ['badges'] })
+    },
+    onError: (error) => {
+      logger.error('❌ Failed to create badge', { error: error?.message || 'Unknown error' })
+    }
+  })
+}
+
+export function useUpdateBadge() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, ...updates }: BadgeUpdate) => {
+      const response = await fetch(`/api/admin/badges/${id}`, {
+        method: 'PUT',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify(updates)
+      })
+      return readJson(response, 'Failed to update badge')
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'badges'] })
+      queryClient.invalidateQueries({ queryKey: ['badges'] })
+    },
+    onError: (error) => {
+      logger.error('❌ Failed to update badge', { error: error?.message || 'Unknown error' })
+    }
+  })
+}
+
+export function useDeleteBadge() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/admin/badges/${id}`, {
+        method: 'DELETE',
+        headers: await getAuthHeaders()
+      })
+      return readJson(response, 'Failed to delete badge')
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'badges'] })
+      queryClient.invalidateQueries({ queryKey: ['badges'] })
+      logger.info('✅ Badge deleted')
+    },
+    onError: (error) => {
+      logger.error('❌ Failed to delete badge', { error: error?.message || 'Unknown error' })
+    }
+  })
+}
+
+export function useMyBadges() {
+  return useQuery({
+    queryKey: ['badges'],
+    queryFn: async (): Promise<LearnerBadge[]> => {
+      const response = await fetch('/api/badges', {
+        headers: await getAuthHeaders()
+      })
+      const data = await readJson(response, 'Failed to load badges')
+      return data.badges || []
+    },
+    staleTime: 60 * 1000,
+  })
+}
+
+/**
+ * Ask the server to check for badges after a lesson completion or enrollment made
+ * in the browser, and celebrate any that were awarded. Quiz submissions are
+ * checked by the submit route itself.
+ */
+export function useCheckBadges() {
+  const announceBadges = useBadgeAnnouncer()
+
+  return useMutation({
+    mutationFn: async (event: { event: 'lesson_completed' | 'enrollment'; course_id?: string }): Promise<AwardedBadge[]> => {
+      const response = await fetch('/api/badges/evaluate', {
+        method: 'POST',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify(event)
+      })
+      const data = await readJson(response, 'Failed to check badges')
+      return data.new_badges || []
+    },
+    onSuccess: (badges) => announceBadges(badges),
+    onError: (error) => {
+      logger.warn('Failed to check badges', { error: error?.message || 'Unknown error' })
+    }
+  })
+}
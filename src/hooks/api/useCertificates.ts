@@ -0,0 +1,176 @@
+/**
+ * Certificate hooks
+ */
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { getAuthHeaders, logger } from '@/lib'
+import type {
+  CertificateTemplate,
+  CertificateTemplateInput,
+  CertificateVerification,
+  IssuedCertificate
+} from '@/lib/certificates/types'
+
+export interface IssuedCertificateFilters {
+  search?: string
+  page?: number
+  limit?: number
+}
+
+export interface IssuedCertificatesResponse {
+  certificates: IssuedCertificate[]
+  pagination: {
+    page: number
+    limit: number
+    total: number
+    totalPages: number
+  }
+}
+
+export type LearnerCertificate = CertificateVerification & {
+  id: string
+  course_id: string | null
+  quiz_id: string | null
+}
+
+export type CertificateTemplateUpdate = { id: string } & Partial<CertificateTemplateInput>
+
+async function readJson(response: Response, fallbackError: string) {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || fallbackError)
+  }
+  return response.json()
+}
+
+export function useCertificateTemplates() {
+  return useQuery({
+    queryKey: ['admin', 'certificate-templates'],
+    queryFn: async (): Promise<CertificateTemplate[]> => {
+      const response = await fetch('/api/admin/certificate-templates', {
+        headers: await getAuthHeaders()
+      })
+      const data = await readJson(response, 'Failed to fetch certificate templates')
+      return data.templates || []
+    },
+    staleTime: 5 * 60 * 1000,
+  })
+}
+
+export function useCreateCertificateTemplate() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (template: CertificateTemplateInput) => {
+      const response = await fetch('/api/admin/certificate-templates', {
+        method: 'POST',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify(template)
+      })
+      return readJson(response, 'Failed to create template')
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'certificate-templates'] })
+    },
+    onError: (error) => {
+      logger.error('❌ Failed to create certificate template', { error: error?.message || 'Unknown error' })
+    }
+  })
+}
+
+export function useUpdateCertificateTemplate() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, ...updates }: CertificateTemplateUpdate) => {
+      const response = await fetch(`/api/admin/certificate-templates/${id}`, {
+        method: 'PUT',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify(updates)
+      })
+      return readJson(response, 'Failed to update template')
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'certificate-templates'] })
+    },
+    onError: (error) => {
+      logger.error('❌ Failed to update certificate template', { error: error?.message || 'Unknown error' })
+    }
+  })
+}
+
+export function useDeleteCertificateTemplate() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/admin/certificate-templates/${id}`, {
+        method: 'DELETE',
+        headers: await getAuthHeaders()
+      })
+      return readJson(response, 'Failed to delete template')
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'certificate-templates'] })
+      logger.info('✅ Certificate template deleted')
+    },
+    onError: (error) => {
+      logger.error('❌ Failed to delete certificate template', { error: error?.message || 'Unknown error' })
+    }
+  })
+}
+
+export function useIssuedCertificates(filters: IssuedCertificateFilters = {}) {
+  return useQuery({
+    queryKey: ['admin', 'certificates', filters],
+    queryFn: async (): Promise<IssuedCertificatesResponse> => {
+      const params = new URLSearchParams(
+        Object.entries(filters)
+          .filter(([, value]) => value !== undefined && value !== '')
+          .map(([key, value]) => [key, String(value)])
+      )
+
+      const response = await fetch(`/api/admin/certificates?${params}`, {
+        headers: await getAuthHeaders()
+      })
+      return readJson(response, 'Failed to fetch certificates')
+    },
+    staleTime: 60 * 1000,
+    placeholderData: (previous) => previous,
+  })
+}
+
+export function useSetCertificateValidity() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, is_valid }: { id: string; is_valid: boolean }) => {
+      const response = await fetch(`/api/admin/certificates/${id}`, {
+        method: 'PATCH',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify({ is_valid })
+      })
+      return readJson(response, 'Failed to update certificate')
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'certificates'] })
+    },
+    onError: (error) => {
+      logger.error('❌ Failed to update certificate', { error: error?.message || 'Unknown error' })
+    }
+  })
+}
+
+export function useMyCertificates(enabled = true) {
+  return useQuery({
+    queryKey: ['certificates', 'mine'],
+    queryFn: async (): Promise<LearnerCertificate[]> => {
+      const response = await fetch('/api/certificates', {
+        headers: await getAuthHeaders()
+      })
+      const data = await readJson(response, 'Failed to fetch certificates')
+      return data.certificates || []
+    },
+    enabled,
+    staleTime: 5 * 60 * 1000,
+  })
+}
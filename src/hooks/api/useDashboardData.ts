@@ -35,6 +35,7 @@ interface StudentDashboardStats {
   averageScore: number
   studyHours: number
   streak: number
+  points: number
 }
 
 interface RecentCourse {
@@ -54,6 +55,10 @@ interface RecentQuiz {
   totalQuestions: number
   completedAt: string
   percentage: number
+  attemptNumber: number
+  /** Score that counts for the quiz under its grading policy; null while attempts await review */
+  officialPercentage: number | null
+  gradingMethod: 'highest' | 'latest' | 'average'
 }
 
 interface StudentDashboardResponse {
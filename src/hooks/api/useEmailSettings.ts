@@ -0,0 +1,155 @@
+/**
+ * Admin email hooks: sender/SMTP settings, test sends and the outbox
+ */
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { getAuthHeaders, logger } from '@/lib'
+import type {
+  EmailSettings,
+  EmailTransportName,
+  OutboxEmail,
+  OutboxRunResult,
+  OutboxStatus,
+  PublicEmailSettings
+} from '@/lib/email/types'
+
+async function readJson(response: Response, fallbackError: string) {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || fallbackError)
+  }
+  return response.json()
+}
+
+interface EmailSettingsResponse {
+  settings: PublicEmailSettings
+  transport_in_effect: EmailTransportName
+}
+
+export function useEmailSettings() {
+  return useQuery({
+    queryKey: ['admin', 'email', 'settings'],
+    queryFn: async (): Promise<EmailSettingsResponse> => {
+      const response = await fetch('/api/admin/settings/email', {
+        headers: await getAuthHeaders()
+      })
+      const data = await readJson(response, 'Failed to load email settings')
+      return { settings: data.settings, transport_in_effect: data.transport_in_effect }
+    },
+    staleTime: 5 * 60 * 1000,
+  })
+}
+
+export function useUpdateEmailSettings() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (settings: Partial<EmailSettings>): Promise<EmailSettingsResponse> => {
+      const response = await fetch('/api/admin/settings/email', {
+        method: 'PUT',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify(settings)
+      })
+      return readJson(response, 'Failed to save email settings')
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(['admin', 'email', 'settings'], {
+        settings: data.settings,
+        transport_in_effect: data.transport_in_effect
+      })
+    },
+    onError: (error) => {
+      logger.error('❌ Failed to save email settings', { error: error?.message || 'Unknown error' })
+    }
+  })
+}
+
+export function useSendTestEmail() {
+  return useMutation({
+    mutationFn: async (to?: string): Promise<{ transport: EmailTransportName; message_id: string }> => {
+      const response = await fetch('/api/admin/settings/email/test', {
+        method: 'POST',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify(to ? { to } : {})
+      })
+      return readJson(response, 'Failed to send test email')
+    },
+    onError: (error) => {
+      logger.error('❌ Failed to send test email', { error: error?.message || 'Unknown error' })
+    }
+  })
+}
+
+export function useEmailOutbox(status?: OutboxStatus) {
+  return useQuery({
+    queryKey: ['admin', 'email', 'outbox', status || 'all'],
+    queryFn: async (): Promise<{ emails: OutboxEmail[]; counts: Record<OutboxStatus, number> }> => {
+      const params = status ? `?status=${status}` : ''
+      const response = await fetch(`/api/admin/email/outbox${params}`, {
+        headers: await getAuthHeaders()
+      })
+      const data = await readJson(response, 'Failed to load email outbox')
+      return { emails: data.emails, counts: data.counts }
+    },
+    staleTime: 30 * 1000,
+  })
+}
+
+export function useProcessOutbox() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (): Promise<OutboxRunResult> => {
+      const response = await fetch('/api/admin/email/outbox/process', {
+        method: 'POST',
+        headers: await getAuthHeaders()
+      })
+      return readJson(response, 'Failed to process email outbox')
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'email', 'outbox'] })
+    },
+    onError: (error) => {
+      logger.error('❌ Failed to process email outbox', { error: error?.message || 'Unknown error' })
+    }
+  })
+}
+
+export function useRetryOutboxEmail() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (id: string): Promise<OutboxRunResult> => {
+      const response = await fetch(`/api/admin/email/outbox/${id}/retry`, {
+        method: 'POST',
+        headers: await getAuthHeaders()
+      })
+      return readJson(response, 'Failed to retry email')
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'email', 'outbox'] })
+    },
+    onError: (error) => {
+      logger.error('❌ Failed to retry email', { error: error?.message || 'Unknown error' })
+    }
+  })
+}
+
+export function useQueueWeeklyDigests() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (): Promise<{ queued: number }> => {
+      const response = await fetch('/api/admin/email/digests', {
+        method: 'POST',
+        headers: await getAuthHeaders()
+      })
+      return readJson(response, 'Failed to queue weekly digests')
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'email', 'outbox'] })
+    },
+    onError: (error) => {
+      logger.error('❌ Failed to queue weekly digests', { error: error?.message || 'Unknown error' })
+    }
+  })
+}
@@ -0,0 +1,128 @@
+/**
+ * Grading queue hooks (essay and speaking answers)
+ */
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { getAuthHeaders, logger } from '@/lib'
+import type { RubricCriterion } from '@/types/question-types'
+import type { SpeakingPlayback, SpeakingPart } from '@/lib/speaking'
+import type { WritingSettings } from '@/lib/writing'
+import type { GradeSuggestion, SuggestionProvider } from '@/lib/grading/suggestions'
+
+export interface GradingQueueItem {
+  id: string
+  quiz_attempt_id: string
+  question_id: string
+  question: string
+  question_type: 'essay' | 'speaking'
+  quiz_id: string
+  quiz_title: string
+  student_name: string
+  student_email?: string
+  attempt_number: number
+  submitted_at: string
+  /** Essay text; empty for speaking answers */
+  answer: string
+  /** Speaking answers only, with a signed URL to play; null when nothing was recorded */
+  recording: SpeakingPlayback | null
+  speaking_part: SpeakingPart | null
+  /** IELTS writing task and word limits; null for plain essays */
+  writing: WritingSettings | null
+  points_possible: number
+  points_earned: number
+  time_spent_seconds: number
+  rubric: RubricCriterion[]
+  rubric_scores: Record<string, number>
+  feedback?: string | null
+  /** AI draft for the grader to apply and edit; never saved as the grade by itself */
+  suggestion: GradeSuggestion | null
+  grading_status: 'pending' | 'graded'
+  graded_at?: string | null
+}
+
+export interface GradeEssayPayload {
+  id: string
+  rubric_scores?: Record<string, number>
+  points_awarded?: number
+  feedback?: string
+}
+
+export function useGradingQueue(status: 'pending' | 'graded' = 'pending', quizId?: string) {
+  return useQuery({
+    queryKey: ['admin', 'grading', { status, quizId }],
+    queryFn: async (): Promise<GradingQueueItem[]> => {
+      const params = new URLSearchParams({
+        status,
+        ...(quizId && { quizId })
+      })
+
+      const response = await fetch(`/api/admin/grading?${params}`, {
+        headers: await getAuthHeaders()
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to fetch grading queue')
+      }
+
+      const result = await response.json()
+      return result.items || []
+    },
+    staleTime: 30 * 1000, // 30 seconds (new submissions arrive continuously)
+    refetchOnWindowFocus: true,
+  })
+}
+
+export function useGradeEssay() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, ...grade }: GradeEssayPayload) => {
+      const response = await fetch(`/api/admin/grading/${id}`, {
+        method: 'POST',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify(grade)
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to save grade')
+      }
+
+      return response.json()
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'grading'] })
+      logger.info('✅ Essay graded and queue refreshed')
+    },
+    onError: (error) => {
+      logger.error('❌ Failed to grade essay', { error: error?.message || 'Unknown error' })
+    }
+  })
+}
+
+export function useDraftGradeSuggestion() {
+  return useMutation({
+    mutationFn: async ({ id, provider }: { id: string; provider?: SuggestionProvider }): Promise<GradeSuggestion> => {
+      const response = await fetch(`/api/admin/grading/${id}/suggestion`, {
+        method: 'POST',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify(provider ? { provider } : {})
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to draft a grade')
+      }
+
+      const result = await response.json()
+      return result.suggestion
+    },
+    // The panel shows the returned draft; refetching the queue here would reset the grading form
+    onSuccess: () => {
+      logger.info('✅ AI grade drafted')
+    },
+    onError: (error) => {
+      logger.error('❌ Failed to draft AI grade', { error: error?.message || 'Unknown error' })
+    }
+  })
+}
@@ -0,0 +1,167 @@
+/**
+ * Leaderboard hooks
+ */
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { getAuthHeaders, logger } from '@/lib'
+import type { Leaderboard, LeaderboardInput, NamedStanding } from '@/lib/leaderboards/types'
+
+export type AdminLeaderboard = Leaderboard & { scope_name: string | null }
+
+export type LeaderboardUpdate = { id: string } & Partial<LeaderboardInput>
+
+export type LeaderboardSummary = Pick<Leaderboard, 'id' | 'name' | 'description' | 'leaderboard_type' | 'time_period'> & {
+  scope_name: string | null
+}
+
+export interface LeaderboardDetail {
+  leaderboard: LeaderboardSummary & { max_entries: number }
+  period: { start: string | null; end: string; is_current: boolean }
+  standings: NamedStanding[]
+  /** Everyone ranked in the period, including those beyond max_entries */
+  participants: number
+  my_standing: NamedStanding | null
+  opted_out: boolean
+  archived_periods: Array<{ start: string; end: string }>
+}
+
+async function readJson(response: Response, fallbackError: string) {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || fallbackError)
+  }
+  return response.json()
+}
+
+export function useAdminLeaderboards() {
+  return useQuery({
+    queryKey: ['admin', 'leaderboards'],
+    queryFn: async (): Promise<AdminLeaderboard[]> => {
+      const response = await fetch('/api/admin/leaderboards', {
+        headers: await getAuthHeaders()
+      })
+      const data = await readJson(response, 'Failed to fetch leaderboards')
+      return data.leaderboards || []
+    },
+    staleTime: 60 * 1000,
+  })
+}
+
+export function useCreateLeaderboard() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (leaderboard: LeaderboardInput) => {
+      const response = await fetch('/api/admin/leaderboards', {
+        method: 'POST',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify(leaderboard)
+      })
+      return readJson(response, 'Failed to create leaderboard')
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'leaderboards'] })
+      queryClient.invalidateQueries({ queryKey: ['leaderboards'] })
+    },
+    onError: (error) => {
+      logger.error('❌ Failed to create leaderboard', { error: error?.message || 'Unknown error' })
+    }
+  })
+}
+
+export function useUpdateLeaderboard() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, ...updates }: LeaderboardUpdate) => {
+      const response = await fetch(`/api/admin/leaderboards/${id}`, {
+        method: 'PUT',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify(updates)
+      })
+      return readJson(response, 'Failed to update leaderboard')
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'leaderboards'] })
+      queryClient.invalidateQueries({ queryKey: ['leaderboards'] })
+    },
+    onError: (error) => {
+      logger.error('❌ Failed to update leaderboard', { error: error?.message || 'Unknown error' })
+    }
+  })
+}
+
+export function useDeleteLeaderboard() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/admin/leaderboards/${id}`, {
+        method: 'DELETE',
+        headers: await getAuthHeaders()
+      })
+      return readJson(response, 'Failed to delete leaderboard')
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'leaderboards'] })
+      queryClient.invalidateQueries({ queryKey: ['leaderboards'] })
+      logger.info('✅ Leaderboard deleted')
+    },
+    onError: (error) => {
+      logger.error('❌ Failed to delete leaderboard', { error: error?.message || 'Unknown error' })
+    }
+  })
+}
+
+export function useResetLeaderboard() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (id: string): Promise<{ archived: number }> => {
+      const response = await fetch(`/api/admin/leaderboards/${id}/reset`, {
+        method: 'POST',
+        headers: await getAuthHeaders()
+      })
+      return readJson(response, 'Failed to reset leaderboard')
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'leaderboards'] })
+      queryClient.invalidateQueries({ queryKey: ['leaderboards'] })
+    },
+    onError: (error) => {
+      logger.error('❌ Failed to reset leaderboard', { error: error?.message || 'Unknown error' })
+    }
+  })
+}
+
+export function useLeaderboards() {
+  return useQuery({
+    queryKey: ['leaderboards'],
+    queryFn: async (): Promise<LeaderboardSummary[]> => {
+      const response = await fetch('/api/leaderboards', {
+        headers: await getAuthHeaders()
+      })
+      const data = await readJson(response, 'Failed to load leaderboards')
+      return data.leaderboards || []
+    },
+    staleTime: 5 * 60 * 1000,
+  })
+}
+
+/**
+ * Standings for the current period, or an archived one when periodStart is given
+ */
+export function useLeaderboard(id: string | null, periodStart: string | null = null) {
+  return useQuery({
+    queryKey: ['leaderboards', id, periodStart],
+    queryFn: async (): Promise<LeaderboardDetail> => {
+      const query = periodStart ? `?period=${encodeURIComponent(periodStart)}` : ''
+      const response = await fetch(`/api/leaderboards/${id}${query}`, {
+        headers: await getAuthHeaders()
+      })
+      const data = await readJson(response, 'Failed to load leaderboard')
+      return data
+    },
+    enabled: !!id,
+    staleTime: 60 * 1000,
+  })
+}
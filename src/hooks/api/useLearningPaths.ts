@@ -0,0 +1,196 @@
+/**
+ * Learning path hooks
+ */
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { getAuthHeaders, logger } from '@/lib'
+import type { CompletionCriteria, LearningPath, LearningPathInput, PathStep } from '@/lib/learning-paths/types'
+
+export type AdminLearningPath = LearningPath & {
+  stats: { learners: number; completed: number }
+}
+
+export interface LearningPathQuizOption {
+  id: string
+  title: string
+  category: string
+  difficulty: string
+  is_published: boolean
+}
+
+export interface LearningPathSummary {
+  id: string
+  name: string
+  description: string | null
+  difficulty_level: string
+  estimated_hours: number | null
+  tags: string[]
+  quiz_count: number
+  progress: {
+    met_count: number
+    progress_percentage: number
+    completed: boolean
+    /** Prerequisite paths still to be completed */
+    locked: boolean
+  }
+}
+
+export interface LearningPathDetail {
+  path: Pick<LearningPath, 'id' | 'name' | 'description' | 'difficulty_level' | 'estimated_hours' | 'tags'> & {
+    completion_criteria: CompletionCriteria
+  }
+  prerequisites: Array<{ id: string; name: string; completed: boolean }>
+  steps: Array<PathStep & {
+    quiz: {
+      id: string
+      title: string
+      description: string | null
+      difficulty: string
+      category: string
+      time_limit_minutes: number | null
+      total_questions: number | null
+    } | null
+  }>
+  progress: {
+    met_count: number
+    progress_percentage: number
+    current_quiz_index: number
+    completed: boolean
+    started_at: string | null
+    completed_at: string | null
+  }
+}
+
+export type LearningPathUpdate = { id: string } & Partial<LearningPathInput>
+
+async function readJson(response: Response, fallbackError: string) {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || fallbackError)
+  }
+  return response.json()
+}
+
+export function useAdminLearningPaths() {
+  return useQuery({
+    queryKey: ['admin', 'learning-paths'],
+    queryFn: async (): Promise<AdminLearningPath[]> => {
+      const response = await fetch('/api/admin/learning-paths', {
+        headers: await getAuthHeaders()
+      })
+      const data = await readJson(response, 'Failed to fetch learning paths')
+      return data.paths || []
+    },
+    staleTime: 60 * 1000,
+  })
+}
+
+/**
+ * Every quiz, for the path editor's quiz picker
+ */
+export function useLearningPathQuizOptions() {
+  return useQuery({
+    queryKey: ['admin', 'quizzes', 'options'],
+    queryFn: async (): Promise<LearningPathQuizOption[]> => {
+      const response = await fetch('/api/admin/quizzes?mode=slim&limit=500', {
+        headers: await getAuthHeaders()
+      })
+      const data = await readJson(response, 'Failed to fetch quizzes')
+      return data.quizzes || []
+    },
+    staleTime: 5 * 60 * 1000,
+  })
+}
+
+export function useCreateLearningPath() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (path: LearningPathInput) => {
+      const response = await fetch('/api/admin/learning-paths', {
+        method: 'POST',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify(path)
+      })
+      return readJson(response, 'Failed to create learning path')
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'learning-paths'] })
+      queryClient.invalidateQueries({ queryKey: ['learning-paths'] })
+    },
+    onError: (error) => {
+      logger.error('❌ Failed to create learning path', { error: error?.message || 'Unknown error' })
+    }
+  })
+}
+
+export function useUpdateLearningPath() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, ...updates }: LearningPathUpdate) => {
+      const response = await fetch(`/api/admin/learning-paths/${id}`, {
+        method: 'PUT',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify(updates)
+      })
+      return readJson(response, 'Failed to update learning path')
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'learning-paths'] })
+      queryClient.invalidateQueries({ queryKey: ['learning-paths'] })
+    },
+    onError: (error) => {
+      logger.error('❌ Failed to update learning path', { error: error?.message || 'Unknown error' })
+    }
+  })
+}
+
+export function useDeleteLearningPath() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/admin/learning-paths/${id}`, {
+        method: 'DELETE',
+        headers: await getAuthHeaders()
+      })
+      return readJson(response, 'Failed to delete learning path')
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'learning-paths'] })
+      queryClient.invalidateQueries({ queryKey: ['learning-paths'] })
+      logger.info('✅ Learning path deleted')
+    },
+    onError: (error) => {
+      logger.error('❌ Failed to delete learning path', { error: error?.message || 'Unknown error' })
+    }
+  })
+}
+
+export function useLearningPaths() {
+  return useQuery({
+    queryKey: ['learning-paths'],
+    queryFn: async (): Promise<LearningPathSummary[]> => {
+      const response = await fetch('/api/learning-paths', {
+        headers: await getAuthHeaders()
+      })
+      const data = await readJson(response, 'Failed to load learning paths')
+      return data.paths || []
+    },
+    staleTime: 60 * 1000,
+  })
+}
+
+export function useLearningPath(id: string | null) {
+  return useQuery({
+    queryKey: ['learning-paths', id],
+    queryFn: async (): Promise<LearningPathDetail> => {
+      const response = await fetch(`/api/learning-paths/${id}`, {
+        headers: await getAuthHeaders()
+      })
+      return readJson(response, 'Failed to load learning path')
+    },
+    enabled: Boolean(id),
+    staleTime: 30 * 1000,
+  })
+}
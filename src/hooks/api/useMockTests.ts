@@ -0,0 +1,152 @@
+/**
+ * Mock test hooks
+ */
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { getAuthHeaders, logger } from '@/lib'
+import type { BandProfile, MockTest, MockTestInput, SectionResult } from '@/lib/mock-tests/types'
+import type { BandTable, IeltsModule } from '@/lib/score-utils'
+
+export interface MockTestSummary {
+  id: string
+  title: string
+  description: string | null
+  module: IeltsModule
+  profile: BandProfile
+}
+
+export interface MockTestDetail {
+  test: Pick<MockTest, 'id' | 'title' | 'description' | 'module'>
+  sections: Array<SectionResult & {
+    quizzes: Array<{
+      id: string
+      title: string
+      description: string | null
+      time_limit_minutes: number | null
+      total_questions: number | null
+      percentage_score: number | null
+      pending_review: boolean
+    }>
+    /** Listening and Reading only */
+    band_table: BandTable | null
+  }>
+  overall_band: number | null
+  complete: boolean
+}
+
+export type MockTestUpdate = { id: string } & Partial<MockTestInput>
+
+async function readJson(response: Response, fallbackError: string) {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || fallbackError)
+  }
+  return response.json()
+}
+
+export function useAdminMockTests() {
+  return useQuery({
+    queryKey: ['admin', 'mock-tests'],
+    queryFn: async (): Promise<MockTest[]> => {
+      const response = await fetch('/api/admin/mock-tests', {
+        headers: await getAuthHeaders()
+      })
+      const data = await readJson(response, 'Failed to fetch mock tests')
+      return data.tests || []
+    },
+    staleTime: 60 * 1000,
+  })
+}
+
+export function useCreateMockTest() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (test: MockTestInput) => {
+      const response = await fetch('/api/admin/mock-tests', {
+        method: 'POST',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify(test)
+      })
+      return readJson(response, 'Failed to create mock test')
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'mock-tests'] })
+      queryClient.invalidateQueries({ queryKey: ['mock-tests'] })
+    },
+    onError: (error) => {
+      logger.error('❌ Failed to create mock test', { error: error?.message || 'Unknown error' })
+    }
+  })
+}
+
+export function useUpdateMockTest() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, ...updates }: MockTestUpdate) => {
+      const response = await fetch(`/api/admin/mock-tests/${id}`, {
+        method: 'PUT',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify(updates)
+      })
+      return readJson(response, 'Failed to update mock test')
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'mock-tests'] })
+      queryClient.invalidateQueries({ queryKey: ['mock-tests'] })
+    },
+    onError: (error) => {
+      logger.error('❌ Failed to update mock test', { error: error?.message || 'Unknown error' })
+    }
+  })
+}
+
+export function useDeleteMockTest() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/admin/mock-tests/${id}`, {
+        method: 'DELETE',
+        headers: await getAuthHeaders()
+      })
+      return readJson(response, 'Failed to delete mock test')
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'mock-tests'] })
+      queryClient.invalidateQueries({ queryKey: ['mock-tests'] })
+      logger.info('✅ Mock test deleted')
+    },
+    onError: (error) => {
+      logger.error('❌ Failed to delete mock test', { error: error?.message || 'Unknown error' })
+    }
+  })
+}
+
+export function useMockTests() {
+  return useQuery({
+    queryKey: ['mock-tests'],
+    queryFn: async (): Promise<MockTestSummary[]> => {
+      const response = await fetch('/api/mock-tests', {
+        headers: await getAuthHeaders()
+      })
+      const data = await readJson(response, 'Failed to load mock tests')
+      return data.tests || []
+    },
+    staleTime: 60 * 1000,
+  })
+}
+
+export function useMockTest(id: string | null) {
+  return useQuery({
+    queryKey: ['mock-tests', id],
+    queryFn: async (): Promise<MockTestDetail> => {
+      const response = await fetch(`/api/mock-tests/${id}`, {
+        headers: await getAuthHeaders()
+      })
+      return readJson(response, 'Failed to load mock test')
+    },
+    enabled: Boolean(id),
+    staleTime: 30 * 1000,
+  })
+}
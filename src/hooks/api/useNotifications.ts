@@ -0,0 +1,109 @@
+/**
+ * Notification hooks
+ */
+import { useEffect } from 'react'
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { getAuthHeaders, logger, createSupabaseClient } from '@/lib'
+import type { AnnouncementAudience, NotificationInbox } from '@/lib/notifications/types'
+
+async function readJson(response: Response, fallbackError: string) {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || fallbackError)
+  }
+  return response.json()
+}
+
+/**
+ * The signed-in user's inbox. New rows arrive over Supabase Realtime, so the
+ * unread count updates without polling; pass the user id to subscribe.
+ */
+export function useNotifications(userId: string | null | undefined) {
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    if (!userId) return
+
+    const supabase = createSupabaseClient()
+    const channel = supabase
+      .channel(`notifications:${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'notifications', filter: `user_id=eq.${userId}` },
+        () => queryClient.invalidateQueries({ queryKey: ['notifications'] })
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [userId, queryClient])
+
+  return useQuery({
+    queryKey: ['notifications'],
+    queryFn: async (): Promise<NotificationInbox> => {
+      const response = await fetch('/api/notifications', {
+        headers: await getAuthHeaders()
+      })
+      const data = await readJson(response, 'Failed to load notifications')
+      return { notifications: data.notifications, unread_count: data.unread_count }
+    },
+    enabled: !!userId,
+    staleTime: 60 * 1000,
+  })
+}
+
+export function useMarkNotificationsRead() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (ids: string[] | 'all'): Promise<{ unread_count: number }> => {
+      const response = await fetch('/api/notifications/read', {
+        method: 'POST',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify(ids === 'all' ? { all: true } : { ids })
+      })
+      return readJson(response, 'Failed to update notifications')
+    },
+    onMutate: (ids) => {
+      // Read right away; the server's unread count replaces this on success
+      queryClient.setQueryData(['notifications'], (inbox: NotificationInbox | undefined) => {
+        if (!inbox) return inbox
+        const notifications = inbox.notifications.map(notification =>
+          ids === 'all' || ids.includes(notification.id) ? { ...notification, is_read: true } : notification
+        )
+        return { notifications, unread_count: notifications.filter(notification => !notification.is_read).length }
+      })
+    },
+    onSuccess: ({ unread_count }) => {
+      queryClient.setQueryData(['notifications'], (inbox: NotificationInbox | undefined) =>
+        inbox ? { ...inbox, unread_count } : inbox
+      )
+    },
+    onError: (error) => {
+      logger.error('❌ Failed to mark notifications read', { error: error?.message || 'Unknown error' })
+      queryClient.invalidateQueries({ queryKey: ['notifications'] })
+    }
+  })
+}
+
+export function useSendAnnouncement() {
+  return useMutation({
+    mutationFn: async (announcement: {
+      title: string
+      message: string
+      action_url?: string | null
+      audience: AnnouncementAudience
+    }): Promise<{ announcement_id: string; delivered: number }> => {
+      const response = await fetch('/api/admin/notifications', {
+        method: 'POST',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify(announcement)
+      })
+      return readJson(response, 'Failed to send announcement')
+    },
+    onError: (error) => {
+      logger.error('❌ Failed to send announcement', { error: error?.message || 'Unknown error' })
+    }
+  })
+}
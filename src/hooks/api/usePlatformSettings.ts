@@ -0,0 +1,79 @@
+/**
+ * Platform settings hooks: the admin settings page and the public password policy
+ */
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { getAuthHeaders, logger } from '@/lib'
+import {
+  DEFAULT_PLATFORM_SETTINGS,
+  getPasswordPolicy,
+  type PasswordPolicy,
+  type PlatformSettings,
+  type PlatformSettingsUpdate
+} from '@/lib/platform-settings'
+import type { EmailSettings, PublicEmailSettings } from '@/lib/email/types'
+
+async function readJson(response: Response, fallbackError: string) {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || fallbackError)
+  }
+  return response.json()
+}
+
+const DEFAULT_PASSWORD_POLICY = getPasswordPolicy(DEFAULT_PLATFORM_SETTINGS.security)
+
+export type AdminPlatformSettings = PlatformSettings & { email: PublicEmailSettings }
+
+export function usePlatformSettings() {
+  return useQuery({
+    queryKey: ['admin', 'platform-settings'],
+    queryFn: async (): Promise<AdminPlatformSettings> => {
+      const response = await fetch('/api/admin/settings', {
+        headers: await getAuthHeaders()
+      })
+      const data = await readJson(response, 'Failed to load settings')
+      return data.settings
+    },
+    staleTime: 5 * 60 * 1000,
+  })
+}
+
+export function useUpdatePlatformSettings() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (update: PlatformSettingsUpdate & { email?: Partial<EmailSettings> }): Promise<AdminPlatformSettings> => {
+      const response = await fetch('/api/admin/settings', {
+        method: 'PUT',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify(update)
+      })
+      const data = await readJson(response, 'Failed to save settings')
+      return data.settings
+    },
+    onSuccess: (settings) => {
+      queryClient.setQueryData(['admin', 'platform-settings'], settings)
+      queryClient.invalidateQueries({ queryKey: ['platform-settings', 'public'] })
+    },
+    onError: (error) => {
+      logger.error('❌ Failed to save settings', { error: error?.message || 'Unknown error' })
+    }
+  })
+}
+
+/**
+ * The password policy for sign-up and password forms; no sign-in needed.
+ * Starts from the default policy so forms never wait on it.
+ */
+export function usePasswordPolicy(): PasswordPolicy {
+  const { data } = useQuery({
+    queryKey: ['platform-settings', 'public'],
+    queryFn: async (): Promise<{ password_policy: PasswordPolicy }> => {
+      const response = await fetch('/api/platform-settings')
+      return readJson(response, 'Failed to load password policy')
+    },
+    staleTime: 5 * 60 * 1000,
+  })
+
+  return data?.password_policy || DEFAULT_PASSWORD_POLICY
+}
@@ -0,0 +1,114 @@
+/**
+ * Question bank hooks
+ */
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { getAuthHeaders, logger } from '@/lib'
+import type { QuestionTemplate } from '@/lib/question-bank/types'
+
+export interface QuestionBankFilters {
+  search?: string
+  category?: string
+  difficulty?: string
+  type?: string
+  tag?: string
+  page?: number
+  limit?: number
+}
+
+export interface QuestionBankResponse {
+  items: QuestionTemplate[]
+  facets: {
+    categories: string[]
+    tags: string[]
+  }
+  pagination: {
+    page: number
+    limit: number
+    total: number
+    totalPages: number
+  }
+}
+
+export type QuestionTemplateUpdate = { id: string } & Partial<
+  Pick<QuestionTemplate, 'title' | 'description' | 'category' | 'difficulty' | 'tags'>
+>
+
+export function useQuestionBank(filters: QuestionBankFilters = {}) {
+  return useQuery({
+    queryKey: ['admin', 'question-bank', filters],
+    queryFn: async (): Promise<QuestionBankResponse> => {
+      const params = new URLSearchParams(
+        Object.entries(filters)
+          .filter(([, value]) => value !== undefined && value !== '')
+          .map(([key, value]) => [key, String(value)])
+      )
+
+      const response = await fetch(`/api/admin/question-bank?${params}`, {
+        headers: await getAuthHeaders()
+      })
+
+      if (!response.ok) {
+        const error = await response.json()
+        throw new Error(error.error || 'Failed to fetch question bank')
+      }
+
+      return response.json()
+    },
+    staleTime: 60 * 1000,
+    placeholderData: (previous) => previous,
+  })
+}
+
+export function useUpdateQuestionTemplate() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async ({ id, ...updates }: QuestionTemplateUpdate) => {
+      const response = await fetch(`/api/admin/question-bank/${id}`, {
+        method: 'PATCH',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify(updates)
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to update question')
+      }
+
+      return response.json()
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'question-bank'] })
+    },
+    onError: (error) => {
+      logger.error('❌ Failed to update bank question', { error: error?.message || 'Unknown error' })
+    }
+  })
+}
+
+export function useDeleteQuestionTemplate() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (id: string) => {
+      const response = await fetch(`/api/admin/question-bank/${id}`, {
+        method: 'DELETE',
+        headers: await getAuthHeaders()
+      })
+
+      if (!response.ok) {
+        const errorData = await response.json()
+        throw new Error(errorData.error || 'Failed to delete question')
+      }
+
+      return response.json()
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'question-bank'] })
+      logger.info('✅ Bank question deleted')
+    },
+    onError: (error) => {
+      logger.error('❌ Failed to delete bank question', { error: error?.message || 'Unknown error' })
+    }
+  })
+}
@@ -0,0 +1,78 @@
+/**
+ * Instructor invitation hooks for the admin users page
+ */
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { getAuthHeaders, logger } from '@/lib'
+import type { InstructorInvite } from '@/lib/user-roles/types'
+
+async function readJson(response: Response, fallbackError: string) {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || fallbackError)
+  }
+  return response.json()
+}
+
+export interface CreatedInstructorInvite {
+  invite: InstructorInvite
+  /** Shown once; only a hash of the token is stored */
+  invite_url: string
+  email_queued: boolean
+}
+
+export function useInstructorInvites(enabled: boolean = true) {
+  return useQuery({
+    queryKey: ['admin', 'instructor-invites'],
+    queryFn: async (): Promise<InstructorInvite[]> => {
+      const response = await fetch('/api/admin/invites', {
+        headers: await getAuthHeaders()
+      })
+      const data = await readJson(response, 'Failed to load invitations')
+      return data.invites
+    },
+    enabled,
+    staleTime: 60 * 1000,
+  })
+}
+
+export function useCreateInstructorInvite() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (email: string): Promise<CreatedInstructorInvite> => {
+      const response = await fetch('/api/admin/invites', {
+        method: 'POST',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify({ email })
+      })
+      return readJson(response, 'Failed to create invitation')
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'instructor-invites'] })
+    },
+    onError: (error) => {
+      logger.error('❌ Failed to create invitation', { error: error?.message || 'Unknown error' })
+    }
+  })
+}
+
+export function useRevokeInstructorInvite() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (inviteId: string): Promise<InstructorInvite> => {
+      const response = await fetch(`/api/admin/invites/${inviteId}`, {
+        method: 'DELETE',
+        headers: await getAuthHeaders()
+      })
+      const data = await readJson(response, 'Failed to revoke invitation')
+      return data.invite
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['admin', 'instructor-invites'] })
+    },
+    onError: (error) => {
+      logger.error('❌ Failed to revoke invitation', { error: error?.message || 'Unknown error' })
+    }
+  })
+}
@@ -0,0 +1,53 @@
+/**
+ * User settings hooks
+ */
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { getAuthHeaders, logger } from '@/lib'
+import type { UserSettings, UserSettingsUpdate } from '@/lib/user-settings'
+
+async function readJson(response: Response, fallbackError: string) {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || fallbackError)
+  }
+  return response.json()
+}
+
+export function useUserSettings() {
+  return useQuery({
+    queryKey: ['user-settings'],
+    queryFn: async (): Promise<UserSettings> => {
+      const response = await fetch('/api/settings', {
+        headers: await getAuthHeaders()
+      })
+      const data = await readJson(response, 'Failed to load settings')
+      return data.settings
+    },
+    staleTime: 5 * 60 * 1000,
+  })
+}
+
+export function useUpdateUserSettings() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: async (update: UserSettingsUpdate): Promise<UserSettings> => {
+      const response = await fetch('/api/settings', {
+        method: 'PUT',
+        headers: await getAuthHeaders(),
+        body: JSON.stringify(update)
+      })
+      const data = await readJson(response, 'Failed to save settings')
+      return data.settings
+    },
+    onSuccess: (settings) => {
+      queryClient.setQueryData(['user-settings'], settings)
+      // Leaderboard standings change with the opt-out, and streak days with the timezone
+      queryClient.invalidateQueries({ queryKey: ['leaderboards'] })
+      queryClient.invalidateQueries({ queryKey: ['user-stats'] })
+    },
+    onError: (error) => {
+      logger.error('❌ Failed to save settings', { error: error?.message || 'Unknown error' })
+    }
+  })
+}
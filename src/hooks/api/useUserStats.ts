@@ -0,0 +1,28 @@
+/**
+ * User stats hooks
+ */
+import { useQuery } from '@tanstack/react-query'
+import { getAuthHeaders } from '@/lib'
+import type { UserStats } from '@/lib/user-stats/types'
+
+async function readJson(response: Response, fallbackError: string) {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}))
+    throw new Error(errorData.error || fallbackError)
+  }
+  return response.json()
+}
+
+export function useMyStats() {
+  return useQuery({
+    queryKey: ['user-stats'],
+    queryFn: async (): Promise<UserStats> => {
+      const response = await fetch('/api/stats', {
+        headers: await getAuthHeaders()
+      })
+      const data = await readJson(response, 'Failed to load stats')
+      return data.stats
+    },
+    staleTime: 2 * 60 * 1000,
+  })
+}
@@ -0,0 +1,28 @@
+'use client'
+
+import { useCallback } from 'react'
+import { useQueryClient } from '@tanstack/react-query'
+import { toast } from 'sonner'
+import { useSound } from '@/contexts/SoundContext'
+import type { AwardedBadge } from '@/lib/badges/types'
+
+/**
+ * Celebrate newly awarded badges with the achievement sound and a toast each,
+ * and refresh the badge shelf
+ */
+export function useBadgeAnnouncer() {
+  const { play } = useSound()
+  const queryClient = useQueryClient()
+
+  return useCallback((badges: AwardedBadge[] | null | undefined) => {
+    if (!badges || badges.length === 0) return
+
+    queryClient.invalidateQueries({ queryKey: ['badges'] })
+    play('achievement')
+    badges.forEach(badge => {
+      toast.success(`Badge earned: ${badge.name}`, {
+        description: badge.description || `+${badge.points} points`
+      })
+    })
+  }, [play, queryClient])
+}
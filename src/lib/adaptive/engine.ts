@@ -0,0 +1,204 @@
+/**
+ * Adaptive Delivery Engine
+ * Turns an adaptive_quiz_settings row and the answers given so far into the next
+ * question to deliver, or a decision to stop.
+ */
+
+import { ITEM_ANALYSIS_THRESHOLDS } from '@/lib/grading/item-analytics'
+import {
+  estimateTheta,
+  probabilityCorrect,
+  itemInformation,
+  type AbilityEstimate,
+  type ThetaEstimationMethod
+} from './irt'
+
+export type ItemSelectionAlgorithm = 'maximum_information' | 'target_accuracy'
+
+export type AdaptiveStopReason = 'standard_error' | 'max_questions' | 'item_pool_exhausted'
+
+export interface AdaptiveSettings {
+  enabled: boolean
+  /** false delivers items in quiz order and only applies the stopping rule */
+  difficulty_adjustment: boolean
+  min_questions: number
+  max_questions: number
+  /** Probability of success aimed for by the 'target_accuracy' algorithm */
+  target_accuracy: number
+  stopping_criteria: {
+    standard_error: number
+    confidence?: number
+  }
+  item_selection_algorithm: ItemSelectionAlgorithm
+  theta_estimation_method: ThetaEstimationMethod
+}
+
+export interface AdaptiveItem {
+  id: string
+  difficulty: number
+  order_index: number
+}
+
+export interface AdaptiveResponse {
+  question_id: string
+  credit: number
+}
+
+export interface AdaptiveDecision extends AbilityEstimate {
+  answered: number
+  done: boolean
+  stop_reason?: AdaptiveStopReason
+  next_question_id?: string
+}
+
+// Defaults mirror the column defaults of adaptive_quiz_settings
+export const DEFAULT_ADAPTIVE_SETTINGS: AdaptiveSettings = {
+  enabled: false,
+  difficulty_adjustment: true,
+  min_questions: 5,
+  max_questions: 20,
+  target_accuracy: 0.7,
+  stopping_criteria: { standard_error: 0.3, confidence: 0.95 },
+  item_selection_algorithm: 'maximum_information',
+  theta_estimation_method: 'maximum_likelihood'
+}
+
+export const ITEM_SELECTION_ALGORITHMS: ItemSelectionAlgorithm[] = ['maximum_information', 'target_accuracy']
+export const THETA_ESTIMATION_METHODS: ThetaEstimationMethod[] = ['maximum_likelihood', 'eap']
+
+// Prior difficulties for items without enough response data
+const DIFFICULTY_LEVEL_PRIORS: Record<string, number> = {
+  easy: -1,
+  medium: 0,
+  hard: 1
+}
+
+const DIFFICULTY_RANGE = 3
+
+/**
+ * Fill in defaults and coerce an adaptive_quiz_settings row into engine settings
+ */
+export function normalizeAdaptiveSettings(row: Record<string, any> | null | undefined): AdaptiveSettings {
+  if (!row) return { ...DEFAULT_ADAPTIVE_SETTINGS }
+
+  const minQuestions = Math.max(1, Math.floor(Number(row.min_questions ?? DEFAULT_ADAPTIVE_SETTINGS.min_questions)))
+  const maxQuestions = Math.max(minQuestions, Math.floor(Number(row.max_questions ?? DEFAULT_ADAPTIVE_SETTINGS.max_questions)))
+  const targetAccuracy = Number(row.target_accuracy ?? DEFAULT_ADAPTIVE_SETTINGS.target_accuracy)
+  const standardError = Number(row.stopping_criteria?.standard_error ?? DEFAULT_ADAPTIVE_SETTINGS.stopping_criteria.standard_error)
+
+  return {
+    enabled: row.enabled === true,
+    difficulty_adjustment: row.difficulty_adjustment !== false,
+    min_questions: minQuestions,
+    max_questions: maxQuestions,
+    target_accuracy: targetAccuracy > 0 && targetAccuracy < 1 ? targetAccuracy : DEFAULT_ADAPTIVE_SETTINGS.target_accuracy,
+    stopping_criteria: {
+      ...DEFAULT_ADAPTIVE_SETTINGS.stopping_criteria,
+      ...(row.stopping_criteria || {}),
+      standard_error: standardError > 0 ? standardError : DEFAULT_ADAPTIVE_SETTINGS.stopping_criteria.standard_error
+    },
+    item_selection_algorithm: ITEM_SELECTION_ALGORITHMS.includes(row.item_selection_algorithm)
+      ? row.item_selection_algorithm
+      : DEFAULT_ADAPTIVE_SETTINGS.item_selection_algorithm,
+    theta_estimation_method: THETA_ESTIMATION_METHODS.includes(row.theta_estimation_method)
+      ? row.theta_estimation_method
+      : DEFAULT_ADAPTIVE_SETTINGS.theta_estimation_method
+  }
+}
+
+/**
+ * Item difficulty on the theta scale.
+ * Uses the logit of question_analytics.difficulty_rating once the item has enough
+ * attempts, otherwise the author's difficulty_level.
+ */
+export function getItemDifficulty(
+  question: { difficulty_level?: string | null },
+  analytics?: { total_attempts?: number | null; difficulty_rating?: number | string | null } | null
+): number {
+  const attempts = Number(analytics?.total_attempts) || 0
+  if (analytics && attempts >= ITEM_ANALYSIS_THRESHOLDS.MIN_ATTEMPTS) {
+    // difficulty_rating is the share of credit missed; keep it off 0 and 1 so the logit is finite
+    const missed = Math.min(0.98, Math.max(0.02, Number(analytics.difficulty_rating) || 0))
+    const difficulty = Math.log(missed / (1 - missed))
+    return Math.round(Math.min(DIFFICULTY_RANGE, Math.max(-DIFFICULTY_RANGE, difficulty)) * 1000) / 1000
+  }
+
+  return DIFFICULTY_LEVEL_PRIORS[question.difficulty_level || 'medium'] ?? 0
+}
+
+/**
+ * Score an attempt that ended before the stopping rule, e.g. when time ran out.
+ * Items short of min_questions count as wrong answers to the items the engine would
+ * have delivered next, so stopping early never scores better than answering.
+ */
+export function evaluateUnfinishedAttempt(
+  settings: AdaptiveSettings,
+  items: AdaptiveItem[],
+  responses: AdaptiveResponse[]
+): AdaptiveDecision {
+  const padded = [...responses]
+  let decision = evaluateAdaptiveState(settings, items, padded)
+
+  while (!decision.done && decision.answered < settings.min_questions && decision.next_question_id) {
+    padded.push({ question_id: decision.next_question_id, credit: 0 })
+    decision = evaluateAdaptiveState(settings, items, padded)
+  }
+
+  return decision
+}
+
+function selectNextItem(settings: AdaptiveSettings, candidates: AdaptiveItem[], theta: number): AdaptiveItem {
+  const byOrder = [...candidates].sort((a, b) => a.order_index - b.order_index)
+  if (!settings.difficulty_adjustment) return byOrder[0]
+
+  // Ties go to the earlier item so delivery is reproducible
+  const score = settings.item_selection_algorithm === 'target_accuracy'
+    ? (item: AdaptiveItem) => -Math.abs(probabilityCorrect(theta, item.difficulty) - settings.target_accuracy)
+    : (item: AdaptiveItem) => itemInformation(theta, item.difficulty)
+
+  return byOrder.reduce((best, item) => (score(item) > score(best) + 1e-9 ? item : best))
+}
+
+/**
+ * Estimate ability from the responses so far and decide whether to stop.
+ * Stops at max_questions, when the pool runs out, or once min_questions are answered
+ * and the standard error is within stopping_criteria.standard_error.
+ */
+export function evaluateAdaptiveState(
+  settings: AdaptiveSettings,
+  items: AdaptiveItem[],
+  responses: AdaptiveResponse[]
+): AdaptiveDecision {
+  const itemsById = new Map(items.map(item => [item.id, item]))
+  const observations = responses
+    .filter(response => itemsById.has(response.question_id))
+    .map(response => ({
+      difficulty: itemsById.get(response.question_id)!.difficulty,
+      credit: Math.min(1, Math.max(0, response.credit))
+    }))
+
+  const estimate = estimateTheta(observations, settings.theta_estimation_method)
+  const answered = observations.length
+  const answeredIds = new Set(responses.map(response => response.question_id))
+  const remaining = items.filter(item => !answeredIds.has(item.id))
+
+  let stopReason: AdaptiveStopReason | undefined
+  if (answered >= settings.max_questions) {
+    stopReason = 'max_questions'
+  } else if (remaining.length === 0) {
+    stopReason = 'item_pool_exhausted'
+  } else if (answered >= settings.min_questions && estimate.standard_error <= settings.stopping_criteria.standard_error) {
+    stopReason = 'standard_error'
+  }
+
+  if (stopReason) {
+    return { ...estimate, answered, done: true, stop_reason: stopReason }
+  }
+
+  return {
+    ...estimate,
+    answered,
+    done: false,
+    next_question_id: selectNextItem(settings, remaining, estimate.theta).id
+  }
+}
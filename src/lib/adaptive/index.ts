@@ -0,0 +1,41 @@
+/**
+ * Adaptive (CAT) delivery
+ * IRT ability estimation, item selection and server-side session state.
+ */
+
+export {
+  probabilityCorrect,
+  itemInformation,
+  estimateTheta,
+  thetaToPercentage,
+  THETA_RANGE,
+  type AbilityEstimate,
+  type AbilityObservation,
+  type ThetaEstimationMethod
+} from './irt'
+
+export {
+  normalizeAdaptiveSettings,
+  getItemDifficulty,
+  evaluateAdaptiveState,
+  evaluateUnfinishedAttempt,
+  DEFAULT_ADAPTIVE_SETTINGS,
+  ITEM_SELECTION_ALGORITHMS,
+  THETA_ESTIMATION_METHODS,
+  type AdaptiveSettings,
+  type AdaptiveItem,
+  type AdaptiveResponse,
+  type AdaptiveDecision,
+  type AdaptiveStopReason,
+  type ItemSelectionAlgorithm
+} from './engine'
+
+export {
+  loadAdaptiveSettings,
+  loadAdaptivePool,
+  evaluateSession,
+  getPendingQuestionId,
+  toPublicQuestion,
+  PUBLIC_QUESTION_FIELDS,
+  type AdaptivePool
+} from './session'
@@ -0,0 +1,130 @@
+/**
+ * Item Response Theory
+ * Rasch (1PL) model helpers for adaptive delivery: response probability, item
+ * information and ability (theta) estimation by maximum likelihood or EAP.
+ */
+
+export type ThetaEstimationMethod = 'maximum_likelihood' | 'eap'
+
+export interface AbilityObservation {
+  /** Item difficulty on the theta scale */
+  difficulty: number
+  /** Credit earned on the item (0-1); partial credit is treated as a fractional response */
+  credit: number
+}
+
+export interface AbilityEstimate {
+  theta: number
+  standard_error: number
+  method: ThetaEstimationMethod
+}
+
+// Ability scale used by the engine; estimates are clamped to it
+export const THETA_RANGE = { MIN: -4, MAX: 4 } as const
+
+// Standard normal prior for EAP, evaluated on a fixed quadrature grid
+const QUADRATURE_STEP = 0.1
+const QUADRATURE_POINTS = Array.from(
+  { length: Math.round((THETA_RANGE.MAX - THETA_RANGE.MIN) / QUADRATURE_STEP) + 1 },
+  (_, i) => THETA_RANGE.MIN + i * QUADRATURE_STEP
+)
+
+function clampTheta(theta: number): number {
+  return Math.min(THETA_RANGE.MAX, Math.max(THETA_RANGE.MIN, theta))
+}
+
+function round(value: number, digits = 3): number {
+  const factor = Math.pow(10, digits)
+  return Math.round(value * factor) / factor
+}
+
+/**
+ * Probability of a correct response at ability theta
+ */
+export function probabilityCorrect(theta: number, difficulty: number): number {
+  return 1 / (1 + Math.exp(-(theta - difficulty)))
+}
+
+/**
+ * Fisher information an item provides at ability theta
+ */
+export function itemInformation(theta: number, difficulty: number): number {
+  const p = probabilityCorrect(theta, difficulty)
+  return p * (1 - p)
+}
+
+/**
+ * Expected a posteriori estimate with a N(0, 1) prior.
+ * Always finite, so it is also the fallback when MLE has no solution.
+ */
+export function estimateThetaEAP(observations: AbilityObservation[]): AbilityEstimate {
+  let weightSum = 0
+  let thetaSum = 0
+  let thetaSquaredSum = 0
+
+  for (const theta of QUADRATURE_POINTS) {
+    let logLikelihood = -(theta * theta) / 2
+    for (const { difficulty, credit } of observations) {
+      const p = probabilityCorrect(theta, difficulty)
+      logLikelihood += credit * Math.log(p) + (1 - credit) * Math.log(1 - p)
+    }
+    const weight = Math.exp(logLikelihood)
+    weightSum += weight
+    thetaSum += weight * theta
+    thetaSquaredSum += weight * theta * theta
+  }
+
+  const mean = thetaSum / weightSum
+  const variance = Math.max(0, thetaSquaredSum / weightSum - mean * mean)
+
+  return { theta: round(mean), standard_error: round(Math.sqrt(variance)), method: 'eap' }
+}
+
+/**
+ * Maximum likelihood estimate by Newton-Raphson.
+ * All-correct or all-incorrect patterns have no finite MLE and fall back to EAP.
+ */
+export function estimateThetaMLE(observations: AbilityObservation[]): AbilityEstimate {
+  const totalCredit = observations.reduce((sum, o) => sum + o.credit, 0)
+  if (observations.length === 0 || totalCredit <= 0 || totalCredit >= observations.length) {
+    return estimateThetaEAP(observations)
+  }
+
+  let theta = 0
+  for (let iteration = 0; iteration < 50; iteration++) {
+    let gradient = 0
+    let information = 0
+    for (const { difficulty, credit } of observations) {
+      const p = probabilityCorrect(theta, difficulty)
+      gradient += credit - p
+      information += p * (1 - p)
+    }
+    if (information <= 0) break
+
+    const step = gradient / information
+    theta = clampTheta(theta + step)
+    if (Math.abs(step) < 1e-4) break
+  }
+
+  const testInformation = observations.reduce((sum, o) => sum + itemInformation(theta, o.difficulty), 0)
+
+  return {
+    theta: round(theta),
+    standard_error: round(testInformation > 0 ? 1 / Math.sqrt(testInformation) : Infinity),
+    method: 'maximum_likelihood'
+  }
+}
+
+export function estimateTheta(
+  observations: AbilityObservation[],
+  method: ThetaEstimationMethod = 'maximum_likelihood'
+): AbilityEstimate {
+  return method === 'eap' ? estimateThetaEAP(observations) : estimateThetaMLE(observations)
+}
+
+/**
+ * Map an ability estimate to 0-100: the expected score on an item of average difficulty
+ */
+export function thetaToPercentage(theta: number): number {
+  return Math.round(probabilityCorrect(theta, 0) * 10000) / 100
+}
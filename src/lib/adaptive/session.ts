@@ -0,0 +1,148 @@
+/**
+ * Adaptive Sessions
+ * Item pool loading and evaluation of adaptive attempts. The delivered sequence and
+ * answers live in quiz_sessions.session_data so the client cannot rewrite them.
+ */
+
+import { gradeQuestion } from '@/lib/grading'
+import type { GradableQuestion } from '@/lib/grading/types'
+import type { QuizSessionData } from '@/lib/quiz-sessions'
+import {
+  normalizeAdaptiveSettings,
+  getItemDifficulty,
+  evaluateAdaptiveState,
+  evaluateUnfinishedAttempt,
+  type AdaptiveSettings,
+  type AdaptiveItem,
+  type AdaptiveDecision
+} from './engine'
+
+export type AdaptivePoolQuestion = GradableQuestion & {
+  order_index: number
+  difficulty_level?: string | null
+  [key: string]: any
+}
+
+export interface AdaptivePool {
+  questions: AdaptivePoolQuestion[]
+  items: AdaptiveItem[]
+}
+
+// Essays and speaking answers wait for manual grading, so they cannot drive the ability estimate
+const NON_ADAPTIVE_TYPES = new Set(['essay', 'speaking'])
+
+// Question fields safe to send to the student (no answer keys or explanations)
+export const PUBLIC_QUESTION_FIELDS = [
+  'id',
+  'question',
+  'question_type',
+  'options',
+  'order_index',
+  'points',
+  'difficulty_level',
+  'image_url',
+  'audio_url',
+  'video_url',
+  'time_limit_seconds',
+  'speaking_settings',
+  'writing_settings'
+] as const
+
+export function toPublicQuestion(question: AdaptivePoolQuestion) {
+  return Object.fromEntries(PUBLIC_QUESTION_FIELDS.map(field => [field, question[field] ?? null]))
+}
+
+/**
+ * Enabled adaptive settings for a quiz, or null when the quiz is delivered normally
+ */
+export async function loadAdaptiveSettings(serviceClient: any, quizId: string): Promise<AdaptiveSettings | null> {
+  const { data, error } = await serviceClient
+    .from('adaptive_quiz_settings')
+    .select('*')
+    .eq('quiz_id', quizId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load adaptive settings: ${error.message}`)
+  }
+
+  const settings = normalizeAdaptiveSettings(data)
+  return settings.enabled ? settings : null
+}
+
+/**
+ * Auto-gradable questions of a quiz with their calibrated difficulties
+ */
+export async function loadAdaptivePool(serviceClient: any, quizId: string): Promise<AdaptivePool> {
+  const { data: rows, error } = await serviceClient
+    .from('quiz_questions')
+    .select(`
+      ${PUBLIC_QUESTION_FIELDS.join(', ')},
+      correct_answer,
+      correct_answer_text,
+      correct_answer_json,
+      weight,
+      partial_credit,
+      question_metadata
+    `)
+    .eq('quiz_id', quizId)
+    .order('order_index')
+
+  if (error) {
+    throw new Error(`Failed to load questions: ${error.message}`)
+  }
+
+  const questions: AdaptivePoolQuestion[] = (rows || []).filter(
+    (q: AdaptivePoolQuestion) => !NON_ADAPTIVE_TYPES.has(q.question_type)
+  )
+
+  const { data: analytics } = questions.length > 0
+    ? await serviceClient
+        .from('question_analytics')
+        .select('question_id, total_attempts, difficulty_rating')
+        .in('question_id', questions.map(q => q.id))
+    : { data: [] }
+
+  const analyticsById = new Map((analytics || []).map((row: any) => [row.question_id, row]))
+
+  return {
+    questions,
+    items: questions.map(q => ({
+      id: q.id,
+      difficulty: getItemDifficulty(q, analyticsById.get(q.id) as any),
+      order_index: q.order_index
+    }))
+  }
+}
+
+/**
+ * Grade the stored responses and run the engine over them. An unfinished
+ * session (out of time) is scored with the items it is short counted as wrong.
+ */
+export function evaluateSession(
+  settings: AdaptiveSettings,
+  pool: AdaptivePool,
+  sessionData: QuizSessionData,
+  unfinished: boolean = false
+): AdaptiveDecision {
+  const questionsById = new Map(pool.questions.map(q => [q.id, q]))
+  const responses = Object.entries(sessionData.responses || {})
+    .filter(([questionId]) => questionsById.has(questionId))
+    .map(([questionId, answer]) => ({
+      question_id: questionId,
+      credit: gradeQuestion(questionsById.get(questionId)!, answer).credit
+    }))
+
+  return unfinished
+    ? evaluateUnfinishedAttempt(settings, pool.items, responses)
+    : evaluateAdaptiveState(settings, pool.items, responses)
+}
+
+/**
+ * The delivered question still waiting for an answer, if any
+ */
+export function getPendingQuestionId(sessionData: QuizSessionData): string | null {
+  const administered = sessionData.administered || []
+  const last = administered[administered.length - 1]
+  return last && !(last in (sessionData.responses || {})) ? last : null
+}
@@ -0,0 +1,294 @@
+/**
+ * Admin Activity Log
+ * Records changes made by admins in admin_activity_logs: who changed which
+ * record, with the values before and after, and where the request came from.
+ * API routes record through withAdminAudit (lib/api-auth); the audit page
+ * reads back through listAdminActivity.
+ */
+
+import { isIP } from 'net'
+import { getClientIdentifier } from './rate-limit'
+
+export interface AdminActivityInput {
+  /** Dotted verb, e.g. 'user.role_changed' */
+  action: string
+  resource_type: string
+  resource_id: string
+  old_values?: Record<string, any> | null
+  new_values?: Record<string, any> | null
+}
+
+/** The tables behind each audited resource type, for reading a row before it changes */
+export const AUDIT_RESOURCE_TABLES = {
+  course: 'courses',
+  quiz: 'quizzes',
+  quiz_question: 'quiz_questions',
+  user: 'users',
+  enrollment: 'enrollments',
+  instructor_invite: 'instructor_invites'
+} as const
+
+export type AuditResourceType = keyof typeof AUDIT_RESOURCE_TABLES
+
+export const AUDIT_RESOURCE_TYPES = Object.keys(AUDIT_RESOURCE_TABLES) as AuditResourceType[]
+
+export interface AuditChange {
+  action: string
+  resource_type: AuditResourceType
+  resource_id: string
+  /** The row before the change; omit for creates */
+  before?: Record<string, any> | null
+  /** The row after the change; omit for deletes */
+  after?: Record<string, any> | null
+}
+
+export interface AdminActivityFilters {
+  admin_user_id?: string
+  resource_type?: string
+  resource_id?: string
+  action?: string
+  /** ISO timestamps, inclusive */
+  from?: string
+  to?: string
+  page?: number
+  limit?: number
+}
+
+export interface AdminActivityEntry {
+  id: string
+  admin_user_id: string | null
+  admin_name: string | null
+  admin_email: string | null
+  action: string
+  resource_type: string
+  resource_id: string
+  old_values: Record<string, any> | null
+  new_values: Record<string, any> | null
+  ip_address: string | null
+  user_agent: string | null
+  created_at: string
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * Filters from the audit page's query string; returns the first problem found
+ */
+export function parseAdminActivityFilters(params: URLSearchParams): { filters: AdminActivityFilters } | { error: string } {
+  const filters: AdminActivityFilters = {
+    page: Math.max(1, parseInt(params.get('page') || '1') || 1),
+    limit: Math.min(100, Math.max(1, parseInt(params.get('limit') || '50') || 50))
+  }
+
+  for (const key of ['admin_user_id', 'resource_id'] as const) {
+    const value = params.get(key)
+    if (!value) continue
+    if (!UUID_PATTERN.test(value)) return { error: `${key} must be an id` }
+    filters[key] = value
+  }
+
+  const resourceType = params.get('resource_type')
+  if (resourceType) {
+    if (!(resourceType in AUDIT_RESOURCE_TABLES)) return { error: `Unknown resource type: ${resourceType}` }
+    filters.resource_type = resourceType
+  }
+
+  const action = params.get('action')
+  if (action) {
+    if (action.length > 100) return { error: 'action is too long' }
+    filters.action = action
+  }
+
+  for (const key of ['from', 'to'] as const) {
+    const value = params.get(key)
+    if (!value) continue
+    const date = new Date(value)
+    if (isNaN(date.getTime())) return { error: `${key} must be a date` }
+    filters[key] = date.toISOString()
+  }
+  if (filters.from && filters.to && filters.from > filters.to) {
+    return { error: 'from must be before to' }
+  }
+
+  return { filters }
+}
+
+// Bookkeeping columns that change on every write and say nothing about the change
+const IGNORED_FIELDS = new Set(['updated_at', 'search_vector'])
+const MAX_STRING_LENGTH = 2000
+
+function toAuditValue(value: any): any {
+  if (typeof value === 'string' && value.length > MAX_STRING_LENGTH) {
+    return `${value.slice(0, MAX_STRING_LENGTH)}… (${value.length} characters)`
+  }
+  return value
+}
+
+function toAuditValues(row: Record<string, any>): Record<string, any> {
+  const values: Record<string, any> = {}
+  for (const [key, value] of Object.entries(row)) {
+    if (!IGNORED_FIELDS.has(key)) values[key] = toAuditValue(value)
+  }
+  return values
+}
+
+/**
+ * The values to log for a change: the whole row for creates and deletes, and
+ * only the fields that differ for updates. Returns null when an update
+ * changed nothing worth recording.
+ */
+export function diffAuditValues(
+  before: Record<string, any> | null | undefined,
+  after: Record<string, any> | null | undefined
+): { old_values: Record<string, any> | null; new_values: Record<string, any> | null } | null {
+  if (!before && !after) return null
+  if (!before) return { old_values: null, new_values: toAuditValues(after!) }
+  if (!after) return { old_values: toAuditValues(before), new_values: null }
+
+  const oldValues: Record<string, any> = {}
+  const newValues: Record<string, any> = {}
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (IGNORED_FIELDS.has(key)) continue
+    if (JSON.stringify(before[key] ?? null) === JSON.stringify(after[key] ?? null)) continue
+
+    oldValues[key] = toAuditValue(before[key] ?? null)
+    newValues[key] = toAuditValue(after[key] ?? null)
+  }
+
+  if (Object.keys(newValues).length === 0) return null
+  return { old_values: oldValues, new_values: newValues }
+}
+
+/**
+ * The log entries for a set of changes, leaving out updates that changed nothing
+ */
+export function toAdminActivities(changes: AuditChange[]): AdminActivityInput[] {
+  const activities: AdminActivityInput[] = []
+  for (const change of changes) {
+    const values = diffAuditValues(change.before, change.after)
+    if (!values) continue
+    activities.push({
+      action: change.action,
+      resource_type: change.resource_type,
+      resource_id: change.resource_id,
+      ...values
+    })
+  }
+  return activities
+}
+
+/**
+ * Current rows for the given resources, keyed by id, so a route can keep the
+ * before-values of what it is about to change
+ */
+export async function loadAuditSnapshots(
+  serviceClient: any,
+  resourceType: AuditResourceType,
+  ids: string[]
+): Promise<Map<string, Record<string, any>>> {
+  const snapshots = new Map<string, Record<string, any>>()
+  if (ids.length === 0) return snapshots
+
+  const { data, error } = await serviceClient
+    .from(AUDIT_RESOURCE_TABLES[resourceType])
+    .select('*')
+    .in('id', ids)
+
+  if (error) {
+    throw new Error(`Failed to read ${resourceType} for the audit log: ${error.message}`)
+  }
+
+  ;(data || []).forEach((row: any) => snapshots.set(row.id, row))
+  return snapshots
+}
+
+/**
+ * Client IP and user agent for the log; the IP is dropped unless it parses as one, since the column is inet
+ */
+export function getRequestMetadata(request?: Request | null): { ip_address: string | null; user_agent: string | null } {
+  if (!request) return { ip_address: null, user_agent: null }
+
+  const ip = getClientIdentifier(request)
+  return {
+    ip_address: isIP(ip) ? ip : null,
+    user_agent: request.headers.get('user-agent')?.slice(0, 500) || null
+  }
+}
+
+/**
+ * Record admin changes. Throws when the entries can't be written, so callers
+ * decide whether a change may go unrecorded.
+ */
+export async function logAdminActivities(
+  serviceClient: any,
+  adminUserId: string | null,
+  activities: AdminActivityInput[],
+  request?: Request | null
+): Promise<void> {
+  if (activities.length === 0) return
+
+  const metadata = getRequestMetadata(request)
+  const { error } = await serviceClient
+    .from('admin_activity_logs')
+    .insert(activities.map(activity => ({
+      admin_user_id: adminUserId,
+      action: activity.action,
+      resource_type: activity.resource_type,
+      resource_id: activity.resource_id,
+      old_values: activity.old_values ?? null,
+      new_values: activity.new_values ?? null,
+      ...metadata
+    })))
+
+  if (error) {
+    throw new Error(`Failed to record admin activity: ${error.message}`)
+  }
+}
+
+export async function logAdminActivity(
+  serviceClient: any,
+  adminUserId: string | null,
+  activity: AdminActivityInput,
+  request?: Request | null
+): Promise<void> {
+  return logAdminActivities(serviceClient, adminUserId, [activity], request)
+}
+
+/**
+ * One page of the log, newest first, with the acting admin's name and email
+ */
+export async function listAdminActivity(
+  serviceClient: any,
+  filters: AdminActivityFilters = {}
+): Promise<{ entries: AdminActivityEntry[]; total: number }> {
+  const page = filters.page || 1
+  const limit = filters.limit || 50
+  const offset = (page - 1) * limit
+
+  let query = serviceClient
+    .from('admin_activity_logs')
+    .select('*, users!admin_activity_logs_admin_user_id_fkey (name, email)', { count: 'exact' })
+
+  if (filters.admin_user_id) query = query.eq('admin_user_id', filters.admin_user_id)
+  if (filters.resource_type) query = query.eq('resource_type', filters.resource_type)
+  if (filters.resource_id) query = query.eq('resource_id', filters.resource_id)
+  if (filters.action) query = query.eq('action', filters.action)
+  if (filters.from) query = query.gte('created_at', filters.from)
+  if (filters.to) query = query.lte('created_at', filters.to)
+
+  const { data, error, count } = await query
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1)
+
+  if (error) {
+    throw new Error(`Failed to load admin activity: ${error.message}`)
+  }
+
+  const entries = (data || []).map(({ users: admin, ...entry }: any) => ({
+    ...entry,
+    admin_name: admin?.name || null,
+    admin_email: admin?.email || null
+  }))
+
+  return { entries, total: count || 0 }
+}
@@ -7,6 +7,13 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@supabase/ssr'
 import { cookies } from 'next/headers'
 import { logger } from './logger'
+import {
+  loadAuditSnapshots,
+  logAdminActivities,
+  toAdminActivities,
+  type AuditChange,
+  type AuditResourceType
+} from './admin-activity'
 
 export interface AuthenticatedUser {
   id: string
@@ -126,20 +133,17 @@ export async function verifyAuthentication(supabase: any): Promise<Authenticated
     .eq('id', user.id)
     .single()
 
+  // Roles come only from the users table; without a record the user gets the least access
   if (userError) {
-    logger.warn('User role lookup failed, using email-based determination', { 
+    logger.warn('User role lookup failed, treating user as a student', { 
       userId: user.id, 
       error: userError 
     })
     
-    // Fallback to email-based role determination
-    const { determineRole } = await import('./auth-helpers')
-    const role = determineRole(user.email!)
-    
     return {
       id: user.id,
       email: user.email!,
-      role: role as 'admin' | 'instructor' | 'student'
+      role: 'student'
     }
   }
 
@@ -211,6 +215,73 @@ export function withAdminAuth(
   }
 }
 
+export interface AuditRecorder {
+  /** The row as it is now, to pass as `before` once it has been changed */
+  snapshot: (serviceClient: any, resourceType: AuditResourceType, id: string) => Promise<Record<string, any> | null>
+  /** Rows as they are now, keyed by id, for bulk changes */
+  snapshots: (serviceClient: any, resourceType: AuditResourceType, ids: string[]) => Promise<Map<string, Record<string, any>>>
+  /** Note a change; it is logged only if the handler responds successfully */
+  record: (change: AuditChange | AuditChange[]) => void
+}
+
+type AuditedHandler = (request: NextRequest, user: AuthenticatedUser, audit: AuditRecorder) => Promise<NextResponse>
+
+/**
+ * Runs the handler with an AuditRecorder and writes what it recorded to
+ * admin_activity_logs once the response is a success
+ */
+function withAuditRecorder(handler: AuditedHandler) {
+  return async (request: NextRequest, user: AuthenticatedUser) => {
+    const changes: AuditChange[] = []
+    const audit: AuditRecorder = {
+      snapshot: async (serviceClient, resourceType, id) => {
+        const rows = await loadAuditSnapshots(serviceClient, resourceType, [id])
+        return rows.get(id) || null
+      },
+      snapshots: loadAuditSnapshots,
+      record: (change) => {
+        changes.push(...(Array.isArray(change) ? change : [change]))
+      }
+    }
+
+    const response = await handler(request, user, audit)
+
+    if (response.ok && changes.length > 0) {
+      // The change has already happened, so a logging failure must not turn it into an error
+      try {
+        await logAdminActivities(createServiceClient(), user.id, toAdminActivities(changes), request)
+      } catch (error: any) {
+        logger.error('Failed to record admin activity', {
+          path: request.nextUrl.pathname,
+          adminUserId: user.id,
+          changes: changes.length,
+          error: error.message
+        })
+      }
+    }
+
+    return response
+  }
+}
+
+/**
+ * withAdminAuth for routes that change data: the handler records each change
+ * with its before and after values, and they are written to
+ * admin_activity_logs once the response is a success.
+ * Usage: export const DELETE = withAdminAudit(async (request, user, audit) => { ... })
+ */
+export function withAdminAudit(handler: AuditedHandler) {
+  return withAdminAuth(withAuditRecorder(handler))
+}
+
+/**
+ * withAdminAudit for the authoring routes instructors share with admins; the
+ * handler must keep instructors to their own content (see lib/content-scope)
+ */
+export function withInstructorAudit(handler: AuditedHandler) {
+  return withInstructorAuth(withAuditRecorder(handler))
+}
+
 /**
  * Higher-order function to wrap API routes with instructor authentication
  */
@@ -279,3 +350,18 @@ export async function withServiceRole<T>(
   const serviceClient = createServiceClient()
   return await operation(serviceClient)
 }
+
+/**
+ * withServiceRole for the course and quiz authoring routes, which instructors
+ * can use too; the route is responsible for limiting them to their own content
+ */
+export async function withAuthoringServiceRole<T>(
+  user: AuthenticatedUser,
+  operation: (supabase: any) => Promise<T>
+): Promise<T> {
+  if (user.role !== 'admin' && user.role !== 'instructor') {
+    throw new Error('Service role operations require instructor access')
+  }
+
+  return await operation(createServiceClient())
+}
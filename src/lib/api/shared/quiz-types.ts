@@ -39,7 +39,7 @@ export interface UpdateQuizRequest extends Partial<CreateQuizRequest> {}
 export interface CreateQuestionRequest {
   quiz_id: string
   question: string
-  question_type: 'multiple_choice' | 'single_choice' | 'true_false' | 'fill_blank' | 'essay' | 'matching' | 'ordering'
+  question_type: 'multiple_choice' | 'single_choice' | 'true_false' | 'fill_blank' | 'essay' | 'matching' | 'ordering' | 'speaking'
   options?: any
   correct_answer: any
   correct_answer_text?: string
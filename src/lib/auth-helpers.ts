@@ -10,32 +10,6 @@ import type { User } from './supabase'
  */
 export type UserRole = 'student' | 'instructor' | 'admin'
 
-/**
- * Admin email whitelist
- */
-export const ADMIN_EMAILS = [
-  'admin@acadex.com',
-  'arika.krisnadevi@gmail.com',
-]
-
-/**
- * Determine user role based on email
- */
-export function determineRole(email: string): UserRole {
-  const normalized = email.toLowerCase().trim()
-  
-  if (ADMIN_EMAILS.includes(normalized)) {
-    return 'admin'
-  }
-  
-  // Development mode: allow emails containing "admin"
-  if (process.env.NODE_ENV === 'development' && normalized.includes('admin')) {
-    return 'admin'
-  }
-  
-  return 'student'
-}
-
 /**
  * Simple role checks
  */
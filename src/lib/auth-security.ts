@@ -6,68 +6,35 @@
 import { logger } from './logger'
 import type { User } from './supabase'
 import { sanitizeRedirectUrl, SAFE_REDIRECTS } from './redirect-security'
+import {
+  getCurrentPlatformSettings,
+  getPasswordPolicy,
+  getPasswordRequirements,
+  type PasswordPolicy,
+  type PlatformSettings
+} from './platform-settings'
 
 // Valid roles in our system (keeping it simple)
 export type UserRole = 'student' | 'instructor' | 'admin'
 
 // Security configuration
+// The session timeout and login attempt limit come from the admin security
+// settings; server code passes them in from getPlatformSettings()
 export const AUTH_CONFIG = {
-  // Admin access configuration
-  ADMIN_EMAILS: [
-    'admin@acadex.com',
-    'arika.krisnadevi@gmail.com',
-    // Add more admin emails here as needed
-  ] as string[],
-  
-  // Instructor access configuration
-  INSTRUCTOR_EMAILS: [
-    'instructor01@acadex.com',
-    // Add more instructor emails here as needed
-  ] as string[],
-  
-  // Session security
-  SESSION_TIMEOUT: 8 * 60 * 60 * 1000, // 8 hours in milliseconds
   REMEMBER_ME_TIMEOUT: 30 * 24 * 60 * 60 * 1000, // 30 days in milliseconds
   
   // Rate limiting
-  MAX_LOGIN_ATTEMPTS: 5,
   LOGIN_COOLDOWN: 15 * 60 * 1000, // 15 minutes
   
-  // Password requirements
-  MIN_PASSWORD_LENGTH: 8,
-  REQUIRE_SPECIAL_CHARS: true,
-  REQUIRE_NUMBERS: true,
-  REQUIRE_UPPERCASE: true,
+  // Password requirements from the settings this process last loaded (the
+  // defaults until then); the auth routes check the freshly loaded policy
+  get PASSWORD_POLICY(): PasswordPolicy {
+    return getPasswordPolicy(getCurrentPlatformSettings().security)
+  },
 } as const
 
 // Security utilities
 export class AuthSecurity {
-  /**
-   * Determines user role based on email (simple but secure)
-   */
-  static determineRole(email: string): UserRole {
-    const normalizedEmail = email.toLowerCase().trim()
-    
-    // Check against hardcoded admin emails first
-    if (AUTH_CONFIG.ADMIN_EMAILS.includes(normalizedEmail)) {
-      logger.info('Admin access granted (hardcoded)', { email: normalizedEmail })
-      return 'admin'
-    }
-
-    // Development mode: allow emails containing "admin" (but not ALL emails)
-    if (process.env.NODE_ENV === 'development' && normalizedEmail.includes('admin')) {
-      logger.info('Admin access granted (development pattern)', { email: normalizedEmail })
-      return 'admin'
-    }
-
-    if (AUTH_CONFIG.INSTRUCTOR_EMAILS.includes(normalizedEmail)) {
-      logger.info('Instructor access granted', { email: normalizedEmail })
-      return 'instructor'
-    }
-    
-    return 'student'
-  }
-
   /**
    * Validates if user has admin privileges
    */
@@ -114,29 +81,15 @@ export class AuthSecurity {
   }
 
   /**
-   * Validates password strength
+   * Validates password strength against the platform password policy
    */
-  static validatePassword(password: string): {
+  static validatePassword(password: string, policy: PasswordPolicy = AUTH_CONFIG.PASSWORD_POLICY): {
     isValid: boolean
     errors: string[]
   } {
-    const errors: string[] = []
-
-    if (password.length < AUTH_CONFIG.MIN_PASSWORD_LENGTH) {
-      errors.push(`Password must be at least ${AUTH_CONFIG.MIN_PASSWORD_LENGTH} characters long`)
-    }
-
-    if (AUTH_CONFIG.REQUIRE_UPPERCASE && !/[A-Z]/.test(password)) {
-      errors.push('Password must contain at least one uppercase letter')
-    }
-
-    if (AUTH_CONFIG.REQUIRE_NUMBERS && !/\d/.test(password)) {
-      errors.push('Password must contain at least one number')
-    }
-
-    if (AUTH_CONFIG.REQUIRE_SPECIAL_CHARS && !/[!@#$%^&*(),.?":{}|<>]/.test(password)) {
-      errors.push('Password must contain at least one special character')
-    }
+    const errors = getPasswordRequirements(policy)
+      .filter(requirement => !requirement.test(password))
+      .map(requirement => requirement.message)
 
     return {
       isValid: errors.length === 0,
@@ -164,11 +117,15 @@ export class AuthSecurity {
   }
 
   /**
-   * Validates session timeout
+   * Validates session timeout; security.session_timeout is in hours
    */
-  static isSessionValid(sessionCreated: number, rememberMe: boolean = false): boolean {
+  static isSessionValid(
+    sessionCreated: number,
+    security: Pick<PlatformSettings['security'], 'session_timeout'>,
+    rememberMe: boolean = false
+  ): boolean {
     const now = Date.now()
-    const timeout = rememberMe ? AUTH_CONFIG.REMEMBER_ME_TIMEOUT : AUTH_CONFIG.SESSION_TIMEOUT
+    const timeout = rememberMe ? AUTH_CONFIG.REMEMBER_ME_TIMEOUT : security.session_timeout * 60 * 60 * 1000
     
     return (now - sessionCreated) < timeout
   }
@@ -309,7 +266,7 @@ export class AuthSecurity {
 class AuthRateLimiter {
   private attempts: Map<string, { count: number; lastAttempt: number }> = new Map()
 
-  isBlocked(identifier: string): boolean {
+  isBlocked(identifier: string, maxAttempts: number): boolean {
     const record = this.attempts.get(identifier)
     if (!record) return false
 
@@ -322,10 +279,10 @@ class AuthRateLimiter {
       return false
     }
 
-    return record.count >= AUTH_CONFIG.MAX_LOGIN_ATTEMPTS
+    return record.count >= maxAttempts
   }
 
-  recordAttempt(identifier: string, success: boolean) {
+  recordAttempt(identifier: string, success: boolean, maxAttempts: number) {
     const now = Date.now()
     
     if (success) {
@@ -348,7 +305,7 @@ class AuthRateLimiter {
     logger.warn('Failed login attempt', {
       identifier,
       attempts: record.count,
-      blocked: record.count >= AUTH_CONFIG.MAX_LOGIN_ATTEMPTS
+      blocked: record.count >= maxAttempts
     })
   }
 
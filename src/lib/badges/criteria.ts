@@ -0,0 +1,274 @@
+/**
+ * Badge Rules
+ * Validation for the badge designer and evaluation of badges.criteria against a
+ * learner's facts, kept free of database access so the engine, API routes and
+ * tests share them.
+ */
+
+import {
+  BADGE_RARITIES,
+  QUIZ_DIFFICULTIES,
+  type BadgeCriteria,
+  type BadgeCriteriaType,
+  type BadgeEventType,
+  type BadgeInput,
+  type BadgeProgress,
+  type LearnerFact,
+  type LearnerFacts
+} from './types'
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const MAX_TARGET = 10000
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const BADGE_CRITERIA_TYPES: BadgeCriteriaType[] = [
+  'quizzes_passed',
+  'perfect_score',
+  'streak_days',
+  'courses_completed',
+  'courses_enrolled',
+  'lessons_completed',
+  'learning_paths_completed'
+]
+
+/**
+ * Events after which each kind of badge can newly be met. A course is completed
+ * by its last lesson and a path by a quiz, so those badges follow those events.
+ */
+export const BADGE_TRIGGERS: Record<BadgeCriteriaType, BadgeEventType[]> = {
+  quizzes_passed: ['quiz_submitted', 'quiz_graded'],
+  perfect_score: ['quiz_submitted', 'quiz_graded'],
+  streak_days: ['quiz_submitted', 'lesson_completed'],
+  courses_completed: ['lesson_completed'],
+  courses_enrolled: ['enrollment'],
+  lessons_completed: ['lesson_completed'],
+  learning_paths_completed: ['quiz_submitted', 'quiz_graded']
+}
+
+/** The facts each kind of badge is evaluated on */
+export const CRITERIA_FACTS: Record<BadgeCriteriaType, LearnerFact> = {
+  quizzes_passed: 'passed_quiz_ids',
+  perfect_score: 'perfect_scores',
+  streak_days: 'activity_dates',
+  courses_completed: 'completed_course_ids',
+  courses_enrolled: 'enrolled_course_ids',
+  lessons_completed: 'completed_lesson_count',
+  learning_paths_completed: 'completed_path_ids'
+}
+
+function isTarget(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 1 && value <= MAX_TARGET
+}
+
+/**
+ * Validation for a criteria object from the designer; returns the first problem found
+ */
+export function validateBadgeCriteria(criteria: any): string | null {
+  if (!criteria || typeof criteria !== 'object' || Array.isArray(criteria)) {
+    return 'Criteria are required'
+  }
+  if (!BADGE_CRITERIA_TYPES.includes(criteria.type)) {
+    return `Criteria type must be one of: ${BADGE_CRITERIA_TYPES.join(', ')}`
+  }
+
+  if (criteria.type === 'streak_days') {
+    return isTarget(criteria.days) ? null : `Streak days must be a whole number between 1 and ${MAX_TARGET}`
+  }
+  if (!isTarget(criteria.count)) {
+    return `Count must be a whole number between 1 and ${MAX_TARGET}`
+  }
+  if (criteria.type === 'perfect_score' && criteria.difficulty !== undefined && criteria.difficulty !== null &&
+    !QUIZ_DIFFICULTIES.includes(criteria.difficulty)) {
+    return `Difficulty must be one of: ${QUIZ_DIFFICULTIES.join(', ')}`
+  }
+  if (criteria.type === 'courses_completed' && criteria.course_id && !UUID_PATTERN.test(criteria.course_id)) {
+    return 'Course must be a course ID'
+  }
+  if (criteria.type === 'learning_paths_completed' && criteria.learning_path_id && !UUID_PATTERN.test(criteria.learning_path_id)) {
+    return 'Learning path must be a learning path ID'
+  }
+
+  return null
+}
+
+/**
+ * Criteria with only the fields their type uses. Returns null for criteria the
+ * engine doesn't understand (hand-written rows), which are never awarded.
+ */
+export function normalizeBadgeCriteria(criteria: any): BadgeCriteria | null {
+  if (validateBadgeCriteria(criteria)) return null
+
+  switch (criteria.type as BadgeCriteriaType) {
+    case 'streak_days':
+      return { type: 'streak_days', days: criteria.days }
+    case 'perfect_score':
+      return criteria.difficulty
+        ? { type: 'perfect_score', count: criteria.count, difficulty: criteria.difficulty }
+        : { type: 'perfect_score', count: criteria.count }
+    case 'courses_completed':
+      return criteria.course_id
+        ? { type: 'courses_completed', count: 1, course_id: criteria.course_id }
+        : { type: 'courses_completed', count: criteria.count }
+    case 'learning_paths_completed':
+      return criteria.learning_path_id
+        ? { type: 'learning_paths_completed', count: 1, learning_path_id: criteria.learning_path_id }
+        : { type: 'learning_paths_completed', count: criteria.count }
+    default:
+      return { type: criteria.type, count: criteria.count }
+  }
+}
+
+/**
+ * Validation for badge fields sent by the designer; returns the first problem found.
+ * With partial=true only the fields present are checked (updates).
+ */
+export function validateBadge(body: any, partial = false): string | null {
+  if (!body || typeof body !== 'object') return 'Badge data is required'
+
+  const has = (field: string) => body[field] !== undefined
+
+  if ((!partial || has('name')) && (typeof body.name !== 'string' || !body.name.trim() || body.name.length > 100)) {
+    return 'Name is required and must be at most 100 characters'
+  }
+  if (has('description') && body.description !== null && typeof body.description !== 'string') {
+    return 'Description must be text'
+  }
+  if (has('icon_url') && body.icon_url !== null && body.icon_url !== '' &&
+    (typeof body.icon_url !== 'string' || !/^(https?:\/\/|\/)/.test(body.icon_url))) {
+    return 'Icon must be an http(s) URL or a site path'
+  }
+  if (!partial || has('criteria')) {
+    const criteriaError = validateBadgeCriteria(body.criteria)
+    if (criteriaError) return criteriaError
+  }
+  if (has('points') && (typeof body.points !== 'number' || !Number.isInteger(body.points) || body.points < 0)) {
+    return 'Points must be a whole number of 0 or more'
+  }
+  if (has('rarity') && !BADGE_RARITIES.includes(body.rarity)) {
+    return `Rarity must be one of: ${BADGE_RARITIES.join(', ')}`
+  }
+  if (has('category') && body.category !== null && typeof body.category !== 'string') {
+    return 'Category must be text'
+  }
+  if (has('is_active') && typeof body.is_active !== 'boolean') {
+    return 'is_active must be true or false'
+  }
+  if (has('auto_award') && typeof body.auto_award !== 'boolean') {
+    return 'auto_award must be true or false'
+  }
+
+  return null
+}
+
+/**
+ * The editable fields present in a request body, normalized for storage
+ */
+export function pickBadgeFields(body: Record<string, any>): Partial<BadgeInput> {
+  const fields: Partial<BadgeInput> = {}
+
+  if (body.name !== undefined) fields.name = body.name.trim()
+  if (body.description !== undefined) fields.description = body.description?.trim() || null
+  if (body.icon_url !== undefined) fields.icon_url = body.icon_url?.trim() || null
+  if (body.criteria !== undefined) fields.criteria = normalizeBadgeCriteria(body.criteria)!
+  if (body.points !== undefined) fields.points = body.points
+  if (body.rarity !== undefined) fields.rarity = body.rarity
+  if (body.category !== undefined) fields.category = body.category?.trim() || null
+  if (body.is_active !== undefined) fields.is_active = body.is_active
+  if (body.auto_award !== undefined) fields.auto_award = body.auto_award
+
+  return fields
+}
+
+/**
+ * Plain-language version of a rule, for the designer and the badge shelf
+ */
+export function describeBadgeCriteria(criteria: BadgeCriteria | null): string {
+  if (!criteria) return 'Awarded manually'
+
+  const plural = (count: number, word: string, words = `${word}s`) => `${count} ${count === 1 ? word : words}`
+
+  switch (criteria.type) {
+    case 'quizzes_passed':
+      return `Pass ${plural(criteria.count, 'quiz', 'quizzes')}`
+    case 'perfect_score': {
+      const level = criteria.difficulty ? `${criteria.difficulty} ` : ''
+      return criteria.count === 1
+        ? `Score 100% on ${/^[aeiu]/.test(level) ? 'an' : 'a'} ${level}quiz`
+        : `Score 100% on ${criteria.count} ${level}quizzes`
+    }
+    case 'streak_days':
+      return `Study ${criteria.days} days in a row`
+    case 'courses_completed':
+      return criteria.course_id ? 'Complete a specific course' : `Complete ${plural(criteria.count, 'course')}`
+    case 'courses_enrolled':
+      return `Enroll in ${plural(criteria.count, 'course')}`
+    case 'lessons_completed':
+      return `Complete ${plural(criteria.count, 'lesson')}`
+    case 'learning_paths_completed':
+      return criteria.learning_path_id
+        ? 'Complete a specific learning path'
+        : `Complete ${plural(criteria.count, 'learning path')}`
+  }
+}
+
+/**
+ * Longest run of consecutive days with activity. Days are UTC calendar days.
+ */
+export function computeLongestStreak(timestamps: Array<string | null | undefined>): number {
+  const days = Array.from(new Set(
+    timestamps
+      .map(timestamp => (timestamp ? Date.parse(timestamp) : NaN))
+      .filter(time => Number.isFinite(time))
+      .map(time => Math.floor(time / DAY_MS))
+  )).sort((a, b) => a - b)
+
+  let longest = 0
+  let run = 0
+  days.forEach((day, index) => {
+    run = index > 0 && day === days[index - 1] + 1 ? run + 1 : 1
+    longest = Math.max(longest, run)
+  })
+
+  return longest
+}
+
+/**
+ * How far a learner is toward a badge. Facts the rule needs but that weren't
+ * loaded count as zero.
+ */
+export function evaluateBadgeCriteria(criteria: BadgeCriteria, facts: LearnerFacts): BadgeProgress {
+  const progress = (current: number, target: number): BadgeProgress => ({
+    met: current >= target,
+    current: Math.min(current, target),
+    target
+  })
+
+  switch (criteria.type) {
+    case 'quizzes_passed':
+      return progress(new Set(facts.passed_quiz_ids || []).size, criteria.count)
+    case 'perfect_score': {
+      const quizIds = (facts.perfect_scores || [])
+        .filter(perfect => !criteria.difficulty || perfect.difficulty === criteria.difficulty)
+        .map(perfect => perfect.quiz_id)
+      return progress(new Set(quizIds).size, criteria.count)
+    }
+    case 'streak_days':
+      return progress(computeLongestStreak(facts.activity_dates || []), criteria.days)
+    case 'courses_completed': {
+      const completed = facts.completed_course_ids || []
+      return criteria.course_id
+        ? progress(completed.includes(criteria.course_id) ? 1 : 0, 1)
+        : progress(new Set(completed).size, criteria.count)
+    }
+    case 'courses_enrolled':
+      return progress(new Set(facts.enrolled_course_ids || []).size, criteria.count)
+    case 'lessons_completed':
+      return progress(facts.completed_lesson_count || 0, criteria.count)
+    case 'learning_paths_completed': {
+      const completed = facts.completed_path_ids || []
+      return criteria.learning_path_id
+        ? progress(completed.includes(criteria.learning_path_id) ? 1 : 0, 1)
+        : progress(new Set(completed).size, criteria.count)
+    }
+  }
+}
@@ -0,0 +1,290 @@
+/**
+ * Badge Engine
+ * Evaluates the active auto-award badges after learning events and records the
+ * ones a learner has newly earned. Runs with the service client.
+ *
+ * Awards are idempotent: user_badges has one row per learner and badge, so an
+ * event replayed (or two arriving at once) never awards a badge twice. Each new
+ * award also sends the learner an achievement notification.
+ */
+
+import { logger } from '@/lib/logger'
+import { notifyBadgesAwarded } from '@/lib/notifications/producers'
+import { BADGE_TRIGGERS, CRITERIA_FACTS, describeBadgeCriteria, evaluateBadgeCriteria, normalizeBadgeCriteria } from './criteria'
+import type { AwardedBadge, Badge, BadgeCriteria, BadgeEvent, LearnerBadge, LearnerFact, LearnerFacts } from './types'
+
+export const BADGE_FIELDS = 'id, name, description, icon_url, criteria, points, rarity, category, is_active, auto_award, created_at, updated_at'
+
+export function toBadge(row: any): Badge {
+  return {
+    ...row,
+    criteria: normalizeBadgeCriteria(row.criteria),
+    points: row.points ?? 0,
+    rarity: row.rarity || 'common',
+    is_active: row.is_active !== false,
+    auto_award: row.auto_award !== false
+  }
+}
+
+/**
+ * Load the facts the given badges are evaluated on, and nothing else
+ */
+export async function loadLearnerFacts(
+  serviceClient: any,
+  userId: string,
+  needed: Set<LearnerFact>
+): Promise<LearnerFacts> {
+  const facts: LearnerFacts = {}
+  const needs = (...keys: LearnerFact[]) => keys.some(key => needed.has(key))
+
+  const [attemptsResult, lessonsResult, enrollmentsResult, pathsResult] = await Promise.all([
+    needs('passed_quiz_ids', 'perfect_scores', 'activity_dates')
+      ? serviceClient
+        .from('quiz_attempts')
+        .select('quiz_id, passed, percentage_score, grading_status, completed_at')
+        .eq('user_id', userId)
+      : null,
+    needs('completed_lesson_count', 'activity_dates')
+      ? serviceClient
+        .from('lesson_progress')
+        .select('completed_at')
+        .eq('user_id', userId)
+        .eq('is_completed', true)
+      : null,
+    needs('completed_course_ids', 'enrolled_course_ids')
+      ? serviceClient
+        .from('enrollments')
+        .select('course_id, progress, completed_at')
+        .eq('user_id', userId)
+      : null,
+    needs('completed_path_ids')
+      ? serviceClient
+        .from('learning_path_progress')
+        .select('learning_path_id')
+        .eq('user_id', userId)
+        .not('completed_at', 'is', null)
+      : null
+  ])
+
+  for (const [name, result] of [
+    ['quiz attempts', attemptsResult],
+    ['lesson progress', lessonsResult],
+    ['enrollments', enrollmentsResult],
+    ['learning path progress', pathsResult]
+  ] as const) {
+    if (result?.error) {
+      throw new Error(`Failed to load ${name}: ${result.error.message}`)
+    }
+  }
+
+  const attempts: Array<{
+    quiz_id: string
+    passed: boolean | null
+    percentage_score: number | null
+    grading_status: string | null
+    completed_at: string | null
+  }> = attemptsResult?.data || []
+  // Attempts still waiting for an essay grade have no final result yet, but still count as activity
+  const gradedAttempts = attempts.filter(attempt => attempt.grading_status !== 'pending_review')
+  const lessons: Array<{ completed_at: string | null }> = lessonsResult?.data || []
+  const enrollments: Array<{ course_id: string; progress: number | null; completed_at: string | null }> = enrollmentsResult?.data || []
+
+  if (needed.has('passed_quiz_ids')) {
+    facts.passed_quiz_ids = gradedAttempts.filter(attempt => attempt.passed).map(attempt => attempt.quiz_id)
+  }
+
+  if (needed.has('perfect_scores')) {
+    const perfectQuizIds = Array.from(new Set(
+      gradedAttempts.filter(attempt => Number(attempt.percentage_score) >= 100).map(attempt => attempt.quiz_id)
+    ))
+    const difficulties = new Map<string, string | null>()
+
+    if (perfectQuizIds.length > 0) {
+      const { data, error } = await serviceClient
+        .from('quizzes')
+        .select('id, difficulty')
+        .in('id', perfectQuizIds)
+
+      if (error) {
+        throw new Error(`Failed to load quizzes: ${error.message}`)
+      }
+      ;(data || []).forEach((quiz: { id: string; difficulty: string | null }) => difficulties.set(quiz.id, quiz.difficulty))
+    }
+
+    facts.perfect_scores = perfectQuizIds.map(quizId => ({ quiz_id: quizId, difficulty: difficulties.get(quizId) ?? null }))
+  }
+
+  if (needed.has('activity_dates')) {
+    facts.activity_dates = [
+      ...attempts.map(attempt => attempt.completed_at),
+      ...lessons.map(lesson => lesson.completed_at)
+    ].filter((date): date is string => Boolean(date))
+  }
+
+  if (needed.has('completed_lesson_count')) {
+    facts.completed_lesson_count = lessons.length
+  }
+
+  if (needed.has('enrolled_course_ids')) {
+    facts.enrolled_course_ids = enrollments.map(enrollment => enrollment.course_id)
+  }
+
+  if (needed.has('completed_course_ids')) {
+    facts.completed_course_ids = enrollments
+      .filter(enrollment => enrollment.completed_at || (enrollment.progress ?? 0) >= 100)
+      .map(enrollment => enrollment.course_id)
+  }
+
+  if (needed.has('completed_path_ids')) {
+    facts.completed_path_ids = (pathsResult?.data || []).map((row: { learning_path_id: string }) => row.learning_path_id)
+  }
+
+  return facts
+}
+
+async function loadAwardedBadgeIds(serviceClient: any, userId: string): Promise<Map<string, string | null>> {
+  const { data, error } = await serviceClient
+    .from('user_badges')
+    .select('badge_id, awarded_at')
+    .eq('user_id', userId)
+
+  if (error) {
+    throw new Error(`Failed to load awarded badges: ${error.message}`)
+  }
+
+  return new Map((data || []).map((row: { badge_id: string; awarded_at: string | null }) => [row.badge_id, row.awarded_at]))
+}
+
+/**
+ * Award every active auto-award badge the event may have earned the learner.
+ * Returns the badges awarded by this call.
+ */
+export async function evaluateBadges(
+  serviceClient: any,
+  userId: string,
+  event: BadgeEvent
+): Promise<AwardedBadge[]> {
+  const [badgesResult, awarded] = await Promise.all([
+    serviceClient
+      .from('badges')
+      .select(BADGE_FIELDS)
+      .eq('is_active', true)
+      .eq('auto_award', true),
+    loadAwardedBadgeIds(serviceClient, userId)
+  ])
+
+  if (badgesResult.error) {
+    throw new Error(`Failed to load badges: ${badgesResult.error.message}`)
+  }
+
+  const candidates: Array<Badge & { criteria: BadgeCriteria }> = (badgesResult.data || [])
+    .map(toBadge)
+    .filter((badge: Badge) =>
+      !awarded.has(badge.id) &&
+      badge.criteria !== null &&
+      BADGE_TRIGGERS[badge.criteria.type].includes(event.type)
+    )
+
+  if (candidates.length === 0) return []
+
+  const facts = await loadLearnerFacts(
+    serviceClient,
+    userId,
+    new Set(candidates.map(badge => CRITERIA_FACTS[badge.criteria.type]))
+  )
+
+  const earned = candidates
+    .map(badge => ({ badge, progress: evaluateBadgeCriteria(badge.criteria, facts) }))
+    .filter(({ progress }) => progress.met)
+
+  if (earned.length === 0) return []
+
+  const rows = earned.map(({ badge, progress }) => ({
+    user_id: userId,
+    badge_id: badge.id,
+    progress_data: progress,
+    quiz_id: 'quiz_id' in event ? event.quiz_id : null,
+    learning_path_id: badge.criteria.type === 'learning_paths_completed' ? badge.criteria.learning_path_id || null : null,
+    metadata: { event: event.type }
+  }))
+
+  // Rows that already exist are skipped, and only the inserted ones come back
+  const { data, error } = await serviceClient
+    .from('user_badges')
+    .upsert(rows, { onConflict: 'user_id,badge_id', ignoreDuplicates: true })
+    .select('badge_id, awarded_at')
+
+  if (error) {
+    throw new Error(`Failed to award badges: ${error.message}`)
+  }
+
+  const badgesById = new Map(earned.map(({ badge }) => [badge.id, badge]))
+  const newlyAwarded: AwardedBadge[] = (data || [])
+    .filter((row: { badge_id: string }) => badgesById.has(row.badge_id))
+    .map((row: { badge_id: string; awarded_at: string }) => {
+      const badge = badgesById.get(row.badge_id)!
+      return {
+        id: badge.id,
+        name: badge.name,
+        description: badge.description,
+        icon_url: badge.icon_url,
+        rarity: badge.rarity,
+        points: badge.points,
+        awarded_at: row.awarded_at
+      }
+    })
+
+  newlyAwarded.forEach(badge => logger.info('Badge awarded', { badgeId: badge.id, userId, event: event.type }))
+
+  if (newlyAwarded.length > 0) {
+    try {
+      await notifyBadgesAwarded(serviceClient, userId, newlyAwarded)
+    } catch (notifyError: any) {
+      logger.warn('Failed to send badge notifications', { error: notifyError.message, userId })
+    }
+  }
+
+  return newlyAwarded
+}
+
+/**
+ * The learner's shelf: earned badges (even ones since retired) and the active
+ * badges still to earn, with progress toward the auto-award ones
+ */
+export async function listLearnerBadges(serviceClient: any, userId: string): Promise<LearnerBadge[]> {
+  const awarded = await loadAwardedBadgeIds(serviceClient, userId)
+
+  let query = serviceClient.from('badges').select(BADGE_FIELDS)
+  query = awarded.size > 0
+    ? query.or(`is_active.eq.true,id.in.(${Array.from(awarded.keys()).join(',')})`)
+    : query.eq('is_active', true)
+
+  const { data, error } = await query.order('points', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to load badges: ${error.message}`)
+  }
+
+  const badges: Badge[] = (data || []).map(toBadge)
+  const open = badges.filter(badge => !awarded.has(badge.id) && badge.auto_award && badge.criteria)
+  const facts = open.length > 0
+    ? await loadLearnerFacts(serviceClient, userId, new Set(open.map(badge => CRITERIA_FACTS[badge.criteria!.type])))
+    : {}
+
+  return badges.map(badge => {
+    const earned = awarded.has(badge.id)
+    return {
+      id: badge.id,
+      name: badge.name,
+      description: badge.description,
+      icon_url: badge.icon_url,
+      rarity: badge.rarity,
+      points: badge.points,
+      category: badge.category,
+      requirement: describeBadgeCriteria(badge.auto_award ? badge.criteria : null),
+      earned,
+      awarded_at: earned ? awarded.get(badge.id) || null : null,
+      progress: !earned && badge.auto_award && badge.criteria ? evaluateBadgeCriteria(badge.criteria, facts) : null
+    }
+  })
+}
@@ -0,0 +1,45 @@
+/**
+ * Badges
+ * Rule-driven awards: badges.criteria is evaluated after quiz submissions,
+ * grading, lesson completions and enrollments, and earned badges are recorded
+ * once in user_badges.
+ */
+
+export {
+  BADGE_RARITIES,
+  QUIZ_DIFFICULTIES,
+  type BadgeRarity,
+  type QuizDifficulty,
+  type BadgeCriteria,
+  type BadgeCriteriaType,
+  type BadgeEvent,
+  type BadgeEventType,
+  type Badge,
+  type BadgeInput,
+  type LearnerFacts,
+  type LearnerFact,
+  type BadgeProgress,
+  type AwardedBadge,
+  type LearnerBadge
+} from './types'
+
+export {
+  BADGE_CRITERIA_TYPES,
+  BADGE_TRIGGERS,
+  CRITERIA_FACTS,
+  validateBadgeCriteria,
+  normalizeBadgeCriteria,
+  validateBadge,
+  pickBadgeFields,
+  describeBadgeCriteria,
+  computeLongestStreak,
+  evaluateBadgeCriteria
+} from './criteria'
+
+export {
+  BADGE_FIELDS,
+  toBadge,
+  loadLearnerFacts,
+  evaluateBadges,
+  listLearnerBadges
+} from './engine'
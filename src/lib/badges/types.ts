@@ -0,0 +1,99 @@
+/**
+ * Badge Types
+ */
+
+export const BADGE_RARITIES = ['common', 'uncommon', 'rare', 'epic', 'legendary'] as const
+export type BadgeRarity = typeof BADGE_RARITIES[number]
+
+export const QUIZ_DIFFICULTIES = ['beginner', 'intermediate', 'advanced'] as const
+export type QuizDifficulty = typeof QUIZ_DIFFICULTIES[number]
+
+/**
+ * Rule stored in badges.criteria. Counts are distinct (a quiz passed twice counts once).
+ */
+export type BadgeCriteria =
+  | { type: 'quizzes_passed'; count: number }
+  /** 100% on graded quizzes, optionally only quizzes of one difficulty */
+  | { type: 'perfect_score'; count: number; difficulty?: QuizDifficulty }
+  /** Consecutive days with a finished quiz or lesson */
+  | { type: 'streak_days'; days: number }
+  /** Completed courses, or one specific course */
+  | { type: 'courses_completed'; count: number; course_id?: string }
+  | { type: 'courses_enrolled'; count: number }
+  | { type: 'lessons_completed'; count: number }
+  /** Completed learning paths, or one specific path */
+  | { type: 'learning_paths_completed'; count: number; learning_path_id?: string }
+
+export type BadgeCriteriaType = BadgeCriteria['type']
+
+/** Learning events that can earn a badge */
+export type BadgeEvent =
+  | { type: 'quiz_submitted'; quiz_id: string }
+  | { type: 'quiz_graded'; quiz_id: string }
+  | { type: 'lesson_completed'; course_id?: string }
+  | { type: 'enrollment'; course_id?: string }
+
+export type BadgeEventType = BadgeEvent['type']
+
+export interface Badge {
+  id: string
+  name: string
+  description: string | null
+  icon_url: string | null
+  /** null when the stored rule isn't one the engine understands; never auto-awarded */
+  criteria: BadgeCriteria | null
+  points: number
+  rarity: BadgeRarity
+  category: string | null
+  is_active: boolean
+  /** Awarded by the engine when the criteria are met; manual-only otherwise */
+  auto_award: boolean
+  created_at?: string
+  updated_at?: string
+}
+
+export type BadgeInput = Pick<
+  Badge,
+  'name' | 'description' | 'icon_url' | 'criteria' | 'points' | 'rarity' | 'category' | 'is_active' | 'auto_award'
+>
+
+/**
+ * What the engine knows about a learner. Only the parts the outstanding badges
+ * need are loaded, so every field is optional.
+ */
+export interface LearnerFacts {
+  passed_quiz_ids?: string[]
+  perfect_scores?: Array<{ quiz_id: string; difficulty: string | null }>
+  /** Timestamps of finished quizzes and lessons */
+  activity_dates?: string[]
+  completed_course_ids?: string[]
+  enrolled_course_ids?: string[]
+  completed_lesson_count?: number
+  completed_path_ids?: string[]
+}
+
+export type LearnerFact = keyof LearnerFacts
+
+export interface BadgeProgress {
+  met: boolean
+  current: number
+  target: number
+}
+
+export interface AwardedBadge {
+  id: string
+  name: string
+  description: string | null
+  icon_url: string | null
+  rarity: BadgeRarity
+  points: number
+  awarded_at: string
+}
+
+export interface LearnerBadge extends Pick<Badge, 'id' | 'name' | 'description' | 'icon_url' | 'rarity' | 'points' | 'category'> {
+  /** Plain-language version of the criteria */
+  requirement: string
+  earned: boolean
+  awarded_at: string | null
+  progress: BadgeProgress | null
+}
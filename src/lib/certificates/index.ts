@@ -0,0 +1,49 @@
+/**
+ * Certificates
+ * Automatic issuance for completed courses and passed quizzes, SVG rendering
+ * from certificate_templates and public verification by code.
+ */
+
+export type {
+  CertificateTemplate,
+  CertificateTemplateInput,
+  CertificateSource,
+  IssuedCertificate,
+  CertificateVerification
+} from './types'
+
+export {
+  CERTIFICATE_WIDTH,
+  CERTIFICATE_HEIGHT,
+  escapeXml,
+  formatCertificateDate,
+  getCertificateTextValues,
+  fillCertificateText,
+  wrapCertificateText,
+  renderCertificateSvg,
+  type CertificateTextValues
+} from './render'
+
+export {
+  DEFAULT_CERTIFICATE_TEMPLATE,
+  CERTIFICATE_PLACEHOLDERS,
+  validateCertificateTemplate,
+  pickCertificateTemplateFields,
+  withTemplateDefaults
+} from './templates'
+
+export {
+  generateCertificateCode,
+  normalizeCertificateCode,
+  isCertificateCode,
+  toCertificateVerification,
+  getCourseCompletion,
+  loadCertificateTemplate,
+  clearDefaultCertificateTemplate,
+  issueCourseCertificate,
+  issueQuizCertificate,
+  findCertificateByCode,
+  listUserCertificates,
+  type CourseCompletion,
+  type IssueResult
+} from './issue'
@@ -0,0 +1,331 @@
+/**
+ * Certificate Issuance
+ * Issues course certificates once every published lesson is complete and quiz
+ * certificates once an attempt passes. Issuing is idempotent: asking again returns
+ * the certificate already on file. Runs with the service client.
+ */
+
+import { logger } from '@/lib/logger'
+import type { CertificateTemplate, CertificateVerification, IssuedCertificate } from './types'
+
+// Crockford-style alphabet without 0/O and 1/I so codes survive being read aloud
+const CODE_ALPHABET = '23456789ABCDEFGHJKLMNPQRSTUVWXYZ'
+const CODE_PATTERN = /^ACX(-[2-9A-HJ-NP-Z]{4}){3}$/
+
+const CERTIFICATE_FIELDS = 'id, user_id, course_id, quiz_id, quiz_attempt_id, template_id, certificate_number, recipient_name, title, score, issued_at, expires_at, is_valid, revoked_at'
+
+export interface CourseCompletion {
+  total_lessons: number
+  completed_lessons: number
+  percentage: number
+}
+
+export interface IssueResult {
+  certificate: IssuedCertificate
+  /** false when the learner already had this certificate */
+  issued: boolean
+}
+
+/**
+ * Random verification code, e.g. ACX-7K3M-Q9TD-2WXP
+ */
+export function generateCertificateCode(): string {
+  const bytes = globalThis.crypto.getRandomValues(new Uint8Array(12))
+  const chars = Array.from(bytes, byte => CODE_ALPHABET[byte % CODE_ALPHABET.length])
+  return `ACX-${chars.slice(0, 4).join('')}-${chars.slice(4, 8).join('')}-${chars.slice(8).join('')}`
+}
+
+export function normalizeCertificateCode(value: string): string {
+  return value.trim().toUpperCase()
+}
+
+export function isCertificateCode(value: string): boolean {
+  return CODE_PATTERN.test(value)
+}
+
+export function toCertificateVerification(certificate: IssuedCertificate, now: Date = new Date()): CertificateVerification {
+  const status = !certificate.is_valid || certificate.revoked_at
+    ? 'revoked'
+    : certificate.expires_at && new Date(certificate.expires_at) < now
+      ? 'expired'
+      : 'valid'
+
+  return {
+    code: certificate.certificate_number,
+    recipient_name: certificate.recipient_name,
+    title: certificate.title,
+    source: certificate.quiz_id ? 'quiz' : 'course',
+    score: certificate.score,
+    issued_at: certificate.issued_at,
+    expires_at: certificate.expires_at,
+    status
+  }
+}
+
+/**
+ * Share of the course's published lessons the learner has completed
+ */
+export async function getCourseCompletion(serviceClient: any, userId: string, courseId: string): Promise<CourseCompletion> {
+  const { data: lessons, error: lessonsError } = await serviceClient
+    .from('course_lessons')
+    .select('id')
+    .eq('course_id', courseId)
+    .eq('is_published', true)
+
+  if (lessonsError) {
+    throw new Error(`Failed to load course lessons: ${lessonsError.message}`)
+  }
+
+  const lessonIds: string[] = (lessons || []).map((lesson: { id: string }) => lesson.id)
+  if (lessonIds.length === 0) {
+    return { total_lessons: 0, completed_lessons: 0, percentage: 0 }
+  }
+
+  const { data: progress, error: progressError } = await serviceClient
+    .from('lesson_progress')
+    .select('lesson_id')
+    .eq('user_id', userId)
+    .eq('is_completed', true)
+    .in('lesson_id', lessonIds)
+
+  if (progressError) {
+    throw new Error(`Failed to load lesson progress: ${progressError.message}`)
+  }
+
+  const completed = new Set((progress || []).map((row: { lesson_id: string }) => row.lesson_id)).size
+
+  return {
+    total_lessons: lessonIds.length,
+    completed_lessons: completed,
+    percentage: Math.round((completed / lessonIds.length) * 100)
+  }
+}
+
+/**
+ * The given template, or the default one when the course or quiz doesn't name one
+ */
+export async function loadCertificateTemplate(
+  serviceClient: any,
+  templateId: string | null | undefined
+): Promise<CertificateTemplate | null> {
+  const query = serviceClient.from('certificate_templates').select('*')
+  const { data, error } = templateId
+    ? await query.eq('id', templateId).maybeSingle()
+    : await query.eq('is_default', true).maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load certificate template: ${error.message}`)
+  }
+
+  return data
+}
+
+/**
+ * Unset the current default before another template becomes default (unique partial index)
+ */
+export async function clearDefaultCertificateTemplate(serviceClient: any, exceptId?: string): Promise<void> {
+  let query = serviceClient
+    .from('certificate_templates')
+    .update({ is_default: false })
+    .eq('is_default', true)
+  if (exceptId) query = query.neq('id', exceptId)
+
+  const { error } = await query
+  if (error) {
+    throw new Error(`Failed to clear default template: ${error.message}`)
+  }
+}
+
+async function findExisting(serviceClient: any, userId: string, match: { course_id?: string; quiz_id?: string }) {
+  let query = serviceClient
+    .from('certificates')
+    .select(CERTIFICATE_FIELDS)
+    .eq('user_id', userId)
+
+  query = match.quiz_id
+    ? query.eq('quiz_id', match.quiz_id)
+    : query.eq('course_id', match.course_id).is('quiz_id', null)
+
+  const { data, error } = await query.maybeSingle()
+  if (error) {
+    throw new Error(`Failed to look up certificate: ${error.message}`)
+  }
+  return data as IssuedCertificate | null
+}
+
+async function getRecipientName(serviceClient: any, userId: string): Promise<string> {
+  const { data } = await serviceClient
+    .from('users')
+    .select('name, email')
+    .eq('id', userId)
+    .maybeSingle()
+
+  return data?.name?.trim() || data?.email?.split('@')[0] || 'Learner'
+}
+
+async function insertCertificate(
+  serviceClient: any,
+  row: Omit<IssuedCertificate, 'id' | 'certificate_number' | 'issued_at' | 'expires_at' | 'is_valid' | 'revoked_at'>
+): Promise<IssueResult> {
+  const match = row.quiz_id ? { quiz_id: row.quiz_id } : { course_id: row.course_id! }
+
+  // A second try covers the (very unlikely) code collision
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const { data, error } = await serviceClient
+      .from('certificates')
+      .insert({ ...row, certificate_number: generateCertificateCode() })
+      .select(CERTIFICATE_FIELDS)
+      .single()
+
+    if (!error) {
+      return { certificate: data, issued: true }
+    }
+
+    // Unique violation: a concurrent request issued it first
+    if (error.code === '23505') {
+      const existing = await findExisting(serviceClient, row.user_id, match)
+      if (existing) return { certificate: existing, issued: false }
+      continue
+    }
+
+    throw new Error(`Failed to issue certificate: ${error.message}`)
+  }
+
+  throw new Error('Failed to issue certificate: could not generate a unique code')
+}
+
+/**
+ * Issue the course certificate if the course offers one and every published lesson
+ * is complete. Returns null when the learner isn't eligible (yet).
+ */
+export async function issueCourseCertificate(
+  serviceClient: any,
+  userId: string,
+  courseId: string
+): Promise<IssueResult | null> {
+  const { data: course, error } = await serviceClient
+    .from('courses')
+    .select('id, title, certificate_enabled, certificate_template_id')
+    .eq('id', courseId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load course: ${error.message}`)
+  }
+  if (!course?.certificate_enabled) return null
+
+  const existing = await findExisting(serviceClient, userId, { course_id: courseId })
+  if (existing) return { certificate: existing, issued: false }
+
+  const { data: enrollment } = await serviceClient
+    .from('enrollments')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('course_id', courseId)
+    .maybeSingle()
+
+  if (!enrollment) return null
+
+  const completion = await getCourseCompletion(serviceClient, userId, courseId)
+  if (completion.total_lessons === 0 || completion.completed_lessons < completion.total_lessons) {
+    return null
+  }
+
+  const template = await loadCertificateTemplate(serviceClient, course.certificate_template_id)
+  const result = await insertCertificate(serviceClient, {
+    user_id: userId,
+    course_id: courseId,
+    quiz_id: null,
+    quiz_attempt_id: null,
+    template_id: template?.id || null,
+    recipient_name: await getRecipientName(serviceClient, userId),
+    title: course.title,
+    score: null
+  })
+
+  if (result.issued) {
+    const { error: enrollmentError } = await serviceClient
+      .from('enrollments')
+      .update({ certificate_issued_at: result.certificate.issued_at })
+      .eq('id', enrollment.id)
+
+    if (enrollmentError) {
+      logger.warn('Failed to stamp certificate on enrollment', { error: enrollmentError.message, courseId, userId })
+    }
+
+    logger.info('Course certificate issued', { courseId, userId, code: result.certificate.certificate_number })
+  }
+
+  return result
+}
+
+/**
+ * Issue the quiz certificate for a passed, fully graded attempt if the quiz is linked
+ * to a certificate template. Returns null when the attempt doesn't qualify.
+ */
+export async function issueQuizCertificate(serviceClient: any, attemptId: string): Promise<IssueResult | null> {
+  const { data: attempt, error } = await serviceClient
+    .from('quiz_attempts')
+    .select('id, user_id, quiz_id, passed, grading_status, percentage_score, quizzes ( id, title, certificate_template_id )')
+    .eq('id', attemptId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load quiz attempt: ${error.message}`)
+  }
+
+  const quiz = attempt?.quizzes as { id: string; title: string; certificate_template_id: string | null } | null
+  if (!attempt || !quiz?.certificate_template_id) return null
+  if (!attempt.passed || attempt.grading_status !== 'graded') return null
+
+  const existing = await findExisting(serviceClient, attempt.user_id, { quiz_id: quiz.id })
+  if (existing) return { certificate: existing, issued: false }
+
+  const result = await insertCertificate(serviceClient, {
+    user_id: attempt.user_id,
+    course_id: null,
+    quiz_id: quiz.id,
+    quiz_attempt_id: attempt.id,
+    template_id: quiz.certificate_template_id,
+    recipient_name: await getRecipientName(serviceClient, attempt.user_id),
+    title: quiz.title,
+    score: attempt.percentage_score !== null ? Number(attempt.percentage_score) : null
+  })
+
+  if (result.issued) {
+    logger.info('Quiz certificate issued', { quizId: quiz.id, userId: attempt.user_id, code: result.certificate.certificate_number })
+  }
+
+  return result
+}
+
+export async function findCertificateByCode(serviceClient: any, code: string): Promise<IssuedCertificate | null> {
+  const normalized = normalizeCertificateCode(code)
+  if (!isCertificateCode(normalized)) return null
+
+  const { data, error } = await serviceClient
+    .from('certificates')
+    .select(CERTIFICATE_FIELDS)
+    .eq('certificate_number', normalized)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to look up certificate: ${error.message}`)
+  }
+
+  return data
+}
+
+export async function listUserCertificates(serviceClient: any, userId: string): Promise<IssuedCertificate[]> {
+  const { data, error } = await serviceClient
+    .from('certificates')
+    .select(CERTIFICATE_FIELDS)
+    .eq('user_id', userId)
+    .order('issued_at', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to load certificates: ${error.message}`)
+  }
+
+  return data || []
+}
@@ -0,0 +1,122 @@
+/**
+ * Certificate Rendering
+ * Certificates are drawn as a landscape A4 SVG from the template and the values
+ * copied onto the certificate when it was issued, so the same certificate always
+ * renders the same way. Browsers print the SVG to PDF.
+ */
+
+import type { CertificateTemplate, IssuedCertificate } from './types'
+
+export const CERTIFICATE_WIDTH = 1123
+export const CERTIFICATE_HEIGHT = 794
+
+const BODY_LINE_CHARS = 80
+const MAX_BODY_LINES = 4
+
+export interface CertificateTextValues {
+  recipient: string
+  title: string
+  date: string
+  score: string
+  code: string
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+}
+
+export function formatCertificateDate(value: string): string {
+  return new Date(value).toLocaleDateString('en-GB', {
+    day: 'numeric',
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC'
+  })
+}
+
+export function getCertificateTextValues(certificate: IssuedCertificate): CertificateTextValues {
+  return {
+    recipient: certificate.recipient_name,
+    title: certificate.title,
+    date: formatCertificateDate(certificate.issued_at),
+    score: certificate.score !== null && certificate.score !== undefined ? `${Math.round(certificate.score)}%` : '',
+    code: certificate.certificate_number
+  }
+}
+
+/**
+ * Replace {{placeholders}}; unknown placeholders are left as written
+ */
+export function fillCertificateText(text: string, values: CertificateTextValues): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) =>
+    key in values ? values[key as keyof CertificateTextValues] : match
+  )
+}
+
+/**
+ * Greedy word wrap; the last line is truncated with an ellipsis past maxLines
+ */
+export function wrapCertificateText(text: string, maxChars = BODY_LINE_CHARS, maxLines = MAX_BODY_LINES): string[] {
+  const lines: string[] = []
+  let current = ''
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (current && (current + ' ' + word).length > maxChars) {
+      lines.push(current)
+      current = word
+    } else {
+      current = current ? `${current} ${word}` : word
+    }
+  }
+  if (current) lines.push(current)
+
+  if (lines.length > maxLines) {
+    const kept = lines.slice(0, maxLines)
+    kept[maxLines - 1] = `${kept[maxLines - 1].slice(0, maxChars - 1)}…`
+    return kept
+  }
+  return lines
+}
+
+export function renderCertificateSvg(
+  template: Pick<CertificateTemplate, 'heading' | 'body' | 'accent_color' | 'signature_name' | 'signature_title'>,
+  certificate: IssuedCertificate,
+  verifyUrl: string
+): string {
+  const values = getCertificateTextValues(certificate)
+  const accent = /^#[0-9a-fA-F]{6}$/.test(template.accent_color) ? template.accent_color : '#1d4ed8'
+  const centerX = CERTIFICATE_WIDTH / 2
+
+  const heading = escapeXml(fillCertificateText(template.heading, values))
+  const bodyLines = wrapCertificateText(fillCertificateText(template.body, values))
+  const body = bodyLines
+    .map((line, index) => `<tspan x="${centerX}" dy="${index === 0 ? 0 : 30}">${escapeXml(line)}</tspan>`)
+    .join('')
+
+  const signature = template.signature_name
+    ? `<line x1="${centerX + 120}" y1="640" x2="${centerX + 380}" y2="640" stroke="#9ca3af" stroke-width="1"/>
+  <text x="${centerX + 250}" y="665" text-anchor="middle" font-size="18" fill="#111827">${escapeXml(template.signature_name)}</text>
+  ${template.signature_title ? `<text x="${centerX + 250}" y="688" text-anchor="middle" font-size="14" fill="#6b7280">${escapeXml(template.signature_title)}</text>` : ''}`
+    : ''
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${CERTIFICATE_WIDTH}" height="${CERTIFICATE_HEIGHT}" viewBox="0 0 ${CERTIFICATE_WIDTH} ${CERTIFICATE_HEIGHT}" font-family="Georgia, 'Times New Roman', serif">
+  <rect width="100%" height="100%" fill="#ffffff"/>
+  <rect x="24" y="24" width="${CERTIFICATE_WIDTH - 48}" height="${CERTIFICATE_HEIGHT - 48}" fill="none" stroke="${accent}" stroke-width="6"/>
+  <rect x="40" y="40" width="${CERTIFICATE_WIDTH - 80}" height="${CERTIFICATE_HEIGHT - 80}" fill="none" stroke="${accent}" stroke-width="1.5" opacity="0.5"/>
+  <text x="${centerX}" y="170" text-anchor="middle" font-size="46" font-weight="bold" fill="${accent}">${heading}</text>
+  <text x="${centerX}" y="245" text-anchor="middle" font-size="20" fill="#6b7280">This certificate is presented to</text>
+  <text x="${centerX}" y="320" text-anchor="middle" font-size="52" font-style="italic" fill="#111827">${escapeXml(values.recipient)}</text>
+  <line x1="${centerX - 300}" y1="345" x2="${centerX + 300}" y2="345" stroke="${accent}" stroke-width="1"/>
+  <text x="${centerX}" y="410" text-anchor="middle" font-size="22" fill="#374151">${body}</text>
+  <line x1="${centerX - 380}" y1="640" x2="${centerX - 120}" y2="640" stroke="#9ca3af" stroke-width="1"/>
+  <text x="${centerX - 250}" y="665" text-anchor="middle" font-size="18" fill="#111827">${escapeXml(values.date)}</text>
+  <text x="${centerX - 250}" y="688" text-anchor="middle" font-size="14" fill="#6b7280">Date issued</text>
+  ${signature}
+  <text x="${centerX}" y="745" text-anchor="middle" font-size="13" font-family="Helvetica, Arial, sans-serif" fill="#6b7280">Certificate ${escapeXml(values.code)} · Verify at ${escapeXml(verifyUrl)}</text>
+</svg>`
+}
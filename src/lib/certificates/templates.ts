@@ -0,0 +1,88 @@
+/**
+ * Certificate Template Editing
+ */
+
+import type { CertificateTemplate, CertificateTemplateInput } from './types'
+
+// Matches the column defaults in migration 011; used when no template is configured
+export const DEFAULT_CERTIFICATE_TEMPLATE: CertificateTemplateInput = {
+  name: 'Standard',
+  heading: 'Certificate of Completion',
+  body: 'This certifies that {{recipient}} has successfully completed {{title}}.',
+  accent_color: '#1d4ed8',
+  signature_name: null,
+  signature_title: null,
+  is_default: true
+}
+
+export const CERTIFICATE_PLACEHOLDERS = ['recipient', 'title', 'date', 'score', 'code'] as const
+
+const MAX_HEADING_LENGTH = 60
+const MAX_BODY_LENGTH = 320
+const MAX_SIGNATURE_LENGTH = 80
+
+const EDITABLE_FIELDS = [
+  'name',
+  'heading',
+  'body',
+  'accent_color',
+  'signature_name',
+  'signature_title',
+  'is_default'
+] as const
+
+/**
+ * Validation for template fields sent by the admin editor; returns the first problem found.
+ * With partial=true only the fields present are checked (updates).
+ */
+export function validateCertificateTemplate(body: any, partial = false): string | null {
+  if (!body || typeof body !== 'object') return 'Template data is required'
+
+  const has = (field: string) => body[field] !== undefined
+  const isText = (value: unknown) => typeof value === 'string' && value.trim().length > 0
+
+  if ((!partial || has('name')) && !isText(body.name)) {
+    return 'Template name is required'
+  }
+  if ((!partial || has('heading')) && (!isText(body.heading) || body.heading.length > MAX_HEADING_LENGTH)) {
+    return `Heading is required and must be at most ${MAX_HEADING_LENGTH} characters`
+  }
+  if ((!partial || has('body')) && (!isText(body.body) || body.body.length > MAX_BODY_LENGTH)) {
+    return `Body text is required and must be at most ${MAX_BODY_LENGTH} characters`
+  }
+  if (has('accent_color') && !/^#[0-9a-fA-F]{6}$/.test(String(body.accent_color))) {
+    return 'Accent color must be a hex color like #1d4ed8'
+  }
+  for (const field of ['signature_name', 'signature_title']) {
+    const value = body[field]
+    if (value !== undefined && value !== null && (typeof value !== 'string' || value.length > MAX_SIGNATURE_LENGTH)) {
+      return `Signature fields must be at most ${MAX_SIGNATURE_LENGTH} characters`
+    }
+  }
+  if (has('is_default') && typeof body.is_default !== 'boolean') {
+    return 'is_default must be true or false'
+  }
+
+  return null
+}
+
+/**
+ * The editable fields present in a request body, trimmed; empty signatures become null
+ */
+export function pickCertificateTemplateFields(body: Record<string, any>): Partial<CertificateTemplateInput> {
+  const fields: Record<string, unknown> = {}
+
+  EDITABLE_FIELDS.forEach(field => {
+    if (body[field] === undefined) return
+    const value = body[field]
+    fields[field] = typeof value === 'string'
+      ? (value.trim() || (field.startsWith('signature_') ? null : value.trim()))
+      : value
+  })
+
+  return fields as Partial<CertificateTemplateInput>
+}
+
+export function withTemplateDefaults(template: Partial<CertificateTemplate> | null | undefined): CertificateTemplateInput {
+  return { ...DEFAULT_CERTIFICATE_TEMPLATE, ...(template || {}) }
+}
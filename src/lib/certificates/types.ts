@@ -0,0 +1,53 @@
+/**
+ * Certificate Types
+ */
+
+export interface CertificateTemplate {
+  id: string
+  name: string
+  /** heading and body accept {{recipient}}, {{title}}, {{date}}, {{score}} and {{code}} */
+  heading: string
+  body: string
+  accent_color: string
+  signature_name: string | null
+  signature_title: string | null
+  is_default: boolean
+  created_at?: string
+  updated_at?: string
+}
+
+export type CertificateTemplateInput = Omit<CertificateTemplate, 'id' | 'created_at' | 'updated_at'>
+
+export type CertificateSource = 'course' | 'quiz'
+
+export interface IssuedCertificate {
+  id: string
+  user_id: string
+  course_id: string | null
+  quiz_id: string | null
+  quiz_attempt_id: string | null
+  template_id: string | null
+  /** Public verification code */
+  certificate_number: string
+  recipient_name: string
+  title: string
+  score: number | null
+  issued_at: string
+  expires_at: string | null
+  is_valid: boolean
+  revoked_at: string | null
+}
+
+/**
+ * What the public verification page shows; never includes the learner's email or ids
+ */
+export interface CertificateVerification {
+  code: string
+  recipient_name: string
+  title: string
+  source: CertificateSource
+  score: number | null
+  issued_at: string
+  expires_at: string | null
+  status: 'valid' | 'revoked' | 'expired'
+}
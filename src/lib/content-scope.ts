@@ -0,0 +1,139 @@
+/**
+ * Content Scope
+ * Which courses and quizzes an authoring user may see and change. Admins have
+ * the whole catalogue; instructors only the courses they teach
+ * (courses.instructor_id) and the quizzes they wrote or that belong to one of
+ * those courses, the same rule the owns_course/owns_quiz RLS helpers in
+ * migration 019 apply.
+ */
+
+export interface ContentScope {
+  userId: string
+  /** null when the user is not limited to their own content */
+  courseIds: string[] | null
+  quizIds: string[] | null
+}
+
+/** Raised for content outside the user's scope; routes answer 404 so other teachers' material stays invisible */
+export class ContentAccessError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ContentAccessError'
+  }
+}
+
+// Matches nothing, for `.in()` filters on an instructor without content yet
+const NO_CONTENT_ID = '00000000-0000-0000-0000-000000000000'
+
+export function isUnrestricted(scope: ContentScope): boolean {
+  return scope.courseIds === null
+}
+
+export async function loadContentScope(
+  serviceClient: any,
+  user: { id: string; role: string }
+): Promise<ContentScope> {
+  if (user.role === 'admin') {
+    return { userId: user.id, courseIds: null, quizIds: null }
+  }
+
+  const { data: courses, error: coursesError } = await serviceClient
+    .from('courses')
+    .select('id')
+    .eq('instructor_id', user.id)
+
+  if (coursesError) {
+    throw new Error(`Failed to load instructor courses: ${coursesError.message}`)
+  }
+
+  const courseIds: string[] = (courses || []).map((course: { id: string }) => course.id)
+  const ownership = courseIds.length > 0
+    ? `created_by.eq.${user.id},course_id.in.(${courseIds.join(',')})`
+    : `created_by.eq.${user.id}`
+
+  const { data: quizzes, error: quizzesError } = await serviceClient
+    .from('quizzes')
+    .select('id')
+    .or(ownership)
+
+  if (quizzesError) {
+    throw new Error(`Failed to load instructor quizzes: ${quizzesError.message}`)
+  }
+
+  return {
+    userId: user.id,
+    courseIds,
+    quizIds: (quizzes || []).map((quiz: { id: string }) => quiz.id)
+  }
+}
+
+export function canAccessCourse(scope: ContentScope, courseId: string | null | undefined): boolean {
+  if (isUnrestricted(scope)) return true
+  return !!courseId && scope.courseIds!.includes(courseId)
+}
+
+export function canAccessQuiz(scope: ContentScope, quizId: string | null | undefined): boolean {
+  if (isUnrestricted(scope)) return true
+  return !!quizId && scope.quizIds!.includes(quizId)
+}
+
+export function assertCourseAccess(scope: ContentScope, courseIds: string | string[]): void {
+  const ids = Array.isArray(courseIds) ? courseIds : [courseIds]
+  if (ids.some(id => !canAccessCourse(scope, id))) {
+    throw new ContentAccessError(ids.length === 1 ? 'Course not found' : 'One or more courses were not found')
+  }
+}
+
+export function assertQuizAccess(scope: ContentScope, quizIds: string | string[]): void {
+  const ids = Array.isArray(quizIds) ? quizIds : [quizIds]
+  if (ids.some(id => !canAccessQuiz(scope, id))) {
+    throw new ContentAccessError(ids.length === 1 ? 'Quiz not found' : 'One or more quizzes were not found')
+  }
+}
+
+/**
+ * Limit a query to the scope, e.g. scopeQuery(query, 'quiz_id', scope.quizIds);
+ * unrestricted scopes leave the query as it is
+ */
+export function scopeQuery<Q>(query: Q, column: string, ids: string[] | null): Q {
+  if (ids === null) return query
+  return (query as any).in(column, ids.length > 0 ? ids : [NO_CONTENT_ID])
+}
+
+/**
+ * Course fields from a create or update, with ownership fixed for instructors:
+ * their courses are always their own, so instructor_id is set on create and
+ * can't be changed afterwards
+ */
+export function scopeCourseFields<T extends Record<string, any>>(
+  scope: ContentScope,
+  fields: T,
+  creating: boolean
+): T {
+  if (isUnrestricted(scope)) return fields
+
+  const { instructor_id: _instructorId, ...rest } = fields
+  return (creating ? { ...rest, instructor_id: scope.userId } : rest) as unknown as T
+}
+
+/**
+ * Quiz fields from a create or update, checked against the scope. Instructors
+ * can only attach quizzes to their own courses, can't hand a quiz to someone
+ * else, and can't set draw rules, which pull from the shared question bank.
+ */
+export function scopeQuizFields<T extends Record<string, any>>(
+  scope: ContentScope,
+  fields: T,
+  creating: boolean
+): T {
+  if (isUnrestricted(scope)) {
+    return creating ? { ...fields, created_by: fields.created_by || scope.userId } : fields
+  }
+
+  if (fields.course_id) {
+    assertCourseAccess(scope, fields.course_id)
+  }
+
+  const { created_by: _createdBy, draw_rules: _drawRules, ...rest } = fields
+  return (creating ? { ...rest, created_by: scope.userId } : rest) as unknown as T
+}
@@ -130,4 +130,19 @@ export const formatDuration = (startDate: string, endDate: string): string => {
     console.warn('Invalid date format for duration:', { startDate, endDate })
     return '00:00'
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Check if a value is an IANA timezone name the runtime knows
+ * @param timezone Timezone name (Europe/London)
+ * @returns Boolean indicating if the timezone can be used for formatting
+ */
+export const isValidTimezone = (timezone: unknown): timezone is string => {
+  if (typeof timezone !== 'string' || !timezone) return false
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Email
+ * Templated transactional email: enrollment confirmations, quiz results,
+ * password resets and weekly digests, queued in email_outbox and sent through
+ * the transport chosen in the admin email settings.
+ */
+
+export {
+  EMAIL_TRANSPORTS,
+  OUTBOX_STATUSES,
+  type EmailTransportName,
+  type EmailSettings,
+  type PublicEmailSettings,
+  type EmailAddress,
+  type EmailContent,
+  type EmailMessage,
+  type EmailTransport,
+  type EmailBranding,
+  type EmailTemplateData,
+  type EmailTemplateName,
+  type OutboxStatus,
+  type OutboxEmail,
+  type QueueEmailInput,
+  type OutboxRunResult
+} from './types'
+
+export {
+  EMAIL_SETTINGS_KEY,
+  DEFAULT_EMAIL_SETTINGS,
+  isValidEmail,
+  validateEmailSettings,
+  toEmailSettings,
+  toPublicEmailSettings,
+  resolveTransportName,
+  getSiteUrl,
+  loadEmailSettings,
+  saveEmailSettings
+} from './settings'
+
+export { escapeHtml, renderEmail } from './templates'
+
+export { encodeHeader, formatAddress, createMessageId, buildMimeMessage } from './mime'
+
+export { createTransport, getEmailOutboxDir, SmtpError, dotStuff } from './transports'
+
+export {
+  OUTBOX_FIELDS,
+  DEFAULT_MAX_ATTEMPTS,
+  RETRY_DELAYS_MINUTES,
+  getRetryDelayMinutes,
+  getFailureUpdate,
+  toOutboxEmail,
+  queueEmail,
+  processOutbox,
+  retryOutboxEmail,
+  listOutbox
+} from './outbox'
+
+export {
+  sendEnrollmentEmail,
+  sendQuizResultEmail,
+  sendPasswordResetEmail,
+  sendInstructorInviteEmail,
+  queueWeeklyDigests
+} from './producers'
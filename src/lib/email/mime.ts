@@ -0,0 +1,67 @@
+/**
+ * MIME
+ * Builds the raw RFC 5322 message the SMTP and file transports write: a
+ * multipart/alternative body with plain text and HTML parts, base64 encoded.
+ */
+
+import type { EmailAddress, EmailMessage } from './types'
+
+/** Header values never carry line breaks, whatever the caller passed */
+function singleLine(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ').trim()
+}
+
+/** RFC 2047 encoded-word for headers that aren't plain ASCII */
+export function encodeHeader(value: string): string {
+  const line = singleLine(value)
+  if (/^[\x20-\x7e]*$/.test(line)) return line
+  return `=?UTF-8?B?${Buffer.from(line, 'utf8').toString('base64')}?=`
+}
+
+export function formatAddress(address: EmailAddress): string {
+  const email = singleLine(address.email)
+  if (!address.name) return `<${email}>`
+  const name = encodeHeader(address.name)
+  return name.startsWith('=?') ? `${name} <${email}>` : `"${name.replace(/["\\]/g, '')}" <${email}>`
+}
+
+export function createMessageId(fromEmail: string): string {
+  const domain = fromEmail.split('@')[1] || 'localhost'
+  return `${Date.now().toString(36)}.${Math.random().toString(36).slice(2, 12)}@${domain}`
+}
+
+/** Base64 body wrapped at 76 characters, as MIME requires */
+function encodeBody(content: string): string {
+  return Buffer.from(content, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n')
+}
+
+export function buildMimeMessage(message: EmailMessage, date: Date = new Date()): string {
+  const boundary = `=_acadex_${message.message_id.replace(/[^a-z0-9]/gi, '')}`
+  const headers = [
+    `From: ${formatAddress(message.from)}`,
+    `To: ${formatAddress(message.to)}`,
+    ...(message.reply_to ? [`Reply-To: <${singleLine(message.reply_to)}>`] : []),
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString().replace('GMT', '+0000')}`,
+    `Message-ID: <${message.message_id}>`,
+    'MIME-Version: 1.0',
+    `Content-Type: multipart/alternative; boundary="${boundary}"`
+  ]
+
+  return [
+    ...headers,
+    '',
+    `--${boundary}`,
+    'Content-Type: text/plain; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.text),
+    `--${boundary}`,
+    'Content-Type: text/html; charset=UTF-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    encodeBody(message.html),
+    `--${boundary}--`,
+    ''
+  ].join('\r\n')
+}
@@ -0,0 +1,233 @@
+/**
+ * Email Outbox
+ * Every email is rendered into email_outbox first and sent from there, so a
+ * failed send is retried with backoff instead of being lost. Request handlers
+ * only queue; the outbox is sent by the email cron route (/api/cron/email),
+ * and admins can also run it from the settings page.
+ *
+ * A row being sent is leased by pushing next_attempt_at forward; if the
+ * process dies mid-send the lease expires and the row is picked up again.
+ */
+
+import { logger } from '@/lib/logger'
+import { getSiteUrl, loadEmailSettings } from './settings'
+import { renderEmail } from './templates'
+import { createTransport } from './transports'
+import { createMessageId } from './mime'
+import type { EmailSettings, OutboxEmail, OutboxRunResult, OutboxStatus, QueueEmailInput, EmailTemplateName } from './types'
+
+export const OUTBOX_FIELDS = 'id, user_id, to_email, to_name, template, subject, status, attempts, max_attempts, next_attempt_at, last_error, message_id, transport, created_at, sent_at'
+
+export const DEFAULT_MAX_ATTEMPTS = 5
+
+/** Minutes to wait after the 1st, 2nd, ... failed attempt */
+export const RETRY_DELAYS_MINUTES = [1, 5, 30, 120, 720]
+
+const LEASE_MINUTES = 10
+
+export function getRetryDelayMinutes(attempts: number): number {
+  return RETRY_DELAYS_MINUTES[Math.min(Math.max(attempts, 1), RETRY_DELAYS_MINUTES.length) - 1]
+}
+
+/**
+ * Where a row goes after a failed attempt: back in the queue, or failed for
+ * good once it has used its attempts
+ */
+export function getFailureUpdate(attempts: number, maxAttempts: number, now: Date): { status: OutboxStatus; next_attempt_at: string } {
+  if (attempts >= maxAttempts) {
+    return { status: 'failed', next_attempt_at: now.toISOString() }
+  }
+  return {
+    status: 'pending',
+    next_attempt_at: new Date(now.getTime() + getRetryDelayMinutes(attempts) * 60 * 1000).toISOString()
+  }
+}
+
+export function toOutboxEmail(row: any): OutboxEmail {
+  return {
+    ...row,
+    attempts: row.attempts || 0,
+    max_attempts: row.max_attempts || DEFAULT_MAX_ATTEMPTS
+  }
+}
+
+/**
+ * Render an email into the outbox. Returns the outbox id, or null when the
+ * dedupe_key was already used.
+ */
+export async function queueEmail<T extends EmailTemplateName>(
+  serviceClient: any,
+  input: QueueEmailInput<T>,
+  settings?: EmailSettings
+): Promise<string | null> {
+  const { from_name } = settings || await loadEmailSettings(serviceClient)
+  const content = renderEmail(input.template, input.data, { site_name: from_name, site_url: getSiteUrl() })
+
+  const { data, error } = await serviceClient
+    .from('email_outbox')
+    .upsert({
+      user_id: input.user_id || null,
+      to_email: input.to.email,
+      to_name: input.to.name || null,
+      template: input.template,
+      subject: content.subject,
+      html_body: content.html,
+      text_body: content.text,
+      dedupe_key: input.dedupe_key || null,
+      status: 'pending',
+      max_attempts: DEFAULT_MAX_ATTEMPTS
+    }, { onConflict: 'dedupe_key', ignoreDuplicates: true })
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to queue email: ${error.message}`)
+  }
+
+  return data?.[0]?.id || null
+}
+
+/**
+ * Send the emails that are due, oldest first. Failures are rescheduled with
+ * backoff and never thrown; only a broken queue is.
+ */
+export async function processOutbox(
+  serviceClient: any,
+  options: { limit?: number; now?: Date } = {}
+): Promise<OutboxRunResult> {
+  const now = options.now || new Date()
+  const result: OutboxRunResult = { sent: 0, retrying: 0, failed: 0 }
+
+  const { data: due, error } = await serviceClient
+    .from('email_outbox')
+    .select('id, to_email, to_name, subject, html_body, text_body, attempts, max_attempts, next_attempt_at')
+    .in('status', ['pending', 'sending'])
+    .lte('next_attempt_at', now.toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(options.limit || 20)
+
+  if (error) {
+    throw new Error(`Failed to load email outbox: ${error.message}`)
+  }
+  if (!due || due.length === 0) return result
+
+  const settings = await loadEmailSettings(serviceClient)
+  const transport = createTransport(settings)
+
+  for (const row of due) {
+    const attempts = (row.attempts || 0) + 1
+
+    // Claim the row; another run that got here first has already moved next_attempt_at
+    const { data: claimed } = await serviceClient
+      .from('email_outbox')
+      .update({
+        status: 'sending',
+        attempts,
+        next_attempt_at: new Date(now.getTime() + LEASE_MINUTES * 60 * 1000).toISOString(),
+        updated_at: now.toISOString()
+      })
+      .eq('id', row.id)
+      .eq('next_attempt_at', row.next_attempt_at)
+      .select('id')
+
+    if (!claimed || claimed.length === 0) continue
+
+    try {
+      const messageId = await transport.send({
+        from: { email: settings.from_email, name: settings.from_name },
+        to: { email: row.to_email, name: row.to_name },
+        reply_to: settings.reply_to || null,
+        subject: row.subject,
+        html: row.html_body,
+        text: row.text_body,
+        message_id: createMessageId(settings.from_email)
+      })
+
+      await serviceClient
+        .from('email_outbox')
+        .update({
+          status: 'sent',
+          message_id: messageId,
+          transport: transport.name,
+          last_error: null,
+          sent_at: new Date().toISOString(),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', row.id)
+      result.sent++
+    } catch (sendError: any) {
+      const update = getFailureUpdate(attempts, row.max_attempts || DEFAULT_MAX_ATTEMPTS, new Date())
+      await serviceClient
+        .from('email_outbox')
+        .update({
+          ...update,
+          transport: transport.name,
+          last_error: String(sendError.message || sendError).slice(0, 1000),
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', row.id)
+
+      if (update.status === 'failed') result.failed++
+      else result.retrying++
+      logger.warn('Email send failed', { outboxId: row.id, attempts, status: update.status, error: sendError.message })
+    }
+  }
+
+  return result
+}
+
+/**
+ * Put a failed email back in the queue with a fresh set of attempts
+ */
+export async function retryOutboxEmail(serviceClient: any, id: string): Promise<OutboxEmail | null> {
+  const { data, error } = await serviceClient
+    .from('email_outbox')
+    .update({
+      status: 'pending',
+      attempts: 0,
+      next_attempt_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', id)
+    .eq('status', 'failed')
+    .select(OUTBOX_FIELDS)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to retry email: ${error.message}`)
+  }
+  return data ? toOutboxEmail(data) : null
+}
+
+export async function listOutbox(
+  serviceClient: any,
+  options: { status?: OutboxStatus; limit?: number } = {}
+): Promise<{ emails: OutboxEmail[]; counts: Record<OutboxStatus, number> }> {
+  let query = serviceClient
+    .from('email_outbox')
+    .select(OUTBOX_FIELDS)
+    .order('created_at', { ascending: false })
+    .limit(options.limit || 50)
+
+  if (options.status) {
+    query = query.eq('status', options.status)
+  }
+
+  const statuses: OutboxStatus[] = ['pending', 'sending', 'sent', 'failed']
+  const [listResult, ...countResults] = await Promise.all([
+    query,
+    ...statuses.map(status => serviceClient
+      .from('email_outbox')
+      .select('id', { count: 'exact', head: true })
+      .eq('status', status))
+  ])
+
+  if (listResult.error) {
+    throw new Error(`Failed to load email outbox: ${listResult.error.message}`)
+  }
+
+  const counts = Object.fromEntries(
+    statuses.map((status, index) => [status, countResults[index].count || 0])
+  ) as Record<OutboxStatus, number>
+
+  return { emails: (listResult.data || []).map(toOutboxEmail), counts }
+}
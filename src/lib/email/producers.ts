@@ -0,0 +1,203 @@
+/**
+ * Email Producers
+ * The transactional emails the platform sends. Each is keyed to its event, so
+ * calling a producer twice for the same enrollment, attempt or week sends one email.
+ * Producers only queue: they run inside user requests, which must not wait on SMTP.
+ */
+
+import { logger } from '@/lib/logger'
+import { refreshUserStats } from '@/lib/user-stats/sync'
+import { queueEmail } from './outbox'
+import { getSiteUrl, loadEmailSettings, resolveTransportName } from './settings'
+import type { EmailAddress } from './types'
+
+/** Recovery links from Supabase Auth are valid for an hour by default */
+const PASSWORD_RESET_EXPIRES_HOURS = 1
+
+const DIGEST_BATCH_SIZE = 200
+
+async function loadRecipient(serviceClient: any, userId: string): Promise<(EmailAddress & { name: string }) | null> {
+  const { data, error } = await serviceClient
+    .from('users')
+    .select('email, name')
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load user: ${error.message}`)
+  }
+  if (!data?.email) return null
+  return { email: data.email, name: data.name || data.email.split('@')[0] }
+}
+
+export async function sendEnrollmentEmail(serviceClient: any, userId: string, courseId: string): Promise<string | null> {
+  const [recipient, { data: enrollment }] = await Promise.all([
+    loadRecipient(serviceClient, userId),
+    serviceClient
+      .from('enrollments')
+      .select('course_id, courses (title)')
+      .eq('user_id', userId)
+      .eq('course_id', courseId)
+      .maybeSingle()
+  ])
+  if (!recipient || !enrollment) return null
+
+  return queueEmail(serviceClient, {
+    to: recipient,
+    user_id: userId,
+    template: 'enrollment_confirmation',
+    data: {
+      name: recipient.name,
+      course_title: enrollment.courses?.title || 'your new course',
+      course_url: `${getSiteUrl()}/courses/${courseId}/study`
+    },
+    dedupe_key: `enrollment:${userId}:${courseId}`
+  })
+}
+
+/**
+ * Result of a submitted attempt. An attempt with essays awaiting review gets a
+ * "submitted" email now and its final result once grading finishes.
+ */
+export async function sendQuizResultEmail(
+  serviceClient: any,
+  attempt: { id: string; user_id: string; quiz_id: string; percentage_score: number; passed: boolean; grading_status?: string | null }
+): Promise<string | null> {
+  const pendingReview = attempt.grading_status === 'pending_review'
+  const [recipient, { data: quiz }] = await Promise.all([
+    loadRecipient(serviceClient, attempt.user_id),
+    serviceClient.from('quizzes').select('title').eq('id', attempt.quiz_id).maybeSingle()
+  ])
+  if (!recipient) return null
+
+  return queueEmail(serviceClient, {
+    to: recipient,
+    user_id: attempt.user_id,
+    template: 'quiz_result',
+    data: {
+      name: recipient.name,
+      quiz_title: quiz?.title || 'Your quiz',
+      percentage: attempt.percentage_score || 0,
+      passed: attempt.passed === true,
+      pending_review: pendingReview,
+      results_url: `${getSiteUrl()}/quizzes/${attempt.quiz_id}/results/${attempt.id}`
+    },
+    dedupe_key: `quiz-result:${attempt.id}:${pendingReview ? 'submitted' : 'final'}`
+  })
+}
+
+/**
+ * Send a branded password reset email. Returns false when email isn't set up
+ * to reach real inboxes (console transport), so the caller can fall back to
+ * Supabase's own email. Unknown addresses resolve true without sending anything.
+ */
+export async function sendPasswordResetEmail(serviceClient: any, email: string, redirectTo: string): Promise<boolean> {
+  const settings = await loadEmailSettings(serviceClient)
+  if (resolveTransportName(settings) === 'console') return false
+
+  const { data, error } = await serviceClient.auth.admin.generateLink({
+    type: 'recovery',
+    email,
+    options: { redirectTo }
+  })
+
+  if (error || !data?.properties?.action_link) {
+    // Same answer for unknown addresses, so the form can't be used to probe for accounts
+    logger.info('Password reset link not generated', { reason: error?.message || 'no link' })
+    return true
+  }
+
+  const { data: user } = await serviceClient.from('users').select('id, name').eq('email', email).maybeSingle()
+  await queueEmail(serviceClient, {
+    to: { email, name: user?.name || null },
+    user_id: user?.id || null,
+    template: 'password_reset',
+    data: {
+      name: user?.name || null,
+      reset_url: data.properties.action_link,
+      expires_hours: PASSWORD_RESET_EXPIRES_HOURS
+    }
+  })
+  return true
+}
+
+/**
+ * The invitation link for a new instructor. The link carries the invite's
+ * secret token, so it is only ever sent to the invited address.
+ */
+export async function sendInstructorInviteEmail(
+  serviceClient: any,
+  invite: { id: string; email: string; expires_at: string },
+  acceptUrl: string,
+  inviterName: string
+): Promise<string | null> {
+  const expiresDays = Math.max(1, Math.round((new Date(invite.expires_at).getTime() - Date.now()) / (24 * 60 * 60 * 1000)))
+
+  return queueEmail(serviceClient, {
+    to: { email: invite.email },
+    template: 'instructor_invite',
+    data: { inviter_name: inviterName, accept_url: acceptUrl, expires_days: expiresDays },
+    dedupe_key: `instructor-invite:${invite.id}`
+  })
+}
+
+/**
+ * Queue last week's progress digest for every learner with weekly progress
+ * updates turned on. Safe to run any number of times a week; returns how many
+ * digests were newly queued.
+ */
+export async function queueWeeklyDigests(serviceClient: any, now: Date = new Date()): Promise<number> {
+  const settings = await loadEmailSettings(serviceClient)
+  let queued = 0
+
+  for (let offset = 0; ; offset += DIGEST_BATCH_SIZE) {
+    const { data: subscribers, error } = await serviceClient
+      .from('user_settings')
+      .select('user_id, users!inner (email, name)')
+      .eq('notification_preferences->>progressUpdates', 'true')
+      .order('user_id')
+      .range(offset, offset + DIGEST_BATCH_SIZE - 1)
+
+    if (error) {
+      throw new Error(`Failed to load digest subscribers: ${error.message}`)
+    }
+
+    for (const subscriber of subscribers || []) {
+      try {
+        const stats = await refreshUserStats(serviceClient, subscriber.user_id, now)
+        const weeks = stats.performance_trends.weekly
+        const lastWeek = weeks[weeks.length - 2]
+        if (!lastWeek || !subscriber.users?.email) continue
+
+        const name = subscriber.users.name || subscriber.users.email.split('@')[0]
+        const id = await queueEmail(serviceClient, {
+          to: { email: subscriber.users.email, name },
+          user_id: subscriber.user_id,
+          template: 'weekly_digest',
+          data: {
+            name,
+            week_start: lastWeek.week_start,
+            quizzes: lastWeek.quizzes,
+            average_score: lastWeek.average_score,
+            lessons_completed: lastWeek.lessons_completed,
+            study_minutes: lastWeek.study_minutes,
+            active_days: lastWeek.active_days,
+            streak_days: stats.study_streak_days,
+            dashboard_url: `${getSiteUrl()}/dashboard`
+          },
+          dedupe_key: `weekly-digest:${subscriber.user_id}:${lastWeek.week_start}`
+        }, settings)
+        if (id) queued++
+      } catch (digestError: any) {
+        logger.warn('Failed to queue weekly digest', { error: digestError.message, userId: subscriber.user_id })
+      }
+    }
+
+    if (!subscribers || subscribers.length < DIGEST_BATCH_SIZE) break
+  }
+
+  if (queued > 0) {
+    logger.info('Weekly digests queued', { queued })
+  }
+  return queued
+}
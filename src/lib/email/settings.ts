@@ -0,0 +1,151 @@
+/**
+ * Email Settings
+ * Sender and SMTP settings, kept in platform_settings under the 'email' key.
+ * EMAIL_TRANSPORT in the environment overrides the saved transport, so a local
+ * checkout can point at the file or console transport without touching the database.
+ */
+
+import { EMAIL_TRANSPORTS, type EmailSettings, type EmailTransportName, type PublicEmailSettings } from './types'
+
+export const EMAIL_SETTINGS_KEY = 'email'
+
+export const DEFAULT_EMAIL_SETTINGS: EmailSettings = {
+  transport: 'console',
+  smtp_host: '',
+  smtp_port: 587,
+  smtp_secure: false,
+  smtp_allow_insecure_auth: false,
+  smtp_username: '',
+  smtp_password: '',
+  from_email: 'noreply@acadex.com',
+  from_name: 'Acadex',
+  reply_to: ''
+}
+
+const EMAIL_PATTERN = /^[^\s@<>]+@[^\s@<>]+\.[^\s@<>]+$/
+
+export function isValidEmail(value: unknown): value is string {
+  return typeof value === 'string' && value.length <= 254 && EMAIL_PATTERN.test(value)
+}
+
+/**
+ * Validation for a (partial) email settings update; returns the first problem found
+ */
+export function validateEmailSettings(body: any): string | null {
+  if (!body || typeof body !== 'object') return 'Email settings are required'
+
+  for (const key of Object.keys(body)) {
+    if (!(key in DEFAULT_EMAIL_SETTINGS)) return `Unknown email setting: ${key}`
+  }
+
+  if (body.transport !== undefined && !EMAIL_TRANSPORTS.includes(body.transport)) {
+    return `Transport must be one of: ${EMAIL_TRANSPORTS.join(', ')}`
+  }
+  if (body.smtp_port !== undefined && (!Number.isInteger(body.smtp_port) || body.smtp_port < 1 || body.smtp_port > 65535)) {
+    return 'SMTP port must be a whole number between 1 and 65535'
+  }
+  for (const key of ['smtp_secure', 'smtp_allow_insecure_auth'] as const) {
+    if (body[key] !== undefined && typeof body[key] !== 'boolean') return `${key} must be true or false`
+  }
+  for (const key of ['smtp_host', 'smtp_username', 'smtp_password', 'from_name', 'reply_to'] as const) {
+    if (body[key] !== undefined && typeof body[key] !== 'string') return `${key} must be text`
+  }
+  if (body.smtp_host !== undefined && /[\s/]/.test(body.smtp_host.trim())) {
+    return 'SMTP host must be a host name such as smtp.example.com'
+  }
+  if (body.from_email !== undefined && !isValidEmail(body.from_email)) {
+    return 'From email must be a valid email address'
+  }
+  if (body.from_name !== undefined && /[\r\n<>"]/.test(body.from_name)) {
+    return 'From name cannot contain quotes, angle brackets or line breaks'
+  }
+  if (body.reply_to !== undefined && body.reply_to !== '' && !isValidEmail(body.reply_to)) {
+    return 'Reply-to must be a valid email address'
+  }
+  if (body.transport === 'smtp' && body.smtp_host !== undefined && !body.smtp_host.trim()) {
+    return 'SMTP host is required for the SMTP transport'
+  }
+
+  return null
+}
+
+/**
+ * Settings from a platform_settings value; missing or malformed fields fall back to the defaults
+ */
+export function toEmailSettings(value: any): EmailSettings {
+  const settings = { ...DEFAULT_EMAIL_SETTINGS }
+  if (!value || typeof value !== 'object') return settings
+
+  for (const key of Object.keys(DEFAULT_EMAIL_SETTINGS) as Array<keyof EmailSettings>) {
+    if (value[key] !== undefined && typeof value[key] === typeof DEFAULT_EMAIL_SETTINGS[key]) {
+      (settings as any)[key] = value[key]
+    }
+  }
+  if (!EMAIL_TRANSPORTS.includes(settings.transport)) settings.transport = DEFAULT_EMAIL_SETTINGS.transport
+  return settings
+}
+
+export function toPublicEmailSettings(settings: EmailSettings): PublicEmailSettings {
+  const { smtp_password, ...rest } = settings
+  return { ...rest, smtp_password_set: smtp_password.length > 0 }
+}
+
+/**
+ * The transport in effect: EMAIL_TRANSPORT wins, and SMTP without a host falls back to the console
+ */
+export function resolveTransportName(settings: EmailSettings, env: string | undefined = process.env.EMAIL_TRANSPORT): EmailTransportName {
+  if (env && EMAIL_TRANSPORTS.includes(env as EmailTransportName)) return env as EmailTransportName
+  if (settings.transport === 'smtp' && !settings.smtp_host.trim()) return 'console'
+  return settings.transport
+}
+
+export function getSiteUrl(): string {
+  return (process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000').replace(/\/+$/, '')
+}
+
+export async function loadEmailSettings(serviceClient: any): Promise<EmailSettings> {
+  const { data, error } = await serviceClient
+    .from('platform_settings')
+    .select('value')
+    .eq('key', EMAIL_SETTINGS_KEY)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load email settings: ${error.message}`)
+  }
+
+  return toEmailSettings(data?.value)
+}
+
+/**
+ * Apply a validated update. Leaving smtp_password out keeps the saved one, so
+ * the admin form never has to send it back.
+ */
+export async function saveEmailSettings(
+  serviceClient: any,
+  update: Partial<EmailSettings>,
+  updatedBy: string
+): Promise<EmailSettings> {
+  const current = await loadEmailSettings(serviceClient)
+  const settings: EmailSettings = {
+    ...current,
+    ...update,
+    smtp_host: (update.smtp_host ?? current.smtp_host).trim(),
+    from_name: (update.from_name ?? current.from_name).trim()
+  }
+
+  const { error } = await serviceClient
+    .from('platform_settings')
+    .upsert({
+      key: EMAIL_SETTINGS_KEY,
+      value: settings,
+      updated_by: updatedBy,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'key' })
+
+  if (error) {
+    throw new Error(`Failed to save email settings: ${error.message}`)
+  }
+
+  return settings
+}
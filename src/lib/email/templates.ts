@@ -0,0 +1,185 @@
+/**
+ * Email Templates
+ * Transactional emails as subject, HTML and plain text, in the platform's
+ * branding. Pure, so templates can be previewed and tested without sending.
+ */
+
+import type { EmailBranding, EmailContent, EmailTemplateData, EmailTemplateName } from './types'
+
+/** Acadex purple, --primary in globals.css */
+const BRAND_COLOR = '#4f46e5'
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+interface TemplateBody {
+  subject: string
+  /** Short line shown by mail clients next to the subject */
+  preheader: string
+  heading: string
+  paragraphs: string[]
+  /** Rows of label and value, e.g. a score breakdown */
+  facts?: Array<[string, string]>
+  action?: { label: string; url: string }
+  footnote?: string
+}
+
+function renderLayout(body: TemplateBody, branding: EmailBranding): EmailContent {
+  const siteName = escapeHtml(branding.site_name)
+  const facts = body.facts?.length
+    ? `<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="margin:16px 0;border-collapse:collapse;">${body.facts
+        .map(([label, value]) => `<tr><td style="padding:8px 0;border-bottom:1px solid #e5e7eb;color:#6b7280;">${escapeHtml(label)}</td><td style="padding:8px 0;border-bottom:1px solid #e5e7eb;text-align:right;font-weight:600;color:#111827;">${escapeHtml(value)}</td></tr>`)
+        .join('')}</table>`
+    : ''
+  const action = body.action
+    ? `<p style="margin:24px 0;"><a href="${escapeHtml(body.action.url)}" style="display:inline-block;background:${BRAND_COLOR};color:#ffffff;text-decoration:none;font-weight:600;padding:12px 20px;border-radius:8px;">${escapeHtml(body.action.label)}</a></p>`
+    : ''
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>${escapeHtml(body.subject)}</title></head>
+<body style="margin:0;padding:0;background:#f3f4f6;font-family:-apple-system,BlinkMacSystemFont,'Segoe UI',Roboto,Helvetica,Arial,sans-serif;">
+<span style="display:none;max-height:0;overflow:hidden;">${escapeHtml(body.preheader)}</span>
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="background:#f3f4f6;padding:24px 12px;">
+<tr><td align="center">
+<table role="presentation" width="100%" cellpadding="0" cellspacing="0" style="max-width:560px;background:#ffffff;border-radius:12px;overflow:hidden;">
+<tr><td style="background:${BRAND_COLOR};padding:16px 24px;"><a href="${escapeHtml(branding.site_url)}" style="color:#ffffff;text-decoration:none;font-size:20px;font-weight:800;letter-spacing:0.5px;">${siteName}</a></td></tr>
+<tr><td style="padding:24px;color:#374151;font-size:15px;line-height:1.6;">
+<h1 style="margin:0 0 16px;font-size:22px;color:#111827;">${escapeHtml(body.heading)}</h1>
+${body.paragraphs.map(paragraph => `<p style="margin:0 0 12px;">${escapeHtml(paragraph)}</p>`).join('\n')}
+${facts}
+${action}
+${body.footnote ? `<p style="margin:16px 0 0;font-size:13px;color:#6b7280;">${escapeHtml(body.footnote)}</p>` : ''}
+</td></tr>
+<tr><td style="padding:16px 24px;border-top:1px solid #e5e7eb;font-size:12px;color:#9ca3af;">Sent by ${siteName} · <a href="${escapeHtml(branding.site_url)}/dashboard/settings" style="color:#9ca3af;">Email preferences</a></td></tr>
+</table>
+</td></tr>
+</table>
+</body>
+</html>`
+
+  const text = [
+    body.heading,
+    '',
+    ...body.paragraphs.flatMap(paragraph => [paragraph, '']),
+    ...(body.facts?.length ? [...body.facts.map(([label, value]) => `${label}: ${value}`), ''] : []),
+    ...(body.action ? [`${body.action.label}: ${body.action.url}`, ''] : []),
+    ...(body.footnote ? [body.footnote, ''] : []),
+    '--',
+    `${branding.site_name} · ${branding.site_url}`
+  ].join('\n')
+
+  return { subject: body.subject, html, text }
+}
+
+function formatMinutes(minutes: number): string {
+  if (minutes < 60) return `${minutes} min`
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  return rest ? `${hours} h ${rest} min` : `${hours} h`
+}
+
+const TEMPLATES: { [T in EmailTemplateName]: (data: EmailTemplateData[T], branding: EmailBranding) => TemplateBody } = {
+  enrollment_confirmation: (data) => ({
+    subject: `You're enrolled in ${data.course_title}`,
+    preheader: 'Your course is ready to start.',
+    heading: `Welcome to ${data.course_title}`,
+    paragraphs: [
+      `Hi ${data.name},`,
+      `You're now enrolled in ${data.course_title}. Your progress is saved as you go, so you can pick up where you left off on any device.`
+    ],
+    action: { label: 'Start learning', url: data.course_url }
+  }),
+
+  quiz_result: (data) => ({
+    subject: data.pending_review
+      ? `${data.quiz_title}: submitted for review`
+      : `${data.quiz_title}: ${data.passed ? 'passed' : 'your result'} (${Math.round(data.percentage)}%)`,
+    preheader: data.pending_review ? 'Some answers are waiting for an instructor.' : `You scored ${Math.round(data.percentage)}%.`,
+    heading: data.pending_review ? 'Your attempt is being reviewed' : data.passed ? 'Congratulations, you passed!' : 'Your quiz result',
+    paragraphs: [
+      `Hi ${data.name},`,
+      data.pending_review
+        ? `Thanks for completing ${data.quiz_title}. Some of your answers need an instructor's review, so your score may change once they're graded.`
+        : data.passed
+          ? `You passed ${data.quiz_title}. Well done!`
+          : `You completed ${data.quiz_title}. Review your answers to see where to focus before trying again.`
+    ],
+    facts: [
+      [data.pending_review ? 'Score so far' : 'Score', `${Math.round(data.percentage)}%`],
+      ['Result', data.pending_review ? 'Awaiting review' : data.passed ? 'Passed' : 'Not passed']
+    ],
+    action: { label: 'View your results', url: data.results_url }
+  }),
+
+  password_reset: (data, branding) => ({
+    subject: `Reset your ${branding.site_name} password`,
+    preheader: 'Use this link to choose a new password.',
+    heading: 'Reset your password',
+    paragraphs: [
+      data.name ? `Hi ${data.name},` : 'Hi,',
+      `We received a request to reset the password for your ${branding.site_name} account. Choose a new one with the button below.`
+    ],
+    action: { label: 'Choose a new password', url: data.reset_url },
+    footnote: `The link expires in ${data.expires_hours} hour${data.expires_hours !== 1 ? 's' : ''}. If you didn't ask for this, you can ignore this email; your password won't change.`
+  }),
+
+  weekly_digest: (data) => ({
+    subject: data.quizzes > 0 || data.lessons_completed > 0
+      ? `Your week: ${data.quizzes} quiz${data.quizzes !== 1 ? 'zes' : ''}, ${formatMinutes(data.study_minutes)} of study`
+      : 'Your weekly learning summary',
+    preheader: data.streak_days > 0 ? `You're on a ${data.streak_days}-day streak.` : 'Here is how your week went.',
+    heading: `Your week from ${data.week_start}`,
+    paragraphs: [
+      `Hi ${data.name},`,
+      data.active_days > 0
+        ? `You studied on ${data.active_days} day${data.active_days !== 1 ? 's' : ''} last week. Here's your summary.`
+        : 'You had a quiet week. A short session today is a great way to get back into it.'
+    ],
+    facts: [
+      ['Quizzes completed', String(data.quizzes)],
+      ['Average score', data.average_score === null ? '—' : `${Math.round(data.average_score)}%`],
+      ['Lessons completed', String(data.lessons_completed)],
+      ['Study time', formatMinutes(data.study_minutes)],
+      ['Current streak', `${data.streak_days} day${data.streak_days !== 1 ? 's' : ''}`]
+    ],
+    action: { label: 'Open your dashboard', url: data.dashboard_url },
+    footnote: 'You receive this summary because weekly progress updates are turned on in your settings.'
+  }),
+
+  instructor_invite: (data, branding) => ({
+    subject: `You're invited to teach on ${branding.site_name}`,
+    preheader: `${data.inviter_name} invited you to join as an instructor.`,
+    heading: 'Join as an instructor',
+    paragraphs: [
+      'Hi,',
+      `${data.inviter_name} invited you to create courses and quizzes on ${branding.site_name}. Sign in or create an account with this email address, then accept the invitation.`
+    ],
+    action: { label: 'Accept invitation', url: data.accept_url },
+    footnote: `The invitation expires in ${data.expires_days} day${data.expires_days !== 1 ? 's' : ''}. If you weren't expecting it, you can ignore this email.`
+  }),
+
+  test: (data, branding) => ({
+    subject: `${branding.site_name} test email`,
+    preheader: 'Your email settings work.',
+    heading: 'Email is working',
+    paragraphs: [
+      `Hi ${data.name},`,
+      `This test was sent with your current ${branding.site_name} email settings. If you're reading it, delivery works.`
+    ]
+  })
+}
+
+export function renderEmail<T extends EmailTemplateName>(
+  template: T,
+  data: EmailTemplateData[T],
+  branding: EmailBranding
+): EmailContent {
+  return renderLayout(TEMPLATES[template](data, branding), branding)
+}
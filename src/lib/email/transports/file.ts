@@ -0,0 +1,43 @@
+/**
+ * File and Console Transports
+ * For local testing: the file transport writes each message as an .eml file
+ * (EMAIL_OUTBOX_DIR, default .email-outbox) that any mail client can open;
+ * the console transport only logs who would have received what.
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import { logger } from '@/lib/logger'
+import { buildMimeMessage } from '../mime'
+import type { EmailMessage, EmailTransport } from '../types'
+
+export function getEmailOutboxDir(): string {
+  return path.resolve(process.env.EMAIL_OUTBOX_DIR || '.email-outbox')
+}
+
+export function createFileTransport(directory: string = getEmailOutboxDir()): EmailTransport {
+  return {
+    name: 'file',
+    async send(message: EmailMessage): Promise<string> {
+      await fs.mkdir(directory, { recursive: true })
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${message.message_id.replace(/[^a-z0-9.-]/gi, '_')}.eml`
+      await fs.writeFile(path.join(directory, fileName), buildMimeMessage(message), 'utf8')
+      logger.info('Email written to file', { to: message.to.email, subject: message.subject, file: fileName })
+      return message.message_id
+    }
+  }
+}
+
+export function createConsoleTransport(): EmailTransport {
+  return {
+    name: 'console',
+    async send(message: EmailMessage): Promise<string> {
+      logger.info('Email (console transport)', {
+        to: message.to.email,
+        subject: message.subject,
+        preview: message.text.slice(0, 500)
+      })
+      return message.message_id
+    }
+  }
+}
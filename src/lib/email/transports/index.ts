@@ -0,0 +1,22 @@
+/**
+ * Email Transports
+ */
+
+import { resolveTransportName } from '../settings'
+import type { EmailSettings, EmailTransport } from '../types'
+import { createConsoleTransport, createFileTransport } from './file'
+import { createSmtpTransport } from './smtp'
+
+export { SmtpError, dotStuff } from './smtp'
+export { getEmailOutboxDir } from './file'
+
+export function createTransport(settings: EmailSettings): EmailTransport {
+  switch (resolveTransportName(settings)) {
+    case 'smtp':
+      return createSmtpTransport(settings)
+    case 'file':
+      return createFileTransport()
+    default:
+      return createConsoleTransport()
+  }
+}
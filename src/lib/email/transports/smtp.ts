@@ -0,0 +1,194 @@
+/**
+ * SMTP Transport
+ * A small SMTP client over node's net and tls: EHLO, STARTTLS when the server
+ * offers it, AUTH PLAIN or LOGIN, then one message per connection. Enough for
+ * a provider's submission port; queueing and retries live in the outbox.
+ * Credentials are only sent over TLS unless smtp_allow_insecure_auth is on, so a
+ * stripped STARTTLS offer can't downgrade the login to cleartext.
+ */
+
+import net from 'net'
+import tls from 'tls'
+import { buildMimeMessage } from '../mime'
+import type { EmailMessage, EmailSettings, EmailTransport } from '../types'
+
+const TIMEOUT_MS = 30_000
+
+interface SmtpReply {
+  code: number
+  lines: string[]
+}
+
+export class SmtpError extends Error {
+  constructor(message: string, public code?: number) {
+    super(message)
+    this.name = 'SmtpError'
+  }
+}
+
+/**
+ * One SMTP session. Replies are read line by line; a multi-line reply ends at
+ * the line whose code is followed by a space.
+ */
+class SmtpSession {
+  private buffer = ''
+  private lines: string[] = []
+  private replies: SmtpReply[] = []
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null
+  private failure: Error | null = null
+
+  constructor(private socket: net.Socket) {
+    this.attach(socket)
+  }
+
+  private attach(socket: net.Socket) {
+    this.socket = socket
+    socket.setTimeout(TIMEOUT_MS)
+    socket.on('data', (chunk: Buffer) => this.receive(chunk.toString('utf8')))
+    socket.on('timeout', () => this.fail(new SmtpError('SMTP server timed out')))
+    socket.on('error', (error: Error) => this.fail(new SmtpError(error.message)))
+    socket.on('close', () => this.fail(new SmtpError('SMTP connection closed')))
+  }
+
+  private receive(data: string) {
+    this.buffer += data
+    let newline: number
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '')
+      this.buffer = this.buffer.slice(newline + 1)
+      this.lines.push(line)
+
+      if (/^\d{3} /.test(line) || /^\d{3}$/.test(line)) {
+        const reply = { code: Number(line.slice(0, 3)), lines: this.lines.map(l => l.slice(4)) }
+        this.lines = []
+        const waiting = this.waiting
+        this.waiting = null
+        if (waiting) waiting.resolve(reply)
+        else this.replies.push(reply)
+      }
+    }
+  }
+
+  private fail(error: Error) {
+    if (!this.failure) this.failure = error
+    const waiting = this.waiting
+    this.waiting = null
+    waiting?.reject(error)
+  }
+
+  read(): Promise<SmtpReply> {
+    const queued = this.replies.shift()
+    if (queued) return Promise.resolve(queued)
+    if (this.failure) return Promise.reject(this.failure)
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject }
+    })
+  }
+
+  /** Send a command and insist on one of the expected reply codes */
+  async command(line: string, expected: number[], redacted?: string): Promise<SmtpReply> {
+    const reply = this.read()
+    this.socket.write(`${line}\r\n`)
+    return this.expect(await reply, expected, redacted || line)
+  }
+
+  /** The message itself, terminated by a lone dot; resolves with the server's verdict */
+  async data(raw: string): Promise<SmtpReply> {
+    const reply = this.read()
+    const body = dotStuff(raw)
+    this.socket.write(`${body}${body.endsWith('\r\n') ? '' : '\r\n'}.\r\n`)
+    return this.expect(await reply, [250], 'DATA')
+  }
+
+  expect(reply: SmtpReply, expected: number[], context: string): SmtpReply {
+    if (!expected.includes(reply.code)) {
+      throw new SmtpError(`${context.split(' ')[0]} failed: ${reply.code} ${reply.lines.join(' ')}`, reply.code)
+    }
+    return reply
+  }
+
+  async upgrade(host: string): Promise<void> {
+    this.socket.removeAllListeners()
+    const secure = tls.connect({ socket: this.socket, servername: host })
+    await new Promise<void>((resolve, reject) => {
+      secure.once('secureConnect', () => resolve())
+      secure.once('error', (error: Error) => reject(new SmtpError(`TLS negotiation failed: ${error.message}`)))
+    })
+    this.attach(secure)
+  }
+
+  close() {
+    this.socket.removeAllListeners()
+    this.socket.on('error', () => {})
+    this.socket.end()
+  }
+}
+
+function connect(settings: EmailSettings): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const options = { host: settings.smtp_host, port: settings.smtp_port }
+    const socket = settings.smtp_secure
+      ? tls.connect({ ...options, servername: settings.smtp_host }, () => resolve(socket))
+      : net.connect(options, () => resolve(socket))
+    socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error('Connection timed out')))
+    socket.once('error', (error: Error) => reject(new SmtpError(`Could not connect to ${settings.smtp_host}:${settings.smtp_port}: ${error.message}`)))
+  })
+}
+
+function parseCapabilities(reply: SmtpReply): Set<string> {
+  return new Set(reply.lines.slice(1).map(line => line.toUpperCase()))
+}
+
+/** Lines starting with a dot are doubled so they can't end the DATA section */
+export function dotStuff(raw: string): string {
+  return raw.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..')
+}
+
+export function createSmtpTransport(settings: EmailSettings): EmailTransport {
+  return {
+    name: 'smtp',
+    async send(message: EmailMessage): Promise<string> {
+      const session = new SmtpSession(await connect(settings))
+      const clientName = message.from.email.split('@')[1] || 'localhost'
+
+      try {
+        session.expect(await session.read(), [220], 'Greeting')
+        let capabilities = parseCapabilities(await session.command(`EHLO ${clientName}`, [250]))
+        let encrypted = settings.smtp_secure
+
+        if (!encrypted && capabilities.has('STARTTLS')) {
+          await session.command('STARTTLS', [220])
+          await session.upgrade(settings.smtp_host)
+          encrypted = true
+          capabilities = parseCapabilities(await session.command(`EHLO ${clientName}`, [250]))
+        }
+
+        if (settings.smtp_username) {
+          if (!encrypted && !settings.smtp_allow_insecure_auth) {
+            throw new SmtpError('The SMTP server did not offer STARTTLS; refusing to send the password unencrypted')
+          }
+          const auth = Array.from(capabilities).find(capability => capability.startsWith('AUTH')) || ''
+          if (auth.includes('PLAIN') || !auth.includes('LOGIN')) {
+            const token = Buffer.from(`\0${settings.smtp_username}\0${settings.smtp_password}`).toString('base64')
+            await session.command(`AUTH PLAIN ${token}`, [235], 'AUTH PLAIN')
+          } else {
+            await session.command('AUTH LOGIN', [334])
+            await session.command(Buffer.from(settings.smtp_username).toString('base64'), [334], 'AUTH username')
+            await session.command(Buffer.from(settings.smtp_password).toString('base64'), [235], 'AUTH password')
+          }
+        }
+
+        await session.command(`MAIL FROM:<${message.from.email}>`, [250])
+        await session.command(`RCPT TO:<${message.to.email}>`, [250, 251])
+        await session.command('DATA', [354])
+
+        await session.data(buildMimeMessage(message))
+
+        await session.command('QUIT', [221]).catch(() => undefined)
+        return message.message_id
+      } finally {
+        session.close()
+      }
+    }
+  }
+}
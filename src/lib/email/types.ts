@@ -0,0 +1,143 @@
+/**
+ * Email Types
+ */
+
+export const EMAIL_TRANSPORTS = ['smtp', 'file', 'console'] as const
+export type EmailTransportName = typeof EMAIL_TRANSPORTS[number]
+
+export interface EmailSettings {
+  /** smtp delivers for real; file and console are for local testing */
+  transport: EmailTransportName
+  smtp_host: string
+  smtp_port: number
+  /** TLS from the first byte (usually port 465); otherwise STARTTLS is used when offered */
+  smtp_secure: boolean
+  /** Send the username and password even when the connection is not encrypted; off = refuse */
+  smtp_allow_insecure_auth: boolean
+  smtp_username: string
+  smtp_password: string
+  from_email: string
+  from_name: string
+  reply_to: string
+}
+
+/** Email settings as the admin API returns them: the password never leaves the server */
+export type PublicEmailSettings = Omit<EmailSettings, 'smtp_password'> & { smtp_password_set: boolean }
+
+export interface EmailAddress {
+  email: string
+  name?: string | null
+}
+
+export interface EmailContent {
+  subject: string
+  html: string
+  text: string
+}
+
+export interface EmailMessage extends EmailContent {
+  from: EmailAddress
+  to: EmailAddress
+  reply_to?: string | null
+  /** Message-ID header, without angle brackets */
+  message_id: string
+}
+
+export interface EmailTransport {
+  name: EmailTransportName
+  /** Resolves with the transport's id for the message once it has been accepted */
+  send(message: EmailMessage): Promise<string>
+}
+
+export interface EmailBranding {
+  site_name: string
+  site_url: string
+}
+
+export interface EnrollmentEmailData {
+  name: string
+  course_title: string
+  course_url: string
+}
+
+export interface QuizResultEmailData {
+  name: string
+  quiz_title: string
+  percentage: number
+  passed: boolean
+  /** Some answers still await an instructor; the score may change */
+  pending_review: boolean
+  results_url: string
+}
+
+export interface PasswordResetEmailData {
+  name: string | null
+  reset_url: string
+  expires_hours: number
+}
+
+export interface WeeklyDigestEmailData {
+  name: string
+  /** Monday of the week summarised, YYYY-MM-DD */
+  week_start: string
+  quizzes: number
+  average_score: number | null
+  lessons_completed: number
+  study_minutes: number
+  active_days: number
+  streak_days: number
+  dashboard_url: string
+}
+
+export interface InstructorInviteEmailData {
+  inviter_name: string
+  accept_url: string
+  expires_days: number
+}
+
+export interface EmailTemplateData {
+  enrollment_confirmation: EnrollmentEmailData
+  quiz_result: QuizResultEmailData
+  password_reset: PasswordResetEmailData
+  weekly_digest: WeeklyDigestEmailData
+  instructor_invite: InstructorInviteEmailData
+  test: { name: string }
+}
+
+export type EmailTemplateName = keyof EmailTemplateData
+
+export const OUTBOX_STATUSES = ['pending', 'sending', 'sent', 'failed'] as const
+export type OutboxStatus = typeof OUTBOX_STATUSES[number]
+
+export interface OutboxEmail {
+  id: string
+  user_id: string | null
+  to_email: string
+  to_name: string | null
+  template: EmailTemplateName
+  subject: string
+  status: OutboxStatus
+  attempts: number
+  max_attempts: number
+  next_attempt_at: string
+  last_error: string | null
+  message_id: string | null
+  transport: EmailTransportName | null
+  created_at: string
+  sent_at: string | null
+}
+
+export interface QueueEmailInput<T extends EmailTemplateName = EmailTemplateName> {
+  to: EmailAddress
+  user_id?: string | null
+  template: T
+  data: EmailTemplateData[T]
+  /** One email per key: queueing the same key again is a no-op */
+  dedupe_key?: string
+}
+
+export interface OutboxRunResult {
+  sent: number
+  retrying: number
+  failed: number
+}
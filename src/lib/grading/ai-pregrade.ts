@@ -0,0 +1,394 @@
+/**
+ * AI Pre-grading
+ * Drafts rubric scores and inline feedback for essay answers with the Claude and
+ * Gemini clients shared with the question import enhancer (src/lib/import/ai-clients),
+ * plus a local stub provider so the flow runs offline. Drafts are stored in
+ * grading_suggestions for a grader to apply and edit; nothing here scores the answer.
+ */
+
+import { logger } from '@/lib/logger'
+import { createClaudeMessage, getClaudeText, getGeminiModel, GEMINI_MODEL } from '@/lib/import/ai-clients'
+import { WRITING_TASK_DEFAULTS, countWords, normalizeWritingSettings, type WritingSettings } from '@/lib/writing'
+import type { RubricCriterion } from '@/types/question-types'
+import { GradingValidationError, getRubricCriteria, scoreManualGrade } from './manual-grading'
+import { getSuggestionStatus, type GradeSuggestion, type InlineComment, type SuggestionProvider } from './suggestions'
+
+export const PREGRADE_PROVIDERS: SuggestionProvider[] = ['claude', 'gemini', 'stub']
+
+export const MAX_INLINE_COMMENTS = 8
+const MAX_FEEDBACK_LENGTH = 5000
+const MAX_COMMENT_LENGTH = 500
+
+export interface PregradeRequest {
+  question: string
+  answer: string
+  rubric: RubricCriterion[]
+  points_possible: number
+  writing: WritingSettings | null
+}
+
+export interface PregradeProvider {
+  name: SuggestionProvider
+  /** Raw model output for the prompt; the stub answers from the request instead */
+  complete(prompt: string, request: PregradeRequest): Promise<{ text: string; model: string }>
+}
+
+export type DraftGrade = Pick<GradeSuggestion, 'rubric_scores' | 'points_suggested' | 'feedback' | 'comments' | 'confidence'>
+
+/**
+ * Raised when a provider is not configured or its answer can't be used;
+ * API routes respond with its status
+ */
+export class PregradeError extends Error {
+  constructor(message: string, public status: number = 502) {
+    super(message)
+    this.name = 'PregradeError'
+  }
+}
+
+export function isPregradeProvider(value: unknown): value is SuggestionProvider {
+  return PREGRADE_PROVIDERS.includes(value as SuggestionProvider)
+}
+
+// IELTS criteria are whole bands; other rubrics allow half points like the grading form
+function scoreStep(rubric: RubricCriterion[]): number {
+  return rubric.length > 0 && rubric.every(criterion => criterion.max_points === 9) ? 1 : 0.5
+}
+
+function clampToStep(value: number, max: number, step: number): number {
+  return Math.min(max, Math.max(0, Math.round(value / step) * step))
+}
+
+/**
+ * Prompt asking for one JSON object with a score per criterion, overall feedback
+ * and comments quoting the answer
+ */
+export function buildPregradePrompt(request: PregradeRequest): string {
+  const { question, answer, rubric, points_possible, writing } = request
+
+  const scoring = rubric.length > 0
+    ? `RUBRIC (score each criterion from 0 to its maximum${scoreStep(rubric) === 1 ? ' in whole bands' : ' in steps of 0.5'}):
+${rubric.map(c => `- ${c.id}: ${c.criterion} (max ${c.max_points})${c.description ? ` - ${c.description}` : ''}`).join('\n')}`
+    : `SCORING: award between 0 and ${points_possible} points in steps of 0.5.`
+
+  const task = writing
+    ? `\nTASK: IELTS Writing ${WRITING_TASK_DEFAULTS[writing.task].label}. Minimum ${writing.min_words} words; the answer has ${countWords(answer)} words.`
+    : ''
+
+  return `You are an experienced examiner drafting a grade for a student's essay. A human grader will review and edit your draft before anything is shown to the student.
+
+QUESTION:
+${question}
+${task}
+${scoring}
+
+STUDENT ANSWER:
+"""
+${answer}
+"""
+
+Return ONLY a JSON object with this structure, no other text:
+{
+  ${rubric.length > 0 ? '"rubric_scores": { "<criterion id>": <number> }' : '"points_awarded": <number>'},
+  "feedback": "<2-5 sentences for the student: what went well and what to improve>",
+  "comments": [{ "quote": "<short passage copied exactly from the answer>", "comment": "<specific feedback on that passage>" }],
+  "confidence": <0-1 number>
+}
+
+Give at most ${MAX_INLINE_COMMENTS} comments. Every quote must appear word for word in the answer.
+Confidence: 1.0 = sure of every score, below 0.5 = the grader should read carefully.`
+}
+
+/**
+ * Validate a provider's JSON into a draft grade for the request's rubric.
+ * Scores are clamped to each criterion's range; comments quoting text that is not in
+ * the answer are dropped.
+ */
+export function parsePregradeResponse(text: string, request: PregradeRequest): DraftGrade {
+  let parsed: any
+  try {
+    let jsonStr = text.trim()
+    if (jsonStr.startsWith('```')) {
+      jsonStr = jsonStr.replace(/```json\n?/g, '').replace(/```\n?/g, '')
+    }
+    const jsonMatch = jsonStr.match(/\{[\s\S]*\}/)
+    parsed = JSON.parse(jsonMatch ? jsonMatch[0] : jsonStr)
+  } catch {
+    throw new PregradeError('The AI response could not be read')
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new PregradeError('The AI response could not be read')
+  }
+
+  const { rubric, points_possible, answer } = request
+  const step = scoreStep(rubric)
+  const rubricScores: Record<string, number> = {}
+  let pointsAwarded: number | undefined
+
+  if (rubric.length > 0) {
+    for (const criterion of rubric) {
+      const raw = Number(parsed.rubric_scores?.[criterion.id])
+      if (parsed.rubric_scores?.[criterion.id] === null || !Number.isFinite(raw)) {
+        throw new PregradeError(`The AI response is missing a score for "${criterion.criterion}"`)
+      }
+      rubricScores[criterion.id] = clampToStep(raw, criterion.max_points, step)
+    }
+  } else {
+    const raw = Number(parsed.points_awarded)
+    if (parsed.points_awarded === null || !Number.isFinite(raw)) {
+      throw new PregradeError('The AI response is missing a score')
+    }
+    pointsAwarded = clampToStep(raw, points_possible, 0.5)
+  }
+
+  const grade = scoreManualGrade(rubric, points_possible, { rubricScores, pointsAwarded })
+
+  const comments: InlineComment[] = (Array.isArray(parsed.comments) ? parsed.comments : [])
+    .filter((c: any) => c && typeof c.quote === 'string' && typeof c.comment === 'string')
+    .map((c: any) => ({ quote: c.quote.trim(), comment: c.comment.trim().slice(0, MAX_COMMENT_LENGTH) }))
+    .filter((c: InlineComment) => c.quote && c.comment && answer.includes(c.quote))
+    .slice(0, MAX_INLINE_COMMENTS)
+
+  const confidence = Number(parsed.confidence)
+
+  return {
+    rubric_scores: grade.rubric_scores,
+    points_suggested: grade.points_earned,
+    feedback: typeof parsed.feedback === 'string' ? parsed.feedback.trim().slice(0, MAX_FEEDBACK_LENGTH) : '',
+    comments,
+    confidence: Number.isFinite(confidence) ? Math.min(1, Math.max(0, confidence)) : 0.5
+  }
+}
+
+/**
+ * Claude provider; tries the shared Claude models in order of preference
+ */
+export function createClaudeProvider(): PregradeProvider {
+  return {
+    name: 'claude',
+    async complete(prompt) {
+      if (!process.env.ANTHROPIC_API_KEY) {
+        throw new PregradeError('Claude AI is not configured. Please add ANTHROPIC_API_KEY or switch to Gemini.', 503)
+      }
+
+      try {
+        const { message, model } = await createClaudeMessage({
+          max_tokens: 2000,
+          temperature: 0.2,
+          messages: [{ role: 'user', content: prompt }]
+        }, '[AI Pregrade]')
+        return { text: getClaudeText(message), model }
+      } catch (error: any) {
+        throw new PregradeError(`Claude request failed: ${error.message}`)
+      }
+    }
+  }
+}
+
+/**
+ * Gemini provider
+ */
+export function createGeminiProvider(): PregradeProvider {
+  return {
+    name: 'gemini',
+    async complete(prompt) {
+      if (!process.env.GOOGLE_AI_API_KEY) {
+        throw new PregradeError('Google Gemini is not configured. Please add GOOGLE_AI_API_KEY or switch to Claude.', 503)
+      }
+
+      try {
+        const model = getGeminiModel({
+          temperature: 0.2,
+          maxOutputTokens: 2000,
+          responseMimeType: 'application/json'
+        })
+        const result = await model.generateContent(prompt)
+        return { text: result.response.text(), model: GEMINI_MODEL }
+      } catch (error: any) {
+        throw new PregradeError(`Gemini request failed: ${error.message}`)
+      }
+    }
+  }
+}
+
+/**
+ * Offline provider for development and tests. By default it drafts 60% of every
+ * criterion and comments on the opening sentence; pass respond to return any text.
+ */
+export function createStubProvider(respond?: (request: PregradeRequest) => string): PregradeProvider {
+  return {
+    name: 'stub',
+    async complete(_prompt, request) {
+      if (respond) return { text: respond(request), model: 'stub' }
+
+      const step = scoreStep(request.rubric)
+      const opening = request.answer.trim().split(/(?<=[.!?])\s+/)[0]
+
+      return {
+        model: 'stub',
+        text: JSON.stringify({
+          rubric_scores: Object.fromEntries(
+            request.rubric.map(c => [c.id, clampToStep(c.max_points * 0.6, c.max_points, step)])
+          ),
+          points_awarded: clampToStep(request.points_possible * 0.6, request.points_possible, 0.5),
+          feedback: `Offline draft for a ${countWords(request.answer)}-word answer. Replace this with your own feedback.`,
+          comments: opening ? [{ quote: opening, comment: 'Offline draft: check how the answer opens.' }] : [],
+          confidence: 0
+        })
+      }
+    }
+  }
+}
+
+/**
+ * The offline stub drafts placeholder grades, so production only offers it when
+ * AI_GRADING_PROVIDER=stub is set explicitly
+ */
+export function isStubProviderAllowed(): boolean {
+  return process.env.NODE_ENV !== 'production' || process.env.AI_GRADING_PROVIDER === 'stub'
+}
+
+/**
+ * Provider by name; AI_GRADING_PROVIDER picks the default (claude)
+ */
+export function getPregradeProvider(name?: SuggestionProvider): PregradeProvider {
+  const configured = process.env.AI_GRADING_PROVIDER
+  const selected: SuggestionProvider = name || (isPregradeProvider(configured) ? configured : 'claude')
+
+  if (selected === 'stub') return createStubProvider()
+  return selected === 'gemini' ? createGeminiProvider() : createClaudeProvider()
+}
+
+function toGradeSuggestion(row: any): GradeSuggestion {
+  return {
+    id: row.id,
+    provider: row.provider,
+    model: row.model,
+    rubric_scores: row.rubric_scores || {},
+    points_suggested: Number(row.points_suggested) || 0,
+    feedback: row.feedback || '',
+    comments: Array.isArray(row.comments) ? row.comments : [],
+    confidence: Number(row.confidence) || 0,
+    status: row.status,
+    created_at: row.created_at
+  }
+}
+
+/**
+ * Draft a grade for one essay answer and store it as its current suggestion.
+ * The answer's score and grading status are left untouched.
+ */
+export async function draftEssayGrade(
+  serviceClient: any,
+  questionAttemptId: string,
+  provider: PregradeProvider,
+  requestedBy: string
+): Promise<GradeSuggestion> {
+  const { data: row, error: fetchError } = await serviceClient
+    .from('question_attempts')
+    .select(`
+      id,
+      user_answer,
+      points_possible,
+      quiz_questions ( question, question_type, correct_answer_json, question_metadata, rubric, writing_settings )
+    `)
+    .eq('id', questionAttemptId)
+    .single()
+
+  if (fetchError || !row) {
+    throw new Error('Answer not found')
+  }
+
+  const question = row.quiz_questions as any
+  // Speaking answers are recordings with no transcript to read
+  if (question?.question_type !== 'essay') {
+    throw new GradingValidationError('AI drafts are only available for essay answers')
+  }
+
+  const answer = typeof row.user_answer === 'string' ? row.user_answer : ''
+  if (!answer.trim()) {
+    throw new GradingValidationError('There is no answer to draft a grade for')
+  }
+
+  const request: PregradeRequest = {
+    question: question.question || '',
+    answer,
+    rubric: getRubricCriteria(question),
+    points_possible: Number(row.points_possible || 0),
+    writing: normalizeWritingSettings(question.writing_settings)
+  }
+
+  const { text, model } = await provider.complete(buildPregradePrompt(request), request)
+  const draft = parsePregradeResponse(text, request)
+
+  const { data: saved, error: saveError } = await serviceClient
+    .from('grading_suggestions')
+    .upsert({
+      question_attempt_id: questionAttemptId,
+      provider: provider.name,
+      model,
+      ...draft,
+      status: 'draft',
+      requested_by: requestedBy,
+      created_at: new Date().toISOString(),
+      reviewed_at: null
+    }, { onConflict: 'question_attempt_id' })
+    .select()
+    .single()
+
+  if (saveError) {
+    throw new Error(`Failed to save suggestion: ${saveError.message}`)
+  }
+
+  logger.info('[AI Pregrade] Drafted essay grade', {
+    questionAttemptId,
+    provider: provider.name,
+    model,
+    pointsSuggested: draft.points_suggested,
+    comments: draft.comments.length
+  })
+
+  return toGradeSuggestion(saved)
+}
+
+/**
+ * Current suggestions for a set of answers, keyed by question attempt id
+ */
+export async function loadGradeSuggestions(
+  serviceClient: any,
+  questionAttemptIds: string[]
+): Promise<Map<string, GradeSuggestion>> {
+  if (questionAttemptIds.length === 0) return new Map()
+
+  const { data, error } = await serviceClient
+    .from('grading_suggestions')
+    .select('*')
+    .in('question_attempt_id', questionAttemptIds)
+
+  if (error) {
+    throw new Error(`Failed to load suggestions: ${error.message}`)
+  }
+
+  return new Map((data || []).map((row: any) => [row.question_attempt_id, toGradeSuggestion(row)]))
+}
+
+/**
+ * Record whether the grader saved the suggestion as drafted or edited it
+ */
+export async function markSuggestionReviewed(
+  serviceClient: any,
+  questionAttemptId: string,
+  grade: { rubric_scores: Record<string, number>; points_earned: number; feedback?: string | null }
+): Promise<void> {
+  const suggestion = (await loadGradeSuggestions(serviceClient, [questionAttemptId])).get(questionAttemptId)
+  if (!suggestion) return
+
+  const { error } = await serviceClient
+    .from('grading_suggestions')
+    .update({ status: getSuggestionStatus(suggestion, grade), reviewed_at: new Date().toISOString() })
+    .eq('id', suggestion.id)
+
+  if (error) {
+    throw new Error(`Failed to update suggestion: ${error.message}`)
+  }
+}
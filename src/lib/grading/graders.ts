@@ -0,0 +1,260 @@
+/**
+ * Question Graders
+ * One pure grading function per question type. Graders only compute credit (0-1);
+ * points, weights and aggregation are handled by the registry in ./index.ts
+ */
+
+import { getSpeakingAnswer } from '@/lib/speaking'
+import type { GradableQuestion, GraderOutcome, GradingSettings, QuestionGrader } from './types'
+
+// Blanks are marked as [BLANK] or ___ in the question text
+const BLANK_PATTERN = /\[BLANK\]|_{3,}/gi
+
+const NO_CREDIT: GraderOutcome = { credit: 0 }
+const FULL_CREDIT: GraderOutcome = { credit: 1 }
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Merge question_metadata and correct_answer_json into one config object.
+ * correct_answer_json wins because it holds the editor's type-specific data.
+ */
+export function getAnswerConfig(question: GradableQuestion): Record<string, any> {
+  const metadata = isPlainObject(question.question_metadata) ? question.question_metadata : {}
+  const json = isPlainObject(question.correct_answer_json) ? question.correct_answer_json : {}
+  return { ...metadata, ...json }
+}
+
+export function resolveGradingSettings(question: GradableQuestion): GradingSettings {
+  const config = getAnswerConfig(question)
+
+  return {
+    partialCredit: question.partial_credit === true ||
+      config.allow_partial_credit === true ||
+      config.partial_credit === true,
+    caseSensitive: config.case_sensitive === true
+  }
+}
+
+function toIndex(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isInteger(value)) return value
+  if (typeof value === 'string' && /^\d+$/.test(value.trim())) return parseInt(value, 10)
+  return null
+}
+
+function normalizeText(value: unknown, caseSensitive: boolean): string {
+  const text = String(value ?? '').trim().replace(/\s+/g, ' ')
+  return caseSensitive ? text : text.toLowerCase()
+}
+
+// All-or-nothing unless partial credit is enabled
+function creditFor(correct: number, total: number, settings: GradingSettings): GraderOutcome {
+  if (total <= 0) return NO_CREDIT
+  if (correct >= total) return FULL_CREDIT
+  return settings.partialCredit ? { credit: Math.max(0, correct / total) } : NO_CREDIT
+}
+
+/**
+ * Multiple/single choice: answer is an option index, or an array of indexes when the
+ * question lists several correct_answers in correct_answer_json.
+ */
+export const gradeChoice: QuestionGrader = (question, answer, settings) => {
+  const config = getAnswerConfig(question)
+  const correctIndexes: number[] = Array.isArray(config.correct_answers)
+    ? config.correct_answers.map(toIndex).filter((i: number | null): i is number => i !== null)
+    : [question.correct_answer]
+
+  const selected = (Array.isArray(answer) ? answer : [answer])
+    .map(toIndex)
+    .filter((i): i is number => i !== null)
+
+  if (selected.length === 0 || correctIndexes.length === 0) return NO_CREDIT
+
+  const correctSet = new Set(correctIndexes)
+  const hits = selected.filter(i => correctSet.has(i)).length
+  const misses = selected.length - hits
+
+  if (hits === correctSet.size && misses === 0) return FULL_CREDIT
+  // Wrong selections cancel out right ones so "select everything" earns nothing
+  return creditFor(hits - misses, correctSet.size, settings)
+}
+
+/**
+ * True/False: stored as True = 0, False = 1. Accepts booleans, indexes and strings.
+ */
+export const gradeTrueFalse: QuestionGrader = (question, answer) => {
+  let index: number | null = null
+
+  if (typeof answer === 'boolean') {
+    index = answer ? 0 : 1
+  } else if (typeof answer === 'string' && ['true', 'false'].includes(answer.trim().toLowerCase())) {
+    index = answer.trim().toLowerCase() === 'true' ? 0 : 1
+  } else {
+    index = toIndex(answer)
+  }
+
+  return index !== null && index === question.correct_answer ? FULL_CREDIT : NO_CREDIT
+}
+
+function toStringList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter(v => v !== null && v !== undefined).map(String)
+  if (value === null || value === undefined || value === '') return []
+  return [String(value)]
+}
+
+/**
+ * Fill in the blank.
+ * Single blank: the answer is a string matched against any accepted answer.
+ * Multiple blanks: the answer is an array (or index-keyed object) with one entry per blank,
+ * checked against correct_answer_json.blanks (accepted answers per blank) or, failing that,
+ * one accepted answer per blank from the correct answers list.
+ */
+export const gradeFillBlank: QuestionGrader = (question, answer, settings) => {
+  const config = getAnswerConfig(question)
+  // correct_answer_json.correct_answers, then correct_answer_text, then the legacy
+  // correct_answer column (0 is its unset default); options are not answers here
+  const textAnswers = toStringList(question.correct_answer_text)
+  const accepted = config.correct_answers !== undefined
+    ? toStringList(config.correct_answers)
+    : textAnswers.length > 0
+      ? textAnswers
+      : toStringList(question.correct_answer || null)
+
+  const matches = (value: unknown, candidates: string[]) => {
+    const normalized = normalizeText(value, settings.caseSensitive)
+    return normalized.length > 0 &&
+      candidates.some(candidate => normalizeText(candidate, settings.caseSensitive) === normalized)
+  }
+
+  const blankCount = (question.question?.match(BLANK_PATTERN) || []).length
+  const isMultiBlankAnswer = Array.isArray(answer) || isPlainObject(answer)
+
+  if (!isMultiBlankAnswer) {
+    return matches(answer, accepted) ? FULL_CREDIT : NO_CREDIT
+  }
+
+  const responses: unknown[] = Array.isArray(answer)
+    ? answer
+    : Object.keys(answer as Record<string, unknown>)
+      .sort((a, b) => Number(a) - Number(b))
+      .map(key => (answer as Record<string, unknown>)[key])
+
+  const perBlank: string[][] = Array.isArray(config.blanks)
+    ? config.blanks.map(toStringList)
+    : accepted.map(value => [value])
+
+  const total = Math.max(perBlank.length, blankCount)
+  const correct = perBlank.filter((candidates, index) => matches(responses[index], candidates)).length
+
+  return creditFor(correct, total, settings)
+}
+
+/**
+ * Essays always need a human grader; they earn nothing until graded.
+ */
+export const gradeEssay: QuestionGrader = () => ({ credit: 0, requiresManualGrading: true })
+
+/**
+ * Speaking answers are graded from the recording; an answer without one earns nothing.
+ */
+export const gradeSpeaking: QuestionGrader = (_question, answer) => ({
+  credit: 0,
+  requiresManualGrading: getSpeakingAnswer(answer) !== null
+})
+
+/**
+ * Matching.
+ * Editor format: correct_answer_json.correct_pairs with left/right column ids; the answer maps
+ * left ids (or left column indexes) to right ids (or right column indexes).
+ * Import format: options are [{ left, right }] pairs in order; the answer maps left index to right index.
+ */
+export const gradeMatching: QuestionGrader = (question, answer, settings) => {
+  if (!isPlainObject(answer)) return NO_CREDIT
+
+  const config = getAnswerConfig(question)
+
+  if (Array.isArray(config.correct_pairs) && config.correct_pairs.length > 0) {
+    const leftColumn: Array<{ id: string }> = Array.isArray(config.left_column) ? config.left_column : []
+    const rightColumn: Array<{ id: string }> = Array.isArray(config.right_column) ? config.right_column : []
+
+    const resolveId = (key: unknown, column: Array<{ id: string }>) => {
+      const index = toIndex(key)
+      if (index !== null && column[index]) return column[index].id
+      return String(key)
+    }
+
+    const given = new Map<string, string>()
+    Object.entries(answer).forEach(([left, right]) => {
+      given.set(resolveId(left, leftColumn), resolveId(right, rightColumn))
+    })
+
+    const correct = config.correct_pairs.filter(
+      (pair: { left_id: string; right_id: string }) => given.get(pair.left_id) === pair.right_id
+    ).length
+
+    return creditFor(correct, config.correct_pairs.length, settings)
+  }
+
+  const pairs: Array<{ left: string; right: string }> = Array.isArray(question.options) ? question.options : []
+  if (pairs.length === 0) return NO_CREDIT
+
+  const correct = pairs.filter((pair, leftIndex) => {
+    const rightIndex = toIndex((answer as Record<string, unknown>)[leftIndex])
+    // Compare content so duplicate right-hand values are not penalised
+    return rightIndex !== null && pairs[rightIndex] !== undefined && pairs[rightIndex].right === pair.right
+  }).length
+
+  return creditFor(correct, pairs.length, settings)
+}
+
+/**
+ * Ordering.
+ * Editor format: correct_answer_json.items with correct_order (item indexes by position).
+ * Import format: options are listed in the correct order.
+ * The answer is either an array of item indexes/ids by position, or an object mapping
+ * item index to its 1-based position (the student drag-and-drop format).
+ */
+export const gradeOrdering: QuestionGrader = (question, answer, settings) => {
+  const config = getAnswerConfig(question)
+  const items: Array<{ id: string; correct_position?: number }> = Array.isArray(config.items) ? config.items : []
+
+  let expected: number[]
+  if (items.length > 0) {
+    expected = Array.isArray(config.correct_order) && config.correct_order.length === items.length
+      ? config.correct_order.map(Number)
+      : items
+        .map((item, index) => ({ index, position: item.correct_position ?? index }))
+        .sort((a, b) => a.position - b.position)
+        .map(entry => entry.index)
+  } else {
+    const optionCount = Array.isArray(question.options) ? question.options.length : 0
+    expected = Array.from({ length: optionCount }, (_, index) => index)
+  }
+
+  if (expected.length === 0) return NO_CREDIT
+
+  const toItemIndex = (value: unknown) => {
+    const byId = items.findIndex(item => item.id === value)
+    return byId >= 0 ? byId : toIndex(value)
+  }
+
+  let given: Array<number | null> = []
+  if (Array.isArray(answer)) {
+    given = answer.map(toItemIndex)
+  } else if (isPlainObject(answer)) {
+    Object.entries(answer).forEach(([item, position]) => {
+      const itemIndex = toItemIndex(item)
+      const slot = toIndex(position)
+      if (itemIndex !== null && slot !== null && slot >= 1) {
+        given[slot - 1] = itemIndex
+      }
+    })
+  } else {
+    return NO_CREDIT
+  }
+
+  const correct = expected.filter((itemIndex, position) => given[position] === itemIndex).length
+  return creditFor(correct, expected.length, settings)
+}
@@ -0,0 +1,115 @@
+/**
+ * Quiz Grading Registry
+ * Maps every QuestionType to its grader and aggregates per-question results.
+ * Adding a question type to QuestionType requires registering a grader here.
+ */
+
+import type { QuestionType } from '@/lib/supabase'
+import {
+  gradeChoice,
+  gradeTrueFalse,
+  gradeFillBlank,
+  gradeEssay,
+  gradeSpeaking,
+  gradeMatching,
+  gradeOrdering,
+  resolveGradingSettings
+} from './graders'
+import type {
+  GradableQuestion,
+  QuestionGrader,
+  QuestionGradeResult,
+  SubmissionGradeResult
+} from './types'
+
+export const questionGraders: Record<QuestionType, QuestionGrader> = {
+  multiple_choice: gradeChoice,
+  single_choice: gradeChoice,
+  true_false: gradeTrueFalse,
+  fill_blank: gradeFillBlank,
+  essay: gradeEssay,
+  matching: gradeMatching,
+  ordering: gradeOrdering,
+  speaking: gradeSpeaking
+}
+
+function roundPoints(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function isAnswered(answer: unknown): boolean {
+  if (answer === null || answer === undefined) return false
+  if (typeof answer === 'string') return answer.trim().length > 0
+  if (Array.isArray(answer)) return answer.length > 0
+  if (typeof answer === 'object') return Object.keys(answer).length > 0
+  return true
+}
+
+/**
+ * Points a question is worth: points (default 1) scaled by weight (default 1)
+ */
+export function getPointsPossible(question: GradableQuestion): number {
+  const points = question.points ?? 1
+  const weight = question.weight !== undefined && question.weight !== null ? Number(question.weight) : 1
+  return roundPoints(points * (isNaN(weight) ? 1 : weight))
+}
+
+/**
+ * Grade a single answer with the grader registered for its question type
+ */
+export function gradeQuestion(question: GradableQuestion, answer: unknown): QuestionGradeResult {
+  const pointsPossible = getPointsPossible(question)
+  const grader = questionGraders[question.question_type]
+  const answered = isAnswered(answer)
+
+  const outcome = grader
+    ? grader(question, answered ? answer : undefined, resolveGradingSettings(question))
+    : { credit: 0 }
+
+  const credit = Math.min(1, Math.max(0, outcome.credit))
+  const requiresManualGrading = answered && outcome.requiresManualGrading === true
+
+  return {
+    question_id: question.id,
+    question_type: question.question_type,
+    answered,
+    is_correct: credit >= 1,
+    credit,
+    points_earned: roundPoints(credit * pointsPossible),
+    points_possible: pointsPossible,
+    requires_manual_grading: requiresManualGrading
+  }
+}
+
+/**
+ * Grade a full submission. answers is keyed by question id.
+ */
+export function gradeSubmission(
+  questions: GradableQuestion[],
+  answers: Record<string, unknown>
+): SubmissionGradeResult {
+  const results = questions.map(question => gradeQuestion(question, answers[question.id]))
+
+  const earnedPoints = roundPoints(results.reduce((sum, r) => sum + r.points_earned, 0))
+  const totalPoints = roundPoints(results.reduce((sum, r) => sum + r.points_possible, 0))
+
+  return {
+    results,
+    earnedPoints,
+    totalPoints,
+    percentage: totalPoints > 0 ? (earnedPoints / totalPoints) * 100 : 0,
+    pendingManualGrading: results.filter(r => r.requires_manual_grading).length
+  }
+}
+
+export { resolveGradingSettings, getAnswerConfig } from './graders'
+export { applyItemObservation, classifyItem, ITEM_ANALYSIS_THRESHOLDS } from './item-analytics'
+export type { ItemQualityFlag, QuestionAnalyticsRow } from './item-analytics'
+export type {
+  GradableQuestion,
+  GradingSettings,
+  GraderOutcome,
+  QuestionGrader,
+  QuestionGradeResult,
+  SubmissionGradeResult
+} from './types'
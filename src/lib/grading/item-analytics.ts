@@ -0,0 +1,139 @@
+/**
+ * Item Analytics
+ * Incremental classical test theory statistics for question_analytics.
+ *
+ * difficulty_rating is the share of credit students missed (0 = easy, 1 = hard), matching
+ * update_question_analytics() in migration 004. discrimination_index is the correlation between
+ * the item score and the rest of the attempt's score. The running sums needed to update both
+ * without rescanning question_attempts are kept in question_analytics.metadata.
+ * record_question_observations() (migration 004) applies applyItemObservation's update in the
+ * database, where it is atomic; keep the two in step.
+ */
+
+export interface ItemAnalyticsSums {
+  n: number
+  sum_x: number
+  sum_y: number
+  sum_xx: number
+  sum_yy: number
+  sum_xy: number
+  sum_time: number
+}
+
+export interface QuestionAnalyticsRow {
+  question_id: string
+  total_attempts: number
+  correct_attempts: number
+  average_time_seconds: number
+  difficulty_rating: number
+  discrimination_index: number
+  metadata: Record<string, any>
+}
+
+export interface ItemObservation {
+  /** Credit earned on this item (0-1) */
+  credit: number
+  isCorrect: boolean
+  /** Score on the rest of the attempt, excluding this item (0-1) */
+  restScore: number
+  timeSpentSeconds: number
+}
+
+export type ItemQualityFlag = 'insufficient_data' | 'too_easy' | 'too_hard' | 'non_discriminating' | 'ok'
+
+// Conventional CTT cut-offs
+export const ITEM_ANALYSIS_THRESHOLDS = {
+  MIN_ATTEMPTS: 10,
+  TOO_EASY_DIFFICULTY: 0.1,
+  TOO_HARD_DIFFICULTY: 0.9,
+  MIN_DISCRIMINATION: 0.2
+} as const
+
+const EMPTY_SUMS: ItemAnalyticsSums = {
+  n: 0,
+  sum_x: 0,
+  sum_y: 0,
+  sum_xx: 0,
+  sum_yy: 0,
+  sum_xy: 0,
+  sum_time: 0
+}
+
+function round(value: number, digits = 3): number {
+  const factor = Math.pow(10, digits)
+  return Math.round(value * factor) / factor
+}
+
+function readSums(metadata: Record<string, any> | null | undefined): ItemAnalyticsSums {
+  const stored = metadata?.sums
+  if (!stored || typeof stored !== 'object') return { ...EMPTY_SUMS }
+
+  return Object.keys(EMPTY_SUMS).reduce((acc, key) => {
+    const value = Number(stored[key])
+    acc[key as keyof ItemAnalyticsSums] = isNaN(value) ? 0 : value
+    return acc
+  }, { ...EMPTY_SUMS })
+}
+
+/**
+ * Pearson correlation from running sums; 0 when either variable has no variance
+ */
+export function correlationFromSums(sums: ItemAnalyticsSums): number {
+  const { n, sum_x, sum_y, sum_xx, sum_yy, sum_xy } = sums
+  if (n < 2) return 0
+
+  const varianceX = n * sum_xx - sum_x * sum_x
+  const varianceY = n * sum_yy - sum_y * sum_y
+  if (varianceX <= 0 || varianceY <= 0) return 0
+
+  return (n * sum_xy - sum_x * sum_y) / Math.sqrt(varianceX * varianceY)
+}
+
+/**
+ * Fold one new attempt into an existing analytics row (or start a new one)
+ */
+export function applyItemObservation(
+  questionId: string,
+  previous: Partial<QuestionAnalyticsRow> | null,
+  observation: ItemObservation
+): QuestionAnalyticsRow {
+  const sums = readSums(previous?.metadata)
+  const x = Math.min(1, Math.max(0, observation.credit))
+  const y = Math.min(1, Math.max(0, observation.restScore))
+
+  sums.n += 1
+  sums.sum_x += x
+  sums.sum_y += y
+  sums.sum_xx += x * x
+  sums.sum_yy += y * y
+  sums.sum_xy += x * y
+  sums.sum_time += Math.max(0, observation.timeSpentSeconds)
+
+  return {
+    question_id: questionId,
+    total_attempts: (previous?.total_attempts || 0) + 1,
+    correct_attempts: (previous?.correct_attempts || 0) + (observation.isCorrect ? 1 : 0),
+    average_time_seconds: round(sums.sum_time / sums.n, 2),
+    difficulty_rating: round(1 - sums.sum_x / sums.n),
+    discrimination_index: round(correlationFromSums(sums)),
+    metadata: {
+      ...(previous?.metadata || {}),
+      sums
+    }
+  }
+}
+
+/**
+ * Flag items that are too easy, too hard or fail to separate strong and weak students
+ */
+export function classifyItem(
+  analytics: Pick<QuestionAnalyticsRow, 'total_attempts' | 'difficulty_rating' | 'discrimination_index'>
+): ItemQualityFlag {
+  const { MIN_ATTEMPTS, TOO_EASY_DIFFICULTY, TOO_HARD_DIFFICULTY, MIN_DISCRIMINATION } = ITEM_ANALYSIS_THRESHOLDS
+
+  if (analytics.total_attempts < MIN_ATTEMPTS) return 'insufficient_data'
+  if (analytics.difficulty_rating <= TOO_EASY_DIFFICULTY) return 'too_easy'
+  if (analytics.difficulty_rating >= TOO_HARD_DIFFICULTY) return 'too_hard'
+  if (analytics.discrimination_index < MIN_DISCRIMINATION) return 'non_discriminating'
+  return 'ok'
+}
@@ -0,0 +1,295 @@
+/**
+ * Manual Grading
+ * Rubric scoring for essay and speaking answers and re-finalization of the parent
+ * quiz attempt. These answers are stored as pending question_attempts on submit; the
+ * attempt stays in 'pending_review' until every pending answer has been graded.
+ */
+
+import { logger } from '@/lib/logger'
+import { SPEAKING_RUBRIC } from '@/lib/speaking'
+import { WRITING_RUBRICS, normalizeWritingSettings } from '@/lib/writing'
+import type { RubricCriterion } from '@/types/question-types'
+import { recordItemObservations } from './persistence'
+import type { GradableQuestion } from './types'
+
+export type AttemptGradingStatus = 'graded' | 'pending_review'
+export type QuestionGradingStatus = 'auto' | 'pending' | 'graded'
+
+export const MANUALLY_GRADED_TYPES = ['essay', 'speaking'] as const
+
+export interface ManualGradeInput {
+  /** Points per rubric criterion id */
+  rubricScores?: Record<string, number>
+  /** Direct score when the question has no rubric */
+  pointsAwarded?: number
+  feedback?: string
+}
+
+export interface ManualGradeResult {
+  points_earned: number
+  credit: number
+  rubric_scores: Record<string, number>
+}
+
+export interface FinalizedAttempt {
+  id: string
+  quiz_id: string
+  user_id: string
+  score: number
+  percentage_score: number
+  passed: boolean
+  grading_status: AttemptGradingStatus
+  pending_count: number
+}
+
+/**
+ * Raised for grades that fail validation; API routes map it to 400
+ */
+export class GradingValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'GradingValidationError'
+  }
+}
+
+function roundPoints(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Rubric for an essay: the rubric column, or EssayData.rubric_criteria from the editor.
+ * IELTS writing tasks and speaking questions without their own rubric use the four
+ * IELTS criteria for their task.
+ */
+export function getRubricCriteria(
+  question: Pick<GradableQuestion, 'correct_answer_json' | 'question_metadata'> & {
+    rubric?: any
+    question_type?: string
+    writing_settings?: any
+  }
+): RubricCriterion[] {
+  const candidates = [
+    question.rubric,
+    question.rubric?.criteria,
+    question.correct_answer_json?.rubric_criteria,
+    question.question_metadata?.rubric_criteria
+  ]
+
+  const criteria = candidates.find(value => Array.isArray(value) && value.length > 0)
+  if (!criteria) {
+    if (question.question_type === 'speaking') return SPEAKING_RUBRIC
+    const writing = question.question_type === 'essay' ? normalizeWritingSettings(question.writing_settings) : null
+    return writing ? WRITING_RUBRICS[writing.task] : []
+  }
+
+  return criteria
+    .filter((c: any) => c && typeof c === 'object')
+    .map((c: any, index: number) => ({
+      id: String(c.id ?? `criterion-${index}`),
+      criterion: String(c.criterion ?? c.name ?? `Criterion ${index + 1}`),
+      max_points: Number(c.max_points ?? c.points ?? 0),
+      description: String(c.description ?? '')
+    }))
+    .filter((c: RubricCriterion) => c.max_points > 0)
+}
+
+/**
+ * Turn rubric scores (or a direct score) into points for the question.
+ * Rubric totals are scaled to the question's points_possible.
+ */
+export function scoreManualGrade(
+  criteria: RubricCriterion[],
+  pointsPossible: number,
+  input: ManualGradeInput
+): ManualGradeResult {
+  if (criteria.length > 0) {
+    const scores = input.rubricScores || {}
+    const rubricScores: Record<string, number> = {}
+    let earned = 0
+    let max = 0
+
+    for (const criterion of criteria) {
+      const raw = scores[criterion.id]
+      if (raw === undefined || raw === null || typeof raw !== 'number' || isNaN(raw)) {
+        throw new GradingValidationError(`Missing score for criterion "${criterion.criterion}"`)
+      }
+      if (raw < 0 || raw > criterion.max_points) {
+        throw new GradingValidationError(`Score for "${criterion.criterion}" must be between 0 and ${criterion.max_points}`)
+      }
+      rubricScores[criterion.id] = raw
+      earned += raw
+      max += criterion.max_points
+    }
+
+    const credit = max > 0 ? earned / max : 0
+    return { points_earned: roundPoints(credit * pointsPossible), credit, rubric_scores: rubricScores }
+  }
+
+  const awarded = input.pointsAwarded
+  if (awarded === undefined || typeof awarded !== 'number' || isNaN(awarded)) {
+    throw new GradingValidationError('A score is required')
+  }
+  if (awarded < 0 || awarded > pointsPossible) {
+    throw new GradingValidationError(`Score must be between 0 and ${pointsPossible}`)
+  }
+
+  return {
+    points_earned: roundPoints(awarded),
+    credit: pointsPossible > 0 ? awarded / pointsPossible : 0,
+    rubric_scores: {}
+  }
+}
+
+/**
+ * Recompute an attempt's score from its question_attempts rows and settle its status.
+ * passed stays false while any answer is still pending review.
+ */
+export async function finalizeAttemptScore(serviceClient: any, attemptId: string): Promise<FinalizedAttempt> {
+  const [attemptResult, rowsResult] = await Promise.all([
+    serviceClient
+      .from('quiz_attempts')
+      .select('id, quiz_id, user_id, quizzes ( passing_score )')
+      .eq('id', attemptId)
+      .single(),
+    serviceClient
+      .from('question_attempts')
+      .select('points_earned, points_possible, grading_status')
+      .eq('quiz_attempt_id', attemptId)
+  ])
+
+  if (attemptResult.error || !attemptResult.data) {
+    throw new Error('Quiz attempt not found')
+  }
+  if (rowsResult.error) {
+    throw new Error(`Failed to load question attempts: ${rowsResult.error.message}`)
+  }
+
+  const rows: Array<{ points_earned: number; points_possible: number; grading_status: QuestionGradingStatus }> = rowsResult.data || []
+  const earned = roundPoints(rows.reduce((sum, row) => sum + Number(row.points_earned || 0), 0))
+  const possible = roundPoints(rows.reduce((sum, row) => sum + Number(row.points_possible || 0), 0))
+  const percentage = possible > 0 ? (earned / possible) * 100 : 0
+  const pendingCount = rows.filter(row => row.grading_status === 'pending').length
+  const gradingStatus: AttemptGradingStatus = pendingCount > 0 ? 'pending_review' : 'graded'
+  const passingScore = (attemptResult.data.quizzes as any)?.passing_score
+  const passed = gradingStatus === 'graded' && (passingScore ? percentage >= passingScore : true)
+
+  const { error: updateError } = await serviceClient
+    .from('quiz_attempts')
+    .update({
+      score: Math.round(earned),
+      percentage_score: percentage,
+      passed,
+      grading_status: gradingStatus,
+      graded_at: gradingStatus === 'graded' ? new Date().toISOString() : null
+    })
+    .eq('id', attemptId)
+
+  if (updateError) {
+    throw new Error(`Failed to finalize quiz attempt: ${updateError.message}`)
+  }
+
+  return {
+    id: attemptId,
+    quiz_id: attemptResult.data.quiz_id,
+    user_id: attemptResult.data.user_id,
+    score: earned,
+    percentage_score: percentage,
+    passed,
+    grading_status: gradingStatus,
+    pending_count: pendingCount
+  }
+}
+
+/**
+ * Grade one pending essay or speaking answer, fold it into item analytics and
+ * re-finalize the attempt
+ */
+export async function gradeEssayAnswer(
+  serviceClient: any,
+  questionAttemptId: string,
+  graderId: string,
+  input: ManualGradeInput
+): Promise<{ questionAttempt: any; attempt: FinalizedAttempt }> {
+  const { data: row, error: fetchError } = await serviceClient
+    .from('question_attempts')
+    .select(`
+      id,
+      quiz_attempt_id,
+      question_id,
+      points_possible,
+      time_spent_seconds,
+      grading_status,
+      metadata,
+      quiz_questions ( id, question_type, correct_answer_json, question_metadata, rubric, writing_settings )
+    `)
+    .eq('id', questionAttemptId)
+    .single()
+
+  if (fetchError || !row) {
+    throw new Error('Answer not found')
+  }
+
+  const question = row.quiz_questions as any
+  if (!MANUALLY_GRADED_TYPES.includes(question?.question_type)) {
+    throw new GradingValidationError('Only essay and speaking answers can be graded manually')
+  }
+
+  const pointsPossible = Number(row.points_possible || 0)
+  const grade = scoreManualGrade(getRubricCriteria(question), pointsPossible, input)
+  const wasPending = row.grading_status === 'pending'
+
+  const { data: updated, error: updateError } = await serviceClient
+    .from('question_attempts')
+    .update({
+      points_earned: grade.points_earned,
+      is_correct: grade.credit >= 1,
+      grading_status: 'graded',
+      grader_feedback: input.feedback?.trim() || null,
+      graded_by: graderId,
+      graded_at: new Date().toISOString(),
+      metadata: {
+        ...(row.metadata || {}),
+        credit: grade.credit,
+        rubric_scores: grade.rubric_scores,
+        requires_manual_grading: false
+      }
+    })
+    .eq('id', questionAttemptId)
+    .select()
+    .single()
+
+  if (updateError) {
+    throw new Error(`Failed to save grade: ${updateError.message}`)
+  }
+
+  const attempt = await finalizeAttemptScore(serviceClient, row.quiz_attempt_id)
+
+  // First grade only: regrades would count the same answer twice
+  if (wasPending) {
+    try {
+      const { data: siblings } = await serviceClient
+        .from('question_attempts')
+        .select('points_earned, points_possible')
+        .eq('quiz_attempt_id', row.quiz_attempt_id)
+        .neq('id', questionAttemptId)
+
+      const restEarned = (siblings || []).reduce((sum: number, s: any) => sum + Number(s.points_earned || 0), 0)
+      const restTotal = (siblings || []).reduce((sum: number, s: any) => sum + Number(s.points_possible || 0), 0)
+
+      await recordItemObservations(serviceClient, [{
+        questionId: row.question_id,
+        credit: grade.credit,
+        isCorrect: grade.credit >= 1,
+        restScore: restTotal > 0 ? restEarned / restTotal : 0,
+        timeSpentSeconds: row.time_spent_seconds || 0
+      }])
+    } catch (analyticsError: any) {
+      logger.warn('Failed to update analytics for graded essay', {
+        error: analyticsError.message,
+        questionAttemptId
+      })
+    }
+  }
+
+  return { questionAttempt: updated, attempt }
+}
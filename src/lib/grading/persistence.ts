@@ -0,0 +1,188 @@
+/**
+ * Question Attempt Persistence
+ * Writes per-question results to question_attempts and folds them into question_analytics.
+ * Runs with the service client: students cannot write analytics rows directly.
+ */
+
+import { logger } from '@/lib/logger'
+import type { ItemObservation } from './item-analytics'
+import type { SubmissionGradeResult } from './types'
+
+/**
+ * Optional per-question telemetry sent by the quiz player
+ */
+export interface QuestionAttemptMeta {
+  time_spent_seconds?: number
+  hint_used?: boolean
+  confidence_level?: number
+  flagged?: boolean
+}
+
+export interface RecordQuestionAttemptsParams {
+  quizAttemptId: string
+  grading: SubmissionGradeResult
+  answers: Record<string, unknown>
+  questionMeta?: Record<string, QuestionAttemptMeta>
+  /** Question ids that are question bank items (template ids) rather than quiz_questions rows */
+  bankItemIds?: string[]
+}
+
+export interface RecordQuestionAttemptsResult {
+  questionAttempts: number
+  analyticsUpdated: number
+}
+
+/**
+ * Raised when the question_attempts rows themselves could not be saved, as opposed to
+ * the analytics update that follows them
+ */
+export class QuestionAttemptsWriteError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'QuestionAttemptsWriteError'
+  }
+}
+
+/**
+ * Validate the optional question_meta field of a submission.
+ * Unknown keys are dropped; malformed values throw.
+ */
+export function validateQuestionMeta(input: unknown): Record<string, QuestionAttemptMeta> {
+  if (input === undefined || input === null) return {}
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('Invalid question_meta format')
+  }
+
+  const meta: Record<string, QuestionAttemptMeta> = {}
+
+  for (const [questionId, raw] of Object.entries(input as Record<string, any>)) {
+    if (!raw || typeof raw !== 'object') continue
+    const entry: QuestionAttemptMeta = {}
+
+    if (raw.time_spent_seconds !== undefined) {
+      if (typeof raw.time_spent_seconds !== 'number' || raw.time_spent_seconds < 0) {
+        throw new Error('Invalid time_spent_seconds value')
+      }
+      entry.time_spent_seconds = Math.round(raw.time_spent_seconds)
+    }
+
+    if (raw.confidence_level !== undefined) {
+      if (!Number.isInteger(raw.confidence_level) || raw.confidence_level < 1 || raw.confidence_level > 5) {
+        throw new Error('Invalid confidence_level value')
+      }
+      entry.confidence_level = raw.confidence_level
+    }
+
+    if (raw.hint_used !== undefined) entry.hint_used = raw.hint_used === true
+    if (raw.flagged !== undefined) entry.flagged = raw.flagged === true
+
+    meta[questionId] = entry
+  }
+
+  return meta
+}
+
+/**
+ * Fold observations into question_analytics. The database function increments
+ * each row in place, so concurrent submits never overwrite each other's counts.
+ */
+export async function recordItemObservations(
+  serviceClient: any,
+  observations: Array<ItemObservation & { questionId: string }>
+): Promise<number> {
+  if (observations.length === 0) return 0
+
+  const { data, error } = await serviceClient.rpc('record_question_observations', {
+    observations: observations.map(observation => ({
+      question_id: observation.questionId,
+      credit: observation.credit,
+      is_correct: observation.isCorrect,
+      rest_score: observation.restScore,
+      time_spent_seconds: observation.timeSpentSeconds
+    }))
+  })
+
+  if (error) {
+    throw new Error(`Failed to update question analytics: ${error.message}`)
+  }
+
+  return Number(data) || observations.length
+}
+
+/**
+ * Persist one question_attempts row per question and update question_analytics.
+ * Essays awaiting manual grading are stored but kept out of analytics until graded.
+ * Bank items are stored against their template and have no per-quiz analytics.
+ */
+export async function recordQuestionAttempts(
+  serviceClient: any,
+  { quizAttemptId, grading, answers, questionMeta = {}, bankItemIds = [] }: RecordQuestionAttemptsParams
+): Promise<RecordQuestionAttemptsResult> {
+  const { results, earnedPoints, totalPoints } = grading
+  if (results.length === 0) {
+    return { questionAttempts: 0, analyticsUpdated: 0 }
+  }
+
+  const bankItems = new Set(bankItemIds)
+
+  const rows = results.map(result => {
+    const meta = questionMeta[result.question_id] || {}
+    const isBankItem = bankItems.has(result.question_id)
+    return {
+      quiz_attempt_id: quizAttemptId,
+      question_id: isBankItem ? null : result.question_id,
+      template_id: isBankItem ? result.question_id : null,
+      user_answer: answers[result.question_id] ?? null,
+      is_correct: result.is_correct,
+      points_earned: result.points_earned,
+      points_possible: result.points_possible,
+      time_spent_seconds: meta.time_spent_seconds ?? 0,
+      hint_used: meta.hint_used ?? false,
+      confidence_level: meta.confidence_level ?? null,
+      flagged: meta.flagged ?? false,
+      grading_status: result.requires_manual_grading ? 'pending' : 'auto',
+      metadata: {
+        credit: result.credit,
+        answered: result.answered,
+        requires_manual_grading: result.requires_manual_grading
+      }
+    }
+  })
+
+  const { error: insertError } = await serviceClient
+    .from('question_attempts')
+    .insert(rows)
+
+  if (insertError) {
+    throw new QuestionAttemptsWriteError(`Failed to save question attempts: ${insertError.message}`)
+  }
+
+  const scored = results.filter(result => !result.requires_manual_grading && !bankItems.has(result.question_id))
+  if (scored.length === 0) {
+    return { questionAttempts: rows.length, analyticsUpdated: 0 }
+  }
+
+  const analyticsUpdated = await recordItemObservations(serviceClient, scored.map(result => {
+    // Rest score: how the student did on everything except this item
+    const restPossible = totalPoints - result.points_possible
+    const restScore = restPossible > 0
+      ? (earnedPoints - result.points_earned) / restPossible
+      : 0
+
+    return {
+      questionId: result.question_id,
+      credit: result.credit,
+      isCorrect: result.is_correct,
+      restScore,
+      timeSpentSeconds: questionMeta[result.question_id]?.time_spent_seconds ?? 0
+    }
+  }))
+
+  logger.debug('Question attempts recorded', {
+    quizAttemptId,
+    questionAttempts: rows.length,
+    analyticsUpdated
+  })
+
+  return { questionAttempts: rows.length, analyticsUpdated }
+}
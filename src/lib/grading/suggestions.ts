@@ -0,0 +1,95 @@
+/**
+ * Grading Suggestions
+ * Shapes shared by the AI pre-grading flow (./ai-pregrade) and the grading panel.
+ * A suggestion is a draft the grader applies and edits; it never scores the answer.
+ */
+
+import type { AIProvider } from '@/lib/import/ai-enhancer'
+
+/** The import enhancer's providers, plus a local stub for offline use */
+export type SuggestionProvider = AIProvider | 'stub'
+export type SuggestionStatus = 'draft' | 'accepted' | 'edited'
+
+/** Feedback anchored to a passage quoted from the answer */
+export interface InlineComment {
+  quote: string
+  comment: string
+}
+
+export interface GradeSuggestion {
+  id: string
+  provider: SuggestionProvider
+  model: string
+  /** Points per rubric criterion id; empty when the question has no rubric */
+  rubric_scores: Record<string, number>
+  /** Question score the draft works out to */
+  points_suggested: number
+  feedback: string
+  comments: InlineComment[]
+  /** 0-1, as reported by the model; the stub reports 0 */
+  confidence: number
+  status: SuggestionStatus
+  created_at: string
+}
+
+export interface AnswerSegment {
+  text: string
+  /** Index into the comments array, or null for uncommented text */
+  comment: number | null
+}
+
+/**
+ * Split an answer into plain and commented passages for inline display.
+ * Each comment marks the first occurrence of its quote that does not overlap an
+ * earlier comment; quotes that are not in the answer are left out.
+ */
+export function splitAnswerByComments(answer: string, comments: InlineComment[]): AnswerSegment[] {
+  const ranges: Array<{ start: number; end: number; comment: number }> = []
+
+  comments.forEach((item, index) => {
+    if (!item.quote) return
+
+    let from = 0
+    while (from <= answer.length) {
+      const start = answer.indexOf(item.quote, from)
+      if (start === -1) return
+
+      const end = start + item.quote.length
+      if (!ranges.some(range => start < range.end && end > range.start)) {
+        ranges.push({ start, end, comment: index })
+        return
+      }
+      from = start + 1
+    }
+  })
+
+  ranges.sort((a, b) => a.start - b.start)
+
+  const segments: AnswerSegment[] = []
+  let cursor = 0
+  for (const range of ranges) {
+    if (range.start > cursor) segments.push({ text: answer.slice(cursor, range.start), comment: null })
+    segments.push({ text: answer.slice(range.start, range.end), comment: range.comment })
+    cursor = range.end
+  }
+  if (cursor < answer.length) segments.push({ text: answer.slice(cursor), comment: null })
+
+  return segments
+}
+
+/**
+ * Whether a saved grade kept the suggestion as drafted or changed it
+ */
+export function getSuggestionStatus(
+  suggestion: Pick<GradeSuggestion, 'rubric_scores' | 'points_suggested' | 'feedback'>,
+  grade: { rubric_scores: Record<string, number>; points_earned: number; feedback?: string | null }
+): Exclude<SuggestionStatus, 'draft'> {
+  const suggestedIds = Object.keys(suggestion.rubric_scores)
+  const sameScores = suggestedIds.length > 0
+    ? suggestedIds.length === Object.keys(grade.rubric_scores).length &&
+      suggestedIds.every(id => grade.rubric_scores[id] === suggestion.rubric_scores[id])
+    : grade.points_earned === suggestion.points_suggested
+  const sameFeedback = (grade.feedback || '').trim() === suggestion.feedback.trim()
+
+  return sameScores && sameFeedback ? 'accepted' : 'edited'
+}
@@ -0,0 +1,69 @@
+/**
+ * Quiz Grading Types
+ * Shared shapes for the server-side grader registry
+ */
+
+import type { QuizQuestion, QuestionType } from '@/lib/supabase'
+
+/**
+ * The subset of a quiz_questions row a grader needs.
+ * Correct answers live in one of the three answer fields depending on the type:
+ * correct_answer (indexes), correct_answer_text (text) or correct_answer_json (complex).
+ */
+export type GradableQuestion = Pick<QuizQuestion, 'id' | 'question_type' | 'correct_answer'> &
+  Partial<Pick<
+    QuizQuestion,
+    | 'question'
+    | 'options'
+    | 'correct_answer_text'
+    | 'correct_answer_json'
+    | 'points'
+    | 'weight'
+    | 'partial_credit'
+    | 'question_metadata'
+  >>
+
+/**
+ * Settings resolved from the question row, correct_answer_json and question_metadata
+ */
+export interface GradingSettings {
+  partialCredit: boolean
+  caseSensitive: boolean
+}
+
+/**
+ * What a single grader decides about an answer.
+ * credit is the fraction of the question earned (0-1).
+ */
+export interface GraderOutcome {
+  credit: number
+  requiresManualGrading?: boolean
+}
+
+export type QuestionGrader = (
+  question: GradableQuestion,
+  answer: unknown,
+  settings: GradingSettings
+) => GraderOutcome
+
+/**
+ * Per-question grading result returned by the submit route
+ */
+export interface QuestionGradeResult {
+  question_id: string
+  question_type: QuestionType
+  answered: boolean
+  is_correct: boolean
+  credit: number
+  points_earned: number
+  points_possible: number
+  requires_manual_grading: boolean
+}
+
+export interface SubmissionGradeResult {
+  results: QuestionGradeResult[]
+  earnedPoints: number
+  totalPoints: number
+  percentage: number
+  pendingManualGrading: number
+}
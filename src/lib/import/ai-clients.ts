@@ -0,0 +1,69 @@
+/**
+ * AI Clients
+ * Claude and Gemini client creation and model preferences, shared by the question
+ * import enhancer and essay pre-grading (src/lib/grading/ai-pregrade.ts)
+ */
+
+import Anthropic from '@anthropic-ai/sdk'
+import { GoogleGenerativeAI, type GenerationConfig } from '@google/generative-ai'
+import { logger } from '@/lib/logger'
+
+// Claude models in order of preference (2025 models)
+export const CLAUDE_MODELS = [
+  'claude-sonnet-4-5-20250929',  // Latest Claude Sonnet 4.5
+  'claude-sonnet-4-5',            // Alias for latest 4.5
+  'claude-haiku-4-5',             // Cheaper alternative
+  'claude-sonnet-3-7'             // Fallback to 3.7
+]
+
+// Current generation (Gemini 1.5 retired)
+export const GEMINI_MODEL = 'gemini-2.0-flash'
+
+export interface ClaudeCompletion {
+  message: Anthropic.Message
+  model: string
+}
+
+/**
+ * Create a Claude message, trying CLAUDE_MODELS in order until one succeeds.
+ * Throws the last model's error when all of them fail.
+ */
+export async function createClaudeMessage(
+  params: Omit<Anthropic.MessageCreateParamsNonStreaming, 'model'>,
+  logPrefix = '[AI]'
+): Promise<ClaudeCompletion> {
+  const anthropic = new Anthropic({ apiKey: process.env.ANTHROPIC_API_KEY })
+  let lastError: any
+
+  for (const model of CLAUDE_MODELS) {
+    try {
+      logger.info(`${logPrefix} Trying model`, { model })
+      const message = await anthropic.messages.create({ ...params, model })
+      logger.info(`${logPrefix} Model worked`, { model })
+      return { message, model }
+    } catch (error: any) {
+      logger.warn(`${logPrefix} Model failed`, { model, error: error.message })
+      lastError = error
+    }
+  }
+
+  throw lastError || new Error('All Claude models failed')
+}
+
+/**
+ * Text of a Claude message's first content block
+ */
+export function getClaudeText(message: Anthropic.Message): string {
+  const block = message.content[0]
+  return block?.type === 'text' ? block.text : ''
+}
+
+/**
+ * Gemini model (GEMINI_MODEL) with the given generation settings
+ */
+export function getGeminiModel(generationConfig: GenerationConfig) {
+  return new GoogleGenerativeAI(process.env.GOOGLE_AI_API_KEY || '').getGenerativeModel({
+    model: GEMINI_MODEL,
+    generationConfig
+  })
+}
@@ -1,10 +1,7 @@
-import { GoogleGenerativeAI } from '@google/generative-ai'
 import { QuestionImport } from './validation'
 import { logger } from '@/lib/logger'
 import type { AIEnhancement, AIEnhancementOptions, EnhancedQuestion } from './ai-enhancer'
-
-// Initialize Google Gemini
-const genAI = new GoogleGenerativeAI(process.env.GOOGLE_AI_API_KEY || '')
+import { getGeminiModel } from './ai-clients'
 
 /**
  * Batch enhance questions using Google Gemini
@@ -40,13 +37,10 @@ export async function enhanceQuestionsWithGemini(
       questionsToEnhance: questionsNeedingHelp.length
     })
 
-    // Call Gemini API (2025 models)
-    const model = genAI.getGenerativeModel({
-      model: 'gemini-2.0-flash',  // Current generation (Gemini 1.5 retired)
-      generationConfig: {
-        temperature: 0.3,
-        maxOutputTokens: 8000,
-      }
+    // Call Gemini API (shared model)
+    const model = getGeminiModel({
+      temperature: 0.3,
+      maxOutputTokens: 8000,
     })
 
     const result = await model.generateContent(prompt)
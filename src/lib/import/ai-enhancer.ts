@@ -1,12 +1,7 @@
-import Anthropic from '@anthropic-ai/sdk'
 import { QuestionImport } from './validation'
 import { logger } from '@/lib/logger'
 import { enhanceQuestionsWithGemini } from './ai-enhancer-gemini'
-
-// Initialize Anthropic client
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-})
+import { createClaudeMessage, getClaudeText } from './ai-clients'
 
 export type AIProvider = 'claude' | 'gemini'
 
@@ -83,50 +78,20 @@ async function enhanceQuestionsWithClaude(
       questionsToEnhance: questionsNeedingHelp.length
     })
 
-    // Try models in order of preference (2025 models)
-    const modelsToTry = [
-      'claude-sonnet-4-5-20250929',  // Latest Claude Sonnet 4.5
-      'claude-sonnet-4-5',            // Alias for latest 4.5
-      'claude-haiku-4-5',             // Cheaper alternative
-      'claude-sonnet-3-7'             // Fallback to 3.7
-    ]
-
-    let message
-    let lastError
-
-    for (const modelName of modelsToTry) {
-      try {
-        logger.info('[Claude Enhancer] Trying model', { model: modelName })
-
-        message = await anthropic.messages.create({
-          model: modelName,
-          max_tokens: 8000,
-          temperature: 0.3,
-          messages: [
-            {
-              role: 'user',
-              content: prompt
-            }
-          ]
-        })
-
-        logger.info('[Claude Enhancer] Model worked', { model: modelName })
-        break // Success! Exit loop
-      } catch (error: any) {
-        logger.warn('[Claude Enhancer] Model failed', { model: modelName, error: error.message })
-        lastError = error
-        continue // Try next model
-      }
-    }
-
-    if (!message) {
-      throw lastError || new Error('All Claude models failed')
-    }
+    // Tries the shared Claude models in order of preference
+    const { message } = await createClaudeMessage({
+      max_tokens: 8000,
+      temperature: 0.3,
+      messages: [
+        {
+          role: 'user',
+          content: prompt
+        }
+      ]
+    }, '[Claude Enhancer]')
 
     // Parse response
-    const responseText = message.content[0].type === 'text'
-      ? message.content[0].text
-      : ''
+    const responseText = getClaudeText(message)
 
     logger.info('[Claude Enhancer] Received response', {
       length: responseText.length
@@ -0,0 +1,43 @@
+/**
+ * Leaderboards
+ * Admin-defined rankings over a quiz, category or learning path, with weekly and
+ * monthly boards archiving their standings at each reset.
+ */
+
+export {
+  LEADERBOARD_TYPES,
+  LEADERBOARD_PERIODS,
+  type LeaderboardType,
+  type LeaderboardPeriod,
+  type LeaderboardScope,
+  type Leaderboard,
+  type LeaderboardInput,
+  type RankableAttempt,
+  type Standing,
+  type NamedStanding,
+  type LeaderboardPeriodRange
+} from './types'
+
+export {
+  MAX_LEADERBOARD_ENTRIES,
+  validateLeaderboard,
+  pickLeaderboardFields,
+  getLeaderboardScope,
+  getPeriodStart,
+  listElapsedPeriods,
+  getCurrentPeriod,
+  rankStandings
+} from './rules'
+
+export {
+  LEADERBOARD_FIELDS,
+  toLeaderboard,
+  getInitialReset,
+  loadScopeNames,
+  computeStandings,
+  nameStandings,
+  rollOverLeaderboard,
+  resetLeaderboardNow,
+  listArchivedPeriods,
+  loadArchivedStandings
+} from './standings'
@@ -0,0 +1,188 @@
+/**
+ * Leaderboard Rules
+ * Validation for the admin editor, period arithmetic and ranking, kept free of
+ * database access so the API routes and tests share them.
+ */
+
+import {
+  LEADERBOARD_PERIODS,
+  LEADERBOARD_TYPES,
+  type Leaderboard,
+  type LeaderboardInput,
+  type LeaderboardPeriod,
+  type LeaderboardPeriodRange,
+  type LeaderboardScope,
+  type RankableAttempt,
+  type Standing
+} from './types'
+
+export const MAX_LEADERBOARD_ENTRIES = 500
+/** Periods archived in one go when a board hasn't been viewed for a long time */
+const MAX_PERIODS_PER_ROLLOVER = 12
+const DAY_MS = 24 * 60 * 60 * 1000
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+const SCOPE_FIELDS = ['quiz_id', 'category_id', 'learning_path_id'] as const
+
+/**
+ * Validation for leaderboard fields sent by the admin editor; returns the first problem found.
+ * With partial=true only the fields present are checked (updates).
+ */
+export function validateLeaderboard(body: any, partial = false): string | null {
+  if (!body || typeof body !== 'object') return 'Leaderboard data is required'
+
+  const has = (field: string) => body[field] !== undefined
+
+  if ((!partial || has('name')) && (typeof body.name !== 'string' || !body.name.trim() || body.name.length > 200)) {
+    return 'Name is required and must be at most 200 characters'
+  }
+  if (has('description') && body.description !== null && typeof body.description !== 'string') {
+    return 'Description must be text'
+  }
+  for (const field of SCOPE_FIELDS) {
+    if (has(field) && body[field] !== null && (typeof body[field] !== 'string' || !UUID_PATTERN.test(body[field]))) {
+      return `${field} must be an ID or null`
+    }
+  }
+  if (SCOPE_FIELDS.filter(field => body[field]).length > 1) {
+    return 'A leaderboard ranks one quiz, one category or one learning path, not several'
+  }
+  if ((!partial || has('leaderboard_type')) && !LEADERBOARD_TYPES.includes(body.leaderboard_type)) {
+    return `Ranking must be one of: ${LEADERBOARD_TYPES.join(', ')}`
+  }
+  if ((!partial || has('time_period')) && !LEADERBOARD_PERIODS.includes(body.time_period)) {
+    return `Time period must be one of: ${LEADERBOARD_PERIODS.join(', ')}`
+  }
+  if (has('max_entries') && (!Number.isInteger(body.max_entries) || body.max_entries < 1 || body.max_entries > MAX_LEADERBOARD_ENTRIES)) {
+    return `Entries shown must be between 1 and ${MAX_LEADERBOARD_ENTRIES}`
+  }
+  if (has('is_public') && typeof body.is_public !== 'boolean') {
+    return 'is_public must be true or false'
+  }
+
+  return null
+}
+
+/**
+ * The editable fields present in a request body, normalized for storage. Setting
+ * any scope field replaces the whole scope, and the reset schedule follows the period.
+ */
+export function pickLeaderboardFields(body: Record<string, any>): Partial<LeaderboardInput> & Pick<Partial<Leaderboard>, 'reset_frequency'> {
+  const fields: Partial<LeaderboardInput> & Pick<Partial<Leaderboard>, 'reset_frequency'> = {}
+
+  if (body.name !== undefined) fields.name = body.name.trim()
+  if (body.description !== undefined) fields.description = body.description?.trim() || null
+  if (SCOPE_FIELDS.some(field => body[field] !== undefined)) {
+    SCOPE_FIELDS.forEach(field => { fields[field] = body[field] || null })
+  }
+  if (body.leaderboard_type !== undefined) fields.leaderboard_type = body.leaderboard_type
+  if (body.time_period !== undefined) {
+    fields.time_period = body.time_period
+    fields.reset_frequency = body.time_period === 'all_time' ? null : body.time_period
+  }
+  if (body.max_entries !== undefined) fields.max_entries = body.max_entries
+  if (body.is_public !== undefined) fields.is_public = body.is_public
+
+  return fields
+}
+
+export function getLeaderboardScope(board: Pick<Leaderboard, 'quiz_id' | 'category_id' | 'learning_path_id'>): LeaderboardScope {
+  if (board.quiz_id) return { type: 'quiz', quiz_id: board.quiz_id }
+  if (board.category_id) return { type: 'category', category_id: board.category_id }
+  if (board.learning_path_id) return { type: 'learning_path', learning_path_id: board.learning_path_id }
+  return { type: 'global' }
+}
+
+/**
+ * Start of the calendar period containing the date: Monday 00:00 UTC for weekly
+ * boards, the 1st of the month for monthly ones. All-time boards have no periods.
+ */
+export function getPeriodStart(period: LeaderboardPeriod, date: Date): Date | null {
+  if (period === 'monthly') {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1))
+  }
+  if (period === 'weekly') {
+    const midnight = Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+    const daysSinceMonday = (date.getUTCDay() + 6) % 7
+    return new Date(midnight - daysSinceMonday * DAY_MS)
+  }
+  return null
+}
+
+function getNextPeriodStart(period: 'weekly' | 'monthly', date: Date): Date {
+  const start = getPeriodStart(period, date)!
+  return period === 'weekly'
+    ? new Date(start.getTime() + 7 * DAY_MS)
+    : new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1))
+}
+
+/**
+ * Periods of a weekly or monthly board that closed since its last reset, oldest
+ * first. The first one starts at last_reset, which may be mid-period for a new board.
+ */
+export function listElapsedPeriods(
+  board: Pick<Leaderboard, 'reset_frequency' | 'last_reset'>,
+  now: Date
+): Array<{ start: string; end: string }> {
+  if (!board.reset_frequency || !board.last_reset) return []
+
+  const periods: Array<{ start: string; end: string }> = []
+  let start = new Date(board.last_reset)
+  let end = getNextPeriodStart(board.reset_frequency, start)
+
+  while (end.getTime() <= now.getTime() && periods.length < MAX_PERIODS_PER_ROLLOVER) {
+    periods.push({ start: start.toISOString(), end: end.toISOString() })
+    start = end
+    end = getNextPeriodStart(board.reset_frequency, start)
+  }
+
+  return periods
+}
+
+/**
+ * The window the current standings cover; all-time boards count every attempt.
+ * Call after the board has rolled over, so last_reset is in the current period.
+ */
+export function getCurrentPeriod(board: Pick<Leaderboard, 'time_period' | 'last_reset'>, now: Date): LeaderboardPeriodRange {
+  return {
+    start: board.time_period === 'all_time' ? null : board.last_reset,
+    end: now.toISOString()
+  }
+}
+
+/**
+ * Rank learners from their graded attempts in a period. Each quiz counts once, at
+ * the learner's best score. Equal scores share a rank (1, 2, 2, 4).
+ */
+export function rankStandings(attempts: RankableAttempt[], type: Leaderboard['leaderboard_type']): Standing[] {
+  const byUser = new Map<string, Map<string, { best: number; passed: boolean }>>()
+
+  attempts.forEach(attempt => {
+    const quizzes = byUser.get(attempt.user_id) || new Map()
+    const current = quizzes.get(attempt.quiz_id) || { best: 0, passed: false }
+    quizzes.set(attempt.quiz_id, {
+      best: Math.max(current.best, Number(attempt.percentage_score) || 0),
+      passed: current.passed || Boolean(attempt.passed)
+    })
+    byUser.set(attempt.user_id, quizzes)
+  })
+
+  const scored = Array.from(byUser.entries()).map(([userId, quizzes]) => {
+    const results = Array.from(quizzes.values())
+    const total = results.reduce((sum, result) => sum + result.best, 0)
+    const score = type === 'quizzes_passed'
+      ? results.filter(result => result.passed).length
+      : type === 'average'
+        ? total / results.length
+        : total
+
+    return { user_id: userId, score: Math.round(score * 10) / 10, quizzes: results.length }
+  })
+
+  scored.sort((a, b) => b.score - a.score || b.quizzes - a.quizzes || a.user_id.localeCompare(b.user_id))
+
+  let rank = 0
+  return scored.map((entry, index) => {
+    if (index === 0 || entry.score !== scored[index - 1].score) rank = index + 1
+    return { ...entry, rank }
+  })
+}
@@ -0,0 +1,344 @@
+/**
+ * Leaderboard Standings
+ * Ranks learners live from their graded attempts, archives the closing standings
+ * of weekly and monthly boards and keeps opted-out learners off every board.
+ * Runs with the service client.
+ *
+ * Resets happen at the period boundary whether or not anyone is looking: the
+ * first read after a boundary archives each closed period from the attempt
+ * timestamps, so the archive is the same as if a scheduler had run on time.
+ */
+
+import { logger } from '@/lib/logger'
+import { listLeaderboardOptOuts } from '@/lib/user-settings'
+import { getLeaderboardScope, getPeriodStart, listElapsedPeriods, rankStandings } from './rules'
+import type {
+  Leaderboard,
+  LeaderboardPeriodRange,
+  NamedStanding,
+  RankableAttempt,
+  Standing
+} from './types'
+
+export const LEADERBOARD_FIELDS = 'id, name, description, quiz_id, category_id, learning_path_id, leaderboard_type, time_period, reset_frequency, max_entries, is_public, last_reset, created_at, updated_at'
+
+export function toLeaderboard(row: any): Leaderboard {
+  return {
+    ...row,
+    leaderboard_type: row.leaderboard_type || 'score',
+    time_period: row.time_period || 'all_time',
+    reset_frequency: row.time_period === 'weekly' || row.time_period === 'monthly' ? row.time_period : null,
+    max_entries: row.max_entries ?? 100,
+    is_public: row.is_public !== false
+  }
+}
+
+/**
+ * Where a new board, or one whose period changed, starts counting from
+ */
+export function getInitialReset(board: Pick<Leaderboard, 'time_period'>, now = new Date()): string {
+  return (getPeriodStart(board.time_period, now) || now).toISOString()
+}
+
+/**
+ * Quizzes a board ranks; null means every quiz
+ */
+async function resolveScopeQuizIds(serviceClient: any, board: Leaderboard): Promise<string[] | null> {
+  const scope = getLeaderboardScope(board)
+
+  if (scope.type === 'quiz') return [scope.quiz_id]
+
+  if (scope.type === 'learning_path') {
+    const { data, error } = await serviceClient
+      .from('learning_paths')
+      .select('quiz_ids')
+      .eq('id', scope.learning_path_id)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load learning path: ${error.message}`)
+    }
+    return data?.quiz_ids || []
+  }
+
+  if (scope.type === 'category') {
+    // Quizzes store their category by name (or slug, for imported ones)
+    const { data: category, error: categoryError } = await serviceClient
+      .from('categories')
+      .select('name, slug')
+      .eq('id', scope.category_id)
+      .maybeSingle()
+
+    if (categoryError) {
+      throw new Error(`Failed to load category: ${categoryError.message}`)
+    }
+    if (!category) return []
+
+    const { data, error } = await serviceClient
+      .from('quizzes')
+      .select('id')
+      .in('category', [category.name, category.slug].filter(Boolean))
+
+    if (error) {
+      throw new Error(`Failed to load category quizzes: ${error.message}`)
+    }
+    return (data || []).map((quiz: { id: string }) => quiz.id)
+  }
+
+  return null
+}
+
+/**
+ * What each board ranks, by name ("All quizzes" for global boards)
+ */
+export async function loadScopeNames(serviceClient: any, boards: Leaderboard[]): Promise<Map<string, string>> {
+  const ids = (field: 'quiz_id' | 'category_id' | 'learning_path_id') =>
+    Array.from(new Set(boards.map(board => board[field]).filter((id): id is string => Boolean(id))))
+  const lookup = async (table: string, column: string, list: string[]) => {
+    if (list.length === 0) return new Map<string, string>()
+    const { data, error } = await serviceClient.from(table).select(`id, ${column}`).in('id', list)
+    if (error) {
+      throw new Error(`Failed to load ${table}: ${error.message}`)
+    }
+    return new Map<string, string>((data || []).map((row: any) => [row.id, row[column]]))
+  }
+
+  const [quizzes, categories, paths] = await Promise.all([
+    lookup('quizzes', 'title', ids('quiz_id')),
+    lookup('categories', 'name', ids('category_id')),
+    lookup('learning_paths', 'name', ids('learning_path_id'))
+  ])
+
+  return new Map(boards.map(board => {
+    const scope = getLeaderboardScope(board)
+    const name = scope.type === 'quiz'
+      ? quizzes.get(scope.quiz_id)
+      : scope.type === 'category'
+        ? categories.get(scope.category_id)
+        : scope.type === 'learning_path'
+          ? paths.get(scope.learning_path_id)
+          : 'All quizzes'
+    return [board.id, name || 'Unknown']
+  }))
+}
+
+/**
+ * Everyone's standing on a board for a period, best first, without opted-out learners
+ */
+export async function computeStandings(
+  serviceClient: any,
+  board: Leaderboard,
+  range: LeaderboardPeriodRange
+): Promise<Standing[]> {
+  const quizIds = await resolveScopeQuizIds(serviceClient, board)
+  if (quizIds && quizIds.length === 0) return []
+
+  let query = serviceClient
+    .from('quiz_attempts')
+    .select('user_id, quiz_id, percentage_score, passed, grading_status')
+    .lt('completed_at', range.end)
+
+  if (range.start) query = query.gte('completed_at', range.start)
+  if (quizIds) query = query.in('quiz_id', quizIds)
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to load quiz attempts: ${error.message}`)
+  }
+
+  // Attempts waiting for an essay grade count once they are graded
+  const attempts: RankableAttempt[] = (data || [])
+    .filter((attempt: { grading_status?: string | null }) => attempt.grading_status !== 'pending_review')
+
+  const optedOut = await listLeaderboardOptOuts(
+    serviceClient,
+    Array.from(new Set(attempts.map(attempt => attempt.user_id)))
+  )
+
+  return rankStandings(attempts.filter(attempt => !optedOut.has(attempt.user_id)), board.leaderboard_type)
+}
+
+/**
+ * Learner names for display, marking the signed-in learner
+ */
+export async function nameStandings(
+  serviceClient: any,
+  standings: Standing[],
+  currentUserId: string | null
+): Promise<NamedStanding[]> {
+  if (standings.length === 0) return []
+
+  const { data, error } = await serviceClient
+    .from('users')
+    .select('id, name, avatar_url')
+    .in('id', standings.map(standing => standing.user_id))
+
+  if (error) {
+    throw new Error(`Failed to load learner names: ${error.message}`)
+  }
+
+  const users = new Map<string, { name: string | null; avatar_url: string | null }>(
+    (data || []).map((row: { id: string; name: string | null; avatar_url: string | null }) => [row.id, row])
+  )
+
+  return standings.map(standing => ({
+    ...standing,
+    name: users.get(standing.user_id)?.name || 'Learner',
+    avatar_url: users.get(standing.user_id)?.avatar_url || null,
+    is_current_user: standing.user_id === currentUserId
+  }))
+}
+
+/**
+ * Store the top of a closed period's standings. Archiving a period twice keeps the first copy.
+ */
+async function archivePeriod(serviceClient: any, board: Leaderboard, period: { start: string; end: string }): Promise<number> {
+  const standings = (await computeStandings(serviceClient, board, period)).slice(0, board.max_entries)
+  if (standings.length === 0) return 0
+
+  const { error } = await serviceClient
+    .from('leaderboard_entries')
+    .upsert(
+      standings.map(standing => ({
+        leaderboard_id: board.id,
+        user_id: standing.user_id,
+        score: standing.score,
+        rank_position: standing.rank,
+        period_start: period.start,
+        period_end: period.end,
+        additional_data: { quizzes: standing.quizzes, leaderboard_type: board.leaderboard_type }
+      })),
+      { onConflict: 'leaderboard_id,period_start,user_id', ignoreDuplicates: true }
+    )
+
+  if (error) {
+    throw new Error(`Failed to archive standings: ${error.message}`)
+  }
+
+  return standings.length
+}
+
+/**
+ * Archive every period of a weekly or monthly board that closed since its last
+ * reset and move the board into the current period. Returns the up-to-date board.
+ */
+export async function rollOverLeaderboard(serviceClient: any, board: Leaderboard, now = new Date()): Promise<Leaderboard> {
+  const periods = listElapsedPeriods(board, now)
+  if (periods.length === 0) return board
+
+  for (const period of periods) {
+    await archivePeriod(serviceClient, board, period)
+  }
+
+  // Only one concurrent reader moves last_reset; the others' archives were no-ops
+  const nextReset = periods[periods.length - 1].end
+  const { data, error } = await serviceClient
+    .from('leaderboards')
+    .update({ last_reset: nextReset, updated_at: now.toISOString() })
+    .eq('id', board.id)
+    .eq('last_reset', board.last_reset)
+    .select(LEADERBOARD_FIELDS)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to reset leaderboard: ${error.message}`)
+  }
+
+  if (data) {
+    logger.info('Leaderboard reset', { leaderboardId: board.id, periods: periods.length, lastReset: nextReset })
+    const rolled = toLeaderboard(data)
+    // Catch up further if the board was idle longer than one rollover covers
+    return listElapsedPeriods(rolled, now).length > 0 ? rollOverLeaderboard(serviceClient, rolled, now) : rolled
+  }
+
+  return { ...board, last_reset: nextReset }
+}
+
+/**
+ * Close the current period early (admin action): archive the standings so far
+ * and start a new period now
+ */
+export async function resetLeaderboardNow(serviceClient: any, board: Leaderboard, now = new Date()): Promise<{ board: Leaderboard; archived: number }> {
+  const current = await rollOverLeaderboard(serviceClient, board, now)
+  const archived = await archivePeriod(serviceClient, current, {
+    start: current.last_reset || current.created_at || new Date(0).toISOString(),
+    end: now.toISOString()
+  })
+
+  const { data, error } = await serviceClient
+    .from('leaderboards')
+    .update({ last_reset: now.toISOString(), updated_at: now.toISOString() })
+    .eq('id', board.id)
+    .select(LEADERBOARD_FIELDS)
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to reset leaderboard: ${error.message}`)
+  }
+
+  logger.info('Leaderboard reset manually', { leaderboardId: board.id, archived })
+
+  return { board: toLeaderboard(data), archived }
+}
+
+/**
+ * Closed periods that have archived standings, newest first
+ */
+export async function listArchivedPeriods(serviceClient: any, leaderboardId: string, limit = 24): Promise<Array<{ start: string; end: string }>> {
+  // Every archived period with anyone in it has a first place
+  const { data, error } = await serviceClient
+    .from('leaderboard_entries')
+    .select('period_start, period_end')
+    .eq('leaderboard_id', leaderboardId)
+    .eq('rank_position', 1)
+    .order('period_start', { ascending: false })
+    .limit(limit * 5)
+
+  if (error) {
+    throw new Error(`Failed to load archived periods: ${error.message}`)
+  }
+
+  const periods = new Map<string, string>()
+  ;(data || []).forEach((row: { period_start: string; period_end: string }) => {
+    if (!periods.has(row.period_start)) periods.set(row.period_start, row.period_end)
+  })
+
+  return Array.from(periods.entries()).slice(0, limit).map(([start, end]) => ({ start, end }))
+}
+
+/**
+ * A closed period's standings as archived, still hiding learners who have since opted out
+ */
+export async function loadArchivedStandings(serviceClient: any, leaderboardId: string, periodStart: string): Promise<{
+  standings: Standing[]
+  period: { start: string; end: string } | null
+}> {
+  const { data, error } = await serviceClient
+    .from('leaderboard_entries')
+    .select('user_id, score, rank_position, additional_data, period_start, period_end')
+    .eq('leaderboard_id', leaderboardId)
+    .eq('period_start', periodStart)
+    .order('rank_position', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to load archived standings: ${error.message}`)
+  }
+
+  const rows = data || []
+  if (rows.length === 0) return { standings: [], period: null }
+
+  const optedOut = await listLeaderboardOptOuts(serviceClient, rows.map((row: { user_id: string }) => row.user_id))
+
+  return {
+    period: { start: rows[0].period_start, end: rows[0].period_end },
+    standings: rows
+      .filter((row: { user_id: string }) => !optedOut.has(row.user_id))
+      .map((row: any) => ({
+        rank: row.rank_position,
+        user_id: row.user_id,
+        score: Number(row.score),
+        quizzes: row.additional_data?.quizzes ?? 0
+      }))
+  }
+}
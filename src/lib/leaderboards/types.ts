@@ -0,0 +1,71 @@
+/**
+ * Leaderboard Types
+ */
+
+export const LEADERBOARD_TYPES = ['score', 'average', 'quizzes_passed'] as const
+export type LeaderboardType = typeof LEADERBOARD_TYPES[number]
+
+export const LEADERBOARD_PERIODS = ['weekly', 'monthly', 'all_time'] as const
+export type LeaderboardPeriod = typeof LEADERBOARD_PERIODS[number]
+
+export type LeaderboardScope =
+  | { type: 'quiz'; quiz_id: string }
+  | { type: 'category'; category_id: string }
+  | { type: 'learning_path'; learning_path_id: string }
+  /** Every published quiz */
+  | { type: 'global' }
+
+export interface Leaderboard {
+  id: string
+  name: string
+  description: string | null
+  quiz_id: string | null
+  category_id: string | null
+  learning_path_id: string | null
+  /**
+   * score: sum of each quiz's best score; average: mean of those best scores;
+   * quizzes_passed: quizzes passed at least once
+   */
+  leaderboard_type: LeaderboardType
+  time_period: LeaderboardPeriod
+  /** Same as time_period for weekly and monthly boards; null for all-time ones */
+  reset_frequency: 'weekly' | 'monthly' | null
+  max_entries: number
+  is_public: boolean
+  /** Start of the current period */
+  last_reset: string | null
+  created_at?: string
+  updated_at?: string
+}
+
+export type LeaderboardInput = Pick<
+  Leaderboard,
+  'name' | 'description' | 'quiz_id' | 'category_id' | 'learning_path_id' | 'leaderboard_type' | 'time_period' | 'max_entries' | 'is_public'
+>
+
+/** A graded attempt inside the period being ranked */
+export interface RankableAttempt {
+  user_id: string
+  quiz_id: string
+  percentage_score: number | null
+  passed: boolean | null
+}
+
+export interface Standing {
+  rank: number
+  user_id: string
+  score: number
+  /** Distinct quizzes the learner attempted in the period */
+  quizzes: number
+}
+
+export interface NamedStanding extends Standing {
+  name: string
+  avatar_url: string | null
+  is_current_user: boolean
+}
+
+export interface LeaderboardPeriodRange {
+  start: string | null
+  end: string
+}
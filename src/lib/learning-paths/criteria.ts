@@ -0,0 +1,179 @@
+/**
+ * Learning Path Rules
+ * Validation for the admin editor and the unlock/completion rules, kept free of
+ * database access so the pages, API routes and tests share them.
+ */
+
+import {
+  PATH_DIFFICULTIES,
+  type CompletionCriteria,
+  type LearningPath,
+  type LearningPathInput,
+  type PathProgress,
+  type PathStep
+} from './types'
+
+// Matches the column default on learning_paths.completion_criteria
+export const DEFAULT_COMPLETION_CRITERIA: CompletionCriteria = {
+  min_score: 70,
+  pass_rate: 0.8
+}
+
+const MAX_PATH_QUIZZES = 50
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export function normalizeCompletionCriteria(value: any): CompletionCriteria {
+  const minScore = Number(value?.min_score)
+  const passRate = Number(value?.pass_rate)
+
+  return {
+    min_score: Number.isFinite(minScore) && minScore >= 0 && minScore <= 100
+      ? minScore
+      : DEFAULT_COMPLETION_CRITERIA.min_score,
+    pass_rate: Number.isFinite(passRate) && passRate > 0 && passRate <= 1
+      ? passRate
+      : DEFAULT_COMPLETION_CRITERIA.pass_rate
+  }
+}
+
+function isUuidList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string' && UUID_PATTERN.test(item))
+}
+
+/**
+ * Validation for path fields sent by the admin editor; returns the first problem found.
+ * With partial=true only the fields present are checked (updates).
+ */
+export function validateLearningPath(body: any, partial = false): string | null {
+  if (!body || typeof body !== 'object') return 'Learning path data is required'
+
+  const has = (field: string) => body[field] !== undefined
+
+  if ((!partial || has('name')) && (typeof body.name !== 'string' || !body.name.trim() || body.name.length > 200)) {
+    return 'Name is required and must be at most 200 characters'
+  }
+  if (has('description') && body.description !== null && typeof body.description !== 'string') {
+    return 'Description must be text'
+  }
+  if (!partial || has('quiz_ids')) {
+    if (!isUuidList(body.quiz_ids) || body.quiz_ids.length === 0) {
+      return 'Add at least one quiz to the path'
+    }
+    if (body.quiz_ids.length > MAX_PATH_QUIZZES) {
+      return `A path can have at most ${MAX_PATH_QUIZZES} quizzes`
+    }
+    if (new Set(body.quiz_ids).size !== body.quiz_ids.length) {
+      return 'Each quiz can appear in a path only once'
+    }
+  }
+  if (has('prerequisites') && !isUuidList(body.prerequisites)) {
+    return 'Prerequisites must be a list of learning path IDs'
+  }
+  if (has('completion_criteria')) {
+    const { min_score, pass_rate } = body.completion_criteria || {}
+    if (typeof min_score !== 'number' || min_score < 0 || min_score > 100) {
+      return 'Minimum score must be between 0 and 100'
+    }
+    if (typeof pass_rate !== 'number' || pass_rate <= 0 || pass_rate > 1) {
+      return 'Pass rate must be greater than 0 and at most 1'
+    }
+  }
+  if (has('difficulty_level') && !PATH_DIFFICULTIES.includes(body.difficulty_level)) {
+    return `Difficulty must be one of: ${PATH_DIFFICULTIES.join(', ')}`
+  }
+  if (has('estimated_hours') && body.estimated_hours !== null &&
+    (typeof body.estimated_hours !== 'number' || body.estimated_hours < 0)) {
+    return 'Estimated hours must be a positive number'
+  }
+  if (has('is_public') && typeof body.is_public !== 'boolean') {
+    return 'is_public must be true or false'
+  }
+  if (has('tags') && (!Array.isArray(body.tags) || !body.tags.every((tag: unknown) => typeof tag === 'string'))) {
+    return 'Tags must be a list of strings'
+  }
+
+  return null
+}
+
+/**
+ * The editable fields present in a request body, normalized for storage
+ */
+export function pickLearningPathFields(body: Record<string, any>): Partial<LearningPathInput> {
+  const fields: Partial<LearningPathInput> = {}
+
+  if (body.name !== undefined) fields.name = body.name.trim()
+  if (body.description !== undefined) fields.description = body.description?.trim() || null
+  if (body.quiz_ids !== undefined) fields.quiz_ids = body.quiz_ids
+  if (body.prerequisites !== undefined) fields.prerequisites = Array.from(new Set<string>(body.prerequisites))
+  if (body.completion_criteria !== undefined) fields.completion_criteria = normalizeCompletionCriteria(body.completion_criteria)
+  if (body.estimated_hours !== undefined) fields.estimated_hours = body.estimated_hours
+  if (body.difficulty_level !== undefined) fields.difficulty_level = body.difficulty_level
+  if (body.is_public !== undefined) fields.is_public = body.is_public
+  if (body.tags !== undefined) {
+    fields.tags = Array.from(new Set<string>(body.tags.map((tag: string) => tag.trim().toLowerCase()).filter(Boolean)))
+  }
+
+  return fields
+}
+
+/**
+ * A path that (directly or through other paths) requires itself can never be started.
+ * Returns the cycle as path IDs, or null.
+ */
+export function findPrerequisiteCycle(
+  paths: Array<Pick<LearningPath, 'id' | 'prerequisites'>>,
+  startId: string
+): string[] | null {
+  const prerequisitesById = new Map(paths.map(path => [path.id, path.prerequisites || []]))
+
+  const visit = (id: string, trail: string[]): string[] | null => {
+    for (const next of prerequisitesById.get(id) || []) {
+      if (next === startId) return [...trail, next]
+      if (trail.includes(next)) continue
+      const cycle = visit(next, [...trail, next])
+      if (cycle) return cycle
+    }
+    return null
+  }
+
+  return visit(startId, [startId])
+}
+
+/**
+ * Where a learner stands on a path. Quizzes unlock in order: each one opens once every
+ * earlier quiz reaches min_score, and nothing opens until the prerequisite paths are done.
+ *
+ * @param scores - official score per quiz ID (null or missing when not yet graded)
+ * @param completedPathIds - paths the learner has completed
+ */
+export function computePathProgress(
+  path: Pick<LearningPath, 'quiz_ids' | 'prerequisites' | 'completion_criteria'>,
+  scores: Record<string, number | null | undefined>,
+  completedPathIds: Iterable<string>
+): PathProgress {
+  const criteria = normalizeCompletionCriteria(path.completion_criteria)
+  const completed = new Set(completedPathIds)
+  const missingPrerequisites = (path.prerequisites || []).filter(id => !completed.has(id))
+
+  let earlierMet = missingPrerequisites.length === 0
+  const steps: PathStep[] = path.quiz_ids.map(quizId => {
+    const score = scores[quizId]
+    const officialScore = typeof score === 'number' ? score : null
+    const met = officialScore !== null && officialScore >= criteria.min_score
+    const step = { quiz_id: quizId, official_score: officialScore, met, unlocked: earlierMet }
+    earlierMet = earlierMet && met
+    return step
+  })
+
+  const metCount = steps.filter(step => step.met).length
+  const firstUnmet = steps.findIndex(step => !step.met)
+
+  return {
+    steps,
+    met_count: metCount,
+    progress_percentage: steps.length > 0 ? Math.round((metCount / steps.length) * 100) : 0,
+    current_quiz_index: firstUnmet === -1 ? steps.length : firstUnmet,
+    completed: steps.length > 0 && missingPrerequisites.length === 0 && metCount / steps.length >= criteria.pass_rate,
+    missing_prerequisites: missingPrerequisites
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * Learning Paths
+ * Ordered quiz tracks: quizzes unlock as earlier ones reach the path's minimum
+ * score, with progress kept in learning_path_progress.
+ */
+
+export {
+  PATH_DIFFICULTIES,
+  type PathDifficulty,
+  type CompletionCriteria,
+  type LearningPath,
+  type LearningPathInput,
+  type PathStep,
+  type PathProgress,
+  type QuizPathLock
+} from './types'
+
+export {
+  DEFAULT_COMPLETION_CRITERIA,
+  normalizeCompletionCriteria,
+  validateLearningPath,
+  pickLearningPathFields,
+  findPrerequisiteCycle,
+  computePathProgress
+} from './criteria'
+
+export {
+  LEARNING_PATH_FIELDS,
+  toLearningPath,
+  listPublicPathsWithQuiz,
+  buildPathProgress,
+  getQuizPathLock,
+  syncLearningPathProgress,
+  type PathProgressUpdate
+} from './progress'
+
+export { validatePathReferences } from './references'
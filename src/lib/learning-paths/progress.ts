@@ -0,0 +1,251 @@
+/**
+ * Learning Path Progress
+ * Works out a learner's progress from their official quiz scores, enforces the
+ * quiz locks and keeps learning_path_progress current. Runs with the service client.
+ *
+ * Unpublished quizzes are left out of a path until they are published, and
+ * prerequisites pointing at deleted paths are ignored, so neither can leave a
+ * learner stuck.
+ */
+
+import { logger } from '@/lib/logger'
+import { computeOfficialScore, normalizeGradingPolicy, type PolicyAttempt } from '@/lib/quiz-policies'
+import { computePathProgress, normalizeCompletionCriteria } from './criteria'
+import type { LearningPath, PathProgress, QuizPathLock } from './types'
+
+export const LEARNING_PATH_FIELDS = 'id, name, description, quiz_ids, prerequisites, completion_criteria, estimated_hours, difficulty_level, is_public, tags, created_by, created_at, updated_at'
+
+export interface PathProgressUpdate {
+  path_id: string
+  completed: boolean
+  /** true the first time the learner completes the path */
+  newly_completed: boolean
+}
+
+export function toLearningPath(row: any): LearningPath {
+  return {
+    ...row,
+    quiz_ids: row.quiz_ids || [],
+    prerequisites: row.prerequisites || [],
+    tags: row.tags || [],
+    completion_criteria: normalizeCompletionCriteria(row.completion_criteria),
+    estimated_hours: row.estimated_hours !== null && row.estimated_hours !== undefined ? Number(row.estimated_hours) : null
+  }
+}
+
+export async function listPublicPathsWithQuiz(serviceClient: any, quizId: string): Promise<LearningPath[]> {
+  const { data, error } = await serviceClient
+    .from('learning_paths')
+    .select(LEARNING_PATH_FIELDS)
+    .eq('is_public', true)
+    .contains('quiz_ids', [quizId])
+
+  if (error) {
+    throw new Error(`Failed to load learning paths: ${error.message}`)
+  }
+
+  return (data || []).map(toLearningPath)
+}
+
+/**
+ * Official score per published quiz, under each quiz's grading policy
+ */
+async function loadOfficialScores(
+  serviceClient: any,
+  userId: string,
+  quizIds: string[]
+): Promise<{ published: Set<string>; scores: Record<string, number | null> }> {
+  if (quizIds.length === 0) return { published: new Set(), scores: {} }
+
+  const [quizzesResult, attemptsResult] = await Promise.all([
+    serviceClient
+      .from('quizzes')
+      .select('id, passing_score, grading_policy')
+      .in('id', quizIds)
+      .eq('is_published', true),
+    serviceClient
+      .from('quiz_attempts')
+      .select('id, quiz_id, percentage_score, completed_at, created_at, grading_status')
+      .eq('user_id', userId)
+      .in('quiz_id', quizIds)
+  ])
+
+  if (quizzesResult.error) {
+    throw new Error(`Failed to load path quizzes: ${quizzesResult.error.message}`)
+  }
+  if (attemptsResult.error) {
+    throw new Error(`Failed to load quiz attempts: ${attemptsResult.error.message}`)
+  }
+
+  const attemptsByQuiz = new Map<string, PolicyAttempt[]>()
+  ;(attemptsResult.data || []).forEach((attempt: PolicyAttempt & { quiz_id: string }) => {
+    const list = attemptsByQuiz.get(attempt.quiz_id) || []
+    list.push(attempt)
+    attemptsByQuiz.set(attempt.quiz_id, list)
+  })
+
+  const scores: Record<string, number | null> = {}
+  const published = new Set<string>()
+  ;(quizzesResult.data || []).forEach((quiz: { id: string; passing_score: number | null; grading_policy: any }) => {
+    published.add(quiz.id)
+    const official = computeOfficialScore(
+      attemptsByQuiz.get(quiz.id) || [],
+      normalizeGradingPolicy(quiz.grading_policy).method,
+      quiz.passing_score
+    )
+    scores[quiz.id] = official?.percentage_score ?? null
+  })
+
+  return { published, scores }
+}
+
+/**
+ * Progress on each of the given paths. Prerequisite paths count as done once their
+ * completion was recorded, or if the learner's scores already complete them.
+ */
+export async function buildPathProgress(
+  serviceClient: any,
+  userId: string,
+  paths: LearningPath[]
+): Promise<Map<string, PathProgress>> {
+  if (paths.length === 0) return new Map()
+
+  const given = new Set(paths.map(path => path.id))
+  const prerequisiteIds = Array.from(new Set(paths.flatMap(path => path.prerequisites))).filter(id => !given.has(id))
+
+  let prerequisitePaths: LearningPath[] = []
+  if (prerequisiteIds.length > 0) {
+    const { data, error } = await serviceClient
+      .from('learning_paths')
+      .select(LEARNING_PATH_FIELDS)
+      .in('id', prerequisiteIds)
+
+    if (error) {
+      throw new Error(`Failed to load prerequisite paths: ${error.message}`)
+    }
+    prerequisitePaths = (data || []).map(toLearningPath)
+  }
+
+  const allPaths = [...paths, ...prerequisitePaths]
+  const knownPathIds = new Set(allPaths.map(path => path.id))
+  const quizIds = Array.from(new Set(allPaths.flatMap(path => path.quiz_ids)))
+
+  const [{ published, scores }, storedResult] = await Promise.all([
+    loadOfficialScores(serviceClient, userId, quizIds),
+    serviceClient
+      .from('learning_path_progress')
+      .select('learning_path_id')
+      .eq('user_id', userId)
+      .not('completed_at', 'is', null)
+  ])
+
+  if (storedResult.error) {
+    throw new Error(`Failed to load path progress: ${storedResult.error.message}`)
+  }
+
+  const effective = (path: LearningPath) => ({
+    ...path,
+    quiz_ids: path.quiz_ids.filter(id => published.has(id)),
+    prerequisites: path.prerequisites.filter(id => knownPathIds.has(id))
+  })
+
+  const stored = new Set<string>((storedResult.data || []).map((row: { learning_path_id: string }) => row.learning_path_id))
+  const completed = new Set(stored)
+  allPaths.forEach(path => {
+    if (computePathProgress(effective(path), scores, stored).completed) completed.add(path.id)
+  })
+
+  return new Map(paths.map(path => [path.id, computePathProgress(effective(path), scores, completed)]))
+}
+
+/**
+ * Whether a learner may start a new attempt at a quiz. A quiz in public paths is open
+ * when it is unlocked in at least one of them; quizzes outside paths are always open.
+ */
+export async function getQuizPathLock(serviceClient: any, userId: string, quizId: string): Promise<QuizPathLock> {
+  const paths = await listPublicPathsWithQuiz(serviceClient, quizId)
+  if (paths.length === 0) return { locked: false }
+
+  const progress = await buildPathProgress(serviceClient, userId, paths)
+  const unlocked = paths.some(path =>
+    progress.get(path.id)?.steps.find(step => step.quiz_id === quizId)?.unlocked
+  )
+  if (unlocked) return { locked: false }
+
+  const path = paths[0]
+  const pathProgress = progress.get(path.id)
+  const error = pathProgress && pathProgress.missing_prerequisites.length > 0
+    ? `Complete the prerequisites for the "${path.name}" learning path first`
+    : `Score at least ${path.completion_criteria.min_score}% on the earlier quizzes in "${path.name}" to unlock this quiz`
+
+  return { locked: true, path_id: path.id, path_name: path.name, error }
+}
+
+/**
+ * Recompute the learner's progress on every public path containing the quiz.
+ * Called after a submission or a grade changes the quiz's official score.
+ */
+export async function syncLearningPathProgress(
+  serviceClient: any,
+  userId: string,
+  quizId: string
+): Promise<PathProgressUpdate[]> {
+  const paths = await listPublicPathsWithQuiz(serviceClient, quizId)
+  if (paths.length === 0) return []
+
+  const pathIds = paths.map(path => path.id)
+  const [progress, existingResult] = await Promise.all([
+    buildPathProgress(serviceClient, userId, paths),
+    serviceClient
+      .from('learning_path_progress')
+      .select('learning_path_id, completed_at')
+      .eq('user_id', userId)
+      .in('learning_path_id', pathIds)
+  ])
+
+  if (existingResult.error) {
+    throw new Error(`Failed to load path progress: ${existingResult.error.message}`)
+  }
+
+  const completedAt = new Map<string, string | null>(
+    (existingResult.data || []).map((row: { learning_path_id: string; completed_at: string | null }) => [row.learning_path_id, row.completed_at])
+  )
+  const now = new Date().toISOString()
+
+  const updates: PathProgressUpdate[] = []
+  const rows = paths.map(path => {
+    const pathProgress = progress.get(path.id)!
+    const previouslyCompleted = completedAt.get(path.id) || null
+
+    updates.push({
+      path_id: path.id,
+      completed: Boolean(previouslyCompleted) || pathProgress.completed,
+      newly_completed: !previouslyCompleted && pathProgress.completed
+    })
+
+    // Completion is kept once earned, even if the path's quizzes change later
+    return {
+      user_id: userId,
+      learning_path_id: path.id,
+      current_quiz_index: pathProgress.current_quiz_index,
+      completed_quizzes: pathProgress.steps.filter(step => step.met).map(step => step.quiz_id),
+      progress_percentage: pathProgress.progress_percentage,
+      last_activity_at: now,
+      completed_at: previouslyCompleted || (pathProgress.completed ? now : null)
+    }
+  })
+
+  const { error } = await serviceClient
+    .from('learning_path_progress')
+    .upsert(rows, { onConflict: 'user_id,learning_path_id' })
+
+  if (error) {
+    throw new Error(`Failed to save path progress: ${error.message}`)
+  }
+
+  updates
+    .filter(update => update.newly_completed)
+    .forEach(update => logger.info('Learning path completed', { pathId: update.path_id, userId }))
+
+  return updates
+}
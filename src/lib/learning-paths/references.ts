@@ -0,0 +1,63 @@
+/**
+ * Learning Path References
+ * Checks that a path's quizzes and prerequisite paths exist before it is saved.
+ */
+
+import { findPrerequisiteCycle } from './criteria'
+import type { LearningPathInput } from './types'
+
+/**
+ * Returns the first problem found, or null
+ * @param pathId - the path being updated; omitted when creating one
+ */
+export async function validatePathReferences(
+  serviceClient: any,
+  fields: Partial<LearningPathInput>,
+  pathId?: string
+): Promise<string | null> {
+  if (fields.quiz_ids) {
+    const { data, error } = await serviceClient
+      .from('quizzes')
+      .select('id')
+      .in('id', fields.quiz_ids)
+
+    if (error) {
+      throw new Error(`Failed to check path quizzes: ${error.message}`)
+    }
+    if ((data || []).length !== fields.quiz_ids.length) {
+      return 'One or more quizzes no longer exist'
+    }
+  }
+
+  if (fields.prerequisites && fields.prerequisites.length > 0) {
+    if (pathId && fields.prerequisites.includes(pathId)) {
+      return 'A learning path cannot be its own prerequisite'
+    }
+
+    const { data, error } = await serviceClient
+      .from('learning_paths')
+      .select('id, prerequisites')
+
+    if (error) {
+      throw new Error(`Failed to check prerequisites: ${error.message}`)
+    }
+
+    const paths: Array<{ id: string; prerequisites: string[] | null }> = data || []
+    const known = new Set(paths.map(path => path.id))
+    if (!fields.prerequisites.every(id => known.has(id))) {
+      return 'One or more prerequisite paths no longer exist'
+    }
+
+    if (pathId) {
+      const graph = paths.map(path => ({
+        id: path.id,
+        prerequisites: path.id === pathId ? fields.prerequisites! : path.prerequisites || []
+      }))
+      if (findPrerequisiteCycle(graph, pathId)) {
+        return 'These prerequisites would make the paths depend on each other'
+      }
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,64 @@
+/**
+ * Learning Path Types
+ */
+
+export interface CompletionCriteria {
+  /** Official quiz score (percent) that counts a quiz as done and unlocks the next one */
+  min_score: number
+  /** Share of the path's quizzes (0-1) that must be done to complete the path */
+  pass_rate: number
+}
+
+export const PATH_DIFFICULTIES = ['beginner', 'intermediate', 'advanced'] as const
+export type PathDifficulty = typeof PATH_DIFFICULTIES[number]
+
+export interface LearningPath {
+  id: string
+  name: string
+  description: string | null
+  /** Quizzes in the order learners take them */
+  quiz_ids: string[]
+  /** Paths that must be completed before this one starts */
+  prerequisites: string[]
+  completion_criteria: CompletionCriteria
+  estimated_hours: number | null
+  difficulty_level: PathDifficulty
+  is_public: boolean
+  tags: string[]
+  created_by?: string | null
+  created_at?: string
+  updated_at?: string
+}
+
+export type LearningPathInput = Pick<
+  LearningPath,
+  'name' | 'description' | 'quiz_ids' | 'prerequisites' | 'completion_criteria' | 'estimated_hours' | 'difficulty_level' | 'is_public' | 'tags'
+>
+
+export interface PathStep {
+  quiz_id: string
+  /** Official score under the quiz's grading policy; null before any graded attempt */
+  official_score: number | null
+  met: boolean
+  unlocked: boolean
+}
+
+export interface PathProgress {
+  steps: PathStep[]
+  met_count: number
+  progress_percentage: number
+  /** Index of the first quiz not yet done (steps.length when all are) */
+  current_quiz_index: number
+  completed: boolean
+  /** Prerequisite paths the learner hasn't completed yet */
+  missing_prerequisites: string[]
+}
+
+export type QuizPathLock =
+  | { locked: false }
+  | {
+      locked: true
+      path_id: string
+      path_name: string
+      error: string
+    }
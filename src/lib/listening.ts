@@ -0,0 +1,242 @@
+/**
+ * Listening Sections
+ * IELTS-style listening settings stored as jsonb on quizzes. The recording is
+ * quizzes.passage_audio_url and can be played once or a limited number of times;
+ * question groups start at timestamps in the recording. Plays used and the start
+ * of transfer time are kept in the attempt's session, so reloading the page does
+ * not give the recording back. The transcript is only sent with the results.
+ */
+
+export const LISTENING_PLAY_MODES = ['single', 'limited'] as const
+export type ListeningPlayMode = typeof LISTENING_PLAY_MODES[number]
+
+export interface ListeningQuestionGroup {
+  title: string
+  /** Where this group's part of the recording starts */
+  start_seconds: number
+  /** 1-based question numbers, inclusive */
+  from_question: number
+  to_question: number
+}
+
+export interface ListeningSettings {
+  enabled: boolean
+  play_mode: ListeningPlayMode
+  /** Plays allowed in limited mode; single mode always allows one */
+  max_plays: number
+  /** Time to transfer answers once the recording has finished; 0 skips the transfer phase */
+  transfer_minutes: number
+  transcript: string
+  /** Sorted by start_seconds */
+  question_groups: ListeningQuestionGroup[]
+}
+
+/** What students see while taking the section */
+export type PublicListeningSettings = Omit<ListeningSettings, 'transcript'>
+
+/** An attempt's progress through the recording, saved in session_data */
+export interface ListeningProgress {
+  plays: number
+  transfer_started_at: string | null
+}
+
+// IELTS paper-based listening gives 10 minutes to transfer answers to the answer sheet
+export const IELTS_TRANSFER_MINUTES = 10
+export const MAX_LISTENING_PLAYS = 5
+export const MAX_TRANSFER_MINUTES = 30
+export const MAX_QUESTION_GROUPS = 20
+export const MAX_TRANSCRIPT_LENGTH = 50000
+// Keeps the overlap check in validateListeningSettings bounded
+const MAX_QUESTION_NUMBER = 500
+
+export const DEFAULT_LISTENING_SETTINGS: ListeningSettings = {
+  enabled: false,
+  play_mode: 'single',
+  max_plays: 1,
+  transfer_minutes: IELTS_TRANSFER_MINUTES,
+  transcript: '',
+  question_groups: []
+}
+
+function clampInteger(value: unknown, min: number, max: number, fallback: number): number {
+  const number = Number(value)
+  if (!Number.isFinite(number)) return fallback
+  return Math.min(max, Math.max(min, Math.round(number)))
+}
+
+export function normalizeListeningSettings(value: any): ListeningSettings {
+  if (!value || typeof value !== 'object') return { ...DEFAULT_LISTENING_SETTINGS }
+
+  const playMode: ListeningPlayMode = LISTENING_PLAY_MODES.includes(value.play_mode) ? value.play_mode : 'single'
+  const groups: ListeningQuestionGroup[] = Array.isArray(value.question_groups)
+    ? value.question_groups
+        .filter((group: any) => group && typeof group === 'object')
+        .slice(0, MAX_QUESTION_GROUPS)
+        .map((group: any) => {
+          const from = clampInteger(group.from_question, 1, Number.MAX_SAFE_INTEGER, 1)
+          return {
+            title: typeof group.title === 'string' ? group.title.trim() : '',
+            start_seconds: Math.max(0, Number(group.start_seconds) || 0),
+            from_question: from,
+            to_question: clampInteger(group.to_question, from, Number.MAX_SAFE_INTEGER, from)
+          }
+        })
+    : []
+
+  return {
+    enabled: value.enabled === true,
+    play_mode: playMode,
+    max_plays: playMode === 'single' ? 1 : clampInteger(value.max_plays, 1, MAX_LISTENING_PLAYS, 2),
+    transfer_minutes: clampInteger(value.transfer_minutes, 0, MAX_TRANSFER_MINUTES, IELTS_TRANSFER_MINUTES),
+    transcript: typeof value.transcript === 'string' ? value.transcript : '',
+    question_groups: groups.sort((a, b) => a.start_seconds - b.start_seconds)
+  }
+}
+
+/**
+ * Validation for listening settings sent by the quiz editor; returns the first problem found
+ */
+export function validateListeningSettings(value: unknown): string | null {
+  if (value === undefined || value === null) return null
+  if (typeof value !== 'object' || Array.isArray(value)) return 'Listening settings must be an object'
+
+  const settings = value as Record<string, any>
+  if (settings.play_mode !== undefined && !LISTENING_PLAY_MODES.includes(settings.play_mode)) {
+    return 'Play mode must be single or limited'
+  }
+  if (settings.max_plays !== undefined &&
+      (!Number.isInteger(settings.max_plays) || settings.max_plays < 1 || settings.max_plays > MAX_LISTENING_PLAYS)) {
+    return `Plays must be a whole number from 1 to ${MAX_LISTENING_PLAYS}`
+  }
+  if (settings.transfer_minutes !== undefined &&
+      (!Number.isInteger(settings.transfer_minutes) || settings.transfer_minutes < 0 || settings.transfer_minutes > MAX_TRANSFER_MINUTES)) {
+    return `Transfer time must be a whole number of minutes from 0 to ${MAX_TRANSFER_MINUTES}`
+  }
+  if (settings.transcript !== undefined && typeof settings.transcript !== 'string') {
+    return 'Transcript must be text'
+  }
+  if (typeof settings.transcript === 'string' && settings.transcript.length > MAX_TRANSCRIPT_LENGTH) {
+    return `Transcript must be at most ${MAX_TRANSCRIPT_LENGTH} characters`
+  }
+
+  if (settings.question_groups === undefined) return null
+  if (!Array.isArray(settings.question_groups)) return 'Question groups must be a list'
+  if (settings.question_groups.length > MAX_QUESTION_GROUPS) {
+    return `A listening section can have at most ${MAX_QUESTION_GROUPS} question groups`
+  }
+
+  const covered = new Set<number>()
+  for (const group of settings.question_groups as any[]) {
+    if (!group || typeof group !== 'object') return 'Each question group must be an object'
+    if (typeof group.start_seconds !== 'number' || !Number.isFinite(group.start_seconds) || group.start_seconds < 0) {
+      return 'Each question group needs a start time in the recording'
+    }
+    if (!Number.isInteger(group.from_question) || !Number.isInteger(group.to_question) ||
+        group.from_question < 1 || group.to_question < group.from_question) {
+      return 'Each question group needs a range of question numbers, such as 1 to 10'
+    }
+    if (group.to_question > MAX_QUESTION_NUMBER) {
+      return `Question groups can only cover questions 1 to ${MAX_QUESTION_NUMBER}`
+    }
+    for (let number = group.from_question; number <= group.to_question; number++) {
+      if (covered.has(number)) return `Question ${number} is in more than one group`
+      covered.add(number)
+    }
+  }
+
+  return null
+}
+
+export function toPublicListeningSettings(settings: ListeningSettings): PublicListeningSettings {
+  const { transcript: _transcript, ...rest } = settings
+  return rest
+}
+
+/**
+ * Listening quizzes need their settings switched on and a recording to play
+ */
+export function isListeningQuiz(quiz: { passage_audio_url?: string | null; listening_settings?: any } | null | undefined): boolean {
+  return Boolean(quiz?.passage_audio_url) && normalizeListeningSettings(quiz?.listening_settings).enabled
+}
+
+export function getAllowedPlays(settings: Pick<ListeningSettings, 'play_mode' | 'max_plays'>): number {
+  return settings.play_mode === 'single' ? 1 : settings.max_plays
+}
+
+/**
+ * Session time limit for a listening section: the quiz's limit plus transfer time
+ */
+export function getListeningTimeLimit(timeLimitMinutes: number | null | undefined, settings: ListeningSettings): number | null {
+  if (!timeLimitMinutes || timeLimitMinutes <= 0) return timeLimitMinutes ?? null
+  return timeLimitMinutes + settings.transfer_minutes
+}
+
+export function normalizeListeningProgress(value: any): ListeningProgress {
+  return {
+    plays: Number.isInteger(value?.plays) && value.plays > 0 ? value.plays : 0,
+    transfer_started_at: typeof value?.transfer_started_at === 'string' ? value.transfer_started_at : null
+  }
+}
+
+/**
+ * Apply a client update to the saved progress. Plays only ever go up and are capped
+ * at the allowance; transfer time starts once and keeps its first start time.
+ */
+export function mergeListeningProgress(
+  saved: ListeningProgress,
+  update: { plays?: number; transfer_started?: boolean },
+  settings: ListeningSettings,
+  now: Date = new Date()
+): ListeningProgress {
+  const plays = Math.min(getAllowedPlays(settings), Math.max(saved.plays, update.plays ?? 0))
+  const startTransfer = update.transfer_started === true && settings.transfer_minutes > 0
+
+  return {
+    plays,
+    transfer_started_at: saved.transfer_started_at ?? (startTransfer ? now.toISOString() : null)
+  }
+}
+
+/**
+ * Session deadline once transfer time has started: the end of transfer time, or the
+ * original deadline if that comes first
+ */
+export function getTransferExpiresAt(
+  expiresAt: string | null,
+  progress: ListeningProgress,
+  settings: ListeningSettings
+): string | null {
+  if (!progress.transfer_started_at) return expiresAt
+
+  const transferEnd = new Date(progress.transfer_started_at).getTime() + settings.transfer_minutes * 60 * 1000
+  if (expiresAt && new Date(expiresAt).getTime() <= transferEnd) return expiresAt
+  return new Date(transferEnd).toISOString()
+}
+
+/**
+ * The group whose part of the recording is playing at this point, or -1 before the first one
+ */
+export function findActiveGroupIndex(groups: ListeningQuestionGroup[], currentSeconds: number): number {
+  let active = -1
+  groups.forEach((group, index) => {
+    if (group.start_seconds <= currentSeconds) active = index
+  })
+  return active
+}
+
+/**
+ * "m:ss" for editor inputs and the player
+ */
+export function formatTimestamp(seconds: number): string {
+  const whole = Math.max(0, Math.floor(seconds))
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}`
+}
+
+/**
+ * Read "m:ss", "h:mm:ss" or plain seconds; null when the text isn't a time
+ */
+export function parseTimestamp(value: string): number | null {
+  const parts = value.trim().split(':')
+  if (parts.length > 3 || parts.some(part => !/^\d+(\.\d+)?$/.test(part))) return null
+  return parts.reduce((total, part) => total * 60 + Number(part), 0)
+}
@@ -0,0 +1,36 @@
+/**
+ * Mock Tests
+ * IELTS mock tests: Listening, Reading, Writing and Speaking sections made of
+ * quizzes, scored as bands and an overall band instead of a percentage.
+ */
+
+export {
+  type MockTest,
+  type MockTestInput,
+  type MockTestSections,
+  type MockTestBandTables,
+  type SectionQuizScore,
+  type SectionStatus,
+  type SectionResult,
+  type BandProfile
+} from './types'
+
+export {
+  SKILL_LABELS,
+  normalizeSections,
+  normalizeBandTables,
+  validateMockTest,
+  pickMockTestFields,
+  getSectionBandTable,
+  computeSectionResult,
+  computeBandProfile
+} from './rules'
+
+export {
+  MOCK_TEST_FIELDS,
+  toMockTest,
+  getMockTestQuizIds,
+  loadSectionScores,
+  buildBandProfile,
+  validateMockTestReferences
+} from './results'
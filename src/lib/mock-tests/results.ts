@@ -0,0 +1,103 @@
+/**
+ * Mock Test Results
+ * Loads a student's official scores on a mock test's quizzes and turns them
+ * into a band profile. Runs with the service client; nothing is stored, so a
+ * retake or a newly graded essay shows up the next time results are read.
+ */
+
+import { computeOfficialScore, normalizeGradingPolicy, type PolicyAttempt } from '@/lib/quiz-policies'
+import { IELTS_MODULES } from '@/lib/score-utils'
+import { computeBandProfile, normalizeBandTables, normalizeSections } from './rules'
+import type { BandProfile, MockTest, MockTestSections, SectionQuizScore } from './types'
+
+export const MOCK_TEST_FIELDS = 'id, title, description, module, sections, band_tables, is_published, created_by, created_at, updated_at'
+
+export function toMockTest(row: any): MockTest {
+  return {
+    ...row,
+    module: IELTS_MODULES.includes(row.module) ? row.module : 'academic',
+    sections: normalizeSections(row.sections),
+    band_tables: normalizeBandTables(row.band_tables)
+  }
+}
+
+export function getMockTestQuizIds(test: Pick<MockTest, 'sections'>): string[] {
+  return Object.values(test.sections).flat()
+}
+
+/**
+ * Official score per published quiz, under each quiz's grading policy
+ */
+export async function loadSectionScores(
+  serviceClient: any,
+  userId: string,
+  quizIds: string[]
+): Promise<Record<string, SectionQuizScore>> {
+  if (quizIds.length === 0) return {}
+
+  const [quizzesResult, attemptsResult] = await Promise.all([
+    serviceClient
+      .from('quizzes')
+      .select('id, passing_score, grading_policy, total_questions')
+      .in('id', quizIds)
+      .eq('is_published', true),
+    serviceClient
+      .from('quiz_attempts')
+      .select('id, quiz_id, percentage_score, completed_at, created_at, grading_status')
+      .eq('user_id', userId)
+      .in('quiz_id', quizIds)
+  ])
+
+  if (quizzesResult.error) {
+    throw new Error(`Failed to load mock test quizzes: ${quizzesResult.error.message}`)
+  }
+  if (attemptsResult.error) {
+    throw new Error(`Failed to load quiz attempts: ${attemptsResult.error.message}`)
+  }
+
+  const attemptsByQuiz = new Map<string, PolicyAttempt[]>()
+  ;(attemptsResult.data || []).forEach((attempt: PolicyAttempt & { quiz_id: string }) => {
+    const list = attemptsByQuiz.get(attempt.quiz_id) || []
+    list.push(attempt)
+    attemptsByQuiz.set(attempt.quiz_id, list)
+  })
+
+  const scores: Record<string, SectionQuizScore> = {}
+  ;(quizzesResult.data || []).forEach((quiz: { id: string; passing_score: number | null; grading_policy: any; total_questions: number | null }) => {
+    const attempts = attemptsByQuiz.get(quiz.id) || []
+    const official = computeOfficialScore(attempts, normalizeGradingPolicy(quiz.grading_policy).method, quiz.passing_score)
+    scores[quiz.id] = {
+      quiz_id: quiz.id,
+      percentage_score: official?.percentage_score ?? null,
+      pending_review: attempts.some(attempt => attempt.grading_status === 'pending_review'),
+      total_questions: Math.max(1, quiz.total_questions || 0)
+    }
+  })
+
+  return scores
+}
+
+export async function buildBandProfile(serviceClient: any, userId: string, test: MockTest): Promise<BandProfile> {
+  const scores = await loadSectionScores(serviceClient, userId, getMockTestQuizIds(test))
+  return computeBandProfile(test, scores)
+}
+
+/**
+ * Checks the quizzes in the sections exist; returns an error message or null
+ */
+export async function validateMockTestReferences(serviceClient: any, sections: MockTestSections): Promise<string | null> {
+  const quizIds = getMockTestQuizIds({ sections })
+  if (quizIds.length === 0) return null
+
+  const { data, error } = await serviceClient
+    .from('quizzes')
+    .select('id')
+    .in('id', quizIds)
+
+  if (error) {
+    throw new Error(`Failed to check mock test quizzes: ${error.message}`)
+  }
+
+  const found = new Set((data || []).map((quiz: { id: string }) => quiz.id))
+  return quizIds.some(id => !found.has(id)) ? 'One or more quizzes were not found' : null
+}
@@ -0,0 +1,212 @@
+/**
+ * Mock Test Rules
+ * Validation for the admin editor and the band calculation, kept free of
+ * database access so the pages, API routes and tests share them.
+ *
+ * Listening and Reading add up the correct answers across the section's
+ * quizzes, scale them to 40 marks and convert them with the band table.
+ * Writing and Speaking are examiner-marked, so their band comes from the
+ * section's percentage: give Writing Task 2 twice Task 1's points to weight it
+ * as the real test does.
+ */
+
+import {
+  IELTS_MODULES,
+  IELTS_SKILLS,
+  calculateOverallBand,
+  getDefaultBandTable,
+  normalizeBandTable,
+  percentageToBand,
+  rawScoreToBand,
+  scaleRawScore,
+  validateBandTable,
+  type BandTable,
+  type IeltsSkill
+} from '@/lib/score-utils'
+import type {
+  BandProfile,
+  MockTest,
+  MockTestBandTables,
+  MockTestInput,
+  MockTestSections,
+  SectionQuizScore,
+  SectionResult,
+  SectionStatus
+} from './types'
+
+const MAX_SECTION_QUIZZES = 10
+const BAND_TABLE_SKILLS = ['listening', 'reading'] as const
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+export const SKILL_LABELS: Record<IeltsSkill, string> = {
+  listening: 'Listening',
+  reading: 'Reading',
+  writing: 'Writing',
+  speaking: 'Speaking'
+}
+
+export function normalizeSections(value: any): MockTestSections {
+  const sections = {} as MockTestSections
+  IELTS_SKILLS.forEach(skill => {
+    const quizIds = value?.[skill]
+    sections[skill] = Array.isArray(quizIds) ? quizIds.filter((id: unknown) => typeof id === 'string') : []
+  })
+  return sections
+}
+
+export function normalizeBandTables(value: any): MockTestBandTables {
+  const tables: MockTestBandTables = {}
+  BAND_TABLE_SKILLS.forEach(skill => {
+    const table = normalizeBandTable(value?.[skill])
+    if (table.length > 0) tables[skill] = table
+  })
+  return tables
+}
+
+/**
+ * Validation for mock test fields sent by the admin editor; returns the first problem found.
+ * With partial=true only the fields present are checked (updates).
+ */
+export function validateMockTest(body: any, partial = false): string | null {
+  if (!body || typeof body !== 'object') return 'Mock test data is required'
+
+  const has = (field: string) => body[field] !== undefined
+
+  if ((!partial || has('title')) && (typeof body.title !== 'string' || !body.title.trim() || body.title.length > 200)) {
+    return 'Title is required and must be at most 200 characters'
+  }
+  if (has('description') && body.description !== null && typeof body.description !== 'string') {
+    return 'Description must be text'
+  }
+  if ((!partial || has('module')) && !IELTS_MODULES.includes(body.module)) {
+    return 'Module must be Academic or General Training'
+  }
+  if (!partial || has('sections')) {
+    const sections = body.sections
+    if (!sections || typeof sections !== 'object' || Array.isArray(sections)) {
+      return 'Sections are required'
+    }
+    if (Object.keys(sections).some(skill => !(IELTS_SKILLS as readonly string[]).includes(skill))) {
+      return 'Sections must be listening, reading, writing or speaking'
+    }
+
+    const allIds: string[] = []
+    for (const skill of IELTS_SKILLS) {
+      const quizIds = sections[skill] ?? []
+      if (!Array.isArray(quizIds) || !quizIds.every((id: unknown) => typeof id === 'string' && UUID_PATTERN.test(id))) {
+        return `${SKILL_LABELS[skill]} must be a list of quiz IDs`
+      }
+      if (quizIds.length > MAX_SECTION_QUIZZES) {
+        return `${SKILL_LABELS[skill]} can have at most ${MAX_SECTION_QUIZZES} quizzes`
+      }
+      allIds.push(...quizIds)
+    }
+    if (allIds.length === 0) {
+      return 'Add at least one quiz to a section'
+    }
+    if (new Set(allIds).size !== allIds.length) {
+      return 'Each quiz can appear in a mock test only once'
+    }
+  }
+  if (has('band_tables')) {
+    const tables = body.band_tables
+    if (!tables || typeof tables !== 'object' || Array.isArray(tables)) {
+      return 'Band tables must be an object'
+    }
+    for (const skill of Object.keys(tables)) {
+      if (!(BAND_TABLE_SKILLS as readonly string[]).includes(skill)) {
+        return 'Band tables can only be set for listening and reading'
+      }
+      const tableError = validateBandTable(tables[skill])
+      if (tableError) return `${SKILL_LABELS[skill as IeltsSkill]} band table: ${tableError}`
+    }
+  }
+  if (has('is_published') && typeof body.is_published !== 'boolean') {
+    return 'Published must be true or false'
+  }
+
+  return null
+}
+
+/**
+ * The mock test fields present in the body, normalized for storage
+ */
+export function pickMockTestFields(body: any): Partial<MockTestInput> {
+  const fields: Partial<MockTestInput> = {}
+  if (body.title !== undefined) fields.title = body.title.trim()
+  if (body.description !== undefined) fields.description = body.description?.trim() || null
+  if (body.module !== undefined) fields.module = body.module
+  if (body.sections !== undefined) fields.sections = normalizeSections(body.sections)
+  if (body.band_tables !== undefined) fields.band_tables = normalizeBandTables(body.band_tables)
+  if (body.is_published !== undefined) fields.is_published = body.is_published
+  return fields
+}
+
+export function getSectionBandTable(test: Pick<MockTest, 'module' | 'band_tables'>, skill: 'listening' | 'reading'): BandTable {
+  return test.band_tables[skill] || getDefaultBandTable(skill, test.module)
+}
+
+function sectionStatus(scores: SectionQuizScore[]): SectionStatus {
+  const done = scores.filter(score => score.percentage_score !== null).length
+  if (done === scores.length) return 'complete'
+  if (scores.some(score => score.percentage_score === null && score.pending_review)) return 'awaiting_grading'
+  return done > 0 ? 'in_progress' : 'not_started'
+}
+
+/**
+ * One section's standing; the band is set once every quiz in it has a score
+ */
+export function computeSectionResult(
+  test: Pick<MockTest, 'module' | 'band_tables'>,
+  skill: IeltsSkill,
+  scores: SectionQuizScore[]
+): SectionResult {
+  const quizzesDone = scores.filter(score => score.percentage_score !== null).length
+  const status = scores.length === 0 ? 'not_started' : sectionStatus(scores)
+  const result: SectionResult = {
+    skill,
+    status,
+    quiz_count: scores.length,
+    quizzes_done: quizzesDone,
+    raw_score: null,
+    band: null
+  }
+
+  if (status !== 'complete' || scores.length === 0) return result
+
+  // Each quiz counts by its number of questions
+  const maxMarks = scores.reduce((sum, score) => sum + score.total_questions, 0)
+  const marks = scores.reduce((sum, score) => sum + (Number(score.percentage_score) / 100) * score.total_questions, 0)
+
+  if (skill === 'listening' || skill === 'reading') {
+    result.raw_score = scaleRawScore(marks, maxMarks)
+    result.band = rawScoreToBand(result.raw_score, getSectionBandTable(test, skill))
+  } else {
+    result.band = percentageToBand(maxMarks > 0 ? (marks / maxMarks) * 100 : 0)
+  }
+
+  return result
+}
+
+/**
+ * The student's band profile. Quizzes missing from scores (unpublished or
+ * deleted) are left out of their section.
+ */
+export function computeBandProfile(
+  test: Pick<MockTest, 'module' | 'band_tables' | 'sections'>,
+  scores: Record<string, SectionQuizScore>
+): BandProfile {
+  const sections = IELTS_SKILLS.map(skill => computeSectionResult(
+    test,
+    skill,
+    test.sections[skill].filter(quizId => scores[quizId]).map(quizId => scores[quizId])
+  ))
+
+  const complete = sections.every(section => section.band !== null)
+
+  return {
+    sections,
+    overall_band: complete ? calculateOverallBand(sections.map(section => section.band!)) : null,
+    complete
+  }
+}
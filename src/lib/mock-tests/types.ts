@@ -0,0 +1,58 @@
+/**
+ * Mock Test Types
+ */
+
+import type { BandTable, IeltsModule, IeltsSkill } from '@/lib/score-utils'
+
+/** Quizzes making up each section, in the order students take them */
+export type MockTestSections = Record<IeltsSkill, string[]>
+
+/** Custom conversion tables; a missing table means the published one for the module */
+export interface MockTestBandTables {
+  listening?: BandTable
+  reading?: BandTable
+}
+
+export interface MockTest {
+  id: string
+  title: string
+  description: string | null
+  module: IeltsModule
+  sections: MockTestSections
+  band_tables: MockTestBandTables
+  is_published: boolean
+  created_by?: string | null
+  created_at?: string
+  updated_at?: string
+}
+
+export type MockTestInput = Pick<MockTest, 'title' | 'description' | 'module' | 'sections' | 'band_tables' | 'is_published'>
+
+/** A student's standing on one quiz in a section */
+export interface SectionQuizScore {
+  quiz_id: string
+  /** Official score under the quiz's grading policy; null before any graded attempt */
+  percentage_score: number | null
+  /** An attempt is waiting for essay grading */
+  pending_review: boolean
+  total_questions: number
+}
+
+export type SectionStatus = 'not_started' | 'in_progress' | 'awaiting_grading' | 'complete'
+
+export interface SectionResult {
+  skill: IeltsSkill
+  status: SectionStatus
+  quiz_count: number
+  quizzes_done: number
+  /** Listening and Reading: correct answers on the 40-mark scale */
+  raw_score: number | null
+  band: number | null
+}
+
+export interface BandProfile {
+  sections: SectionResult[]
+  /** Set once all four sections have a band */
+  overall_band: number | null
+  complete: boolean
+}
@@ -0,0 +1,52 @@
+/**
+ * Notifications
+ * The in-app notification center: enrollments, badge awards, announcements,
+ * reminders and graded essays, delivered according to each learner's
+ * notification settings.
+ */
+
+export {
+  NOTIFICATION_TYPES,
+  REMINDER_TOPICS,
+  type NotificationType,
+  type ReminderTopic,
+  type AppNotification,
+  type NotificationInput,
+  type NotificationDelivery,
+  type NotificationInbox,
+  type AnnouncementAudience,
+  type ReminderEnrollment,
+  type ReminderQuiz
+} from './types'
+
+export {
+  getNotificationToggle,
+  isNotificationWanted,
+  validateAnnouncement
+} from './preferences'
+
+export {
+  NOTIFICATION_FIELDS,
+  toNotification,
+  sendNotifications,
+  notifyUsers,
+  notifyUser,
+  listAudience,
+  listNotifications,
+  countUnreadNotifications,
+  markNotificationsRead
+} from './service'
+
+export {
+  COURSE_IDLE_DAYS,
+  DEADLINE_NOTICE_HOURS,
+  buildCourseReminders,
+  buildDeadlineReminders,
+  generateReminders
+} from './reminders'
+
+export {
+  notifyEnrollment,
+  notifyBadgesAwarded,
+  notifyEssayGraded
+} from './producers'
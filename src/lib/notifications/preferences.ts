@@ -0,0 +1,66 @@
+/**
+ * Notification Preferences
+ * Which settings toggle (user_settings.notification_preferences) lets each kind
+ * of notification through. Pure, so the settings page can describe it too.
+ */
+
+import type { UserSettings } from '@/lib/user-settings'
+import type { NotificationInput, ReminderTopic, NotificationType } from './types'
+
+type NotificationToggle = keyof UserSettings['notifications']
+
+const REMINDER_TOGGLES: Record<ReminderTopic, NotificationToggle> = {
+  course: 'courseReminders',
+  quiz_deadline: 'quizDeadlines'
+}
+
+/**
+ * Enrollments and announcements are always delivered; reminders depend on
+ * their topic
+ */
+const TYPE_TOGGLES: Record<Exclude<NotificationType, 'reminder'>, NotificationToggle | null> = {
+  enrollment: null,
+  announcement: null,
+  achievement: 'achievements',
+  graded_essay: 'gradedWork'
+}
+
+export function getNotificationToggle(input: Pick<NotificationInput, 'type' | 'topic'>): NotificationToggle | null {
+  if (input.type === 'reminder') {
+    return REMINDER_TOGGLES[input.topic || 'course']
+  }
+  return TYPE_TOGGLES[input.type]
+}
+
+export function isNotificationWanted(
+  input: Pick<NotificationInput, 'type' | 'topic'>,
+  settings: UserSettings['notifications']
+): boolean {
+  const toggle = getNotificationToggle(input)
+  return toggle === null || settings[toggle] !== false
+}
+
+/**
+ * Validation for an admin announcement; returns the first problem found
+ */
+export function validateAnnouncement(body: any): string | null {
+  if (!body || typeof body !== 'object') return 'Announcement is required'
+  if (typeof body.title !== 'string' || !body.title.trim()) return 'Title is required'
+  if (body.title.length > 200) return 'Title must be 200 characters or fewer'
+  if (typeof body.message !== 'string' || !body.message.trim()) return 'Message is required'
+  if (body.message.length > 2000) return 'Message must be 2000 characters or fewer'
+  if (body.action_url != null && body.action_url !== '') {
+    if (typeof body.action_url !== 'string' || !body.action_url.startsWith('/') || body.action_url.startsWith('//')) {
+      return 'Link must be a path within the site, such as /courses'
+    }
+  }
+
+  const audience = body.audience
+  if (!audience || (audience.type !== 'all' && audience.type !== 'course')) {
+    return 'Audience must be all learners or one course'
+  }
+  if (audience.type === 'course' && (typeof audience.course_id !== 'string' || !audience.course_id)) {
+    return 'Choose the course to announce to'
+  }
+  return null
+}
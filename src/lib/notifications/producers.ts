@@ -0,0 +1,75 @@
+/**
+ * Notification Producers
+ * The learning events that notify a learner. Each is keyed to its event, so
+ * calling a producer again for the same enrollment, badge or attempt is a no-op.
+ */
+
+import type { AwardedBadge } from '@/lib/badges/types'
+import type { FinalizedAttempt } from '@/lib/grading/manual-grading'
+import { notifyUser, sendNotifications } from './service'
+
+/**
+ * Welcome a learner to a course they're enrolled in. Returns false when there
+ * is no such enrollment, so a client can't invent one.
+ */
+export async function notifyEnrollment(serviceClient: any, userId: string, courseId: string): Promise<boolean> {
+  const { data, error } = await serviceClient
+    .from('enrollments')
+    .select('course_id, courses (title)')
+    .eq('user_id', userId)
+    .eq('course_id', courseId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load enrollment: ${error.message}`)
+  }
+  if (!data) return false
+
+  const courseTitle = data.courses?.title || 'your new course'
+  return notifyUser(serviceClient, userId, {
+    type: 'enrollment',
+    title: `You're enrolled in ${courseTitle}`,
+    message: 'Your course is ready. Start with the first lesson whenever you like.',
+    action_url: `/courses/${courseId}/study`,
+    dedupe_key: `enrollment:${courseId}`,
+    metadata: { course_id: courseId }
+  })
+}
+
+export async function notifyBadgesAwarded(serviceClient: any, userId: string, badges: AwardedBadge[]): Promise<number> {
+  return sendNotifications(serviceClient, badges.map(badge => ({
+    user_id: userId,
+    notification: {
+      type: 'achievement',
+      title: `Badge earned: ${badge.name}`,
+      message: badge.description || `You earned the ${badge.name} badge${badge.points ? ` and ${badge.points} points` : ''}.`,
+      action_url: '/dashboard',
+      dedupe_key: `badge:${badge.id}`,
+      metadata: { badge_id: badge.id, rarity: badge.rarity, points: badge.points }
+    }
+  })))
+}
+
+/**
+ * Tell the learner their essays have been marked, once the attempt is fully graded
+ */
+export async function notifyEssayGraded(
+  serviceClient: any,
+  attempt: Pick<FinalizedAttempt, 'id' | 'quiz_id' | 'user_id' | 'percentage_score' | 'passed'>
+): Promise<boolean> {
+  const { data: quiz } = await serviceClient
+    .from('quizzes')
+    .select('title')
+    .eq('id', attempt.quiz_id)
+    .maybeSingle()
+
+  const quizTitle = quiz?.title || 'your quiz'
+  return notifyUser(serviceClient, attempt.user_id, {
+    type: 'graded_essay',
+    title: `${quizTitle} has been graded`,
+    message: `Your written answers have been marked. Final score: ${Math.round(attempt.percentage_score)}%${attempt.passed ? ' — passed' : ''}.`,
+    action_url: `/quizzes/${attempt.quiz_id}/results/${attempt.id}`,
+    dedupe_key: `graded:${attempt.id}`,
+    metadata: { quiz_id: attempt.quiz_id, attempt_id: attempt.id }
+  })
+}
@@ -0,0 +1,136 @@
+/**
+ * Notification Reminders
+ * Course and quiz deadline reminders are worked out when a learner loads their
+ * inbox rather than on a schedule. Dedupe keys make repeat loads harmless: a
+ * stalled course is mentioned at most once a week and a closing quiz once per window.
+ */
+
+import { normalizeAvailabilityWindow, parseWindowDate } from '@/lib/quiz-policies'
+import { sendNotifications } from './service'
+import type { NotificationInput, ReminderEnrollment, ReminderQuiz } from './types'
+
+/** A course untouched for this long gets a nudge */
+export const COURSE_IDLE_DAYS = 7
+
+/** A quiz closing within this many hours gets a deadline reminder */
+export const DEADLINE_NOTICE_HOURS = 48
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Monday (UTC) of the week containing the given date, as YYYY-MM-DD */
+function getWeekKey(now: Date): string {
+  const daysSinceMonday = (now.getUTCDay() + 6) % 7
+  return new Date(now.getTime() - daysSinceMonday * DAY_MS).toISOString().slice(0, 10)
+}
+
+export function buildCourseReminders(enrollments: ReminderEnrollment[], now: Date = new Date()): NotificationInput[] {
+  const weekKey = getWeekKey(now)
+
+  return enrollments
+    .filter(enrollment => {
+      if ((enrollment.progress || 0) >= 100) return false
+      const lastActive = new Date(enrollment.last_accessed_at || enrollment.enrolled_at).getTime()
+      return now.getTime() - lastActive >= COURSE_IDLE_DAYS * DAY_MS
+    })
+    .map((enrollment): NotificationInput => ({
+      type: 'reminder',
+      topic: 'course',
+      title: `Pick up ${enrollment.course_title}`,
+      message: `You're ${Math.round(enrollment.progress || 0)}% through ${enrollment.course_title}. A few minutes today keeps your progress going.`,
+      action_url: `/courses/${enrollment.course_id}/study`,
+      dedupe_key: `course-reminder:${enrollment.course_id}:${weekKey}`,
+      metadata: { course_id: enrollment.course_id }
+    }))
+}
+
+export function buildDeadlineReminders(
+  quizzes: ReminderQuiz[],
+  passedQuizIds: Set<string>,
+  now: Date = new Date()
+): NotificationInput[] {
+  return quizzes
+    .filter(quiz => {
+      if (passedQuizIds.has(quiz.quiz_id)) return false
+      const remaining = new Date(quiz.ends_at).getTime() - now.getTime()
+      return remaining > 0 && remaining <= DEADLINE_NOTICE_HOURS * 60 * 60 * 1000
+    })
+    .map((quiz): NotificationInput => {
+      const hours = Math.max(1, Math.round((new Date(quiz.ends_at).getTime() - now.getTime()) / (60 * 60 * 1000)))
+      return {
+        type: 'reminder',
+        topic: 'quiz_deadline',
+        title: `${quiz.title} closes soon`,
+        message: `${quiz.title} closes in ${hours} hour${hours !== 1 ? 's' : ''}. Make sure you've submitted an attempt.`,
+        action_url: `/quizzes/${quiz.quiz_id}/take`,
+        dedupe_key: `quiz-deadline:${quiz.quiz_id}:${quiz.ends_at}`,
+        metadata: { quiz_id: quiz.quiz_id, ends_at: quiz.ends_at }
+      }
+    })
+}
+
+/**
+ * Send the learner any course or quiz deadline reminders that are due.
+ * Returns how many were sent.
+ */
+export async function generateReminders(serviceClient: any, userId: string, now: Date = new Date()): Promise<number> {
+  const { data: enrollmentRows, error: enrollmentError } = await serviceClient
+    .from('enrollments')
+    .select('course_id, progress, enrolled_at, last_accessed_at, courses (title)')
+    .eq('user_id', userId)
+
+  if (enrollmentError) {
+    throw new Error(`Failed to load enrollments: ${enrollmentError.message}`)
+  }
+
+  const enrollments: ReminderEnrollment[] = (enrollmentRows || []).map((row: any) => ({
+    course_id: row.course_id,
+    course_title: row.courses?.title || 'your course',
+    progress: row.progress || 0,
+    enrolled_at: row.enrolled_at,
+    last_accessed_at: row.last_accessed_at
+  }))
+
+  const quizzes: ReminderQuiz[] = []
+  const passedQuizIds = new Set<string>()
+
+  if (enrollments.length > 0) {
+    const { data: quizRows, error: quizError } = await serviceClient
+      .from('quizzes')
+      .select('id, title, availability_window')
+      .in('course_id', enrollments.map(enrollment => enrollment.course_id))
+      .eq('is_published', true)
+      .not('availability_window->>end_date', 'is', null)
+
+    if (quizError) {
+      throw new Error(`Failed to load quizzes: ${quizError.message}`)
+    }
+
+    for (const row of quizRows || []) {
+      const window = normalizeAvailabilityWindow(row.availability_window)
+      const endsAt = parseWindowDate(window.end_date, window.timezone)
+      if (endsAt) quizzes.push({ quiz_id: row.id, title: row.title, ends_at: endsAt.toISOString() })
+    }
+
+    if (quizzes.length > 0) {
+      const { data: passedRows, error: passedError } = await serviceClient
+        .from('quiz_attempts')
+        .select('quiz_id')
+        .eq('user_id', userId)
+        .eq('passed', true)
+        .in('quiz_id', quizzes.map(quiz => quiz.quiz_id))
+
+      if (passedError) {
+        throw new Error(`Failed to load quiz attempts: ${passedError.message}`)
+      }
+      ;(passedRows || []).forEach((row: { quiz_id: string }) => passedQuizIds.add(row.quiz_id))
+    }
+  }
+
+  const reminders = [
+    ...buildCourseReminders(enrollments, now),
+    ...buildDeadlineReminders(quizzes, passedQuizIds, now)
+  ]
+  if (reminders.length === 0) return 0
+
+  return sendNotifications(serviceClient, reminders.map(notification => ({ user_id: userId, notification })))
+}
@@ -0,0 +1,168 @@
+/**
+ * Notification Service
+ * Delivers notifications to learners, dropping the ones their notification
+ * settings turn off, and reads and marks their inbox. Runs with the service client.
+ */
+
+import { logger } from '@/lib/logger'
+import { loadNotificationSettings } from '@/lib/user-settings'
+import { isNotificationWanted } from './preferences'
+import type { AnnouncementAudience, AppNotification, NotificationDelivery, NotificationInbox, NotificationInput } from './types'
+
+export const NOTIFICATION_FIELDS = 'id, user_id, type, title, message, action_url, is_read, metadata, created_at'
+
+/** Keeps .in() filters and bulk inserts to a sensible request size */
+const BATCH_SIZE = 500
+
+export function toNotification(row: any): AppNotification {
+  return {
+    ...row,
+    action_url: row.action_url || null,
+    is_read: row.is_read === true,
+    metadata: row.metadata && typeof row.metadata === 'object' ? row.metadata : {}
+  }
+}
+
+function toBatches<T>(items: T[]): T[][] {
+  const batches: T[][] = []
+  for (let i = 0; i < items.length; i += BATCH_SIZE) {
+    batches.push(items.slice(i, i + BATCH_SIZE))
+  }
+  return batches
+}
+
+/**
+ * Deliver each notification to its user if they want it.
+ * Returns how many were delivered; repeats of an earlier dedupe_key are not counted.
+ */
+export async function sendNotifications(serviceClient: any, deliveries: NotificationDelivery[]): Promise<number> {
+  let delivered = 0
+
+  for (const batch of toBatches(deliveries)) {
+    const settings = await loadNotificationSettings(serviceClient, Array.from(new Set(batch.map(d => d.user_id))))
+    const rows = batch
+      .filter(({ user_id, notification }) => isNotificationWanted(notification, settings.get(user_id)!))
+      .map(({ user_id, notification }) => ({
+        user_id,
+        type: notification.type,
+        title: notification.title,
+        message: notification.message,
+        action_url: notification.action_url || null,
+        dedupe_key: notification.dedupe_key || null,
+        metadata: { ...notification.metadata, ...(notification.topic ? { topic: notification.topic } : {}) }
+      }))
+    if (rows.length === 0) continue
+
+    // Rows whose dedupe_key was already used are skipped, and only the inserted ones come back
+    const { data, error } = await serviceClient
+      .from('notifications')
+      .upsert(rows, { onConflict: 'user_id,dedupe_key', ignoreDuplicates: true })
+      .select('id, type')
+
+    if (error) {
+      throw new Error(`Failed to send notifications: ${error.message}`)
+    }
+    delivered += (data || []).length
+  }
+
+  if (delivered > 0) {
+    logger.info('Notifications sent', { delivered, types: Array.from(new Set(deliveries.map(d => d.notification.type))) })
+  }
+  return delivered
+}
+
+export async function notifyUsers(serviceClient: any, userIds: string[], notification: NotificationInput): Promise<number> {
+  return sendNotifications(
+    serviceClient,
+    Array.from(new Set(userIds)).map(userId => ({ user_id: userId, notification }))
+  )
+}
+
+export async function notifyUser(serviceClient: any, userId: string, notification: NotificationInput): Promise<boolean> {
+  return (await notifyUsers(serviceClient, [userId], notification)) > 0
+}
+
+/**
+ * Everyone an announcement goes to: every learner, or the learners enrolled in a course
+ */
+export async function listAudience(serviceClient: any, audience: AnnouncementAudience): Promise<string[]> {
+  const { data, error } = audience.type === 'course'
+    ? await serviceClient.from('enrollments').select('user_id').eq('course_id', audience.course_id)
+    : await serviceClient.from('users').select('id').eq('role', 'student')
+
+  if (error) {
+    throw new Error(`Failed to load announcement audience: ${error.message}`)
+  }
+
+  return (data || []).map((row: { user_id?: string; id?: string }) => (row.user_id || row.id) as string)
+}
+
+export async function listNotifications(
+  serviceClient: any,
+  userId: string,
+  options: { limit?: number; unreadOnly?: boolean } = {}
+): Promise<NotificationInbox> {
+  let query = serviceClient
+    .from('notifications')
+    .select(NOTIFICATION_FIELDS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(options.limit || 20)
+
+  if (options.unreadOnly) {
+    query = query.eq('is_read', false)
+  }
+
+  const [listResult, unreadCount] = await Promise.all([query, countUnreadNotifications(serviceClient, userId)])
+
+  if (listResult.error) {
+    throw new Error(`Failed to load notifications: ${listResult.error.message}`)
+  }
+
+  return {
+    notifications: (listResult.data || []).map(toNotification),
+    unread_count: unreadCount
+  }
+}
+
+export async function countUnreadNotifications(serviceClient: any, userId: string): Promise<number> {
+  const { count, error } = await serviceClient
+    .from('notifications')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .eq('is_read', false)
+
+  if (error) {
+    throw new Error(`Failed to count unread notifications: ${error.message}`)
+  }
+  return count || 0
+}
+
+/**
+ * Mark some of a user's notifications read, or all of them when ids is 'all'.
+ * Returns how many changed.
+ */
+export async function markNotificationsRead(
+  serviceClient: any,
+  userId: string,
+  ids: string[] | 'all'
+): Promise<number> {
+  if (ids !== 'all' && ids.length === 0) return 0
+
+  let query = serviceClient
+    .from('notifications')
+    .update({ is_read: true })
+    .eq('user_id', userId)
+    .eq('is_read', false)
+
+  if (ids !== 'all') {
+    query = query.in('id', ids)
+  }
+
+  const { data, error } = await query.select('id')
+
+  if (error) {
+    throw new Error(`Failed to mark notifications read: ${error.message}`)
+  }
+  return (data || []).length
+}
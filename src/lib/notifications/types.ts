@@ -0,0 +1,69 @@
+/**
+ * Notification Types
+ */
+
+export const NOTIFICATION_TYPES = ['enrollment', 'achievement', 'announcement', 'reminder', 'graded_essay'] as const
+export type NotificationType = typeof NOTIFICATION_TYPES[number]
+
+/** What a reminder is about; each has its own settings toggle */
+export const REMINDER_TOPICS = ['course', 'quiz_deadline'] as const
+export type ReminderTopic = typeof REMINDER_TOPICS[number]
+
+export interface AppNotification {
+  id: string
+  user_id: string
+  /** Rows written before the notification center may still say 'assignment' */
+  type: NotificationType | 'assignment'
+  title: string
+  message: string
+  action_url: string | null
+  is_read: boolean
+  metadata: Record<string, unknown>
+  created_at: string
+}
+
+export interface NotificationInput {
+  type: NotificationType
+  title: string
+  message: string
+  action_url?: string | null
+  /** Required for reminders */
+  topic?: ReminderTopic
+  /**
+   * Identifies the event per user; a second notification with the same key is
+   * dropped, so producers can run more than once
+   */
+  dedupe_key?: string
+  metadata?: Record<string, unknown>
+}
+
+export interface NotificationDelivery {
+  user_id: string
+  notification: NotificationInput
+}
+
+export interface NotificationInbox {
+  notifications: AppNotification[]
+  unread_count: number
+}
+
+export type AnnouncementAudience =
+  | { type: 'all' }
+  | { type: 'course'; course_id: string }
+
+/** A course enrollment, as reminders see it */
+export interface ReminderEnrollment {
+  course_id: string
+  course_title: string
+  progress: number
+  enrolled_at: string
+  last_accessed_at: string | null
+}
+
+/** A quiz with a closing window in one of the learner's courses */
+export interface ReminderQuiz {
+  quiz_id: string
+  title: string
+  /** When the availability window closes */
+  ends_at: string
+}
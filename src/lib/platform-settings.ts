@@ -0,0 +1,321 @@
+/**
+ * Platform Settings
+ * The admin settings page, persisted in platform_settings with one row per
+ * section (email lives alongside under its own key, see lib/email/settings).
+ * Missing or unknown values fall back to the defaults, so older rows keep
+ * working as settings are added.
+ */
+
+import { isValidTimezone } from './date-utils'
+
+export interface PlatformSettings {
+  site: {
+    name: string
+    description: string
+    logo: string
+    favicon: string
+    timezone: string
+    language: string
+  }
+  /** Which platform events admins are told about */
+  notifications: {
+    new_user_registration: boolean
+    course_enrollment: boolean
+    quiz_completion: boolean
+    system_updates: boolean
+    security_alerts: boolean
+  }
+  security: {
+    require_email_verification: boolean
+    password_min_length: number
+    password_require_uppercase: boolean
+    password_require_lowercase: boolean
+    password_require_number: boolean
+    password_require_special: boolean
+    /** Hours */
+    session_timeout: number
+    two_factor_auth: boolean
+    /** Failed sign-ins before the cooldown starts */
+    login_attempts: number
+  }
+  database: {
+    backup_frequency: 'daily' | 'weekly' | 'monthly'
+    retention_days: number
+    auto_backup: boolean
+  }
+}
+
+export type PlatformSettingsSection = keyof PlatformSettings
+
+export type PlatformSettingsUpdate = {
+  [Section in PlatformSettingsSection]?: Partial<PlatformSettings[Section]>
+}
+
+export interface PasswordPolicy {
+  min_length: number
+  require_uppercase: boolean
+  require_lowercase: boolean
+  require_number: boolean
+  require_special: boolean
+}
+
+export interface PasswordRequirement {
+  id: 'length' | 'uppercase' | 'lowercase' | 'number' | 'special'
+  /** Checklist text */
+  label: string
+  /** Validation error when the requirement is not met */
+  message: string
+  test: (password: string) => boolean
+}
+
+export const DEFAULT_PLATFORM_SETTINGS: PlatformSettings = {
+  site: {
+    name: 'Acadex Learning Platform',
+    description: 'Modern platform for quiz practice and online course enrollment',
+    logo: '',
+    favicon: '',
+    timezone: 'UTC',
+    language: 'en'
+  },
+  notifications: {
+    new_user_registration: true,
+    course_enrollment: true,
+    quiz_completion: true,
+    system_updates: true,
+    security_alerts: true
+  },
+  security: {
+    require_email_verification: true,
+    password_min_length: 8,
+    password_require_uppercase: true,
+    password_require_lowercase: true,
+    password_require_number: true,
+    password_require_special: true,
+    session_timeout: 8,
+    two_factor_auth: false,
+    login_attempts: 5
+  },
+  database: {
+    backup_frequency: 'daily',
+    retention_days: 30,
+    auto_backup: true
+  }
+}
+
+export const PLATFORM_SETTINGS_SECTIONS = Object.keys(DEFAULT_PLATFORM_SETTINGS) as PlatformSettingsSection[]
+
+const SITE_LANGUAGES = ['en', 'es', 'fr', 'de']
+const BACKUP_FREQUENCIES = ['daily', 'weekly', 'monthly']
+
+// Supabase Auth refuses passwords shorter than 6 characters
+const NUMBER_RANGES: Record<string, [number, number]> = {
+  'security.password_min_length': [6, 50],
+  'security.session_timeout': [1, 168],
+  'security.login_attempts': [3, 10],
+  'database.retention_days': [7, 365]
+}
+
+const SPECIAL_CHARACTER = /[!@#$%^&*(),.?":{}|<>]/
+
+/**
+ * Validation for a (partial) settings update; returns the first problem found
+ */
+export function validatePlatformSettings(body: any): string | null {
+  if (!body || typeof body !== 'object') return 'Settings are required'
+
+  for (const section of Object.keys(body)) {
+    if (!(section in DEFAULT_PLATFORM_SETTINGS)) return `Unknown settings section: ${section}`
+    if (!body[section] || typeof body[section] !== 'object') return `${section} must be an object`
+
+    const defaults = DEFAULT_PLATFORM_SETTINGS[section as PlatformSettingsSection] as Record<string, unknown>
+    for (const [key, value] of Object.entries(body[section])) {
+      if (!(key in defaults)) return `Unknown setting: ${section}.${key}`
+      if (typeof defaults[key] === 'boolean' && typeof value !== 'boolean') {
+        return `${section}.${key} must be true or false`
+      }
+      if (typeof defaults[key] === 'string' && typeof value !== 'string') {
+        return `${section}.${key} must be text`
+      }
+
+      const range = NUMBER_RANGES[`${section}.${key}`]
+      if (range && (!Number.isInteger(value) || (value as number) < range[0] || (value as number) > range[1])) {
+        return `${section}.${key} must be a whole number between ${range[0]} and ${range[1]}`
+      }
+    }
+  }
+
+  const { site, database } = body
+  if (site?.name !== undefined && (!site.name.trim() || site.name.length > 100)) {
+    return 'Site name is required and must be under 100 characters'
+  }
+  if (site?.description !== undefined && site.description.length > 500) {
+    return 'Site description must be under 500 characters'
+  }
+  for (const key of ['logo', 'favicon'] as const) {
+    if (site?.[key] && (site[key].length > 2048 || !/^(https?:\/\/|\/)/.test(site[key]))) {
+      return `site.${key} must be a URL`
+    }
+  }
+  if (site?.timezone !== undefined && !isValidTimezone(site.timezone)) {
+    return 'Timezone must be an IANA timezone such as Europe/London'
+  }
+  if (site?.language !== undefined && !SITE_LANGUAGES.includes(site.language)) {
+    return `Language must be one of: ${SITE_LANGUAGES.join(', ')}`
+  }
+  if (database?.backup_frequency !== undefined && !BACKUP_FREQUENCIES.includes(database.backup_frequency)) {
+    return `Backup frequency must be one of: ${BACKUP_FREQUENCIES.join(', ')}`
+  }
+
+  return null
+}
+
+function mergeSection<T extends object>(defaults: T, stored: any): T {
+  const merged = { ...defaults }
+  if (!stored || typeof stored !== 'object') return merged
+
+  for (const key of Object.keys(defaults) as Array<keyof T>) {
+    if (stored[key] !== undefined && typeof stored[key] === typeof defaults[key]) {
+      merged[key] = stored[key]
+    }
+  }
+  return merged
+}
+
+/**
+ * Settings from platform_settings rows; sections never saved get the defaults
+ */
+export function toPlatformSettings(rows: Array<{ key: string; value: any }>): PlatformSettings {
+  const stored = new Map(rows.map(row => [row.key, row.value]))
+
+  return {
+    site: mergeSection(DEFAULT_PLATFORM_SETTINGS.site, stored.get('site')),
+    notifications: mergeSection(DEFAULT_PLATFORM_SETTINGS.notifications, stored.get('notifications')),
+    security: mergeSection(DEFAULT_PLATFORM_SETTINGS.security, stored.get('security')),
+    database: mergeSection(DEFAULT_PLATFORM_SETTINGS.database, stored.get('database'))
+  }
+}
+
+export function getPasswordPolicy(security: PlatformSettings['security'] = DEFAULT_PLATFORM_SETTINGS.security): PasswordPolicy {
+  return {
+    min_length: security.password_min_length,
+    require_uppercase: security.password_require_uppercase,
+    require_lowercase: security.password_require_lowercase,
+    require_number: security.password_require_number,
+    require_special: security.password_require_special
+  }
+}
+
+/**
+ * What a password must contain under the policy, in the order the checklist shows them
+ */
+export function getPasswordRequirements(policy: PasswordPolicy): PasswordRequirement[] {
+  const requirements: PasswordRequirement[] = [{
+    id: 'length',
+    label: `At least ${policy.min_length} characters`,
+    message: `Password must be at least ${policy.min_length} characters long`,
+    test: password => password.length >= policy.min_length
+  }]
+
+  if (policy.require_uppercase) {
+    requirements.push({
+      id: 'uppercase',
+      label: 'One uppercase letter (A-Z)',
+      message: 'Password must contain at least one uppercase letter',
+      test: password => /[A-Z]/.test(password)
+    })
+  }
+  if (policy.require_lowercase) {
+    requirements.push({
+      id: 'lowercase',
+      label: 'One lowercase letter (a-z)',
+      message: 'Password must contain at least one lowercase letter',
+      test: password => /[a-z]/.test(password)
+    })
+  }
+  if (policy.require_number) {
+    requirements.push({
+      id: 'number',
+      label: 'One number (0-9)',
+      message: 'Password must contain at least one number',
+      test: password => /\d/.test(password)
+    })
+  }
+  if (policy.require_special) {
+    requirements.push({
+      id: 'special',
+      label: 'One special character (!@#$%^&*)',
+      message: 'Password must contain at least one special character',
+      test: password => SPECIAL_CHARACTER.test(password)
+    })
+  }
+
+  return requirements
+}
+
+// The settings most recently read on this server, so synchronous callers such
+// as AUTH_CONFIG see the saved security policy
+const CACHE_TTL_MS = 60 * 1000
+let cachedSettings: { settings: PlatformSettings; loadedAt: number } | null = null
+
+export function getCurrentPlatformSettings(): PlatformSettings {
+  return cachedSettings?.settings || DEFAULT_PLATFORM_SETTINGS
+}
+
+export async function loadPlatformSettings(serviceClient: any): Promise<PlatformSettings> {
+  const { data, error } = await serviceClient
+    .from('platform_settings')
+    .select('key, value')
+    .in('key', PLATFORM_SETTINGS_SECTIONS)
+
+  if (error) {
+    throw new Error(`Failed to load platform settings: ${error.message}`)
+  }
+
+  const settings = toPlatformSettings(data || [])
+  cachedSettings = { settings, loadedAt: Date.now() }
+  return settings
+}
+
+/**
+ * Settings for hot paths such as sign-in and the public password policy;
+ * reads the database at most once a minute
+ */
+export async function getPlatformSettings(serviceClient: any): Promise<PlatformSettings> {
+  if (cachedSettings && Date.now() - cachedSettings.loadedAt < CACHE_TTL_MS) {
+    return cachedSettings.settings
+  }
+  return loadPlatformSettings(serviceClient)
+}
+
+/**
+ * Apply a validated update; only the sections in the update are written
+ */
+export async function savePlatformSettings(
+  serviceClient: any,
+  update: PlatformSettingsUpdate,
+  updatedBy: string
+): Promise<PlatformSettings> {
+  const current = await loadPlatformSettings(serviceClient)
+  const settings: PlatformSettings = { ...current }
+  const updatedAt = new Date().toISOString()
+
+  const rows = (Object.keys(update) as PlatformSettingsSection[]).map(section => {
+    const value = { ...current[section], ...update[section] } as any
+    if (section === 'site') value.name = value.name.trim()
+    ;(settings as any)[section] = value
+    return { key: section, value, updated_by: updatedBy, updated_at: updatedAt }
+  })
+
+  if (rows.length > 0) {
+    const { error } = await serviceClient
+      .from('platform_settings')
+      .upsert(rows, { onConflict: 'key' })
+
+    if (error) {
+      throw new Error(`Failed to save platform settings: ${error.message}`)
+    }
+  }
+
+  cachedSettings = { settings, loadedAt: Date.now() }
+  return settings
+}
@@ -0,0 +1,78 @@
+/**
+ * Question Bank Storage
+ * Loads draw candidates and drawn items from question_templates.
+ * Runs with the service client: templates hold correct answers.
+ */
+
+import { logger } from '@/lib/logger'
+import { createDrawSeed, drawFromBank, matchesDrawRule, toDrawnQuestion } from './draw'
+import type { DrawRule, DrawnQuestion, QuestionDraw, QuestionTemplate, TemplateCandidate } from './types'
+
+const CANDIDATE_FIELDS = 'id, category, difficulty, question_type, tags'
+
+async function loadDrawCandidates(serviceClient: any): Promise<TemplateCandidate[]> {
+  const { data, error } = await serviceClient
+    .from('question_templates')
+    .select(CANDIDATE_FIELDS)
+    .neq('question_type', 'essay')
+
+  if (error) {
+    throw new Error(`Failed to load question bank: ${error.message}`)
+  }
+
+  return data || []
+}
+
+/**
+ * How many bank items each rule could draw from, ignoring overlap between rules
+ */
+export async function countRuleMatches(serviceClient: any, rules: DrawRule[]): Promise<number[]> {
+  const candidates = await loadDrawCandidates(serviceClient)
+  return rules.map(rule => candidates.filter(candidate => matchesDrawRule(candidate, rule)).length)
+}
+
+/**
+ * Make a fresh seeded draw for a new attempt
+ */
+export async function drawQuestionsForAttempt(
+  serviceClient: any,
+  rules: DrawRule[],
+  seed: number = createDrawSeed()
+): Promise<QuestionDraw> {
+  const candidates = await loadDrawCandidates(serviceClient)
+  const { template_ids, shortfalls } = drawFromBank(rules, candidates, seed)
+
+  if (shortfalls.length > 0) {
+    logger.warn('Question bank has fewer items than the draw rules ask for', { shortfalls })
+  }
+
+  return { seed, rules, template_ids }
+}
+
+/**
+ * The drawn items in draw order, numbered after the quiz's fixed questions.
+ * Items deleted from the bank since the draw are skipped.
+ */
+export async function loadDrawnQuestions(
+  serviceClient: any,
+  draw: QuestionDraw,
+  firstOrderIndex = 0
+): Promise<DrawnQuestion[]> {
+  if (draw.template_ids.length === 0) return []
+
+  const { data, error } = await serviceClient
+    .from('question_templates')
+    .select('*')
+    .in('id', draw.template_ids)
+
+  if (error) {
+    throw new Error(`Failed to load drawn questions: ${error.message}`)
+  }
+
+  const templatesById = new Map<string, QuestionTemplate>((data || []).map((row: QuestionTemplate) => [row.id, row]))
+
+  return draw.template_ids
+    .map(id => templatesById.get(id))
+    .filter((template): template is QuestionTemplate => template !== undefined)
+    .map((template, index) => toDrawnQuestion(template, firstOrderIndex + index))
+}
@@ -0,0 +1,176 @@
+/**
+ * Seeded Question Draws
+ * Picks bank items for an attempt from a quiz's draw rules. The draw only depends on
+ * the rules, the seed and the set of candidate ids, so it can be replayed exactly.
+ */
+
+import {
+  TEMPLATE_DIFFICULTIES,
+  type DrawRule,
+  type DrawnQuestion,
+  type QuestionTemplate,
+  type TemplateCandidate,
+  type TemplateDifficulty
+} from './types'
+
+export const MAX_DRAW_RULES = 20
+export const MAX_ITEMS_PER_RULE = 100
+
+// Essays wait for manual grading, which reads the question from quiz_questions
+export const NON_DRAWABLE_TYPES = new Set(['essay'])
+
+const DIFFICULTY_LEVELS: Record<TemplateDifficulty, DrawnQuestion['difficulty_level']> = {
+  beginner: 'easy',
+  intermediate: 'medium',
+  advanced: 'hard'
+}
+
+export interface DrawShortfall {
+  rule_index: number
+  requested: number
+  drawn: number
+}
+
+export interface DrawResult {
+  template_ids: string[]
+  shortfalls: DrawShortfall[]
+}
+
+/**
+ * Deterministic PRNG (mulberry32) returning floats in [0, 1)
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+export function createDrawSeed(): number {
+  return globalThis.crypto.getRandomValues(new Uint32Array(1))[0]
+}
+
+/**
+ * Fisher-Yates shuffle driven by the given random source; returns a new array
+ */
+export function seededShuffle<T>(items: T[], random: () => number): T[] {
+  const shuffled = [...items]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+  return shuffled
+}
+
+function normalizeTag(tag: unknown): string {
+  return String(tag).trim().toLowerCase()
+}
+
+export function matchesDrawRule(candidate: TemplateCandidate, rule: DrawRule): boolean {
+  if (NON_DRAWABLE_TYPES.has(candidate.question_type)) return false
+  if (rule.category && candidate.category.toLowerCase() !== rule.category.toLowerCase()) return false
+  if (rule.difficulty && candidate.difficulty !== rule.difficulty) return false
+  if (rule.question_type && candidate.question_type !== rule.question_type) return false
+
+  if (rule.tags && rule.tags.length > 0) {
+    const tags = new Set((candidate.tags || []).map(normalizeTag))
+    return rule.tags.every(tag => tags.has(normalizeTag(tag)))
+  }
+
+  return true
+}
+
+/**
+ * Draw items rule by rule. An item drawn for one rule is not drawn again for a later
+ * one; rules that match fewer items than requested are reported as shortfalls.
+ */
+export function drawFromBank(rules: DrawRule[], candidates: TemplateCandidate[], seed: number): DrawResult {
+  const random = createSeededRandom(seed)
+  // Sorting by id makes the draw independent of the order the database returned rows in
+  const pool = [...candidates].sort((a, b) => a.id.localeCompare(b.id))
+  const used = new Set<string>()
+  const templateIds: string[] = []
+  const shortfalls: DrawShortfall[] = []
+
+  rules.forEach((rule, ruleIndex) => {
+    const matches = pool.filter(candidate => !used.has(candidate.id) && matchesDrawRule(candidate, rule))
+    const drawn = seededShuffle(matches, random).slice(0, rule.count)
+
+    drawn.forEach(candidate => {
+      used.add(candidate.id)
+      templateIds.push(candidate.id)
+    })
+
+    if (drawn.length < rule.count) {
+      shortfalls.push({ rule_index: ruleIndex, requested: rule.count, drawn: drawn.length })
+    }
+  })
+
+  return { template_ids: templateIds, shortfalls }
+}
+
+export function normalizeDrawRules(value: any): DrawRule[] {
+  if (!Array.isArray(value)) return []
+
+  return value
+    .filter(rule => rule && typeof rule === 'object' && Number.isInteger(rule.count) && rule.count > 0)
+    .map(rule => ({
+      count: Math.min(rule.count, MAX_ITEMS_PER_RULE),
+      category: typeof rule.category === 'string' && rule.category.trim() ? rule.category.trim() : null,
+      difficulty: TEMPLATE_DIFFICULTIES.includes(rule.difficulty) ? rule.difficulty : null,
+      question_type: typeof rule.question_type === 'string' && rule.question_type ? rule.question_type : null,
+      tags: Array.isArray(rule.tags)
+        ? rule.tags.map((tag: unknown) => String(tag).trim()).filter(Boolean)
+        : []
+    }))
+}
+
+/**
+ * Validation for draw rules sent by the quiz editor; returns the first problem found
+ */
+export function validateDrawRules(value: unknown): string | null {
+  if (value === undefined || value === null) return null
+  if (!Array.isArray(value)) return 'Draw rules must be a list'
+  if (value.length > MAX_DRAW_RULES) return `A quiz can have at most ${MAX_DRAW_RULES} draw rules`
+
+  for (const rule of value as any[]) {
+    if (!rule || typeof rule !== 'object') return 'Each draw rule must be an object'
+    if (!Number.isInteger(rule.count) || rule.count < 1 || rule.count > MAX_ITEMS_PER_RULE) {
+      return `Each draw rule must draw between 1 and ${MAX_ITEMS_PER_RULE} items`
+    }
+    if (rule.difficulty && !TEMPLATE_DIFFICULTIES.includes(rule.difficulty)) {
+      return 'Unknown difficulty in draw rule'
+    }
+    if (rule.question_type && NON_DRAWABLE_TYPES.has(rule.question_type)) {
+      return 'Essay questions cannot be drawn from the bank; add them to the quiz directly'
+    }
+    if (rule.tags !== undefined && !Array.isArray(rule.tags)) {
+      return 'Draw rule tags must be a list'
+    }
+  }
+
+  return null
+}
+
+/**
+ * A bank item in quiz_questions shape, ready for grading and delivery
+ */
+export function toDrawnQuestion(template: QuestionTemplate, orderIndex: number): DrawnQuestion {
+  const data = template.question_data || ({} as QuestionTemplate['question_data'])
+
+  return {
+    ...data,
+    id: template.id,
+    template_id: template.id,
+    question: data.question ?? template.title,
+    question_type: template.question_type,
+    difficulty_level: DIFFICULTY_LEVELS[template.difficulty] || 'medium',
+    order_index: orderIndex,
+    correct_answer: data.correct_answer ?? 0,
+    points: data.points ?? 1
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Question bank
+ * Reusable items in question_templates and seeded draw-per-attempt quizzes.
+ */
+
+export {
+  TEMPLATE_DIFFICULTIES,
+  TEMPLATE_QUESTION_TYPES,
+  type TemplateDifficulty,
+  type TemplateQuestionData,
+  type QuestionTemplate,
+  type DrawRule,
+  type QuestionDraw,
+  type DrawnQuestion,
+  type AttemptQuestionDraw,
+  type TemplateCandidate
+} from './types'
+
+export {
+  createSeededRandom,
+  createDrawSeed,
+  seededShuffle,
+  matchesDrawRule,
+  drawFromBank,
+  normalizeDrawRules,
+  validateDrawRules,
+  toDrawnQuestion,
+  MAX_DRAW_RULES,
+  MAX_ITEMS_PER_RULE,
+  NON_DRAWABLE_TYPES,
+  type DrawResult,
+  type DrawShortfall
+} from './draw'
+
+export {
+  countRuleMatches,
+  drawQuestionsForAttempt,
+  loadDrawnQuestions
+} from './bank'
+
+export {
+  normalizeTags,
+  validateTemplateInput,
+  templateFromQuizQuestion,
+  MAX_TEMPLATE_TAGS
+} from './templates'
@@ -0,0 +1,102 @@
+/**
+ * Question Template Editing
+ * Validation for bank items and conversion from existing quiz questions
+ */
+
+import {
+  TEMPLATE_DIFFICULTIES,
+  TEMPLATE_QUESTION_TYPES,
+  type TemplateDifficulty,
+  type TemplateQuestionData
+} from './types'
+
+export const MAX_TEMPLATE_TAGS = 20
+
+const QUESTION_DIFFICULTIES: Record<string, TemplateDifficulty> = {
+  easy: 'beginner',
+  medium: 'intermediate',
+  hard: 'advanced'
+}
+
+// quiz_questions fields copied into question_data
+const QUESTION_DATA_FIELDS = [
+  'question',
+  'options',
+  'correct_answer',
+  'correct_answer_text',
+  'correct_answer_json',
+  'explanation',
+  'points',
+  'weight',
+  'partial_credit',
+  'question_metadata',
+  'image_url',
+  'audio_url',
+  'video_url',
+  'time_limit_seconds'
+] as const
+
+/**
+ * Trimmed, lower-cased, de-duplicated tags
+ */
+export function normalizeTags(tags: unknown): string[] {
+  if (!Array.isArray(tags)) return []
+  const normalized = tags
+    .map(tag => String(tag).trim().toLowerCase())
+    .filter(Boolean)
+  return Array.from(new Set(normalized)).slice(0, MAX_TEMPLATE_TAGS)
+}
+
+/**
+ * Validation for template fields sent by the bank editor; returns the first problem found.
+ * With partial=true only the fields present are checked (updates).
+ */
+export function validateTemplateInput(body: any, partial = false): string | null {
+  if (!body || typeof body !== 'object') return 'Template data is required'
+
+  const has = (field: string) => body[field] !== undefined
+
+  if ((!partial || has('title')) && (typeof body.title !== 'string' || !body.title.trim())) {
+    return 'Title is required'
+  }
+  if (has('category') && (typeof body.category !== 'string' || !body.category.trim())) {
+    return 'Category cannot be empty'
+  }
+  if (has('difficulty') && !TEMPLATE_DIFFICULTIES.includes(body.difficulty)) {
+    return 'Difficulty must be beginner, intermediate or advanced'
+  }
+  if ((!partial || has('question_type')) && !TEMPLATE_QUESTION_TYPES.includes(body.question_type)) {
+    return 'Unsupported question type'
+  }
+  if (!partial || has('question_data')) {
+    const data = body.question_data
+    if (!data || typeof data !== 'object' || typeof data.question !== 'string' || !data.question.trim()) {
+      return 'Question text is required'
+    }
+  }
+  if (has('tags') && !Array.isArray(body.tags)) {
+    return 'Tags must be a list'
+  }
+
+  return null
+}
+
+/**
+ * Bank item fields for a copy of a quiz_questions row
+ */
+export function templateFromQuizQuestion(row: Record<string, any>, category: string) {
+  const questionData = Object.fromEntries(
+    QUESTION_DATA_FIELDS
+      .filter(field => row[field] !== undefined && row[field] !== null)
+      .map(field => [field, row[field]])
+  ) as unknown as TemplateQuestionData
+
+  return {
+    title: String(row.question || 'Untitled question').slice(0, 120),
+    category: category || 'general',
+    difficulty: QUESTION_DIFFICULTIES[row.difficulty_level] || 'intermediate',
+    question_type: row.question_type === 'single_choice' ? 'multiple_choice' : row.question_type,
+    question_data: questionData,
+    tags: normalizeTags(row.tags)
+  }
+}
@@ -0,0 +1,91 @@
+/**
+ * Question Bank Types
+ * Reusable items stored in question_templates and the rules quizzes use to draw them
+ */
+
+import type { QuestionType } from '@/lib/supabase'
+
+export const TEMPLATE_DIFFICULTIES = ['beginner', 'intermediate', 'advanced'] as const
+export type TemplateDifficulty = typeof TEMPLATE_DIFFICULTIES[number]
+
+export const TEMPLATE_QUESTION_TYPES = ['multiple_choice', 'true_false', 'fill_blank', 'essay', 'matching', 'ordering'] as const
+
+/**
+ * Question content kept in question_templates.question_data, in quiz_questions shape
+ */
+export interface TemplateQuestionData {
+  question: string
+  options: any
+  correct_answer?: number | null
+  correct_answer_text?: string | null
+  correct_answer_json?: any
+  explanation?: string | null
+  points?: number
+  weight?: number
+  partial_credit?: boolean
+  question_metadata?: Record<string, any>
+  image_url?: string | null
+  audio_url?: string | null
+  video_url?: string | null
+  time_limit_seconds?: number | null
+}
+
+export interface QuestionTemplate {
+  id: string
+  title: string
+  description: string | null
+  category: string
+  difficulty: TemplateDifficulty
+  question_type: QuestionType
+  question_data: TemplateQuestionData
+  tags: string[]
+  usage_count: number
+  created_by: string | null
+  created_at: string
+  updated_at: string
+}
+
+/**
+ * One line of a draw-per-attempt quiz, e.g. "5 advanced grammar items".
+ * Empty filters match every bank item.
+ */
+export interface DrawRule {
+  count: number
+  category?: string | null
+  difficulty?: TemplateDifficulty | null
+  question_type?: string | null
+  /** Items must carry every listed tag */
+  tags?: string[]
+}
+
+/**
+ * The draw made for one attempt. Replaying the rules with the same seed over the
+ * same bank gives the same items.
+ */
+export interface QuestionDraw {
+  seed: number
+  rules: DrawRule[]
+  template_ids: string[]
+}
+
+/**
+ * A drawn item in quiz_questions shape; its id is the template id
+ */
+export interface DrawnQuestion extends TemplateQuestionData {
+  id: string
+  template_id: string
+  question_type: QuestionType
+  difficulty_level: 'easy' | 'medium' | 'hard'
+  order_index: number
+  correct_answer: number
+}
+
+/**
+ * Stored on quiz_attempts.question_draw: the draw plus the items as they were graded,
+ * so later edits to the bank don't change the attempt's review
+ */
+export interface AttemptQuestionDraw extends QuestionDraw {
+  questions: DrawnQuestion[]
+}
+
+export type TemplateCandidate = Pick<QuestionTemplate, 'id' | 'category' | 'difficulty' | 'question_type' | 'tags'>
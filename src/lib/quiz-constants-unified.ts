@@ -164,7 +164,8 @@ export const QUESTION_TYPES = [
   { value: 'short_answer', label: 'Short Answer' },
   { value: 'essay', label: 'Essay' },
   { value: 'matching', label: 'Matching' },
-  { value: 'ordering', label: 'Ordering' }
+  { value: 'ordering', label: 'Ordering' },
+  { value: 'speaking', label: 'Speaking' }
 ] as const
 
 // Question Count Options
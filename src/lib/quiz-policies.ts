@@ -0,0 +1,346 @@
+/**
+ * Quiz Policies
+ * Retake, availability and grading rules stored as jsonb on quizzes. Access is
+ * checked when an attempt starts and again on submit; the grading policy decides
+ * which of a student's attempts is the official score for the quiz.
+ */
+
+import { isValidTimezone } from './date-utils'
+
+export interface RetakePolicy {
+  allowed: boolean
+  /** 0 means no limit beyond quizzes.max_attempts */
+  max_attempts: number
+  /** Hours a student waits after finishing an attempt before starting the next */
+  cooldown_hours: number
+}
+
+export interface AvailabilityWindow {
+  /** ISO datetime; without an offset it is read in the window's timezone */
+  start_date: string | null
+  end_date: string | null
+  timezone: string
+}
+
+export const GRADING_METHODS = ['highest', 'latest', 'average'] as const
+export type GradingMethod = typeof GRADING_METHODS[number]
+
+export interface GradingPolicy {
+  method: GradingMethod
+  partial_credit: boolean
+  show_correct_answers: boolean
+}
+
+export const DEFAULT_RETAKE_POLICY: RetakePolicy = {
+  allowed: true,
+  max_attempts: 0,
+  cooldown_hours: 0
+}
+
+export const DEFAULT_AVAILABILITY_WINDOW: AvailabilityWindow = {
+  start_date: null,
+  end_date: null,
+  timezone: 'UTC'
+}
+
+export const DEFAULT_GRADING_POLICY: GradingPolicy = {
+  method: 'highest',
+  partial_credit: false,
+  show_correct_answers: true
+}
+
+export type QuizAccessErrorCode =
+  | 'QUIZ_NOT_AVAILABLE_YET'
+  | 'QUIZ_CLOSED'
+  | 'RETAKES_NOT_ALLOWED'
+  | 'MAX_ATTEMPTS_REACHED'
+  | 'RETAKE_COOLDOWN'
+
+export type QuizAccessResult =
+  | { allowed: true }
+  | {
+      allowed: false
+      code: QuizAccessErrorCode
+      error: string
+      /** When the student may try again, if that time is known */
+      retry_at?: string
+    }
+
+export interface PolicyQuiz {
+  max_attempts?: number | null
+  retake_policy?: Partial<RetakePolicy> | null
+  availability_window?: Partial<AvailabilityWindow> | null
+}
+
+export interface PolicyAttempt {
+  id: string
+  percentage_score: number | null
+  completed_at: string | null
+  created_at?: string | null
+  grading_status?: string | null
+}
+
+export interface OfficialScore {
+  attempt_id: string | null
+  percentage_score: number
+  passed: boolean
+  method: GradingMethod
+  /** Attempts the score was computed from; attempts awaiting review are left out */
+  attempts_counted: number
+}
+
+function toNonNegativeNumber(value: unknown, fallback: number): number {
+  const number = Number(value)
+  return Number.isFinite(number) && number >= 0 ? number : fallback
+}
+
+export function normalizeRetakePolicy(value: any): RetakePolicy {
+  return {
+    allowed: value?.allowed !== false,
+    max_attempts: Math.floor(toNonNegativeNumber(value?.max_attempts, 0)),
+    cooldown_hours: toNonNegativeNumber(value?.cooldown_hours, 0)
+  }
+}
+
+export function normalizeAvailabilityWindow(value: any): AvailabilityWindow {
+  return {
+    start_date: typeof value?.start_date === 'string' && value.start_date ? value.start_date : null,
+    end_date: typeof value?.end_date === 'string' && value.end_date ? value.end_date : null,
+    timezone: isValidTimezone(value?.timezone) ? value.timezone : 'UTC'
+  }
+}
+
+export function normalizeGradingPolicy(value: any): GradingPolicy {
+  return {
+    method: GRADING_METHODS.includes(value?.method) ? value.method : DEFAULT_GRADING_POLICY.method,
+    partial_credit: value?.partial_credit === true,
+    show_correct_answers: value?.show_correct_answers !== false
+  }
+}
+
+// Offset of the timezone from UTC at the given instant, in milliseconds
+function getTimezoneOffsetMs(instant: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(instant)
+
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value)
+  const wallClock = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'))
+
+  return wallClock - Math.floor(instant.getTime() / 1000) * 1000
+}
+
+const NAIVE_DATETIME = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/
+
+/**
+ * Parse a window boundary. Datetimes with an offset are absolute; naive ones
+ * (as produced by datetime-local inputs) are wall-clock times in the timezone.
+ */
+export function parseWindowDate(value: string | null, timezone: string): Date | null {
+  if (!value) return null
+
+  const match = NAIVE_DATETIME.exec(value.trim())
+  if (!match) {
+    const date = new Date(value)
+    return Number.isNaN(date.getTime()) ? null : date
+  }
+
+  const [, year, month, day, hour = '0', minute = '0', second = '0'] = match
+  const wallClock = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second))
+  const zone = isValidTimezone(timezone) ? timezone : 'UTC'
+
+  // Re-check the offset at the resulting instant so DST transitions land correctly
+  let utc = wallClock - getTimezoneOffsetMs(new Date(wallClock), zone)
+  const offsetAtResult = getTimezoneOffsetMs(new Date(utc), zone)
+  utc = wallClock - offsetAtResult
+
+  return new Date(utc)
+}
+
+/**
+ * Validation for policy fields sent by the quiz editor; returns the first problem found
+ */
+export function validateQuizPolicies(body: any): string | null {
+  const { retake_policy, availability_window, grading_policy } = body
+
+  if (retake_policy !== undefined && retake_policy !== null) {
+    if (retake_policy.max_attempts !== undefined &&
+        (!Number.isInteger(retake_policy.max_attempts) || retake_policy.max_attempts < 0)) {
+      return 'Retake max attempts must be a whole number (0 for unlimited)'
+    }
+    if (retake_policy.cooldown_hours !== undefined &&
+        (typeof retake_policy.cooldown_hours !== 'number' || retake_policy.cooldown_hours < 0)) {
+      return 'Retake cooldown must be zero or more hours'
+    }
+  }
+
+  if (availability_window !== undefined && availability_window !== null) {
+    const timezone = availability_window.timezone ?? 'UTC'
+    if (!isValidTimezone(timezone)) {
+      return 'Unknown availability timezone'
+    }
+    const startsAt = parseWindowDate(availability_window.start_date || null, timezone)
+    const endsAt = parseWindowDate(availability_window.end_date || null, timezone)
+    if ((availability_window.start_date && !startsAt) || (availability_window.end_date && !endsAt)) {
+      return 'Availability dates must be valid dates'
+    }
+    if (startsAt && endsAt && endsAt <= startsAt) {
+      return 'Availability end must be after the start'
+    }
+  }
+
+  if (grading_policy?.method !== undefined && !GRADING_METHODS.includes(grading_policy.method)) {
+    return 'Grading method must be highest, latest or average'
+  }
+
+  return null
+}
+
+/**
+ * Stricter of quizzes.max_attempts and retake_policy.max_attempts; 0 means unlimited
+ */
+export function getEffectiveMaxAttempts(quiz: PolicyQuiz): number {
+  const limits = [
+    Math.floor(toNonNegativeNumber(quiz.max_attempts, 0)),
+    normalizeRetakePolicy(quiz.retake_policy).max_attempts
+  ].filter(limit => limit > 0)
+
+  return limits.length > 0 ? Math.min(...limits) : 0
+}
+
+/**
+ * Whether the student may start an attempt at the given time, given their previous attempts
+ */
+export function checkQuizAccess(
+  quiz: PolicyQuiz,
+  previousAttempts: Array<Pick<PolicyAttempt, 'completed_at' | 'created_at'>>,
+  at: Date = new Date()
+): QuizAccessResult {
+  const window = normalizeAvailabilityWindow(quiz.availability_window)
+  const startsAt = parseWindowDate(window.start_date, window.timezone)
+  const endsAt = parseWindowDate(window.end_date, window.timezone)
+
+  if (startsAt && at < startsAt) {
+    return {
+      allowed: false,
+      code: 'QUIZ_NOT_AVAILABLE_YET',
+      error: 'This quiz is not open yet',
+      retry_at: startsAt.toISOString()
+    }
+  }
+
+  if (endsAt && at >= endsAt) {
+    return { allowed: false, code: 'QUIZ_CLOSED', error: 'This quiz is closed' }
+  }
+
+  if (previousAttempts.length === 0) {
+    return { allowed: true }
+  }
+
+  const retakePolicy = normalizeRetakePolicy(quiz.retake_policy)
+
+  if (!retakePolicy.allowed) {
+    return { allowed: false, code: 'RETAKES_NOT_ALLOWED', error: 'Retakes are not allowed for this quiz' }
+  }
+
+  const maxAttempts = getEffectiveMaxAttempts(quiz)
+  if (maxAttempts > 0 && previousAttempts.length >= maxAttempts) {
+    return { allowed: false, code: 'MAX_ATTEMPTS_REACHED', error: 'Maximum attempts reached' }
+  }
+
+  if (retakePolicy.cooldown_hours > 0) {
+    const lastFinished = Math.max(
+      ...previousAttempts.map(attempt => new Date(attempt.completed_at || attempt.created_at || 0).getTime())
+    )
+    const retryAt = new Date(lastFinished + retakePolicy.cooldown_hours * 3600 * 1000)
+
+    if (at < retryAt) {
+      return {
+        allowed: false,
+        code: 'RETAKE_COOLDOWN',
+        error: 'You need to wait before retaking this quiz',
+        retry_at: retryAt.toISOString()
+      }
+    }
+  }
+
+  return { allowed: true }
+}
+
+function attemptTime(attempt: PolicyAttempt): number {
+  return new Date(attempt.completed_at || attempt.created_at || 0).getTime()
+}
+
+/**
+ * The student's official score for a quiz under its grading policy.
+ * Attempts still awaiting manual review don't count until they are graded.
+ */
+export function computeOfficialScore(
+  attempts: PolicyAttempt[],
+  method: GradingMethod,
+  passingScore: number | null
+): OfficialScore | null {
+  const counted = attempts.filter(
+    attempt => attempt.completed_at && attempt.grading_status !== 'pending_review' && attempt.percentage_score !== null
+  )
+
+  if (counted.length === 0) {
+    return null
+  }
+
+  let attemptId: string | null
+  let percentage: number
+
+  if (method === 'average') {
+    attemptId = null
+    percentage = counted.reduce((sum, attempt) => sum + Number(attempt.percentage_score), 0) / counted.length
+  } else {
+    const chosen = counted.reduce((best, attempt) => {
+      if (method === 'latest') {
+        return attemptTime(attempt) > attemptTime(best) ? attempt : best
+      }
+      return Number(attempt.percentage_score) > Number(best.percentage_score) ? attempt : best
+    })
+    attemptId = chosen.id
+    percentage = Number(chosen.percentage_score)
+  }
+
+  percentage = Math.round(percentage * 100) / 100
+
+  return {
+    attempt_id: attemptId,
+    percentage_score: percentage,
+    passed: passingScore ? percentage >= passingScore : true,
+    method,
+    attempts_counted: counted.length
+  }
+}
+
+/**
+ * A student's attempts at a quiz, oldest first
+ */
+export async function listQuizAttempts(
+  serviceClient: any,
+  userId: string,
+  quizId: string
+): Promise<Array<PolicyAttempt & { attempt_number: number | null }>> {
+  const { data, error } = await serviceClient
+    .from('quiz_attempts')
+    .select('id, percentage_score, completed_at, created_at, grading_status, attempt_number')
+    .eq('user_id', userId)
+    .eq('quiz_id', quizId)
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Failed to load quiz attempts: ${error.message}`)
+  }
+
+  return data || []
+}
@@ -0,0 +1,236 @@
+/**
+ * Quiz Sessions
+ * Server-authoritative state for an in-progress attempt, stored in quiz_sessions.
+ * The server owns the clock: started_at and expires_at are set on start, heartbeats
+ * save progress so the attempt can resume on another device, and submissions are
+ * checked against expires_at plus a grace period. Listening sections bring
+ * expires_at forward to the end of transfer time once the recording has finished.
+ */
+
+import type { QuestionDraw } from '@/lib/question-bank/types'
+import type { QuestionShuffle } from '@/lib/quiz-shuffle'
+import type { ListeningProgress } from '@/lib/listening'
+
+export type QuizSessionMode = 'standard' | 'adaptive'
+
+export interface QuizSessionData {
+  mode: QuizSessionMode
+  /** Answers saved by heartbeats (standard mode) */
+  answers: Record<string, unknown>
+  current_question_index: number
+  /** Adaptive mode: question ids in delivery order; the last one may still be unanswered */
+  administered?: string[]
+  /** Adaptive mode: answers recorded by the delivery endpoint */
+  responses?: Record<string, unknown>
+  theta?: number
+  standard_error?: number
+  /** Bank items drawn for this attempt when the quiz uses draw rules */
+  draw?: QuestionDraw
+  /** Question and option order for this attempt; answers are saved in display order */
+  shuffle?: QuestionShuffle
+  /** Listening sections: plays of the recording used and when transfer time started */
+  listening?: ListeningProgress
+}
+
+export interface QuizSession {
+  id: string
+  quiz_id: string
+  user_id: string
+  session_data: QuizSessionData
+  started_at: string
+  last_activity_at: string
+  expires_at: string | null
+  is_active: boolean
+}
+
+export interface SessionTiming {
+  started_at: string
+  expires_at: string | null
+  elapsed_seconds: number
+  /** null when the quiz has no time limit */
+  time_remaining_seconds: number | null
+  /** Past expires_at; answers are still accepted during the grace period */
+  expired: boolean
+  /** Past expires_at plus the grace period; the attempt is closed with its saved answers */
+  overdue: boolean
+}
+
+// Covers network latency and the client's auto-submit at 0:00
+export const SESSION_GRACE_SECONDS = 30
+
+// Largest session_data.answers payload a heartbeat may save
+export const MAX_SESSION_ANSWERS_LENGTH = 100000
+
+const SESSION_FIELDS = 'id, quiz_id, user_id, session_data, started_at, last_activity_at, expires_at, is_active'
+
+function emptySessionData(mode: QuizSessionMode): QuizSessionData {
+  return mode === 'adaptive'
+    ? { mode, answers: {}, current_question_index: 0, administered: [], responses: {} }
+    : { mode, answers: {}, current_question_index: 0 }
+}
+
+/**
+ * Elapsed and remaining time for a session, measured on the server clock
+ */
+export function getSessionTiming(
+  session: Pick<QuizSession, 'started_at' | 'expires_at'>,
+  now: Date = new Date()
+): SessionTiming {
+  const startedAt = new Date(session.started_at).getTime()
+  const elapsedSeconds = Math.max(0, Math.floor((now.getTime() - startedAt) / 1000))
+
+  if (!session.expires_at) {
+    return {
+      started_at: session.started_at,
+      expires_at: null,
+      elapsed_seconds: elapsedSeconds,
+      time_remaining_seconds: null,
+      expired: false,
+      overdue: false
+    }
+  }
+
+  const remainingMs = new Date(session.expires_at).getTime() - now.getTime()
+
+  return {
+    started_at: session.started_at,
+    expires_at: session.expires_at,
+    elapsed_seconds: elapsedSeconds,
+    time_remaining_seconds: Math.max(0, Math.ceil(remainingMs / 1000)),
+    expired: remainingMs <= 0,
+    overdue: remainingMs < -SESSION_GRACE_SECONDS * 1000
+  }
+}
+
+/**
+ * Seconds to record as time taken: the server-measured duration, capped at the time limit
+ */
+export function getSessionTimeTaken(
+  session: Pick<QuizSession, 'started_at' | 'expires_at'>,
+  now: Date = new Date()
+): number {
+  const { elapsed_seconds } = getSessionTiming(session, now)
+  if (!session.expires_at) return elapsed_seconds
+
+  const limitSeconds = Math.round(
+    (new Date(session.expires_at).getTime() - new Date(session.started_at).getTime()) / 1000
+  )
+  return Math.min(elapsed_seconds, limitSeconds)
+}
+
+export async function getActiveQuizSession(
+  serviceClient: any,
+  userId: string,
+  quizId: string
+): Promise<QuizSession | null> {
+  const { data, error } = await serviceClient
+    .from('quiz_sessions')
+    .select(SESSION_FIELDS)
+    .eq('user_id', userId)
+    .eq('quiz_id', quizId)
+    .eq('is_active', true)
+    .order('started_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load quiz session: ${error.message}`)
+  }
+
+  return data
+}
+
+/**
+ * Resume the active session for this user and quiz, or start one.
+ * The deadline is fixed when the session starts so later quiz edits don't move it.
+ */
+export async function startQuizSession(
+  serviceClient: any,
+  options: {
+    userId: string
+    quizId: string
+    mode: QuizSessionMode
+    timeLimitMinutes?: number | null
+    userAgent?: string | null
+    /** Extra state fixed at start, such as the question draw */
+    initialData?: Partial<QuizSessionData>
+  }
+): Promise<{ session: QuizSession; resumed: boolean }> {
+  const existing = await getActiveQuizSession(serviceClient, options.userId, options.quizId)
+  if (existing) {
+    return { session: existing, resumed: true }
+  }
+
+  const startedAt = new Date()
+  const expiresAt = options.timeLimitMinutes && options.timeLimitMinutes > 0
+    ? new Date(startedAt.getTime() + options.timeLimitMinutes * 60 * 1000).toISOString()
+    : null
+
+  const { data, error } = await serviceClient
+    .from('quiz_sessions')
+    .insert({
+      user_id: options.userId,
+      quiz_id: options.quizId,
+      session_data: { ...emptySessionData(options.mode), ...options.initialData },
+      started_at: startedAt.toISOString(),
+      last_activity_at: startedAt.toISOString(),
+      expires_at: expiresAt,
+      user_agent: options.userAgent || null
+    })
+    .select(SESSION_FIELDS)
+    .single()
+
+  if (error) {
+    // Another tab or device started the session first (one active session per user and quiz)
+    if (error.code === '23505') {
+      const raced = await getActiveQuizSession(serviceClient, options.userId, options.quizId)
+      if (raced) return { session: raced, resumed: true }
+    }
+    throw new Error(`Failed to start quiz session: ${error.message}`)
+  }
+
+  return { session: data, resumed: false }
+}
+
+/**
+ * Save progress; expiresAt moves the deadline, which only listening transfer time does
+ */
+export async function saveQuizSession(
+  serviceClient: any,
+  sessionId: string,
+  sessionData: QuizSessionData,
+  options: { expiresAt?: string | null } = {}
+): Promise<void> {
+  const { error } = await serviceClient
+    .from('quiz_sessions')
+    .update({
+      session_data: sessionData,
+      last_activity_at: new Date().toISOString(),
+      ...(options.expiresAt !== undefined && { expires_at: options.expiresAt })
+    })
+    .eq('id', sessionId)
+    .eq('is_active', true)
+
+  if (error) {
+    throw new Error(`Failed to save quiz session: ${error.message}`)
+  }
+}
+
+export async function closeQuizSession(
+  serviceClient: any,
+  sessionId: string,
+  quizAttemptId?: string
+): Promise<void> {
+  const { error } = await serviceClient
+    .from('quiz_sessions')
+    .update({
+      is_active: false,
+      ended_at: new Date().toISOString(),
+      ...(quizAttemptId && { quiz_attempt_id: quizAttemptId })
+    })
+    .eq('id', sessionId)
+
+  if (error) {
+    throw new Error(`Failed to close quiz session: ${error.message}`)
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Per-Attempt Shuffling
+ * Question and option order for an attempt is generated on the server when its session
+ * starts and stored with the session and the attempt. Students see and answer the
+ * shuffled content; submissions are mapped back to canonical option indexes before
+ * grading, so stored answers, review and analytics never depend on the display order.
+ */
+
+import { createSeededRandom, createDrawSeed, seededShuffle } from '@/lib/question-bank/draw'
+
+export interface QuestionShuffle {
+  seed: number
+  /** Question ids in display order; null when questions keep their canonical order */
+  question_order: string[] | null
+  /** Per question: the canonical option index shown at each display position */
+  option_orders: Record<string, number[]>
+}
+
+export interface ShuffleQuiz {
+  shuffle_questions?: boolean | null
+  randomize_questions?: boolean | null
+  shuffle_options?: boolean | null
+}
+
+export interface ShuffleQuestion {
+  id: string
+  question_type: string
+  options?: unknown
+  randomize_options?: boolean | null
+}
+
+// Types answered by option index; true/false keeps True before False
+const SHUFFLEABLE_OPTION_TYPES = new Set(['multiple_choice', 'single_choice'])
+
+function toIndex(value: unknown): number | null {
+  if (typeof value === 'number' && Number.isInteger(value)) return value
+  if (typeof value === 'string' && /^\d+$/.test(value.trim())) return parseInt(value, 10)
+  return null
+}
+
+function shufflesOptions(quiz: ShuffleQuiz, question: ShuffleQuestion): boolean {
+  return SHUFFLEABLE_OPTION_TYPES.has(question.question_type) &&
+    Array.isArray(question.options) &&
+    question.options.length > 1 &&
+    Boolean(quiz.shuffle_options || question.randomize_options)
+}
+
+/**
+ * The attempt's layout, or null when neither questions nor options are shuffled.
+ * Questions must be passed in canonical order.
+ */
+export function createQuestionShuffle(
+  quiz: ShuffleQuiz,
+  questions: ShuffleQuestion[],
+  seed: number = createDrawSeed()
+): QuestionShuffle | null {
+  const random = createSeededRandom(seed)
+  const shuffleQuestions = Boolean(quiz.shuffle_questions || quiz.randomize_questions) && questions.length > 1
+
+  const questionOrder = shuffleQuestions
+    ? seededShuffle(questions.map(question => question.id), random)
+    : null
+
+  const optionOrders: Record<string, number[]> = {}
+  questions.forEach(question => {
+    if (!shufflesOptions(quiz, question)) return
+    const indexes = (question.options as unknown[]).map((_, index) => index)
+    optionOrders[question.id] = seededShuffle(indexes, random)
+  })
+
+  if (!questionOrder && Object.keys(optionOrders).length === 0) return null
+
+  return { seed, question_order: questionOrder, option_orders: optionOrders }
+}
+
+/**
+ * The questions as the student sees them: reordered, with options permuted.
+ * Questions missing from question_order (e.g. added mid-attempt) follow in canonical order.
+ */
+export function applyQuestionShuffle<T extends { id: string; options?: unknown }>(
+  questions: T[],
+  shuffle: QuestionShuffle
+): T[] {
+  let ordered = questions
+  if (shuffle.question_order) {
+    const position = new Map(shuffle.question_order.map((id, index) => [id, index]))
+    ordered = [...questions].sort((a, b) =>
+      (position.get(a.id) ?? Number.MAX_SAFE_INTEGER) - (position.get(b.id) ?? Number.MAX_SAFE_INTEGER)
+    )
+  }
+
+  return ordered.map(question => {
+    const order = shuffle.option_orders[question.id]
+    if (!order || !Array.isArray(question.options) || question.options.length !== order.length) {
+      return question
+    }
+    const options = question.options as unknown[]
+    return { ...question, options: order.map(index => options[index]) }
+  })
+}
+
+/**
+ * Map answers given against the shuffled options back to canonical indexes.
+ * Indexes that don't exist in the layout are dropped rather than guessed. Like
+ * applyQuestionShuffle, a question whose option count no longer matches its stored
+ * order was shown unshuffled, so its answer passes through unchanged.
+ */
+export function toCanonicalAnswers(
+  answers: Record<string, any>,
+  shuffle: QuestionShuffle | null | undefined,
+  questions: Array<{ id: string; options?: unknown }>
+): Record<string, any> {
+  if (!shuffle) return answers
+
+  const optionCounts = new Map(questions.map(question => [
+    question.id,
+    Array.isArray(question.options) ? question.options.length : null
+  ]))
+
+  const mapIndex = (order: number[], value: unknown): number | null => {
+    const index = toIndex(value)
+    return index !== null && index < order.length ? order[index] : null
+  }
+
+  return Object.fromEntries(
+    Object.entries(answers).map(([questionId, answer]) => {
+      const order = shuffle.option_orders[questionId]
+      if (!order || answer === null || answer === undefined || optionCounts.get(questionId) !== order.length) {
+        return [questionId, answer]
+      }
+
+      const canonical = Array.isArray(answer)
+        ? answer.map(value => mapIndex(order, value)).filter((index): index is number => index !== null)
+        : mapIndex(order, answer)
+
+      return [questionId, canonical]
+    })
+  )
+}
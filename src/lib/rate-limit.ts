@@ -26,6 +26,8 @@ class RateLimiter {
         }
       }
     }, 60000)
+    // Cleanup alone shouldn't keep the process (or a test run) alive
+    this.cleanupInterval.unref?.()
   }
 
   /**
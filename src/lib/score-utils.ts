@@ -5,6 +5,9 @@
  * - Excellent: >= 80%
  * - Good: >= 60%
  * - Needs Improvement: < 60%
+ *
+ * IELTS band scores (0-9 in half bands) are converted and rounded at the end of
+ * this file; the same levels apply from band 7 and band 5.5.
  */
 
 export const SCORE_THRESHOLDS = {
@@ -23,12 +26,7 @@ export function getScoreLevel(percentage: number): ScoreLevel {
   return 'needs-improvement'
 }
 
-/**
- * Get Tailwind classes for score badges (for dashboard/progress pages)
- */
-export function getScoreBadgeClasses(percentage: number): string {
-  const level = getScoreLevel(percentage)
-
+function badgeClassesForLevel(level: ScoreLevel): string {
   switch (level) {
     case 'excellent':
       return 'bg-green-100 text-green-800 border-green-200'
@@ -39,6 +37,13 @@ export function getScoreBadgeClasses(percentage: number): string {
   }
 }
 
+/**
+ * Get Tailwind classes for score badges (for dashboard/progress pages)
+ */
+export function getScoreBadgeClasses(percentage: number): string {
+  return badgeClassesForLevel(getScoreLevel(percentage))
+}
+
 /**
  * Get color class for score text (for inline displays)
  */
@@ -97,3 +102,164 @@ export function formatScore(score: number, total: number): string {
   const percentage = calculatePercentage(score, total)
   return `${score}/${total} (${percentage}%)`
 }
+
+// =====================================================
+// IELTS BAND SCORES
+// =====================================================
+
+export const IELTS_SKILLS = ['listening', 'reading', 'writing', 'speaking'] as const
+export type IeltsSkill = typeof IELTS_SKILLS[number]
+
+export const IELTS_MODULES = ['academic', 'general_training'] as const
+export type IeltsModule = typeof IELTS_MODULES[number]
+
+/** Listening and Reading are marked out of 40 */
+export const IELTS_RAW_MAX = 40
+
+export const BAND_THRESHOLDS = {
+  EXCELLENT: 7,
+  GOOD: 5.5,
+} as const
+
+/** Lowest raw mark for each band, highest band first */
+export type BandTable = Array<{ min_raw: number; band: number }>
+
+/**
+ * The published conversion tables. Below the published range (band 2.5) the
+ * bands are extrapolated so every raw mark converts.
+ */
+export const DEFAULT_BAND_TABLES: Record<'listening' | 'academic_reading' | 'general_training_reading', BandTable> = {
+  listening: [
+    { min_raw: 39, band: 9 }, { min_raw: 37, band: 8.5 }, { min_raw: 35, band: 8 }, { min_raw: 32, band: 7.5 },
+    { min_raw: 30, band: 7 }, { min_raw: 26, band: 6.5 }, { min_raw: 23, band: 6 }, { min_raw: 18, band: 5.5 },
+    { min_raw: 16, band: 5 }, { min_raw: 13, band: 4.5 }, { min_raw: 11, band: 4 }, { min_raw: 8, band: 3.5 },
+    { min_raw: 6, band: 3 }, { min_raw: 4, band: 2.5 }, { min_raw: 2, band: 2 }, { min_raw: 1, band: 1 },
+    { min_raw: 0, band: 0 }
+  ],
+  academic_reading: [
+    { min_raw: 39, band: 9 }, { min_raw: 37, band: 8.5 }, { min_raw: 35, band: 8 }, { min_raw: 33, band: 7.5 },
+    { min_raw: 30, band: 7 }, { min_raw: 27, band: 6.5 }, { min_raw: 23, band: 6 }, { min_raw: 19, band: 5.5 },
+    { min_raw: 15, band: 5 }, { min_raw: 13, band: 4.5 }, { min_raw: 10, band: 4 }, { min_raw: 8, band: 3.5 },
+    { min_raw: 6, band: 3 }, { min_raw: 4, band: 2.5 }, { min_raw: 2, band: 2 }, { min_raw: 1, band: 1 },
+    { min_raw: 0, band: 0 }
+  ],
+  general_training_reading: [
+    { min_raw: 40, band: 9 }, { min_raw: 39, band: 8.5 }, { min_raw: 37, band: 8 }, { min_raw: 36, band: 7.5 },
+    { min_raw: 34, band: 7 }, { min_raw: 32, band: 6.5 }, { min_raw: 30, band: 6 }, { min_raw: 27, band: 5.5 },
+    { min_raw: 23, band: 5 }, { min_raw: 19, band: 4.5 }, { min_raw: 15, band: 4 }, { min_raw: 12, band: 3.5 },
+    { min_raw: 9, band: 3 }, { min_raw: 6, band: 2.5 }, { min_raw: 3, band: 2 }, { min_raw: 1, band: 1 },
+    { min_raw: 0, band: 0 }
+  ]
+}
+
+export function getDefaultBandTable(skill: 'listening' | 'reading', module: IeltsModule): BandTable {
+  if (skill === 'listening') return DEFAULT_BAND_TABLES.listening
+  return module === 'general_training'
+    ? DEFAULT_BAND_TABLES.general_training_reading
+    : DEFAULT_BAND_TABLES.academic_reading
+}
+
+export function isValidBand(value: unknown): value is number {
+  return typeof value === 'number' && value >= 0 && value <= 9 && Number.isInteger(value * 2)
+}
+
+/**
+ * Validation for a band table from the admin editor; returns the first problem found
+ */
+export function validateBandTable(value: unknown): string | null {
+  if (!Array.isArray(value) || value.length === 0) return 'A band table needs at least one row'
+  if (value.length > IELTS_RAW_MAX + 1) return `A band table can have at most ${IELTS_RAW_MAX + 1} rows`
+
+  const seen = new Set<number>()
+  for (const row of value) {
+    const minRaw = row?.min_raw
+    if (typeof minRaw !== 'number' || !Number.isInteger(minRaw) || minRaw < 0 || minRaw > IELTS_RAW_MAX) {
+      return `Raw marks must be whole numbers from 0 to ${IELTS_RAW_MAX}`
+    }
+    if (!isValidBand(row?.band)) return 'Bands must be between 0 and 9 in steps of 0.5'
+    if (seen.has(minRaw)) return `Raw mark ${minRaw} appears more than once`
+    seen.add(minRaw)
+  }
+
+  const sorted = normalizeBandTable(value)
+  for (let i = 1; i < sorted.length; i++) {
+    if (sorted[i].band > sorted[i - 1].band) return 'A higher raw mark cannot give a lower band'
+  }
+  return null
+}
+
+/**
+ * Band table sorted highest raw mark first, keeping only well-formed rows
+ */
+export function normalizeBandTable(value: unknown): BandTable {
+  if (!Array.isArray(value)) return []
+  return value
+    .filter(row => Number.isInteger(row?.min_raw) && row.min_raw >= 0 && row.min_raw <= IELTS_RAW_MAX && isValidBand(row?.band))
+    .map(row => ({ min_raw: row.min_raw, band: row.band }))
+    .sort((a, b) => b.min_raw - a.min_raw)
+}
+
+/**
+ * Convert a mark on some other total to the 40-mark scale the band tables use
+ */
+export function scaleRawScore(marks: number, maxMarks: number): number {
+  if (!maxMarks || maxMarks <= 0 || !marks || marks < 0) return 0
+  return Math.min(IELTS_RAW_MAX, Math.round((marks / maxMarks) * IELTS_RAW_MAX))
+}
+
+/**
+ * Band for a raw Listening or Reading mark out of 40; marks below the table's
+ * lowest row get band 0
+ */
+export function rawScoreToBand(raw: number, table: BandTable): number {
+  const row = normalizeBandTable(table).find(entry => raw >= entry.min_raw)
+  return row ? row.band : 0
+}
+
+/**
+ * Band for an examiner-marked section (Writing, Speaking) scored as a percentage,
+ * rounded down to the half band as criterion averages are
+ */
+export function percentageToBand(percentage: number): number {
+  const clamped = Math.max(0, Math.min(100, percentage || 0))
+  return Math.floor((clamped / 100) * 9 * 2 + 1e-9) / 2
+}
+
+/**
+ * Overall band: the mean of the section bands rounded to the nearest half band,
+ * with .25 rounding up to .5 and .75 up to the next whole band
+ */
+export function calculateOverallBand(bands: number[]): number | null {
+  if (bands.length === 0) return null
+  const mean = bands.reduce((sum, band) => sum + band, 0) / bands.length
+  return Math.round(mean * 2 + 1e-9) / 2
+}
+
+export function formatBand(band: number | null | undefined): string {
+  return band === null || band === undefined ? '–' : band.toFixed(1)
+}
+
+const BAND_DESCRIPTORS = [
+  'Did not attempt', 'Non-user', 'Intermittent user', 'Extremely limited user', 'Limited user',
+  'Modest user', 'Competent user', 'Good user', 'Very good user', 'Expert user'
+]
+
+/**
+ * The official skill level for a band; half bands take the level below
+ */
+export function getBandDescriptor(band: number): string {
+  return BAND_DESCRIPTORS[Math.max(0, Math.min(9, Math.floor(band)))]
+}
+
+export function getBandLevel(band: number): ScoreLevel {
+  if (band >= BAND_THRESHOLDS.EXCELLENT) return 'excellent'
+  if (band >= BAND_THRESHOLDS.GOOD) return 'good'
+  return 'needs-improvement'
+}
+
+/**
+ * Get Tailwind classes for band badges, matching the score badge colours
+ */
+export function getBandBadgeClasses(band: number): string {
+  return badgeClassesForLevel(getBandLevel(band))
+}
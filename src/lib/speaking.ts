@@ -0,0 +1,233 @@
+/**
+ * Speaking Questions
+ * IELTS-style speaking questions. The student records an answer in the browser and
+ * an examiner grades the recording against the four speaking criteria. Part 2 cue
+ * cards give a minute to prepare before recording starts, and every part stops
+ * recording at its response limit. Settings are stored in
+ * quiz_questions.speaking_settings; the answer is { recording_path, duration_seconds }.
+ * Recordings live in a private bucket and are played through signed URLs.
+ */
+
+import type { RubricCriterion } from '@/types/question-types'
+
+export const SPEAKING_PARTS = [1, 2, 3] as const
+export type SpeakingPart = typeof SPEAKING_PARTS[number]
+
+export interface SpeakingSettings {
+  part: SpeakingPart
+  /** Preparation before recording starts; 0 lets the student start straight away */
+  prep_seconds: number
+  /** Recording stops on its own after this long */
+  response_seconds: number
+  /** Part 2 prompts listed under "You should say:" */
+  cue_card_points: string[]
+}
+
+export interface SpeakingAnswer {
+  /** Object path in the recordings bucket, under users/<student id>/ */
+  recording_path: string
+  duration_seconds: number
+}
+
+/** A speaking answer as graders and the results page get it, with a signed URL to play */
+export interface SpeakingPlayback extends SpeakingAnswer {
+  recording_url: string | null
+}
+
+export const SPEAKING_RECORDINGS_BUCKET = 'speaking-recordings'
+
+// Signed playback URLs outlive a grading session or a results page visit
+export const RECORDING_URL_TTL_SECONDS = 60 * 60
+
+// users/<owner id>/... with no empty or parent segments
+const RECORDING_PATH_PATTERN = /^users\/([A-Za-z0-9-]+)\/(?:[A-Za-z0-9_-][A-Za-z0-9_.-]*\/)*[A-Za-z0-9_-][A-Za-z0-9_.-]*$/
+
+// Answers saved before the bucket went private hold its public URL
+const LEGACY_RECORDING_URL_PATTERN = new RegExp(`/storage/v1/object/public/${SPEAKING_RECORDINGS_BUCKET}/([^?#]+)$`)
+
+// IELTS timings: short Part 1 answers, a 1 minute prep and up to 2 minute long turn
+// in Part 2, and longer discussion answers in Part 3
+export const SPEAKING_PART_DEFAULTS: Record<SpeakingPart, { label: string; prep_seconds: number; response_seconds: number }> = {
+  1: { label: 'Part 1: Introduction and interview', prep_seconds: 0, response_seconds: 30 },
+  2: { label: 'Part 2: Long turn (cue card)', prep_seconds: 60, response_seconds: 120 },
+  3: { label: 'Part 3: Discussion', prep_seconds: 0, response_seconds: 60 }
+}
+
+export const MAX_PREP_SECONDS = 120
+export const MIN_RESPONSE_SECONDS = 10
+export const MAX_RESPONSE_SECONDS = 300
+export const MAX_CUE_CARD_POINTS = 6
+
+// Band descriptors are marked 0-9 per criterion, so the rubric total maps onto a band
+export const SPEAKING_RUBRIC: RubricCriterion[] = [
+  {
+    id: 'fluency_coherence',
+    criterion: 'Fluency and Coherence',
+    max_points: 9,
+    description: 'Speaks at length without noticeable effort; ideas are linked and easy to follow'
+  },
+  {
+    id: 'lexical_resource',
+    criterion: 'Lexical Resource',
+    max_points: 9,
+    description: 'Range and precision of vocabulary, including paraphrase'
+  },
+  {
+    id: 'grammatical_range_accuracy',
+    criterion: 'Grammatical Range and Accuracy',
+    max_points: 9,
+    description: 'Variety of structures and how many sentences are free of errors'
+  },
+  {
+    id: 'pronunciation',
+    criterion: 'Pronunciation',
+    max_points: 9,
+    description: 'Intelligibility, word and sentence stress, rhythm and intonation'
+  }
+]
+
+// Preferred recorder formats; Safari only records audio/mp4
+const RECORDING_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', 'audio/ogg;codecs=opus']
+
+function clampInteger(value: unknown, min: number, max: number, fallback: number): number {
+  const number = Number(value)
+  if (!Number.isFinite(number)) return fallback
+  return Math.min(max, Math.max(min, Math.round(number)))
+}
+
+function isSpeakingPart(value: unknown): value is SpeakingPart {
+  return SPEAKING_PARTS.includes(value as SpeakingPart)
+}
+
+/**
+ * Settings with the part's IELTS timings filling anything missing
+ */
+export function normalizeSpeakingSettings(value: any): SpeakingSettings {
+  const part: SpeakingPart = isSpeakingPart(value?.part) ? value.part : 1
+  const defaults = SPEAKING_PART_DEFAULTS[part]
+
+  return {
+    part,
+    prep_seconds: clampInteger(value?.prep_seconds, 0, MAX_PREP_SECONDS, defaults.prep_seconds),
+    response_seconds: clampInteger(value?.response_seconds, MIN_RESPONSE_SECONDS, MAX_RESPONSE_SECONDS, defaults.response_seconds),
+    cue_card_points: Array.isArray(value?.cue_card_points)
+      ? value.cue_card_points
+          .filter((point: unknown) => typeof point === 'string' && point.trim())
+          .map((point: string) => point.trim())
+          .slice(0, MAX_CUE_CARD_POINTS)
+      : []
+  }
+}
+
+/**
+ * Validation for speaking settings sent by the quiz editor; returns the first problem found
+ */
+export function validateSpeakingSettings(value: unknown): string | null {
+  if (value === undefined || value === null) return null
+  if (typeof value !== 'object' || Array.isArray(value)) return 'Speaking settings must be an object'
+
+  const settings = value as Record<string, any>
+  if (settings.part !== undefined && !isSpeakingPart(settings.part)) {
+    return 'Speaking part must be 1, 2 or 3'
+  }
+  if (settings.prep_seconds !== undefined &&
+      (!Number.isInteger(settings.prep_seconds) || settings.prep_seconds < 0 || settings.prep_seconds > MAX_PREP_SECONDS)) {
+    return `Preparation time must be a whole number of seconds from 0 to ${MAX_PREP_SECONDS}`
+  }
+  if (settings.response_seconds !== undefined &&
+      (!Number.isInteger(settings.response_seconds) ||
+        settings.response_seconds < MIN_RESPONSE_SECONDS || settings.response_seconds > MAX_RESPONSE_SECONDS)) {
+    return `Speaking time must be a whole number of seconds from ${MIN_RESPONSE_SECONDS} to ${MAX_RESPONSE_SECONDS}`
+  }
+  if (settings.cue_card_points !== undefined) {
+    if (!Array.isArray(settings.cue_card_points) || settings.cue_card_points.some((point: unknown) => typeof point !== 'string')) {
+      return 'Cue card points must be a list of text'
+    }
+    if (settings.cue_card_points.length > MAX_CUE_CARD_POINTS) {
+      return `A cue card can have at most ${MAX_CUE_CARD_POINTS} points`
+    }
+  }
+
+  return null
+}
+
+function toRecordingPath(answer: Record<string, any>): string | null {
+  if (typeof answer.recording_path === 'string') return answer.recording_path
+
+  const legacy = typeof answer.recording_url === 'string' && answer.recording_url.match(LEGACY_RECORDING_URL_PATTERN)
+  if (!legacy) return null
+  try {
+    return decodeURIComponent(legacy[1])
+  } catch {
+    return null
+  }
+}
+
+/**
+ * A stored speaking answer, or null when there is no recording. Answers can come
+ * back from question_attempts as a JSON string. Only paths in the recordings
+ * bucket count, and with ownerId only paths under that student's own folder.
+ */
+export function getSpeakingAnswer(value: unknown, ownerId?: string): SpeakingAnswer | null {
+  let answer: any = value
+  if (typeof value === 'string') {
+    try {
+      answer = JSON.parse(value)
+    } catch {
+      return null
+    }
+  }
+
+  if (!answer || typeof answer !== 'object') return null
+
+  const path = toRecordingPath(answer)
+  const match = path?.match(RECORDING_PATH_PATTERN)
+  if (!path || !match || (ownerId !== undefined && match[1] !== ownerId)) {
+    return null
+  }
+
+  return {
+    recording_path: path,
+    duration_seconds: Math.max(0, Number(answer.duration_seconds) || 0)
+  }
+}
+
+/**
+ * Signed playback URLs for recording paths, created on the server with the
+ * service client. Paths that cannot be signed are left out.
+ */
+export async function createRecordingUrls(serviceClient: any, paths: string[]): Promise<Map<string, string>> {
+  const unique = Array.from(new Set(paths))
+  if (unique.length === 0) return new Map()
+
+  const { data, error } = await serviceClient.storage
+    .from(SPEAKING_RECORDINGS_BUCKET)
+    .createSignedUrls(unique, RECORDING_URL_TTL_SECONDS)
+
+  if (error) {
+    throw new Error(`Failed to sign speaking recordings: ${error.message}`)
+  }
+
+  return new Map(
+    (data || [])
+      .filter((item: any) => item.path && item.signedUrl && !item.error)
+      .map((item: any) => [item.path as string, item.signedUrl as string])
+  )
+}
+
+/**
+ * First recorder format the browser supports, or '' to let MediaRecorder choose
+ */
+export function pickRecordingMimeType(isSupported: (mimeType: string) => boolean): string {
+  return RECORDING_MIME_TYPES.find(type => isSupported(type)) || ''
+}
+
+/**
+ * File extension for a recorded blob's MIME type
+ */
+export function getRecordingExtension(mimeType: string): string {
+  if (mimeType.startsWith('audio/mp4')) return 'm4a'
+  if (mimeType.startsWith('audio/ogg')) return 'ogg'
+  if (mimeType.startsWith('audio/mpeg')) return 'mp3'
+  return 'webm'
+}
@@ -1,38 +1,53 @@
 import { createSupabaseClient } from './supabase'
 
 import { logger } from '@/lib/logger'
+import { getRecordingExtension, RECORDING_URL_TTL_SECONDS, SPEAKING_RECORDINGS_BUCKET } from '@/lib/speaking'
 
 // Create module-level Supabase client for storage operations
 const supabase = createSupabaseClient()
 
 export interface UploadResult {
   url: string | null
+  /** Object path in the bucket, set when the upload succeeded */
+  path?: string
   error: string | null
 }
 
+export interface UploadOptions {
+  /** Kind of file accepted, checked against the MIME type (default image) */
+  accept?: 'image' | 'audio'
+  /** Size limit in bytes (default 5MB) */
+  maxSize?: number
+}
+
 // Storage bucket names
 export const STORAGE_BUCKETS = {
   COURSE_IMAGES: 'course-images',
   QUIZ_IMAGES: 'quiz-images',
   USER_AVATARS: 'user-avatars',
-  LESSON_RESOURCES: 'lesson-resources'
+  LESSON_RESOURCES: 'lesson-resources',
+  SPEAKING_RECORDINGS: SPEAKING_RECORDINGS_BUCKET
 } as const
 
+// Recordings stop at MAX_RESPONSE_SECONDS, well inside this at recorder bitrates
+export const MAX_RECORDING_SIZE = 10 * 1024 * 1024
+
 // Upload file to Supabase Storage
 export async function uploadFile(
   file: File,
   bucket: string,
-  path: string
+  path: string,
+  { accept = 'image', maxSize = 5 * 1024 * 1024 }: UploadOptions = {}
 ): Promise<UploadResult> {
   try {
     // Validate file type
-    if (!file.type.startsWith('image/')) {
-      return { url: null, error: 'Only image files are allowed' }
+    if (!file.type.startsWith(`${accept}/`)) {
+      return { url: null, error: `Only ${accept} files are allowed` }
     }
 
-    // Validate file size (5MB limit)
-    if (file.size > 5 * 1024 * 1024) {
-      return { url: null, error: 'File size must be less than 5MB' }
+    // Validate file size
+    if (file.size > maxSize) {
+      return { url: null, error: `File size must be less than ${Math.round(maxSize / (1024 * 1024))}MB` }
     }
 
     // Generate unique filename
@@ -58,7 +73,7 @@ export async function uploadFile(
       .from(bucket)
       .getPublicUrl(data.path)
 
-    return { url: urlData.publicUrl, error: null }
+    return { url: urlData.publicUrl, path: data.path, error: null }
   } catch (err: any) {
     logger.error('Upload error', { error: err?.message || 'Unknown error' })
     return { url: null, error: 'Failed to upload file' }
@@ -128,3 +143,31 @@ export async function uploadQuizImage(file: File, quizId: string): Promise<Uploa
 export async function uploadUserAvatar(file: File, userId: string): Promise<UploadResult> {
   return uploadFile(file, STORAGE_BUCKETS.USER_AVATARS, `users/${userId}`)
 }
+
+// Speaking answer upload helper; students can only write under their own users/ folder
+export async function uploadSpeakingRecording(
+  recording: Blob,
+  questionId: string,
+  userId: string
+): Promise<UploadResult> {
+  // The bucket's allowed types have no codec parameters
+  const mimeType = recording.type.split(';')[0]
+  const file = new File([recording], `recording.${getRecordingExtension(mimeType)}`, { type: mimeType })
+  return uploadFile(file, STORAGE_BUCKETS.SPEAKING_RECORDINGS, `users/${userId}/questions/${questionId}`, {
+    accept: 'audio',
+    maxSize: MAX_RECORDING_SIZE
+  })
+}
+
+// Playback URL for one of the signed-in student's own recordings; the bucket is private
+export async function getSpeakingRecordingUrl(path: string): Promise<string | null> {
+  const { data, error } = await supabase.storage
+    .from(STORAGE_BUCKETS.SPEAKING_RECORDINGS)
+    .createSignedUrl(path, RECORDING_URL_TTL_SECONDS)
+
+  if (error) {
+    logger.error('Failed to sign speaking recording', { error: error.message })
+    return null
+  }
+  return data.signedUrl
+}
@@ -11,6 +11,11 @@
 
 import { createClient } from '@/utils/supabase/client'
 import type { UserRole } from './auth-security'
+import type { RetakePolicy, AvailabilityWindow, GradingPolicy } from './quiz-policies'
+import type { DrawRule } from './question-bank/types'
+import type { ListeningSettings } from './listening'
+import type { SpeakingSettings } from './speaking'
+import type { WritingSettings } from './writing'
 
 /**
  * Legacy client factory function for backward compatibility
@@ -58,6 +63,8 @@ export interface Course {
   rating?: number | null // numeric in DB
   student_count: number // integer in DB
   is_published: boolean
+  certificate_enabled?: boolean | null
+  certificate_template_id?: string | null
   created_at: string
   updated_at: string
 }
@@ -87,16 +94,38 @@ export interface Quiz {
   passage_audio_url?: string | null
   word_count?: number | null
   estimated_read_time?: number | null
+
+  // Attempt policies (see lib/quiz-policies)
+  retake_policy?: RetakePolicy | null
+  availability_window?: AvailabilityWindow | null
+  grading_policy?: GradingPolicy | null
+
+  // Bank items drawn for each attempt (see lib/question-bank)
+  draw_rules?: DrawRule[] | null
+
+  // IELTS-style listening section played from passage_audio_url (see lib/listening)
+  listening_settings?: ListeningSettings | null
+
+  // Per-attempt order (see lib/quiz-shuffle)
+  shuffle_questions?: boolean | null
+  randomize_questions?: boolean | null
+  shuffle_options?: boolean | null
+
+  // Passing issues a certificate from this template (see lib/certificates)
+  certificate_template_id?: string | null
+
+  // Author; instructors manage the quizzes they wrote (see lib/content-scope)
+  created_by?: string | null
 }
 
 // Type aliases for easier importing
-export type QuestionType = 'multiple_choice' | 'single_choice' | 'true_false' | 'fill_blank' | 'essay' | 'matching' | 'ordering'
+export type QuestionType = 'multiple_choice' | 'single_choice' | 'true_false' | 'fill_blank' | 'essay' | 'matching' | 'ordering' | 'speaking'
 
 export interface QuizQuestion {
   id: string
   quiz_id: string
   question: string
-  question_type: 'multiple_choice' | 'single_choice' | 'true_false' | 'fill_blank' | 'essay' | 'matching' | 'ordering'
+  question_type: 'multiple_choice' | 'single_choice' | 'true_false' | 'fill_blank' | 'essay' | 'matching' | 'ordering' | 'speaking'
   options: any // JSONB array
   correct_answer: number
   correct_answer_text?: string | null
@@ -119,6 +148,12 @@ export interface QuizQuestion {
   weight?: number
   auto_grade?: boolean
   question_metadata?: any
+
+  // Part and timings for recorded speaking answers (see lib/speaking)
+  speaking_settings?: SpeakingSettings | null
+
+  // IELTS Writing Task 1/2 word limits for essays (see lib/writing)
+  writing_settings?: WritingSettings | null
 }
 
 export interface Question {
@@ -146,6 +181,8 @@ export interface QuizAttempt {
   passed: boolean
   percentage_score?: number | null
   attempt_number: number
+  grading_status?: 'graded' | 'pending_review'
+  graded_at?: string | null
 }
 
 // Enhanced Course Content Types
@@ -241,9 +278,11 @@ export interface Notification {
   user_id: string
   title: string
   message: string
-  type: 'enrollment' | 'assignment' | 'achievement' | 'announcement' | 'reminder'
+  type: 'enrollment' | 'assignment' | 'achievement' | 'announcement' | 'reminder' | 'graded_essay'
   action_url?: string | null
   is_read: boolean
+  metadata?: Record<string, unknown> | null
+  dedupe_key?: string | null
   created_at: string
 }
 
@@ -0,0 +1,33 @@
+/**
+ * User Roles
+ * Role assignment from the users table only: audited role changes by admins
+ * and invitation links for new instructors.
+ */
+
+export {
+  USER_ROLES,
+  INVITE_STATUSES,
+  type UserRole,
+  type InviteStatus,
+  type InstructorInvite,
+  type RoleChangeInput
+} from './types'
+
+export {
+  INVITE_EXPIRY_DAYS,
+  isUserRole,
+  validateRoleChange,
+  getInviteStatus,
+  getInviteExpiry,
+  getRoleAfterInvite
+} from './rules'
+
+export {
+  RoleChangeError,
+  hashInviteToken,
+  changeUserRole,
+  listInstructorInvites,
+  createInstructorInvite,
+  revokeInstructorInvite,
+  acceptInstructorInvite
+} from './service'
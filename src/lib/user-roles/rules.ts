@@ -0,0 +1,47 @@
+/**
+ * Role Rules
+ * Which role changes are allowed and when an invitation can still be used.
+ * Pure functions, shared by the API routes and the admin screens.
+ */
+
+import { USER_ROLES, type InstructorInvite, type InviteStatus, type RoleChangeInput, type UserRole } from './types'
+
+export const INVITE_EXPIRY_DAYS = 7
+
+export function isUserRole(value: unknown): value is UserRole {
+  return typeof value === 'string' && (USER_ROLES as readonly string[]).includes(value)
+}
+
+/**
+ * Returns the reason a role change is refused, or null when it may go ahead.
+ * Admins can't demote themselves, and the last admin can't be demoted.
+ */
+export function validateRoleChange({ actorId, userId, currentRole, newRole, adminCount }: RoleChangeInput): string | null {
+  if (!isUserRole(newRole)) return `Role must be one of: ${USER_ROLES.join(', ')}`
+  if (newRole === currentRole || currentRole !== 'admin') return null
+
+  if (actorId === userId) return 'You cannot remove your own admin role'
+  if (adminCount <= 1) return 'The platform needs at least one admin'
+  return null
+}
+
+export function getInviteStatus(
+  invite: Pick<InstructorInvite, 'accepted_at' | 'revoked_at' | 'expires_at'>,
+  now: Date = new Date()
+): InviteStatus {
+  if (invite.accepted_at) return 'accepted'
+  if (invite.revoked_at) return 'revoked'
+  if (new Date(invite.expires_at).getTime() <= now.getTime()) return 'expired'
+  return 'pending'
+}
+
+export function getInviteExpiry(now: Date = new Date()): string {
+  return new Date(now.getTime() + INVITE_EXPIRY_DAYS * 24 * 60 * 60 * 1000).toISOString()
+}
+
+/**
+ * Accepting an invite raises a student to instructor; admins keep their role
+ */
+export function getRoleAfterInvite(currentRole: UserRole): UserRole {
+  return currentRole === 'admin' ? 'admin' : 'instructor'
+}
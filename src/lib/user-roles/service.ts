@@ -0,0 +1,299 @@
+/**
+ * User Roles
+ * Roles live only in users.role. Every change goes through here and is
+ * recorded in admin_activity_logs: direct role changes by an admin, and
+ * instructor invitations from creation to acceptance.
+ */
+
+import { createHash, randomBytes } from 'crypto'
+import { logAdminActivity } from '@/lib/admin-activity'
+import { isValidEmail } from '@/lib/email/settings'
+import {
+  getInviteExpiry,
+  getInviteStatus,
+  getRoleAfterInvite,
+  validateRoleChange
+} from './rules'
+import type { InstructorInvite, UserRole } from './types'
+
+/**
+ * Raised for role changes and invitations that aren't allowed; API routes map it to 400
+ */
+export class RoleChangeError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RoleChangeError'
+  }
+}
+
+const INVITE_FIELDS = 'id, email, invited_by, expires_at, accepted_at, accepted_by, revoked_at, created_at, users!instructor_invites_invited_by_fkey (name)'
+
+function toInstructorInvite(row: any, now: Date = new Date()): InstructorInvite {
+  const { users: inviter, ...invite } = row
+  return { ...invite, inviter_name: inviter?.name || null, status: getInviteStatus(row, now) }
+}
+
+/** Only a hash of the token is stored, so the table alone can't be used to accept an invite */
+export function hashInviteToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+async function countAdmins(serviceClient: any): Promise<number> {
+  const { count, error } = await serviceClient
+    .from('users')
+    .select('id', { count: 'exact', head: true })
+    .eq('role', 'admin')
+
+  if (error) {
+    throw new Error(`Failed to count admins: ${error.message}`)
+  }
+  return count || 0
+}
+
+/**
+ * Set a user's role. Returns the user as saved; changed is false when the
+ * user already had the role, in which case nothing is written or logged.
+ */
+export async function changeUserRole(
+  serviceClient: any,
+  actorId: string,
+  userId: string,
+  role: unknown,
+  request?: Request | null
+): Promise<{ user: { id: string; email: string; name: string; role: UserRole }; changed: boolean }> {
+  const { data: user, error } = await serviceClient
+    .from('users')
+    .select('id, email, name, role')
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load user: ${error.message}`)
+  }
+  if (!user) {
+    throw new Error('User not found')
+  }
+
+  const adminCount = user.role === 'admin' ? await countAdmins(serviceClient) : 0
+  const problem = validateRoleChange({ actorId, userId, currentRole: user.role, newRole: role, adminCount })
+  if (problem) {
+    throw new RoleChangeError(problem)
+  }
+  if (role === user.role) {
+    return { user, changed: false }
+  }
+
+  const { data: updated, error: updateError } = await serviceClient
+    .from('users')
+    .update({ role, updated_at: new Date().toISOString() })
+    .eq('id', userId)
+    .select('id, email, name, role')
+    .single()
+
+  if (updateError) {
+    throw new Error(`Failed to change role: ${updateError.message}`)
+  }
+
+  await logAdminActivity(serviceClient, actorId, {
+    action: 'user.role_changed',
+    resource_type: 'user',
+    resource_id: userId,
+    old_values: { role: user.role },
+    new_values: { role }
+  }, request)
+
+  return { user: updated, changed: true }
+}
+
+export async function listInstructorInvites(serviceClient: any, limit: number = 100): Promise<InstructorInvite[]> {
+  const { data, error } = await serviceClient
+    .from('instructor_invites')
+    .select(INVITE_FIELDS)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Failed to load invitations: ${error.message}`)
+  }
+
+  const now = new Date()
+  return (data || []).map((row: any) => toInstructorInvite(row, now))
+}
+
+/**
+ * Invite someone to become an instructor. Any earlier pending invitation for
+ * the same address is revoked, so only the newest link works. The token is
+ * returned once, for the email and for the admin to copy.
+ */
+export async function createInstructorInvite(
+  serviceClient: any,
+  actorId: string,
+  email: unknown,
+  request?: Request | null
+): Promise<{ invite: InstructorInvite; token: string }> {
+  const normalizedEmail = typeof email === 'string' ? email.trim().toLowerCase() : ''
+  if (!isValidEmail(normalizedEmail)) {
+    throw new RoleChangeError('Enter a valid email address')
+  }
+
+  const { data: existingUser } = await serviceClient
+    .from('users')
+    .select('role')
+    .eq('email', normalizedEmail)
+    .maybeSingle()
+
+  if (existingUser && existingUser.role !== 'student') {
+    throw new RoleChangeError(`This person is already ${existingUser.role === 'admin' ? 'an admin' : 'an instructor'}`)
+  }
+
+  const now = new Date()
+  const { error: revokeError } = await serviceClient
+    .from('instructor_invites')
+    .update({ revoked_at: now.toISOString() })
+    .eq('email', normalizedEmail)
+    .is('accepted_at', null)
+    .is('revoked_at', null)
+
+  if (revokeError) {
+    throw new Error(`Failed to replace earlier invitations: ${revokeError.message}`)
+  }
+
+  const token = randomBytes(32).toString('base64url')
+  const { data, error } = await serviceClient
+    .from('instructor_invites')
+    .insert({
+      email: normalizedEmail,
+      token_hash: hashInviteToken(token),
+      invited_by: actorId,
+      expires_at: getInviteExpiry(now)
+    })
+    .select(INVITE_FIELDS)
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to create invitation: ${error.message}`)
+  }
+
+  await logAdminActivity(serviceClient, actorId, {
+    action: 'instructor_invite.created',
+    resource_type: 'instructor_invite',
+    resource_id: data.id,
+    new_values: { email: normalizedEmail, expires_at: data.expires_at }
+  }, request)
+
+  return { invite: toInstructorInvite(data, now), token }
+}
+
+export async function revokeInstructorInvite(
+  serviceClient: any,
+  actorId: string,
+  inviteId: string,
+  request?: Request | null
+): Promise<InstructorInvite | null> {
+  const { data, error } = await serviceClient
+    .from('instructor_invites')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', inviteId)
+    .is('accepted_at', null)
+    .is('revoked_at', null)
+    .select(INVITE_FIELDS)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to revoke invitation: ${error.message}`)
+  }
+  if (!data) return null
+
+  await logAdminActivity(serviceClient, actorId, {
+    action: 'instructor_invite.revoked',
+    resource_type: 'instructor_invite',
+    resource_id: inviteId,
+    old_values: { email: data.email }
+  }, request)
+
+  return toInstructorInvite(data)
+}
+
+/**
+ * Accept an invitation as the signed-in user. The invite must be pending and
+ * addressed to the user's own email. The role change is logged under the
+ * admin who sent the invitation.
+ */
+export async function acceptInstructorInvite(
+  serviceClient: any,
+  user: { id: string; email: string },
+  token: string,
+  request?: Request | null
+): Promise<{ invite: InstructorInvite; role: UserRole }> {
+  const { data: row, error } = await serviceClient
+    .from('instructor_invites')
+    .select(INVITE_FIELDS)
+    .eq('token_hash', hashInviteToken(token))
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load invitation: ${error.message}`)
+  }
+  if (!row) {
+    throw new RoleChangeError('This invitation link is not valid')
+  }
+
+  const invite = toInstructorInvite(row)
+  if (invite.status !== 'pending') {
+    throw new RoleChangeError(`This invitation has been ${invite.status === 'expired' ? 'expired' : invite.status === 'revoked' ? 'withdrawn' : 'used already'}`)
+  }
+  if (invite.email !== user.email.trim().toLowerCase()) {
+    throw new RoleChangeError(`This invitation was sent to ${invite.email}. Sign in with that address to accept it.`)
+  }
+
+  const { data: profile, error: profileError } = await serviceClient
+    .from('users')
+    .select('role')
+    .eq('id', user.id)
+    .single()
+
+  if (profileError) {
+    throw new Error(`Failed to load user: ${profileError.message}`)
+  }
+
+  const role = getRoleAfterInvite(profile.role)
+  const acceptedAt = new Date().toISOString()
+
+  // Claim the invite first so two tabs can't both accept it
+  const { data: claimed, error: claimError } = await serviceClient
+    .from('instructor_invites')
+    .update({ accepted_at: acceptedAt, accepted_by: user.id })
+    .eq('id', invite.id)
+    .is('accepted_at', null)
+    .is('revoked_at', null)
+    .select('id')
+    .maybeSingle()
+
+  if (claimError) {
+    throw new Error(`Failed to accept invitation: ${claimError.message}`)
+  }
+  if (!claimed) {
+    throw new RoleChangeError('This invitation has been used already')
+  }
+
+  if (role !== profile.role) {
+    const { error: updateError } = await serviceClient
+      .from('users')
+      .update({ role, updated_at: acceptedAt })
+      .eq('id', user.id)
+
+    if (updateError) {
+      throw new Error(`Failed to change role: ${updateError.message}`)
+    }
+  }
+
+  await logAdminActivity(serviceClient, invite.invited_by, {
+    action: 'instructor_invite.accepted',
+    resource_type: 'user',
+    resource_id: user.id,
+    old_values: { role: profile.role },
+    new_values: { role, invite_id: invite.id }
+  }, request)
+
+  return { invite: { ...invite, accepted_at: acceptedAt, accepted_by: user.id, status: 'accepted' }, role }
+}
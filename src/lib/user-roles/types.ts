@@ -0,0 +1,34 @@
+/**
+ * User Role Types
+ */
+
+import type { UserRole } from '@/lib/auth-security'
+
+export type { UserRole }
+
+export const USER_ROLES = ['student', 'instructor', 'admin'] as const satisfies readonly UserRole[]
+
+export const INVITE_STATUSES = ['pending', 'accepted', 'revoked', 'expired'] as const
+export type InviteStatus = typeof INVITE_STATUSES[number]
+
+export interface InstructorInvite {
+  id: string
+  email: string
+  invited_by: string | null
+  inviter_name: string | null
+  expires_at: string
+  accepted_at: string | null
+  accepted_by: string | null
+  revoked_at: string | null
+  created_at: string
+  status: InviteStatus
+}
+
+export interface RoleChangeInput {
+  actorId: string
+  userId: string
+  currentRole: UserRole
+  newRole: unknown
+  /** Admins on the platform, counted before the change */
+  adminCount: number
+}
@@ -0,0 +1,221 @@
+/**
+ * User Settings
+ * The dashboard settings page, persisted in user_settings. Missing or unknown
+ * values fall back to the defaults, so older rows keep working as settings are added.
+ */
+
+import { isValidTimezone } from './date-utils'
+
+export interface UserSettings {
+  notifications: {
+    courseReminders: boolean
+    quizDeadlines: boolean
+    progressUpdates: boolean
+    emailDigest: boolean
+    /** Badges earned */
+    achievements: boolean
+    /** Essay answers graded by an instructor */
+    gradedWork: boolean
+  }
+  preferences: {
+    language: string
+    timezone: string
+    theme: 'light' | 'dark' | 'system'
+    autoplay: boolean
+    soundEffects: boolean
+  }
+  privacy: {
+    profileVisibility: 'public' | 'private'
+    progressSharing: boolean
+    analyticsOptOut: boolean
+    /** Appear by name in leaderboard standings */
+    showOnLeaderboards: boolean
+  }
+}
+
+export type UserSettingsUpdate = {
+  [Section in keyof UserSettings]?: Partial<UserSettings[Section]>
+}
+
+export const DEFAULT_USER_SETTINGS: UserSettings = {
+  notifications: {
+    courseReminders: true,
+    quizDeadlines: true,
+    progressUpdates: false,
+    emailDigest: true,
+    achievements: true,
+    gradedWork: true
+  },
+  preferences: {
+    language: 'en',
+    timezone: 'UTC',
+    theme: 'light',
+    autoplay: false,
+    soundEffects: true
+  },
+  privacy: {
+    profileVisibility: 'private',
+    progressSharing: false,
+    analyticsOptOut: false,
+    showOnLeaderboards: true
+  }
+}
+
+const LANGUAGES = ['en', 'es', 'fr', 'de']
+const THEMES = ['light', 'dark', 'system']
+const PROFILE_VISIBILITIES = ['public', 'private']
+
+/**
+ * Validation for a (partial) settings update; returns the first problem found
+ */
+export function validateUserSettings(body: any): string | null {
+  if (!body || typeof body !== 'object') return 'Settings are required'
+
+  for (const section of Object.keys(body)) {
+    if (!(section in DEFAULT_USER_SETTINGS)) return `Unknown settings section: ${section}`
+    if (!body[section] || typeof body[section] !== 'object') return `${section} must be an object`
+
+    const defaults = DEFAULT_USER_SETTINGS[section as keyof UserSettings] as Record<string, unknown>
+    for (const [key, value] of Object.entries(body[section])) {
+      if (!(key in defaults)) return `Unknown setting: ${section}.${key}`
+      if (typeof defaults[key] === 'boolean' && typeof value !== 'boolean') {
+        return `${section}.${key} must be true or false`
+      }
+    }
+  }
+
+  const { preferences, privacy } = body
+  if (preferences?.language !== undefined && !LANGUAGES.includes(preferences.language)) {
+    return `Language must be one of: ${LANGUAGES.join(', ')}`
+  }
+  if (preferences?.theme !== undefined && !THEMES.includes(preferences.theme)) {
+    return `Theme must be one of: ${THEMES.join(', ')}`
+  }
+  if (preferences?.timezone !== undefined && !isValidTimezone(preferences.timezone)) {
+    return 'Timezone must be an IANA timezone such as Europe/London'
+  }
+  if (privacy?.profileVisibility !== undefined && !PROFILE_VISIBILITIES.includes(privacy.profileVisibility)) {
+    return 'Profile visibility must be public or private'
+  }
+
+  return null
+}
+
+function mergeSection<T extends object>(defaults: T, stored: any): T {
+  const merged = { ...defaults }
+  if (!stored || typeof stored !== 'object') return merged
+
+  for (const key of Object.keys(defaults) as Array<keyof T>) {
+    if (stored[key] !== undefined && typeof stored[key] === typeof defaults[key]) {
+      merged[key] = stored[key]
+    }
+  }
+  return merged
+}
+
+/**
+ * Settings from a user_settings row (or null when the user never saved any)
+ */
+export function toUserSettings(row: any): UserSettings {
+  const preferences = mergeSection(DEFAULT_USER_SETTINGS.preferences, row?.appearance_settings)
+  preferences.timezone = isValidTimezone(row?.timezone) ? row.timezone : DEFAULT_USER_SETTINGS.preferences.timezone
+
+  return {
+    notifications: mergeSection(DEFAULT_USER_SETTINGS.notifications, row?.notification_preferences),
+    preferences,
+    privacy: mergeSection(DEFAULT_USER_SETTINGS.privacy, row?.privacy_settings)
+  }
+}
+
+export function mergeUserSettings(current: UserSettings, update: UserSettingsUpdate): UserSettings {
+  return {
+    notifications: { ...current.notifications, ...update.notifications },
+    preferences: { ...current.preferences, ...update.preferences },
+    privacy: { ...current.privacy, ...update.privacy }
+  }
+}
+
+export async function loadUserSettings(serviceClient: any, userId: string): Promise<UserSettings> {
+  const { data, error } = await serviceClient
+    .from('user_settings')
+    .select('notification_preferences, privacy_settings, appearance_settings, timezone')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load settings: ${error.message}`)
+  }
+
+  return toUserSettings(data)
+}
+
+export async function saveUserSettings(
+  serviceClient: any,
+  userId: string,
+  update: UserSettingsUpdate
+): Promise<UserSettings> {
+  const settings = mergeUserSettings(await loadUserSettings(serviceClient, userId), update)
+  const { timezone, ...appearance } = settings.preferences
+
+  const { error } = await serviceClient
+    .from('user_settings')
+    .upsert({
+      user_id: userId,
+      notification_preferences: settings.notifications,
+      privacy_settings: settings.privacy,
+      appearance_settings: appearance,
+      timezone,
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'user_id' })
+
+  if (error) {
+    throw new Error(`Failed to save settings: ${error.message}`)
+  }
+
+  return settings
+}
+
+/**
+ * Which of the given users chose not to appear on leaderboards
+ */
+export async function listLeaderboardOptOuts(serviceClient: any, userIds: string[]): Promise<Set<string>> {
+  if (userIds.length === 0) return new Set()
+
+  const { data, error } = await serviceClient
+    .from('user_settings')
+    .select('user_id')
+    .in('user_id', userIds)
+    .eq('privacy_settings->>showOnLeaderboards', 'false')
+
+  if (error) {
+    throw new Error(`Failed to load privacy settings: ${error.message}`)
+  }
+
+  return new Set((data || []).map((row: { user_id: string }) => row.user_id))
+}
+
+/**
+ * Notification settings for each of the given users; users who never saved
+ * settings get the defaults
+ */
+export async function loadNotificationSettings(
+  serviceClient: any,
+  userIds: string[]
+): Promise<Map<string, UserSettings['notifications']>> {
+  const settings = new Map(userIds.map(userId => [userId, { ...DEFAULT_USER_SETTINGS.notifications }]))
+  if (userIds.length === 0) return settings
+
+  const { data, error } = await serviceClient
+    .from('user_settings')
+    .select('user_id, notification_preferences')
+    .in('user_id', userIds)
+
+  if (error) {
+    throw new Error(`Failed to load notification settings: ${error.message}`)
+  }
+
+  for (const row of data || []) {
+    settings.set(row.user_id, mergeSection(DEFAULT_USER_SETTINGS.notifications, row.notification_preferences))
+  }
+  return settings
+}
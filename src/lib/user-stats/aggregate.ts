@@ -0,0 +1,158 @@
+/**
+ * User Stats Aggregation
+ * Turns a learner's quiz attempts, lesson progress and badges into streaks,
+ * points, study time and weekly trends. Days are calendar days in the learner's
+ * own timezone, so a quiz at 23:30 in Sydney counts for that Sydney day.
+ */
+
+import type { PerformanceTrends, StatsInput, UserStats, WeeklyTrend } from './types'
+
+/** Points for the first pass of each quiz, a 100% score on it and each completed lesson; badges add their own */
+export const POINT_VALUES = {
+  quiz_passed: 10,
+  perfect_score: 5,
+  lesson_completed: 2
+}
+
+export const TREND_WEEKS = 12
+/** Days covered by the dashboard heatmap: 26 full weeks plus the current one */
+export const HEATMAP_DAYS = 27 * 7
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * The calendar day (YYYY-MM-DD) a moment falls on in a timezone
+ */
+export function toLocalDate(timestamp: string | Date, timezone: string): string {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  }).formatToParts(typeof timestamp === 'string' ? new Date(timestamp) : timestamp)
+  const part = (type: string) => parts.find(entry => entry.type === type)?.value
+  return `${part('year')}-${part('month')}-${part('day')}`
+}
+
+export function addDays(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10)
+}
+
+/** Monday of the week containing the date */
+export function getWeekStart(date: string): string {
+  const weekday = new Date(`${date}T00:00:00Z`).getUTCDay()
+  return addDays(date, -((weekday + 6) % 7))
+}
+
+/**
+ * Current and longest runs of consecutive active days. The current streak stays
+ * alive through today while yesterday was active, so it doesn't drop to zero
+ * every morning before the learner has studied.
+ */
+export function computeStreaks(activeDays: string[], today: string): { current: number; longest: number } {
+  const days = Array.from(new Set(activeDays)).sort()
+
+  let longest = 0
+  let run = 0
+  days.forEach((day, index) => {
+    run = index > 0 && addDays(days[index - 1], 1) === day ? run + 1 : 1
+    longest = Math.max(longest, run)
+  })
+
+  const last = days[days.length - 1]
+  const current = last === today || last === addDays(today, -1) ? run : 0
+
+  return { current, longest }
+}
+
+function isTimestamp(value: string | null | undefined): value is string {
+  return Boolean(value) && Number.isFinite(Date.parse(value as string))
+}
+
+/**
+ * Everything user_stats stores, recomputed from the learner's full history.
+ * Attempts waiting for an essay grade count as activity and study time but not
+ * toward scores or points until they are graded.
+ */
+export function aggregateUserStats(input: StatsInput, timezone: string, now = new Date()): UserStats {
+  const today = toLocalDate(now, timezone)
+  const attempts = input.attempts.filter(attempt => isTimestamp(attempt.completed_at))
+  const graded = attempts.filter(attempt => attempt.grading_status !== 'pending_review')
+
+  // Lesson activity is dated by completion, or by the last watch for lessons still in progress
+  const lessons = input.lessons
+    .map(lesson => ({ ...lesson, at: lesson.completed_at || (lesson.watch_time_minutes ? lesson.updated_at : null) }))
+    .filter(lesson => isTimestamp(lesson.at))
+
+  const activities = [
+    ...attempts.map(attempt => ({
+      day: toLocalDate(attempt.completed_at!, timezone),
+      quiz: true,
+      lesson_completed: false,
+      minutes: (attempt.time_taken_seconds || 0) / 60,
+      score: attempt.grading_status === 'pending_review' ? null : Number(attempt.percentage_score ?? 0)
+    })),
+    ...lessons.map(lesson => ({
+      day: toLocalDate(lesson.at!, timezone),
+      quiz: false,
+      lesson_completed: Boolean(lesson.is_completed),
+      minutes: lesson.watch_time_minutes || 0,
+      score: null as number | null
+    }))
+  ]
+
+  const streaks = computeStreaks(activities.map(activity => activity.day), today)
+
+  const passedQuizzes = new Set(graded.filter(attempt => attempt.passed).map(attempt => attempt.quiz_id))
+  const perfectQuizzes = new Set(graded.filter(attempt => Number(attempt.percentage_score) >= 100).map(attempt => attempt.quiz_id))
+  const completedLessons = input.lessons.filter(lesson => lesson.is_completed).length
+  const totalPoints = passedQuizzes.size * POINT_VALUES.quiz_passed +
+    perfectQuizzes.size * POINT_VALUES.perfect_score +
+    completedLessons * POINT_VALUES.lesson_completed +
+    input.badge_points
+
+  const studyMinutes = activities.reduce((total, activity) => total + activity.minutes, 0)
+  const averageScore = graded.length > 0
+    ? graded.reduce((total, attempt) => total + Number(attempt.percentage_score ?? 0), 0) / graded.length
+    : 0
+
+  // Weekly trends, oldest first, always TREND_WEEKS long so charts line up
+  const currentWeek = getWeekStart(today)
+  const weekly: WeeklyTrend[] = Array.from({ length: TREND_WEEKS }, (_, index) => {
+    const weekStart = addDays(currentWeek, (index - TREND_WEEKS + 1) * 7)
+    const weekEnd = addDays(weekStart, 7)
+    const inWeek = activities.filter(activity => activity.day >= weekStart && activity.day < weekEnd)
+    const scores = inWeek.filter(activity => activity.score !== null).map(activity => activity.score!)
+
+    return {
+      week_start: weekStart,
+      quizzes: inWeek.filter(activity => activity.quiz).length,
+      average_score: scores.length > 0
+        ? Math.round(scores.reduce((total, score) => total + score, 0) / scores.length * 10) / 10
+        : null,
+      lessons_completed: inWeek.filter(activity => activity.lesson_completed).length,
+      study_minutes: Math.round(inWeek.reduce((total, activity) => total + activity.minutes, 0)),
+      active_days: new Set(inWeek.map(activity => activity.day)).size
+    }
+  })
+
+  const heatmapStart = addDays(today, -(HEATMAP_DAYS - 1))
+  const daily: PerformanceTrends['daily'] = {}
+  activities
+    .filter(activity => activity.day >= heatmapStart && activity.day <= today)
+    .forEach(activity => { daily[activity.day] = (daily[activity.day] || 0) + 1 })
+
+  const activeDays = activities.map(activity => activity.day).sort()
+
+  return {
+    study_streak_days: streaks.current,
+    longest_streak_days: streaks.longest,
+    last_activity_date: activeDays[activeDays.length - 1] || null,
+    total_points: totalPoints,
+    total_study_time_minutes: Math.round(studyMinutes),
+    quizzes_completed: attempts.length,
+    average_score: Math.round(averageScore * 100) / 100,
+    badges_earned: input.badges_earned,
+    performance_trends: { timezone, weekly, daily }
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * User Stats
+ * Study streaks, points, study time and weekly trends kept in user_stats,
+ * recomputed from quiz attempts, lesson progress and badges.
+ */
+
+export {
+  type StatsAttempt,
+  type StatsLesson,
+  type StatsInput,
+  type WeeklyTrend,
+  type PerformanceTrends,
+  type UserStats
+} from './types'
+
+export {
+  POINT_VALUES,
+  TREND_WEEKS,
+  HEATMAP_DAYS,
+  toLocalDate,
+  addDays,
+  getWeekStart,
+  computeStreaks,
+  aggregateUserStats
+} from './aggregate'
+
+export {
+  USER_STATS_FIELDS,
+  refreshUserStats,
+  toUserStats,
+  loadUserStats
+} from './sync'
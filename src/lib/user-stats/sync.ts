@@ -0,0 +1,103 @@
+/**
+ * User Stats Sync
+ * Recomputes a learner's user_stats row from their records. The row is rebuilt
+ * in full each time rather than incremented, so replays and missed events can't
+ * make it drift.
+ */
+
+import { logger } from '@/lib/logger'
+import { loadUserSettings } from '@/lib/user-settings'
+import { aggregateUserStats } from './aggregate'
+import type { StatsAttempt, StatsLesson, UserStats } from './types'
+
+export const USER_STATS_FIELDS = 'study_streak_days, longest_streak_days, last_activity_date, total_points, total_study_time_minutes, quizzes_completed, average_score, badges_earned, performance_trends, updated_at'
+
+/**
+ * Recompute and store a learner's stats; returns what was stored
+ */
+export async function refreshUserStats(serviceClient: any, userId: string, now = new Date()): Promise<UserStats> {
+  const [settings, attemptsResult, lessonsResult, badgesResult] = await Promise.all([
+    loadUserSettings(serviceClient, userId),
+    serviceClient
+      .from('quiz_attempts')
+      .select('quiz_id, completed_at, percentage_score, passed, time_taken_seconds, grading_status')
+      .eq('user_id', userId)
+      .not('completed_at', 'is', null),
+    serviceClient
+      .from('lesson_progress')
+      .select('is_completed, completed_at, updated_at, watch_time_minutes')
+      .eq('user_id', userId),
+    serviceClient
+      .from('user_badges')
+      .select('badges (points)')
+      .eq('user_id', userId)
+  ])
+
+  if (attemptsResult.error) {
+    throw new Error(`Failed to load quiz attempts: ${attemptsResult.error.message}`)
+  }
+  if (lessonsResult.error) {
+    throw new Error(`Failed to load lesson progress: ${lessonsResult.error.message}`)
+  }
+  if (badgesResult.error) {
+    throw new Error(`Failed to load badges: ${badgesResult.error.message}`)
+  }
+
+  const badges: Array<{ badges: { points: number | null } | null }> = badgesResult.data || []
+  const stats = aggregateUserStats({
+    attempts: (attemptsResult.data || []) as StatsAttempt[],
+    lessons: (lessonsResult.data || []) as StatsLesson[],
+    badge_points: badges.reduce((total, row) => total + (row.badges?.points || 0), 0),
+    badges_earned: badges.length
+  }, settings.preferences.timezone, now)
+
+  const { data, error } = await serviceClient
+    .from('user_stats')
+    .upsert({ user_id: userId, ...stats, updated_at: now.toISOString() }, { onConflict: 'user_id' })
+    .select(USER_STATS_FIELDS)
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to save user stats: ${error.message}`)
+  }
+
+  logger.debug('User stats refreshed', { userId, streak: stats.study_streak_days, points: stats.total_points })
+
+  return toUserStats(data)
+}
+
+export function toUserStats(row: any): UserStats {
+  return {
+    study_streak_days: row.study_streak_days || 0,
+    longest_streak_days: row.longest_streak_days || 0,
+    last_activity_date: row.last_activity_date || null,
+    total_points: row.total_points || 0,
+    total_study_time_minutes: row.total_study_time_minutes || 0,
+    quizzes_completed: row.quizzes_completed || 0,
+    average_score: Number(row.average_score) || 0,
+    badges_earned: row.badges_earned || 0,
+    performance_trends: {
+      timezone: row.performance_trends?.timezone || 'UTC',
+      weekly: Array.isArray(row.performance_trends?.weekly) ? row.performance_trends.weekly : [],
+      daily: row.performance_trends?.daily && typeof row.performance_trends.daily === 'object' ? row.performance_trends.daily : {}
+    },
+    updated_at: row.updated_at
+  }
+}
+
+/**
+ * The stored stats row, or null for a learner who has none yet
+ */
+export async function loadUserStats(serviceClient: any, userId: string): Promise<UserStats | null> {
+  const { data, error } = await serviceClient
+    .from('user_stats')
+    .select(USER_STATS_FIELDS)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load user stats: ${error.message}`)
+  }
+
+  return data ? toUserStats(data) : null
+}
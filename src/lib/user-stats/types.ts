@@ -0,0 +1,62 @@
+/**
+ * User Stats Types
+ */
+
+/** A completed quiz attempt as the aggregator sees it */
+export interface StatsAttempt {
+  quiz_id: string
+  completed_at: string | null
+  percentage_score: number | null
+  passed: boolean | null
+  time_taken_seconds: number | null
+  grading_status?: string | null
+}
+
+/** A lesson_progress row */
+export interface StatsLesson {
+  is_completed: boolean | null
+  completed_at: string | null
+  updated_at: string | null
+  watch_time_minutes: number | null
+}
+
+export interface StatsInput {
+  attempts: StatsAttempt[]
+  lessons: StatsLesson[]
+  /** Points of every badge the learner holds */
+  badge_points: number
+  badges_earned: number
+}
+
+export interface WeeklyTrend {
+  /** Monday of the week, YYYY-MM-DD in the learner's timezone */
+  week_start: string
+  quizzes: number
+  /** Mean of the week's graded attempts; null when there were none */
+  average_score: number | null
+  lessons_completed: number
+  study_minutes: number
+  active_days: number
+}
+
+export interface PerformanceTrends {
+  timezone: string
+  /** Oldest week first, ending with the current one */
+  weekly: WeeklyTrend[]
+  /** Activities per local day (YYYY-MM-DD) over the heatmap window; quiet days are left out */
+  daily: Record<string, number>
+}
+
+export interface UserStats {
+  study_streak_days: number
+  longest_streak_days: number
+  /** YYYY-MM-DD in the learner's timezone */
+  last_activity_date: string | null
+  total_points: number
+  total_study_time_minutes: number
+  quizzes_completed: number
+  average_score: number
+  badges_earned: number
+  performance_trends: PerformanceTrends
+  updated_at?: string
+}
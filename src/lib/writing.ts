@@ -0,0 +1,157 @@
+/**
+ * Writing Tasks
+ * IELTS Writing Task 1 and Task 2 mode for essay questions. Each task has a minimum
+ * length (answers under it lose marks for task achievement), Task 1 shows its chart
+ * or diagram from the question's image_url, and graders mark the four writing
+ * criteria out of 9. Settings are stored in quiz_questions.writing_settings; plain
+ * essays leave it null.
+ */
+
+import type { RubricCriterion } from '@/types/question-types'
+
+export const WRITING_TASKS = [1, 2] as const
+export type WritingTask = typeof WRITING_TASKS[number]
+
+export interface WritingSettings {
+  task: WritingTask
+  min_words: number
+  /** 0 = no upper limit */
+  max_words: number
+}
+
+// IELTS asks for at least 150 words in about 20 minutes for Task 1 and 250 words in
+// about 40 minutes for Task 2
+export const WRITING_TASK_DEFAULTS: Record<WritingTask, { label: string; min_words: number; suggested_minutes: number; placeholder: string }> = {
+  1: {
+    label: 'Task 1: Describe a chart, diagram or process',
+    min_words: 150,
+    suggested_minutes: 20,
+    placeholder: 'The chart below shows... Summarise the information by selecting and reporting the main features, and make comparisons where relevant.'
+  },
+  2: {
+    label: 'Task 2: Essay',
+    min_words: 250,
+    suggested_minutes: 40,
+    placeholder: 'Some people believe that... To what extent do you agree or disagree? Give reasons for your answer and include any relevant examples from your own knowledge or experience.'
+  }
+}
+
+export const MAX_WRITING_WORDS = 2000
+
+const CRITERIA_AFTER_TASK: RubricCriterion[] = [
+  {
+    id: 'coherence_cohesion',
+    criterion: 'Coherence and Cohesion',
+    max_points: 9,
+    description: 'Information and ideas are logically organised, paragraphed and linked'
+  },
+  {
+    id: 'lexical_resource',
+    criterion: 'Lexical Resource',
+    max_points: 9,
+    description: 'Range and accuracy of vocabulary, spelling and word formation'
+  },
+  {
+    id: 'grammatical_range_accuracy',
+    criterion: 'Grammatical Range and Accuracy',
+    max_points: 9,
+    description: 'Variety of structures and how many sentences are free of errors'
+  }
+]
+
+// One band (0-9) per criterion; Task 2 calls its first criterion Task Response
+export const WRITING_RUBRICS: Record<WritingTask, RubricCriterion[]> = {
+  1: [
+    {
+      id: 'task_achievement',
+      criterion: 'Task Achievement',
+      max_points: 9,
+      description: 'Covers the requirements, presents a clear overview and highlights key features accurately'
+    },
+    ...CRITERIA_AFTER_TASK
+  ],
+  2: [
+    {
+      id: 'task_achievement',
+      criterion: 'Task Response',
+      max_points: 9,
+      description: 'Addresses all parts of the task with a clear position and well-supported ideas'
+    },
+    ...CRITERIA_AFTER_TASK
+  ]
+}
+
+function clampInteger(value: unknown, min: number, max: number, fallback: number): number {
+  const number = Number(value)
+  if (!Number.isFinite(number)) return fallback
+  return Math.min(max, Math.max(min, Math.round(number)))
+}
+
+function isWritingTask(value: unknown): value is WritingTask {
+  return WRITING_TASKS.includes(value as WritingTask)
+}
+
+/**
+ * Settings for an IELTS writing task, or null for a plain essay
+ */
+export function normalizeWritingSettings(value: any): WritingSettings | null {
+  if (!value || typeof value !== 'object' || !isWritingTask(value.task)) return null
+
+  const minWords = clampInteger(value.min_words, 0, MAX_WRITING_WORDS, WRITING_TASK_DEFAULTS[value.task as WritingTask].min_words)
+  const maxWords = clampInteger(value.max_words, 0, MAX_WRITING_WORDS, 0)
+
+  return {
+    task: value.task,
+    min_words: minWords,
+    max_words: maxWords > 0 && maxWords < minWords ? minWords : maxWords
+  }
+}
+
+/**
+ * Validation for writing settings sent by the quiz editor; returns the first problem found
+ */
+export function validateWritingSettings(value: unknown): string | null {
+  if (value === undefined || value === null) return null
+  if (typeof value !== 'object' || Array.isArray(value)) return 'Writing settings must be an object'
+
+  const settings = value as Record<string, any>
+  if (!isWritingTask(settings.task)) return 'Writing task must be 1 or 2'
+
+  for (const field of ['min_words', 'max_words'] as const) {
+    if (settings[field] !== undefined &&
+        (!Number.isInteger(settings[field]) || settings[field] < 0 || settings[field] > MAX_WRITING_WORDS)) {
+      return `Word limits must be whole numbers from 0 to ${MAX_WRITING_WORDS}`
+    }
+  }
+  if (settings.max_words > 0 && settings.min_words !== undefined && settings.max_words < settings.min_words) {
+    return 'The maximum word count must be at least the minimum'
+  }
+
+  return null
+}
+
+/**
+ * Words as IELTS examiners count them: anything between spaces, so numbers and
+ * hyphenated words count once
+ */
+export function countWords(text: string | null | undefined): number {
+  const trimmed = (text || '').trim()
+  return trimmed ? trimmed.split(/\s+/).length : 0
+}
+
+/**
+ * Warning for answers outside the task's word limits, or null when the length is fine
+ */
+export function getLengthWarning(wordCount: number, settings: WritingSettings | null): string | null {
+  if (!settings) return null
+
+  if (wordCount < settings.min_words) {
+    const criterion = WRITING_RUBRICS[settings.task][0].criterion
+    return `${settings.min_words - wordCount} words under the ${settings.min_words}-word minimum. Short answers lose marks for ${criterion}.`
+  }
+  if (settings.max_words > 0 && wordCount > settings.max_words) {
+    return `${wordCount - settings.max_words} words over the ${settings.max_words}-word limit`
+  }
+
+  return null
+}
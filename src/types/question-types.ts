@@ -60,12 +60,23 @@ export interface FillBlankData extends BaseQuestionData {
 // Essay specific data
 export interface EssayData extends BaseQuestionData {
   question_type: 'essay'
+  writing_task?: 1 | 2          // IELTS Writing mode (see lib/writing)
   min_words?: number
   max_words?: number
   rubric_criteria?: RubricCriterion[]
   auto_grade: boolean
 }
 
+// Speaking specific data (recorded answer, see lib/speaking)
+export interface SpeakingData extends BaseQuestionData {
+  question_type: 'speaking'
+  part: 1 | 2 | 3
+  prep_seconds: number
+  response_seconds: number
+  cue_card_points: string[]
+  rubric_criteria?: RubricCriterion[]
+}
+
 // Matching specific data
 export interface MatchingData extends BaseQuestionData {
   question_type: 'matching'
@@ -116,6 +127,7 @@ export type QuestionData =
   | TrueFalseData
   | FillBlankData
   | EssayData
+  | SpeakingData
   | MatchingData
   | OrderingData
 